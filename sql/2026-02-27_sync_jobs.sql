@@ -0,0 +1,107 @@
+-- 2026-02-27: sync_jobs — persisted, resumable per-platform sync queue
+--
+-- Large PSN/Xbox libraries (1,500+ titles) do not fit in one serverless request.
+-- A job walks an ordered list of steps (list -> titles -> ... -> finalize); each step
+-- processes a chunk and saves its cursor, so a timeout only loses the current chunk.
+--
+-- 1) sync_jobs: one row per queued/running/finished sync
+-- 2) sync_runs.job_id + progress_json: per-step progress on the run row the Connect page reads
+-- 3) RPC claim_sync_job: atomic claim (skip locked) for workers
+
+-- 1) sync_jobs
+create table if not exists public.sync_jobs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  platform text not null,
+  status text not null default 'queued'
+    check (status in ('queued', 'running', 'ok', 'error', 'cancelled')),
+  step text not null default 'list',
+  cursor jsonb not null default '{}',
+  items jsonb null,                       -- title list captured by the 'list' step
+  progress jsonb not null default '{}',   -- { <step>: { done, total } }
+  result jsonb null,                      -- accumulated counters, copied to sync_runs.result_json
+  attempts integer not null default 0,
+  max_attempts integer not null default 5,
+  next_run_at timestamptz not null default now(),
+  locked_at timestamptz null,
+  locked_by text null,
+  last_error text null,
+  run_id uuid null references public.sync_runs(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  finished_at timestamptz null
+);
+
+-- Only one active job per (user, platform); enqueue returns the existing one.
+create unique index if not exists sync_jobs_active_user_platform_uq
+  on public.sync_jobs (user_id, platform)
+  where status in ('queued', 'running');
+
+create index if not exists idx_sync_jobs_due
+  on public.sync_jobs (status, next_run_at);
+
+create index if not exists idx_sync_jobs_user_created
+  on public.sync_jobs (user_id, created_at desc);
+
+alter table public.sync_jobs enable row level security;
+
+drop policy if exists "sync_jobs_select_own" on public.sync_jobs;
+create policy "sync_jobs_select_own"
+  on public.sync_jobs for select
+  using (auth.uid() = user_id);
+
+comment on table public.sync_jobs is 'Resumable platform sync jobs. Writes via service role only (enqueue, claim, step progress, retry backoff).';
+comment on column public.sync_jobs.cursor is 'Step-local cursor, e.g. { "offset": 250 }. Reset to {} when the job advances to the next step.';
+comment on column public.sync_jobs.next_run_at is 'Earliest time a worker may claim the job. Pushed forward with exponential backoff after a failed chunk.';
+
+-- 2) sync_runs: link to job + per-step progress
+alter table public.sync_runs add column if not exists job_id uuid references public.sync_jobs(id) on delete set null;
+alter table public.sync_runs add column if not exists progress_json jsonb;
+
+comment on column public.sync_runs.progress_json is 'Job-driven runs only: { step, steps: { <step>: { done, total } } }. Updated after every chunk.';
+
+-- 3) claim_sync_job: lock the oldest due job (or a specific one) for a worker.
+-- A running job whose lock is older than p_lock_seconds is treated as abandoned and can be reclaimed.
+create or replace function public.claim_sync_job(
+  p_worker text,
+  p_job_id uuid default null,
+  p_lock_seconds integer default 300
+) returns setof public.sync_jobs
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid;
+begin
+  select j.id into v_id
+  from public.sync_jobs j
+  where (p_job_id is null or j.id = p_job_id)
+    and j.next_run_at <= now()
+    and (
+      j.status = 'queued'
+      or (j.status = 'running' and j.locked_at < now() - make_interval(secs => p_lock_seconds))
+    )
+  order by j.next_run_at asc
+  limit 1
+  for update skip locked;
+
+  if v_id is null then
+    return;
+  end if;
+
+  return query
+  update public.sync_jobs
+  set status = 'running',
+      locked_at = now(),
+      locked_by = p_worker,
+      updated_at = now()
+  where id = v_id
+  returning *;
+end;
+$$;
+
+-- Workers call this with the service role only.
+revoke all on function public.claim_sync_job(text, uuid, integer) from public;
+revoke all on function public.claim_sync_job(text, uuid, integer) from anon, authenticated;
+grant execute on function public.claim_sync_job(text, uuid, integer) to service_role;
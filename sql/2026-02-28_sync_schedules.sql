@@ -0,0 +1,34 @@
+-- 2026-02-28: sync_schedules — per-user automatic re-sync cadence
+--
+-- One row per (user, platform) the user opted into. GET /api/cron/resync walks due rows,
+-- skips users whose last sync_runs row is recent, backs off after consecutive errors, and
+-- queues a sync_jobs row (processed by /api/cron/sync-jobs).
+
+create table if not exists public.sync_schedules (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  platform text not null check (platform in ('psn', 'xbox', 'steam', 'ra')),
+  enabled boolean not null default true,
+  interval_hours integer not null default 24 check (interval_hours between 6 and 168),
+  next_due_at timestamptz not null default now(),
+  consecutive_errors integer not null default 0,
+  last_enqueued_at timestamptz null,
+  last_job_id uuid null references public.sync_jobs(id) on delete set null,
+  last_decision text null,                -- enqueue | recent_run | backoff | active_job | ...
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, platform)
+);
+
+create index if not exists idx_sync_schedules_due
+  on public.sync_schedules (next_due_at)
+  where enabled;
+
+alter table public.sync_schedules enable row level security;
+
+drop policy if exists "sync_schedules_select_own" on public.sync_schedules;
+create policy "sync_schedules_select_own"
+  on public.sync_schedules for select
+  using (auth.uid() = user_id);
+
+comment on table public.sync_schedules is 'Automatic re-sync cadence per user/platform. Written by /api/users/me/connections/schedule and the resync cron (service role).';
+comment on column public.sync_schedules.consecutive_errors is 'Leading error count from sync_runs at the last scheduler pass; drives exponential backoff.';
@@ -0,0 +1,16 @@
+-- 2026-03-01: incremental (delta) sync watermarks
+--
+-- Each platform sync stores the newest "changed at" timestamp it has seen and, on the next run,
+-- only processes titles changed after it (?full=true bypasses). Advanced only after a run with
+-- no per-title errors.
+
+alter table public.profiles add column if not exists psn_sync_watermark timestamptz;
+alter table public.profiles add column if not exists xbox_sync_watermark timestamptz;
+alter table public.profiles add column if not exists steam_sync_watermark timestamptz;
+
+comment on column public.profiles.psn_sync_watermark is 'Max trophy lastUpdatedDateTime / played lastPlayedDateTime from the last clean PSN sync.';
+comment on column public.profiles.xbox_sync_watermark is 'Max title last_played_at from the last clean Xbox sync.';
+comment on column public.profiles.steam_sync_watermark is 'Max rtime_last_played from the last clean Steam sync.';
+
+-- Job options (e.g. { "full": true }) for queued syncs
+alter table public.sync_jobs add column if not exists options jsonb not null default '{}';
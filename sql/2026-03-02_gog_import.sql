@@ -0,0 +1,51 @@
+-- 2026-03-02: GOG library import (GOG Galaxy database export)
+--
+-- GOG has no public library API. Users upload galaxy-2.0.db on /connect; the browser parses it
+-- and POST /api/sync/gog stores the owned-game snapshot in gog_library_uploads, then the GOG
+-- connector maps each game (release_external_ids source = 'gog', external_id = GOG product id)
+-- and writes gog_title_progress + portfolio_entries. Runs are recorded in sync_runs (platform 'gog').
+
+create table if not exists public.gog_library_uploads (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  games jsonb not null default '[]',       -- [{ product_id, title, playtime_minutes, last_played_at }]
+  game_count integer not null default 0,
+  skipped_other_platforms integer not null default 0,
+  source_filename text null,
+  uploaded_at timestamptz not null default now()
+);
+
+alter table public.gog_library_uploads enable row level security;
+
+drop policy if exists "gog_library_uploads_select_own" on public.gog_library_uploads;
+create policy "gog_library_uploads_select_own"
+  on public.gog_library_uploads for select
+  using (auth.uid() = user_id);
+
+comment on table public.gog_library_uploads is 'Last uploaded GOG Galaxy library snapshot per user (gog_* release keys only). Written by /api/sync/gog (service role).';
+
+create table if not exists public.gog_title_progress (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  gog_product_id text not null,
+  release_id uuid null references public.releases(id) on delete set null,
+  title_name text null,
+  playtime_minutes integer not null default 0,
+  last_played_at timestamptz null,
+  last_updated_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, gog_product_id)
+);
+
+create index if not exists idx_gog_title_progress_release
+  on public.gog_title_progress (release_id);
+
+alter table public.gog_title_progress enable row level security;
+
+drop policy if exists "gog_title_progress_select_own" on public.gog_title_progress;
+create policy "gog_title_progress_select_own"
+  on public.gog_title_progress for select
+  using (auth.uid() = user_id);
+
+comment on table public.gog_title_progress is 'Per-user GOG playtime / last played from the Galaxy export, keyed by GOG product id.';
+
+alter table public.profiles add column if not exists gog_last_synced_at timestamptz;
+alter table public.profiles add column if not exists gog_last_sync_count integer;
@@ -0,0 +1,55 @@
+-- 2026-03-03: Nintendo Switch play history import (Nintendo Account data export)
+--
+-- Nintendo has no public API. Users upload their play activity JSON on /connect; the browser
+-- parses it and POST /api/sync/switch stores one row per title in switch_play_history_uploads,
+-- then the Switch connector maps each title (release_external_ids source = 'switch',
+-- external_id = 16-hex application id) onto platform_key 'switch' releases. Unknown titles get a
+-- title-only game + game_match_queue row like every other sync.
+
+create table if not exists public.switch_play_history_uploads (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  titles jsonb not null default '[]',      -- [{ title_id, title, image_url, playtime_minutes, first_played_at, last_played_at }]
+  title_count integer not null default 0,
+  source_filename text null,
+  uploaded_at timestamptz not null default now()
+);
+
+alter table public.switch_play_history_uploads enable row level security;
+
+drop policy if exists "switch_play_history_uploads_select_own" on public.switch_play_history_uploads;
+create policy "switch_play_history_uploads_select_own"
+  on public.switch_play_history_uploads for select
+  using (auth.uid() = user_id);
+
+comment on table public.switch_play_history_uploads is 'Last uploaded Switch play activity snapshot per user. Written by /api/sync/switch (service role).';
+
+create table if not exists public.switch_title_progress (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  title_id text not null,
+  release_id uuid null references public.releases(id) on delete set null,
+  title_name text null,
+  playtime_minutes integer not null default 0,
+  first_played_at timestamptz null,
+  last_played_at timestamptz null,
+  last_updated_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, title_id)
+);
+
+create index if not exists idx_switch_title_progress_release
+  on public.switch_title_progress (release_id);
+
+alter table public.switch_title_progress enable row level security;
+
+drop policy if exists "switch_title_progress_select_own" on public.switch_title_progress;
+create policy "switch_title_progress_select_own"
+  on public.switch_title_progress for select
+  using (auth.uid() = user_id);
+
+comment on table public.switch_title_progress is 'Per-user Switch playtime and first/last played from the Nintendo play activity export.';
+
+-- First played date on the portfolio (Switch is the first source that knows it)
+alter table public.portfolio_entries add column if not exists first_played_at timestamptz;
+
+alter table public.profiles add column if not exists switch_last_synced_at timestamptz;
+alter table public.profiles add column if not exists switch_last_sync_count integer;
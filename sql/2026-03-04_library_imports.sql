@@ -0,0 +1,57 @@
+-- 2026-03-04: Library import from other trackers (Backloggd, HowLongToBeat, Grouvee, spreadsheets)
+--
+-- The /add-games/import wizard parses the export in the browser, maps columns, previews matches
+-- (POST /api/portfolio/import/preview) and commits resolved rows (POST /api/portfolio/import/commit).
+-- Each commit is one batch; batch items remember what they created or the values they replaced,
+-- so POST /api/portfolio/import/batches/:id/undo can roll the whole import back.
+
+create table if not exists public.library_import_batches (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  source text not null check (source in ('backloggd', 'hltb', 'grouvee', 'generic')),
+  filename text null,
+  status text not null default 'committed' check (status in ('committed', 'undone')),
+  row_count integer not null default 0,
+  created_count integer not null default 0,
+  updated_count integer not null default 0,
+  skipped_count integer not null default 0,
+  created_at timestamptz not null default now(),
+  undone_at timestamptz null
+);
+
+create index if not exists idx_library_import_batches_user
+  on public.library_import_batches (user_id, created_at desc);
+
+alter table public.library_import_batches enable row level security;
+
+drop policy if exists "library_import_batches_select_own" on public.library_import_batches;
+create policy "library_import_batches_select_own"
+  on public.library_import_batches for select
+  using (auth.uid() = user_id);
+
+comment on table public.library_import_batches is 'One row per committed library import. Written by /api/portfolio/import/* (service role).';
+
+create table if not exists public.library_import_batch_items (
+  id bigint generated always as identity primary key,
+  batch_id uuid not null references public.library_import_batches(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  release_id uuid not null references public.releases(id) on delete cascade,
+  action text not null check (action in ('created', 'updated')),
+  previous jsonb null,                    -- { status, playtime_minutes, first_played_at, last_played_at } before the import (updated only)
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_library_import_batch_items_batch
+  on public.library_import_batch_items (batch_id);
+
+create index if not exists idx_library_import_batch_items_release
+  on public.library_import_batch_items (release_id);
+
+alter table public.library_import_batch_items enable row level security;
+
+drop policy if exists "library_import_batch_items_select_own" on public.library_import_batch_items;
+create policy "library_import_batch_items_select_own"
+  on public.library_import_batch_items for select
+  using (auth.uid() = user_id);
+
+comment on table public.library_import_batch_items is 'Portfolio entries touched by a library import batch, with the values they replaced (for undo).';
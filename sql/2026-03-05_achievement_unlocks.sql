@@ -0,0 +1,65 @@
+-- 2026-03-05: Unified achievement unlock timeline
+--
+-- One row per unlocked achievement / trophy, across PSN, Xbox, Steam and RetroAchievements.
+-- Filled whenever achievements are fetched live (/api/psn/trophies[/hydrate], /api/xbox/achievements/hydrate,
+-- /api/releases/:id/achievements, /api/steam/achievements, /api/ra/achievements) and queried by
+-- GET /api/achievements/unlocks?from=&to= for "what did I do this month" views.
+-- external_game_id = np_communication_id (psn), title_id (xbox), appid (steam), RA game id (ra).
+
+create table if not exists public.achievement_unlocks (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  platform text not null check (platform in ('psn', 'xbox', 'steam', 'ra')),
+  release_id uuid null references public.releases(id) on delete set null,
+  external_game_id text not null,
+  achievement_id text not null,
+  achievement_name text null,
+  icon_url text null,
+  unlocked_at timestamptz not null,
+  rarity_percentage numeric null,          -- % of players who unlocked it, when the platform reports one
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, platform, external_game_id, achievement_id)
+);
+
+create index if not exists idx_achievement_unlocks_user_unlocked
+  on public.achievement_unlocks (user_id, unlocked_at desc, id desc);
+
+create index if not exists idx_achievement_unlocks_release
+  on public.achievement_unlocks (release_id);
+
+alter table public.achievement_unlocks enable row level security;
+
+drop policy if exists "achievement_unlocks_select_own" on public.achievement_unlocks;
+create policy "achievement_unlocks_select_own"
+  on public.achievement_unlocks for select
+  using (auth.uid() = user_id);
+
+comment on table public.achievement_unlocks is 'Per-user unlocked achievements/trophies with unlock time, normalized across platforms. Written by achievement routes (service role).';
+
+-- Backfill from what earlier hydrates already cached.
+insert into public.achievement_unlocks (user_id, platform, release_id, external_game_id, achievement_id, achievement_name, icon_url, unlocked_at)
+select user_id, 'psn', release_id, np_communication_id, trophy_id::text, trophy_name, trophy_icon_url, earned_at
+from public.psn_trophies
+where earned and earned_at is not null
+on conflict (user_id, platform, external_game_id, achievement_id) do nothing;
+
+insert into public.achievement_unlocks (user_id, platform, release_id, external_game_id, achievement_id, achievement_name, icon_url, unlocked_at, rarity_percentage)
+select user_id, 'xbox', release_id, title_id, achievement_id, achievement_name, achievement_icon_url, earned_at, rarity_percentage
+from public.xbox_achievements
+where earned and earned_at is not null
+on conflict (user_id, platform, external_game_id, achievement_id) do nothing;
+
+insert into public.achievement_unlocks (user_id, platform, release_id, external_game_id, achievement_id, achievement_name, icon_url, unlocked_at)
+select c.user_id, 'steam', c.release_id, c.payload->>'steam_appid', a->>'achievement_id', a->>'achievement_name', a->>'achievement_icon_url', (a->>'earned_at')::timestamptz
+from public.steam_achievement_cache c
+cross join lateral jsonb_array_elements(coalesce(c.payload->'achievements', '[]'::jsonb)) a
+where c.payload->>'steam_appid' is not null and (a->>'earned')::boolean and a->>'earned_at' is not null
+on conflict (user_id, platform, external_game_id, achievement_id) do nothing;
+
+insert into public.achievement_unlocks (user_id, platform, release_id, external_game_id, achievement_id, achievement_name, icon_url, unlocked_at)
+select c.user_id, 'ra', c.release_id, c.payload->>'ra_game_id', a->>'achievement_id', a->>'achievement_name', a->>'achievement_icon_url', (a->>'earned_at')::timestamptz
+from public.ra_achievement_cache c
+cross join lateral jsonb_array_elements(coalesce(c.payload->'achievements', '[]'::jsonb)) a
+where c.payload->>'ra_game_id' is not null and (a->>'earned')::boolean and a->>'earned_at' is not null
+on conflict (user_id, platform, external_game_id, achievement_id) do nothing;
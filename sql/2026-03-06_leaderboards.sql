@@ -0,0 +1,48 @@
+-- 2026-03-06: Precomputed leaderboards (replaces /api/leaderboard/mock)
+--
+-- GET /api/cron/leaderboard rescores every public profile with the v11 score (lib/score/v11.ts)
+-- and rewrites leaderboard_entries: one row per (board, user). Boards: 'global',
+-- 'era:<EraKey>' (early, nes, snes, ps1, ps2, ps3_360, wii, modern) and 'platform:<key>'
+-- (steam, psn, xbox, ra). GET /api/leaderboard reads ranks from here, never scoring live.
+
+create table if not exists public.leaderboard_entries (
+  board text not null,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  score integer not null,
+  rank integer not null,
+  computed_at timestamptz not null default now(),
+  primary key (board, user_id)
+);
+
+create index if not exists idx_leaderboard_entries_board_rank
+  on public.leaderboard_entries (board, rank);
+
+create index if not exists idx_leaderboard_entries_user
+  on public.leaderboard_entries (user_id);
+
+-- Service role only: the API joins display names and hides user ids.
+alter table public.leaderboard_entries enable row level security;
+
+comment on table public.leaderboard_entries is 'Precomputed v11 score ranks per board for public profiles. Rewritten by /api/cron/leaderboard (service role).';
+
+-- Who a user follows. The friends-only leaderboard is the viewer plus accepted follows.
+create table if not exists public.user_follows (
+  follower_id uuid not null references auth.users(id) on delete cascade,
+  following_id uuid not null references auth.users(id) on delete cascade,
+  status text not null default 'accepted' check (status in ('pending', 'accepted')),
+  created_at timestamptz not null default now(),
+  primary key (follower_id, following_id),
+  check (follower_id <> following_id)
+);
+
+create index if not exists idx_user_follows_following
+  on public.user_follows (following_id);
+
+alter table public.user_follows enable row level security;
+
+drop policy if exists "user_follows_select_own" on public.user_follows;
+create policy "user_follows_select_own"
+  on public.user_follows for select
+  using (auth.uid() = follower_id or auth.uid() = following_id);
+
+comment on table public.user_follows is 'Follow edges (follower -> following). pending until the followed user approves.';
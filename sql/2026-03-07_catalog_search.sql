@@ -0,0 +1,163 @@
+-- 2026-03-07: Fuzzy catalog search (replaces ilike '%q%' in /api/catalog/search)
+--
+-- Titles are compared in a normalized form: lower-case, '&' -> 'and', punctuation -> spaces and
+-- roman numerals II..XX -> digits, so "Final Fantasy VII", "final fantasy 7" and "FINAL FANTASY: VII"
+-- are the same string. On top of that:
+--   * trigram similarity (pg_trgm) on releases.display_title and games.canonical_title catches typos
+--   * an acronym key (initials, numbers kept whole) makes "ff7" / "FF VII" hit "Final Fantasy VII"
+--   * game_title_aliases.raw_title spellings resolve through canonical_title to their games
+-- catalog_search() returns the scored candidate set; lib/catalog/search.ts filters, facets and
+-- paginates it.
+
+create extension if not exists pg_trgm;
+
+create or replace function public.catalog_search_normalize(p_title text)
+returns text
+language sql
+immutable
+parallel safe
+as $$
+  select trim(regexp_replace(
+    regexp_replace(regexp_replace(regexp_replace(regexp_replace(regexp_replace(
+    regexp_replace(regexp_replace(regexp_replace(regexp_replace(regexp_replace(
+    regexp_replace(regexp_replace(regexp_replace(regexp_replace(regexp_replace(
+    regexp_replace(regexp_replace(regexp_replace(regexp_replace(
+      regexp_replace(replace(lower(coalesce(p_title, '')), '&', ' and '), '[^a-z0-9]+', ' ', 'g'),
+      '\mxx\M', '20', 'g'), '\mxix\M', '19', 'g'), '\mxviii\M', '18', 'g'), '\mxvii\M', '17', 'g'),
+      '\mxvi\M', '16', 'g'), '\mxv\M', '15', 'g'), '\mxiv\M', '14', 'g'), '\mxiii\M', '13', 'g'),
+      '\mxii\M', '12', 'g'), '\mxi\M', '11', 'g'), '\mx\M', '10', 'g'), '\mix\M', '9', 'g'),
+      '\mviii\M', '8', 'g'), '\mvii\M', '7', 'g'), '\mvi\M', '6', 'g'), '\mv\M', '5', 'g'),
+      '\miv\M', '4', 'g'), '\miii\M', '3', 'g'), '\mii\M', '2', 'g'),
+    '\s+', ' ', 'g'));
+$$;
+
+comment on function public.catalog_search_normalize(text) is 'Search form of a title: lower-case, punctuation stripped, roman numerals II..XX as digits.';
+
+-- "final fantasy 7" -> "ff7", "the legend of zelda ocarina of time" -> "tlozoot"
+create or replace function public.catalog_search_acronym(p_title text)
+returns text
+language sql
+immutable
+parallel safe
+as $$
+  select coalesce(string_agg(case when w ~ '^[0-9]+$' then w else left(w, 1) end, '' order by n), '')
+  from regexp_split_to_table(public.catalog_search_normalize(p_title), ' ') with ordinality as t(w, n)
+  where w <> '';
+$$;
+
+comment on function public.catalog_search_acronym(text) is 'Initials of the normalized title with numbers kept whole (Final Fantasy VII -> ff7).';
+
+create index if not exists idx_releases_display_title_search_trgm
+  on public.releases using gin (public.catalog_search_normalize(display_title) gin_trgm_ops);
+
+create index if not exists idx_releases_display_title_acronym
+  on public.releases (public.catalog_search_acronym(display_title));
+
+create index if not exists idx_games_canonical_title_search_trgm
+  on public.games using gin (public.catalog_search_normalize(canonical_title) gin_trgm_ops);
+
+create index if not exists idx_game_title_aliases_raw_title_search_trgm
+  on public.game_title_aliases using gin (public.catalog_search_normalize(raw_title) gin_trgm_ops);
+
+-- Scored candidates for a query, best first. score is in 0..~1.5: trigram similarity, boosted for
+-- exact and prefix matches; acronym hits score 0.9, alias hits are damped slightly.
+create or replace function public.catalog_search(p_query text, p_limit int default 500)
+returns table(
+  release_id uuid,
+  game_id uuid,
+  display_title text,
+  platform_key text,
+  platform_name text,
+  cover_url text,
+  first_release_year int,
+  release_year int,
+  score real,
+  matched_via text
+)
+language sql
+stable
+set search_path = public
+as $$
+  with q as (
+    select
+      public.catalog_search_normalize(p_query) as nq,
+      replace(public.catalog_search_normalize(p_query), ' ', '') as compact
+  ),
+  hits as (
+    -- release titles
+    select r.id, greatest(
+        similarity(public.catalog_search_normalize(r.display_title), q.nq),
+        word_similarity(q.nq, public.catalog_search_normalize(r.display_title))
+      )
+      + case when public.catalog_search_normalize(r.display_title) = q.nq then 0.5
+             when public.catalog_search_normalize(r.display_title) like q.nq || '%' then 0.2
+             else 0 end as s,
+      'title'::text as via
+    from public.releases r, q
+    where length(q.nq) >= 2
+      and (public.catalog_search_normalize(r.display_title) % q.nq
+           or q.nq <% public.catalog_search_normalize(r.display_title))
+
+    union all
+
+    -- canonical game titles (every release of the game)
+    select r.id, greatest(
+        similarity(public.catalog_search_normalize(g.canonical_title), q.nq),
+        word_similarity(q.nq, public.catalog_search_normalize(g.canonical_title))
+      )
+      + case when public.catalog_search_normalize(g.canonical_title) = q.nq then 0.5 else 0 end,
+      'canonical'
+    from public.games g
+    join public.releases r on r.game_id = g.id, q
+    where length(q.nq) >= 2
+      and (public.catalog_search_normalize(g.canonical_title) % q.nq
+           or q.nq <% public.catalog_search_normalize(g.canonical_title))
+
+    union all
+
+    -- acronyms: ff7, tloz, mgs3 (queries of one or two words only)
+    select r.id, 0.9::real, 'acronym'
+    from public.releases r, q
+    where length(q.compact) between 2 and 10
+      and q.nq !~ ' .* '
+      and public.catalog_search_acronym(r.display_title) = q.compact
+
+    union all
+
+    -- known alternate spellings (game_title_aliases.raw_title -> canonical_title -> games)
+    select r.id, 0.95 * (
+        similarity(public.catalog_search_normalize(a.raw_title), q.nq)
+        + case when public.catalog_search_normalize(a.raw_title) = q.nq then 0.5 else 0 end
+      ),
+      'alias'
+    from public.game_title_aliases a
+    join public.games g on g.canonical_title = a.canonical_title
+    join public.releases r on r.game_id = g.id, q
+    where length(q.nq) >= 2
+      and a.canonical_title is not null
+      and public.catalog_search_normalize(a.raw_title) % q.nq
+  ),
+  best as (
+    select distinct on (h.id) h.id, h.s, h.via
+    from hits h
+    order by h.id, h.s desc
+  )
+  select
+    r.id,
+    r.game_id,
+    coalesce(r.display_title, g.display_title, 'Untitled'),
+    r.platform_key,
+    r.platform_name,
+    coalesce(r.cover_url, g.cover_url),
+    g.first_release_year,
+    case when r.release_date is not null then extract(year from r.release_date)::int end,
+    b.s::real,
+    b.via
+  from best b
+  join public.releases r on r.id = b.id
+  left join public.games g on g.id = r.game_id
+  order by b.s desc, r.id
+  limit greatest(1, least(coalesce(p_limit, 500), 1000));
+$$;
+
+comment on function public.catalog_search(text, int) is 'Fuzzy release search (trigram + acronym + game_title_aliases). Used by GET /api/catalog/search via lib/catalog/search.ts.';
@@ -0,0 +1,51 @@
+-- 2026-03-08: Catalog audit log (merges, IGDB pins/overrides) with admin revert
+--
+-- Written by lib/catalog/audit.ts. Every catalog mutation inserts a 'pending' row with its full
+-- before snapshot *before* changing anything, then marks it 'applied' (or 'failed') with the
+-- after state and the user rows it moved. /admin/catalog-audit lists entries and reverts them:
+--   release_merge  before = loser release row, its release_external_ids, enrichment state and every
+--                  row (portfolio_entries, *_title_progress, ...) that pointed at it
+--   game_merge     before = loser games rows, which releases belonged to each, game_external_ids
+--   igdb_pin /     before = the columns the patch overwrote, per row; after.created = rows it inserted
+--   igdb_override
+-- affected = [{ table, key, user_id, op: moved|dropped }]; affected_user_ids answers "what happened
+-- to this user's library".
+
+create table if not exists public.catalog_audit_log (
+  id uuid primary key default gen_random_uuid(),
+  action text not null check (action in ('release_merge', 'game_merge', 'igdb_pin', 'igdb_override')),
+  status text not null default 'pending' check (status in ('pending', 'applied', 'failed', 'reverted')),
+  actor_kind text not null check (actor_kind in ('admin', 'user', 'system')),
+  actor_id uuid null references auth.users(id) on delete set null,
+  actor_label text null,                   -- route or job, e.g. '/api/admin/games-merge', 'sync'
+  target_type text not null check (target_type in ('release', 'game')),
+  target_id uuid null,                     -- merge winner / patched game (no FK: must outlive deletes)
+  subject_ids uuid[] not null default '{}', -- merged-away release/game ids
+  before jsonb not null,
+  after jsonb null,
+  affected jsonb not null default '[]'::jsonb,
+  affected_user_ids uuid[] not null default '{}',
+  error text null,
+  created_at timestamptz not null default now(),
+  completed_at timestamptz null,
+  reverted_at timestamptz null,
+  reverted_by uuid null references auth.users(id) on delete set null,
+  revert_result jsonb null
+);
+
+create index if not exists idx_catalog_audit_log_created
+  on public.catalog_audit_log (created_at desc, id desc);
+
+create index if not exists idx_catalog_audit_log_target
+  on public.catalog_audit_log (target_id);
+
+create index if not exists idx_catalog_audit_log_subjects
+  on public.catalog_audit_log using gin (subject_ids);
+
+create index if not exists idx_catalog_audit_log_users
+  on public.catalog_audit_log using gin (affected_user_ids);
+
+-- Service role only (admin API); no client policies.
+alter table public.catalog_audit_log enable row level security;
+
+comment on table public.catalog_audit_log is 'Structured log of catalog merges and IGDB pins/overrides with before/after snapshots. Reverted via POST /api/admin/catalog-audit/:id/revert.';
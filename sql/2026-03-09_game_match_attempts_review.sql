@@ -0,0 +1,25 @@
+-- 2026-03-09: Candidate review for game_match_attempts (/admin/match-review)
+--
+-- Attempts now keep every scored IGDB candidate, not just the best one:
+--   candidates_json = [{ igdb_game_id, title, first_release_year, cover_url, platforms, category,
+--                        confidence, reasons: { token_overlap, bundle_mismatch, category_guardrail, year_match } }]
+-- The review queue is unreviewed attempts with a candidate and outcome pending/rejected. A decision
+-- (pick one candidate, or reject all) is stamped on every open attempt for the same (source, external_id).
+
+alter table public.game_match_attempts add column if not exists candidates_json jsonb;
+alter table public.game_match_attempts add column if not exists reviewed_at timestamptz;
+alter table public.game_match_attempts add column if not exists reviewed_by uuid references auth.users(id) on delete set null;
+alter table public.game_match_attempts add column if not exists review_decision text;
+alter table public.game_match_attempts add column if not exists reviewed_igdb_game_id bigint;
+
+alter table public.game_match_attempts drop constraint if exists game_match_attempts_review_decision_check;
+alter table public.game_match_attempts add constraint game_match_attempts_review_decision_check
+  check (review_decision is null or review_decision in ('picked', 'rejected_all'));
+
+-- Queue order: best confidence first (matches bulk approve's "everything above X").
+create index if not exists game_match_attempts_review_queue_idx
+  on public.game_match_attempts (confidence desc, id)
+  where reviewed_at is null and igdb_game_id_candidate is not null and outcome in ('pending', 'rejected');
+
+comment on column public.game_match_attempts.candidates_json is 'All scored IGDB candidates for the attempt with MatchReasons (lib/igdb/match-validation.ts). Null for attempts written before 2026-03-09.';
+comment on column public.game_match_attempts.review_decision is 'picked = admin chose reviewed_igdb_game_id; rejected_all = none of the candidates is right.';
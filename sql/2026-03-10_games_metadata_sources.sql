@@ -0,0 +1,11 @@
+-- 2026-03-10: Per-field metadata provenance on games (lib/metadata)
+--
+-- Enrichment now walks a provider chain (igdb → mobygames → local curated dataset, overridable with
+-- METADATA_PROVIDERS) and fills each field from the first provider that has it. metadata_sources
+-- records which provider wrote each column:
+--   { "summary": "igdb", "cover_url": "mobygames", "genres": "local", ... }
+-- Only fields written since 2026-03-10 are present; a missing key means unknown (historically IGDB).
+
+alter table public.games add column if not exists metadata_sources jsonb not null default '{}'::jsonb;
+
+comment on column public.games.metadata_sources is 'Field name → metadata provider id (igdb, mobygames, local, file:*) that last wrote it. Keys: summary, developer, publisher, first_release_year, cover_url, genres.';
@@ -0,0 +1,84 @@
+-- 2026-03-11: Typed game relations (remakes, remasters, ports, sequels, series) + series registry
+--
+-- game_relations (2026-02-26) only held curated "related games" for /release/[id]. It now also carries
+-- lineage written by lib/catalog/relations.ts during IGDB enrichment, always from the newer game's side:
+--   remake_of / remaster_of / port_of  game → the original (IGDB category 8/9/11 + parent_game, or the
+--                                      original's remakes/remasters/ports lists)
+--   sequel_of                         mainline game → the previous mainline entry of its series (derived)
+--   part_of_series                    game → game_series row (IGDB collection, else franchise)
+-- The original may not be in the catalog yet: related_igdb_game_id / related_title / related_first_release_year
+-- describe it and related_game_id is filled once a games row with that igdb_game_id exists.
+-- Existing curated rows become relation 'related', source 'curated'.
+
+alter table public.game_relations alter column related_game_id drop not null;
+
+alter table public.game_relations add column if not exists relation text not null default 'related';
+alter table public.game_relations add column if not exists target_key text;
+alter table public.game_relations add column if not exists related_igdb_game_id bigint null;
+alter table public.game_relations add column if not exists related_title text null;
+alter table public.game_relations add column if not exists related_first_release_year int null;
+alter table public.game_relations add column if not exists series_key text null;
+alter table public.game_relations add column if not exists source text not null default 'curated';
+alter table public.game_relations add column if not exists updated_at timestamptz default now();
+
+update public.game_relations set target_key = 'game:' || related_game_id::text where target_key is null;
+alter table public.game_relations alter column target_key set not null;
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'game_relations_relation_check') then
+    alter table public.game_relations add constraint game_relations_relation_check
+      check (relation in ('related', 'remake_of', 'remaster_of', 'port_of', 'sequel_of', 'part_of_series'));
+  end if;
+  if not exists (select 1 from pg_constraint where conname = 'game_relations_source_check') then
+    alter table public.game_relations add constraint game_relations_source_check
+      check (source in ('curated', 'igdb', 'derived'));
+  end if;
+end $$;
+
+-- A remake can also be curated as "related" to its original: uniqueness is per relation now.
+alter table public.game_relations drop constraint if exists game_relations_game_id_related_game_id_key;
+
+create unique index if not exists ux_game_relations_target
+  on public.game_relations (game_id, relation, target_key);
+
+create index if not exists idx_game_relations_related_game
+  on public.game_relations (related_game_id) where related_game_id is not null;
+
+create index if not exists idx_game_relations_related_igdb
+  on public.game_relations (related_igdb_game_id) where related_igdb_game_id is not null;
+
+create index if not exists idx_game_relations_series
+  on public.game_relations (series_key) where series_key is not null;
+
+comment on column public.game_relations.relation is 'related (curated) | remake_of | remaster_of | port_of | sequel_of | part_of_series. Directed from the newer game (game_id).';
+comment on column public.game_relations.target_key is 'Upsert key within (game_id, relation): game:<uuid> (curated), igdb:<igdb game id>, series:<series_key>.';
+
+-- Series registry: the full mainline list per IGDB collection/franchise, not just games someone owns,
+-- so identity can say "you've played 9 of 11 mainline Zelda games".
+create table if not exists public.game_series (
+  series_key text primary key,              -- igdb_collection:<id> | igdb_franchise:<id>
+  kind text not null check (kind in ('collection', 'franchise')),
+  igdb_id bigint not null,
+  name text not null,
+  slug text null,
+  -- [{ igdb_game_id, title, first_release_year }] ordered by year: IGDB main games (category 0) only
+  mainline_games jsonb not null default '[]'::jsonb,
+  fetched_at timestamptz null,
+  updated_at timestamptz not null default now()
+);
+
+-- Service role writes; anyone may read (release pages, public profiles).
+alter table public.game_series enable row level security;
+
+drop policy if exists "game_series_select_all" on public.game_series;
+create policy "game_series_select_all"
+  on public.game_series for select
+  using (true);
+
+comment on table public.game_series is 'IGDB collections/franchises with their mainline entries. Refreshed by lib/catalog/relations.ts when older than a week.';
+
+-- Era/archetype preference: count a remake or remaster in its original's era (lib/insights/user-stats.ts).
+alter table public.profiles add column if not exists count_remakes_in_original_era boolean not null default false;
+
+comment on column public.profiles.count_remakes_in_original_era is 'When true, getUserStats buckets remakes/remasters by the original game''s first_release_year.';
@@ -0,0 +1,53 @@
+-- 2026-03-12: Regional variants and editions of a release (lib/catalog/editions.ts)
+--
+-- A release is a game on a platform; an edition is one physical/retail variant of it: region
+-- (NTSC-U / PAL / NTSC-J / ...), edition name (Standard, Collector's Edition, Player's Choice, ...),
+-- product codes (SLUS-00594, NUS-NSME-USA) and barcodes (UPC-A / EAN-13). Physical items and
+-- portfolio entries can point at one, which is what the variant_hunter archetype counts.
+-- portfolio_physical_items.region stays as the free-text fallback for items without an edition.
+
+create table if not exists public.release_editions (
+  id uuid primary key default gen_random_uuid(),
+  release_id uuid not null references public.releases(id) on delete cascade,
+  region text not null default 'unknown'
+    check (region in ('NTSC-U', 'PAL', 'NTSC-J', 'NTSC-K', 'NTSC-C', 'region_free', 'unknown')),
+  edition_name text not null default 'Standard',
+  edition_slug text not null default 'standard',   -- normalized edition_name, part of the identity
+  edition_kind text not null default 'standard'
+    check (edition_kind in ('standard', 'collectors', 'limited', 'special', 'budget_reprint', 'bundle', 'other')),
+  product_codes text[] not null default '{}',       -- uppercased, e.g. {SLUS-00594}
+  barcodes text[] not null default '{}',            -- digits only, check digit verified
+  released_on date null,
+  notes text null,
+  created_by uuid null references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (release_id, region, edition_slug)
+);
+
+create index if not exists idx_release_editions_release on public.release_editions (release_id);
+create index if not exists idx_release_editions_product_codes on public.release_editions using gin (product_codes);
+create index if not exists idx_release_editions_barcodes on public.release_editions using gin (barcodes);
+
+-- Catalog data: anyone may read; writes go through the API (service role).
+alter table public.release_editions enable row level security;
+
+drop policy if exists "release_editions_select_all" on public.release_editions;
+create policy "release_editions_select_all"
+  on public.release_editions for select
+  using (true);
+
+comment on table public.release_editions is 'Regional/retail variants of a release: region, edition name/kind, product codes, barcodes. Unique per (release_id, region, edition_slug).';
+
+alter table public.portfolio_physical_items add column if not exists region text null;
+alter table public.portfolio_physical_items add column if not exists edition_id uuid null
+  references public.release_editions(id) on delete set null;
+
+create index if not exists idx_portfolio_physical_items_edition
+  on public.portfolio_physical_items (edition_id) where edition_id is not null;
+
+alter table public.portfolio_entries add column if not exists edition_id uuid null
+  references public.release_editions(id) on delete set null;
+
+comment on column public.portfolio_physical_items.edition_id is 'Exact variant owned; region is copied from it (free text only when no edition is known).';
+comment on column public.portfolio_entries.edition_id is 'Which edition of the release this entry is, when the user said so.';
@@ -0,0 +1,39 @@
+-- 2026-03-13: Scheduled duplicate detection for games and releases (lib/catalog/duplicates.ts)
+--
+-- /api/cron/catalog-duplicates scans the catalog for likely duplicate pairs and scores them:
+--   release pairs (same platform_key): same game_id, games sharing an igdb_game_id, release_external_ids
+--                 that are the same id once normalized, near-identical normalized titles
+--   game pairs:   two games rows with the same igdb_game_id
+-- Safe pairs are merged right away (mergeReleaseInto / mergeGamesInto, so catalog_audit_log has them and
+-- they can be reverted). Everything else lands here for /admin/duplicate-review, with `impact` listing
+-- the users whose portfolio/progress rows the merge would move or drop.
+
+create table if not exists public.catalog_duplicate_candidates (
+  id uuid primary key default gen_random_uuid(),
+  kind text not null check (kind in ('release', 'game')),
+  a_id uuid not null,                      -- a_id < b_id; no FK: the loser is deleted by the merge
+  b_id uuid not null,
+  score numeric not null,                  -- 0..1
+  signals jsonb not null default '{}'::jsonb,
+  suggested_winner_id uuid null,
+  impact jsonb not null default '{}'::jsonb, -- { user_count, collisions, users: [{ user_id, a: [tables], b: [tables] }] }
+  status text not null default 'pending'
+    check (status in ('pending', 'auto_merged', 'merged', 'dismissed', 'stale')),
+  audit_id uuid null references public.catalog_audit_log(id) on delete set null,
+  detected_at timestamptz not null default now(),
+  last_seen_at timestamptz not null default now(),
+  resolved_at timestamptz null,
+  resolved_by uuid null references auth.users(id) on delete set null,
+  unique (kind, a_id, b_id),
+  check (a_id < b_id)
+);
+
+create index if not exists idx_catalog_duplicate_candidates_queue
+  on public.catalog_duplicate_candidates (score desc, id)
+  where status = 'pending';
+
+-- Service role only (admin API + cron); no client policies.
+alter table public.catalog_duplicate_candidates enable row level security;
+
+comment on table public.catalog_duplicate_candidates is 'Likely duplicate game/release pairs from the scheduled detector. pending = review queue; dismissed pairs are not re-queued.';
+comment on column public.catalog_duplicate_candidates.signals is '{ same_game, same_igdb, shared_external_ids, conflicting_sources, title_similarity, titles }';
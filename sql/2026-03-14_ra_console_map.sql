@@ -0,0 +1,184 @@
+-- 2026-03-14: RetroAchievements console map stored against platform_catalog / hardware (lib/ra/consoles.ts)
+--
+-- Replaces the hardcoded regex list in lib/ra/map-release.ts (and its copy in /api/ra/map) and the
+-- RA_PLATFORMS set in lib/ra/mapReleaseToRA.ts. Every caller now resolves a release's RA console id
+-- through platform_catalog (platform_key, display_name, aliases → ra_console_id).
+--
+--   ra_consoles                    RA's console list (API_GetConsoleIDs); POST /api/admin/ra-consoles refreshes it
+--   platform_catalog.ra_console_id the RA console a platform's releases belong to (null = not on RA)
+--   hardware.ra_console_ids        RA consoles a device plays natively:
+--                                    null = emulation-capable / unrestricted (PC handhelds, retro handhelds)
+--                                    '{}' = plays nothing RA supports (modern consoles)
+--                                  Used to filter default-RA-device choices and the ra_default played-on.
+
+create table if not exists public.ra_consoles (
+  id int primary key,                      -- RA ConsoleID
+  name text not null,
+  icon_url text null,
+  active boolean not null default true,
+  is_game_system boolean not null default true,
+  fetched_at timestamptz null              -- null = seeded here, not yet refreshed from the API
+);
+
+alter table public.ra_consoles enable row level security;
+
+drop policy if exists "ra_consoles_select_all" on public.ra_consoles;
+create policy "ra_consoles_select_all"
+  on public.ra_consoles for select
+  using (true);
+
+insert into public.ra_consoles (id, name) values
+  (1, 'Genesis/Mega Drive'), (2, 'Nintendo 64'), (3, 'SNES/Super Famicom'), (4, 'Game Boy'),
+  (5, 'Game Boy Advance'), (6, 'Game Boy Color'), (7, 'NES/Famicom'), (8, 'PC Engine/TurboGrafx-16'),
+  (9, 'Sega CD'), (10, '32X'), (11, 'Master System'), (12, 'PlayStation'),
+  (13, 'Atari Lynx'), (14, 'Neo Geo Pocket'), (15, 'Game Gear'), (16, 'GameCube'),
+  (17, 'Atari Jaguar'), (18, 'Nintendo DS'), (19, 'Wii'), (20, 'Wii U'),
+  (21, 'PlayStation 2'), (22, 'Xbox'), (23, 'Magnavox Odyssey 2'), (24, 'Pokemon Mini'),
+  (25, 'Atari 2600'), (26, 'DOS'), (27, 'Arcade'), (28, 'Virtual Boy'),
+  (29, 'MSX'), (30, 'Commodore 64'), (31, 'ZX81'), (32, 'Oric'),
+  (33, 'SG-1000'), (34, 'VIC-20'), (35, 'Amiga'), (36, 'Atari ST'),
+  (37, 'Amstrad CPC'), (38, 'Apple II'), (39, 'Saturn'), (40, 'Dreamcast'),
+  (41, 'PlayStation Portable'), (42, 'Philips CD-i'), (43, '3DO Interactive Multiplayer'), (44, 'ColecoVision'),
+  (45, 'Intellivision'), (46, 'Vectrex'), (47, 'PC-8000/8800'), (48, 'PC-9800'),
+  (49, 'PC-FX'), (50, 'Atari 5200'), (51, 'Atari 7800'), (52, 'Sharp X68000'),
+  (53, 'WonderSwan'), (54, 'Cassette Vision'), (55, 'Super Cassette Vision'), (56, 'Neo Geo CD'),
+  (57, 'Fairchild Channel F'), (58, 'FM Towns'), (59, 'ZX Spectrum'), (60, 'Game & Watch'),
+  (61, 'Nokia N-Gage'), (62, 'Nintendo 3DS'), (63, 'Watara Supervision'), (64, 'Sharp X1'),
+  (65, 'TIC-80'), (66, 'Thomson TO8'), (67, 'PC-6000'), (68, 'Sega Pico'),
+  (69, 'Mega Duck'), (70, 'Zeebo'), (71, 'Arduboy'), (72, 'WASM-4'),
+  (73, 'Arcadia 2001'), (74, 'Interton VC 4000'), (75, 'Elektor TV Games Computer'), (76, 'PC Engine CD/TurboGrafx-CD'),
+  (77, 'Atari Jaguar CD'), (78, 'Nintendo DSi'), (79, 'TI-83'), (80, 'Uzebox')
+on conflict (id) do nothing;
+
+-- platform_catalog → RA console
+alter table public.platform_catalog
+  add column if not exists ra_console_id int null references public.ra_consoles(id) on delete set null;
+
+create index if not exists idx_platform_catalog_ra_console
+  on public.platform_catalog(ra_console_id)
+  where ra_console_id is not null;
+
+comment on column public.platform_catalog.ra_console_id is 'RetroAchievements ConsoleID for releases on this platform; null = not supported by RA.';
+
+-- Existing rows: only set the console id (display names/aliases are owned by 2026-02-18_platform_catalog.sql)
+update public.platform_catalog pc
+set ra_console_id = m.ra_console_id
+from (values
+  ('genesis', 1), ('n64', 2), ('snes', 3), ('gb', 4), ('gba', 5), ('gbc', 6), ('nes', 7),
+  ('ps1', 12), ('gamecube', 16), ('ps2', 21), ('xbox', 22), ('atari_2600', 25)
+) as m(platform_key, ra_console_id)
+where pc.platform_key = m.platform_key;
+
+-- New rows for the rest of RA's systems. Keys follow what release import already writes
+-- (sms, gg, dc, pcengine, segacd, 32x, ngp, arcade, psp, saturn).
+insert into public.platform_catalog (platform_key, display_name, sort_order, era_key, manufacturer, aliases, ra_console_id)
+values
+  ('pcengine', 'PC Engine / TurboGrafx-16', 47, 'gen4_1990_1995', 'NEC', array['pc engine', 'pc-engine', 'turbografx', 'turbografx 16', 'turbografx-16', 'tg16', 'pce'], 8),
+  ('segacd', 'Sega CD', 52, 'gen4_1990_1995', 'Sega', array['sega cd', 'mega cd', 'mega-cd', 'segacd', 'scd'], 9),
+  ('32x', 'Sega 32X', 53, 'gen4_1990_1995', 'Sega', array['32x', 'sega 32x', 'mega 32x', 'super 32x'], 10),
+  ('sms', 'Sega Master System', 42, 'gen3_1983_1989', 'Sega', array['master system', 'sega master system', 'mastersystem', 'mark iii', 'sms'], 11),
+  ('lynx', 'Atari Lynx', 46, 'gen4_1990_1995', 'Atari', array['atari lynx', 'lynx'], 13),
+  ('ngp', 'Neo Geo Pocket', 57, 'gen5_1996_1999', 'SNK', array['neo geo pocket', 'neo geo pocket color', 'neogeo pocket', 'ngp', 'ngpc'], 14),
+  ('gg', 'Sega Game Gear', 49, 'gen4_1990_1995', 'Sega', array['game gear', 'sega game gear', 'gamegear', 'gg'], 15),
+  ('jaguar', 'Atari Jaguar', 54, 'gen5_1996_1999', 'Atari', array['atari jaguar', 'jaguar'], 17),
+  ('nds', 'Nintendo DS', 84, 'gen7_2006_2012', 'Nintendo', array['nintendo ds', 'ds', 'nds'], 18),
+  ('wii', 'Wii', 86, 'gen7_2006_2012', 'Nintendo', array['nintendo wii', 'wii'], 19),
+  ('wii_u', 'Wii U', 93, 'gen8_2013_2019', 'Nintendo', array['nintendo wii u', 'wii u', 'wiiu'], 20),
+  ('odyssey2', 'Magnavox Odyssey 2', 18, 'gen2_1978_1982', 'Magnavox', array['odyssey 2', 'odyssey2', 'magnavox odyssey 2', 'videopac', 'philips videopac'], 23),
+  ('pokemon_mini', 'Pokemon Mini', 78, 'gen6_2000_2005', 'Nintendo', array['pokemon mini', 'pokémon mini'], 24),
+  ('dos', 'DOS', 44, null, null, array['dos', 'ms-dos', 'msdos', 'pc dos'], 26),
+  ('arcade', 'Arcade', 30, null, null, array['arcade', 'mame', 'fbneo', 'neo geo', 'neo geo mvs', 'neo geo aes', 'cps1', 'cps2', 'cps3'], 27),
+  ('virtual_boy', 'Virtual Boy', 56, 'gen5_1996_1999', 'Nintendo', array['virtual boy', 'virtualboy', 'vb'], 28),
+  ('msx', 'MSX', 34, 'gen3_1983_1989', null, array['msx', 'msx2', 'msx 2'], 29),
+  ('c64', 'Commodore 64', 32, 'gen3_1983_1989', 'Commodore', array['commodore 64', 'c64', 'c-64'], 30),
+  ('zx81', 'ZX81', 25, 'gen2_1978_1982', 'Sinclair', array['zx81', 'sinclair zx81', 'timex sinclair 1000'], 31),
+  ('oric', 'Oric', 31, 'gen3_1983_1989', 'Tangerine', array['oric', 'oric-1', 'oric atmos'], 32),
+  ('sg1000', 'SG-1000', 33, 'gen3_1983_1989', 'Sega', array['sg-1000', 'sg1000', 'sega sg-1000', 'sc-3000'], 33),
+  ('vic20', 'VIC-20', 27, 'gen2_1978_1982', 'Commodore', array['vic-20', 'vic20', 'commodore vic-20'], 34),
+  ('amiga', 'Amiga', 43, 'gen3_1983_1989', 'Commodore', array['amiga', 'commodore amiga', 'amiga 500', 'amiga cd32', 'cd32'], 35),
+  ('atari_st', 'Atari ST', 41, 'gen3_1983_1989', 'Atari', array['atari st', 'atari-st', 'atarist'], 36),
+  ('amstrad_cpc', 'Amstrad CPC', 35, 'gen3_1983_1989', 'Amstrad', array['amstrad cpc', 'cpc', 'amstrad'], 37),
+  ('apple_ii', 'Apple II', 22, 'gen2_1978_1982', 'Apple', array['apple ii', 'apple 2', 'apple ][', 'appleii'], 38),
+  ('saturn', 'Sega Saturn', 59, 'gen5_1996_1999', 'Sega', array['sega saturn', 'saturn'], 39),
+  ('dc', 'Sega Dreamcast', 68, 'gen6_2000_2005', 'Sega', array['dreamcast', 'sega dreamcast', 'dc'], 40),
+  ('psp', 'PlayStation Portable', 83, 'gen7_2006_2012', 'Sony', array['playstation portable', 'psp'], 41),
+  ('cdi', 'Philips CD-i', 51, 'gen4_1990_1995', 'Philips', array['cd-i', 'cdi', 'philips cd-i'], 42),
+  ('3do', '3DO', 55, 'gen5_1996_1999', 'Panasonic', array['3do', '3do interactive multiplayer', 'panasonic 3do'], 43),
+  ('colecovision', 'ColecoVision', 20, 'gen2_1978_1982', 'Coleco', array['colecovision', 'coleco vision', 'coleco'], 44),
+  ('intellivision', 'Intellivision', 16, 'gen2_1978_1982', 'Mattel', array['intellivision', 'mattel intellivision'], 45),
+  ('vectrex', 'Vectrex', 21, 'gen2_1978_1982', 'GCE', array['vectrex'], 46),
+  ('pc88', 'PC-8000/8800', 28, 'gen3_1983_1989', 'NEC', array['pc-8800', 'pc-8801', 'pc-8000', 'pc88', 'pc-88'], 47),
+  ('pc98', 'PC-9800', 39, 'gen3_1983_1989', 'NEC', array['pc-9800', 'pc-9801', 'pc98', 'pc-98'], 48),
+  ('pcfx', 'PC-FX', 61, 'gen5_1996_1999', 'NEC', array['pc-fx', 'pcfx', 'nec pc-fx'], 49),
+  ('atari_5200', 'Atari 5200', 19, 'gen2_1978_1982', 'Atari', array['atari 5200', 'atari5200'], 50),
+  ('atari_7800', 'Atari 7800', 38, 'gen3_1983_1989', 'Atari', array['atari 7800', 'atari7800'], 51),
+  ('x68000', 'Sharp X68000', 40, 'gen3_1983_1989', 'Sharp', array['x68000', 'sharp x68000', 'x68k'], 52),
+  ('wonderswan', 'WonderSwan', 64, 'gen5_1996_1999', 'Bandai', array['wonderswan', 'wonderswan color', 'swancrystal', 'ws', 'wsc'], 53),
+  ('cassette_vision', 'Cassette Vision', 24, 'gen2_1978_1982', 'Epoch', array['cassette vision', 'epoch cassette vision'], 54),
+  ('super_cassette_vision', 'Super Cassette Vision', 36, 'gen3_1983_1989', 'Epoch', array['super cassette vision', 'epoch super cassette vision', 'scv'], 55),
+  ('neo_geo_cd', 'Neo Geo CD', 58, 'gen4_1990_1995', 'SNK', array['neo geo cd', 'neogeo cd', 'neo-geo cd', 'ngcd'], 56),
+  ('channel_f', 'Fairchild Channel F', 12, 'gen2_1978_1982', 'Fairchild', array['channel f', 'fairchild channel f'], 57),
+  ('fm_towns', 'FM Towns', 50, 'gen4_1990_1995', 'Fujitsu', array['fm towns', 'fm-towns', 'fmtowns', 'fm towns marty'], 58),
+  ('zx_spectrum', 'ZX Spectrum', 29, 'gen3_1983_1989', 'Sinclair', array['zx spectrum', 'spectrum', 'sinclair zx spectrum', 'speccy'], 59),
+  ('game_and_watch', 'Game & Watch', 14, 'gen2_1978_1982', 'Nintendo', array['game & watch', 'game and watch', 'g&w'], 60),
+  ('ngage', 'N-Gage', 79, 'gen6_2000_2005', 'Nokia', array['n-gage', 'ngage', 'nokia n-gage'], 61),
+  ('3ds', 'Nintendo 3DS', 91, 'gen8_2013_2019', 'Nintendo', array['nintendo 3ds', '3ds', 'new nintendo 3ds', '2ds'], 62),
+  ('supervision', 'Watara Supervision', 54, 'gen4_1990_1995', 'Watara', array['supervision', 'watara supervision'], 63),
+  ('x1', 'Sharp X1', 26, 'gen2_1978_1982', 'Sharp', array['sharp x1', 'x1'], 64),
+  ('tic80', 'TIC-80', 110, null, null, array['tic-80', 'tic80'], 65),
+  ('to8', 'Thomson TO8', 37, 'gen3_1983_1989', 'Thomson', array['thomson to8', 'to8', 'to8d'], 66),
+  ('pc6000', 'PC-6000', 23, 'gen2_1978_1982', 'NEC', array['pc-6000', 'pc-6001', 'pc6001'], 67),
+  ('pico', 'Sega Pico', 53, 'gen4_1990_1995', 'Sega', array['sega pico', 'pico', 'kids computer pico'], 68),
+  ('mega_duck', 'Mega Duck', 50, 'gen4_1990_1995', 'Welback', array['mega duck', 'megaduck', 'cougar boy'], 69),
+  ('zeebo', 'Zeebo', 87, 'gen7_2006_2012', 'Zeebo', array['zeebo'], 70),
+  ('arduboy', 'Arduboy', 111, null, 'Arduboy', array['arduboy'], 71),
+  ('wasm4', 'WASM-4', 112, null, null, array['wasm-4', 'wasm4'], 72),
+  ('arcadia_2001', 'Arcadia 2001', 17, 'gen2_1978_1982', 'Emerson', array['arcadia 2001', 'emerson arcadia 2001', 'arcadia'], 73),
+  ('vc4000', 'Interton VC 4000', 15, 'gen2_1978_1982', 'Interton', array['vc 4000', 'vc4000', 'interton vc 4000'], 74),
+  ('elektor', 'Elektor TV Games Computer', 13, 'gen2_1978_1982', 'Elektor', array['elektor', 'elektor tv games computer'], 75),
+  ('pcengine_cd', 'PC Engine CD / TurboGrafx-CD', 51, 'gen4_1990_1995', 'NEC', array['pc engine cd', 'pc engine cd-rom', 'turbografx cd', 'turbografx-cd', 'turboduo', 'pce cd', 'pcecd'], 76),
+  ('jaguar_cd', 'Atari Jaguar CD', 55, 'gen5_1996_1999', 'Atari', array['jaguar cd', 'atari jaguar cd'], 77),
+  ('dsi', 'Nintendo DSi', 88, 'gen7_2006_2012', 'Nintendo', array['nintendo dsi', 'dsi', 'dsiware'], 78),
+  ('ti83', 'TI-83', 52, null, 'Texas Instruments', array['ti-83', 'ti83', 'ti-83 plus', 'ti-84'], 79),
+  ('uzebox', 'Uzebox', 113, null, null, array['uzebox'], 80)
+on conflict (platform_key) do update set
+  ra_console_id = excluded.ra_console_id;
+
+-- hardware → RA consoles it plays
+alter table public.hardware
+  add column if not exists ra_console_ids int[] null;
+
+comment on column public.hardware.ra_console_ids is 'RetroAchievements ConsoleIDs this device plays natively. null = unrestricted (emulation devices), empty = none.';
+
+update public.hardware h
+set ra_console_ids = m.ra_console_ids
+from (values
+  ('atari_2600', array[25]),
+  ('atari_5200', array[50]),
+  ('atari_7800', array[51]),
+  ('nes', array[7]),
+  ('snes', array[3]),
+  ('sega_genesis', array[1, 9, 10]),   -- Sega CD / 32X are Genesis add-ons
+  ('ps1', array[12]),
+  ('n64', array[2]),
+  ('ps2', array[21, 12]),
+  ('gamecube', array[16]),
+  ('gba', array[5, 4, 6]),
+  ('gbc', array[6, 4]),
+  ('gb', array[4]),
+  ('nds', array[18, 5]),
+  ('3ds', array[62, 18, 78]),
+  ('wii', array[19, 16]),
+  ('wii_u', array[20, 19]),
+  ('psp', array[41]),
+  ('dreamcast', array[40]),
+  ('saturn', array[39])
+) as m(slug, ra_console_ids)
+where h.slug = m.slug;
+
+-- Any other dedicated console without a mapping plays nothing on RA (ps5 etc.); retro handhelds stay unrestricted
+update public.hardware
+set ra_console_ids = '{}'
+where ra_console_ids is null
+  and kind = 'console'
+  and not coalesce(is_modern_retro_handheld, false);
@@ -0,0 +1,83 @@
+-- 2026-03-15: Cover art pipeline (lib/images/pipeline.ts)
+--
+-- Remote covers (IGDB / Steam / PSN / MobyGames URLs in games.cover_url and releases.cover_url) are
+-- fetched once, resized to webp variants in our own storage, and summarized as a blurhash + dominant
+-- color for card placeholders. One cover_assets row per source URL; games/releases that share a source
+-- share the row. /api/cron/cover-ingest fills missing assets and re-tries broken sources with backoff,
+-- falling back to the next source in the cover ladder (lib/images/resolveCoverUrl.ts).
+
+create table if not exists public.cover_assets (
+  id uuid primary key default gen_random_uuid(),
+  source_url text not null unique,
+  status text not null default 'pending' check (status in ('pending', 'ready', 'broken')),
+  content_hash text null,                  -- sha256 of the source bytes; storage keys derive from it
+  width int null,                          -- source dimensions
+  height int null,
+  variants jsonb not null default '{}'::jsonb, -- { thumb|card|full: { url, width, height } }
+  blurhash text null,
+  dominant_color text null,                -- #rrggbb
+  failure_count int not null default 0,
+  last_error text null,
+  fetched_at timestamptz null,
+  next_check_at timestamptz null,          -- broken: when to retry the source
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_cover_assets_broken_due
+  on public.cover_assets (next_check_at)
+  where status = 'broken';
+
+alter table public.cover_assets enable row level security;
+
+drop policy if exists "cover_assets_select_all" on public.cover_assets;
+create policy "cover_assets_select_all"
+  on public.cover_assets for select
+  using (true);
+
+alter table public.games
+  add column if not exists cover_asset_id uuid null references public.cover_assets(id) on delete set null;
+
+alter table public.releases
+  add column if not exists cover_asset_id uuid null references public.cover_assets(id) on delete set null;
+
+create index if not exists idx_games_cover_asset_missing
+  on public.games (id)
+  where cover_url is not null and cover_asset_id is null;
+
+create index if not exists idx_releases_cover_asset_missing
+  on public.releases (id)
+  where cover_url is not null and cover_asset_id is null;
+
+create index if not exists idx_games_cover_asset on public.games (cover_asset_id) where cover_asset_id is not null;
+create index if not exists idx_releases_cover_asset on public.releases (cover_asset_id) where cover_asset_id is not null;
+
+-- A new cover_url invalidates the cached asset; the next ingest run picks the row up again.
+create or replace function public.clear_cover_asset_on_cover_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.cover_url is distinct from old.cover_url and new.cover_asset_id is not distinct from old.cover_asset_id then
+    new.cover_asset_id := null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_games_clear_cover_asset on public.games;
+create trigger trg_games_clear_cover_asset
+  before update of cover_url on public.games
+  for each row execute function public.clear_cover_asset_on_cover_change();
+
+drop trigger if exists trg_releases_clear_cover_asset on public.releases;
+create trigger trg_releases_clear_cover_asset
+  before update of cover_url on public.releases
+  for each row execute function public.clear_cover_asset_on_cover_change();
+
+-- Public bucket for the variants (COVER_STORAGE=supabase, the default)
+insert into storage.buckets (id, name, public)
+values ('covers', 'covers', true)
+on conflict (id) do nothing;
+
+comment on table public.cover_assets is 'Cached cover art per remote source URL: webp variants in storage bucket covers, blurhash + dominant color for placeholders.';
@@ -0,0 +1,251 @@
+-- 2026-03-16: Follow graph + friends activity feed (lib/social)
+--
+-- user_follows (2026-03-06_leaderboards.sql) gains request handling: following a public profile is
+-- accepted at once, an unlisted profile gets a pending request the owner approves or rejects.
+--
+-- user_activity_events is the feed source. Rows are written by triggers on the tables that already
+-- record the underlying facts, so every writer (manual edits, imports, syncs, restores) produces
+-- events without app changes:
+--   completion       portfolio_entries.status becomes 'completed'
+--   mastery          psn_title_progress / xbox_title_progress / ra_game_progress reach 100%
+--   memory           user_memory_titles insert ("I remember this"); removed again on delete
+--   archetype_shift  user_archetype_snapshots_history primary archetype differs from the previous row
+-- dedupe_key keeps one event per fact (re-completing a game does not re-post it).
+-- Which kinds a follower sees is decided at read time from profiles.profile_sharing (lib/social/feed.ts).
+
+alter table public.user_follows
+  add column if not exists responded_at timestamptz null;
+
+create index if not exists idx_user_follows_following_status
+  on public.user_follows (following_id, status);
+
+create index if not exists idx_user_follows_follower_status
+  on public.user_follows (follower_id, status);
+
+create table if not exists public.user_activity_events (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  kind text not null check (kind in ('completion', 'mastery', 'memory', 'archetype_shift')),
+  release_id uuid null references public.releases(id) on delete set null,
+  dedupe_key text not null,
+  payload jsonb not null default '{}'::jsonb,
+  occurred_at timestamptz not null default now(),
+  created_at timestamptz not null default now(),
+  unique (user_id, dedupe_key)
+);
+
+create index if not exists idx_user_activity_events_user_kind_time
+  on public.user_activity_events (user_id, kind, occurred_at desc, id desc);
+
+create index if not exists idx_user_activity_events_release
+  on public.user_activity_events (release_id);
+
+alter table public.user_activity_events enable row level security;
+
+drop policy if exists "user_activity_events_select_own" on public.user_activity_events;
+create policy "user_activity_events_select_own"
+  on public.user_activity_events for select
+  using (auth.uid() = user_id);
+
+comment on table public.user_activity_events is 'Feed events per user (completion, mastery, memory, archetype_shift), written by triggers. Followers read them via /api/feed (service role) filtered by profile_sharing.';
+
+-- Triggers run as the table owner: the source rows are often written with the user's own client,
+-- which cannot insert into user_activity_events under RLS.
+create or replace function public.record_activity_event(
+  p_user_id uuid,
+  p_kind text,
+  p_release_id uuid,
+  p_dedupe_key text,
+  p_payload jsonb,
+  p_occurred_at timestamptz
+)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.user_activity_events (user_id, kind, release_id, dedupe_key, payload, occurred_at)
+  values (p_user_id, p_kind, p_release_id, p_dedupe_key, coalesce(p_payload, '{}'::jsonb), coalesce(p_occurred_at, now()))
+  on conflict (user_id, dedupe_key) do nothing;
+$$;
+
+-- Only the trigger functions below (which run as the owner) and the service role may write events;
+-- exposed through PostgREST it would let anyone forge feed events for any user.
+revoke all on function public.record_activity_event(uuid, text, uuid, text, jsonb, timestamptz) from public;
+revoke all on function public.record_activity_event(uuid, text, uuid, text, jsonb, timestamptz) from anon, authenticated;
+grant execute on function public.record_activity_event(uuid, text, uuid, text, jsonb, timestamptz) to service_role;
+
+-- completion
+create or replace function public.activity_on_portfolio_completed()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status = 'completed' and (tg_op = 'INSERT' or old.status is distinct from 'completed') then
+    perform public.record_activity_event(new.user_id, 'completion', new.release_id, 'completion:' || new.release_id, '{}'::jsonb, now());
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_portfolio_entries_activity on public.portfolio_entries;
+create trigger trg_portfolio_entries_activity
+  after insert or update of status on public.portfolio_entries
+  for each row execute function public.activity_on_portfolio_completed();
+
+-- mastery: PSN (trophy_progress is a percentage; 100 includes the platinum when the title has one)
+create or replace function public.activity_on_psn_progress()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if coalesce(new.trophy_progress, 0) >= 100
+     and (tg_op = 'INSERT' or coalesce(old.trophy_progress, 0) < 100) then
+    perform public.record_activity_event(
+      new.user_id, 'mastery', new.release_id, 'mastery:psn:' || new.np_communication_id,
+      jsonb_build_object('platform', 'psn', 'label', 'Platinum', 'title', new.title_name),
+      coalesce(new.last_updated_at, now())
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_psn_title_progress_activity on public.psn_title_progress;
+create trigger trg_psn_title_progress_activity
+  after insert or update of trophy_progress on public.psn_title_progress
+  for each row execute function public.activity_on_psn_progress();
+
+-- mastery: Xbox (all achievements)
+create or replace function public.activity_on_xbox_progress()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if coalesce(new.achievements_total, 0) > 0
+     and coalesce(new.achievements_earned, 0) >= new.achievements_total
+     and (tg_op = 'INSERT' or coalesce(old.achievements_earned, 0) < coalesce(old.achievements_total, 0) or coalesce(old.achievements_total, 0) = 0) then
+    perform public.record_activity_event(
+      new.user_id, 'mastery', new.release_id, 'mastery:xbox:' || new.title_id,
+      jsonb_build_object('platform', 'xbox', 'label', '100%', 'title', new.title_name),
+      coalesce(new.last_played_at, now())
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_xbox_title_progress_activity on public.xbox_title_progress;
+create trigger trg_xbox_title_progress_activity
+  after insert or update of achievements_earned, achievements_total on public.xbox_title_progress
+  for each row execute function public.activity_on_xbox_progress();
+
+-- mastery: RetroAchievements (hardcore = mastered, softcore = completed)
+create or replace function public.activity_on_ra_progress()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  row_json jsonb := to_jsonb(new);
+begin
+  if coalesce(new.achievements_total, 0) > 0
+     and coalesce(new.achievements_earned, 0) >= new.achievements_total
+     and (tg_op = 'INSERT' or coalesce(old.achievements_earned, 0) < coalesce(old.achievements_total, 0) or coalesce(old.achievements_total, 0) = 0) then
+    perform public.record_activity_event(
+      new.user_id, 'mastery', (row_json->>'release_id')::uuid, 'mastery:ra:' || new.ra_game_id,
+      jsonb_build_object(
+        'platform', 'ra',
+        'label', case when coalesce(new.achievements_earned_hardcore, 0) >= new.achievements_total then 'Mastered' else 'Completed' end,
+        'title', row_json->>'title'
+      ),
+      now()
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_ra_game_progress_activity on public.ra_game_progress;
+create trigger trg_ra_game_progress_activity
+  after insert or update of achievements_earned, achievements_total on public.ra_game_progress
+  for each row execute function public.activity_on_ra_progress();
+
+-- memory
+create or replace function public.activity_on_memory_title()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'DELETE' then
+    delete from public.user_activity_events
+    where user_id = old.user_id and dedupe_key = 'memory:' || old.release_id;
+    return old;
+  end if;
+  perform public.record_activity_event(
+    new.user_id, 'memory', new.release_id, 'memory:' || new.release_id,
+    jsonb_build_object('platform_key', new.platform_key),
+    new.remembered_at
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_user_memory_titles_activity on public.user_memory_titles;
+create trigger trg_user_memory_titles_activity
+  after insert or delete on public.user_memory_titles
+  for each row execute function public.activity_on_memory_title();
+
+-- archetype_shift (payload.archetypes.primary_archetype is the archetype key; lib/insights/recompute.ts)
+create or replace function public.activity_on_archetype_history()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  prev_key text;
+  new_key text := new.payload->'archetypes'->>'primary_archetype';
+begin
+  if new_key is null then
+    return new;
+  end if;
+  select h.payload->'archetypes'->>'primary_archetype'
+    into prev_key
+  from public.user_archetype_snapshots_history h
+  where h.user_id = new.user_id and h.id <> new.id and h.computed_at <= new.computed_at
+  order by h.computed_at desc, h.id desc
+  limit 1;
+
+  if prev_key is not null and prev_key is distinct from new_key then
+    perform public.record_activity_event(
+      new.user_id, 'archetype_shift', null, 'archetype:' || new.id,
+      jsonb_build_object('from', prev_key, 'to', new_key),
+      new.computed_at
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_user_archetype_history_activity on public.user_archetype_snapshots_history;
+create trigger trg_user_archetype_history_activity
+  after insert on public.user_archetype_snapshots_history
+  for each row execute function public.activity_on_archetype_history();
+
+-- The trigger functions only run from their triggers (which don't need EXECUTE); keep them off the API.
+revoke all on function public.activity_on_portfolio_completed() from public, anon, authenticated;
+revoke all on function public.activity_on_psn_progress() from public, anon, authenticated;
+revoke all on function public.activity_on_xbox_progress() from public, anon, authenticated;
+revoke all on function public.activity_on_ra_progress() from public, anon, authenticated;
+revoke all on function public.activity_on_memory_title() from public, anon, authenticated;
+revoke all on function public.activity_on_archetype_history() from public, anon, authenticated;
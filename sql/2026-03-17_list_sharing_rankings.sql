@@ -0,0 +1,76 @@
+-- 2026-03-17: Ordered, shareable and collaborative lists (lib/lists/lists.ts)
+--
+-- lists.visibility: private (owner + collaborators), unlisted (anyone with the /lists/[id] link),
+-- public (also listed on /lists under Community). Curated lists stay readable by everyone.
+-- lists.is_ranked: items are shown numbered (#1, #2, ...) — "top 10 PS2 RPGs".
+-- lists.cloned_from: the list this one was copied from ("Clone this list"); the copy is independent.
+--
+-- list_items.position orders every list (1 = first); existing items keep their current order
+-- (newest first). list_items.note is a per-item note, list_items.added_by who put it there.
+--
+-- list_collaborators can add items and edit or remove the items they added; ordering, settings and
+-- collaborators stay with the owner. All list routes check this in code with the service role.
+
+alter table public.lists
+  add column if not exists visibility text not null default 'private',
+  add column if not exists is_ranked boolean not null default false,
+  add column if not exists cloned_from uuid null references public.lists(id) on delete set null,
+  add column if not exists updated_at timestamptz not null default now();
+
+alter table public.lists drop constraint if exists lists_visibility_check;
+alter table public.lists
+  add constraint lists_visibility_check check (visibility in ('private', 'unlisted', 'public'));
+
+create index if not exists idx_lists_visibility_updated
+  on public.lists (visibility, updated_at desc)
+  where visibility = 'public';
+
+alter table public.list_items
+  add column if not exists position integer null,
+  add column if not exists note text null,
+  add column if not exists added_by uuid null references auth.users(id) on delete set null;
+
+alter table public.list_items drop constraint if exists list_items_note_length;
+alter table public.list_items
+  add constraint list_items_note_length check (note is null or char_length(note) <= 500);
+
+with ranked as (
+  select li.list_id, li.release_id,
+         row_number() over (partition by li.list_id order by li.created_at desc, li.release_id) as rn
+  from public.list_items li
+)
+update public.list_items li
+set position = ranked.rn
+from ranked
+where li.list_id = ranked.list_id
+  and li.release_id = ranked.release_id
+  and li.position is null;
+
+update public.list_items li
+set added_by = l.user_id
+from public.lists l
+where l.id = li.list_id
+  and li.added_by is null;
+
+create index if not exists idx_list_items_list_position
+  on public.list_items (list_id, position);
+
+create table if not exists public.list_collaborators (
+  list_id uuid not null references public.lists(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  added_by uuid null references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  primary key (list_id, user_id)
+);
+
+create index if not exists idx_list_collaborators_user
+  on public.list_collaborators (user_id);
+
+alter table public.list_collaborators enable row level security;
+
+drop policy if exists "list_collaborators_select_own" on public.list_collaborators;
+create policy "list_collaborators_select_own"
+  on public.list_collaborators for select
+  using (auth.uid() = user_id);
+
+comment on table public.list_collaborators is 'Users who can add items to a list they do not own. Managed by the list owner via /api/lists/[id]/collaborators.';
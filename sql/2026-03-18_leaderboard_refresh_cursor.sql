@@ -0,0 +1,38 @@
+-- 2026-03-18: Paged leaderboard refresh (lib/leaderboard/ranks.ts)
+--
+-- GET /api/cron/leaderboard no longer scores every profile in one request. A refresh is a pass:
+-- each run scores the next page of public profiles after leaderboard_refresh_state.cursor_user_id
+-- until its time budget is spent, staging scores in leaderboard_pass_scores. The run that reaches
+-- the last profile ranks the staged scores, rewrites leaderboard_entries and closes the pass, so
+-- readers only ever see ranks from one complete pass. The cron runs hourly; a new pass starts six
+-- hours after the previous one finished.
+
+create table if not exists public.leaderboard_refresh_state (
+  id text primary key default 'default',
+  -- computed_at stamp of the pass in progress; null between passes.
+  pass_started_at timestamptz null,
+  -- Last profile (by user_id) visited in this pass; null at the start of a pass.
+  cursor_user_id uuid null,
+  users_scored integer not null default 0,
+  users_failed integer not null default 0,
+  last_finished_at timestamptz null,
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.leaderboard_pass_scores (
+  board text not null,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  score integer not null,
+  pass_started_at timestamptz not null,
+  primary key (board, user_id)
+);
+
+create index if not exists idx_leaderboard_pass_scores_pass
+  on public.leaderboard_pass_scores (pass_started_at, board);
+
+-- Service role only.
+alter table public.leaderboard_refresh_state enable row level security;
+alter table public.leaderboard_pass_scores enable row level security;
+
+comment on table public.leaderboard_refresh_state is 'Cursor of the leaderboard refresh pass in progress, carried across /api/cron/leaderboard runs.';
+comment on table public.leaderboard_pass_scores is 'Per-board scores staged by the current leaderboard pass; ranked into leaderboard_entries when the pass completes.';
@@ -0,0 +1,10 @@
+-- 2026-03-19: catalog_search() resolves pg_trgm from the extensions schema
+--
+-- Supabase installs pg_trgm into the `extensions` schema, but catalog_search() (2026-03-07) pins
+-- search_path = public, so similarity(), word_similarity(), % and <% did not resolve inside it.
+-- Add extensions to the function's search_path; on databases where pg_trgm lives in public the
+-- missing schema is simply skipped.
+
+create extension if not exists pg_trgm with schema extensions;
+
+alter function public.catalog_search(text, int) set search_path = public, extensions;
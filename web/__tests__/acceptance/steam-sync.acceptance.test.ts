@@ -15,6 +15,16 @@ import * as path from "path";
 const STEAM_API_PREFIX = "https://api.steampowered.com/";
 const IGDB_API_HOST = "api.igdb.com";
 
+/** Thin sync = the route plus the per-game steps it shares with the job queue. */
+function readThinSyncSource() {
+  return [
+    "../../app/api/sync/steam-thin/route.ts",
+    "../../lib/steam/sync.ts",
+  ]
+    .map((p) => fs.readFileSync(path.join(__dirname, p), "utf-8"))
+    .join("\n");
+}
+
 function makeSteamGames(count: number) {
   return Array.from({ length: count }, (_, i) => ({
     appid: 1000 + i,
@@ -54,8 +64,7 @@ describe("Steam sync acceptance", () => {
   });
 
   it("thin sync route does not use IGDB (only ensureGameTitleOnly)", () => {
-    const routePath = path.join(__dirname, "../../app/api/sync/steam-thin/route.ts");
-    const source = fs.readFileSync(routePath, "utf-8");
+    const source = readThinSyncSource();
     expect(source).toContain("ensureGameTitleOnly");
     expect(source).not.toContain("upsertGameIgdbFirst");
     expect(source).not.toContain("igdbSearchBest");
@@ -82,8 +91,7 @@ describe("Steam sync acceptance", () => {
 
 describe("Re-running thin sync: zero duplicates", () => {
   it("thin sync route enforces idempotency via release_external_ids first", () => {
-    const routePath = path.join(__dirname, "../../app/api/sync/steam-thin/route.ts");
-    const source = fs.readFileSync(routePath, "utf-8");
+    const source = readThinSyncSource();
     expect(source).toContain("release_external_ids");
     expect(source).toMatch(/\.eq\("source",\s*"steam"\)/);
     expect(source).toMatch(/\.eq\("external_id"/);
@@ -0,0 +1,150 @@
+/**
+ * Account export restore (lib/account-export/restore.ts)
+ *
+ * - Bundles are checked for format, version and table shape before anything is written
+ * - Only user-authored tables restore, and only their allowlisted columns
+ * - Release ids are remapped; unresolved required releases skip the row, optional ones go null
+ * - Lists get new ids (private, not curated, unlinked) and list_items / played-on rows follow the remaps
+ * - A failed write is rolled back newest table first, deleting only rows this restore inserted
+ */
+
+import { describe, expect, it } from "vitest";
+import { ACCOUNT_EXPORT_FORMAT, ACCOUNT_EXPORT_TABLES, ACCOUNT_EXPORT_VERSION } from "@/lib/account-export/bundle";
+import {
+  RESTORE_COLUMNS,
+  restoreRollbackPlan,
+  restoreTableRows,
+  validateAccountExport,
+  type RestoreContext,
+} from "@/lib/account-export/restore";
+
+const spec = (table: string) => ACCOUNT_EXPORT_TABLES.find((t) => t.table === table)!;
+
+function ctx(over: Partial<RestoreContext> = {}): RestoreContext {
+  return {
+    userId: "new-user",
+    releaseMap: new Map([
+      ["old-halo", "halo"],
+      ["old-okami", "okami"],
+    ]),
+    listIds: new Map(),
+    hardware: new Map([["ps2-slim", "hw-ps2"]]),
+    ...over,
+  };
+}
+
+describe("validateAccountExport", () => {
+  const bundle = { format: ACCOUNT_EXPORT_FORMAT, version: ACCOUNT_EXPORT_VERSION, releases: [], tables: { lists: [] } };
+
+  it("accepts a bundle up to the current version", () => {
+    expect(validateAccountExport(bundle)).toBeNull();
+  });
+
+  it("rejects other formats, missing or newer versions and malformed tables", () => {
+    expect(validateAccountExport(null)).toBe("Not an export bundle");
+    expect(validateAccountExport({ ...bundle, format: "other" })).toMatch(/Not a SaveState export/);
+    expect(validateAccountExport({ ...bundle, version: 0 })).toBe("Export has no version");
+    expect(validateAccountExport({ ...bundle, version: ACCOUNT_EXPORT_VERSION + 1 })).toMatch(/newer than this server/);
+    expect(validateAccountExport({ ...bundle, releases: undefined })).toBe("Export is missing releases or tables");
+    expect(validateAccountExport({ ...bundle, tables: { lists: {} } })).toBe("Export table lists must be a list of rows");
+    expect(validateAccountExport({ ...bundle, tables: { lists: [1] } })).toBe("Export table lists must be a list of rows");
+  });
+});
+
+describe("restoreTableRows", () => {
+  it("restores only user-authored tables", () => {
+    const restorable = ACCOUNT_EXPORT_TABLES.filter((t) => RESTORE_COLUMNS[t.table]).map((t) => t.table);
+    expect(restorable).toEqual([
+      "portfolio_entries",
+      "portfolio_physical_items",
+      "lists",
+      "list_items",
+      "user_release_played_on",
+      "user_memory_titles",
+    ]);
+    for (const table of ["psn_title_progress", "achievement_unlocks", "user_archetype_snapshots_history"]) {
+      const faked = [{ release_id: "old-halo", earned_platinum: true, unlocked_at: "2026-01-01T00:00:00Z" }];
+      expect(restoreTableRows(spec(table), faked, ctx())).toEqual({ rows: [], skipped: 0 });
+    }
+  });
+
+  it("remaps releases, drops unknown columns and owns rows by the restoring user", () => {
+    const out = restoreTableRows(
+      spec("portfolio_entries"),
+      [
+        { id: "e1", user_id: "someone", release_id: "old-halo", status: "completed", source: "psn", identity_tier: "legend" },
+        { release_id: "gone", status: "playing" },
+      ],
+      ctx()
+    );
+    expect(out.skipped).toBe(1);
+    expect(out.rows).toEqual([{ release_id: "halo", status: "completed", source: "import", user_id: "new-user" }]);
+  });
+
+  it("keeps rows with an optional release that no longer resolves", () => {
+    const out = restoreTableRows(spec("portfolio_physical_items"), [{ id: "p1", title: "PS2 Slim", release_id: "gone", edition_id: "e" }], ctx());
+    expect(out.rows).toEqual([{ title: "PS2 Slim", release_id: null, user_id: "new-user" }]);
+  });
+
+  it("gives lists new ids and points list_items at them", () => {
+    const c = ctx();
+    const lists = restoreTableRows(
+      spec("lists"),
+      [{ id: "old-list", title: "Best of 2005", visibility: "public", is_curated: true, cloned_from: "x", is_ranked: true }],
+      c
+    );
+    const newId = c.listIds.get("old-list");
+    expect(newId).toBeTruthy();
+    expect(lists.rows).toEqual([
+      { title: "Best of 2005", is_ranked: true, id: newId, user_id: "new-user", is_curated: false, visibility: "private", cloned_from: null },
+    ]);
+
+    const items = restoreTableRows(
+      spec("list_items"),
+      [
+        { list_id: "old-list", release_id: "old-okami", position: 1, note: "brush", added_by: "friend" },
+        { list_id: "other-list", release_id: "old-halo", position: 2 },
+        { list_id: "old-list", release_id: "gone", position: 3 },
+      ],
+      c
+    );
+    expect(items.skipped).toBe(2);
+    expect(items.rows).toEqual([{ list_id: newId, release_id: "okami", position: 1, note: "brush", added_by: "new-user" }]);
+  });
+
+  it("matches played-on hardware by slug", () => {
+    const out = restoreTableRows(
+      spec("user_release_played_on"),
+      [
+        { release_id: "old-okami", hardware_id: "old-hw", hardware_slug: "ps2-slim", is_primary: true },
+        { release_id: "old-halo", hardware_slug: "xbox-duke" },
+      ],
+      ctx()
+    );
+    expect(out.skipped).toBe(1);
+    expect(out.rows).toEqual([{ release_id: "okami", is_primary: true, hardware_id: "hw-ps2", user_id: "new-user" }]);
+  });
+});
+
+describe("restoreRollbackPlan", () => {
+  it("undoes writes newest table first, merging chunks of one table", () => {
+    const plan = restoreRollbackPlan(
+      [
+        { table: "portfolio_entries", values: ["halo"] },
+        { table: "portfolio_entries", values: ["okami"] },
+        { table: "lists", values: ["list-1", "list-2"] },
+        { table: "list_items", values: ["list-1", "list-1", "list-2"] },
+      ],
+      "new-user"
+    );
+    expect(plan).toEqual([
+      { table: "list_items", owner: null, column: "list_id", values: ["list-1", "list-2"] },
+      { table: "lists", owner: { column: "user_id", value: "new-user" }, column: "id", values: ["list-1", "list-2"] },
+      { table: "portfolio_entries", owner: { column: "user_id", value: "new-user" }, column: "release_id", values: ["okami", "halo"] },
+    ]);
+  });
+
+  it("has nothing to undo when the first write fails", () => {
+    expect(restoreRollbackPlan([], "new-user")).toEqual([]);
+  });
+});
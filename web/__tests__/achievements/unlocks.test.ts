@@ -0,0 +1,115 @@
+/**
+ * Achievement unlocks (lib/achievements/unlocks.ts)
+ *
+ * - Only unlocked achievements with an id and a valid date are stored; rarity is clamped to 0–100
+ * - month=YYYY-MM covers [first of month, first of next month) in UTC, December rolls into January
+ * - Keyset cursors round-trip and page through rows sharing an unlocked_at without skips or repeats
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  decodeCursor,
+  encodeCursor,
+  monthRange,
+  pageAchievementUnlocks,
+  toAchievementUnlockRows,
+  unlockCursorFilter,
+} from "@/lib/achievements/unlocks";
+
+const game = { platform: "psn" as const, release_id: "rel-1", external_game_id: "NPWR00001_00" };
+const NOW = "2026-03-01T00:00:00.000Z";
+
+describe("toAchievementUnlockRows", () => {
+  it("drops locked, undated and id-less achievements", () => {
+    const rows = toAchievementUnlockRows(
+      "user-1",
+      game,
+      [
+        { achievement_id: "1", unlocked_at: "2026-02-14T20:00:00Z" },
+        { achievement_id: "2", unlocked_at: null },
+        { achievement_id: "3", unlocked_at: undefined },
+        { achievement_id: "4", unlocked_at: "" },
+        { achievement_id: "5", unlocked_at: "not a date" },
+        { achievement_id: "  ", unlocked_at: "2026-02-14T20:00:00Z" },
+        { achievement_id: " 7 ", achievement_name: "Platinum", unlocked_at: "2026-02-15T08:00:00+02:00" },
+      ],
+      NOW
+    );
+    expect(rows.map((r) => [r.achievement_id, r.unlocked_at])).toEqual([
+      ["1", "2026-02-14T20:00:00.000Z"],
+      ["7", "2026-02-15T06:00:00.000Z"],
+    ]);
+    expect(rows[1]).toMatchObject({ user_id: "user-1", platform: "psn", release_id: "rel-1", achievement_name: "Platinum", updated_at: NOW });
+  });
+
+  it("clamps rarity to 0–100 and keeps unknown rarity null", () => {
+    const rarity = (v: unknown) =>
+      toAchievementUnlockRows("u", game, [{ achievement_id: "a", unlocked_at: NOW, rarity_percentage: v as number }], NOW)[0]
+        .rarity_percentage;
+    expect(rarity(12.5)).toBe(12.5);
+    expect(rarity("3.2")).toBe(3.2);
+    expect(rarity(100.0001)).toBe(100);
+    expect(rarity(-1)).toBe(0);
+    expect(rarity(null)).toBeNull();
+    expect(rarity("")).toBeNull();
+    expect(rarity("rare")).toBeNull();
+  });
+});
+
+describe("monthRange", () => {
+  it("runs from the first of the month (inclusive) to the first of the next (exclusive)", () => {
+    expect(monthRange("2026-02")).toEqual({ from: "2026-02-01T00:00:00.000Z", to: "2026-03-01T00:00:00.000Z" });
+    expect(monthRange("2024-02")?.to).toBe("2024-03-01T00:00:00.000Z");
+  });
+
+  it("rolls December into the next year", () => {
+    expect(monthRange("2025-12")).toEqual({ from: "2025-12-01T00:00:00.000Z", to: "2026-01-01T00:00:00.000Z" });
+  });
+
+  it("rejects anything but YYYY-MM", () => {
+    for (const bad of ["2026-13", "2026-00", "2026-2", "26-02", "2026-02-01", ""]) expect(monthRange(bad)).toBeNull();
+  });
+});
+
+describe("keyset cursor", () => {
+  const at = "2026-02-14T20:00:00.000Z";
+
+  it("round-trips, and rejects malformed cursors", () => {
+    expect(decodeCursor(encodeCursor({ unlocked_at: at, id: 42 }))).toEqual({ at, id: 42 });
+    expect(decodeCursor(`2026-02-14T22:00:00+02:00|7`)).toEqual({ at, id: 7 });
+    for (const bad of [null, "", "bogus", `${at}|`, `${at}|x`, `${at}|1.5`, "|3"]) expect(decodeCursor(bad)).toBeNull();
+    expect(unlockCursorFilter({ at, id: 42 })).toBe(`unlocked_at.lt."${at}",and(unlocked_at.eq."${at}",id.lt.42)`);
+  });
+
+  it("pages through rows with equal unlocked_at without skipping or repeating", () => {
+    // Newest first, ties by id desc, as queryAchievementUnlocks orders them.
+    const rows: Array<{ id: number; unlocked_at: string }> = [
+      { id: 9, unlocked_at: "2026-02-20T00:00:00.000Z" },
+      { id: 8, unlocked_at: at },
+      { id: 7, unlocked_at: at },
+      { id: 5, unlocked_at: at },
+      { id: 6, unlocked_at: "2026-02-01T00:00:00.000Z" },
+    ];
+    // What unlockCursorFilter asks the database for.
+    const afterCursor = (cursor: string | null) => {
+      const c = decodeCursor(cursor);
+      return c ? rows.filter((r) => r.unlocked_at < c.at || (r.unlocked_at === c.at && r.id < c.id)) : rows;
+    };
+
+    const seen: number[] = [];
+    let cursor: string | null = null;
+    for (let guard = 0; guard < 10; guard++) {
+      const page: { items: typeof rows; next_cursor: string | null; has_more: boolean } = pageAchievementUnlocks(
+        afterCursor(cursor).slice(0, 3),
+        2
+      );
+      seen.push(...page.items.map((r) => r.id));
+      if (!page.has_more) {
+        expect(page.next_cursor).toBeNull();
+        break;
+      }
+      cursor = page.next_cursor;
+    }
+    expect(seen).toEqual([9, 8, 7, 5, 6]);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Scheduled duplicate detection (lib/catalog/duplicates.ts)
+ *
+ * - Release pairs only on the same platform; ids (game, IGDB, normalized external ids) + title agreement → safe
+ * - Title-only resemblance is queued, never auto-merged; a source with different ids blocks auto-merge
+ * - Game pairs share an igdb_game_id; disagreeing titles go to review
+ * - Impact lists users per side and counts the ones who own both
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildDuplicateImpact,
+  findGameDuplicatePairs,
+  findReleaseDuplicatePairs,
+  normalizeDuplicateTitle,
+  scoreReleasePair,
+  titleSimilarity,
+  type DuplicateReleaseRow,
+} from "@/lib/catalog/duplicates";
+
+function release(over: Partial<DuplicateReleaseRow> & { id: string }): DuplicateReleaseRow {
+  return {
+    game_id: null,
+    platform_key: "ps4",
+    display_title: "Game",
+    cover_url: null,
+    game_title: null,
+    igdb_game_id: null,
+    external_ids: [],
+    ...over,
+  };
+}
+
+describe("titles", () => {
+  it("normalizes trademark signs, tags and punctuation", () => {
+    expect(normalizeDuplicateTitle("DOOM® (PS4)")).toBe("doom");
+    expect(normalizeDuplicateTitle("Ratchet & Clank: Rift Apart")).toBe("ratchet and clank rift apart");
+    expect(titleSimilarity("Marvel's Spider-Man", "Marvel’s Spider Man")).toBe(1);
+    expect(titleSimilarity("FIFA 21", "FIFA 22")).toBeLessThan(0.9);
+  });
+});
+
+describe("scoreReleasePair", () => {
+  it("treats the same external id written differently as a safe duplicate", () => {
+    const pair = scoreReleasePair(
+      release({ id: "a", display_title: "Bloodborne", external_ids: [{ source: "psn", external_id: "CUSA00900_00" }] }),
+      release({ id: "b", display_title: "Bloodborne™", cover_url: "c.jpg", external_ids: [{ source: "psn", external_id: "cusa00900-00" }] })
+    );
+    expect(pair).toMatchObject({
+      safe: true,
+      suggested_winner_id: "b",
+      signals: { shared_external_ids: ["psn:cusa0090000"], title_similarity: 1 },
+    });
+    expect(pair!.score).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it("never pairs different platforms", () => {
+    expect(scoreReleasePair(release({ id: "a", game_id: "g" }), release({ id: "b", game_id: "g", platform_key: "ps5" }))).toBeNull();
+  });
+
+  it("queues title-only matches and pairs whose ids conflict", () => {
+    const titleOnly = scoreReleasePair(release({ id: "a", display_title: "Hades" }), release({ id: "b", display_title: "HADES" }));
+    expect(titleOnly).toMatchObject({ safe: false, score: 0.75 });
+
+    const conflict = scoreReleasePair(
+      release({ id: "a", game_id: "g", display_title: "Portal 2", external_ids: [{ source: "steam", external_id: "620" }] }),
+      release({ id: "b", game_id: "g", display_title: "Portal 2", external_ids: [{ source: "steam", external_id: "323180" }] })
+    );
+    expect(conflict).toMatchObject({ safe: false, signals: { same_game: true, conflicting_sources: ["steam"] } });
+  });
+
+  it("does not auto-merge the same IGDB game when the release titles disagree", () => {
+    const pair = scoreReleasePair(
+      release({ id: "a", igdb_game_id: 7, display_title: "Final Fantasy VII" }),
+      release({ id: "b", igdb_game_id: 7, display_title: "Crisis Core" })
+    );
+    expect(pair).toMatchObject({ safe: false, signals: { same_igdb: true } });
+  });
+});
+
+describe("findReleaseDuplicatePairs", () => {
+  it("finds each pair once across blocks and skips unrelated titles", () => {
+    const pairs = findReleaseDuplicatePairs([
+      release({ id: "r1", game_id: "g1", igdb_game_id: 1, display_title: "Celeste" }),
+      release({ id: "r2", game_id: "g1", igdb_game_id: 1, display_title: "Celeste" }),
+      release({ id: "r3", display_title: "Celeste Classic 2" }),
+      release({ id: "r4", display_title: "Hollow Knight" }),
+    ]);
+    expect(pairs.map((p) => [p.a_id, p.b_id, p.safe])).toEqual([["r1", "r2", true]]);
+  });
+});
+
+describe("findGameDuplicatePairs", () => {
+  it("pairs games sharing an IGDB id and keeps the one with more releases", () => {
+    const [pair] = findGameDuplicatePairs([
+      { id: "g1", canonical_title: "Celeste", igdb_game_id: 26226, cover_url: null, release_count: 1 },
+      { id: "g2", canonical_title: "Celeste", igdb_game_id: 26226, cover_url: null, release_count: 3 },
+      { id: "g3", canonical_title: "Other", igdb_game_id: 1, cover_url: null, release_count: 1 },
+    ]);
+    expect(pair).toMatchObject({ kind: "game", a_id: "g1", b_id: "g2", safe: true, suggested_winner_id: "g2" });
+  });
+});
+
+describe("buildDuplicateImpact", () => {
+  it("lists users per side and counts collisions", () => {
+    const users = new Map([
+      ["r1", new Map([["u1", new Set(["portfolio_entries"])], ["u2", new Set(["portfolio_entries", "psn_title_progress"])]])],
+      ["r2", new Map([["u2", new Set(["portfolio_entries"])]])],
+    ]);
+    expect(buildDuplicateImpact(["r1"], ["r2"], users)).toEqual({
+      user_count: 2,
+      collisions: 1,
+      users: [
+        { user_id: "u1", a: ["portfolio_entries"], b: [] },
+        { user_id: "u2", a: ["portfolio_entries", "psn_title_progress"], b: ["portfolio_entries"] },
+      ],
+    });
+  });
+});
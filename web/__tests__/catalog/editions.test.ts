@@ -0,0 +1,185 @@
+/**
+ * Release editions (lib/catalog/editions.ts, lib/identity/getVariantStats.ts)
+ *
+ * - Region aliases and product-code prefixes/suffixes → NTSC-U / PAL / NTSC-J / ...
+ * - Barcodes keep digits only and must pass the UPC/EAN check digit
+ * - Edition names → slug + kind (Player's Choice is a budget reprint, not special)
+ * - Variant stats collapse duplicates and feed a real variant_hunter gate
+ * - A release merge folds editions both releases have (region + slug) and moves the rest
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  normalizeBarcode,
+  normalizeEdition,
+  normalizeEditionInput,
+  normalizeEditionRegion,
+  normalizeProductCode,
+  planEditionMerge,
+  regionFromProductCode,
+  type ReleaseEdition,
+} from "@/lib/catalog/editions";
+import { computeVariantStats } from "@/lib/identity/getVariantStats";
+import { computeArchetypes, type IdentitySignals } from "@/lib/identity/archetypes";
+import { identitySignalsFromGetIdentitySignalsJson } from "@/lib/identity/compute";
+
+describe("regions and codes", () => {
+  it("normalizes region aliases and rejects unknown ones", () => {
+    expect(normalizeEditionRegion("NA")).toBe("NTSC-U");
+    expect(normalizeEditionRegion("ntsc u")).toBe("NTSC-U");
+    expect(normalizeEditionRegion("Europe")).toBe("PAL");
+    expect(normalizeEditionRegion("jp")).toBe("NTSC-J");
+    expect(normalizeEditionRegion("NTSC-J")).toBe("NTSC-J");
+    expect(normalizeEditionRegion("Mars")).toBeNull();
+    expect(normalizeEditionRegion("")).toBeNull();
+  });
+
+  it("formats product codes and reads the region they imply", () => {
+    expect(normalizeProductCode("slus 00594")).toBe("SLUS-00594");
+    expect(normalizeProductCode("SCES-005.64")).toBe("SCES-00564");
+    expect(normalizeProductCode("nus nsme usa")).toBe("NUS-NSME-USA");
+    expect(regionFromProductCode("SLUS-00594")).toBe("NTSC-U");
+    expect(regionFromProductCode("SLPS 01234")).toBe("NTSC-J");
+    expect(regionFromProductCode("NUS-NSME-EUR")).toBe("PAL");
+    expect(regionFromProductCode("DMG-APAJ-JPN")).toBe("NTSC-J");
+    expect(regionFromProductCode("CUSA-00001")).toBeNull();
+  });
+
+  it("accepts UPC-A / EAN-13 with a valid check digit only", () => {
+    expect(normalizeBarcode("0 45496 74002 3")).toBe("045496740023");
+    expect(normalizeBarcode("4902370517392")).toBe("4902370517392");
+    expect(normalizeBarcode("045496740020")).toBeNull();
+    expect(normalizeBarcode("12345")).toBeNull();
+  });
+});
+
+describe("normalizeEdition", () => {
+  it("slugs the name and classifies the kind", () => {
+    expect(normalizeEdition("Collector's Edition")).toEqual({
+      edition_name: "Collector's Edition",
+      edition_slug: "collectors-edition",
+      edition_kind: "collectors",
+    });
+    expect(normalizeEdition("Player's Choice").edition_kind).toBe("budget_reprint");
+    expect(normalizeEdition("Greatest Hits").edition_kind).toBe("budget_reprint");
+    expect(normalizeEdition("Steelbook").edition_kind).toBe("special");
+    expect(normalizeEdition("")).toEqual({ edition_name: "Standard", edition_slug: "standard", edition_kind: "standard" });
+    expect(normalizeEdition("Wal-Mart exclusive", "limited").edition_kind).toBe("limited");
+  });
+});
+
+describe("normalizeEditionInput", () => {
+  it("takes the region from the product code when none is given", () => {
+    const res = normalizeEditionInput({ release_id: "r1", product_codes: "slus-00594, SLUS-00594", edition_name: "Greatest Hits" });
+    expect(res).toMatchObject({
+      ok: true,
+      edition: { region: "NTSC-U", product_codes: ["SLUS-00594"], edition_slug: "greatest-hits", edition_kind: "budget_reprint" },
+    });
+  });
+
+  it("rejects bad barcodes and a region that contradicts the code", () => {
+    const res = normalizeEditionInput({ release_id: "r1", region: "PAL", product_codes: ["SLUS-00594"], barcodes: ["123456789013"] });
+    expect(res.ok).toBe(false);
+    if (!res.ok) {
+      expect(res.errors).toContain("invalid barcode: 123456789013");
+      expect(res.errors).toContain("region PAL does not match product code region NTSC-U");
+    }
+  });
+});
+
+describe("planEditionMerge", () => {
+  const edition = (id: string, release_id: string, over: Partial<ReleaseEdition> = {}): ReleaseEdition => ({
+    id,
+    release_id,
+    region: "NTSC-U",
+    edition_name: "Standard",
+    edition_slug: "standard",
+    edition_kind: "standard",
+    product_codes: [],
+    barcodes: [],
+    released_on: null,
+    notes: null,
+    created_by: null,
+    created_at: "2026-03-01T00:00:00Z",
+    updated_at: "2026-03-01T00:00:00Z",
+    ...over,
+  });
+
+  it("folds editions the winner has by region + slug and moves the others", () => {
+    const loser = [
+      edition("l-us", "loser", { product_codes: ["SLUS-00594"], barcodes: ["711719140004"], notes: "black label" }),
+      edition("l-pal", "loser", { region: "PAL" }),
+      edition("l-gh", "loser", { edition_slug: "greatest-hits" }),
+    ];
+    const winner = [edition("w-us", "winner", { product_codes: ["SLUS-00595"], released_on: "1997-09-07" })];
+
+    const plan = planEditionMerge(loser, winner);
+    expect(plan.moves.map((e) => e.id)).toEqual(["l-pal", "l-gh"]);
+    expect(plan.pairs).toHaveLength(1);
+    expect(plan.pairs[0]).toMatchObject({
+      loser: { id: "l-us" },
+      winner: { id: "w-us" },
+      patch: {
+        product_codes: ["SLUS-00595", "SLUS-00594"],
+        barcodes: ["711719140004"],
+        released_on: "1997-09-07",
+        notes: "black label",
+      },
+    });
+  });
+});
+
+describe("computeVariantStats", () => {
+  it("counts distinct variants, imports against the home region, specials and multi-variant releases", () => {
+    const stats = computeVariantStats([
+      { release_id: "ff7", edition_id: "ff7-us", region: "NTSC-U", edition_kind: "standard" },
+      { release_id: "ff7", edition_id: "ff7-us", region: "NTSC-U", edition_kind: "standard" }, // entry + physical item
+      { release_id: "ff7", edition_id: "ff7-jp", region: "NTSC-J", edition_kind: "standard" },
+      { release_id: "ff7", edition_id: "ff7-gh", region: "NTSC-U", edition_kind: "budget_reprint" },
+      { release_id: "mgs", edition_id: "mgs-pc", region: "PAL", edition_kind: "collectors" },
+      { release_id: "sotn", edition_id: null, region: "usa", edition_kind: null },
+      { release_id: "nope", edition_id: null, region: "somewhere", edition_kind: null },
+    ]);
+    expect(stats).toEqual({
+      variants_owned: 5,
+      regions: 3,
+      home_region: "NTSC-U",
+      import_variants: 2,
+      special_editions: 1,
+      multi_variant_releases: 1,
+    });
+  });
+});
+
+describe("variant_hunter archetype", () => {
+  const base: IdentitySignals = {
+    owned_titles: 40,
+    unique_platforms: 2,
+    era_span_years: 5,
+    primary_era_share: 0.5,
+    primary_era_count: 20,
+    achievements_total: 0,
+  };
+
+  it("stays hidden without edition data, even with many curation fields", () => {
+    expect(computeArchetypes({ ...base, collector_fields: 500 }).some((a) => a.id === "variant_hunter")).toBe(false);
+  });
+
+  it("shows once variant stats clear the gate", () => {
+    const signals = identitySignalsFromGetIdentitySignalsJson({
+      owned_releases: 40,
+      variant_stats: {
+        variants_owned: 60,
+        regions: 3,
+        home_region: "NTSC-U",
+        import_variants: 20,
+        special_editions: 20,
+        multi_variant_releases: 15,
+      },
+    });
+    const hunter = computeArchetypes(signals).find((a) => a.id === "variant_hunter");
+    expect(hunter?.gate_passed).toBe(true);
+    expect(hunter?.strength).not.toBe("hidden");
+    expect(hunter?.reasons[0]).toBe("Variants: 60");
+  });
+});
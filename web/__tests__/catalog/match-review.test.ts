@@ -0,0 +1,216 @@
+/**
+ * Match review queue (lib/igdb/match-review.ts, lib/igdb/match-validation.ts)
+ *
+ * - Threshold routing: the first candidate clearing CONFIDENCE_THRESHOLD and both guardrails is
+ *   committed; anything else is logged as rejected with its candidates and lands in the queue
+ * - Queue items carry the attempt's candidates (or a stand-in for pre-candidates_json attempts),
+ *   are flagged when the best one trips a guardrail, and show only the newest attempt per item
+ * - Picking accepts the attempt, rejecting all closes it as rejected; reviewed attempts are final
+ * - Bulk approve takes the best candidate at or above min_confidence and leaves flagged items alone
+ */
+
+import { describe, it, expect } from "vitest";
+import type { IgdbHit } from "@/lib/igdb/server";
+import { CONFIDENCE_THRESHOLD, pickValidatedCandidate, reviewCandidates } from "@/lib/igdb/match-validation";
+import {
+  bulkApproveDecision,
+  newestAttempts,
+  openAttempt,
+  reviewDecisionPatch,
+  toMatchReviewItem,
+} from "@/lib/igdb/match-review";
+
+function hit(igdb_game_id: number, title: string, extra: Partial<IgdbHit> = {}): IgdbHit {
+  return {
+    igdb_game_id,
+    title,
+    summary: null,
+    genres: [],
+    developer: null,
+    publisher: null,
+    first_release_year: null,
+    cover_url: null,
+    category: 0,
+    ...extra,
+  };
+}
+
+/** A game_match_attempts row the way resolveGameWithValidation logs an uncommitted match. */
+function attemptRow(query: string, hits: IgdbHit[], extra: Record<string, unknown> = {}) {
+  const { best, scored } = pickValidatedCandidate(hits, query);
+  return {
+    id: 1,
+    source: "psn",
+    external_id: "NPWR00001_00",
+    title_used: query,
+    game_id: "game-1",
+    igdb_game_id_candidate: best!.hit.igdb_game_id,
+    confidence: best!.confidence,
+    reasons_json: best!.reasons,
+    candidates_json: reviewCandidates(scored.map((s) => ({ hit: s.hit, confidence: s.confidence })), query),
+    outcome: "rejected",
+    created_at: "2026-03-01T00:00:00.000Z",
+    reviewed_at: null,
+    ...extra,
+  };
+}
+
+describe("threshold routing", () => {
+  it("commits a candidate that clears the threshold and both guardrails", () => {
+    const { best, accepted } = pickValidatedCandidate([hit(1020, "Hollow Knight")], "Hollow Knight");
+    expect(accepted).toBe(true);
+    expect(best!.confidence).toBeGreaterThanOrEqual(CONFIDENCE_THRESHOLD);
+  });
+
+  it("takes the first passing candidate in IGDB order, skipping guardrail hits", () => {
+    const { best, accepted } = pickValidatedCandidate(
+      [hit(1, "Hollow Knight Collection"), hit(2, "Hollow Knight", { category: 1 }), hit(3, "Hollow Knight")],
+      "Hollow Knight"
+    );
+    expect(accepted).toBe(true);
+    expect(best!.hit.igdb_game_id).toBe(3);
+  });
+
+  it("routes weak or guarded matches to review with the first candidate as best", () => {
+    const weak = pickValidatedCandidate([hit(7, "Ori and the Blind Forest"), hit(8, "Hollow")], "Hollow Knight Voidheart");
+    expect(weak.accepted).toBe(false);
+    expect(weak.best!.hit.igdb_game_id).toBe(7);
+    expect(weak.best!.confidence).toBeLessThan(CONFIDENCE_THRESHOLD);
+
+    const dlc = pickValidatedCandidate([hit(9, "Hollow Knight", { category: 1 })], "Hollow Knight");
+    expect(dlc.best!.confidence).toBeGreaterThanOrEqual(CONFIDENCE_THRESHOLD);
+    expect(dlc.accepted).toBe(false);
+    expect(dlc.best!.reasons.category_guardrail).toBe(true);
+  });
+
+  it("moves with the threshold", () => {
+    const hits = [hit(5, "Knight Hollow Saga")];
+    expect(pickValidatedCandidate(hits, "Hollow Knight Silksong", 0.9).accepted).toBe(false);
+    expect(pickValidatedCandidate(hits, "Hollow Knight Silksong", 0.5).accepted).toBe(true);
+  });
+});
+
+describe("queueing", () => {
+  it("turns a rejected attempt into a review item with its candidates", () => {
+    const item = toMatchReviewItem(attemptRow("Hollow Knight", [hit(1, "Hollow Knight Bundle"), hit(2, "Hollow Knight")]));
+    expect(item).toMatchObject({
+      id: "1",
+      source: "psn",
+      game_id: "game-1",
+      outcome: "rejected",
+      best_igdb_game_id: 2,
+      flagged: false,
+    });
+    expect(item.candidates.map((c) => [c.igdb_game_id, c.reasons.bundle_mismatch ?? false])).toEqual([
+      [1, true],
+      [2, false],
+    ]);
+  });
+
+  it("flags items whose best candidate trips a guardrail", () => {
+    expect(toMatchReviewItem(attemptRow("Hollow Knight", [hit(1, "Hollow Knight Bundle")])).flagged).toBe(true);
+    expect(toMatchReviewItem(attemptRow("Hollow Knight", [hit(1, "Hollow Knight", { category: 3 })])).flagged).toBe(true);
+  });
+
+  it("builds a stand-in candidate for attempts logged before candidates_json", () => {
+    const item = toMatchReviewItem({
+      id: 4,
+      source: "steam",
+      external_id: "367520",
+      title_used: "Hollow Knight",
+      game_id: null,
+      igdb_game_id_candidate: "1020",
+      confidence: "0.65",
+      reasons_json: { token_overlap: 0.5, bundle_mismatch: true },
+      candidates_json: null,
+      outcome: "pending",
+      created_at: "2025-01-01T00:00:00Z",
+    });
+    expect(item.game_id).toBeNull();
+    expect(item.confidence).toBe(0.65);
+    expect(item.flagged).toBe(true);
+    expect(item.candidates).toEqual([
+      {
+        igdb_game_id: 1020,
+        title: "IGDB #1020",
+        first_release_year: null,
+        cover_url: null,
+        platforms: [],
+        category: null,
+        confidence: 0.65,
+        reasons: { token_overlap: 0.5, bundle_mismatch: true },
+      },
+    ]);
+  });
+
+  it("shows the newest open attempt of each platform item, in queue order", () => {
+    const rows = [
+      { id: 1, source: "psn", external_id: "A", created_at: "2026-01-01T00:00:00Z" },
+      { id: 2, source: "psn", external_id: "B", created_at: "2026-01-01T00:00:00Z" },
+      { id: 3, source: "psn", external_id: "A", created_at: "2026-02-01T00:00:00Z" },
+      { id: 4, source: "steam", external_id: "A", created_at: "2025-01-01T00:00:00Z" },
+    ];
+    expect(newestAttempts(rows).map((r) => r.id)).toEqual([2, 3, 4]);
+  });
+});
+
+describe("approve and reject", () => {
+  const now = "2026-03-02T10:00:00.000Z";
+
+  it("accepts the attempt on a pick, recording the chosen game", () => {
+    expect(
+      reviewDecisionPatch({ review_decision: "picked", reviewed_by: "admin-1", igdb_game_id: 1020, game_id: "game-9" }, now)
+    ).toEqual({
+      reviewed_at: now,
+      reviewed_by: "admin-1",
+      review_decision: "picked",
+      outcome: "accepted",
+      resolved_at: now,
+      reviewed_igdb_game_id: 1020,
+      game_id: "game-9",
+    });
+  });
+
+  it("rejects the attempt on reject-all and leaves its game alone", () => {
+    expect(reviewDecisionPatch({ review_decision: "rejected_all", reviewed_by: null }, now)).toEqual({
+      reviewed_at: now,
+      reviewed_by: null,
+      review_decision: "rejected_all",
+      outcome: "rejected",
+      resolved_at: now,
+    });
+  });
+
+  it("only reviews open attempts", () => {
+    expect(openAttempt(null)).toEqual({ ok: false, status: 404, error: "Match attempt not found" });
+    expect(openAttempt({ id: 1, reviewed_at: "2026-03-01T00:00:00Z" })).toMatchObject({ ok: false, status: 409 });
+    expect(openAttempt({ id: 1, reviewed_at: null })).toEqual({ ok: true, result: { id: 1, reviewed_at: null } });
+  });
+});
+
+describe("bulkApproveDecision", () => {
+  const item = toMatchReviewItem(attemptRow("Hollow Knight", [hit(1, "Hollow Knight", { category: 1 })]));
+  const clean = toMatchReviewItem(attemptRow("Hollow Knight", [hit(2, "Hollow Knight")]));
+
+  it("approves the best candidate at or above min_confidence", () => {
+    const decision = bulkApproveDecision(clean, { min_confidence: clean.confidence! });
+    expect(decision).toMatchObject({ approve: true, best: { igdb_game_id: 2, title: "Hollow Knight" } });
+    expect(bulkApproveDecision(clean, { min_confidence: clean.confidence! + 0.01 })).toEqual({
+      approve: false,
+      reason: "below_threshold",
+    });
+    expect(bulkApproveDecision({ ...clean, confidence: null }, { min_confidence: 0 })).toEqual({
+      approve: false,
+      reason: "below_threshold",
+    });
+  });
+
+  it("leaves flagged items unless include_flagged", () => {
+    expect(item.flagged).toBe(true);
+    expect(bulkApproveDecision(item, { min_confidence: 0.5 })).toEqual({ approve: false, reason: "flagged" });
+    expect(bulkApproveDecision(item, { min_confidence: 0.5, include_flagged: true })).toMatchObject({
+      approve: true,
+      best: { igdb_game_id: 1 },
+    });
+  });
+});
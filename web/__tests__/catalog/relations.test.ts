@@ -0,0 +1,153 @@
+/**
+ * Game lineage (lib/catalog/relations.ts, lib/identity/getSeriesProgress.ts)
+ *
+ * - IGDB category 8/9/11 + parent_game → remake_of / remaster_of / port_of, titled from the series list
+ * - Collections (else franchises) → part_of_series; sequel_of = previous mainline entry, main games only
+ * - An original's remakes/remasters/ports lists yield rows for the catalog games they name
+ * - Series progress counts owned mainline entries, crediting originals of owned remakes
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  deriveGameRelations,
+  deriveVersionRelations,
+  seriesKey,
+  seriesRefsForHit,
+  type GameSeriesRow,
+} from "@/lib/catalog/relations";
+import { computeSeriesProgress } from "@/lib/identity/getSeriesProgress";
+import type { IgdbHit } from "@/lib/igdb/server";
+
+function hit(over: Partial<IgdbHit>): IgdbHit {
+  return {
+    igdb_game_id: 1,
+    title: "Game",
+    summary: null,
+    genres: [],
+    developer: null,
+    publisher: null,
+    first_release_year: null,
+    cover_url: null,
+    category: 0,
+    ...over,
+  };
+}
+
+const RESIDENT_EVIL: GameSeriesRow = {
+  series_key: seriesKey("collection", 5),
+  kind: "collection",
+  igdb_id: 5,
+  name: "Resident Evil",
+  slug: "resident-evil",
+  mainline_games: [
+    { igdb_game_id: 974, title: "Resident Evil", first_release_year: 1996 },
+    { igdb_game_id: 975, title: "Resident Evil 2", first_release_year: 1998 },
+    { igdb_game_id: 976, title: "Resident Evil 3: Nemesis", first_release_year: 1999 },
+  ],
+  fetched_at: "2026-03-11T00:00:00.000Z",
+};
+
+describe("deriveGameRelations", () => {
+  it("links a remake to its parent game and its series, taking the original's title from the series", () => {
+    const re2Remake = hit({
+      igdb_game_id: 19686,
+      title: "Resident Evil 2",
+      first_release_year: 2019,
+      category: 8,
+      parent_game_id: 975,
+      collections: [{ igdb_id: 5, name: "Resident Evil", slug: "resident-evil" }],
+    });
+
+    const rows = deriveGameRelations("g-re2r", re2Remake, [RESIDENT_EVIL]);
+
+    expect(rows).toEqual([
+      expect.objectContaining({
+        relation: "remake_of",
+        target_key: "igdb:975",
+        related_igdb_game_id: 975,
+        related_title: "Resident Evil 2",
+        related_first_release_year: 1998,
+        source: "igdb",
+      }),
+      expect.objectContaining({ relation: "part_of_series", target_key: "series:igdb_collection:5", series_key: "igdb_collection:5" }),
+    ]);
+  });
+
+  it("prefers an original the caller looked up and maps remaster/port categories", () => {
+    const original = { title: "Shadow of the Colossus", first_release_year: 2005 };
+    const [remaster] = deriveGameRelations("g", hit({ category: 9, parent_game_id: 40 }), [], original);
+    expect(remaster).toMatchObject({ relation: "remaster_of", related_title: "Shadow of the Colossus", related_first_release_year: 2005 });
+
+    const [port] = deriveGameRelations("g", hit({ category: 11, parent_game_id: 41 }), []);
+    expect(port).toMatchObject({ relation: "port_of", related_igdb_game_id: 41, related_title: null });
+  });
+
+  it("derives sequel_of from the previous mainline entry, for main games only", () => {
+    const re3 = deriveGameRelations("g-re3", hit({ igdb_game_id: 976 }), [RESIDENT_EVIL]);
+    expect(re3.find((r) => r.relation === "sequel_of")).toMatchObject({
+      target_key: "igdb:975",
+      related_title: "Resident Evil 2",
+      source: "derived",
+    });
+
+    const first = deriveGameRelations("g-re1", hit({ igdb_game_id: 974 }), [RESIDENT_EVIL]);
+    expect(first.map((r) => r.relation)).toEqual(["part_of_series"]);
+
+    const dlc = deriveGameRelations("g-dlc", hit({ igdb_game_id: 976, category: 1 }), [RESIDENT_EVIL]);
+    expect(dlc.some((r) => r.relation === "sequel_of")).toBe(false);
+  });
+
+  it("ignores a category without a parent, and a parent pointing at itself", () => {
+    expect(deriveGameRelations("g", hit({ category: 8 }), [])).toEqual([]);
+    expect(deriveGameRelations("g", hit({ igdb_game_id: 7, category: 8, parent_game_id: 7 }), [])).toEqual([]);
+  });
+});
+
+describe("seriesRefsForHit", () => {
+  it("uses collections, falling back to franchises", () => {
+    const zelda = { igdb_id: 106, name: "The Legend of Zelda", slug: "the-legend-of-zelda" };
+    expect(seriesRefsForHit(hit({ collections: [zelda], franchises: [{ ...zelda, igdb_id: 596 }] }))).toEqual([
+      { kind: "collection", ref: zelda },
+    ]);
+    expect(seriesRefsForHit(hit({ franchises: [zelda] }))).toEqual([{ kind: "franchise", ref: zelda }]);
+    expect(seriesRefsForHit(hit({}))).toEqual([]);
+  });
+});
+
+describe("deriveVersionRelations", () => {
+  it("points catalog remakes and ports at the original being enriched", () => {
+    const original = hit({ igdb_game_id: 975, title: "Resident Evil 2", first_release_year: 1998, remake_ids: [19686], port_ids: [111] });
+    const rows = deriveVersionRelations(original, [
+      { id: "g-re2r", igdb_game_id: 19686 },
+      { id: "g-n64", igdb_game_id: 111 },
+      { id: "g-other", igdb_game_id: 5 },
+    ]);
+    expect(rows.map((r) => [r.game_id, r.relation, r.target_key, r.related_first_release_year])).toEqual([
+      ["g-re2r", "remake_of", "igdb:975", 1998],
+      ["g-n64", "port_of", "igdb:975", 1998],
+    ]);
+  });
+});
+
+describe("computeSeriesProgress", () => {
+  const zelda = {
+    series_key: "igdb_collection:106",
+    name: "The Legend of Zelda",
+    mainline_games: Array.from({ length: 11 }, (_, i) => ({ igdb_game_id: 100 + i, title: `Zelda ${i + 1}`, first_release_year: 1986 + i })),
+  };
+
+  it("says how many mainline entries were played and which are missing", () => {
+    const played = new Set([100, 101, 102, 103, 104, 105, 106, 107, 108]);
+    const [p] = computeSeriesProgress([zelda], played);
+    expect(p).toMatchObject({ played: 9, total: 11, line: "You've played 9 of 11 mainline The Legend of Zelda games" });
+    expect(p.missing.map((m) => m.igdb_game_id)).toEqual([109, 110]);
+  });
+
+  it("skips series below the minimum and one-entry series, and sorts by played", () => {
+    const re = { ...RESIDENT_EVIL };
+    const solo = { series_key: "igdb_collection:1", name: "Solo", mainline_games: [{ igdb_game_id: 1, title: "Solo", first_release_year: 2000 }] };
+    const out = computeSeriesProgress([re, zelda, solo], new Set([974, 975, 976, 100, 1]));
+    expect(out.map((p) => p.series_key)).toEqual(["igdb_collection:5"]);
+    expect(out[0].line).toBe("You've played all 3 mainline Resident Evil games");
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Release merge coverage (lib/catalog/audit.ts RELEASE_REF_TABLES)
+ *
+ * - Every table with a foreign key to releases(id) in sql/ is moved by mergeReleaseInto and
+ *   snapshotted for revert, so a merge never cascades rows away or nulls them out
+ * - Tables created outside sql/ (portfolio_entries, list_items, platform progress) stay listed too
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { RELEASE_REF_TABLES } from "@/lib/catalog/audit";
+
+// Merged by mergeReleaseInto itself: external ids move by (source, external_id), enrichment is dropped.
+const MERGED_SEPARATELY = ["release_enrichment_state", "release_external_ids"];
+
+function releaseForeignKeys(): string[] {
+  const dir = path.join(__dirname, "../../../sql");
+  const tables = new Set<string>();
+  for (const file of fs.readdirSync(dir).filter((f) => f.endsWith(".sql"))) {
+    const sql = fs.readFileSync(path.join(dir, file), "utf8");
+    for (const m of sql.matchAll(/create table(?: if not exists)?\s+(?:public\.)?(\w+)\s*\(([\s\S]*?)\n\);/gi)) {
+      if (/^\s*release_id\s+uuid[^\n]*references\s+(?:public\.)?releases\s*\(id\)/im.test(m[2])) tables.add(m[1]);
+    }
+    for (const m of sql.matchAll(/alter table\s+(?:public\.)?(\w+)\s+add column(?: if not exists)?\s+release_id\s+uuid[^;]*references\s+(?:public\.)?releases/gi)) {
+      tables.add(m[1]);
+    }
+  }
+  return [...tables].sort();
+}
+
+describe("RELEASE_REF_TABLES", () => {
+  const listed = RELEASE_REF_TABLES.map((t) => t.table);
+
+  it("covers every release_id foreign key in the migrations", () => {
+    const fks = releaseForeignKeys();
+    expect(fks.length).toBeGreaterThan(5);
+    expect(fks.filter((t) => !listed.includes(t) && !MERGED_SEPARATELY.includes(t))).toEqual([]);
+  });
+
+  it("keeps user-authored tables created outside sql/", () => {
+    expect(listed).toEqual(expect.arrayContaining(["portfolio_entries", "list_items", "user_memory_titles", "user_release_played_on"]));
+  });
+
+  it("identifies rows without release_id", () => {
+    for (const { table, key } of RELEASE_REF_TABLES) {
+      expect(key.length, table).toBeGreaterThan(0);
+      expect(key, table).not.toContain("release_id");
+    }
+  });
+});
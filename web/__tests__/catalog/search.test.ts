@@ -0,0 +1,107 @@
+/**
+ * Catalog search paging (lib/catalog/search.ts pageCatalogCandidates)
+ *
+ * - Platform, era and year filters combine; items without a year drop out of year ranges
+ * - Each facet ignores its own filter, so the other options stay selectable
+ * - Cursor pages walk the ranking without skipping or repeating items, ties included
+ */
+
+import { describe, expect, it } from "vitest";
+import { pageCatalogCandidates, type CatalogSearchItem } from "@/lib/catalog/search";
+import { inferEraFromYear } from "@/lib/insights/user-stats";
+
+function item(release_id: string, score: number, platform_key: string | null, year: number | null): CatalogSearchItem {
+  return {
+    id: release_id,
+    release_id,
+    game_id: null,
+    display_title: release_id,
+    title: release_id,
+    platform_key,
+    platform_name: null,
+    cover_url: null,
+    year,
+    first_release_year: year,
+    era: inferEraFromYear(year),
+    score,
+    matched_via: "title",
+  };
+}
+
+// Ranked like searchCatalog does: score desc, release_id asc.
+const candidates = [
+  item("ff7-ps1", 1.5, "ps1", 1997),
+  item("ff7-pc", 1.2, "pc", 1997),
+  item("ff7-mobile", 0.9, "ios", null),
+  item("ff7-remake-ps4", 0.9, "ps4", 2020),
+  item("ff7-remake-ps5", 0.9, "ps5", 2020),
+  item("ff-tactics", 0.4, "ps1", 1997),
+];
+
+const page = (filters = {}, cursor: string | null = null, limit = 10) => pageCatalogCandidates(candidates, filters, { cursor, limit });
+const ids = (r: ReturnType<typeof page>) => r.items.map((it) => it.release_id);
+
+describe("filters", () => {
+  it("filters by platform, era and year range together", () => {
+    expect(ids(page({ platforms: ["ps1", "ps5"] }))).toEqual(["ff7-ps1", "ff7-remake-ps5", "ff-tactics"]);
+    expect(ids(page({ era: "modern" }))).toEqual(["ff7-remake-ps4", "ff7-remake-ps5"]);
+    expect(ids(page({ year_min: 1990, year_max: 2000, platforms: ["pc"] }))).toEqual(["ff7-pc"]);
+    expect(page({ platforms: ["snes"] }).total).toBe(0);
+  });
+
+  it("drops items without a year from year ranges only", () => {
+    expect(ids(page({ year_min: 1990 }))).not.toContain("ff7-mobile");
+    expect(ids(page({ era: "unknown" }))).toEqual(["ff7-mobile"]);
+    expect(page().total).toBe(candidates.length);
+  });
+});
+
+describe("facets", () => {
+  it("counts platforms and eras, each ignoring its own filter", () => {
+    const r = page({ platforms: ["ps1"], era: "ps1" });
+    expect(r.total).toBe(2);
+    expect(r.facets.platforms).toEqual([
+      { key: "ps1", count: 2 },
+      { key: "pc", count: 1 },
+    ]);
+    expect(r.facets.eras).toEqual([{ key: "ps1", count: 2 }]);
+  });
+
+  it("sorts facets by count, then key", () => {
+    expect(page().facets.eras).toEqual([
+      { key: "ps1", count: 3 },
+      { key: "modern", count: 2 },
+      { key: "unknown", count: 1 },
+    ]);
+  });
+});
+
+describe("cursor paging", () => {
+  it("walks every item once across pages, including score ties", () => {
+    const seen: string[] = [];
+    let cursor: string | null = null;
+    for (let guard = 0; guard < 10; guard++) {
+      const r = page({}, cursor, 2);
+      seen.push(...ids(r));
+      if (!r.has_more) {
+        expect(r.next_cursor).toBeNull();
+        break;
+      }
+      cursor = r.next_cursor;
+    }
+    expect(seen).toEqual(candidates.map((c) => c.release_id));
+  });
+
+  it("encodes the last item's score and id, and ignores malformed cursors", () => {
+    const first = page({}, null, 3);
+    expect(first.next_cursor).toBe("0.900000|ff7-mobile");
+    expect(ids(page({}, first.next_cursor, 2))).toEqual(["ff7-remake-ps4", "ff7-remake-ps5"]);
+    expect(ids(page({}, "bogus", 1))).toEqual(["ff7-ps1"]);
+  });
+
+  it("pages within the filtered set", () => {
+    const r = page({ platforms: ["ps1"] }, null, 1);
+    expect(r).toMatchObject({ has_more: true, total: 2, next_cursor: "1.500000|ff7-ps1" });
+    expect(ids(page({ platforms: ["ps1"] }, r.next_cursor, 1))).toEqual(["ff-tactics"]);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * GOG Galaxy import (lib/gog/sqlite.ts, lib/gog/galaxy-db.ts)
+ *
+ * - fixtures/galaxy-2.0.db is a real SQLite 3 file with 512-byte pages, so its tables span interior
+ *   and leaf pages and one GamePieces value runs through a chain of overflow pages
+ * - Records decode every integer width, floats, the 0/1 constants, blobs and text; INTEGER PRIMARY
+ *   KEY columns read the rowid (one-byte, two-byte and 6-byte varints); late ALTER TABLE columns read null
+ * - Only gog_* release keys are imported; titles prefer "title" over "originalTitle"
+ * - Truncated or corrupt files fail with an Error, never a RangeError or a loop
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { gogProductIdFromReleaseKey, parseGalaxyDb } from "@/lib/gog/galaxy-db";
+import { openSqlite } from "@/lib/gog/sqlite";
+
+const PAGE = 512;
+const fixture = () => new Uint8Array(fs.readFileSync(path.join(__dirname, "fixtures/galaxy-2.0.db")));
+
+function damaged(edit: (bytes: Uint8Array, view: DataView) => void): Uint8Array {
+  const bytes = fixture();
+  edit(bytes, new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength));
+  return bytes;
+}
+
+describe("openSqlite", () => {
+  it("reads the schema from an interior sqlite_master page and skips indexes", () => {
+    const db = openSqlite(fixture());
+    expect(db.tables()).toEqual(
+      expect.arrayContaining(["LibraryReleases", "GamePieceTypes", "GamePieces", "GameTimes", "LastPlayedDates", "Serial Types"])
+    );
+    expect(db.tables()).not.toContain("idx_GamePieces_releaseKey");
+    expect(db.rows("Missing")).toBeNull();
+  });
+
+  it("walks every leaf under an interior page in rowid order", () => {
+    const rows = openSqlite(fixture()).rows("LibraryReleases")!;
+    expect(rows).toHaveLength(58);
+    expect(rows.map((r) => r.id)).toEqual(Array.from({ length: 58 }, (_, i) => i + 1));
+    expect(rows[0]).toEqual({ id: 1, releaseKey: "gog_1207658901", userId: 48151623 });
+  });
+
+  it("decodes each serial type and uses the rowid for the INTEGER PRIMARY KEY", () => {
+    const rows = openSqlite(fixture()).rows("Serial Types")!;
+    const byNote = Object.fromEntries(rows.map((r) => [r.note, r]));
+    expect(byNote.null.value).toBeNull();
+    expect(byNote.zero.value).toBe(0);
+    expect(byNote.one.value).toBe(1);
+    expect(byNote.int8.value).toBe(-100);
+    expect(byNote.int16.value).toBe(30000);
+    expect(byNote.int24.value).toBe(-8000000);
+    expect(byNote.int32.value).toBe(2000000000);
+    expect(byNote.int48.value).toBe(2 ** 40 + 7);
+    expect(byNote.int64.value).toBe(-(2 ** 60));
+    expect(byNote.float.value).toBe(1.5);
+    expect(byNote.blob.value).toEqual(new Uint8Array([0, 1, 255]));
+    expect(byNote.text.value).toBe("héllo");
+    expect(rows.map((r) => r.id).slice(-2)).toEqual([300, 2 ** 40]);
+    expect(rows.every((r) => r.added_later === null)).toBe(true);
+  });
+
+  it("follows overflow pages for values bigger than a page", () => {
+    const pieces = openSqlite(fixture()).rows("GamePieces")!;
+    const big = pieces.find((p) => String(p.value).includes("Wild Hunt"))!;
+    const value = JSON.parse(String(big.value));
+    expect(String(big.value).length).toBeGreaterThan(PAGE * 4);
+    expect(value.blurb).toBe("Geralt ".repeat(400));
+  });
+});
+
+describe("parseGalaxyDb", () => {
+  it("imports gog_ releases once, with titles, playtime and last played", () => {
+    const lib = parseGalaxyDb(fixture());
+    expect(lib.games).toHaveLength(40);
+    expect(lib.skipped_other_platforms).toBe(17);
+    const byId = Object.fromEntries(lib.games.map((g) => [g.product_id, g]));
+    expect(byId["1207658901"].title).toBe("Original 1");
+    expect(byId["1207658902"]).toEqual({
+      product_id: "1207658902",
+      title: "Game 2",
+      playtime_minutes: 754,
+      last_played_at: "2024-05-01T18:30:00.000Z",
+    });
+    expect(byId["1207658903"].title).toBe("The Witcher 3: Wild Hunt");
+    expect(lib.games.some((g) => g.title === "Not From GOG")).toBe(false);
+  });
+
+  it("reads only gog_<digits> release keys", () => {
+    expect(gogProductIdFromReleaseKey("gog_1207658924")).toBe("1207658924");
+    expect(gogProductIdFromReleaseKey("steam_400")).toBeNull();
+    expect(gogProductIdFromReleaseKey("gog_abc")).toBeNull();
+    expect(gogProductIdFromReleaseKey(null)).toBeNull();
+  });
+});
+
+describe("malformed input", () => {
+  const fails = (bytes: Uint8Array, message: RegExp) => {
+    let thrown: unknown;
+    try {
+      parseGalaxyDb(bytes);
+    } catch (e) {
+      thrown = e;
+    }
+    expect(thrown).toBeInstanceOf(Error);
+    expect(thrown).not.toBeInstanceOf(RangeError);
+    expect((thrown as Error).message).toMatch(message);
+  };
+
+  it("rejects files that aren't SQLite or have no Galaxy tables", () => {
+    fails(new TextEncoder().encode("title,platform\nOkami,PS2\n"), /Not an SQLite database/);
+    fails(fixture().slice(0, 50), /Not an SQLite database/);
+  });
+
+  it("fails on truncated files", () => {
+    fails(fixture().slice(0, PAGE * 3), /truncated or corrupt/);
+    fails(fixture().slice(0, PAGE * 25), /truncated or corrupt/);
+  });
+
+  it("fails on bad headers, cell pointers, b-tree cycles and broken overflow chains", () => {
+    fails(damaged((_b, v) => v.setUint16(16, 1000)), /page size 1000/);
+    // LibraryReleases' root (page 2) is an interior page: first cell pointer past the page, then a cycle back to itself.
+    fails(damaged((_b, v) => v.setUint16(PAGE + 12, 0xfff0)), /truncated or corrupt/);
+    fails(damaged((_b, v) => v.setUint32(PAGE + 8, 2)), /cycle/);
+    // Overflow pages 23 -> 27 hold the big GamePieces value; cut the chain in the middle.
+    fails(damaged((_b, v) => v.setUint32(PAGE * 24, 0)), /overflow chain ends early/);
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * IGDB matcher calibration harness (lib/igdb/calibration.ts)
+ *
+ * - Replays both scorers against a labelled match-history dump (fixtures/match-history.json)
+ * - Labels: manual_igdb_overrides, review picks / reject-alls, igdb_match_rejects
+ * - Precision/recall per platform at the production thresholds must not drop below the
+ *   recorded baseline; raise the baseline when a scoring change improves it
+ * - MATCH_HISTORY_DUMP=<path> replays a real dump (GET /api/admin/matcher/calibration?format=fixture)
+ *   and prints the report; MATCH_MIN_PRECISION gates it. CALIBRATION_REPORT=1 prints the fixture report.
+ */
+
+import { readFileSync } from "fs";
+import path from "path";
+import { describe, it, expect } from "vitest";
+import {
+  buildLabelledCases,
+  calibrate,
+  classifyPrediction,
+  formatCalibrationReport,
+  MATCHER_SCORER,
+  statsAt,
+  VALIDATION_SCORER,
+  type LabelledMatchCase,
+  type MatchHistoryDump,
+  type MatchScorer,
+} from "@/lib/igdb/calibration";
+
+function loadDump(file: string): MatchHistoryDump {
+  return JSON.parse(readFileSync(file, "utf8")) as MatchHistoryDump;
+}
+
+const FIXTURE = loadDump(path.join(__dirname, "fixtures", "match-history.json"));
+
+/** Floors at each scorer's current threshold, as tp/fp/positives on the fixture. */
+const BASELINE: Record<string, Record<string, { precision: number; recall: number }>> = {
+  validation: {
+    all: { precision: 10 / 15, recall: 10 / 14 },
+    nes: { precision: 1, recall: 1 },
+    psn: { precision: 2 / 4, recall: 2 / 5 },
+    steam: { precision: 3 / 5, recall: 3 / 4 },
+    xbox: { precision: 2 / 3, recall: 1 },
+  },
+  matcher: {
+    all: { precision: 11 / 14, recall: 11 / 14 },
+    nes: { precision: 1, recall: 1 },
+    psn: { precision: 1, recall: 3 / 5 },
+    steam: { precision: 3 / 5, recall: 3 / 4 },
+    xbox: { precision: 2 / 3, recall: 1 },
+  },
+};
+
+function labelled(over: Partial<LabelledMatchCase>): LabelledMatchCase {
+  return {
+    platform: "steam",
+    external_id: "1",
+    title: "Portal 2",
+    candidates: [],
+    correct_igdb_game_id: null,
+    none_correct: false,
+    wrong_igdb_game_ids: [],
+    labels: [],
+    ...over,
+  };
+}
+
+describe("labelled cases from a history dump", () => {
+  const { cases, skipped } = buildLabelledCases(FIXTURE);
+  const byKey = (platform: string, ext: string) => cases.find((c) => c.platform === platform && c.external_id === ext);
+
+  it("keeps only replayable, human-labelled attempts", () => {
+    expect(cases).toHaveLength(18);
+    expect(skipped).toEqual({ no_candidates: 1, unlabelled: 2 });
+  });
+
+  it("labels from overrides, review decisions and rejects", () => {
+    expect(byKey("steam", "379720")).toMatchObject({ correct_igdb_game_id: 7351, labels: ["override"] });
+    expect(byKey("steam", "620")).toMatchObject({ correct_igdb_game_id: 72, labels: ["review_pick"] });
+    expect(byKey("xbox", "9WZDNCRFJ3TJ")).toMatchObject({ none_correct: true, labels: ["review_reject_all"] });
+    expect(byKey("steam", "504230")).toMatchObject({
+      correct_igdb_game_id: null,
+      wrong_igdb_game_ids: [41220],
+      labels: ["reject"],
+    });
+  });
+
+  it("uses the latest review decision for a repeatedly attempted item", () => {
+    expect(byKey("psn", "CUSA00001")).toMatchObject({ correct_igdb_game_id: 7334, none_correct: false });
+  });
+
+  it("lets an override beat a review decision and never marks the right id wrong", () => {
+    const { cases: [c] } = buildLabelledCases({
+      game_match_attempts: [
+        {
+          source: "psn",
+          external_id: "X",
+          title_used: "Knack",
+          candidates_json: [
+            { igdb_game_id: 1, title: "Knack", first_release_year: 2013, cover_url: null, platforms: [], category: 0, confidence: 1, reasons: {} },
+          ],
+          review_decision: "rejected_all",
+        },
+      ],
+      manual_igdb_overrides: [{ source: "psn", external_id: "X", igdb_game_id: 1 }],
+      igdb_match_rejects: [
+        { platform_key: "psn", external_id: "X", igdb_game_id: 1 },
+        { platform_key: "psn", external_id: "X", igdb_game_id: 2 },
+      ],
+    });
+    expect(c).toMatchObject({ correct_igdb_game_id: 1, none_correct: false, wrong_igdb_game_ids: [2], labels: ["override", "reject"] });
+  });
+});
+
+describe("classifyPrediction", () => {
+  const pred = (id: number) => ({ igdb_game_id: id, confidence: 1 });
+
+  it("scores against a known right id", () => {
+    const c = labelled({ correct_igdb_game_id: 72 });
+    expect(classifyPrediction(c, pred(72))).toBe("tp");
+    expect(classifyPrediction(c, pred(71))).toBe("fp");
+    expect(classifyPrediction(c, null)).toBe("fn");
+  });
+
+  it("treats any accept as wrong when nothing is right", () => {
+    const c = labelled({ none_correct: true });
+    expect(classifyPrediction(c, pred(1))).toBe("fp");
+    expect(classifyPrediction(c, null)).toBe("tn");
+  });
+
+  it("only knows about rejected ids otherwise", () => {
+    const c = labelled({ wrong_igdb_game_ids: [41220] });
+    expect(classifyPrediction(c, pred(41220))).toBe("fp");
+    expect(classifyPrediction(c, pred(26226))).toBe("unknown");
+    expect(classifyPrediction(c, null)).toBe("tn");
+  });
+});
+
+describe.each([VALIDATION_SCORER, MATCHER_SCORER])("$id scorer regression", (scorer: MatchScorer) => {
+  const { cases } = buildLabelledCases(FIXTURE);
+  const report = calibrate(cases, scorer);
+  if (process.env.CALIBRATION_REPORT) console.log(formatCalibrationReport(report));
+
+  it("reports every platform at every threshold, including the current one", () => {
+    expect(report.thresholds).toContain(scorer.current_threshold);
+    expect(Object.keys(report.by_platform)).toEqual(["nes", "psn", "steam", "xbox"]);
+    for (const rows of [report.overall, ...Object.values(report.by_platform)]) {
+      expect(rows.map((r) => r.threshold)).toEqual(report.thresholds);
+    }
+  });
+
+  it.each(Object.entries(BASELINE[scorer.id]))("%s does not regress at the current threshold", (platform, floor) => {
+    const s = statsAt(report, scorer.current_threshold, platform === "all" ? undefined : platform)!;
+    expect(s.precision ?? 0).toBeGreaterThanOrEqual(floor.precision - 1e-9);
+    expect(s.recall ?? 0).toBeGreaterThanOrEqual(floor.recall - 1e-9);
+  });
+
+  it("lists the wrong calls at the current threshold", () => {
+    const s = statsAt(report, scorer.current_threshold)!;
+    expect(report.misses).toHaveLength(s.fp + s.fn);
+  });
+});
+
+describe.runIf(!!process.env.MATCH_HISTORY_DUMP)("real match history dump", () => {
+  it("replays and meets MATCH_MIN_PRECISION", () => {
+    const { cases, skipped } = buildLabelledCases(loadDump(path.resolve(process.env.MATCH_HISTORY_DUMP!)));
+    console.log(`${cases.length} labelled case(s); skipped ${JSON.stringify(skipped)}`);
+    expect(cases.length).toBeGreaterThan(0);
+
+    const min = process.env.MATCH_MIN_PRECISION ? Number(process.env.MATCH_MIN_PRECISION) : null;
+    for (const scorer of [VALIDATION_SCORER, MATCHER_SCORER]) {
+      const report = calibrate(cases, scorer);
+      console.log(formatCalibrationReport(report));
+      if (min != null) expect(statsAt(report, scorer.current_threshold)?.precision ?? 0).toBeGreaterThanOrEqual(min);
+    }
+  });
+});
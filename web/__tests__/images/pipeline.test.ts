@@ -0,0 +1,143 @@
+/**
+ * Cover art pipeline (lib/images/pipeline.ts, blurhash.ts, storage.ts)
+ *
+ * - Variants are webp at COVER_VARIANTS widths, never upscaled; blurhash + dominant color come from the source
+ * - Local storage writes content-addressed files and refuses keys outside its root
+ * - Broken sources surface as CoverFetchError; backoff doubles up to a week
+ * - Candidate ladder follows resolveCoverUrl (IGDB thumbs upgraded, placeholders dropped)
+ */
+
+import { afterAll, describe, expect, it } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import sharp from "sharp";
+import { decodeBlurhash, encodeBlurhash, isValidBlurhash } from "@/lib/images/blurhash";
+import { coverImageFromAsset } from "@/lib/images/cover";
+import {
+  CoverFetchError,
+  coverBackoffHours,
+  coverStorageKey,
+  fetchCoverSource,
+  processCoverImage,
+  storeProcessedCover,
+} from "@/lib/images/pipeline";
+import { coverSourceCandidates } from "@/lib/images/resolveCoverUrl";
+import { localCoverStorage } from "@/lib/images/storage";
+
+const tmpDirs: string[] = [];
+afterAll(async () => {
+  for (const d of tmpDirs) await rm(d, { recursive: true, force: true });
+});
+
+async function tmpDir() {
+  const d = await mkdtemp(path.join(os.tmpdir(), "covers-"));
+  tmpDirs.push(d);
+  return d;
+}
+
+function solidPng(width: number, height: number, rgb: { r: number; g: number; b: number }) {
+  return sharp({ create: { width, height, channels: 3, background: rgb } }).png().toBuffer();
+}
+
+describe("blurhash", () => {
+  it("round-trips a flat color", () => {
+    const px = new Uint8ClampedArray(8 * 8 * 4);
+    for (let i = 0; i < px.length; i += 4) px.set([200, 40, 40, 255], i);
+    const hash = encodeBlurhash(px, 8, 8, 4, 3);
+    expect(isValidBlurhash(hash)).toBe(true);
+    expect(hash).toHaveLength(4 + 2 * 4 * 3);
+    const out = decodeBlurhash(hash, 32, 32);
+    const mean = [0, 1, 2].map((c) => out.filter((_, i) => i % 4 === c).reduce((a, v) => a + v, 0) / (32 * 32));
+    expect(Math.abs(mean[0] - 200)).toBeLessThan(12);
+    expect(Math.abs(mean[1] - 40)).toBeLessThan(12);
+    expect(Math.abs(mean[2] - 40)).toBeLessThan(12);
+  });
+
+  it("rejects malformed hashes", () => {
+    expect(isValidBlurhash("LEHV6nWB2yk8")).toBe(false);
+    expect(isValidBlurhash("")).toBe(false);
+    expect(() => decodeBlurhash("!!!!!!", 4, 4)).toThrow();
+  });
+});
+
+describe("processCoverImage + local storage", () => {
+  it("writes webp variants without upscaling and summarizes the image", async () => {
+    const processed = await processCoverImage(await solidPng(600, 800, { r: 20, g: 90, b: 200 }));
+    expect(processed.width).toBe(600);
+    expect(processed.height).toBe(800);
+    expect(processed.variants.map((v) => [v.name, v.width, v.height])).toEqual([
+      ["thumb", 160, 213],
+      ["card", 342, 456],
+      ["full", 600, 800],
+    ]);
+    expect(processed.dominant_color).toMatch(/^#[0-9a-f]{6}$/);
+    expect(isValidBlurhash(processed.blurhash)).toBe(true);
+
+    const dir = await tmpDir();
+    const variants = await storeProcessedCover(localCoverStorage(dir, "/covers"), processed);
+    const key = coverStorageKey(processed.content_hash, "card");
+    expect(variants.card).toEqual({ url: `/covers/${key}`, width: 342, height: 456 });
+    const meta = await sharp(await readFile(path.join(dir, key))).metadata();
+    expect(meta.format).toBe("webp");
+  });
+
+  it("refuses storage keys that escape the root", async () => {
+    const storage = localCoverStorage(await tmpDir());
+    await expect(storage.put("../evil.webp", Buffer.from("x"), "image/webp")).rejects.toThrow(/escapes root/);
+  });
+});
+
+describe("fetchCoverSource", () => {
+  it("treats HTTP errors and non-images as broken sources", async () => {
+    const notFound = async () => new Response("gone", { status: 404 });
+    await expect(fetchCoverSource("https://x/a.jpg", notFound)).rejects.toMatchObject({ status: 404 });
+
+    const html = async () => new Response("<html/>", { status: 200, headers: { "content-type": "text/html" } });
+    await expect(fetchCoverSource("https://x/a.jpg", html)).rejects.toBeInstanceOf(CoverFetchError);
+
+    const png = await solidPng(4, 4, { r: 0, g: 0, b: 0 });
+    const ok = async () => new Response(new Uint8Array(png), { status: 200, headers: { "content-type": "image/png" } });
+    expect((await fetchCoverSource("https://x/a.png", ok)).length).toBe(png.length);
+  });
+
+  it("backs off exponentially up to a week", () => {
+    expect([1, 2, 3, 4].map(coverBackoffHours)).toEqual([1, 2, 4, 8]);
+    expect(coverBackoffHours(20)).toBe(168);
+  });
+});
+
+describe("coverSourceCandidates", () => {
+  it("orders sources like resolveCoverUrl and drops placeholders", () => {
+    expect(
+      coverSourceCandidates({
+        game_cover_url: "//images.igdb.com/igdb/image/upload/t_thumb/co1abc.jpg",
+        cover_url: "/placeholders/platform/unknown.png",
+        steam_appid: "620",
+        igdb_cover_url: "https://images.igdb.com/igdb/image/upload/t_cover_big/co1abc.jpg",
+      })
+    ).toEqual([
+      "https://images.igdb.com/igdb/image/upload/t_cover_big/co1abc.jpg",
+      "https://cdn.cloudflare.steamstatic.com/steam/apps/620/header.jpg",
+    ]);
+  });
+});
+
+describe("coverImageFromAsset", () => {
+  it("only exposes ready assets and builds a srcSet", () => {
+    const variants = {
+      thumb: { url: "/c/t.webp", width: 160, height: 213 },
+      card: { url: "/c/c.webp", width: 342, height: 456 },
+    };
+    const base = { variants, blurhash: null, dominant_color: "#112233", width: 600, height: 800 };
+    expect(coverImageFromAsset({ ...base, status: "broken" })).toBeNull();
+    expect(coverImageFromAsset([{ ...base, status: "ready" }])).toEqual({
+      src: "/c/c.webp",
+      srcSet: "/c/t.webp 160w, /c/c.webp 342w",
+      width: 600,
+      height: 800,
+      blurhash: null,
+      color: "#112233",
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Library import parsing (lib/import/csv.ts, mapping.ts, presets.ts)
+ *
+ * - RFC 4180: quoted fields, doubled quotes, CRLF and newlines inside quotes
+ * - Delimiter detection ignores commas / semicolons inside quoted headers
+ * - Presets are recognised by their headers and derive a status the server can normalize
+ * - Mapping reads durations and dates; rows without a title are dropped
+ */
+
+import { describe, expect, it } from "vitest";
+import { parseCsv, parseCsvRecords, parseImportFile } from "@/lib/import/csv";
+import { applyImportMapping, parseDurationMinutes, parseImportDate } from "@/lib/import/mapping";
+import { detectImportPreset, expandSheet } from "@/lib/import/presets";
+import { normalizePortfolioStatus } from "@/lib/portfolio/status";
+
+describe("parseCsvRecords", () => {
+  it("handles quoted fields, doubled quotes, CRLF and embedded newlines", () => {
+    const text = '\uFEFFTitle,Notes\r\n"Halo, Reach","said ""finish the fight"""\r\n"Okami","line one\r\nline two"\r\n\r\n';
+    expect(parseCsvRecords(text)).toEqual([
+      ["Title", "Notes"],
+      ["Halo, Reach", 'said "finish the fight"'],
+      ["Okami", "line one\r\nline two"],
+    ]);
+  });
+
+  it("keeps a last record without a trailing newline and skips blank lines", () => {
+    expect(parseCsvRecords("a,b\n\n1,2")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  it("detects the delimiter from the header, ignoring quoted delimiters", () => {
+    expect(parseCsvRecords('"Name, Edition";Platform;Status\nHalo;Xbox;Beaten')[0]).toEqual([
+      "Name, Edition",
+      "Platform",
+      "Status",
+    ]);
+    expect(parseCsvRecords('"Title; Subtitle; More",Platform\nHalo,Xbox')[1]).toEqual(["Halo", "Xbox"]);
+    expect(parseCsvRecords("Title\tPlatform\nHalo\tXbox")[1]).toEqual(["Halo", "Xbox"]);
+  });
+});
+
+describe("parseCsv / parseImportFile", () => {
+  it("suffixes duplicate and blank headers and trims cells", () => {
+    const sheet = parseCsv("Title,Title,\n Halo ,Reach,x\nOkami");
+    expect(sheet.headers).toEqual(["Title", "Title (2)", "Column 3"]);
+    expect(sheet.rows).toEqual([
+      { Title: "Halo", "Title (2)": "Reach", "Column 3": "x" },
+      { Title: "Okami", "Title (2)": "", "Column 3": "" },
+    ]);
+  });
+
+  it("reads JSON exports and keeps nested values as JSON", () => {
+    const sheet = parseImportFile(JSON.stringify({ games: [{ name: "Halo", shelves: { Played: {} } }] }), "export.json");
+    expect(sheet.headers).toEqual(["name", "shelves"]);
+    expect(sheet.rows[0].shelves).toBe('{"Played":{}}');
+    expect(() => parseImportFile('{"nope":1}')).toThrow("array of objects");
+  });
+});
+
+describe("presets", () => {
+  it("recognises tracker exports by their headers", () => {
+    expect(detectImportPreset(["Game Name", "Platform", "Status", "Backloggd ID"]).key).toBe("backloggd");
+    expect(detectImportPreset(["Title", "Platform", "Playing", "Backlog", "Completed", "Retired"]).key).toBe("hltb");
+    expect(detectImportPreset(["name", "shelves", "platforms", "dates"]).key).toBe("grouvee");
+    expect(detectImportPreset(["Game", "System"]).key).toBe("generic");
+  });
+
+  it("derives statuses that normalize to portfolio statuses", () => {
+    const status = (headers: string[], row: Record<string, string>) => {
+      const preset = detectImportPreset(headers);
+      const sheet = expandSheet({ headers, rows: [row] }, preset);
+      const [mapped] = applyImportMapping(sheet.rows, preset.mapping(sheet.headers));
+      return normalizePortfolioStatus(mapped.status);
+    };
+
+    const backloggd = ["Game Name", "Status", "Backloggd ID"];
+    expect(status(backloggd, { "Game Name": "Halo", Status: "Retired", "Backloggd ID": "1" })).toBe("completed");
+    expect(status(backloggd, { "Game Name": "Halo", Status: "Shelved", "Backloggd ID": "1" })).toBe("back_burner");
+
+    const hltb = ["Title", "Playing", "Backlog", "Completed", "Retired"];
+    const flags = { Title: "Okami", Playing: "", Backlog: "X", Completed: "", Retired: "X" };
+    expect(status(hltb, flags)).toBe("dropped");
+    expect(status(hltb, { ...flags, Retired: "", Backlog: "0" })).toBe("owned");
+
+    const grouvee = ["name", "shelves", "platforms", "dates"];
+    const row = { name: "Celeste", shelves: '{"Backlog":{},"Played":{}}', platforms: '{"PC":{}}', dates: "" };
+    expect(status(grouvee, row)).toBe("completed");
+    expect(normalizePortfolioStatus("Want to Play")).toBe("wishlist");
+    expect(normalizePortfolioStatus("someday")).toBeNull();
+  });
+
+  it("sums Grouvee play-throughs into playtime and dates", () => {
+    const headers = ["name", "shelves", "platforms", "dates"];
+    const dates = JSON.stringify([
+      { date_started: "2024-01-02", date_finished: "2024-01-20", seconds_played: 3600 },
+      { date_started: "2023-12-01", date_finished: null, seconds_played: 1800 },
+    ]);
+    const preset = detectImportPreset(headers);
+    const sheet = expandSheet({ headers, rows: [{ name: "Celeste", shelves: "{}", platforms: '{"Switch":{}}', dates }] }, preset);
+    expect(applyImportMapping(sheet.rows, preset.mapping(sheet.headers))[0]).toMatchObject({
+      title: "Celeste",
+      platform: "Switch",
+      playtime_minutes: 90,
+      first_played_at: "2023-12-01T00:00:00.000Z",
+      last_played_at: "2024-01-20T00:00:00.000Z",
+    });
+  });
+});
+
+describe("mapping", () => {
+  it("reads clock, unit and plain durations", () => {
+    expect(parseDurationMinutes("12:30")).toBe(750);
+    expect(parseDurationMinutes("1h 30m")).toBe(90);
+    expect(parseDurationMinutes("1.5")).toBe(90);
+    expect(parseDurationMinutes("90", "minutes")).toBe(90);
+    expect(parseDurationMinutes("5400", "seconds")).toBe(90);
+    expect(parseDurationMinutes("lots")).toBeNull();
+  });
+
+  it("drops bare years and out-of-range dates", () => {
+    expect(parseImportDate("2024-03-05")).toBe("2024-03-05T00:00:00.000Z");
+    expect(parseImportDate("2024")).toBeNull();
+    expect(parseImportDate("1901-01-01")).toBeNull();
+  });
+
+  it("skips rows without a title and keeps the sheet index", () => {
+    const rows: Record<string, string>[] = [{ Name: "" }, { Name: "Halo", Hours: "2" }];
+    expect(applyImportMapping(rows, { title: "Name", playtime: "Hours" })).toEqual([
+      { row_index: 1, title: "Halo", platform: null, status: null, playtime_minutes: 120, first_played_at: null, last_played_at: null },
+    ]);
+  });
+});
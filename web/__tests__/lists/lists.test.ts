@@ -0,0 +1,151 @@
+/**
+ * Lists (lib/lists/lists.ts)
+ *
+ * - Roles: owner / editor (collaborator) / viewer (curated, public, unlisted); private lists hide
+ * - Smart lists reach viewers only when the owner's profile is visible and shares what they reveal
+ * - Editors add items and edit only their own; smart lists take no item edits
+ * - Order: position first (unpositioned last, newest first), moves and reorders keep every item
+ * - Ranked lists number items in order; notes are trimmed and capped
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  LIST_NOTE_MAX,
+  canAddListItems,
+  canEditListItem,
+  isListReorder,
+  listRole,
+  moveListItem,
+  nextListPosition,
+  normalizeListNote,
+  presentListItems,
+  smartListRules,
+  smartListSharing,
+  sortListItems,
+  type ListItemRow,
+} from "@/lib/lists/lists";
+
+function item(release_id: string, position: number | null, over: Partial<ListItemRow> = {}): ListItemRow {
+  return { release_id, position, note: null, added_by: "owner", created_at: "2026-03-01T00:00:00Z", releases: null, ...over };
+}
+
+describe("listRole", () => {
+  const list = { user_id: "owner", is_curated: false, visibility: "private" };
+
+  it("gives owners and collaborators their role and hides private lists from everyone else", () => {
+    expect(listRole(list, "owner", [])).toBe("owner");
+    expect(listRole(list, "friend", ["friend"])).toBe("editor");
+    expect(listRole(list, "stranger", ["friend"])).toBeNull();
+    expect(listRole(list, null, [])).toBeNull();
+  });
+
+  it("lets anyone view unlisted, public and curated lists", () => {
+    expect(listRole({ ...list, visibility: "unlisted" }, null, [])).toBe("viewer");
+    expect(listRole({ ...list, visibility: "public" }, "stranger", [])).toBe("viewer");
+    expect(listRole({ ...list, is_curated: true }, null, [])).toBe("viewer");
+    expect(listRole({ ...list, visibility: "bogus" }, null, [])).toBeNull();
+  });
+});
+
+describe("smart lists", () => {
+  const smart = { user_id: "owner", is_curated: false, is_smart: true, visibility: "public", rules: {} };
+  const owner = (over: Record<string, unknown> = {}) => ({
+    profile_public: true,
+    profile_visibility: "public",
+    profile_sharing: {},
+    ...over,
+  });
+
+  it("hides public and unlisted smart lists unless the owner's profile is visible", () => {
+    expect(listRole(smart, "stranger", [], owner())).toBe("viewer");
+    expect(listRole({ ...smart, visibility: "unlisted" }, null, [], owner())).toBe("viewer");
+    expect(listRole(smart, "stranger", [])).toBeNull();
+    expect(listRole(smart, "stranger", [], owner({ profile_visibility: "private" }))).toBeNull();
+    expect(listRole(smart, "stranger", [], owner({ profile_public: false }))).toBeNull();
+    expect(listRole({ ...smart, visibility: "private" }, "stranger", [], owner())).toBeNull();
+  });
+
+  it("needs the owner to share their collection and platforms, and activity for status filters", () => {
+    const off = (k: string) => owner({ profile_sharing: { [k]: false } });
+    expect(listRole(smart, null, [], off("show_collections"))).toBeNull();
+    expect(listRole(smart, null, [], off("show_platforms"))).toBeNull();
+    expect(listRole(smart, null, [], off("show_recent_activity"))).toBe("viewer");
+    expect(listRole({ ...smart, rules: { statuses: ["playing"] } }, null, [], off("show_recent_activity"))).toBeNull();
+    expect(smartListSharing({ rules: { statuses: ["completed"] } })).toEqual(["show_collections", "show_platforms", "show_recent_activity"]);
+  });
+
+  it("keeps the owner and collaborators whatever the sharing", () => {
+    const hidden = owner({ profile_public: false, profile_sharing: { show_collections: false } });
+    expect(listRole(smart, "owner", [], hidden)).toBe("owner");
+    expect(listRole(smart, "friend", ["friend"], hidden)).toBe("editor");
+  });
+
+  it("reads status and platform filters, ignoring malformed ones", () => {
+    expect(smartListRules({ rules: { statuses: ["playing", 3], platform_keys: ["psn"] } })).toEqual({
+      statuses: ["playing"],
+      platform_keys: ["psn"],
+    });
+    expect(smartListRules({ rules: { statuses: "playing" } })).toEqual({ statuses: [], platform_keys: [] });
+    expect(smartListRules({ rules: null })).toEqual({ statuses: [], platform_keys: [] });
+  });
+});
+
+describe("item permissions", () => {
+  const plain = { is_smart: false };
+
+  it("lets editors add items and edit only the ones they added", () => {
+    expect(canAddListItems("editor", plain)).toBe(true);
+    expect(canAddListItems("viewer", plain)).toBe(false);
+    expect(canAddListItems("owner", { is_smart: true })).toBe(false);
+    expect(canEditListItem("editor", plain, { added_by: "friend" }, "friend")).toBe(true);
+    expect(canEditListItem("editor", plain, { added_by: "owner" }, "friend")).toBe(false);
+    expect(canEditListItem("owner", plain, { added_by: "friend" }, "owner")).toBe(true);
+    expect(canEditListItem("owner", { is_smart: true }, { added_by: "owner" }, "owner")).toBe(false);
+  });
+});
+
+describe("ordering", () => {
+  it("sorts by position, then unpositioned newest first", () => {
+    const rows = [
+      item("c", null, { created_at: "2026-03-01T00:00:00Z" }),
+      item("b", 2),
+      item("d", null, { created_at: "2026-03-05T00:00:00Z" }),
+      item("a", 1),
+    ];
+    expect(sortListItems(rows).map((r) => r.release_id)).toEqual(["a", "b", "d", "c"]);
+    expect(nextListPosition(rows)).toBe(3);
+    expect(nextListPosition([])).toBe(1);
+  });
+
+  it("moves one item and clamps the target", () => {
+    expect(moveListItem(["a", "b", "c", "d"], 3, 0)).toEqual(["d", "a", "b", "c"]);
+    expect(moveListItem(["a", "b", "c"], 0, 10)).toEqual(["b", "c", "a"]);
+    expect(moveListItem(["a", "b"], 5, 0)).toEqual(["a", "b"]);
+  });
+
+  it("accepts only reorders of exactly the current items", () => {
+    expect(isListReorder(["a", "b", "c"], ["c", "a", "b"])).toBe(true);
+    expect(isListReorder(["a", "b", "c"], ["a", "b"])).toBe(false);
+    expect(isListReorder(["a", "b", "c"], ["a", "a", "b"])).toBe(false);
+    expect(isListReorder(["a", "b"], ["a", "x"])).toBe(false);
+  });
+
+  it("numbers ranked lists in order and marks what the viewer can edit", () => {
+    const rows = [item("b", 2, { added_by: "friend" }), item("a", 1)];
+    const ranked = presentListItems(rows, { is_ranked: true, is_smart: false }, "editor", "friend");
+    expect(ranked.map((r) => [r.release_id, r.rank, r.can_edit])).toEqual([
+      ["a", 1, false],
+      ["b", 2, true],
+    ]);
+    expect(presentListItems(rows, { is_ranked: false, is_smart: false }, "viewer", null)[0].rank).toBeNull();
+  });
+});
+
+describe("normalizeListNote", () => {
+  it("trims, clears empty notes and rejects long ones", () => {
+    expect(normalizeListNote("  best boss fights  ")).toBe("best boss fights");
+    expect(normalizeListNote("   ")).toBeNull();
+    expect(normalizeListNote(undefined)).toBeNull();
+    expect(normalizeListNote("x".repeat(LIST_NOTE_MAX + 1))).toBe(false);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Metadata provider chain (lib/metadata)
+ *
+ * - File-backed fake provider matches titles and aliases from a JSON fixture
+ * - Each field comes from the first provider in the chain that has it; provenance is recorded
+ * - The chain stops once every wanted field is filled, and survives a provider that throws
+ * - games.metadata_sources stamping merges and clears per field
+ * - Fully offline: no IGDB / MobyGames credentials, no database
+ */
+
+import path from "path";
+import { describe, it, expect } from "vitest";
+import { datasetMetadataProvider, fileMetadataProvider } from "@/lib/metadata/dataset";
+import { mobygamesMetadataProvider } from "@/lib/metadata/mobygames";
+import {
+  fallbackMetadataProviders,
+  metadataColumns,
+  metadataProviderChain,
+  resolveGameMetadata,
+} from "@/lib/metadata/resolve";
+import { stampMetadataSources, type MetadataProvider, type MetadataRecord } from "@/lib/metadata/sources";
+
+const FIXTURE = path.join(__dirname, "fixtures", "offline-games.json");
+
+function igdbSeed(over: Partial<MetadataRecord> = {}): MetadataRecord {
+  return {
+    provider: "igdb",
+    external_id: "1234",
+    title: "Little Samson",
+    summary: null,
+    developer: "Takeru",
+    publisher: "Taito",
+    first_release_year: 1992,
+    cover_url: null,
+    genres: null,
+    ...over,
+  };
+}
+
+function countingProvider(id: string, rec: MetadataRecord | null): MetadataProvider & { calls: number } {
+  const p = {
+    id,
+    calls: 0,
+    async search() {
+      p.calls += 1;
+      return rec;
+    },
+  };
+  return p;
+}
+
+describe("file-backed metadata provider", () => {
+  it("matches by title and alias, reporting the canonical title", async () => {
+    const fake = fileMetadataProvider(FIXTURE, "fake");
+
+    const byTitle = await fake.search("LITTLE SAMSON™");
+    expect(byTitle).toMatchObject({ provider: "fake", external_id: "moby-1", first_release_year: 1992 });
+
+    const byAlias = await fake.search("Mr. Gimmick");
+    expect(byAlias).toMatchObject({ external_id: "moby-2", title: "Gimmick!" });
+  });
+
+  it("returns null below the title threshold", async () => {
+    const fake = fileMetadataProvider(FIXTURE, "fake");
+    expect(await fake.search("Little Nemo: The Dream Master")).toBeNull();
+  });
+
+  it("uses the year hint to pick between same-titled games", async () => {
+    const fake = fileMetadataProvider(FIXTURE, "fake");
+    expect((await fake.search("Ys", { year: 2009 }))?.external_id).toBe("moby-4");
+    expect((await fake.search("Ys", { year: 1987 }))?.external_id).toBe("moby-3");
+  });
+
+  it("defaults its id to the file name", () => {
+    expect(fileMetadataProvider(FIXTURE).id).toBe("file:offline-games.json");
+  });
+});
+
+describe("resolveGameMetadata", () => {
+  it("fills fields IGDB lacks from the next provider and records where each came from", async () => {
+    const fake = fileMetadataProvider(FIXTURE, "fake");
+    const local = datasetMetadataProvider("local", [
+      { id: "ls", title: "Little Samson", summary: "Curated summary", genres: ["Platform"] },
+    ]);
+
+    const r = await resolveGameMetadata("Little Samson", { providers: [fake, local], seed: igdbSeed() });
+
+    expect(r.fields).toMatchObject({
+      developer: "Takeru",
+      publisher: "Taito",
+      first_release_year: 1992,
+      summary: "Four heroes, one kingdom.",
+      cover_url: "https://covers.example.test/little-samson.jpg",
+      genres: ["Action", "Platform"],
+    });
+    expect(r.sources).toEqual({
+      developer: "igdb",
+      publisher: "igdb",
+      first_release_year: "igdb",
+      summary: "fake",
+      cover_url: "fake",
+      genres: "fake",
+    });
+    expect(r.matches.map((m) => m.provider)).toEqual(["igdb", "fake"]);
+  });
+
+  it("stops walking the chain once every field is filled", async () => {
+    const full = igdbSeed({ summary: "s", cover_url: "c", genres: ["g"] });
+    const secondary = countingProvider("secondary", null);
+
+    const r = await resolveGameMetadata("Little Samson", { providers: [secondary], seed: full });
+
+    expect(secondary.calls).toBe(0);
+    expect(Object.values(r.sources).every((p) => p === "igdb")).toBe(true);
+  });
+
+  it("does not search the seed's provider again", async () => {
+    const igdb = countingProvider("igdb", igdbSeed({ summary: "from search" }));
+    const r = await resolveGameMetadata("Little Samson", { providers: [igdb], seed: igdbSeed() });
+    expect(igdb.calls).toBe(0);
+    expect(r.fields.summary).toBeUndefined();
+  });
+
+  it("records a failing provider and continues down the chain", async () => {
+    const broken: MetadataProvider = {
+      id: "broken",
+      async search() {
+        throw new Error("HTTP 503");
+      },
+    };
+    const fake = fileMetadataProvider(FIXTURE, "fake");
+
+    const r = await resolveGameMetadata("Gimmick!", { providers: [broken, fake] });
+
+    expect(r.errors).toEqual([{ provider: "broken", error: "HTTP 503" }]);
+    expect(r.sources).toEqual({ cover_url: "fake" });
+  });
+
+  it("leaves skipped fields alone", async () => {
+    const fake = fileMetadataProvider(FIXTURE, "fake");
+    const r = await resolveGameMetadata("Little Samson", { providers: [fake], skip: ["cover_url", "summary"] });
+    expect(r.fields).toEqual({ first_release_year: 1992, genres: ["Action", "Platform"] });
+  });
+
+  it("metadataColumns writes null for fields no provider had", async () => {
+    const r = await resolveGameMetadata("Gimmick!", { providers: [fileMetadataProvider(FIXTURE, "fake")] });
+    expect(metadataColumns(r)).toEqual({
+      summary: null,
+      developer: null,
+      publisher: null,
+      first_release_year: null,
+      cover_url: "https://covers.example.test/gimmick.jpg",
+      genres: null,
+      metadata_sources: { cover_url: "fake" },
+    });
+  });
+});
+
+describe("provider chain configuration", () => {
+  it("builds the chain from a spec string and drops IGDB for fallbacks", () => {
+    const chain = metadataProviderChain(undefined, `igdb, local, file:${FIXTURE}, nope`);
+    expect(chain.map((p) => p.id)).toEqual(["igdb", "local", "file:offline-games.json"]);
+    expect(fallbackMetadataProviders(chain).map((p) => p.id)).toEqual(["local", "file:offline-games.json"]);
+  });
+
+  it("ships a curated local dataset", async () => {
+    const [local] = metadataProviderChain(undefined, "local");
+    expect(await local.search("Pulseman")).toMatchObject({ provider: "local", developer: "Game Freak" });
+  });
+
+  it("MobyGames provider is inert without an API key", async () => {
+    expect(await mobygamesMetadataProvider().search("Little Samson")).toBeNull();
+  });
+});
+
+describe("stampMetadataSources", () => {
+  it("attributes patched fields, keeps the rest, and drops cleared ones", () => {
+    const existing = { summary: "mobygames", cover_url: "local", genres: "local", bogus: 1 };
+    const out = stampMetadataSources(existing, { summary: "new", genres: [], igdb_game_id: 5 }, "igdb");
+    expect(out).toEqual({ summary: "igdb", cover_url: "local" });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * OG identity cards (lib/og/identity-card.ts, lib/og/render.tsx)
+ *
+ * - Share cards draw exactly the stored snapshot; profile cards drop sections switched off in profile_sharing
+ * - Eras are ranked by games with their share of the library; unknown is ignored
+ * - Versions change with the snapshot, and only the current version is cached as immutable
+ * - Rendering produces a PNG at the requested size
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  OG_CACHE_IMMUTABLE,
+  OG_CACHE_SHORT,
+  identityCardDescription,
+  ogCacheControl,
+  ogImageVersion,
+  parseOgImageSize,
+  profileCardModel,
+  shareCardModel,
+  topEras,
+  type IdentityShareSnapshot,
+} from "@/lib/og/identity-card";
+import { renderIdentityCardImage } from "@/lib/og/render";
+import type { PublicProfilePayload } from "@/lib/public-profile";
+
+const snapshot: IdentityShareSnapshot = {
+  username: "mario",
+  lifetime_score: 4321,
+  archetypes: [
+    { key: "completionist", label: "Completionist", strength: "core" },
+    { key: "archivist", label: "Archivist", strength: "strong" },
+    { key: "explorer", label: "Explorer", strength: "emerging" },
+    { key: "collector", label: "Collector", strength: "emerging" },
+  ],
+  top_signals: [{ key: "completion", label: "Completion", value: "82%" }],
+  identity_signals: {
+    owned_games: 1234,
+    unique_platforms: 7,
+    achievements_earned: 50,
+    achievements_total: 200,
+    era_buckets: {
+      gen4_1990_1995: { games: 30, releases: 31 },
+      gen8_2013_2019: { games: 60, releases: 70 },
+      gen6_2000_2005: { games: 10, releases: 10 },
+      unknown: { games: 500, releases: 500 },
+    },
+  },
+};
+
+function profilePayload(): PublicProfilePayload {
+  return {
+    ok: true,
+    user: { username: "mario", display_name: "Mario", avatar_url: null, discord_handle: null },
+    identity: {
+      lifetime_score: 900,
+      archetype: { key: "explorer", label: "Explorer", strength: "strong", one_liner: "" },
+      top_era: null,
+      top_signals: [{ key: "breadth", label: "Breadth" }],
+      era_buckets: { gen7_2006_2012: { games: 5, releases: 5 } },
+      era_buckets_legacy: {},
+      era_entropy: 0,
+      totals: { owned_games: 12, owned_releases: 14, minutes_played: 600, achievements_earned: 0, achievements_total: 0 },
+    },
+    timeline: { mode: "dominance", eras: [] },
+    notable_games: [],
+  };
+}
+
+describe("shareCardModel", () => {
+  it("draws the stored snapshot", () => {
+    const model = shareCardModel(snapshot);
+    expect(model.heading).toBe("@mario");
+    expect(model.score).toBe(4321);
+    expect(model.archetypes.map((a) => a.label)).toEqual(["Completionist", "Archivist", "Explorer"]);
+    expect(model.stats).toEqual([
+      { label: "Owned games", value: "1,234" },
+      { label: "Platforms", value: "7" },
+      { label: "Progress", value: "25%" },
+    ]);
+    expect(model.eras.map((e) => [e.label, e.games, e.share])).toEqual([
+      ["Gen 8", 60, 0.6],
+      ["Gen 4", 30, 0.3],
+      ["Gen 6", 10, 0.1],
+    ]);
+    expect(identityCardDescription(model)).toBe("Completionist · Lifetime score 4,321 · Mostly Gen 8 · 1,234 games");
+  });
+
+  it("falls back for an empty snapshot", () => {
+    const model = shareCardModel(null);
+    expect(model.heading).toBe("Gamer Profile");
+    expect(model.score).toBeNull();
+    expect(identityCardDescription(model)).toBe("Gaming identity on SaveState");
+  });
+
+  it("labels legacy era keys it does not know", () => {
+    expect(topEras({ snes_era: { games: 2 } })[0]).toMatchObject({ key: "snes_era", label: "snes era", share: 1 });
+  });
+});
+
+describe("profileCardModel", () => {
+  it("summarizes the public profile", () => {
+    const model = profileCardModel(profilePayload());
+    expect(model.heading).toBe("Mario");
+    expect(model.subheading).toBe("@mario");
+    expect(model.score).toBe(900);
+    expect(model.archetypes).toEqual([{ label: "Explorer", strength: "strong" }]);
+    expect(model.stats[1]).toEqual({ label: "Played", value: "10h" });
+    expect(model.eras.map((e) => e.label)).toEqual(["Gen 7"]);
+  });
+
+  it("respects profile_sharing toggles", () => {
+    const model = profileCardModel(profilePayload(), { show_score: false, show_archetypes: false, show_timeline: false });
+    expect(model.score).toBeNull();
+    expect(model.archetypes).toEqual([]);
+    expect(model.signals).toEqual([]);
+    expect(model.eras).toEqual([]);
+  });
+});
+
+describe("versioning and caching", () => {
+  it("changes version with the snapshot and caches only the current one forever", () => {
+    const v1 = ogImageVersion(["2026-03-01T00:00:00Z"]);
+    const v2 = ogImageVersion(["2026-03-02T00:00:00Z"]);
+    expect(v1).toMatch(/^[0-9a-f]{12}$/);
+    expect(v1).not.toBe(v2);
+    expect(ogCacheControl(v1, v1)).toBe(OG_CACHE_IMMUTABLE);
+    expect(ogCacheControl(v1, v2)).toBe(OG_CACHE_SHORT);
+    expect(ogCacheControl(null, v2)).toBe(OG_CACHE_SHORT);
+  });
+
+  it("parses the size parameter", () => {
+    expect(parseOgImageSize("twitter")).toBe("twitter");
+    expect(parseOgImageSize("huge")).toBe("og");
+    expect(parseOgImageSize(null)).toBe("og");
+  });
+});
+
+describe("renderIdentityCardImage", () => {
+  it("renders a PNG at the OG size", async () => {
+    const res = renderIdentityCardImage(shareCardModel(snapshot), "og", { "Cache-Control": OG_CACHE_SHORT });
+    expect(res.headers.get("content-type")).toBe("image/png");
+    expect(res.headers.get("cache-control")).toBe(OG_CACHE_SHORT);
+    const bytes = new Uint8Array(await res.arrayBuffer());
+    expect(Array.from(bytes.slice(1, 4))).toEqual([0x50, 0x4e, 0x47]);
+    const view = new DataView(bytes.buffer, bytes.byteOffset);
+    expect([view.getUint32(16), view.getUint32(20)]).toEqual([1200, 630]);
+  }, 30_000);
+});
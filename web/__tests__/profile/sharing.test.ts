@@ -0,0 +1,379 @@
+/**
+ * Profile sharing policy (lib/profile/sharing.ts)
+ *
+ * - Visibility: only profile_public + public/unlisted profiles open for non-owners
+ * - Toggles: a missing key counts as shared, owners see everything, PATCH bodies are strict
+ * - Allowlist: fields no rule names never leave, hidden sections are nulled or emptied
+ * - Contract: every surface in PROFILE_SHARING_SURFACES is run through its real payload builder with
+ *   fixtures carrying marker values; switching a toggle off removes every marker of its section, and
+ *   internal fields never show up under any combination
+ */
+
+import { describe, expect, it } from "vitest";
+import { buildIdentityFromSignals } from "@/lib/identity/buildIdentity";
+import type { GetIdentitySignalsJson } from "@/lib/identity/compute";
+import { buildShareResponse, redactShareSnapshot, shareTimeline, toSharePayload } from "@/lib/identity/share-card";
+import { leaderboardRows } from "@/lib/leaderboard/ranks";
+import { listRole, presentListItems } from "@/lib/lists/lists";
+import {
+  PROFILE_SHARING_KEYS,
+  PROFILE_SHARING_SURFACES,
+  PUBLIC_PROFILE_RULES,
+  applyProfileSharing,
+  isProfileVisible,
+  resolveProfileSharing,
+  sanitizeProfileSharing,
+  type ProfileSharingKey,
+  type ProfileSharingSurface,
+} from "@/lib/profile/sharing";
+import { buildPublicProfilePayload, buildPublicProfileResponse, type PublicProfileRow } from "@/lib/public-profile";
+import { buildProfileComparison, type CompareSide, type LibraryGame } from "@/lib/social/compare";
+import { buildFeedItems, type FeedEventRow } from "@/lib/social/feed";
+
+type Sharing = Record<string, unknown>;
+
+type SurfaceCase = {
+  /** The surface's real builder, fed the fixtures below with the subject's profile_sharing. */
+  build: (sharing: Sharing) => unknown;
+  /** Values only the toggle's section carries; numbers match as whole numbers in the JSON. */
+  markers: Partial<Record<ProfileSharingKey, Array<string | number>>>;
+};
+
+// Never allowed out, whatever the toggles.
+const INTERNAL = "internal-marker";
+
+const signals: GetIdentitySignalsJson & Record<string, unknown> = {
+  owned_games: 31237,
+  owned_releases: 31301,
+  unique_platforms: 17171,
+  achievements_earned: 31337,
+  achievements_total: 91919,
+  minutes_played: 42421,
+  primary_era_key: "ps2",
+  era_buckets: { ps2: { games: 8117, releases: 8119 } },
+  platform_counts: { psn: 30000, steam: 1237 },
+  debug_note: INTERNAL,
+};
+
+const originTimeline = {
+  stats: { gen6_2000_2005: { games: 8117, releases: 8119 } },
+  standouts: {
+    gen6_2000_2005: [
+      {
+        release_id: "r-okami",
+        title: "Standout Marker",
+        cover_url: null,
+        played_on: "Played On Marker",
+        earned: 55117,
+        total: 66113,
+        minutes_played: 77119,
+        score: 1,
+        owner_id: INTERNAL,
+      },
+    ],
+  },
+};
+
+const profile: Required<PublicProfileRow> & { user_id: string } = {
+  user_id: INTERNAL,
+  username: "sam",
+  display_name: "Sam",
+  avatar_url: null,
+  discord_handle: "sam#1",
+  public_discord: false,
+  profile_public: true,
+  profile_visibility: "public",
+  profile_sharing: {},
+  gamer_score_v11: 73311,
+};
+
+function identitySummary() {
+  const device = { slug: "deck", display_name: "Device Marker", kind: "handheld", era_key: null, releases: 12, source: "manual" as const };
+  const playedOn = { total_releases: 12, top_device: device, top_devices: [], by_kind: { handheld: 12 }, handheld_share: 1 };
+  const identity = buildIdentityFromSignals(signals, playedOn, null);
+  Object.assign(identity.summary, { most_played_on: { display_name: "Device Marker", total: 12 }, debug: INTERNAL });
+  return { identity, signals, played_on: playedOn, played_on_by_era: { ps2: { top_device: "Era Device Marker" } } };
+}
+
+const shareCard = () => ({
+  ...toSharePayload(
+    {
+      lifetime_score: 733.11,
+      primary_archetype: { key: "marker", name: "Marker Archetype", strength: "core" },
+      top_signals: [{ key: "s1", label: "Marker Signal", value: 0.5 }],
+    },
+    signals
+  ),
+  user_id: INTERNAL,
+});
+
+// Archetype evidence: "31237 owned games", "17171 platforms", "96% of your library is on PSN".
+const EVIDENCE = ["owned games"];
+
+const SURFACES: Record<ProfileSharingSurface, SurfaceCase> = {
+  public_profile: {
+    build: (sharing) =>
+      buildPublicProfileResponse({
+        profile: { ...profile, profile_sharing: sharing },
+        isOwner: false,
+        summary: identitySummary(),
+        timeline: originTimeline,
+      }),
+    markers: {
+      show_score: [73311, 42421, 31337, 91919, 55117, 77119],
+      show_collections: [31237, 31301, ...EVIDENCE],
+      show_archetypes: ["Platform Loyalist", "Archivist", ...EVIDENCE],
+      show_timeline: [8117, 8119, "Standout Marker"],
+      show_recent_activity: ["Standout Marker"],
+      show_played_on: ["Device Marker", "Era Device Marker", "Played On Marker"],
+      show_platforms: [17171, "library is on"],
+    },
+  },
+  profile_payload: {
+    build: (sharing) =>
+      buildPublicProfilePayload({
+        profile: { ...profile, profile_sharing: sharing },
+        signals,
+        timeline: originTimeline,
+        recentRows: [{ release_id: "r-halo", releases: { title: "Recent Marker", cover_url: null }, user_id: INTERNAL }],
+      }),
+    markers: {
+      show_score: [73311, 42421, 31337, 91919],
+      show_collections: [31237, 31301, ...EVIDENCE],
+      show_archetypes: ['"archetype":{', ...EVIDENCE],
+      show_timeline: [8117, 8119, "Standout Marker"],
+      show_recent_activity: ["Recent Marker", "Standout Marker"],
+      show_platforms: [17171],
+    },
+  },
+  share_card: {
+    build: (sharing) =>
+      buildShareResponse({ card: shareCard(), timeline: shareTimeline(INTERNAL, originTimeline), profileSharing: sharing }),
+    markers: {
+      show_score: [73311, 42421, 31337, 91919, 55117, 77119],
+      show_collections: [31237, 31301, "Marker Signal"],
+      show_archetypes: ["Marker Archetype", "Marker Signal"],
+      show_timeline: [8117, 8119, "Standout Marker"],
+      show_recent_activity: ["Standout Marker"],
+      show_played_on: ["Played On Marker", "Marker Signal"],
+      show_platforms: [17171, "Marker Signal"],
+    },
+  },
+  share_og: {
+    build: (sharing) => redactShareSnapshot(shareCard(), sharing),
+    markers: {
+      show_score: [73311, 42421, 31337, 91919],
+      show_collections: [31237, 31301],
+      show_archetypes: ["Marker Archetype", "Marker Signal"],
+      show_timeline: [8117],
+      show_platforms: [17171],
+    },
+  },
+  feed: {
+    build: (sharing) => {
+      const ev = (id: number, kind: FeedEventRow["kind"], over: Partial<FeedEventRow> = {}): FeedEventRow => ({
+        id,
+        user_id: "u-sam",
+        kind,
+        release_id: null,
+        payload: {},
+        occurred_at: `2026-03-0${id}T10:00:00Z`,
+        ...over,
+      });
+      const profiles = new Map([
+        ["u-sam", { ...profile, user_id: "u-sam", profile_sharing: sharing }],
+        ["u-hidden", { ...profile, user_id: "u-hidden", username: "hidden", profile_visibility: "private" }],
+      ]);
+      const releases = new Map([
+        ["r1", { title: "Completion Marker", platform_label: "Platform Marker", cover_url: null, cover_image: null }],
+      ]);
+      return buildFeedItems(
+        [
+          ev(1, "completion", { release_id: "r1" }),
+          ev(2, "mastery", { payload: { title: "Mastery Marker", label: "Platinum" } }),
+          ev(3, "memory", { payload: { title: "Memory Marker" } }),
+          ev(4, "archetype_shift", { payload: { from: null, to: "marker_archetype" } }),
+          ev(5, "completion", { user_id: "u-hidden", payload: { title: INTERNAL } }),
+        ],
+        profiles,
+        releases
+      );
+    },
+    markers: {
+      show_recent_activity: ["Completion Marker", "Mastery Marker", "Platform Marker"],
+      show_timeline: ["Memory Marker"],
+      show_archetypes: ["marker archetype"],
+      show_platforms: ["Platform Marker"],
+    },
+  },
+  compare: {
+    build: (sharing) => {
+      const side = (username: string, over: Partial<CompareSide> = {}): CompareSide => ({
+        user_id: `u-${username}`,
+        username,
+        display_name: null,
+        avatar_url: null,
+        profile_public: true,
+        profile_visibility: "public",
+        profile_sharing: {},
+        gamer_score_v11: 1,
+        ...over,
+      });
+      const game = (id: string, platforms: string[], completed: boolean): LibraryGame => ({
+        game_id: id,
+        title: id,
+        cover_url: null,
+        platforms,
+        completed,
+      });
+      return buildProfileComparison(
+        {
+          profile: side("alex"),
+          library: [game("Shared", ["SNES"], false), game("Only A", ["SNES"], false)],
+          era_buckets: { gen4_1990_1995: { games: 2 } },
+          archetypes: [{ key: "explorer", label: "Explorer", score: 10 }],
+        },
+        {
+          profile: side("sam", { profile_sharing: sharing, gamer_score_v11: 73311 }),
+          library: [game("Shared", ["Platform Marker"], true), game("Only B Marker", ["Platform Marker"], true)],
+          era_buckets: { gen6_2000_2005: { games: 8117 } },
+          archetypes: [{ key: "marker", label: "Marker Archetype", score: 90 }],
+        }
+      );
+    },
+    markers: {
+      show_score: [73311],
+      show_collections: ["Only B Marker", '"completed":true'],
+      show_recent_activity: ['"completed":true', '"completion":{'],
+      show_timeline: [8117],
+      show_archetypes: ["Marker Archetype"],
+      show_platforms: ["Platform Marker"],
+    },
+  },
+  leaderboard: {
+    build: (sharing) => {
+      const sam = { ...profile, user_id: "u-sam", username: "sam", profile_sharing: sharing };
+      const entries = [{ user_id: "u-sam", score: 73311, rank: 1, computed_at: "2026-03-01T00:00:00Z" }];
+      const profiles = new Map([["u-sam", sam]]);
+      const board = (b: string) => leaderboardRows(entries, profiles, b, null).map((r) => `${b}=${r.username}/${r.score}`);
+      return [...board("global"), ...board("era:ps2"), ...board("platform:psn")];
+    },
+    markers: {
+      show_score: ["global=sam", "era:ps2=sam", "platform:psn=sam", 73311],
+      show_timeline: ["era:ps2=sam"],
+      show_platforms: ["platform:psn=sam"],
+    },
+  },
+  lists: {
+    build: (sharing) => {
+      const owner = { ...profile, user_id: "u-sam", profile_sharing: sharing };
+      const release = { id: "r1", display_title: "Smart Item Marker", platform_name: "Platform Marker", cover_url: null };
+      const rows = [{ release_id: "r1", position: null, note: null, added_by: "u-sam", created_at: null, releases: release }];
+      const smart = (rules: Record<string, unknown>) => {
+        const list = { user_id: "u-sam", is_curated: false, is_smart: true, is_ranked: false, visibility: "public", rules };
+        const role = listRole(list, null, [], owner);
+        return role ? { rules, items: presentListItems(rows, list, role, null) } : null;
+      };
+      return [smart({}), smart({ statuses: ["playing"] })];
+    },
+    markers: {
+      show_collections: ["Smart Item Marker"],
+      show_platforms: ["Platform Marker"],
+      show_recent_activity: ['"playing"'],
+    },
+  },
+};
+
+function leaks(out: unknown, markers: Array<string | number>): Array<string | number> {
+  const json = JSON.stringify(out);
+  return markers.filter((m) => (typeof m === "number" ? new RegExp(`(?<![\\d.])${m}(?![\\d.])`).test(json) : json.includes(m)));
+}
+
+describe("visibility", () => {
+  it("opens public and unlisted profiles only when profile_public is on", () => {
+    expect(isProfileVisible({ profile_public: true, profile_visibility: "public" })).toBe(true);
+    expect(isProfileVisible({ profile_public: true, profile_visibility: "unlisted" })).toBe(true);
+    expect(isProfileVisible({ profile_public: true, profile_visibility: null })).toBe(true);
+    expect(isProfileVisible({ profile_public: true, profile_visibility: "private" })).toBe(false);
+    expect(isProfileVisible({ profile_public: false, profile_visibility: "public" })).toBe(false);
+    expect(isProfileVisible({ profile_public: null })).toBe(false);
+  });
+});
+
+describe("toggles", () => {
+  it("treats missing keys as shared and owners as seeing everything", () => {
+    expect(resolveProfileSharing({ show_score: false })).toMatchObject({ show_score: false, show_timeline: true });
+    expect(Object.values(resolveProfileSharing(null)).every(Boolean)).toBe(true);
+    expect(resolveProfileSharing({ show_score: false }, { isOwner: true }).show_score).toBe(true);
+  });
+
+  it("accepts only known keys with boolean values", () => {
+    expect(sanitizeProfileSharing({ show_score: false, show_platforms: true })).toEqual({
+      show_score: false,
+      show_platforms: true,
+    });
+    expect(sanitizeProfileSharing({ show_score: "no" })).toBeNull();
+    expect(sanitizeProfileSharing({ show_everything: false })).toBeNull();
+    expect(sanitizeProfileSharing([false])).toBeNull();
+  });
+});
+
+describe("applyProfileSharing", () => {
+  it("empties lists and maps the profile page iterates instead of nulling them", () => {
+    const out = applyProfileSharing(
+      {
+        identity: { archetype: { key: "completionist" }, top_signals: [{ key: "a" }], totals: { owned_games: 12 } },
+        timeline: { stats: { gen5: { games: 3 } }, standouts: { gen5: [{ title: "Crash", played_on: "PS1" }] } },
+        played_on_by_era: { gen5: { top_device: "PS1" } },
+      },
+      { ...resolveProfileSharing(null), show_archetypes: false, show_recent_activity: false, show_played_on: false },
+      PUBLIC_PROFILE_RULES
+    );
+    expect(out.identity).toEqual({ archetype: null, top_signals: [], totals: { owned_games: 12 } });
+    expect(out.timeline).toEqual({ stats: { gen5: { games: 3 } }, standouts: {} });
+    expect(out.played_on_by_era).toEqual({});
+  });
+
+  it("drops every field no rule names, also for owners, and leaves the input untouched", () => {
+    const payload = {
+      ok: true,
+      user_id: "u1",
+      identity: { lifetime_score: 5, email: "a@b.c", totals: { owned_games: 3, wallet: 9 } },
+      timeline: { standouts: { ps2: [{ title: "Okami", played_on: "PS2", owner_id: "u1" }] } },
+    };
+    const before = JSON.stringify(payload);
+    const out = applyProfileSharing(payload, resolveProfileSharing(null, { isOwner: true }), PUBLIC_PROFILE_RULES);
+    expect(out).toEqual({
+      ok: true,
+      identity: { lifetime_score: 5, totals: { owned_games: 3 } },
+      timeline: { standouts: { ps2: [{ title: "Okami", played_on: "PS2" }] } },
+    });
+    expect(JSON.stringify(payload)).toBe(before);
+  });
+});
+
+describe("public surfaces", () => {
+  it("has a builder case for every registered surface", () => {
+    expect(Object.keys(SURFACES).sort()).toEqual(Object.keys(PROFILE_SHARING_SURFACES).sort());
+  });
+
+  for (const [surface, { build, markers }] of Object.entries(SURFACES)) {
+    const keys = Object.keys(markers) as ProfileSharingKey[];
+
+    it(`${surface}: shows every section when all toggles are on`, () => {
+      const out = build({});
+      for (const key of keys) expect(leaks(out, markers[key]!), `${surface} ${key}`).not.toEqual([]);
+    });
+
+    it(`${surface}: every toggle hides all of its markers`, () => {
+      for (const key of PROFILE_SHARING_KEYS) {
+        expect(leaks(build({ [key]: false }), markers[key] ?? []), `${surface} leaks ${key}`).toEqual([]);
+      }
+    });
+
+    it(`${surface}: never sends internal fields or hidden authors`, () => {
+      const offs = [{}, Object.fromEntries(PROFILE_SHARING_KEYS.map((k) => [k, false]))];
+      for (const sharing of offs) expect(JSON.stringify(build(sharing))).not.toContain(INTERNAL);
+    });
+  }
+});
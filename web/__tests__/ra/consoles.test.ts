@@ -0,0 +1,75 @@
+/**
+ * RetroAchievements console map (lib/ra/consoles.ts)
+ *
+ * - Exact key / name / alias match wins; non-RA catalog rows block the ps1 "playstation" fallback
+ * - Labels with extra words fall back to the longest whole-word catalog phrase
+ * - Hardware: null ids = unrestricted, [] = no RA consoles, otherwise the listed consoles
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildRaConsoleMap,
+  hardwarePlaysRaConsole,
+  hardwareSupportsRa,
+  platformKeyForRaConsole,
+  resolveRaConsoleIdFromMap,
+  type RaPlatformRow,
+} from "@/lib/ra/consoles";
+
+const rows: RaPlatformRow[] = [
+  { platform_key: "gb", display_name: "Game Boy", aliases: ["game boy", "gb"], ra_console_id: 4 },
+  { platform_key: "gba", display_name: "Game Boy Advance", aliases: ["game boy advance", "gba"], ra_console_id: 5 },
+  { platform_key: "ps1", display_name: "PlayStation", aliases: ["playstation", "psx"], ra_console_id: 12 },
+  { platform_key: "ps4", display_name: "PlayStation 4", aliases: ["playstation 4"], ra_console_id: null },
+  { platform_key: "genesis", display_name: "Sega Genesis", aliases: ["mega drive", "md"], ra_console_id: 1 },
+  { platform_key: "arcade", display_name: "Arcade", aliases: ["mame", "neo geo"], ra_console_id: 27 },
+  { platform_key: "ngp", display_name: "Neo Geo Pocket", aliases: ["neo geo pocket color", "ngpc"], ra_console_id: 14 },
+  { platform_key: "3do", display_name: "3DO", aliases: ["3do interactive multiplayer"], ra_console_id: 43 },
+  { platform_key: "pcfx", display_name: "PC-FX", aliases: ["pc-fx"], ra_console_id: 49 },
+  { platform_key: "wonderswan", display_name: "WonderSwan", aliases: ["wonderswan color", "wsc"], ra_console_id: 53 },
+];
+
+const map = buildRaConsoleMap(rows);
+
+describe("resolveRaConsoleIdFromMap", () => {
+  it("resolves keys, display names and aliases ignoring case and punctuation", () => {
+    expect(resolveRaConsoleIdFromMap(map, "arcade", null, null)).toBe(27);
+    expect(resolveRaConsoleIdFromMap(map, null, "3DO", null)).toBe(43);
+    expect(resolveRaConsoleIdFromMap(map, null, null, "PC FX")).toBe(49);
+    expect(resolveRaConsoleIdFromMap(map, null, "Wonder Swan", null)).toBe(53);
+    expect(resolveRaConsoleIdFromMap(map, "MAME", null, null)).toBe(27);
+  });
+
+  it("keeps platforms RA doesn't support unmapped instead of matching a shorter alias", () => {
+    expect(resolveRaConsoleIdFromMap(map, "ps4", "PlayStation 4", null)).toBeNull();
+    expect(resolveRaConsoleIdFromMap(map, null, null, "Sony PlayStation 4 (Pro)")).toBeNull();
+    expect(resolveRaConsoleIdFromMap(map, "xbox_series", null, "Xbox Series X")).toBeNull();
+  });
+
+  it("falls back to the longest whole-word phrase in noisy labels", () => {
+    expect(resolveRaConsoleIdFromMap(map, null, null, "Nintendo Game Boy Advance SP")).toBe(5);
+    expect(resolveRaConsoleIdFromMap(map, null, null, "SNK Neo Geo Pocket Color")).toBe(14);
+    expect(resolveRaConsoleIdFromMap(map, null, null, "Neo Geo MVS cartridge")).toBe(27);
+    expect(resolveRaConsoleIdFromMap(map, null, null, "Mega Drive (PAL)")).toBe(1);
+  });
+
+  it("maps console ids back to a platform key", () => {
+    expect(platformKeyForRaConsole(map, 53)).toBe("wonderswan");
+    expect(platformKeyForRaConsole(map, 999)).toBeNull();
+  });
+});
+
+describe("hardware", () => {
+  it("matches native consoles, trusts emulation devices and rejects modern consoles", () => {
+    const genesis = { ra_console_ids: [1, 9, 10] };
+    expect(hardwarePlaysRaConsole(genesis, 1)).toBe(true);
+    expect(hardwarePlaysRaConsole(genesis, 12)).toBe(false);
+    expect(hardwarePlaysRaConsole(genesis, null)).toBe(false);
+
+    expect(hardwarePlaysRaConsole({ ra_console_ids: null }, 27)).toBe(true);
+    expect(hardwarePlaysRaConsole({ ra_console_ids: [], is_modern_retro_handheld: true }, 53)).toBe(true);
+
+    expect(hardwareSupportsRa({ ra_console_ids: [] })).toBe(false);
+    expect(hardwareSupportsRa({ ra_console_ids: [25] })).toBe(true);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Profile comparison (lib/social/compare.ts)
+ *
+ * - Releases collapse per game; shared / only lists and counts, optionally narrowed to one platform
+ * - Completion overlap only counts shared games
+ * - Era buckets merge legacy keys (mergeEraBucketsByCanonical) before computing shares
+ * - Each section follows the profile_sharing toggles of both sides; the owner's side is never hidden
+ * - Taste similarity rescales over the components both sides share
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  buildProfileComparison,
+  canCompare,
+  compareArchetypes,
+  compareEraBuckets,
+  compareLibraries,
+  completionOverlap,
+  libraryFromRows,
+  tasteSimilarity,
+  type CompareSide,
+  type CompareSideData,
+  type LibraryGame,
+  type LibraryRow,
+} from "@/lib/social/compare";
+
+function row(release: string, game: string | null, platform: string, status = "owned"): LibraryRow {
+  return {
+    release_id: release,
+    status,
+    releases: { id: release, game_id: game, display_title: null, title: `Game ${game ?? release}`, platform_label: platform, cover_url: null },
+  };
+}
+
+function lib(...games: Array<[string, string[], boolean?]>): LibraryGame[] {
+  return games.map(([id, platforms, completed]) => ({
+    game_id: id,
+    title: `Game ${id}`,
+    cover_url: null,
+    platforms,
+    completed: !!completed,
+  }));
+}
+
+function side(username: string, over: Partial<CompareSide> = {}): CompareSide {
+  return {
+    user_id: `id-${username}`,
+    username,
+    display_name: null,
+    avatar_url: null,
+    profile_public: true,
+    profile_visibility: "public",
+    profile_sharing: {},
+    gamer_score_v11: 1200,
+    ...over,
+  };
+}
+
+function data(profile: CompareSide, library: LibraryGame[]): CompareSideData {
+  return {
+    profile,
+    library,
+    era_buckets: { "16bit": { games: 3 }, gen4_1990_1995: { games: 1 }, gen7_2006_2012: { games: 4 } },
+    archetypes: [{ key: "retro_dabbler", label: "Retro Dabbler", score: 60 }],
+  };
+}
+
+describe("libraryFromRows", () => {
+  it("collapses releases of one game and keeps completion from any of them", () => {
+    const games = libraryFromRows([
+      row("r1", "g1", "SNES"),
+      row("r2", "g1", "Switch", "completed"),
+      row("r3", null, "PC"),
+      { release_id: "r4", status: "owned", releases: null },
+    ]);
+    expect(games).toHaveLength(2);
+    expect(games[0]).toMatchObject({ game_id: "g1", platforms: ["SNES", "Switch"], completed: true });
+    expect(games[1].game_id).toBe("release:r3");
+  });
+});
+
+describe("compareLibraries", () => {
+  const a = lib(["g1", ["SNES"], true], ["g2", ["SNES", "Switch"]], ["g3", ["PS2"]]);
+  const b = lib(["g1", ["Switch"], true], ["g2", ["SNES"], true], ["g4", ["SNES"]]);
+
+  it("splits shared and only games", () => {
+    const cmp = compareLibraries(a, b, { withCompletion: true });
+    expect(cmp.counts).toEqual({ a: 3, b: 3, shared: 2, only_a: 1, only_b: 1 });
+    expect(cmp.shared.map((g) => g.game_id)).toEqual(["g1", "g2"]);
+    expect(cmp.shared[1].b.completed).toBe(true);
+    expect(compareLibraries(a, b).shared[0].a.completed).toBeNull();
+  });
+
+  it("narrows to one platform, case-insensitively", () => {
+    const cmp = compareLibraries(a, b, { platform: "snes" });
+    expect(cmp.counts).toEqual({ a: 2, b: 2, shared: 1, only_a: 1, only_b: 1 });
+    expect(cmp.shared[0]).toMatchObject({ game_id: "g2", a: { platforms: ["SNES"] } });
+  });
+
+  it("counts completion overlap over shared games only", () => {
+    expect(completionOverlap(a, b)).toEqual({ both: 1, only_a: 0, only_b: 1, neither: 0, overlap: 0.5 });
+  });
+});
+
+describe("eras and archetypes", () => {
+  it("merges legacy era keys before computing shares", () => {
+    const rows = compareEraBuckets({ "16bit": { games: 3 }, gen4_1990_1995: { games: 1 } }, null);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ era: "gen4_1990_1995", a: { games: 4, share: 1 }, b: null });
+  });
+
+  it("lines up archetype scores, strongest first", () => {
+    const rows = compareArchetypes(
+      [{ key: "x", label: "X", score: 10 }],
+      [{ key: "y", label: "Y", score: 50 }, { key: "x", label: "X", score: 20 }]
+    );
+    expect(rows).toEqual([
+      { key: "y", label: "Y", a: 0, b: 50 },
+      { key: "x", label: "X", a: 10, b: 20 },
+    ]);
+  });
+});
+
+describe("tasteSimilarity", () => {
+  it("rescales over available components", () => {
+    const same = lib(["g1", ["SNES"]]);
+    expect(tasteSimilarity({ library: { a: same, b: same }, eras: null, archetypes: null, platforms: null })).toEqual({
+      score: 100,
+      components: { library: 1, eras: null, archetypes: null, platforms: null },
+    });
+    expect(tasteSimilarity({ library: null, eras: null, archetypes: null, platforms: null }).score).toBeNull();
+    const half = tasteSimilarity({
+      library: { a: lib(["g1", []], ["g2", []]), b: lib(["g1", []], ["g3", []]) },
+      eras: null,
+      archetypes: [{ key: "x", label: "X", a: 0, b: 5 }],
+      platforms: null,
+    });
+    expect(half.components).toMatchObject({ library: 0.5, archetypes: null });
+  });
+});
+
+describe("buildProfileComparison", () => {
+  const libA = lib(["g1", ["SNES"], true], ["g2", ["SNES"]]);
+  const libB = lib(["g1", ["SNES"], true]);
+
+  it("requires both profiles to be visible unless it's the viewer's own", () => {
+    expect(canCompare(side("a"), side("b", { profile_visibility: "unlisted" }))).toBe(true);
+    expect(canCompare(side("a"), side("b", { profile_visibility: "private" }))).toBe(false);
+    expect(canCompare(side("a", { profile_public: false, is_viewer: true }), side("b"))).toBe(true);
+  });
+
+  it("drops sections either side hides, and their similarity components", () => {
+    const hidden = side("b", { profile_sharing: { show_collections: false, show_archetypes: false, show_score: false } });
+    const cmp = buildProfileComparison(data(side("a"), libA), data(hidden, libB));
+    expect(cmp.library).toBeNull();
+    expect(cmp.completion).toBeNull();
+    expect(cmp.b.score).toBeNull();
+    expect(cmp.a.score).toBe(1200);
+    expect(cmp.archetypes?.every((r) => r.b === null)).toBe(true);
+    expect(cmp.similarity.components).toMatchObject({ library: null, archetypes: null, eras: 1, platforms: 1 });
+  });
+
+  it("ignores the platform filter and strips platforms when a side hides them", () => {
+    const noPlatforms = side("b", { profile_sharing: { show_platforms: false } });
+    const cmp = buildProfileComparison(data(side("a"), libA), data(noPlatforms, libB), { platform: "SNES" });
+    expect(cmp.library?.platform).toBeNull();
+    expect(cmp.library?.shared[0].b.platforms).toEqual([]);
+    expect(cmp.platforms?.[0]).toEqual({ platform: "SNES", a: 2, b: null });
+
+    const owner = buildProfileComparison(data(side("a"), libA), data({ ...noPlatforms, is_viewer: true }, libB), {
+      platform: "SNES",
+    });
+    expect(owner.library?.platform).toBe("SNES");
+    expect(owner.completion).toEqual({ both: 1, only_a: 0, only_b: 0, neither: 0, overlap: 1 });
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Follow graph + friends feed (lib/social/follows.ts, lib/social/feed.ts)
+ *
+ * - Public profiles are followed at once, unlisted ones need approval, private / non-public are hidden
+ * - Each event kind is gated by one profile_sharing toggle; missing toggles count as shared
+ * - Same-author same-kind bursts within a day collapse into one item; archetype shifts never do
+ * - Cursors round-trip and reject garbage
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  buildFeedItem,
+  decodeFeedCursor,
+  encodeFeedCursor,
+  feedItemSentence,
+  feedKindsAllowed,
+  groupFeedEvents,
+  type FeedEventRow,
+} from "@/lib/social/feed";
+import { isProfileVisible } from "@/lib/profile/sharing";
+import { initialFollowStatus } from "@/lib/social/follows";
+
+function ev(over: Partial<FeedEventRow> & { id: number; occurred_at: string }): FeedEventRow {
+  return { user_id: "u1", kind: "completion", release_id: null, payload: {}, ...over };
+}
+
+const actor = { username: "luigi", display_name: "Luigi", avatar_url: null };
+
+describe("follows", () => {
+  it("gates visibility like the public profile route", () => {
+    expect(isProfileVisible({ profile_public: true, profile_visibility: null })).toBe(true);
+    expect(isProfileVisible({ profile_public: true, profile_visibility: "unlisted" })).toBe(true);
+    expect(isProfileVisible({ profile_public: true, profile_visibility: "private" })).toBe(false);
+    expect(isProfileVisible({ profile_public: false, profile_visibility: "public" })).toBe(false);
+  });
+
+  it("needs approval only for unlisted profiles", () => {
+    expect(initialFollowStatus({ profile_visibility: "public" })).toBe("accepted");
+    expect(initialFollowStatus({ profile_visibility: null })).toBe("accepted");
+    expect(initialFollowStatus({ profile_visibility: "unlisted" })).toBe("pending");
+  });
+});
+
+describe("feedKindsAllowed", () => {
+  it("maps each kind to its profile_sharing toggle", () => {
+    expect(feedKindsAllowed(null)).toEqual(["completion", "mastery", "memory", "archetype_shift"]);
+    expect(feedKindsAllowed({ show_recent_activity: false })).toEqual(["memory", "archetype_shift"]);
+    expect(feedKindsAllowed({ show_timeline: false, show_archetypes: false })).toEqual(["completion", "mastery"]);
+    expect(feedKindsAllowed({ show_score: false })).toHaveLength(4);
+  });
+});
+
+describe("groupFeedEvents", () => {
+  it("collapses bursts per author and kind within the window", () => {
+    const groups = groupFeedEvents([
+      ev({ id: 1, occurred_at: "2026-03-01T10:00:00Z" }),
+      ev({ id: 2, occurred_at: "2026-03-01T12:00:00Z" }),
+      ev({ id: 3, occurred_at: "2026-03-01T13:00:00Z", kind: "memory" }),
+      ev({ id: 4, occurred_at: "2026-03-01T14:00:00Z", user_id: "u2" }),
+      ev({ id: 5, occurred_at: "2026-02-20T10:00:00Z" }),
+    ]);
+    expect(groups.map((g) => g.map((e) => e.id))).toEqual([[4], [3], [2, 1], [5]]);
+  });
+
+  it("never merges archetype shifts", () => {
+    const groups = groupFeedEvents([
+      ev({ id: 1, occurred_at: "2026-03-01T10:00:00Z", kind: "archetype_shift" }),
+      ev({ id: 2, occurred_at: "2026-03-01T11:00:00Z", kind: "archetype_shift" }),
+    ]);
+    expect(groups).toHaveLength(2);
+  });
+});
+
+describe("feed items", () => {
+  it("describes single events with release titles and mastery labels", () => {
+    const releases = new Map([
+      ["r1", { title: "Chrono Trigger", platform_label: "SNES", cover_url: null, cover_image: null }],
+    ]);
+    const completion = buildFeedItem([ev({ id: 7, occurred_at: "2026-03-01T10:00:00Z", release_id: "r1" })], actor, releases);
+    expect(completion.id).toBe("completion:7");
+    expect(feedItemSentence(completion)).toBe("completed Chrono Trigger");
+
+    const plat = buildFeedItem(
+      [ev({ id: 8, occurred_at: "2026-03-01T10:00:00Z", kind: "mastery", payload: { label: "Platinum", title: "Bloodborne" } })],
+      actor,
+      releases
+    );
+    expect(plat.releases[0]).toMatchObject({ title: "Bloodborne", label: "Platinum" });
+    expect(feedItemSentence(plat)).toBe("earned the Platinum in Bloodborne");
+  });
+
+  it("summarizes bursts and archetype shifts", () => {
+    const burst = buildFeedItem(
+      [1, 2, 3, 4, 5].map((id) => ev({ id, occurred_at: "2026-03-01T10:00:00Z", kind: "memory" })),
+      actor,
+      new Map()
+    );
+    expect(burst.count).toBe(5);
+    expect(burst.releases).toHaveLength(4);
+    expect(feedItemSentence(burst)).toBe("remembered 5 games");
+
+    const shift = buildFeedItem(
+      [ev({ id: 9, occurred_at: "2026-03-01T10:00:00Z", kind: "archetype_shift", payload: { from: "explorer", to: "retro_dabbler" } })],
+      actor,
+      new Map()
+    );
+    expect(shift.releases).toEqual([]);
+    expect(feedItemSentence(shift)).toBe("shifted from Explorer to Retro Dabbler");
+  });
+});
+
+describe("feed cursor", () => {
+  it("round-trips and rejects garbage", () => {
+    const c = encodeFeedCursor({ occurred_at: "2026-03-01T10:00:00.123+00:00", id: 42 });
+    expect(decodeFeedCursor(c)).toEqual({ occurred_at: "2026-03-01T10:00:00.123+00:00", id: 42 });
+    expect(decodeFeedCursor("nope")).toBeNull();
+    expect(decodeFeedCursor("2026-03-01T10:00:00Z|x")).toBeNull();
+    expect(decodeFeedCursor(null)).toBeNull();
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Switch play activity import (lib/switch/play-activity.ts)
+ *
+ * - fixtures/play-histories.json follows the Nintendo Account play history export (playHistories
+ *   with per-title totals), including rows the parser must skip or repair
+ * - Title ids are normalized (upper-case, 0x prefix dropped); rows without a valid id are skipped
+ * - Totals rows keep the largest total per title, session rows add up; dates widen to first/last played
+ * - Posted titles are validated as a whole: one bad title id rejects the batch
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { normalizeSwitchTitleId, normalizeSwitchTitles, parseSwitchPlayActivity } from "@/lib/switch/play-activity";
+
+const exportJson = () => JSON.parse(fs.readFileSync(path.join(__dirname, "fixtures/play-histories.json"), "utf8"));
+
+describe("parseSwitchPlayActivity: play history export", () => {
+  const titles = parseSwitchPlayActivity(exportJson());
+  const byId = Object.fromEntries(titles.map((t) => [t.title_id, t]));
+
+  it("keeps one row per valid title id and skips rows without one", () => {
+    expect(titles.map((t) => t.title_id)).toEqual(["0100F2C0115B6000", "01006A800016E000", "0100000000010000", "01007EF00011E000"]);
+  });
+
+  it("reads totals, names, images and UTC dates", () => {
+    expect(byId["01006A800016E000"]).toEqual({
+      title_id: "01006A800016E000",
+      title: "Super Smash Bros. Ultimate",
+      image_url: "https://cdn.example-nintendo.net/images/01006A800016E000.jpg",
+      playtime_minutes: 4410,
+      first_played_at: "2018-12-07T09:00:00.000Z",
+      last_played_at: "2024-01-20T12:30:00.000Z",
+    });
+    expect(byId["0100000000010000"]).toMatchObject({ title: "Super Mario Odyssey", image_url: null, playtime_minutes: 930 });
+  });
+
+  it("merges duplicate rows of a title: largest total, earliest first and latest last played", () => {
+    expect(byId["0100F2C0115B6000"]).toMatchObject({
+      playtime_minutes: 18720,
+      first_played_at: "2023-05-11T14:50:00.000Z",
+      last_played_at: "2024-03-02T00:58:00.000Z",
+      image_url: "https://cdn.example-nintendo.net/images/0100F2C0115B6000.jpg",
+    });
+  });
+
+  it("repairs partial rows: no name, bad dates, negative minutes", () => {
+    expect(byId["01007EF00011E000"]).toEqual({
+      title_id: "01007EF00011E000",
+      title: "Switch title 01007EF00011E000",
+      image_url: null,
+      playtime_minutes: 0,
+      first_played_at: null,
+      last_played_at: null,
+    });
+  });
+});
+
+describe("parseSwitchPlayActivity: other shapes", () => {
+  it("sums session events per title, found under a wrapper object", () => {
+    const titles = parseSwitchPlayActivity({
+      data: {
+        playActivity: [
+          { titleId: "0100F2C0115B6000", titleName: "Zelda", startedAt: "2024-03-01T10:00:00Z", endedAt: "2024-03-01T10:30:00Z", playedMinutes: 30 },
+          { titleId: "0100F2C0115B6000", startedAt: 1709380800, durationMinutes: 45 },
+          { titleId: "0100F2C0115B6000", startedAt: "2024-02-28T08:00:00Z", playedMinutes: "oops" },
+        ],
+      },
+    });
+    expect(titles).toEqual([
+      {
+        title_id: "0100F2C0115B6000",
+        title: "Zelda",
+        image_url: null,
+        playtime_minutes: 75,
+        first_played_at: "2024-02-28T08:00:00.000Z",
+        last_played_at: "2024-03-02T12:00:00.000Z",
+      },
+    ]);
+  });
+
+  it("rejects files that aren't a play activity export", () => {
+    expect(() => parseSwitchPlayActivity({ trophies: [] })).toThrow(/Not a Nintendo play activity export/);
+    expect(() => parseSwitchPlayActivity({ playHistories: "none" })).toThrow(/Not a Nintendo play activity export/);
+    expect(() => parseSwitchPlayActivity(null)).toThrow(/Not a Nintendo play activity export/);
+    expect(parseSwitchPlayActivity([{ titleName: "no id" }, 42, null])).toEqual([]);
+  });
+
+  it("normalizes title ids", () => {
+    expect(normalizeSwitchTitleId(" 0x0100f2c0115b6000 ")).toBe("0100F2C0115B6000");
+    expect(normalizeSwitchTitleId("0100F2C0115B600")).toBeNull();
+    expect(normalizeSwitchTitleId(null)).toBeNull();
+  });
+});
+
+describe("normalizeSwitchTitles", () => {
+  it("accepts what the browser parsed from the export", () => {
+    const parsed = parseSwitchPlayActivity(exportJson());
+    expect(normalizeSwitchTitles(JSON.parse(JSON.stringify(parsed)))).toEqual(parsed);
+  });
+
+  it("drops non-https images and bad numbers, and rejects the batch on a bad title id", () => {
+    const [t] = normalizeSwitchTitles([
+      { title_id: "0100f2c0115b6000", title: " ", image_url: "http://example.com/a.jpg", playtime_minutes: -3, last_played_at: "nope" },
+    ])!;
+    expect(t).toEqual({
+      title_id: "0100F2C0115B6000",
+      title: "Switch title 0100F2C0115B6000",
+      image_url: null,
+      playtime_minutes: 0,
+      first_played_at: null,
+      last_played_at: null,
+    });
+    expect(normalizeSwitchTitles([{ title_id: "0100F2C0115B6000" }, { title_id: "zelda" }])).toBeNull();
+    expect(normalizeSwitchTitles({ titles: [] })).toBeNull();
+  });
+});
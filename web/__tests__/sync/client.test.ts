@@ -0,0 +1,41 @@
+/**
+ * Sync queue client (lib/sync/client.ts)
+ *
+ * - Polls of a job nobody ran wait for its backoff, within 2s..15s
+ * - Finished job counters come out in the shape of the single-request /api/sync/* routes
+ */
+
+import { describe, expect, it } from "vitest";
+import { syncJobResultPayload, syncPollDelayMs } from "@/lib/sync/client";
+
+describe("syncPollDelayMs", () => {
+  const now = Date.parse("2026-03-01T12:00:00.000Z");
+
+  it("waits until next_run_at, clamped", () => {
+    expect(syncPollDelayMs({ next_run_at: "2026-03-01T12:00:05.000Z" }, now)).toBe(5_000);
+    expect(syncPollDelayMs({ next_run_at: "2026-03-01T11:59:00.000Z" }, now)).toBe(2_000);
+    expect(syncPollDelayMs({ next_run_at: "2026-03-01T12:30:00.000Z" }, now)).toBe(15_000);
+    expect(syncPollDelayMs({ next_run_at: "bogus" }, now)).toBe(2_000);
+  });
+});
+
+describe("syncJobResultPayload", () => {
+  it("maps PSN, Xbox and Steam counters like their routes", () => {
+    const psn = syncJobResultPayload("psn", { played_total: 4, trophies_total: 90, achievement_keys: 3, releases_touched: 2, skipped: 1 });
+    expect(psn).toMatchObject({ played: { total: 4 }, trophies: { total: 90 }, trophy_groups: { unique_titles: 3 }, releases_touched: 2, skipped: 1 });
+
+    const xbox = syncJobResultPayload("xbox", { imported: 2, updated: 3, total: 6, errors: 1, gamertag: "sam", errors_sample: ["t1: failed"] });
+    expect(xbox).toMatchObject({ processed: 5, total: 6, gamertag: "sam", warning: "1 titles failed to sync", errors: ["t1: failed"] });
+
+    expect(syncJobResultPayload("steam", { total: 10, mapped: 8, portfolio_upserted: 7 })).toMatchObject({
+      total: 10,
+      mapped: 8,
+      portfolio_upserted: 7,
+      releases_created: 0,
+    });
+  });
+
+  it("treats a missing result as zeros", () => {
+    expect(syncJobResultPayload("ra", null)).toEqual({ ok: true, total: 0, skipped: 0, errors: undefined, imported: 0, username: null });
+  });
+});
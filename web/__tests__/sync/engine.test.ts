@@ -0,0 +1,131 @@
+/**
+ * Sync engine (lib/sync/engine.ts) and job runner timing (lib/sync/run-job.ts)
+ *
+ * - applyStepOutcome folds counters, errors, items and progress into the job and advances steps
+ * - A job that fails mid-step resumes from its last saved cursor: no item is processed twice
+ * - Run duration counts time since each claim, not time queued or in backoff
+ * - The connector registry is replaced by an in-memory connector; no network, no database
+ */
+
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/sync/connectors", () => ({ SYNC_CONNECTORS: {} }));
+
+import { CHUNK_SIZE, applyStepOutcome, connectorJobHandler, type SyncStepContext } from "@/lib/sync/engine";
+import { syncJobWorkedMs } from "@/lib/sync/run-job";
+import type { SyncJob } from "@/lib/sync/jobs";
+import type { PlatformConnector } from "@/lib/sync/connectors/types";
+
+function job(over: Partial<SyncJob> = {}): SyncJob {
+  const t = "2026-03-01T12:00:00.000Z";
+  return {
+    id: "job-1",
+    user_id: "user-1",
+    platform: "psn",
+    status: "running",
+    options: {},
+    step: "list",
+    cursor: {},
+    items: null,
+    progress: {},
+    result: null,
+    attempts: 0,
+    max_attempts: 5,
+    next_run_at: t,
+    locked_at: t,
+    locked_by: "test",
+    last_error: null,
+    run_id: null,
+    created_at: t,
+    updated_at: t,
+    finished_at: null,
+    ...over,
+  };
+}
+
+const steps = ["list", "titles", "finalize"] as const;
+const handler = { steps, run: async () => ({ done: true }) };
+
+describe("applyStepOutcome", () => {
+  it("adds counters, keeps meta, caps error samples and stays on the step until done", () => {
+    const j = job({ step: "titles", result: { imported: 2, errors_sample: ["a: failed"] } });
+    const out = applyStepOutcome(
+      j,
+      handler,
+      { done: false, cursor: { offset: 25 }, progress: { done: 25, total: 40 }, counts: { imported: 3, errors: 1 }, meta: { gamertag: "sam" }, errors: ["b: failed", "c: failed"] },
+      2
+    );
+    expect(out.finished).toBe(false);
+    expect(j.step).toBe("titles");
+    expect(j.cursor).toEqual({ offset: 25 });
+    expect(j.progress).toEqual({ titles: { done: 25, total: 40 } });
+    expect(j.result).toEqual({ imported: 5, errors: 1, gamertag: "sam", errors_sample: ["a: failed", "b: failed"] });
+  });
+
+  it("advances with a fresh cursor and finishes after the last step", () => {
+    const j = job({ step: "list", cursor: { offset: 3 } });
+    applyStepOutcome(j, handler, { done: true, items: { titles: [1, 2] } });
+    expect(j).toMatchObject({ step: "titles", cursor: {}, items: { titles: [1, 2] } });
+
+    j.step = "finalize";
+    expect(applyStepOutcome(j, handler, { done: true }).finished).toBe(true);
+  });
+});
+
+describe("resume after failure", () => {
+  it("picks a failed job up at its last saved cursor", async () => {
+    const keys = Array.from({ length: CHUNK_SIZE + 5 }, (_, i) => `k${i}`);
+    const fetched: string[] = [];
+    let authFails = false;
+
+    const connector: PlatformConnector<string, string> = {
+      platform: "psn",
+      label: "Test",
+      authenticate: async () => (authFails ? { ok: false, error: "upstream 503", status: 503 } : { ok: true, session: "s" }),
+      listTitles: async () => ({ ok: true, titles: keys }),
+      titleLabel: (t) => t,
+      mapToRelease: async () => null,
+      fetchProgress: async () => ({ imported: 1 }),
+      fetchAchievements: {
+        keys: (titles) => titles,
+        fetch: async (_ctx, _s, key) => {
+          fetched.push(key);
+          return { trophies: 1 };
+        },
+      },
+      finalize: async () => {},
+    };
+    const h = connectorJobHandler(connector);
+    const ctxFor = (j: SyncJob): SyncStepContext =>
+      ({ admin: null, userId: j.user_id, job: j, deadline: Number.POSITIVE_INFINITY, memo: new Map() }) as unknown as SyncStepContext;
+
+    // First invocation: one achievements chunk, then the state the runner saved.
+    const running = job({ step: "achievements", items: { titles: keys, keys, total: keys.length, watermark: null, watermark_next: null } });
+    applyStepOutcome(running, h, await h.run(running.step, ctxFor(running)));
+    const saved = structuredClone(running);
+    expect(saved.cursor).toEqual({ offset: CHUNK_SIZE });
+
+    // Second invocation: authentication throws (retryable), nothing is folded into the job.
+    authFails = true;
+    await expect(h.run(saved.step, ctxFor(saved))).rejects.toThrow("upstream 503");
+    expect(saved.cursor).toEqual({ offset: CHUNK_SIZE });
+
+    // Retry resumes at the saved offset and finishes the step.
+    authFails = false;
+    const retry = applyStepOutcome(saved, h, await h.run(saved.step, ctxFor(saved)));
+    expect(retry.finished).toBe(false);
+    expect(saved.step).toBe("finalize");
+    expect(fetched).toEqual(keys);
+    expect(saved.result).toMatchObject({ trophies: keys.length });
+    expect(saved.progress.achievements).toEqual({ done: keys.length, total: keys.length });
+  });
+});
+
+describe("syncJobWorkedMs", () => {
+  it("counts time since the claim plus earlier invocations, not time queued", () => {
+    const claimed = Date.parse("2026-03-01T12:10:00.000Z");
+    expect(syncJobWorkedMs({ result: null }, claimed, claimed + 4_000)).toBe(4_000);
+    expect(syncJobWorkedMs({ result: { worked_ms: 30_000 } }, claimed, claimed + 4_000)).toBe(34_000);
+    expect(syncJobWorkedMs({ result: null }, claimed, claimed - 1_000)).toBe(0);
+  });
+});
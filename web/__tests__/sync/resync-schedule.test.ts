@@ -0,0 +1,97 @@
+/**
+ * Automatic re-sync scheduler (lib/sync/schedule.ts)
+ *
+ * - Due schedules with no recent run are queued
+ * - Users whose last sync_runs row is within the interval are skipped
+ * - Consecutive errors back off exponentially (capped at 7 days)
+ * - Driven by a fake clock; no timers, no database
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  countConsecutiveErrors,
+  decideResync,
+  effectiveIntervalMs,
+  fakeClock,
+  MAX_BACKOFF_MS,
+} from "@/lib/sync/schedule";
+
+const HOUR = 60 * 60 * 1000;
+const T0 = "2026-03-01T12:00:00.000Z";
+
+function daily(nextDueAt: string) {
+  return { enabled: true, interval_hours: 24, next_due_at: nextDueAt };
+}
+
+function runAt(clockMs: number, hoursAgo: number, status: string) {
+  return { status, started_at: new Date(clockMs - hoursAgo * HOUR).toISOString() };
+}
+
+describe("resync schedule", () => {
+  it("queues a due schedule with no runs and pushes next_due_at one interval out", () => {
+    const clock = fakeClock(T0);
+    const d = decideResync({ now: clock.now(), schedule: daily(T0), recentRuns: [], hasActiveJob: false });
+
+    expect(d.action).toBe("enqueue");
+    expect(d.nextDueAt.getTime() - clock.now().getTime()).toBe(24 * HOUR);
+  });
+
+  it("skips users whose last run is recent, then queues once the interval has passed", () => {
+    const clock = fakeClock(T0);
+    const runs = [runAt(clock.now().getTime(), 3, "ok")];
+
+    const first = decideResync({ now: clock.now(), schedule: daily(T0), recentRuns: runs, hasActiveJob: false });
+    expect(first).toMatchObject({ action: "skip", reason: "recent_run" });
+    expect(first.nextDueAt.toISOString()).toBe(new Date(new Date(runs[0].started_at).getTime() + 24 * HOUR).toISOString());
+
+    clock.advance(21 * HOUR);
+    const second = decideResync({ now: clock.now(), schedule: daily(T0), recentRuns: runs, hasActiveJob: false });
+    expect(second.action).toBe("enqueue");
+  });
+
+  it("does not evaluate before next_due_at or while a job is active", () => {
+    const clock = fakeClock(T0);
+    const later = new Date(clock.now().getTime() + HOUR).toISOString();
+
+    expect(decideResync({ now: clock.now(), schedule: daily(later), recentRuns: [], hasActiveJob: false })).toMatchObject({
+      action: "skip",
+      reason: "not_due",
+    });
+    expect(decideResync({ now: clock.now(), schedule: daily(T0), recentRuns: [], hasActiveJob: true })).toMatchObject({
+      action: "skip",
+      reason: "active_job",
+    });
+    expect(
+      decideResync({ now: clock.now(), schedule: { ...daily(T0), enabled: false }, recentRuns: [], hasActiveJob: false })
+    ).toMatchObject({ action: "skip", reason: "disabled" });
+  });
+
+  it("backs off exponentially after consecutive errors", () => {
+    const clock = fakeClock(T0);
+    const nowMs = clock.now().getTime();
+    const runs = [runAt(nowMs, 30, "error"), runAt(nowMs, 60, "error"), runAt(nowMs, 100, "ok")];
+
+    expect(countConsecutiveErrors(runs)).toBe(2);
+
+    // 24h × 2² = 96h since the last (failed) run
+    const d = decideResync({ now: clock.now(), schedule: daily(T0), recentRuns: runs, hasActiveJob: false });
+    expect(d).toMatchObject({ action: "skip", reason: "backoff", consecutiveErrors: 2 });
+
+    clock.advance(66 * HOUR);
+    expect(decideResync({ now: clock.now(), schedule: daily(T0), recentRuns: runs, hasActiveJob: false }).action).toBe(
+      "enqueue"
+    );
+  });
+
+  it("caps backoff at seven days and ignores in-flight rows when counting errors", () => {
+    expect(effectiveIntervalMs(24, 10)).toBe(MAX_BACKOFF_MS);
+    expect(effectiveIntervalMs(168, 3)).toBe(168 * HOUR);
+    expect(
+      countConsecutiveErrors([
+        { status: "syncing", started_at: T0 },
+        { status: "error", started_at: T0 },
+        { status: "ok", started_at: T0 },
+      ])
+    ).toBe(1);
+  });
+});
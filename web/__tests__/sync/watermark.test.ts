@@ -0,0 +1,77 @@
+/**
+ * Delta sync watermark (lib/sync/watermark.ts)
+ *
+ * - Titles changed strictly after the mark are synced; at or before it they are skipped
+ * - full=true (or no mark yet) syncs everything
+ * - Titles without a timestamp are synced unless isKnown says we already have them (Steam never-played)
+ * - The mark advances to the newest timestamp seen, never backwards, and not after a run with errors
+ */
+
+import { describe, expect, it } from "vitest";
+import { maxIso, nextSyncWatermark, partitionByWatermark } from "@/lib/sync/watermark";
+
+type Title = { id: string; at: string | null };
+
+const MARK = "2026-03-01T12:00:00.000Z";
+const titles: Title[] = [
+  { id: "older", at: "2026-02-20T08:00:00.000Z" },
+  { id: "equal", at: MARK },
+  { id: "newer", at: "2026-03-02T09:30:00.000Z" },
+  { id: "never-played", at: null },
+];
+
+function partition(opts: { watermark: string | null; full?: boolean; isKnown?: (t: Title) => boolean }) {
+  const out = partitionByWatermark(titles, { full: false, changedAt: (t) => t.at, ...opts });
+  return { ...out, changed: out.changed.map((t) => t.id) };
+}
+
+describe("partitionByWatermark", () => {
+  it("skips titles at or before the mark", () => {
+    const out = partition({ watermark: MARK });
+    expect(out.changed).toEqual(["newer", "never-played"]);
+    expect(out.skipped).toBe(2);
+    expect(out.maxSeen).toBe("2026-03-02T09:30:00.000Z");
+  });
+
+  it("syncs everything with full=true or without a mark", () => {
+    expect(partition({ watermark: MARK, full: true }).changed).toEqual(["older", "equal", "newer", "never-played"]);
+    expect(partition({ watermark: null }).skipped).toBe(0);
+  });
+
+  it("skips untimestamped titles only when they are already known", () => {
+    expect(partition({ watermark: MARK, isKnown: (t) => t.id === "never-played" }).changed).toEqual(["newer"]);
+    expect(partition({ watermark: MARK, isKnown: () => false }).changed).toEqual(["newer", "never-played"]);
+    // Without a mark isKnown is never consulted: the first sync imports everything.
+    expect(partition({ watermark: null, isKnown: () => true }).changed).toHaveLength(4);
+  });
+
+  it("reports maxSeen across skipped titles too", () => {
+    const out = partitionByWatermark(titles.slice(0, 2), { watermark: MARK, full: false, changedAt: (t) => t.at });
+    expect(out.changed).toEqual([]);
+    expect(out.maxSeen).toBe(MARK);
+  });
+});
+
+describe("nextSyncWatermark", () => {
+  it("advances to the newest timestamp after a clean run", () => {
+    expect(nextSyncWatermark(MARK, "2026-03-02T09:30:00.000Z")).toBe("2026-03-02T09:30:00.000Z");
+    expect(nextSyncWatermark(null, MARK)).toBe(MARK);
+  });
+
+  it("leaves the mark when nothing is newer", () => {
+    expect(nextSyncWatermark(MARK, MARK)).toBeNull();
+    expect(nextSyncWatermark(MARK, "2026-02-20T08:00:00.000Z")).toBeNull();
+    expect(nextSyncWatermark(MARK, null)).toBeNull();
+    expect(nextSyncWatermark(null, null)).toBeNull();
+  });
+
+  it("does not advance after a run with per-title errors", () => {
+    expect(nextSyncWatermark(MARK, "2026-03-02T09:30:00.000Z", { errors: 1 })).toBeNull();
+    expect(nextSyncWatermark(MARK, "2026-03-02T09:30:00.000Z", { errors: 0 })).toBe("2026-03-02T09:30:00.000Z");
+  });
+
+  it("normalizes timestamps when comparing", () => {
+    expect(maxIso("2026-03-01T13:00:00+01:00", "bogus", null)).toBe(MARK);
+    expect(nextSyncWatermark(MARK, "2026-03-01T13:00:00+01:00")).toBeNull();
+  });
+});
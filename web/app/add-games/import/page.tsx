@@ -0,0 +1,402 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import { parseImportFile, type ParsedSheet } from "@/lib/import/csv";
+import { applyImportMapping, IMPORT_FIELDS, type ImportField, type ImportMapping } from "@/lib/import/mapping";
+import { detectImportPreset, expandSheet, getImportPreset, IMPORT_PRESETS, type ImportPresetKey } from "@/lib/import/presets";
+import {
+  commitLibraryImport,
+  fetchLibraryImports,
+  previewLibraryImport,
+  undoLibraryImport,
+  type ImportBatchSummary,
+  type ImportPreview,
+} from "@/src/core/api/library-import";
+
+type Step = "upload" | "map" | "preview" | "done";
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  title: "Title",
+  platform: "Platform",
+  status: "Status",
+  playtime: "Playtime",
+  first_played: "Started / first played",
+  last_played: "Finished / last played",
+};
+
+const MATCH_COLORS = {
+  matched: "#16a34a",
+  ambiguous: "#d97706",
+  miss: "#b91c1c",
+} as const;
+
+const box: React.CSSProperties = {
+  border: "1px solid #e5e7eb",
+  borderRadius: 14,
+  padding: 12,
+  background: "white",
+};
+
+const button: React.CSSProperties = {
+  padding: "8px 12px",
+  borderRadius: 12,
+  border: "1px solid #e5e7eb",
+  background: "white",
+  cursor: "pointer",
+  fontWeight: 800,
+};
+
+const select: React.CSSProperties = {
+  padding: "8px 10px",
+  borderRadius: 10,
+  border: "1px solid #e5e7eb",
+  background: "white",
+};
+
+function formatDate(iso: string | null) {
+  return iso ? new Date(iso).toLocaleDateString() : "—";
+}
+
+export default function ImportLibraryPage() {
+  const [step, setStep] = useState<Step>("upload");
+  const [err, setErr] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const [filename, setFilename] = useState<string | null>(null);
+  const [rawSheet, setRawSheet] = useState<ParsedSheet | null>(null);
+  const [presetKey, setPresetKey] = useState<ImportPresetKey>("generic");
+  const [mapping, setMapping] = useState<ImportMapping>({});
+
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  // row_index -> chosen release_id ("" = skip)
+  const [choice, setChoice] = useState<Record<number, string>>({});
+  const [filter, setFilter] = useState<"all" | "matched" | "ambiguous" | "miss">("all");
+
+  const [lastBatch, setLastBatch] = useState<ImportBatchSummary | null>(null);
+  const [batches, setBatches] = useState<ImportBatchSummary[]>([]);
+
+  const sheet = useMemo(
+    () => (rawSheet ? expandSheet(rawSheet, getImportPreset(presetKey)) : null),
+    [rawSheet, presetKey]
+  );
+  const mappedRows = useMemo(() => (sheet ? applyImportMapping(sheet.rows, mapping) : []), [sheet, mapping]);
+
+  function loadBatches() {
+    return fetchLibraryImports()
+      .then(setBatches)
+      .catch(() => {
+        // Not logged in or table missing; the wizard still works.
+      });
+  }
+
+  useEffect(() => {
+    loadBatches();
+  }, []);
+
+  async function onFile(file: File | null) {
+    if (!file) return;
+    setErr("");
+    try {
+      const parsed = parseImportFile(await file.text(), file.name);
+      if (!parsed.rows.length) throw new Error("No rows found in this file");
+      const preset = detectImportPreset(parsed.headers);
+      setFilename(file.name);
+      setRawSheet(parsed);
+      setPresetKey(preset.key);
+      setMapping(preset.mapping(expandSheet(parsed, preset).headers));
+      setPreview(null);
+      setStep("map");
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Could not read file");
+    }
+  }
+
+  function onPreset(key: ImportPresetKey) {
+    if (!rawSheet) return;
+    const preset = getImportPreset(key);
+    setPresetKey(key);
+    setMapping(preset.mapping(expandSheet(rawSheet, preset).headers));
+  }
+
+  async function runPreview() {
+    setErr("");
+    setBusy(true);
+    try {
+      const res = await previewLibraryImport(mappedRows);
+      const initial: Record<number, string> = {};
+      for (const r of res.rows) initial[r.row_index] = r.release_id ?? "";
+      setPreview(res);
+      setChoice(initial);
+      setFilter("all");
+      setStep("preview");
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Preview failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function pickFirstForAmbiguous() {
+    if (!preview) return;
+    setChoice((prev) => {
+      const next = { ...prev };
+      for (const r of preview.rows) {
+        if (r.match === "ambiguous" && !next[r.row_index] && r.candidates[0]) {
+          next[r.row_index] = r.candidates[0].release_id;
+        }
+      }
+      return next;
+    });
+  }
+
+  const commitRows = useMemo(() => {
+    if (!preview) return [];
+    return preview.rows
+      .filter((r) => choice[r.row_index])
+      .map((r) => ({
+        release_id: choice[r.row_index],
+        status: r.status,
+        playtime_minutes: r.playtime_minutes,
+        first_played_at: r.first_played_at,
+        last_played_at: r.last_played_at,
+      }));
+  }, [preview, choice]);
+
+  async function runCommit() {
+    setErr("");
+    setBusy(true);
+    try {
+      const res = await commitLibraryImport({ source: presetKey, filename, rows: commitRows });
+      setLastBatch(res.batch);
+      setStep("done");
+      loadBatches();
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Import failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function undo(batchId: string) {
+    if (!confirm("Undo this import? Games it added are removed and games it changed go back to how they were.")) return;
+    setErr("");
+    try {
+      const res = await undoLibraryImport(batchId);
+      if (lastBatch?.id === batchId) setLastBatch(res.batch);
+      loadBatches();
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Undo failed");
+    }
+  }
+
+  function reset() {
+    setStep("upload");
+    setRawSheet(null);
+    setFilename(null);
+    setPreview(null);
+    setChoice({});
+    setLastBatch(null);
+  }
+
+  const visibleRows = (preview?.rows ?? []).filter((r) => filter === "all" || r.match === filter);
+
+  return (
+    <div style={{ padding: 24, maxWidth: 980 }}>
+      <div style={{ display: "flex", alignItems: "baseline", gap: 12, marginBottom: 14 }}>
+        <h1 style={{ fontSize: 26, fontWeight: 900 }}>Import Library</h1>
+        <Link href="/add-games" style={{ color: "#64748b", fontSize: 13 }}>
+          ← Add games one by one
+        </Link>
+      </div>
+
+      <div style={{ color: "#64748b", fontSize: 14, marginBottom: 14 }}>
+        Bring your backlog over from Backloggd, HowLongToBeat, Grouvee or any spreadsheet (CSV or JSON). Nothing is
+        saved until you confirm the preview, and every import can be undone.
+      </div>
+
+      {err && <div style={{ color: "#b91c1c", marginBottom: 12 }}>{err}</div>}
+
+      {step === "upload" && (
+        <div style={box}>
+          <div style={{ fontWeight: 900, marginBottom: 8 }}>1. Choose your export</div>
+          <input type="file" accept=".csv,.tsv,.txt,.json" onChange={(e) => onFile(e.target.files?.[0] ?? null)} />
+        </div>
+      )}
+
+      {step === "map" && sheet && (
+        <div style={{ ...box, display: "grid", gap: 12 }}>
+          <div style={{ fontWeight: 900 }}>
+            2. Map columns <span style={{ color: "#64748b", fontWeight: 400 }}>— {filename}, {sheet.rows.length} rows</span>
+          </div>
+
+          <label style={{ display: "flex", gap: 10, alignItems: "center" }}>
+            <span style={{ width: 180 }}>Format</span>
+            <select value={presetKey} onChange={(e) => onPreset(e.target.value as ImportPresetKey)} style={select}>
+              {IMPORT_PRESETS.map((p) => (
+                <option key={p.key} value={p.key}>
+                  {p.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {IMPORT_FIELDS.map((field) => (
+            <label key={field} style={{ display: "flex", gap: 10, alignItems: "center" }}>
+              <span style={{ width: 180 }}>
+                {FIELD_LABELS[field]}
+                {field === "title" ? " *" : ""}
+              </span>
+              <select
+                value={mapping[field] ?? ""}
+                onChange={(e) => setMapping((prev) => ({ ...prev, [field]: e.target.value || undefined }))}
+                style={select}
+              >
+                <option value="">— not imported —</option>
+                {sheet.headers.map((h) => (
+                  <option key={h} value={h}>
+                    {h}
+                  </option>
+                ))}
+              </select>
+              {field === "playtime" && mapping.playtime ? (
+                <select
+                  value={mapping.playtime_unit ?? "hours"}
+                  onChange={(e) =>
+                    setMapping((prev) => ({ ...prev, playtime_unit: e.target.value as ImportMapping["playtime_unit"] }))
+                  }
+                  style={select}
+                >
+                  <option value="hours">hours</option>
+                  <option value="minutes">minutes</option>
+                  <option value="seconds">seconds</option>
+                </select>
+              ) : null}
+              {mapping[field] && sheet.rows[0] ? (
+                <span style={{ color: "#64748b", fontSize: 13 }}>e.g. {sheet.rows[0][mapping[field]!] || "—"}</span>
+              ) : null}
+            </label>
+          ))}
+
+          <div style={{ display: "flex", gap: 10, alignItems: "center" }}>
+            <button onClick={reset} style={button}>
+              Back
+            </button>
+            <button onClick={runPreview} disabled={!mapping.title || busy || mappedRows.length === 0} style={button}>
+              {busy ? "Matching…" : `Preview ${mappedRows.length} games`}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === "preview" && preview && (
+        <div style={{ display: "grid", gap: 12 }}>
+          <div style={{ ...box, display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+            <div style={{ fontWeight: 900 }}>3. Review</div>
+            {(["all", "matched", "ambiguous", "miss"] as const).map((f) => (
+              <button
+                key={f}
+                onClick={() => setFilter(f)}
+                style={{ ...button, background: filter === f ? "#f1f5f9" : "white" }}
+              >
+                {f === "all" ? `All ${preview.total}` : f === "matched" ? `Matched ${preview.matched}` : f === "ambiguous" ? `Ambiguous ${preview.ambiguous}` : `Not found ${preview.missed}`}
+              </button>
+            ))}
+            <button onClick={pickFirstForAmbiguous} disabled={preview.ambiguous === 0} style={button}>
+              Use best guess for ambiguous
+            </button>
+          </div>
+
+          <div style={{ display: "grid", gap: 8 }}>
+            {visibleRows.map((r) => (
+              <div key={r.row_index} style={{ ...box, display: "flex", gap: 12, alignItems: "center" }}>
+                <div style={{ width: 10, height: 10, borderRadius: 999, background: MATCH_COLORS[r.match], flexShrink: 0 }} />
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <div style={{ fontWeight: 800 }}>{r.title}</div>
+                  <div style={{ color: "#64748b", fontSize: 13 }}>
+                    {[r.platform, r.status_recognized ? r.status : `${r.status_raw} → ${r.status}`, r.playtime_minutes ? `${Math.round(r.playtime_minutes / 6) / 10}h` : null]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </div>
+                </div>
+                {r.match === "miss" ? (
+                  <div style={{ color: "#64748b", fontSize: 13 }}>No match — add it from Add Games</div>
+                ) : (
+                  <select
+                    value={choice[r.row_index] ?? ""}
+                    onChange={(e) => setChoice((prev) => ({ ...prev, [r.row_index]: e.target.value }))}
+                    style={{ ...select, maxWidth: 360 }}
+                  >
+                    <option value="">Skip</option>
+                    {r.candidates.map((c) => (
+                      <option key={c.release_id} value={c.release_id}>
+                        {c.display_title} ({c.platform_name ?? c.platform_key ?? "?"}){c.in_portfolio ? " · in library" : ""}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div style={{ display: "flex", gap: 10, alignItems: "center" }}>
+            <button onClick={() => setStep("map")} style={button}>
+              Back
+            </button>
+            <button onClick={runCommit} disabled={busy || commitRows.length === 0} style={button}>
+              {busy ? "Importing…" : `Import ${commitRows.length} games`}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === "done" && lastBatch && (
+        <div style={{ ...box, display: "grid", gap: 8 }}>
+          <div style={{ fontWeight: 900 }}>
+            {lastBatch.status === "undone" ? "Import undone" : "Import complete ✅"}
+          </div>
+          <div style={{ color: "#64748b", fontSize: 14 }}>
+            {lastBatch.created_count} added · {lastBatch.updated_count} updated · {lastBatch.skipped_count} unchanged
+          </div>
+          <div style={{ display: "flex", gap: 10 }}>
+            {lastBatch.status === "committed" && (
+              <button onClick={() => undo(lastBatch.id)} style={button}>
+                Undo this import
+              </button>
+            )}
+            <button onClick={reset} style={button}>
+              Import another file
+            </button>
+          </div>
+        </div>
+      )}
+
+      {batches.length > 0 && (
+        <div style={{ marginTop: 24 }}>
+          <div style={{ fontWeight: 900, marginBottom: 8 }}>Recent imports</div>
+          <div style={{ display: "grid", gap: 8 }}>
+            {batches.map((b) => (
+              <div key={b.id} style={{ ...box, display: "flex", gap: 12, alignItems: "center" }}>
+                <div style={{ flex: 1 }}>
+                  <div style={{ fontWeight: 800 }}>
+                    {getImportPreset(b.source).label}
+                    {b.filename ? ` · ${b.filename}` : ""}
+                  </div>
+                  <div style={{ color: "#64748b", fontSize: 13 }}>
+                    {formatDate(b.created_at)} · {b.created_count} added · {b.updated_count} updated
+                    {b.status === "undone" ? ` · undone ${formatDate(b.undone_at)}` : ""}
+                  </div>
+                </div>
+                {b.status === "committed" && (
+                  <button onClick={() => undo(b.id)} style={button}>
+                    Undo
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
 "use client";
 
+import Link from "next/link";
 import { useEffect, useMemo, useState } from "react";
+import { releaseHref } from "@/lib/routes";
+import { fetchCatalogSearch, type CatalogSearchItem } from "@/src/core/api";
 
 type IgdbPlatform = { name?: string; abbr?: string };
 type IgdbResult = {
@@ -18,6 +21,8 @@ type IgdbResult = {
 export default function AddGamesPage() {
   const [q, setQ] = useState("");
   const [results, setResults] = useState<IgdbResult[]>([]);
+  // fuzzy matches already in the catalog (typos / "ff7" still find them)
+  const [catalogHits, setCatalogHits] = useState<CatalogSearchItem[]>([]);
   const [loading, setLoading] = useState(false);
   const [err, setErr] = useState("");
 
@@ -31,11 +36,16 @@ export default function AddGamesPage() {
   useEffect(() => {
     if (!canSearch) {
       setResults([]);
+      setCatalogHits([]);
       setErr("");
       return;
     }
 
     const t = setTimeout(async () => {
+      fetchCatalogSearch({ q: q.trim(), limit: 6 })
+        .then((res) => setCatalogHits(res.items))
+        .catch(() => setCatalogHits([]));
+
       try {
         setLoading(true);
         setErr("");
@@ -117,7 +127,12 @@ export default function AddGamesPage() {
 
   return (
     <div style={{ padding: 24 }}>
-      <h1 style={{ fontSize: 26, fontWeight: 900, marginBottom: 14 }}>Add Games</h1>
+      <div style={{ display: "flex", alignItems: "baseline", gap: 12, marginBottom: 14 }}>
+        <h1 style={{ fontSize: 26, fontWeight: 900 }}>Add Games</h1>
+        <Link href="/add-games/import" style={{ color: "#64748b", fontSize: 13 }}>
+          Import from Backloggd, HowLongToBeat, Grouvee or a spreadsheet →
+        </Link>
+      </div>
 
       <div style={{ display: "flex", gap: 10, marginBottom: 14 }}>
         <input
@@ -133,6 +148,35 @@ export default function AddGamesPage() {
         />
       </div>
 
+      {catalogHits.length > 0 && (
+        <div style={{ marginBottom: 14 }}>
+          <div style={{ fontWeight: 900, marginBottom: 8 }}>Already in SaveState</div>
+          <div style={{ display: "flex", flexWrap: "wrap", gap: 8 }}>
+            {catalogHits.map((h) => (
+              <Link
+                key={h.release_id}
+                href={releaseHref(h.release_id)}
+                style={{
+                  padding: "8px 12px",
+                  borderRadius: 12,
+                  border: "1px solid #e5e7eb",
+                  background: "white",
+                  fontSize: 13,
+                  color: "#0f172a",
+                }}
+              >
+                <span style={{ fontWeight: 800 }}>{h.display_title}</span>
+                <span style={{ color: "#64748b" }}>
+                  {" "}
+                  • {h.platform_name ?? h.platform_key?.toUpperCase() ?? "—"}
+                  {h.year ? ` • ${h.year}` : ""}
+                </span>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
       {err && <div style={{ color: "#b91c1c", marginBottom: 12 }}>{err}</div>}
       {loading && <div style={{ color: "#6b7280", marginBottom: 12 }}>Searching…</div>}
 
@@ -3,79 +3,64 @@
 import * as React from "react";
 import Link from "next/link";
 import { releaseHref } from "@/lib/routes";
-
-type SearchItem = {
-  id?: string;
-  release_id?: string;
-  game_id?: string;
-  title?: string;
-  display_title?: string;
-  cover_url?: string | null;
-  platform_key?: string | null;
-  year?: number | null;
-  first_release_year?: number | null;
+import { fetchCatalogSearch, type CatalogSearchItem, type CatalogSearchResponse } from "@/src/core/api";
+
+const ERA_LABELS: Record<string, string> = {
+  early: "≤1985",
+  nes: "NES era",
+  snes: "SNES era",
+  ps1: "PS1 era",
+  ps2: "PS2 era",
+  ps3_360: "PS3/360 era",
+  wii: "Wii era",
+  modern: "Modern",
+  unknown: "Unknown year",
 };
 
-function normalizeResults(json: any): SearchItem[] {
-  if (!json) return [];
-  if (Array.isArray(json)) return json;
-  return (
-    json.results ??
-    json.releases ??
-    json.games ??
-    json.items ??
-    json.data ??
-    []
-  );
-}
-
-async function searchCatalog(q: string): Promise<SearchItem[]> {
-  const query = q.trim();
-  if (!query) return [];
-
-  // Try GET first
-  let res = await fetch(`/api/catalog/search?q=${encodeURIComponent(query)}`, {
-    method: "GET",
-  });
-
-  if (res.ok) {
-    const json = await res.json();
-    return normalizeResults(json);
-  }
-
-  // Fallback to POST
-  res = await fetch(`/api/catalog/search`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ q: query }),
-  });
-
-  if (!res.ok) return [];
-  const json = await res.json();
-  return normalizeResults(json);
+function chipClass(active: boolean) {
+  return `rounded-full border px-3 py-1 text-xs ${active ? "bg-foreground text-background" : "hover:bg-muted"}`;
 }
 
 export default function AddGamePageClient({ initialQuery }: { initialQuery: string }) {
   const [q, setQ] = React.useState(initialQuery ?? "");
+  const [platform, setPlatform] = React.useState<string | null>(null);
+  const [era, setEra] = React.useState<string | null>(null);
+  const [year, setYear] = React.useState("");
   const [loading, setLoading] = React.useState(false);
-  const [items, setItems] = React.useState<SearchItem[]>([]);
+  const [loadingMore, setLoadingMore] = React.useState(false);
+  const [page, setPage] = React.useState<CatalogSearchResponse | null>(null);
+  const [items, setItems] = React.useState<CatalogSearchItem[]>([]);
   const [err, setErr] = React.useState<string | null>(null);
 
+  const yearNum = /^\d{4}$/.test(year.trim()) ? Number(year.trim()) : null;
+  const params = React.useMemo(
+    () => ({
+      q: q.trim(),
+      platform: platform ? [platform] : [],
+      era,
+      year_min: yearNum,
+      year_max: yearNum,
+      limit: 25,
+    }),
+    [q, platform, era, yearNum]
+  );
+
   React.useEffect(() => {
     let alive = true;
     const t = setTimeout(async () => {
-      const query = q.trim();
-      if (!query) {
+      if (!params.q) {
         setItems([]);
+        setPage(null);
         setErr(null);
         return;
       }
       setLoading(true);
       setErr(null);
       try {
-        const results = await searchCatalog(query);
+        const res = await fetchCatalogSearch(params);
         if (!alive) return;
-        setItems(results);
+        setPage(res);
+        setItems(res.items);
       } catch (e: any) {
         if (!alive) return;
         setErr(e?.message ?? "Search failed");
@@ -88,7 +73,23 @@ export default function AddGamePageClient({ initialQuery }: { initialQuery: stri
       alive = false;
       clearTimeout(t);
     };
-  }, [q]);
+  }, [params]);
+
+  async function loadMore() {
+    if (!page?.next_cursor) return;
+    setLoadingMore(true);
+    try {
+      const res = await fetchCatalogSearch({ ...params, cursor: page.next_cursor });
+      setPage(res);
+      setItems((prev) => prev.concat(res.items));
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Search failed");
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  const facets = page?.facets ?? { platforms: [], eras: [] };
 
   return (
     <div className="mx-auto max-w-5xl px-4 py-6">
@@ -117,19 +118,57 @@ export default function AddGamePageClient({ initialQuery }: { initialQuery: stri
         />
         <div className="mt-2 flex items-center justify-between text-xs text-muted-foreground">
           <div>
-            {loading ? "Searching…" : err ? `Error: ${err}` : items.length ? `${items.length} results` : " "}
+            {loading ? "Searching…" : err ? `Error: ${err}` : page?.total ? `${page.total} results` : " "}
           </div>
-          <div className="opacity-70">Tip: paste a full title, then refine</div>
+          <div className="opacity-70">Typos and short forms work too (e.g., ff7, mgs3)</div>
         </div>
       </div>
 
+      {page && (facets.platforms.length > 0 || facets.eras.length > 0 || platform || era || year) ? (
+        <div className="mt-3 space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs text-muted-foreground">Platform</span>
+            {facets.platforms.slice(0, 12).map((f) => (
+              <button
+                key={f.key}
+                type="button"
+                className={chipClass(platform === f.key)}
+                onClick={() => setPlatform(platform === f.key ? null : f.key)}
+              >
+                {f.key.toUpperCase()} · {f.count}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs text-muted-foreground">Era</span>
+            {facets.eras.map((f) => (
+              <button
+                key={f.key}
+                type="button"
+                className={chipClass(era === f.key)}
+                onClick={() => setEra(era === f.key ? null : f.key)}
+              >
+                {ERA_LABELS[f.key] ?? f.key} · {f.count}
+              </button>
+            ))}
+            <input
+              value={year}
+              onChange={(e) => setYear(e.target.value)}
+              placeholder="Year"
+              inputMode="numeric"
+              className="w-20 rounded-full border px-3 py-1 text-xs outline-none"
+            />
+          </div>
+        </div>
+      ) : null}
+
       <div className="mt-4 grid gap-3">
         {items.map((it, idx) => {
           const id = it.release_id ?? it.id ?? `${idx}`;
           const rid = it.release_id ?? it.id;
           const title = it.display_title ?? it.title ?? "Untitled";
-          const year = it.year ?? it.first_release_year ?? null;
-          const platform = it.platform_key ?? null;
+          const itemYear = it.year ?? it.first_release_year ?? null;
+          const itemPlatform = it.platform_name ?? it.platform_key?.toUpperCase() ?? null;
           const cover = it.cover_url ?? null;
 
           return (
@@ -144,8 +183,8 @@ export default function AddGamePageClient({ initialQuery }: { initialQuery: stri
               <div className="min-w-0 flex-1">
                 <div className="truncate font-medium">{title}</div>
                 <div className="mt-1 text-xs text-muted-foreground">
-                  {platform ? platform.toUpperCase() : "—"}
-                  {year ? ` • ${year}` : ""}
+                  {itemPlatform ?? "—"}
+                  {itemYear ? ` • ${itemYear}` : ""}
                 </div>
               </div>
 
@@ -166,9 +205,22 @@ export default function AddGamePageClient({ initialQuery }: { initialQuery: stri
         })}
       </div>
 
+      {page?.has_more ? (
+        <div className="mt-4 flex justify-center">
+          <button
+            type="button"
+            onClick={loadMore}
+            disabled={loadingMore}
+            className="rounded-xl border px-4 py-2 text-sm hover:bg-muted disabled:opacity-50"
+          >
+            {loadingMore ? "Loading…" : "Load more"}
+          </button>
+        </div>
+      ) : null}
+
       {!loading && q.trim() && items.length === 0 && !err ? (
         <div className="mt-10 rounded-2xl border p-6 text-sm text-muted-foreground">
-          No results. Try a shorter query (drop punctuation / subtitles), or search by a franchise name.
+          No results. Try clearing filters, a shorter query, or search by a franchise name.
         </div>
       ) : null}
     </div>
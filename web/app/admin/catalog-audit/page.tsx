@@ -0,0 +1,277 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  CATALOG_AUDIT_ACTIONS,
+  type CatalogAuditAction,
+  type CatalogAuditEntry,
+  type CatalogAuditSummary,
+} from "@/lib/catalog/audit";
+
+function fmtTime(iso: string | null) {
+  return iso ? new Date(iso).toLocaleString() : "—";
+}
+
+function statusClass(status: string) {
+  if (status === "applied") return "text-[var(--color-text)]";
+  if (status === "reverted") return "text-[var(--color-text-muted)] line-through";
+  if (status === "failed") return "text-[var(--color-error)]";
+  return "text-[var(--color-text-muted)]";
+}
+
+export default function AdminCatalogAuditPage() {
+  const [action, setAction] = useState<CatalogAuditAction | "">("");
+  const [userId, setUserId] = useState("");
+  const [targetId, setTargetId] = useState("");
+  const [filters, setFilters] = useState({ user_id: "", target_id: "" });
+
+  const [items, setItems] = useState<CatalogAuditSummary[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<CatalogAuditEntry | null>(null);
+  const [acting, setActing] = useState<string | null>(null);
+
+  const fetchPage = useCallback(
+    async (after: string | null) => {
+      const qs = new URLSearchParams();
+      if (action) qs.set("action", action);
+      if (filters.user_id) qs.set("user_id", filters.user_id);
+      if (filters.target_id) qs.set("target_id", filters.target_id);
+      if (after) qs.set("cursor", after);
+      const res = await fetch(`/api/admin/catalog-audit?${qs.toString()}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || res.statusText);
+      return {
+        items: Array.isArray(data?.items) ? (data.items as CatalogAuditSummary[]) : [],
+        next_cursor: (data?.next_cursor as string | null) ?? null,
+      };
+    },
+    [action, filters]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchPage(null)
+      .then((page) => {
+        if (cancelled) return;
+        setItems(page.items);
+        setCursor(page.next_cursor);
+        setError("");
+      })
+      .catch((e) => {
+        if (cancelled) return;
+        setError(e instanceof Error ? e.message : "Failed to load");
+        setItems([]);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchPage]);
+
+  async function loadMore() {
+    if (!cursor) return;
+    setLoading(true);
+    try {
+      const page = await fetchPage(cursor);
+      setItems((prev) => [...prev, ...page.items]);
+      setCursor(page.next_cursor);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function toggle(id: string) {
+    if (openId === id) {
+      setOpenId(null);
+      setDetail(null);
+      return;
+    }
+    setOpenId(id);
+    setDetail(null);
+    try {
+      const res = await fetch(`/api/admin/catalog-audit/${id}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || res.statusText);
+      setDetail(data.entry as CatalogAuditEntry);
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Failed to load entry");
+      setOpenId(null);
+    }
+  }
+
+  async function revert(entry: CatalogAuditSummary) {
+    const what =
+      entry.action === "release_merge" || entry.action === "game_merge"
+        ? `restore ${entry.subject_ids.length} merged ${entry.target_type}(s) and re-point ${entry.affected_count} row(s)`
+        : "write the previous values back";
+    if (!confirm(`Revert this ${entry.action.replace(/_/g, " ")}? This will ${what}.`)) return;
+
+    setActing(entry.id);
+    try {
+      const res = await fetch(`/api/admin/catalog-audit/${entry.id}/revert`, { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || res.statusText);
+      const failures = Array.isArray(data?.result?.failures) ? data.result.failures.length : 0;
+      if (failures) alert(`Reverted with ${failures} row failure(s); see the entry's revert result.`);
+      setItems((prev) =>
+        prev.map((x) =>
+          x.id === entry.id
+            ? { ...x, status: "reverted", reverted_at: new Date().toISOString(), revert_result: data.result }
+            : x
+        )
+      );
+      if (openId === entry.id) setOpenId(null);
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Revert failed");
+    } finally {
+      setActing(null);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-[var(--color-background)] text-[var(--color-text)] p-4 md:p-6">
+      <div className="max-w-5xl mx-auto">
+        <div className="flex items-center gap-4 mb-6">
+          <Link href="/gamehome" className="text-[var(--color-text-muted)] hover:text-[var(--color-text)]">
+            ← Back
+          </Link>
+          <h1 className="text-xl font-semibold">Catalog audit log</h1>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-3">
+          {(["", ...CATALOG_AUDIT_ACTIONS] as const).map((a) => (
+            <button
+              key={a || "all"}
+              onClick={() => {
+                if (a === action) return;
+                setLoading(true);
+                setAction(a);
+              }}
+              className={`px-3 py-1.5 rounded text-sm ${
+                action === a
+                  ? "bg-[var(--color-interactive)] text-white"
+                  : "bg-[var(--color-surface)] border border-[var(--color-border)]"
+              }`}
+            >
+              {a ? a.replace(/_/g, " ") : "all"}
+            </button>
+          ))}
+        </div>
+
+        <form
+          className="flex flex-wrap gap-2 mb-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setLoading(true);
+            setFilters({ user_id: userId.trim(), target_id: targetId.trim() });
+          }}
+        >
+          <input
+            value={userId}
+            onChange={(e) => setUserId(e.target.value)}
+            placeholder="User id"
+            className="px-2 py-1.5 rounded text-sm w-72 bg-[var(--color-surface)] border border-[var(--color-border)]"
+          />
+          <input
+            value={targetId}
+            onChange={(e) => setTargetId(e.target.value)}
+            placeholder="Release or game id"
+            className="px-2 py-1.5 rounded text-sm w-72 bg-[var(--color-surface)] border border-[var(--color-border)]"
+          />
+          <button type="submit" className="px-3 py-1.5 rounded text-sm bg-[var(--color-surface)] border border-[var(--color-border)]">
+            Filter
+          </button>
+        </form>
+
+        {error && <p className="text-[var(--color-error)] mb-3">{error}</p>}
+        {!loading && !error && items.length === 0 && (
+          <p className="text-[var(--color-text-muted)]">No audit entries.</p>
+        )}
+
+        <ul className="space-y-3">
+          {items.map((it) => {
+            const busy = acting === it.id;
+            return (
+              <li key={it.id} className="border border-[var(--color-border)] rounded-lg p-4 bg-[var(--color-surface)]">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <p className="font-medium">
+                      {it.action.replace(/_/g, " ")}{" "}
+                      <span className={`text-sm ${statusClass(it.status)}`}>{it.status}</span>
+                    </p>
+                    <p className="text-sm text-[var(--color-text-muted)]">
+                      {fmtTime(it.created_at)} · {it.actor_kind}
+                      {it.actor_label ? ` · ${it.actor_label}` : ""} · {it.target_type} {it.target_id ?? "—"}
+                      {it.subject_ids.length ? ` ← ${it.subject_ids.join(", ")}` : ""}
+                    </p>
+                    <p className="text-sm text-[var(--color-text-muted)]">
+                      {it.affected_count} row(s) · {it.affected_user_ids.length} user(s)
+                      {it.reverted_at ? ` · reverted ${fmtTime(it.reverted_at)}` : ""}
+                    </p>
+                    {it.error && <p className="text-sm text-[var(--color-error)]">{it.error}</p>}
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => toggle(it.id)}
+                      className="px-3 py-1.5 rounded text-sm bg-[var(--color-background)] border border-[var(--color-border)]"
+                    >
+                      {openId === it.id ? "Hide" : "Details"}
+                    </button>
+                    {it.status === "applied" && (
+                      <button
+                        type="button"
+                        onClick={() => revert(it)}
+                        disabled={busy}
+                        className="px-3 py-1.5 rounded text-sm bg-[var(--color-error)]/10 text-[var(--color-error)] hover:bg-[var(--color-error)]/20 disabled:opacity-50"
+                      >
+                        {busy ? "Reverting…" : "Revert"}
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {openId === it.id && (
+                  <div className="mt-3 grid gap-2">
+                    {!detail && <p className="text-sm text-[var(--color-text-muted)]">Loading…</p>}
+                    {detail &&
+                      (["before", "after", "affected", "revert_result"] as const).map((k) =>
+                        detail[k] == null ? null : (
+                          <details key={k} className="text-sm">
+                            <summary className="cursor-pointer text-[var(--color-text-muted)]">{k.replace(/_/g, " ")}</summary>
+                            <pre className="mt-1 p-2 rounded bg-[var(--color-background)] overflow-auto max-h-80 text-xs">
+                              {JSON.stringify(detail[k], null, 2)}
+                            </pre>
+                          </details>
+                        )
+                      )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        {loading && <p className="text-[var(--color-text-muted)] mt-3">Loading…</p>}
+        {!loading && cursor && (
+          <button
+            type="button"
+            onClick={loadMore}
+            className="mt-4 px-3 py-1.5 rounded text-sm bg-[var(--color-surface)] border border-[var(--color-border)]"
+          >
+            Load more
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
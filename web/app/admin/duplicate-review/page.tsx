@@ -0,0 +1,302 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import type { DuplicateKind, DuplicateQueueItem, DuplicateSide } from "@/lib/catalog/duplicates";
+
+function pct(n: number | null | undefined) {
+  return n == null ? "—" : `${(Number(n) * 100).toFixed(0)}%`;
+}
+
+function Badge({ tone, children }: { tone: "ok" | "bad" | "muted"; children: React.ReactNode }) {
+  const cls =
+    tone === "ok"
+      ? "bg-green-500/10 text-green-600"
+      : tone === "bad"
+        ? "bg-[var(--color-error)]/10 text-[var(--color-error)]"
+        : "bg-[var(--color-background)] text-[var(--color-text-muted)]";
+  return <span className={`px-1.5 py-0.5 rounded text-xs ${cls}`}>{children}</span>;
+}
+
+function SideCard({
+  side,
+  fallbackTitle,
+  kind,
+  selected,
+  onSelect,
+}: {
+  side: DuplicateSide | null;
+  fallbackTitle: string;
+  kind: DuplicateKind;
+  selected: boolean;
+  onSelect: () => void;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onSelect}
+      disabled={!side}
+      className={`flex gap-3 flex-1 min-w-0 rounded-lg border p-2 text-left bg-[var(--color-background)] disabled:opacity-50 ${
+        selected ? "border-[var(--color-interactive)]" : "border-[var(--color-border)]"
+      }`}
+    >
+      <div className="w-12 h-16 shrink-0 rounded overflow-hidden bg-[var(--color-surface)]">
+        {side?.cover_url && <img src={side.cover_url} alt="" className="w-full h-full object-cover" />}
+      </div>
+      <div className="min-w-0">
+        <p className="text-sm font-medium truncate">{side?.title ?? fallbackTitle}</p>
+        <p className="text-xs text-[var(--color-text-muted)] truncate">
+          {side ? (
+            <>
+              {kind === "release" ? (
+                <Link href={`/release/${side.id}`} className="hover:underline" onClick={(e) => e.stopPropagation()}>
+                  {side.platform_key ?? "release"}
+                </Link>
+              ) : (
+                "game"
+              )}
+              {side.igdb_game_id != null ? ` · IGDB ${side.igdb_game_id}` : " · no IGDB"}
+            </>
+          ) : (
+            "deleted since detection"
+          )}
+        </p>
+        {selected && <p className="text-xs text-[var(--color-interactive)]">keep</p>}
+      </div>
+    </button>
+  );
+}
+
+function PairRow({
+  item,
+  busy,
+  onMerge,
+  onDismiss,
+}: {
+  item: DuplicateQueueItem;
+  busy: boolean;
+  onMerge: (winnerId: string) => void;
+  onDismiss: () => void;
+}) {
+  const [winner, setWinner] = useState(item.suggested_winner_id ?? item.a?.id ?? "");
+  const s = item.signals;
+  const impact = item.impact;
+
+  return (
+    <div className="border border-[var(--color-border)] rounded-lg p-4 bg-[var(--color-surface)]">
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <span className="font-semibold">{pct(item.score)}</span>
+        <Badge tone="muted">{item.kind}</Badge>
+        {s.same_game && <Badge tone="ok">same game</Badge>}
+        {s.same_igdb && <Badge tone="ok">same IGDB id</Badge>}
+        {s.shared_external_ids.length > 0 && <Badge tone="ok">shared {s.shared_external_ids.join(", ")}</Badge>}
+        {s.conflicting_sources.length > 0 && <Badge tone="bad">different {s.conflicting_sources.join(", ")} ids</Badge>}
+        <Badge tone={s.title_similarity >= 0.8 ? "ok" : "bad"}>title {pct(s.title_similarity)}</Badge>
+        {s.merge_error && <Badge tone="bad">auto-merge failed: {s.merge_error}</Badge>}
+        {s.review_tables?.length ? <Badge tone="muted">held for review: {s.review_tables.join(", ")}</Badge> : null}
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-3 mb-3">
+        <SideCard
+          side={item.a}
+          fallbackTitle={s.titles[0]}
+          kind={item.kind}
+          selected={!!item.a && winner === item.a.id}
+          onSelect={() => item.a && setWinner(item.a.id)}
+        />
+        <SideCard
+          side={item.b}
+          fallbackTitle={s.titles[1]}
+          kind={item.kind}
+          selected={!!item.b && winner === item.b.id}
+          onSelect={() => item.b && setWinner(item.b.id)}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-[var(--color-text-muted)]">
+          {impact.user_count === 0
+            ? "No user libraries touched"
+            : `Touches ${impact.user_count} user${impact.user_count === 1 ? "" : "s"}`}
+          {impact.collisions > 0 ? ` · ${impact.collisions} own both (loser rows dropped)` : ""}
+        </p>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={onDismiss}
+            disabled={busy}
+            className="px-3 py-1.5 rounded text-sm bg-[var(--color-background)] border border-[var(--color-border)] disabled:opacity-50"
+          >
+            Not duplicates
+          </button>
+          <button
+            type="button"
+            onClick={() => onMerge(winner)}
+            disabled={busy || !item.a || !item.b || !winner}
+            className="px-3 py-1.5 rounded text-sm bg-[var(--color-interactive)] text-white disabled:opacity-50"
+          >
+            Merge into selected
+          </button>
+        </div>
+      </div>
+
+      {impact.users.length > 0 && (
+        <details className="mt-2 text-xs text-[var(--color-text-muted)]">
+          <summary className="cursor-pointer">Affected users</summary>
+          <ul className="mt-1 space-y-0.5 font-mono">
+            {impact.users.map((u) => (
+              <li key={u.user_id}>
+                {u.user_id} · A: {u.a.join(", ") || "—"} · B: {u.b.join(", ") || "—"}
+              </li>
+            ))}
+            {impact.user_count > impact.users.length && <li>… and {impact.user_count - impact.users.length} more</li>}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+}
+
+export default function AdminDuplicateReviewPage() {
+  const [kind, setKind] = useState<"" | DuplicateKind>("");
+  const [items, setItems] = useState<DuplicateQueueItem[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [decided, setDecided] = useState(0);
+
+  const fetchPage = useCallback(
+    async (after: string | null) => {
+      const qs = new URLSearchParams({ limit: "25" });
+      if (kind) qs.set("kind", kind);
+      if (after) qs.set("cursor", after);
+      const res = await fetch(`/api/admin/duplicate-review?${qs.toString()}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || res.statusText);
+      return {
+        items: Array.isArray(data?.items) ? (data.items as DuplicateQueueItem[]) : [],
+        next_cursor: (data?.next_cursor as string | null) ?? null,
+      };
+    },
+    [kind]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchPage(null)
+      .then((page) => {
+        if (cancelled) return;
+        setItems(page.items);
+        setCursor(page.next_cursor);
+        setError("");
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Failed to load");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchPage]);
+
+  async function loadMore() {
+    if (!cursor) return;
+    setLoading(true);
+    try {
+      const page = await fetchPage(cursor);
+      setItems((prev) => [...prev, ...page.items]);
+      setCursor(page.next_cursor);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function decide(item: DuplicateQueueItem, action: "merge" | "dismiss", winnerId?: string) {
+    if (busyId) return;
+    setBusyId(item.id);
+    try {
+      const res = await fetch(`/api/admin/duplicate-review/${item.id}/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: action === "merge" ? JSON.stringify({ winner_id: winnerId }) : undefined,
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || res.statusText);
+      setDecided((n) => n + 1);
+      setItems((prev) => prev.filter((i) => i.id !== item.id));
+    } catch (e) {
+      alert(e instanceof Error ? e.message : `${action} failed`);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-[var(--color-background)] text-[var(--color-text)] p-4 md:p-6">
+      <div className="max-w-5xl mx-auto">
+        <div className="flex items-center gap-4 mb-6">
+          <Link href="/admin/matches" className="text-[var(--color-text-muted)] hover:text-[var(--color-text)]">
+            ← Matches
+          </Link>
+          <h1 className="text-xl font-semibold">Duplicate review</h1>
+          <span className="text-sm text-[var(--color-text-muted)]">{decided} decided this session</span>
+          <Link
+            href="/admin/catalog-audit"
+            className="ml-auto text-sm text-[var(--color-text-muted)] hover:text-[var(--color-text)]"
+          >
+            Catalog audit →
+          </Link>
+        </div>
+
+        <div className="flex items-center gap-3 mb-4">
+          <select
+            value={kind}
+            onChange={(e) => {
+              setLoading(true);
+              setKind(e.target.value as "" | DuplicateKind);
+            }}
+            className="px-2 py-1.5 rounded text-sm bg-[var(--color-surface)] border border-[var(--color-border)]"
+          >
+            <option value="">Games and releases</option>
+            <option value="release">Releases</option>
+            <option value="game">Games</option>
+          </select>
+          <span className="text-xs text-[var(--color-text-muted)]">
+            Safe pairs are merged by the nightly detector; merges here are logged and revertable.
+          </span>
+        </div>
+
+        {error && <p className="text-[var(--color-error)]">{error}</p>}
+        {!loading && !error && items.length === 0 && <p className="text-[var(--color-text-muted)]">Queue is empty.</p>}
+
+        <div className="space-y-3">
+          {items.map((item) => (
+            <PairRow
+              key={item.id}
+              item={item}
+              busy={busyId === item.id}
+              onMerge={(winnerId) => decide(item, "merge", winnerId)}
+              onDismiss={() => decide(item, "dismiss")}
+            />
+          ))}
+        </div>
+
+        {loading && <p className="mt-4 text-[var(--color-text-muted)]">Loading…</p>}
+        {!loading && cursor && (
+          <button
+            type="button"
+            onClick={loadMore}
+            className="mt-4 px-3 py-1.5 rounded text-sm bg-[var(--color-surface)] border border-[var(--color-border)]"
+          >
+            Load more
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
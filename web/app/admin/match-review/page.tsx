@@ -0,0 +1,446 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import type { ReviewCandidate } from "@/lib/igdb/match-validation";
+import type { BulkApproveResult, MatchReviewItem } from "@/lib/igdb/match-review";
+
+function normalizeCover(url: string | null): string {
+  if (!url) return "";
+  const u = url.startsWith("//") ? `https:${url}` : url;
+  return u.replace("t_thumb", "t_cover_big");
+}
+
+function pct(n: number | null | undefined) {
+  return n == null ? "—" : `${(Number(n) * 100).toFixed(0)}%`;
+}
+
+const CATEGORY_LABELS: Record<number, string> = {
+  0: "main game",
+  1: "DLC",
+  2: "expansion",
+  3: "bundle",
+  4: "standalone expansion",
+  8: "remake",
+  9: "remaster",
+  10: "expanded game",
+  11: "port",
+};
+
+function Badge({ tone, children }: { tone: "ok" | "bad" | "muted"; children: React.ReactNode }) {
+  const cls =
+    tone === "ok"
+      ? "bg-green-500/10 text-green-600"
+      : tone === "bad"
+        ? "bg-[var(--color-error)]/10 text-[var(--color-error)]"
+        : "bg-[var(--color-background)] text-[var(--color-text-muted)]";
+  return <span className={`px-1.5 py-0.5 rounded text-xs ${cls}`}>{children}</span>;
+}
+
+function CandidateCard({
+  c,
+  index,
+  best,
+  busy,
+  onPick,
+}: {
+  c: ReviewCandidate;
+  index: number;
+  best: boolean;
+  busy: boolean;
+  onPick: () => void;
+}) {
+  const overlap = c.reasons?.token_overlap;
+  return (
+    <button
+      type="button"
+      onClick={onPick}
+      disabled={busy}
+      className={`flex flex-col w-44 rounded-lg border bg-[var(--color-background)] hover:border-[var(--color-interactive)] hover:bg-[var(--color-surface-hover)] disabled:opacity-50 text-left transition-colors ${
+        best ? "border-[var(--color-interactive)]" : "border-[var(--color-border)]"
+      }`}
+    >
+      <div className="relative w-full aspect-[3/4] rounded-t-lg overflow-hidden bg-[var(--color-surface)]">
+        {c.cover_url ? (
+          <img src={normalizeCover(c.cover_url)} alt="" className="w-full h-full object-cover" />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center text-[var(--color-text-muted)] text-xs">No cover</div>
+        )}
+        {index < 9 && (
+          <span className="absolute top-1 left-1 px-1.5 rounded bg-black/70 text-white text-xs font-mono">{index + 1}</span>
+        )}
+      </div>
+      <div className="p-2 w-full space-y-1">
+        <p className="text-sm font-medium truncate" title={c.title}>
+          {c.title}
+        </p>
+        <p className="text-xs text-[var(--color-text-muted)]">
+          {c.first_release_year ?? "—"} · IGDB {c.igdb_game_id}
+        </p>
+        {c.platforms.length > 0 && (
+          <p className="text-xs text-[var(--color-text-muted)] truncate" title={c.platforms.join(", ")}>
+            {c.platforms.join(", ")}
+          </p>
+        )}
+        <p className="text-xs">
+          <span className="font-semibold">{pct(c.confidence)}</span>
+          <span className="text-[var(--color-text-muted)]"> confidence</span>
+        </p>
+        {overlap != null && (
+          <div title={`Token overlap ${pct(overlap)}`}>
+            <div className="h-1.5 rounded bg-[var(--color-surface)] overflow-hidden">
+              <div className="h-full bg-[var(--color-interactive)]" style={{ width: `${Math.round(overlap * 100)}%` }} />
+            </div>
+            <p className="text-[10px] text-[var(--color-text-muted)]">token overlap {pct(overlap)}</p>
+          </div>
+        )}
+        <div className="flex flex-wrap gap-1">
+          {c.reasons?.year_match && <Badge tone="ok">year match</Badge>}
+          {c.reasons?.bundle_mismatch && <Badge tone="bad">bundle mismatch</Badge>}
+          {c.reasons?.category_guardrail && <Badge tone="bad">not a main game</Badge>}
+          {c.category != null && <Badge tone="muted">{CATEGORY_LABELS[c.category] ?? `category ${c.category}`}</Badge>}
+        </div>
+      </div>
+    </button>
+  );
+}
+
+export default function AdminMatchReviewPage() {
+  const [source, setSource] = useState("");
+  const [items, setItems] = useState<MatchReviewItem[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [index, setIndex] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [acting, setActing] = useState(false);
+  const [decided, setDecided] = useState(0);
+
+  const [threshold, setThreshold] = useState(0.85);
+  const [includeFlagged, setIncludeFlagged] = useState(false);
+  const [bulk, setBulk] = useState<BulkApproveResult | null>(null);
+  const [bulkBusy, setBulkBusy] = useState(false);
+
+  const fetchPage = useCallback(
+    async (after: string | null) => {
+      const qs = new URLSearchParams({ limit: "25" });
+      if (source) qs.set("source", source);
+      if (after) qs.set("cursor", after);
+      const res = await fetch(`/api/admin/match-review?${qs.toString()}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || res.statusText);
+      return {
+        items: Array.isArray(data?.items) ? (data.items as MatchReviewItem[]) : [],
+        next_cursor: (data?.next_cursor as string | null) ?? null,
+      };
+    },
+    [source]
+  );
+
+  const reload = useCallback(() => {
+    return fetchPage(null).then((page) => {
+      setItems(page.items);
+      setCursor(page.next_cursor);
+      setIndex(0);
+      setError("");
+    });
+  }, [fetchPage]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchPage(null)
+      .then((page) => {
+        if (cancelled) return;
+        setItems(page.items);
+        setCursor(page.next_cursor);
+        setIndex(0);
+        setError("");
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Failed to load");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchPage]);
+
+  const current = items[index] ?? null;
+
+  /** Move past the current item; fetch the next page when we run out. */
+  const advance = useCallback(
+    async (removeCurrent: boolean) => {
+      const nextItems = removeCurrent ? items.filter((_, i) => i !== index) : items;
+      const nextIndex = removeCurrent ? index : index + 1;
+      if (nextIndex < nextItems.length || !cursor) {
+        setItems(nextItems);
+        setIndex(Math.min(nextIndex, nextItems.length));
+        return;
+      }
+      setLoading(true);
+      try {
+        const page = await fetchPage(cursor);
+        setItems([...nextItems, ...page.items]);
+        setCursor(page.next_cursor);
+        setIndex(nextIndex);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : "Failed to load");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [items, index, cursor, fetchPage]
+  );
+
+  const pick = useCallback(
+    async (c: ReviewCandidate) => {
+      if (!current || acting) return;
+      setActing(true);
+      try {
+        const res = await fetch(`/api/admin/match-review/${current.id}/pick`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ igdb_game_id: c.igdb_game_id }),
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data?.error || res.statusText);
+        setDecided((n) => n + 1);
+        await advance(true);
+      } catch (e) {
+        alert(e instanceof Error ? e.message : "Pick failed");
+      } finally {
+        setActing(false);
+      }
+    },
+    [current, acting, advance]
+  );
+
+  const rejectAll = useCallback(async () => {
+    if (!current || acting) return;
+    setActing(true);
+    try {
+      const res = await fetch(`/api/admin/match-review/${current.id}/reject`, { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || res.statusText);
+      setDecided((n) => n + 1);
+      await advance(true);
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Reject failed");
+    } finally {
+      setActing(false);
+    }
+  }, [current, acting, advance]);
+
+  // 1–9 pick, S / → skip, ← back, X reject all
+  useEffect(() => {
+    function onKey(e: KeyboardEvent) {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === "INPUT" || target.tagName === "SELECT" || target.tagName === "TEXTAREA")) return;
+      if (e.metaKey || e.ctrlKey || e.altKey || !current) return;
+      if (/^[1-9]$/.test(e.key)) {
+        const c = current.candidates[Number(e.key) - 1];
+        if (c) {
+          e.preventDefault();
+          pick(c);
+        }
+      } else if (e.key === "s" || e.key === "S" || e.key === "ArrowRight") {
+        e.preventDefault();
+        advance(false);
+      } else if (e.key === "ArrowLeft") {
+        e.preventDefault();
+        setIndex((i) => Math.max(0, i - 1));
+      } else if (e.key === "x" || e.key === "X") {
+        e.preventDefault();
+        rejectAll();
+      }
+    }
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [current, pick, rejectAll, advance]);
+
+  async function runBulk(dryRun: boolean) {
+    if (!dryRun && !confirm(`Approve the best candidate of every queued match at ≥ ${pct(threshold)}?`)) return;
+    setBulkBusy(true);
+    try {
+      const res = await fetch("/api/admin/match-review/bulk", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          min_confidence: threshold,
+          source: source || undefined,
+          include_flagged: includeFlagged,
+          dry_run: dryRun,
+          limit: 100,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || res.statusText);
+      setBulk(data as BulkApproveResult);
+      if (!dryRun) {
+        setDecided((n) => n + Number(data?.approved ?? 0));
+        setLoading(true);
+        await reload().finally(() => setLoading(false));
+      }
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Bulk approve failed");
+    } finally {
+      setBulkBusy(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-[var(--color-background)] text-[var(--color-text)] p-4 md:p-6">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex items-center gap-4 mb-6">
+          <Link href="/admin/matches" className="text-[var(--color-text-muted)] hover:text-[var(--color-text)]">
+            ← Matches
+          </Link>
+          <h1 className="text-xl font-semibold">Candidate review</h1>
+          <span className="text-sm text-[var(--color-text-muted)]">{decided} decided this session</span>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <select
+            value={source}
+            onChange={(e) => {
+              setLoading(true);
+              setSource(e.target.value);
+            }}
+            className="px-2 py-1.5 rounded text-sm bg-[var(--color-surface)] border border-[var(--color-border)]"
+          >
+            <option value="">All sources</option>
+            {["steam", "psn", "xbox", "gog", "switch", "ra", "catalog"].map((s) => (
+              <option key={s} value={s}>
+                {s}
+              </option>
+            ))}
+          </select>
+          <span className="text-xs text-[var(--color-text-muted)]">
+            Keys: <kbd>1</kbd>–<kbd>9</kbd> pick · <kbd>S</kbd>/<kbd>→</kbd> skip · <kbd>←</kbd> back · <kbd>X</kbd> reject all
+          </span>
+        </div>
+
+        {/* Bulk mode */}
+        <div className="border border-[var(--color-border)] rounded-lg p-4 bg-[var(--color-surface)] mb-6">
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="font-medium text-sm">Bulk approve best candidate at ≥</span>
+            <input
+              type="range"
+              min={0.5}
+              max={1}
+              step={0.01}
+              value={threshold}
+              onChange={(e) => {
+                setThreshold(Number(e.target.value));
+                setBulk(null);
+              }}
+            />
+            <span className="text-sm font-mono w-12">{pct(threshold)}</span>
+            <label className="flex items-center gap-1 text-sm text-[var(--color-text-muted)]">
+              <input
+                type="checkbox"
+                checked={includeFlagged}
+                onChange={(e) => {
+                  setIncludeFlagged(e.target.checked);
+                  setBulk(null);
+                }}
+              />
+              include bundle/category-flagged
+            </label>
+            <button
+              type="button"
+              onClick={() => runBulk(true)}
+              disabled={bulkBusy}
+              className="px-3 py-1.5 rounded text-sm bg-[var(--color-background)] border border-[var(--color-border)] disabled:opacity-50"
+            >
+              Preview
+            </button>
+            {bulk?.dry_run && bulk.approved > 0 && (
+              <button
+                type="button"
+                onClick={() => runBulk(false)}
+                disabled={bulkBusy}
+                className="px-3 py-1.5 rounded text-sm bg-[var(--color-interactive)] text-white disabled:opacity-50"
+              >
+                Approve {bulk.approved}
+              </button>
+            )}
+          </div>
+          {bulk && (
+            <div className="mt-3 text-sm text-[var(--color-text-muted)]">
+              {bulk.dry_run ? "Would approve" : "Approved"} {bulk.approved} of {bulk.considered} considered
+              {bulk.skipped_flagged ? ` · ${bulk.skipped_flagged} flagged skipped` : ""}
+              {bulk.failed.length ? ` · ${bulk.failed.length} failed` : ""}
+              {bulk.dry_run && bulk.sample.length > 0 && (
+                <ul className="mt-2 space-y-0.5">
+                  {bulk.sample.slice(0, 8).map((s) => (
+                    <li key={s.id} className="truncate">
+                      {s.title_used ?? "?"} → <span className="text-[var(--color-text)]">{s.title}</span> ({pct(s.confidence)})
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        {loading && <p className="text-[var(--color-text-muted)]">Loading…</p>}
+        {error && <p className="text-[var(--color-error)]">{error}</p>}
+        {!loading && !error && !current && (
+          <p className="text-[var(--color-text-muted)]">Queue is empty{source ? ` for ${source}` : ""}.</p>
+        )}
+
+        {current && (
+          <div className="border border-[var(--color-border)] rounded-lg p-4 bg-[var(--color-surface)]">
+            <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
+              <div>
+                <p className="text-xs uppercase tracking-wide text-[var(--color-text-muted)]">Platform title</p>
+                <p className="text-lg font-semibold">{current.title_used ?? "(no title)"}</p>
+                <p className="text-sm text-[var(--color-text-muted)]">
+                  {current.source} · {current.external_id} · best {pct(current.confidence)} · {current.outcome}
+                  {current.flagged ? " · flagged" : ""}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-[var(--color-text-muted)]">
+                  {index + 1} / {items.length}
+                  {cursor ? "+" : ""}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => advance(false)}
+                  disabled={acting}
+                  className="px-3 py-1.5 rounded text-sm bg-[var(--color-background)] border border-[var(--color-border)] disabled:opacity-50"
+                >
+                  Skip
+                </button>
+                <button
+                  type="button"
+                  onClick={rejectAll}
+                  disabled={acting}
+                  className="px-3 py-1.5 rounded text-sm bg-[var(--color-error)]/10 text-[var(--color-error)] hover:bg-[var(--color-error)]/20 disabled:opacity-50"
+                >
+                  Reject all
+                </button>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-3">
+              {current.candidates.map((c, i) => (
+                <CandidateCard
+                  key={c.igdb_game_id}
+                  c={c}
+                  index={i}
+                  best={c.igdb_game_id === current.best_igdb_game_id}
+                  busy={acting}
+                  onPick={() => pick(c)}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -113,6 +113,18 @@ export default function AdminMatchesPage() {
             ← Back
           </Link>
           <h1 className="text-xl font-semibold">Match review</h1>
+          <Link
+            href="/admin/match-review"
+            className="ml-auto text-sm text-[var(--color-text-muted)] hover:text-[var(--color-text)]"
+          >
+            Candidate review queue →
+          </Link>
+          <Link
+            href="/admin/duplicate-review"
+            className="text-sm text-[var(--color-text-muted)] hover:text-[var(--color-text)]"
+          >
+            Duplicates →
+          </Link>
         </div>
 
         <div className="flex gap-2 mb-4">
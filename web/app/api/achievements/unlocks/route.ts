@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { supabaseRouteClient } from "@/lib/supabase/route-client";
+import { supabaseServer } from "@/lib/supabase/server";
+import { ACHIEVEMENT_PLATFORMS, isAchievementPlatform, monthRange, queryAchievementUnlocks } from "@/lib/achievements/unlocks";
+
+/**
+ * GET /api/achievements/unlocks
+ * Query: from, to (ISO; from inclusive, to exclusive) or month=YYYY-MM, platform, release_id, cursor, limit (≤200)
+ * Returns { items, next_cursor, has_more }, newest unlock first.
+ */
+
+function parseDate(v: string | null): string | null | "invalid" {
+  if (!v) return null;
+  const d = new Date(v);
+  return Number.isNaN(d.getTime()) ? "invalid" : d.toISOString();
+}
+
+export async function GET(req: Request) {
+  const supabase = await supabaseRouteClient();
+  const { data: userRes } = await supabase.auth.getUser();
+  if (!userRes?.user) return NextResponse.json({ error: "Not logged in" }, { status: 401 });
+
+  const url = new URL(req.url);
+  let from = parseDate(url.searchParams.get("from"));
+  let to = parseDate(url.searchParams.get("to"));
+
+  const month = url.searchParams.get("month");
+  if (month) {
+    const range = monthRange(month);
+    if (!range) return NextResponse.json({ error: "month must be YYYY-MM" }, { status: 400 });
+    ({ from, to } = range);
+  }
+
+  if (from === "invalid" || to === "invalid") {
+    return NextResponse.json({ error: "from / to must be ISO dates" }, { status: 400 });
+  }
+
+  const platform = url.searchParams.get("platform");
+  if (platform && !isAchievementPlatform(platform)) {
+    return NextResponse.json({ error: `platform must be one of ${ACHIEVEMENT_PLATFORMS.join(", ")}` }, { status: 400 });
+  }
+
+  try {
+    const page = await queryAchievementUnlocks(supabaseServer, userRes.user.id, {
+      from,
+      to,
+      platform: platform && isAchievementPlatform(platform) ? platform : null,
+      release_id: url.searchParams.get("release_id"),
+      cursor: url.searchParams.get("cursor"),
+      limit: Number(url.searchParams.get("limit") ?? 50),
+    });
+    return NextResponse.json(page);
+  } catch (e) {
+    return NextResponse.json({ error: (e instanceof Error && e.message) || "Failed to load unlocks" }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin/requireAdmin";
+import { adminClient } from "@/lib/supabase/admin-client";
+import { revertCatalogAudit } from "@/lib/catalog/audit";
+
+/**
+ * POST: undo an applied catalog mutation. Merges recreate the merged-away release/game and re-point
+ * the portfolio/progress rows that moved; pins and overrides write the previous values back.
+ * 409 when the entry isn't applied or the merged-away id exists again.
+ */
+export async function POST(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const gate = await requireAdmin();
+  if (!gate.ok) return gate.res;
+
+  const { id } = await params;
+  try {
+    const outcome = await revertCatalogAudit(adminClient(), id, {
+      kind: "admin",
+      id: gate.user.id,
+      label: "/api/admin/catalog-audit/revert",
+    });
+    if (!outcome.ok) return NextResponse.json({ ok: false, error: outcome.error }, { status: outcome.status });
+    return NextResponse.json({ ok: true, result: outcome.result });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Revert failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin/requireAdmin";
+import { adminClient } from "@/lib/supabase/admin-client";
+import { getCatalogAudit } from "@/lib/catalog/audit";
+
+export const dynamic = "force-dynamic";
+
+/** GET: one audit entry with its before/after snapshots and affected rows. */
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const gate = await requireAdmin();
+  if (!gate.ok) return gate.res;
+
+  const { id } = await params;
+  try {
+    const entry = await getCatalogAudit(adminClient(), id);
+    if (!entry) return NextResponse.json({ ok: false, error: "Audit entry not found" }, { status: 404 });
+    return NextResponse.json({ ok: true, entry });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Failed to load audit entry" }, { status: 500 });
+  }
+}
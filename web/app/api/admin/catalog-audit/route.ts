@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin/requireAdmin";
+import { adminClient } from "@/lib/supabase/admin-client";
+import { isCatalogAuditAction, listCatalogAudit } from "@/lib/catalog/audit";
+
+export const dynamic = "force-dynamic";
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * GET: catalog audit entries, newest first.
+ * Query: action?, user_id? (entries that moved/dropped this user's rows), target_id? (release/game id,
+ * as winner or merged-away), cursor?, limit? (default 50, max 200).
+ */
+export async function GET(req: Request) {
+  const gate = await requireAdmin();
+  if (!gate.ok) return gate.res;
+
+  const url = new URL(req.url);
+  const action = url.searchParams.get("action");
+  const userId = (url.searchParams.get("user_id") ?? "").trim();
+  const targetId = (url.searchParams.get("target_id") ?? "").trim();
+  const limit = Math.min(Math.max(parseInt(url.searchParams.get("limit") ?? "50", 10) || 50, 1), 200);
+
+  if (action && !isCatalogAuditAction(action)) {
+    return NextResponse.json({ ok: false, error: "Invalid action" }, { status: 400 });
+  }
+  if ((userId && !UUID_RE.test(userId)) || (targetId && !UUID_RE.test(targetId))) {
+    return NextResponse.json({ ok: false, error: "user_id and target_id must be uuids" }, { status: 400 });
+  }
+
+  try {
+    const page = await listCatalogAudit(adminClient(), {
+      action: action && isCatalogAuditAction(action) ? action : null,
+      user_id: userId || null,
+      target_id: targetId || null,
+      cursor: url.searchParams.get("cursor"),
+      limit,
+    });
+    return NextResponse.json({ ok: true, ...page });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Failed to load audit log" }, { status: 500 });
+  }
+}
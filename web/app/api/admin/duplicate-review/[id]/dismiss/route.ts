@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin/requireAdmin";
+import { adminClient } from "@/lib/supabase/admin-client";
+import { resolveDuplicateCandidate } from "@/lib/catalog/duplicates";
+
+/** POST /api/admin/duplicate-review/[id]/dismiss — not duplicates; the detector won't queue the pair again. */
+export async function POST(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const gate = await requireAdmin();
+  if (!gate.ok) return gate.res;
+
+  const { id } = await params;
+  try {
+    const res = await resolveDuplicateCandidate(
+      adminClient(),
+      id,
+      { action: "dismiss" },
+      { kind: "admin", id: gate.user.id, label: "/api/admin/duplicate-review" }
+    );
+    if (!res.ok) return NextResponse.json({ ok: false, error: res.error }, { status: res.status });
+    return NextResponse.json({ ok: true, status: res.status });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Dismiss failed" }, { status: 500 });
+  }
+}
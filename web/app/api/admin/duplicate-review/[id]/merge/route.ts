@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin/requireAdmin";
+import { adminClient } from "@/lib/supabase/admin-client";
+import { resolveDuplicateCandidate } from "@/lib/catalog/duplicates";
+
+/** POST /api/admin/duplicate-review/[id]/merge — body { winner_id? } (defaults to the suggested winner). */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const gate = await requireAdmin();
+  if (!gate.ok) return gate.res;
+
+  const { id } = await params;
+  const body = (await req.json().catch(() => ({}))) as { winner_id?: string | null };
+  try {
+    const res = await resolveDuplicateCandidate(
+      adminClient(),
+      id,
+      { action: "merge", winner_id: body.winner_id ?? null },
+      { kind: "admin", id: gate.user.id, label: "/api/admin/duplicate-review" }
+    );
+    if (!res.ok) return NextResponse.json({ ok: false, error: res.error }, { status: res.status });
+    return NextResponse.json({ ok: true, status: res.status, audit_id: res.audit_id });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Merge failed" }, { status: 500 });
+  }
+}
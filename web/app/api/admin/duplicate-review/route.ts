@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin/requireAdmin";
+import { adminClient } from "@/lib/supabase/admin-client";
+import { listDuplicateQueue, type DuplicateKind } from "@/lib/catalog/duplicates";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/admin/duplicate-review?kind=release|game&cursor=&limit=
+ * Pending duplicate pairs from the scheduled detector, best score first, with the users each merge touches.
+ */
+export async function GET(req: Request) {
+  const gate = await requireAdmin();
+  if (!gate.ok) return gate.res;
+
+  const url = new URL(req.url);
+  const kindRaw = (url.searchParams.get("kind") ?? "").trim();
+  if (kindRaw && kindRaw !== "release" && kindRaw !== "game") {
+    return NextResponse.json({ ok: false, error: "kind must be release or game" }, { status: 400 });
+  }
+  const limit = Math.min(Math.max(parseInt(url.searchParams.get("limit") ?? "25", 10) || 25, 1), 100);
+
+  try {
+    const page = await listDuplicateQueue(adminClient(), {
+      kind: (kindRaw || null) as DuplicateKind | null,
+      cursor: url.searchParams.get("cursor"),
+      limit,
+    });
+    return NextResponse.json({ ok: true, ...page });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Failed to load duplicate queue" }, { status: 500 });
+  }
+}
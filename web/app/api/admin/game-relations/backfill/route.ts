@@ -0,0 +1,83 @@
+/**
+ * POST /api/admin/game-relations/backfill?limit=25&cursor=<game id>&dry_run=1
+ *
+ * Records lineage (remake/remaster/port/sequel/series → game_relations, game_series) for games matched
+ * before enrichment wrote it. Walks games with an igdb_game_id in id order; pass next_cursor back until
+ * it is null. One IGDB fetch per game (plus series lists the first time a series is seen).
+ */
+
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin/requireAdmin";
+import { adminClient } from "@/lib/supabase/admin-client";
+import { igdbFetchGameById } from "@/lib/igdb/server";
+import { deriveGameRelations, recordGameRelations, seriesKey, seriesRefsForHit } from "@/lib/catalog/relations";
+
+export const maxDuration = 300;
+
+export async function POST(req: Request) {
+  const gate = await requireAdmin();
+  if (!gate.ok) return gate.res;
+
+  const admin = adminClient();
+  const url = new URL(req.url);
+  const limit = Math.min(Math.max(Number(url.searchParams.get("limit") ?? 25) || 25, 1), 100);
+  const cursor = url.searchParams.get("cursor");
+  const dryRun = url.searchParams.get("dry_run") === "1";
+
+  let q = admin
+    .from("games")
+    .select("id, igdb_game_id")
+    .not("igdb_game_id", "is", null)
+    .order("id", { ascending: true })
+    .limit(limit);
+  if (cursor) q = q.gt("id", cursor);
+  const { data: games, error } = await q;
+  if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+
+  const rows = (games ?? []) as Array<{ id: string; igdb_game_id: number }>;
+  let recorded = 0;
+  let relationsWritten = 0;
+  const errors: Array<{ game_id: string; error: string }> = [];
+  const preview: Array<{ game_id: string; relations: Array<{ relation: string; target_key: string }> }> = [];
+
+  for (const g of rows) {
+    try {
+      const hit = await igdbFetchGameById(Number(g.igdb_game_id));
+      if (!hit) {
+        errors.push({ game_id: g.id, error: `IGDB game ${g.igdb_game_id} not found` });
+        continue;
+      }
+      if (dryRun) {
+        // Series lists are not fetched in a dry run, so sequel_of rows are not shown.
+        const series = seriesRefsForHit(hit).map(({ kind, ref }) => ({
+          series_key: seriesKey(kind, ref.igdb_id),
+          kind,
+          igdb_id: ref.igdb_id,
+          name: ref.name,
+          slug: ref.slug,
+          mainline_games: [],
+          fetched_at: null,
+        }));
+        const rels = deriveGameRelations(g.id, hit, series);
+        preview.push({ game_id: g.id, relations: rels.map((r) => ({ relation: r.relation, target_key: r.target_key })) });
+        continue;
+      }
+      const res = await recordGameRelations(admin, g.id, hit);
+      recorded += 1;
+      relationsWritten += res.written;
+    } catch (e: unknown) {
+      errors.push({ game_id: g.id, error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+
+  return NextResponse.json({
+    ok: true,
+    dry_run: dryRun,
+    processed: rows.length,
+    recorded,
+    relations_written: relationsWritten,
+    errors,
+    ...(dryRun ? { preview } : {}),
+    next_cursor: rows.length === limit ? rows[rows.length - 1].id : null,
+  });
+}
@@ -1,10 +1,12 @@
 import { NextResponse } from "next/server";
 import { requireAdmin } from "@/lib/admin/requireAdmin";
 import { adminClient } from "@/lib/supabase/admin-client";
+import { mergeGamesInto } from "@/lib/merge-games-into";
 
 /**
  * POST: merge games that share the same igdb_game_id.
  * Body: { igdb_game_id: number } — find all games with this igdb_game_id, pick a winner (e.g. the one with most metadata), repoint releases.game_id to winner, delete losers.
+ * Recorded in catalog_audit_log; undo from /admin/catalog-audit.
  */
 export async function POST(req: Request) {
   const gate = await requireAdmin();
@@ -66,25 +68,13 @@ export async function POST(req: Request) {
   const winnerId = rows[0]!.id;
   const loserIds = rows.slice(1).map((g) => g.id);
 
-  for (const loserId of loserIds) {
-    const { error: repointErr } = await admin
-      .from("releases")
-      .update({ game_id: winnerId, updated_at: new Date().toISOString() })
-      .eq("game_id", loserId);
-    if (repointErr) {
-      return NextResponse.json(
-        { error: `Failed to repoint releases from ${loserId}: ${repointErr.message}` },
-        { status: 500 }
-      );
-    }
-  }
-
-  const { error: delErr } = await admin.from("games").delete().in("id", loserIds);
-  if (delErr) {
-    return NextResponse.json(
-      { error: `Failed to delete merged games: ${delErr.message}` },
-      { status: 500 }
-    );
+  const merged = await mergeGamesInto(admin, winnerId, loserIds, {
+    kind: "admin",
+    id: gate.user.id,
+    label: "/api/admin/games-merge",
+  });
+  if (!merged.ok) {
+    return NextResponse.json({ error: merged.error, audit_id: merged.audit_id }, { status: 500 });
   }
 
   return NextResponse.json({
@@ -92,5 +82,6 @@ export async function POST(req: Request) {
     winner_id: winnerId,
     merged_count: loserIds.length,
     deleted_ids: loserIds,
+    audit_id: merged.audit_id,
   });
 }
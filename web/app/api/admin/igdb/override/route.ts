@@ -2,11 +2,14 @@ import { NextResponse } from "next/server";
 import { igdbFetchGameById, normalizeCanonicalTitle } from "@/lib/igdb/server";
 import { requireAdmin } from "@/lib/admin/requireAdmin";
 import { adminClient } from "@/lib/supabase/admin-client";
+import { beginCatalogAudit, completeCatalogAudit, snapshotPatchedRows } from "@/lib/catalog/audit";
+import { stampMetadataSources } from "@/lib/metadata/sources";
 
 /**
  * POST: insert (or upsert) an IGDB override and optionally remap the affected release's game.
  * Body: { platform_key, external_id, igdb_game_id, note?, created_by?, remap?: boolean }
  * - remap: if true, find release by (platform_key, external_id), then update that release's game with the override igdb_game_id + IGDB metadata.
+ * Previous override/game values are recorded in catalog_audit_log; revert from /admin/catalog-audit.
  */
 export async function POST(req: Request) {
   try {
@@ -38,26 +41,11 @@ export async function POST(req: Request) {
     const admin = adminClient();
 
     const now = new Date().toISOString();
-    const { data: overrideRow, error: upsertErr } = await admin
-      .from("igdb_match_overrides")
-      .upsert(
-        {
-          platform_key: String(platform_key).trim(),
-          external_id: String(external_id).trim(),
-          igdb_game_id: igdbId,
-          note: note ?? null,
-          created_by: created_by ?? null,
-        },
-        { onConflict: "platform_key,external_id" }
-      )
-      .select("id, platform_key, external_id, igdb_game_id")
-      .single();
+    const pk = String(platform_key).trim();
+    const ext = String(external_id).trim();
 
-    if (upsertErr) {
-      return NextResponse.json({ error: upsertErr.message }, { status: 500 });
-    }
-
-    let remapped: { release_id: string; game_id: string } | null = null;
+    // Resolve the remap target up front so the audit snapshot covers everything we touch.
+    let target: { release_id: string; game_id: string; patch: Record<string, unknown>; other_game_id: string | null } | null = null;
     if (remap) {
       const { data: mapRow } = await admin
         .from("release_external_ids")
@@ -95,13 +83,74 @@ export async function POST(req: Request) {
           if (meta?.cover_url) patch.cover_url = meta.cover_url;
           if (meta?.category != null) patch.igdb_category = meta.category;
           const { data: otherGame } = await admin.from("games").select("id").eq("igdb_game_id", igdbId).neq("id", gameId).maybeSingle();
-          if (otherGame?.id) await admin.from("games").update({ igdb_game_id: null, updated_at: now }).eq("id", otherGame.id);
-          await admin.from("games").update(patch).eq("id", gameId);
-          remapped = { release_id: releaseId, game_id: gameId };
+          target = { release_id: releaseId, game_id: gameId, patch, other_game_id: otherGame?.id ? String(otherGame.id) : null };
         }
       }
     }
 
+    const overrideCols = ["igdb_game_id", "note", "created_by"];
+    const priorOverride = await snapshotPatchedRows(admin, "igdb_match_overrides", ["platform_key", "external_id"], overrideCols, (q) =>
+      q.eq("platform_key", pk).eq("external_id", ext)
+    );
+    const before = [...priorOverride];
+    if (target) {
+      const gameRows = await snapshotPatchedRows(admin, "games", ["id"], [...Object.keys(target.patch), "metadata_sources"], (q) =>
+        q.eq("id", target!.game_id)
+      );
+      target.patch.metadata_sources = stampMetadataSources(gameRows[0]?.row.metadata_sources, target.patch, "igdb");
+      before.push(...gameRows);
+      if (target.other_game_id) {
+        before.push(
+          ...(await snapshotPatchedRows(admin, "games", ["id"], ["igdb_game_id", "updated_at"], (q) => q.eq("id", target!.other_game_id)))
+        );
+      }
+    }
+    const auditId = await beginCatalogAudit(admin, {
+      action: "igdb_override",
+      actor: { kind: "admin", id: gate.user.id, label: "/api/admin/igdb/override" },
+      target_type: "game",
+      target_id: target?.game_id ?? null,
+      before: { rows: before },
+    });
+
+    const { data: overrideRow, error: upsertErr } = await admin
+      .from("igdb_match_overrides")
+      .upsert(
+        {
+          platform_key: pk,
+          external_id: ext,
+          igdb_game_id: igdbId,
+          note: note ?? null,
+          created_by: created_by ?? null,
+        },
+        { onConflict: "platform_key,external_id" }
+      )
+      .select("id, platform_key, external_id, igdb_game_id")
+      .single();
+
+    if (upsertErr) {
+      await completeCatalogAudit(admin, auditId, { error: upsertErr.message });
+      return NextResponse.json({ error: upsertErr.message }, { status: 500 });
+    }
+
+    let remapped: { release_id: string; game_id: string } | null = null;
+    if (target) {
+      if (target.other_game_id) {
+        await admin.from("games").update({ igdb_game_id: null, updated_at: now }).eq("id", target.other_game_id);
+      }
+      await admin.from("games").update(target.patch).eq("id", target.game_id);
+      remapped = { release_id: target.release_id, game_id: target.game_id };
+    }
+
+    // A brand-new override row is deleted again on revert.
+    await completeCatalogAudit(admin, auditId, {
+      after: {
+        override: overrideRow,
+        remapped,
+        created: priorOverride.length ? [] : [{ table: "igdb_match_overrides", key: { id: overrideRow.id } }],
+      },
+    });
+
     return NextResponse.json({
       ok: true,
       override: {
@@ -111,6 +160,7 @@ export async function POST(req: Request) {
         igdb_game_id: overrideRow.igdb_game_id,
       },
       remapped: remapped ?? undefined,
+      audit_id: auditId,
     });
   } catch (e: unknown) {
     return NextResponse.json(
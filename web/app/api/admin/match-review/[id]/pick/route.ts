@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin/requireAdmin";
+import { adminClient } from "@/lib/supabase/admin-client";
+import { pickMatchCandidate } from "@/lib/igdb/match-review";
+
+/**
+ * POST /api/admin/match-review/[id]/pick
+ * Body: { igdb_game_id: number } — commit that candidate for the attempt's platform item.
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const gate = await requireAdmin();
+  if (!gate.ok) return gate.res;
+
+  const { id } = await params;
+  const body = await req.json().catch(() => ({}));
+  const igdbGameId = Number(body?.igdb_game_id);
+  if (!Number.isFinite(igdbGameId) || igdbGameId <= 0) {
+    return NextResponse.json({ ok: false, error: "Missing or invalid igdb_game_id" }, { status: 400 });
+  }
+
+  try {
+    const res = await pickMatchCandidate(adminClient(), id, igdbGameId, {
+      kind: "admin",
+      id: gate.user.id,
+      label: "/api/admin/match-review/pick",
+    });
+    if (!res.ok) return NextResponse.json({ ok: false, error: res.error }, { status: res.status });
+    return NextResponse.json({ ok: true, ...res.result });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Pick failed" }, { status: 500 });
+  }
+}
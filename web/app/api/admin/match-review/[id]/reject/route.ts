@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin/requireAdmin";
+import { adminClient } from "@/lib/supabase/admin-client";
+import { rejectMatchCandidates } from "@/lib/igdb/match-review";
+
+/** POST /api/admin/match-review/[id]/reject — none of the candidates is right. */
+export async function POST(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const gate = await requireAdmin();
+  if (!gate.ok) return gate.res;
+
+  const { id } = await params;
+  try {
+    const res = await rejectMatchCandidates(adminClient(), id, gate.user.id);
+    if (!res.ok) return NextResponse.json({ ok: false, error: res.error }, { status: res.status });
+    return NextResponse.json({ ok: true, ...res.result });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Reject failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin/requireAdmin";
+import { adminClient } from "@/lib/supabase/admin-client";
+import { bulkApproveMatchAttempts } from "@/lib/igdb/match-review";
+
+export const maxDuration = 300;
+
+/**
+ * POST /api/admin/match-review/bulk
+ * Body: { min_confidence: number, source?, include_flagged?: boolean, dry_run?: boolean (default true), limit?: number }
+ * Approves the best candidate of every queued attempt at or above min_confidence, up to limit (default 50, max 200)
+ * per call. Run with dry_run first; call again until approved is 0.
+ */
+export async function POST(req: Request) {
+  const gate = await requireAdmin();
+  if (!gate.ok) return gate.res;
+
+  const body = await req.json().catch(() => ({}));
+  const minConfidence = Number(body?.min_confidence);
+  if (!Number.isFinite(minConfidence) || minConfidence < 0 || minConfidence > 1) {
+    return NextResponse.json({ ok: false, error: "min_confidence must be between 0 and 1" }, { status: 400 });
+  }
+  const limit = Math.min(Math.max(Number(body?.limit) || 50, 1), 200);
+
+  try {
+    const result = await bulkApproveMatchAttempts(
+      adminClient(),
+      {
+        min_confidence: minConfidence,
+        source: typeof body?.source === "string" && body.source.trim() ? body.source.trim() : null,
+        include_flagged: body?.include_flagged === true,
+        dry_run: body?.dry_run !== false,
+        limit,
+      },
+      { kind: "admin", id: gate.user.id, label: "/api/admin/match-review/bulk" }
+    );
+    return NextResponse.json({ ok: true, ...result });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Bulk approve failed" }, { status: 500 });
+  }
+}
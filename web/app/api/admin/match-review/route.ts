@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin/requireAdmin";
+import { adminClient } from "@/lib/supabase/admin-client";
+import { listMatchReviewQueue } from "@/lib/igdb/match-review";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/admin/match-review?source=&min_confidence=&cursor=&limit=
+ * Unreviewed game_match_attempts with all scored candidates, best confidence first.
+ */
+export async function GET(req: Request) {
+  const gate = await requireAdmin();
+  if (!gate.ok) return gate.res;
+
+  const url = new URL(req.url);
+  const source = (url.searchParams.get("source") ?? "").trim() || null;
+  const minRaw = url.searchParams.get("min_confidence");
+  const minConfidence = minRaw != null && minRaw !== "" ? Number(minRaw) : null;
+  const limit = Math.min(Math.max(parseInt(url.searchParams.get("limit") ?? "25", 10) || 25, 1), 100);
+
+  if (minConfidence != null && (!Number.isFinite(minConfidence) || minConfidence < 0 || minConfidence > 1)) {
+    return NextResponse.json({ ok: false, error: "min_confidence must be between 0 and 1" }, { status: 400 });
+  }
+
+  try {
+    const page = await listMatchReviewQueue(adminClient(), {
+      source,
+      min_confidence: minConfidence,
+      cursor: url.searchParams.get("cursor"),
+      limit,
+    });
+    return NextResponse.json({ ok: true, ...page });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Failed to load review queue" }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin/requireAdmin";
+import { adminClient } from "@/lib/supabase/admin-client";
+import {
+  buildLabelledCases,
+  calibrate,
+  loadMatchHistoryDump,
+  MATCHER_SCORER,
+  VALIDATION_SCORER,
+} from "@/lib/igdb/calibration";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 120;
+
+/**
+ * GET /api/admin/matcher/calibration?source=&max_attempts=&format=report|fixture
+ * report (default): precision/recall per platform and threshold for both scorers, replayed
+ * from the labelled match history. fixture: the raw dump, to save as a vitest fixture
+ * (see __tests__/igdb/match-calibration.test.ts, MATCH_HISTORY_DUMP).
+ */
+export async function GET(req: Request) {
+  const gate = await requireAdmin();
+  if (!gate.ok) return gate.res;
+
+  const url = new URL(req.url);
+  const source = (url.searchParams.get("source") ?? "").trim() || null;
+  const format = url.searchParams.get("format") ?? "report";
+  const maxAttempts = Math.min(Math.max(parseInt(url.searchParams.get("max_attempts") ?? "10000", 10) || 10000, 1), 50_000);
+
+  if (format !== "report" && format !== "fixture") {
+    return NextResponse.json({ ok: false, error: "format must be report or fixture" }, { status: 400 });
+  }
+
+  try {
+    const dump = await loadMatchHistoryDump(adminClient(), { maxAttempts, source });
+    if (format === "fixture") return NextResponse.json(dump);
+
+    const { cases, skipped } = buildLabelledCases(dump);
+    return NextResponse.json({
+      ok: true,
+      cases: cases.length,
+      skipped,
+      reports: [calibrate(cases, VALIDATION_SCORER), calibrate(cases, MATCHER_SCORER)],
+    });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Calibration failed" }, { status: 500 });
+  }
+}
@@ -3,29 +3,34 @@
  *
  * Matcher worker: pull unlocked rows from game_match_queue, run deterministic IGDB matching,
  * write game_master_mappings, attach releases to matched game, then remove from queue or mark attempts/last_error.
+ * Game fields come from the metadata provider chain (lib/metadata/resolve.ts) seeded with the IGDB hit;
+ * unmatched placeholder games get whatever the fallback providers have. Matched games also get their
+ * lineage (remake/remaster/port/sequel/series) in game_relations.
  */
 
 import { NextResponse } from "next/server";
 import {
   igdbSearchBest,
   igdbFetchGameById,
+  MATCHER_AUTO_APPROVED_THRESHOLD,
   normalizeCanonicalTitle,
+  passesMatcherSanityCheck,
 } from "@/lib/igdb/server";
 import { upsertGameExternalId, gameExternalIdRow } from "@/lib/game-external-ids";
 import { requireAdmin } from "@/lib/admin/requireAdmin";
+import { metadataFromIgdbHit } from "@/lib/metadata/igdb";
+import {
+  fallbackMetadataProviders,
+  fillMissingGameMetadata,
+  metadataColumns,
+  metadataProviderChain,
+  resolveGameMetadata,
+} from "@/lib/metadata/resolve";
 import { adminClient } from "@/lib/supabase/admin-client";
+import { recordGameRelationsBestEffort } from "@/lib/catalog/relations";
 
-const MATCHER_AUTO_APPROVED_THRESHOLD = 0.92;
 const LOCK_TIMEOUT_MS = 5 * 60 * 1000; // 5 min
 
-/** Sanity: do not auto-confirm if best hit title is empty or year is in the future. */
-function passesSanityCheck(hit: { title?: string | null; first_release_year?: number | null } | null): boolean {
-  if (!hit?.title || String(hit.title).trim().length === 0) return false;
-  const year = hit.first_release_year != null ? Number(hit.first_release_year) : null;
-  if (year != null && (year < 1970 || year > new Date().getFullYear() + 1)) return false;
-  return true;
-}
-
 export async function POST(req: Request) {
   const gate = await requireAdmin();
   if (!gate.ok) return gate.res;
@@ -82,6 +87,9 @@ export async function POST(req: Request) {
   let autoApproved = 0;
   let needsReview = 0;
   let errors = 0;
+  let metadataFilled = 0;
+  let relationsRecorded = 0;
+  const metadataProviders = metadataProviderChain(admin);
   const processedIds: string[] = [];
   const errorUpdates: Array<{ id: string; last_error: string }> = [];
 
@@ -117,7 +125,7 @@ export async function POST(req: Request) {
       const autoConfirm =
         confidence >= MATCHER_AUTO_APPROVED_THRESHOLD &&
         igdb_game_id != null &&
-        passesSanityCheck(hit ?? null);
+        passesMatcherSanityCheck(hit ?? null);
       const status = autoConfirm ? "confirmed" : "needs_review";
 
       const meta = {
@@ -170,6 +178,14 @@ export async function POST(req: Request) {
         const canonicalTitle = metaHit?.title
           ? normalizeCanonicalTitle(String(metaHit.title).trim())
           : rawTitle;
+        // IGDB first; fields IGDB lacks fall through to the secondary / local providers
+        const metaColumns = metadataColumns(
+          await resolveGameMetadata(rawTitle, {
+            providers: metadataProviders,
+            seed: metadataFromIgdbHit(metaHit),
+            platformHint,
+          })
+        );
 
         const { data: existingByIgdb } = await admin
           .from("games")
@@ -193,13 +209,8 @@ export async function POST(req: Request) {
             .from("games")
             .update({
               canonical_title: canonicalTitle,
-              summary: metaHit?.summary ?? null,
-              developer: metaHit?.developer ?? null,
-              publisher: metaHit?.publisher ?? null,
-              first_release_year: metaHit?.first_release_year ?? null,
-              cover_url: metaHit?.cover_url ?? null,
+              ...metaColumns,
               igdb_category: metaHit?.category ?? null,
-              genres: Array.isArray(metaHit?.genres) ? metaHit.genres : null,
               updated_at: now,
             })
             .eq("id", existingByIgdb.id);
@@ -210,13 +221,8 @@ export async function POST(req: Request) {
             .update({
               igdb_game_id,
               canonical_title: canonicalTitle,
-              summary: metaHit?.summary ?? null,
-              developer: metaHit?.developer ?? null,
-              publisher: metaHit?.publisher ?? null,
-              first_release_year: metaHit?.first_release_year ?? null,
-              cover_url: metaHit?.cover_url ?? null,
+              ...metaColumns,
               igdb_category: metaHit?.category ?? null,
-              genres: Array.isArray(metaHit?.genres) ? metaHit.genres : null,
               match_status: "auto_matched",
               match_confidence: confidence,
               match_method: "matcher",
@@ -237,11 +243,7 @@ export async function POST(req: Request) {
             .insert({
               canonical_title: canonicalTitle,
               igdb_game_id,
-              summary: metaHit?.summary ?? null,
-              developer: metaHit?.developer ?? null,
-              publisher: metaHit?.publisher ?? null,
-              first_release_year: metaHit?.first_release_year ?? null,
-              cover_url: metaHit?.cover_url ?? null,
+              ...metaColumns,
               igdb_category: metaHit?.category ?? null,
               match_status: "auto_matched",
               match_confidence: confidence,
@@ -262,6 +264,9 @@ export async function POST(req: Request) {
             );
           }
         }
+        if (resolvedGameId && (await recordGameRelationsBestEffort(admin, resolvedGameId, metaHit))?.written) {
+          relationsRecorded += 1;
+        }
         if (resolvedGameId && autoConfirm) {
           await admin
             .from("game_master_mappings")
@@ -297,6 +302,21 @@ export async function POST(req: Request) {
             evidence: { ...meta, igdb_category: hitCategory },
           });
         }
+      } else {
+        // No IGDB match: a placeholder game can still get cover/year/genres from the fallback providers
+        const { data: extRow } = await admin
+          .from("game_external_ids")
+          .select("game_id")
+          .eq("source", source)
+          .eq("external_id", String(external_id))
+          .maybeSingle();
+        if (extRow?.game_id) {
+          const fill = await fillMissingGameMetadata(admin, String(extRow.game_id), rawTitle, {
+            providers: fallbackMetadataProviders(metadataProviders),
+            platformHint,
+          });
+          if (fill.filled.length) metadataFilled += 1;
+        }
       }
 
       processed += 1;
@@ -331,6 +351,8 @@ export async function POST(req: Request) {
     auto_approved: autoApproved,
     needs_review: needsReview,
     errors,
+    metadata_filled: metadataFilled,
+    relations_recorded: relationsRecorded,
     message: `Processed ${processed} from queue; ${autoApproved} auto_approved, ${needsReview} needs_review, ${errors} errors.`,
   });
 }
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin/requireAdmin";
+import { adminClient } from "@/lib/supabase/admin-client";
+import { loadRaConsoleMap, syncRaConsoles } from "@/lib/ra/consoles";
+import { raGetConsoleIds } from "@/lib/ra/server";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET: RA consoles with the platform_catalog key each one maps to (null = unmapped).
+ */
+export async function GET() {
+  const gate = await requireAdmin();
+  if (!gate.ok) return gate.res;
+
+  const admin = adminClient();
+  try {
+    const [{ data, error }, map] = await Promise.all([
+      admin.from("ra_consoles").select("id, name, icon_url, active, is_game_system, fetched_at").order("id"),
+      loadRaConsoleMap(admin),
+    ]);
+    if (error) throw new Error(`ra_consoles: ${error.message}`);
+    const consoles = (data ?? []).map((c) => ({ ...c, platform_key: map.platformKeyByConsole.get(c.id) ?? null }));
+    return NextResponse.json({ ok: true, consoles });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Load failed" }, { status: 500 });
+  }
+}
+
+/**
+ * POST: refresh ra_consoles from RA's API_GetConsoleIDs (service creds RA_USERNAME / RA_WEB_API_KEY).
+ * Returns the game systems no platform_catalog row maps yet.
+ */
+export async function POST() {
+  const gate = await requireAdmin();
+  if (!gate.ok) return gate.res;
+
+  const raUsername = String(process.env.RA_USERNAME ?? "").trim();
+  const raApiKey = String(process.env.RA_WEB_API_KEY ?? "").trim();
+  if (!raUsername || !raApiKey) {
+    return NextResponse.json({ ok: false, error: "RA_USERNAME / RA_WEB_API_KEY not configured" }, { status: 400 });
+  }
+
+  try {
+    const consoles = await raGetConsoleIds(raUsername, raApiKey);
+    const result = await syncRaConsoles(adminClient(), consoles);
+    return NextResponse.json({ ok: true, ...result });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Sync failed" }, { status: 500 });
+  }
+}
@@ -1,11 +1,16 @@
 /**
  * IGDB backfill focused on games: resolves canonical game via upsertGameIgdbFirst (no direct game updates),
  * repoints releases to canonical game when the resolver returns a different row, deletes orphan game rows,
- * then propagates game cover to releases with null/unknown cover_url.
+ * fills covers IGDB could not supply from the fallback metadata providers (lib/metadata/resolve.ts),
+ * then propagates game cover to releases with null/unknown cover_url and ingests the new game covers
+ * into our own storage (lib/images/pipeline.ts; ?ingest=0 skips, /api/cron/cover-ingest catches up).
  */
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { isLikelyNonGame, upsertGameIgdbFirst } from "@/lib/igdb/server";
+import { fallbackMetadataProviders, fillMissingGameMetadata, metadataProviderChain } from "@/lib/metadata/resolve";
+import { ingestSubjectCover, loadGameCoverSubjects } from "@/lib/images/pipeline";
+import { coverStorageFromEnv } from "@/lib/images/storage";
 
 function nowIso() {
   return new Date().toISOString();
@@ -16,6 +21,7 @@ export async function POST(req: Request) {
 
   const limit = Math.min(Number(url.searchParams.get("limit") ?? 50), 200);
   const dryRun = url.searchParams.get("dry_run") === "1";
+  const ingest = url.searchParams.get("ingest") !== "0";
 
   const supabaseAdmin = createClient(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -42,6 +48,7 @@ export async function POST(req: Request) {
   let processed = 0;
   let mergedGames = 0;
   const canonicalGameIds = new Set<string>();
+  const titleByCanonicalId = new Map<string, string>();
   const debug: Array<{ game_id: string; title: string; canonical_game_id: string; merged?: boolean }> = [];
 
   // 2) For each missing-cover game, resolve canonical game via upsertGameIgdbFirst. Skip non-games (ignore list).
@@ -64,6 +71,7 @@ export async function POST(req: Request) {
     if (!canonicalId) continue;
 
     canonicalGameIds.add(canonicalId);
+    if (!titleByCanonicalId.has(canonicalId)) titleByCanonicalId.set(canonicalId, raw);
 
     if (canonicalId !== String(g.id)) {
       // Resolver returned a different row (canonical already exists) — re-point releases to it and delete this row
@@ -103,6 +111,24 @@ export async function POST(req: Request) {
     });
   }
 
+  // 2b) Games IGDB left without a cover (or other fields): try the fallback providers. Fields the row already has are skipped.
+  let filledFromFallback = 0;
+  const fallbackProviders = fallbackMetadataProviders(metadataProviderChain(supabaseAdmin));
+  if (fallbackProviders.length) {
+    for (const [gameId, title] of titleByCanonicalId.entries()) {
+      try {
+        const fill = await fillMissingGameMetadata(supabaseAdmin, gameId, title, { providers: fallbackProviders });
+        if (fill.filled.length) filledFromFallback += 1;
+      } catch (e) {
+        console.warn("[backfill-covers] fallback metadata failed", {
+          game_id: gameId,
+          title,
+          error: e instanceof Error ? e.message : String(e),
+        });
+      }
+    }
+  }
+
   // 3) Propagate game cover to releases (game_id in canonical set) with null/unknown cover_url
   let updatedReleases = 0;
   if (canonicalGameIds.size > 0) {
@@ -152,6 +178,22 @@ export async function POST(req: Request) {
     }
   }
 
+  // 4) Cache the canonical games' covers (variants + blurhash); failures stay queued for the cron
+  const coversIngested = { ready: 0, broken: 0 };
+  if (ingest && canonicalGameIds.size > 0) {
+    const storage = coverStorageFromEnv(supabaseAdmin);
+    try {
+      for (const subject of await loadGameCoverSubjects(supabaseAdmin, Array.from(canonicalGameIds))) {
+        if (!subject.candidates.length) continue;
+        const r = await ingestSubjectCover(supabaseAdmin, storage, subject, { refresh_metadata: false });
+        if (r.status === "ready") coversIngested.ready += 1;
+        else if (r.status === "broken") coversIngested.broken += 1;
+      }
+    } catch (e) {
+      console.warn("[backfill-covers] cover ingest failed", { error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+
   return NextResponse.json({
     ok: true,
     processed,
@@ -159,6 +201,8 @@ export async function POST(req: Request) {
     updated_games: canonicalGameIds.size,
     updated_releases: updatedReleases,
     merged_games: mergedGames,
+    metadata_filled: filledFromFallback,
+    covers_ingested: coversIngested,
     skipped: rows.length - processed,
     sample: debug.slice(0, 10),
   });
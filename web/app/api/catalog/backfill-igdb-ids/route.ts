@@ -1,6 +1,8 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { isLikelyNonGame, igdbSearchBestSingle } from "@/lib/igdb/server";
+import { fallbackMetadataProviders, fillMissingGameMetadata, metadataProviderChain } from "@/lib/metadata/resolve";
+import { stampMetadataSources } from "@/lib/metadata/sources";
 
 // Split CamelCase / mashed titles (TigerWoodsPGATOUR07 → Tiger Woods PGA TOUR 07)
 function deMashTitle(s: string) {
@@ -36,7 +38,7 @@ export async function POST(req: Request) {
   // Find games missing igdb_game_id (and usually missing cover_url too)
   const { data: games, error: gErr } = await supabaseAdmin
     .from("games")
-    .select("id, canonical_title, igdb_game_id, cover_url")
+    .select("id, canonical_title, igdb_game_id, cover_url, metadata_sources")
     .is("igdb_game_id", null)
     .not("canonical_title", "is", null)
     .limit(limit);
@@ -58,6 +60,8 @@ export async function POST(req: Request) {
   let updatedIds = 0;
   let updatedCovers = 0;
   let skipped = 0;
+  let metadataFilled = 0;
+  const fallbackProviders = fallbackMetadataProviders(metadataProviderChain(supabaseAdmin));
   const errors: Array<{ game_id: string; title: string; error: string }> = [];
 
   // Pull releases + PSN title names for better search candidates (PSN sometimes mangles canonical_title)
@@ -135,6 +139,11 @@ export async function POST(req: Request) {
 
       const rawIgdb = hit?.igdb_game_id;
       if (rawIgdb == null) {
+        // Not on IGDB (or not confidently): still try cover/year/genres from the fallback providers
+        if (fallbackProviders.length) {
+          const fill = await fillMissingGameMetadata(supabaseAdmin, String(g.id), canonical, { providers: fallbackProviders });
+          if (fill.filled.length) metadataFilled += 1;
+        }
         skipped += 1;
         continue;
       }
@@ -152,6 +161,7 @@ export async function POST(req: Request) {
       // Optional fast win: if game cover is missing and IGDB returned one, store it now
       if (!g?.cover_url && hit?.cover_url) {
         patch.cover_url = hit.cover_url;
+        patch.metadata_sources = stampMetadataSources(g?.metadata_sources, patch, "igdb");
       }
 
       const { error: uErr } = await supabaseAdmin.from("games").update(patch).eq("id", g.id);
@@ -174,6 +184,7 @@ export async function POST(req: Request) {
     processed: rows.length,
     updated_ids: updatedIds,
     updated_covers: updatedCovers,
+    metadata_filled: metadataFilled,
     skipped,
     errors: errors.slice(0, 25),
     message: `Backfilled IGDB IDs for ${updatedIds} games.`,
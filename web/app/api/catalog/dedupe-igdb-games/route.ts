@@ -1,10 +1,7 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { supabaseRouteClient } from "@/lib/supabase/route-client";
-
-function nowIso() {
-  return new Date().toISOString();
-}
+import { mergeGamesInto } from "@/lib/merge-games-into";
 
 function isBadCover(url: string | null | undefined) {
   if (!url) return true;
@@ -133,26 +130,18 @@ export async function POST(req: Request) {
       const loserIds = losers.map((x) => String(x?.game_id ?? "")).filter(Boolean);
       if (!winnerGameId || loserIds.length === 0) continue;
 
-      // A) Move releases
-      const { error: mvErr } = await supabaseAdmin
-        .from("releases")
-        .update({ game_id: winnerGameId, updated_at: nowIso() })
-        .in("game_id", loserIds);
-
-      if (mvErr) {
-        failed += 1;
-        continue;
-      }
-
-      movedReleases += Number(plan?.move_release_count || 0);
-
-      // B) Delete loser games (safe now that releases moved)
-      const { error: delErr } = await supabaseAdmin.from("games").delete().in("id", loserIds);
-      if (delErr) {
+      // Repoint releases, then delete loser games (audited, revertable)
+      const merged = await mergeGamesInto(supabaseAdmin, winnerGameId, loserIds, {
+        kind: "user",
+        id: userRes.user.id,
+        label: "/api/catalog/dedupe-igdb-games",
+      });
+      if (!merged.ok) {
         failed += 1;
         continue;
       }
 
+      movedReleases += merged.moved_releases;
       deletedGames += loserIds.length;
     }
 
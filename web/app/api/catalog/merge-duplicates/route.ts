@@ -1,6 +1,6 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
-import { releaseExternalIdRow } from "@/lib/release-external-ids";
+import { mergeReleaseInto } from "@/lib/merge-release-into";
 import { supabaseRouteClient } from "@/lib/supabase/route-client";
 
 function normTitle(s: string) {
@@ -90,11 +90,9 @@ export async function POST(req: Request) {
     .slice(0, limitGroups);
 
   let mergedGroups = 0;
-  let movedPortfolioRows = 0;
-  let movedPsnRows = 0;
-  let movedXboxRows = 0;
-  let movedSteamRows = 0;
-  let movedRaCacheRows = 0;
+  const moved: Record<string, number> = {};
+  const auditIds: string[] = [];
+  const failed: Array<{ release_id: string; error: string }> = [];
 
   const actions: any[] = [];
 
@@ -114,55 +112,19 @@ export async function POST(req: Request) {
 
     if (dryRun) continue;
 
+    // Full release merge (every user's rows follow the winner), recorded in catalog_audit_log.
     for (const loser of losers) {
-      // 1) move portfolio rows for this user
-      const pQ = supabaseAdmin
-        .from("portfolio_entries")
-        .update({ release_id: winner.id })
-        .eq("user_id", user.id)
-        .eq("release_id", loser.id);
-
-      const { error: pErr, count: pCount } = await (pQ as any).select("*", { count: "exact" }).limit(0);
-
-      if (!pErr && pCount) movedPortfolioRows += pCount;
-
-      // 2) move signal rows (safe even if table has no rows)
-      const move = async (table: string) => {
-        const q = supabaseAdmin
-          .from(table)
-          .update({ release_id: winner.id })
-          .eq("user_id", user.id)
-          .eq("release_id", loser.id);
-
-        const { error: e2, count } = await (q as any).select("*", { count: "exact" }).limit(0);
-
-        return { error: e2?.message ?? null, count: count ?? 0 };
-      };
-
-      const a = await move("psn_title_progress");  movedPsnRows += a.count;
-      const b = await move("xbox_title_progress"); movedXboxRows += b.count;
-      const c = await move("steam_title_progress"); movedSteamRows += c.count;
-      const d = await move("ra_achievement_cache"); movedRaCacheRows += d.count;
-
-      // 3) move external ids from loser -> winner (best-effort)
-      const { data: loserExt } = await supabaseAdmin
-        .from("release_external_ids")
-        .select("source, external_id")
-        .eq("release_id", loser.id);
-
-      if (Array.isArray(loserExt) && loserExt.length) {
-        for (const x of loserExt) {
-          await supabaseAdmin
-            .from("release_external_ids")
-            .upsert(
-              releaseExternalIdRow(winner.id, x.source, x.external_id),
-              { onConflict: "release_id,source" }
-            );
-        }
+      const res = await mergeReleaseInto(supabaseAdmin, String(winner.id), String(loser.id), {
+        kind: "user",
+        id: user.id,
+        label: "/api/catalog/merge-duplicates",
+      });
+      if (!res.ok) {
+        failed.push({ release_id: loser.id, error: res.error });
+        continue;
       }
-
-      // 4) delete loser release (optional but recommended once moved)
-      await supabaseAdmin.from("releases").delete().eq("id", loser.id);
+      auditIds.push(res.audit_id);
+      for (const [table, n] of Object.entries(res.moved)) moved[table] = (moved[table] ?? 0) + n;
     }
   }
 
@@ -171,13 +133,9 @@ export async function POST(req: Request) {
     dry_run: dryRun,
     scanned_groups: dupGroups.length,
     merged_groups: mergedGroups,
-    moved: {
-      portfolio_entries: movedPortfolioRows,
-      psn_title_progress: movedPsnRows,
-      xbox_title_progress: movedXboxRows,
-      steam_title_progress: movedSteamRows,
-      ra_achievement_cache: movedRaCacheRows,
-    },
+    moved,
+    failed,
+    audit_ids: auditIds,
     sample_actions: actions.slice(0, 10),
     note: "Run multiple times if you have tons of dupes. Increase limit_groups if needed.",
   });
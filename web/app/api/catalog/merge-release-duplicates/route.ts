@@ -1,11 +1,11 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
-import { releaseExternalIdRow } from "@/lib/release-external-ids";
+import { mergeReleaseInto } from "@/lib/merge-release-into";
 import { supabaseRouteClient } from "@/lib/supabase/route-client";
 
 /**
  * One-time bulk merge of duplicate releases per (platform_key, game_id).
- * Picks a winner per group, repoints all references to the winner, then deletes loser releases.
+ * Picks a winner per group and merges each loser into it via mergeReleaseInto (audited, revertable).
  * Run with dry_run=1 first, then dry_run=0. After that, add the unique index on releases(platform_key, game_id).
  */
 export async function POST(req: Request) {
@@ -106,76 +106,41 @@ export async function POST(req: Request) {
       });
     }
 
-    // 3) Apply: for each group, repoint all references to winner, then delete losers
-    let movedPortfolio = 0;
-    let movedPsn = 0;
-    let movedXbox = 0;
-    let movedSteam = 0;
-    let movedRa = 0;
-    let movedExt = 0;
+    // 3) Apply: merge each loser into the winner (all references follow; recorded in catalog_audit_log)
+    const moved: Record<string, number> = {};
+    const auditIds: string[] = [];
+    const failed: Array<{ release_id: string; error: string }> = [];
     let deletedReleases = 0;
 
-    const tablesWithReleaseId = [
-      "portfolio_entries",
-      "psn_title_progress",
-      "xbox_title_progress",
-      "steam_title_progress",
-      "ra_achievement_cache",
-    ] as const;
-
     for (const plan of plans) {
       const winnerId = String(plan.winner.id);
       const loserIds = plan.loser_ids.filter(Boolean);
       if (!winnerId || !loserIds.length) continue;
 
-      for (const table of tablesWithReleaseId) {
-        const { error: uErr } = await supabaseAdmin
-          .from(table)
-          .update({ release_id: winnerId })
-          .in("release_id", loserIds);
-        if (!uErr) {
-          if (table === "portfolio_entries") movedPortfolio += 1;
-          else if (table === "psn_title_progress") movedPsn += 1;
-          else if (table === "xbox_title_progress") movedXbox += 1;
-          else if (table === "steam_title_progress") movedSteam += 1;
-          else if (table === "ra_achievement_cache") movedRa += 1;
+      for (const loserId of loserIds) {
+        const res = await mergeReleaseInto(supabaseAdmin, winnerId, loserId, {
+          kind: "user",
+          id: userRes.user.id,
+          label: "/api/catalog/merge-release-duplicates",
+        });
+        if (!res.ok) {
+          failed.push({ release_id: loserId, error: res.error });
+          continue;
         }
+        auditIds.push(res.audit_id);
+        for (const [table, n] of Object.entries(res.moved)) moved[table] = (moved[table] ?? 0) + n;
+        deletedReleases += 1;
       }
-
-      // Move release_external_ids: copy loser rows to winner (upsert by source+external_id), then delete loser rows
-      const { data: extRows } = await supabaseAdmin
-        .from("release_external_ids")
-        .select("source, external_id")
-        .in("release_id", loserIds);
-
-      if (Array.isArray(extRows) && extRows.length) {
-        for (const x of extRows) {
-          await supabaseAdmin.from("release_external_ids").upsert(
-            releaseExternalIdRow(winnerId, x.source, x.external_id),
-            { onConflict: "source,external_id" }
-          );
-          movedExt += 1;
-        }
-        await supabaseAdmin.from("release_external_ids").delete().in("release_id", loserIds);
-      }
-
-      const { error: delErr } = await supabaseAdmin.from("releases").delete().in("id", loserIds);
-      if (!delErr) deletedReleases += loserIds.length;
     }
 
     return NextResponse.json({
       ok: true,
       dry_run: false,
       duplicate_groups: plans.length,
-      moved: {
-        portfolio_entries: movedPortfolio,
-        psn_title_progress: movedPsn,
-        xbox_title_progress: movedXbox,
-        steam_title_progress: movedSteam,
-        ra_achievement_cache: movedRa,
-        release_external_ids: movedExt,
-      },
+      moved,
       deleted_releases: deletedReleases,
+      failed,
+      audit_ids: auditIds,
       note: "Add unique index: CREATE UNIQUE INDEX releases_platform_game_unique ON releases(platform_key, game_id);",
     });
   } catch (e: any) {
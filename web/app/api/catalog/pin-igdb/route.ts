@@ -1,6 +1,15 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { igdbFetchGameById } from "@/lib/igdb/server";
+import { stampMetadataSources } from "@/lib/metadata/sources";
+import { supabaseRouteClient } from "@/lib/supabase/route-client";
+import { recordGameRelationsBestEffort } from "@/lib/catalog/relations";
+import {
+  beginCatalogAudit,
+  completeCatalogAudit,
+  snapshotPatchedRows,
+  type CatalogActor,
+} from "@/lib/catalog/audit";
 
 function nowIso() {
   return new Date().toISOString();
@@ -9,6 +18,7 @@ function nowIso() {
 /**
  * Manual "pin IGDB" for weird SKUs: set games.igdb_game_id, fetch IGDB by id, update cover + metadata, propagate cover to releases.
  * POST body: { game_id, igdb_game_id }
+ * Overwritten values are kept in catalog_audit_log so the pin can be reverted.
  */
 export async function POST(req: Request) {
   const body = await req.json().catch(() => ({}));
@@ -43,10 +53,8 @@ export async function POST(req: Request) {
   if (Array.isArray(hit.genres) && hit.genres.length) patch.genres = hit.genres;
   if (hit.cover_url) patch.cover_url = hit.cover_url;
 
-  const { error: updateErr } = await admin.from("games").update(patch).eq("id", gameId);
-  if (updateErr) return NextResponse.json({ ok: false, error: updateErr.message }, { status: 500 });
-
-  let releasesUpdated = 0;
+  // Releases whose (missing/placeholder) cover gets replaced by the IGDB one.
+  let badCoverIds: string[] = [];
   if (hit.cover_url) {
     const { data: releases } = await admin
       .from("releases")
@@ -54,19 +62,59 @@ export async function POST(req: Request) {
       .eq("game_id", gameId);
 
     const rows = (releases ?? []) as { id: string; cover_url: string | null }[];
-    for (const r of rows) {
-      const current = String(r?.cover_url ?? "").trim().toLowerCase();
-      const isBad = !current || current.includes("unknown") || current.includes("placeholder");
-      if (isBad) {
-        const { error: relErr } = await admin
-          .from("releases")
-          .update({ cover_url: hit.cover_url, updated_at: nowIso() })
-          .eq("id", r.id);
-        if (!relErr) releasesUpdated += 1;
-      }
-    }
+    badCoverIds = rows
+      .filter((r) => {
+        const current = String(r?.cover_url ?? "").trim().toLowerCase();
+        return !current || current.includes("unknown") || current.includes("placeholder");
+      })
+      .map((r) => String(r.id));
+  }
+
+  const supabaseUser = await supabaseRouteClient();
+  const { data: userRes } = await supabaseUser.auth.getUser();
+  const actor: CatalogActor = userRes?.user
+    ? { kind: "user", id: userRes.user.id, label: "/api/catalog/pin-igdb" }
+    : { kind: "system", id: null, label: "/api/catalog/pin-igdb" };
+
+  let auditId: string;
+  try {
+    const gameRows = await snapshotPatchedRows(admin, "games", ["id"], [...Object.keys(patch), "metadata_sources"], (q) => q.eq("id", gameId));
+    patch.metadata_sources = stampMetadataSources(gameRows[0]?.row.metadata_sources, patch, "igdb");
+    const releaseRows = badCoverIds.length
+      ? await snapshotPatchedRows(admin, "releases", ["id"], ["cover_url", "updated_at"], (q) => q.in("id", badCoverIds))
+      : [];
+    auditId = await beginCatalogAudit(admin, {
+      action: "igdb_pin",
+      actor,
+      target_type: "game",
+      target_id: gameId,
+      before: { rows: [...gameRows, ...releaseRows] },
+    });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Audit failed" }, { status: 500 });
+  }
+
+  const { error: updateErr } = await admin.from("games").update(patch).eq("id", gameId);
+  if (updateErr) {
+    await completeCatalogAudit(admin, auditId, { error: updateErr.message });
+    return NextResponse.json({ ok: false, error: updateErr.message }, { status: 500 });
+  }
+
+  let releasesUpdated = 0;
+  for (const id of badCoverIds) {
+    const { error: relErr } = await admin
+      .from("releases")
+      .update({ cover_url: hit.cover_url, updated_at: nowIso() })
+      .eq("id", id);
+    if (!relErr) releasesUpdated += 1;
   }
 
+  await completeCatalogAudit(admin, auditId, {
+    after: { games: patch, release_ids: badCoverIds, releases_updated: releasesUpdated },
+  });
+
+  const relations = await recordGameRelationsBestEffort(admin, gameId, hit);
+
   return NextResponse.json({
     ok: true,
     game_id: gameId,
@@ -74,5 +122,7 @@ export async function POST(req: Request) {
     canonical_title: hit.title,
     cover_url: hit.cover_url ?? null,
     releases_updated: releasesUpdated,
+    relations_written: relations?.written ?? 0,
+    audit_id: auditId,
   });
 }
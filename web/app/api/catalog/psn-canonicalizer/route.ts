@@ -1,6 +1,6 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
-import { releaseExternalIdRow } from "@/lib/release-external-ids";
+import { mergeReleaseInto } from "@/lib/merge-release-into";
 import { supabaseRouteClient } from "@/lib/supabase/route-client";
 import { upsertGameIgdbFirst } from "@/lib/igdb/server";
 
@@ -165,21 +165,10 @@ export async function POST(req: Request) {
       });
     }
 
-    // 5) Apply merges (same tables as merge-release-duplicates)
-    const tablesWithReleaseId = [
-      "portfolio_entries",
-      "psn_title_progress",
-      "xbox_title_progress",
-      "steam_title_progress",
-      "ra_achievement_cache",
-    ] as const;
-
-    let movedPortfolio = 0;
-    let movedPsn = 0;
-    let movedXbox = 0;
-    let movedSteam = 0;
-    let movedRa = 0;
-    let movedExt = 0;
+    // 5) Apply merges via mergeReleaseInto (recorded in catalog_audit_log)
+    const moved: Record<string, number> = {};
+    const auditIds: string[] = [];
+    const failed: Array<{ release_id: string; error: string }> = [];
     let deletedReleases = 0;
 
     for (const plan of plans) {
@@ -187,39 +176,20 @@ export async function POST(req: Request) {
       const loserIds = plan.loser_ids.filter(Boolean);
       if (!winnerId || !loserIds.length) continue;
 
-      for (const table of tablesWithReleaseId) {
-        const { error: uErr } = await supabaseAdmin
-          .from(table)
-          .update({ release_id: winnerId })
-          .in("release_id", loserIds);
-        if (!uErr) {
-          if (table === "portfolio_entries") movedPortfolio += 1;
-          else if (table === "psn_title_progress") movedPsn += 1;
-          else if (table === "xbox_title_progress") movedXbox += 1;
-          else if (table === "steam_title_progress") movedSteam += 1;
-          else if (table === "ra_achievement_cache") movedRa += 1;
+      for (const loserId of loserIds) {
+        const res = await mergeReleaseInto(supabaseAdmin, winnerId, loserId, {
+          kind: "user",
+          id: userRes.user.id,
+          label: "/api/catalog/psn-canonicalizer",
+        });
+        if (!res.ok) {
+          failed.push({ release_id: loserId, error: res.error });
+          continue;
         }
+        auditIds.push(res.audit_id);
+        for (const [table, n] of Object.entries(res.moved)) moved[table] = (moved[table] ?? 0) + n;
+        deletedReleases += 1;
       }
-
-      const { data: extRows } = await supabaseAdmin
-        .from("release_external_ids")
-        .select("source, external_id")
-        .in("release_id", loserIds);
-
-      if (Array.isArray(extRows) && extRows.length) {
-        for (const x of extRows as { source: string; external_id: string }[]) {
-          await supabaseAdmin
-            .from("release_external_ids")
-            .upsert(releaseExternalIdRow(winnerId, x.source, x.external_id), {
-              onConflict: "source,external_id",
-            });
-          movedExt += 1;
-        }
-        await supabaseAdmin.from("release_external_ids").delete().in("release_id", loserIds);
-      }
-
-      const { error: delErr } = await supabaseAdmin.from("releases").delete().in("id", loserIds);
-      if (!delErr) deletedReleases += loserIds.length;
     }
 
     return NextResponse.json({
@@ -229,15 +199,10 @@ export async function POST(req: Request) {
       fixed_game_id: fixedGameId,
       fixed_platform_key: fixedPlatformKey,
       merge_groups: plans.length,
-      moved: {
-        portfolio_entries: movedPortfolio,
-        psn_title_progress: movedPsn,
-        xbox_title_progress: movedXbox,
-        steam_title_progress: movedSteam,
-        ra_achievement_cache: movedRa,
-        release_external_ids: movedExt,
-      },
+      moved,
       deleted_releases: deletedReleases,
+      failed,
+      audit_ids: auditIds,
       note: "Canonical release per (psn, game_id) is the one referenced by release_external_ids(source='psn').",
     });
   } catch (e: any) {
@@ -1,11 +1,13 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { upsertGameIgdbFirst, isLikelyNonGame } from "@/lib/igdb/server";
+import { fallbackMetadataProviders, fillMissingGameMetadata, metadataProviderChain } from "@/lib/metadata/resolve";
 
 /**
  * POST: process N games missing igdb_game_id or cover_url.
  * Idempotent: only writes games.igdb_game_id when match score >= 0.84 (accepted).
- * Below threshold we do NOT set igdb_game_id; game_match_audit + igdb_match_review_queue get the attempt.
+ * Below threshold we do NOT set igdb_game_id; game_match_audit + igdb_match_review_queue get the attempt,
+ * and missing fields are filled from the fallback metadata providers instead.
  * Query params: limit (default 100, max 500).
  */
 export async function POST(req: Request) {
@@ -53,6 +55,8 @@ export async function POST(req: Request) {
 
   let processed = 0;
   let accepted = 0;
+  let metadataFilled = 0;
+  const fallbackProviders = fallbackMetadataProviders(metadataProviderChain(admin));
   const errors: Array<{ game_id: string; title: string; error: string }> = [];
 
   for (const g of rows as { id: string; canonical_title: string; igdb_game_id: number | null }[]) {
@@ -73,6 +77,13 @@ export async function POST(req: Request) {
       });
       processed += 1;
       if (result.igdb_game_id != null) accepted += 1;
+      else if (fallbackProviders.length) {
+        const fill = await fillMissingGameMetadata(admin, result.game_id, title, {
+          providers: fallbackProviders,
+          platformHint: platform_key,
+        });
+        if (fill.filled.length) metadataFilled += 1;
+      }
     } catch (e: unknown) {
       const err = e instanceof Error ? e.message : String(e);
       errors.push({ game_id: String(g.id), title, error: err });
@@ -83,6 +94,7 @@ export async function POST(req: Request) {
     ok: true,
     processed,
     accepted,
+    metadata_filled: metadataFilled,
     errors: errors.slice(0, 25),
     message: `Processed ${processed} games; ${accepted} accepted (score >= 0.84).`,
   });
@@ -1,96 +1,67 @@
 import { NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
+import { isEraKey, searchCatalog, type CatalogSearchFilters } from "@/lib/catalog/search";
 
-export async function GET(req: Request) {
-  const url = new URL(req.url);
-  const q = (url.searchParams.get("q") ?? "").trim();
-  if (!q) return NextResponse.json([]);
+/**
+ * GET /api/catalog/search?q=&platform=snes,n64&era=snes&year=|year_min=&year_max=&cursor=&limit=
+ * POST { q, platform, era, year, year_min, year_max, cursor, limit } — same thing for long queries.
+ * Fuzzy, ranked release search (typos, "ff7", game_title_aliases). Returns
+ * { items, next_cursor, has_more, total, facets: { platforms, eras } }.
+ */
 
-  const { data, error } = await supabaseServer
-    .from("releases")
-    .select(
-      `
-      id,
-      display_title,
-      platform_key,
-      cover_url,
-      release_date,
-      game_id,
-      games:games (
-        display_title,
-        cover_url,
-        first_release_year
-      )
-    `
-    )
-    .ilike("display_title", `%${q}%`)
-    .order("display_title")
-    .limit(25);
+type SearchParams = Record<string, unknown>;
 
-  if (error) {
-    console.error("catalog search error", error);
-    return NextResponse.json([]);
-  }
+function toYear(v: unknown): number | null {
+  if (v == null || v === "") return null;
+  const n = Number(v);
+  return Number.isInteger(n) && n >= 1950 && n <= 2100 ? n : null;
+}
+
+function parseParams(p: SearchParams) {
+  const platformRaw = p.platform ?? p.platforms;
+  const platforms = (Array.isArray(platformRaw) ? platformRaw : String(platformRaw ?? "").split(","))
+    .map((s) => String(s).trim().toLowerCase())
+    .filter(Boolean);
 
-  const results = (data ?? []).map((r: any) => ({
-    id: r.id,
-    release_id: r.id,
-    display_title: r.display_title ?? r.games?.display_title ?? "Untitled",
-    title: r.display_title ?? r.games?.display_title,
-    platform_key: r.platform_key ?? null,
-    cover_url: r.cover_url ?? r.games?.cover_url ?? null,
-    year: r.games?.first_release_year ?? (r.release_date ? new Date(r.release_date).getFullYear() : null),
-    first_release_year: r.games?.first_release_year ?? null,
-  }));
+  const era = String(p.era ?? "").trim();
+  const year = toYear(p.year);
 
-  return NextResponse.json(results);
+  const filters: CatalogSearchFilters = {
+    platforms,
+    era: isEraKey(era) ? era : null,
+    year_min: year ?? toYear(p.year_min),
+    year_max: year ?? toYear(p.year_max),
+  };
+
+  return {
+    q: String(p.q ?? "").trim(),
+    filters,
+    cursor: p.cursor ? String(p.cursor) : null,
+    limit: Math.min(50, Math.max(1, Number(p.limit) || 25)),
+  };
 }
 
-export async function POST(req: Request) {
-  let q = "";
+async function run(p: SearchParams) {
+  const { q, filters, cursor, limit } = parseParams(p);
   try {
-    const body = await req.json();
-    q = String(body?.q ?? "").trim();
-  } catch {
-    return NextResponse.json([]);
+    return NextResponse.json(await searchCatalog(supabaseServer, q, filters, { cursor, limit }));
+  } catch (e) {
+    console.error("catalog search error", e);
+    return NextResponse.json({ error: e instanceof Error ? e.message : "Search failed" }, { status: 500 });
   }
-  if (!q) return NextResponse.json([]);
+}
 
-  const { data, error } = await supabaseServer
-    .from("releases")
-    .select(
-      `
-      id,
-      display_title,
-      platform_key,
-      cover_url,
-      release_date,
-      games:games (
-        display_title,
-        cover_url,
-        first_release_year
-      )
-    `
-    )
-    .ilike("display_title", `%${q}%`)
-    .order("display_title")
-    .limit(25);
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  return run(Object.fromEntries(url.searchParams.entries()));
+}
 
-  if (error) {
-    console.error("catalog search POST error", error);
-    return NextResponse.json([]);
+export async function POST(req: Request) {
+  let body: SearchParams;
+  try {
+    body = (await req.json()) ?? {};
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
   }
-
-  const results = (data ?? []).map((r: any) => ({
-    id: r.id,
-    release_id: r.id,
-    display_title: r.display_title ?? r.games?.display_title ?? "Untitled",
-    title: r.display_title ?? r.games?.display_title,
-    platform_key: r.platform_key ?? null,
-    cover_url: r.cover_url ?? r.games?.cover_url ?? null,
-    year: r.games?.first_release_year ?? (r.release_date ? new Date(r.release_date).getFullYear() : null),
-    first_release_year: r.games?.first_release_year ?? null,
-  }));
-
-  return NextResponse.json(results);
+  return run(body);
 }
@@ -2,6 +2,8 @@ import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { supabaseRouteClient } from "@/lib/supabase/route-client";
 import { igdbFetchGameById } from "@/lib/igdb/server";
+import { beginCatalogAudit, completeCatalogAudit, snapshotPatchedRows } from "@/lib/catalog/audit";
+import { stampMetadataSources } from "@/lib/metadata/sources";
 
 export async function POST(req: Request) {
   const supabaseUser = await supabaseRouteClient();
@@ -44,18 +46,43 @@ export async function POST(req: Request) {
     }
   }
 
+  const coverUrl = (patch.cover_url as string) ?? null;
+
+  let auditId: string;
+  try {
+    const gameRows = await snapshotPatchedRows(supabaseAdmin, "games", ["id"], [...Object.keys(patch), "metadata_sources"], (q) => q.eq("id", gameId));
+    patch.metadata_sources = stampMetadataSources(gameRows[0]?.row.metadata_sources, patch, "igdb");
+    const releaseRows = coverUrl
+      ? await snapshotPatchedRows(supabaseAdmin, "releases", ["id"], ["cover_url", "updated_at"], (q) => q.eq("game_id", gameId))
+      : [];
+    auditId = await beginCatalogAudit(supabaseAdmin, {
+      action: "igdb_pin",
+      actor: { kind: "user", id: userRes.user.id, label: "/api/catalog/set-igdb" },
+      target_type: "game",
+      target_id: gameId,
+      before: { rows: [...gameRows, ...releaseRows] },
+    });
+  } catch (e) {
+    return NextResponse.json({ error: e instanceof Error ? e.message : "Audit failed" }, { status: 500 });
+  }
+
   const { error: uErr } = await supabaseAdmin.from("games").update(patch).eq("id", gameId);
-  if (uErr) return NextResponse.json({ error: uErr.message }, { status: 500 });
+  if (uErr) {
+    await completeCatalogAudit(supabaseAdmin, auditId, { error: uErr.message });
+    return NextResponse.json({ error: uErr.message }, { status: 500 });
+  }
 
-  const coverUrl = (patch.cover_url as string) ?? null;
   if (coverUrl) {
     await supabaseAdmin.from("releases").update({ cover_url: coverUrl, updated_at: now }).eq("game_id", gameId);
   }
+  await completeCatalogAudit(supabaseAdmin, auditId, { after: { games: patch, release_cover_url: coverUrl } });
+
   return NextResponse.json({
     ok: true,
     game_id: gameId,
     igdb_game_id: igdbGameId,
     cover_url: coverUrl,
+    audit_id: auditId,
     note: coverUrl ? "IGDB id set; cover + metadata filled." : "IGDB id set; no cover returned.",
   });
 }
@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import { supabaseRouteClient } from "@/lib/supabase/route-client";
+import { supabaseServer } from "@/lib/supabase/server";
+import { loadIdentitySummary } from "@/lib/server/identity/loadIdentitySummary";
+import {
+  buildProfileComparison,
+  canCompare,
+  libraryFromRows,
+  loadCompareProfile,
+  loadLibraryRows,
+  sideShares,
+  type CompareSide,
+  type CompareSideData,
+} from "@/lib/social/compare";
+
+export const dynamic = "force-dynamic";
+
+async function loadSideData(side: CompareSide): Promise<CompareSideData> {
+  const needsLibrary = sideShares(side, "library") || sideShares(side, "platforms");
+  const needsIdentity = sideShares(side, "eras") || sideShares(side, "archetypes");
+  const [rows, summary] = await Promise.all([
+    needsLibrary ? loadLibraryRows(supabaseServer, side.user_id) : null,
+    needsIdentity ? loadIdentitySummary(supabaseServer, side.user_id) : null,
+  ]);
+  return {
+    profile: side,
+    library: rows ? libraryFromRows(rows) : null,
+    era_buckets: summary?.identity.era_buckets ?? null,
+    archetypes: summary?.identity.archetypes ?? null,
+  };
+}
+
+/**
+ * GET /api/compare/[a]/[b]?platform=SNES
+ * Two profiles side by side (lib/social/compare.ts). Either profile hidden by profile_visibility
+ * 404s unless it is the viewer's own; sections follow each side's profile_sharing toggles.
+ * `platform` narrows the game lists to one platform label when both sides share platforms.
+ */
+export async function GET(req: Request, ctx: { params: Promise<{ a: string; b: string }> }) {
+  const { a: rawA, b: rawB } = await ctx.params;
+  const usernameA = decodeURIComponent(rawA ?? "").trim();
+  const usernameB = decodeURIComponent(rawB ?? "").trim();
+  if (!usernameA || !usernameB) return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+  if (usernameA.toLowerCase() === usernameB.toLowerCase()) {
+    return NextResponse.json({ ok: false, error: "Pick two different profiles" }, { status: 400 });
+  }
+
+  let viewerId: string | null = null;
+  try {
+    const supabase = await supabaseRouteClient();
+    const { data } = await supabase.auth.getUser();
+    viewerId = data?.user?.id ?? null;
+  } catch {
+    // signed out
+  }
+
+  try {
+    const [profileA, profileB] = await Promise.all([
+      loadCompareProfile(supabaseServer, usernameA),
+      loadCompareProfile(supabaseServer, usernameB),
+    ]);
+    if (!profileA || !profileB) return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+
+    const sideA: CompareSide = { ...profileA, is_viewer: profileA.user_id === viewerId };
+    const sideB: CompareSide = { ...profileB, is_viewer: profileB.user_id === viewerId };
+    if (!canCompare(sideA, sideB)) return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+
+    const [dataA, dataB] = await Promise.all([loadSideData(sideA), loadSideData(sideB)]);
+    const comparison = buildProfileComparison(dataA, dataB, {
+      platform: new URL(req.url).searchParams.get("platform"),
+    });
+
+    return NextResponse.json({ ok: true, ...comparison });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Server error" }, { status: 500 });
+  }
+}
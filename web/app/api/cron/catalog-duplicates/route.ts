@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { requireCron } from "@/lib/admin/requireCron";
+import { supabaseServer } from "@/lib/supabase/server";
+import { runDuplicateDetection } from "@/lib/catalog/duplicates";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+/**
+ * GET /api/cron/catalog-duplicates?dry_run=1&max_auto_merges=50
+ * Find likely duplicate games/releases and queue them for /admin/duplicate-review. Safe pairs are
+ * only merged when max_auto_merges is given (default 0: everything goes to review).
+ */
+export async function GET(req: Request) {
+  const gate = requireCron(req);
+  if (!gate.ok) return gate.res;
+
+  const url = new URL(req.url);
+  const dryRun = url.searchParams.get("dry_run") === "1";
+  const maxAutoMerges = Math.min(Math.max(Number(url.searchParams.get("max_auto_merges") ?? 0) || 0, 0), 500);
+
+  try {
+    const result = await runDuplicateDetection(supabaseServer, { dry_run: dryRun, max_auto_merges: maxAutoMerges });
+    return NextResponse.json({ ok: true, ...result });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Duplicate detection failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { requireCron } from "@/lib/admin/requireCron";
+import { supabaseServer } from "@/lib/supabase/server";
+import { runCoverIngest } from "@/lib/images/pipeline";
+import { coverStorageFromEnv } from "@/lib/images/storage";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+/**
+ * GET /api/cron/cover-ingest?limit=50&dry_run=1
+ * Cache covers that have no asset yet and retry broken sources whose backoff has passed.
+ */
+export async function GET(req: Request) {
+  const gate = requireCron(req);
+  if (!gate.ok) return gate.res;
+
+  const url = new URL(req.url);
+  const dryRun = url.searchParams.get("dry_run") === "1";
+  const limit = Math.min(Math.max(Number(url.searchParams.get("limit") ?? 50) || 50, 1), 200);
+
+  try {
+    const result = await runCoverIngest(supabaseServer, coverStorageFromEnv(supabaseServer), { limit, dry_run: dryRun });
+    return NextResponse.json({ ok: true, ...result });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Cover ingest failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { requireCron } from "@/lib/admin/requireCron";
+import { supabaseServer } from "@/lib/supabase/server";
+import { refreshLeaderboards } from "@/lib/leaderboard/ranks";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+const REFRESH_BUDGET_MS = 240_000;
+
+/**
+ * GET /api/cron/leaderboard — rescore the next page of public profiles with the v11 score, resuming
+ * the pass where the previous run stopped; the run that reaches the last profile rewrites
+ * leaderboard_entries (global, era and platform boards).
+ */
+export async function GET(req: Request) {
+  const gate = requireCron(req);
+  if (!gate.ok) return gate.res;
+
+  try {
+    const summary = await refreshLeaderboards(supabaseServer, { budgetMs: REFRESH_BUDGET_MS });
+    return NextResponse.json({ ok: true, ...summary });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Leaderboard refresh failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { requireCron } from "@/lib/admin/requireCron";
+import { supabaseServer } from "@/lib/supabase/server";
+import { fakeClock, runResyncPass, systemClock } from "@/lib/sync/schedule";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/cron/resync — queue automatic re-syncs for due sync_schedules rows.
+ * Jobs are processed by /api/cron/sync-jobs. Outside production, ?now=<ISO> runs the pass
+ * against a fake clock (e.g. to check backoff without waiting days).
+ */
+export async function GET(req: Request) {
+  const gate = requireCron(req);
+  if (!gate.ok) return gate.res;
+
+  const nowParam = new URL(req.url).searchParams.get("now");
+  let clock = systemClock;
+  if (nowParam && process.env.NODE_ENV !== "production") {
+    if (!Number.isFinite(new Date(nowParam).getTime())) {
+      return NextResponse.json({ ok: false, error: "now must be an ISO timestamp" }, { status: 400 });
+    }
+    clock = fakeClock(nowParam);
+  }
+
+  try {
+    const results = await runResyncPass(supabaseServer, clock);
+    const enqueued = results.filter((r) => r.action === "enqueue").length;
+    return NextResponse.json({
+      ok: true,
+      now: clock.now().toISOString(),
+      evaluated: results.length,
+      enqueued,
+      results,
+    });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Resync pass failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { requireCron } from "@/lib/admin/requireCron";
+import { supabaseServer } from "@/lib/supabase/server";
+import { claimSyncJob } from "@/lib/sync/jobs";
+import { runSyncJob, type SyncJobRunResult } from "@/lib/sync/run-job";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+const WORKER_BUDGET_MS = 50_000;
+const MIN_SLICE_MS = 5_000;
+
+/**
+ * GET /api/cron/sync-jobs — queue worker. Claims due jobs one at a time (oldest next_run_at first,
+ * plus stale running jobs) and runs each until the shared budget is spent.
+ */
+export async function GET(req: Request) {
+  const gate = requireCron(req);
+  if (!gate.ok) return gate.res;
+
+  const deadline = Date.now() + WORKER_BUDGET_MS;
+  const worker = `cron:${crypto.randomUUID()}`;
+  const runs: SyncJobRunResult[] = [];
+
+  try {
+    while (deadline - Date.now() > MIN_SLICE_MS) {
+      const job = await claimSyncJob(supabaseServer, worker);
+      if (!job) break;
+      runs.push(await runSyncJob(supabaseServer, job, { budgetMs: deadline - Date.now() }));
+    }
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Worker failed", runs }, { status: 500 });
+  }
+
+  return NextResponse.json({ ok: true, worker, runs });
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { supabaseRouteClient } from "@/lib/supabase/route-client";
+import { supabaseServer } from "@/lib/supabase/server";
+import { loadFriendsFeed } from "@/lib/social/feed";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/feed?before=<cursor>&limit=
+ * Friends activity for GameHome: completions, platinums / 100%s, memories and archetype shifts of
+ * accepted follows, filtered by each author's profile_sharing. Pass next_cursor as before for more.
+ */
+export async function GET(req: Request) {
+  let viewerId: string | null = null;
+  try {
+    const supabase = await supabaseRouteClient();
+    const { data } = await supabase.auth.getUser();
+    viewerId = data?.user?.id ?? null;
+  } catch {
+    // signed out
+  }
+  if (!viewerId) return NextResponse.json({ ok: false, error: "Not logged in" }, { status: 401 });
+
+  const url = new URL(req.url);
+  try {
+    const page = await loadFriendsFeed(supabaseServer, viewerId, {
+      before: url.searchParams.get("before"),
+      limit: Number(url.searchParams.get("limit")) || undefined,
+    });
+    return NextResponse.json({ ok: true, ...page });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Failed to load feed" }, { status: 500 });
+  }
+}
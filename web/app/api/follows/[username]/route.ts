@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { supabaseRouteClient } from "@/lib/supabase/route-client";
+import { supabaseServer } from "@/lib/supabase/server";
+import { isProfileVisible } from "@/lib/profile/sharing";
+import { isFollowListKind, loadFollowList, loadFollowSummary, loadSocialProfile } from "@/lib/social/follows";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/follows/[username]?list=followers|following&limit=&offset=
+ * Follower/following counts, the viewer's relationship to the profile, and optionally one list.
+ * Same visibility gate as the public profile: hidden profiles 404 for everyone but the owner.
+ */
+export async function GET(req: Request, ctx: { params: Promise<{ username: string }> }) {
+  const { username: raw } = await ctx.params;
+  const username = decodeURIComponent(raw ?? "").trim();
+  if (!username) return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+
+  const url = new URL(req.url);
+  const list = url.searchParams.get("list");
+  if (list != null && !isFollowListKind(list)) {
+    return NextResponse.json({ ok: false, error: "list must be followers or following" }, { status: 400 });
+  }
+
+  let viewerId: string | null = null;
+  try {
+    const supabase = await supabaseRouteClient();
+    const { data } = await supabase.auth.getUser();
+    viewerId = data?.user?.id ?? null;
+  } catch {
+    // signed out
+  }
+
+  try {
+    const profile = await loadSocialProfile(supabaseServer, username);
+    if (!profile || (profile.user_id !== viewerId && !isProfileVisible(profile))) {
+      return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+    }
+
+    const summary = await loadFollowSummary(supabaseServer, profile.user_id, viewerId);
+    const items = isFollowListKind(list)
+      ? await loadFollowList(supabaseServer, profile.user_id, list, {
+          limit: Number(url.searchParams.get("limit")) || undefined,
+          offset: Number(url.searchParams.get("offset")) || undefined,
+        })
+      : undefined;
+
+    return NextResponse.json({ ok: true, ...summary, ...(items ? { list, items } : {}) });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Server error" }, { status: 500 });
+  }
+}
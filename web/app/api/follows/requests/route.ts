@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { supabaseRouteClient } from "@/lib/supabase/route-client";
+import { supabaseServer } from "@/lib/supabase/server";
+import { loadFollowRequests, loadSocialProfile, respondToFollowRequest } from "@/lib/social/follows";
+
+export const dynamic = "force-dynamic";
+
+async function viewerId(): Promise<string | null> {
+  try {
+    const supabase = await supabaseRouteClient();
+    const { data } = await supabase.auth.getUser();
+    return data?.user?.id ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET /api/follows/requests
+ * Pending requests to follow the signed-in user (only unlisted profiles receive them).
+ */
+export async function GET() {
+  const userId = await viewerId();
+  if (!userId) return NextResponse.json({ ok: false, error: "Not logged in" }, { status: 401 });
+
+  try {
+    const requests = await loadFollowRequests(supabaseServer, userId);
+    return NextResponse.json({ ok: true, requests });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Server error" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/follows/requests { username, action: "approve" | "reject" }
+ * Rejecting deletes the request; the requester can ask again.
+ */
+export async function POST(req: Request) {
+  const userId = await viewerId();
+  if (!userId) return NextResponse.json({ ok: false, error: "Not logged in" }, { status: 401 });
+
+  let body: { username?: string; action?: string };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON" }, { status: 400 });
+  }
+  const username = body?.username?.trim();
+  if (!username) return NextResponse.json({ ok: false, error: "Missing username" }, { status: 400 });
+  if (body.action !== "approve" && body.action !== "reject") {
+    return NextResponse.json({ ok: false, error: "action must be approve or reject" }, { status: 400 });
+  }
+
+  try {
+    const requester = await loadSocialProfile(supabaseServer, username);
+    const updated = requester
+      ? await respondToFollowRequest(supabaseServer, userId, requester.user_id, body.action === "approve")
+      : false;
+    if (!updated) return NextResponse.json({ ok: false, error: "No pending request" }, { status: 404 });
+    return NextResponse.json({ ok: true, status: body.action === "approve" ? "accepted" : null });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Server error" }, { status: 500 });
+  }
+}
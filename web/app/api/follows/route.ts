@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { supabaseRouteClient } from "@/lib/supabase/route-client";
+import { supabaseServer } from "@/lib/supabase/server";
+import { isProfileVisible } from "@/lib/profile/sharing";
+import { followUser, loadSocialProfile, unfollowUser } from "@/lib/social/follows";
+
+export const dynamic = "force-dynamic";
+
+async function viewerId(): Promise<string | null> {
+  try {
+    const supabase = await supabaseRouteClient();
+    const { data } = await supabase.auth.getUser();
+    return data?.user?.id ?? null;
+  } catch {
+    return null;
+  }
+}
+
+async function readUsername(req: Request): Promise<string | null> {
+  try {
+    const body = (await req.json()) as { username?: string };
+    return body?.username?.trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * POST /api/follows { username }
+ * Follow a public profile (accepted) or request to follow an unlisted one (pending until the owner
+ * approves via /api/follows/requests). Private profiles 404.
+ */
+export async function POST(req: Request) {
+  const userId = await viewerId();
+  if (!userId) return NextResponse.json({ ok: false, error: "Not logged in" }, { status: 401 });
+
+  const username = await readUsername(req);
+  if (!username) return NextResponse.json({ ok: false, error: "Missing username" }, { status: 400 });
+
+  try {
+    const target = await loadSocialProfile(supabaseServer, username);
+    if (!target || !isProfileVisible(target)) {
+      return NextResponse.json({ ok: false, error: "Not found" }, { status: 404 });
+    }
+    if (target.user_id === userId) {
+      return NextResponse.json({ ok: false, error: "You can't follow yourself" }, { status: 400 });
+    }
+    const status = await followUser(supabaseServer, userId, target);
+    return NextResponse.json({ ok: true, status });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Server error" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/follows { username }
+ * Unfollow, or withdraw a pending request.
+ */
+export async function DELETE(req: Request) {
+  const userId = await viewerId();
+  if (!userId) return NextResponse.json({ ok: false, error: "Not logged in" }, { status: 401 });
+
+  const username = await readUsername(req);
+  if (!username) return NextResponse.json({ ok: false, error: "Missing username" }, { status: 400 });
+
+  try {
+    const target = await loadSocialProfile(supabaseServer, username);
+    if (target) await unfollowUser(supabaseServer, userId, target.user_id);
+    return NextResponse.json({ ok: true, status: null });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Server error" }, { status: 500 });
+  }
+}
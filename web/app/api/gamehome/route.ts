@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { supabaseRouteClient } from "@/lib/supabase/route-client";
+import { COVER_ASSET_SELECT, coverImageFromAsset, type CoverAssetRow, type CoverImage } from "@/lib/images/cover";
 
 type ReleaseCard = {
   release_id: string;
@@ -10,6 +11,8 @@ type ReleaseCard = {
   platform_name: string | null;
   platform_label: string | null;
   cover_url: string | null;
+  /** Cached variants + placeholder for cover_url (game's asset first, like cover_url); null until ingested. */
+  cover_image: CoverImage | null;
   first_release_year: number | null;
 
   status: string;
@@ -43,6 +46,7 @@ type GameCard = {
   game_id: string;
   title: string;
   cover_url: string | null;
+  cover_image: CoverImage | null;
   status: string;
   first_release_year: number | null;
 
@@ -116,7 +120,11 @@ function platformChip(platform_key: string | null, platform_label: string | null
   return platform_key.toUpperCase();
 }
 
-function reduceToGameCards(releaseCards: ReleaseCard[], gameCoversByGameId: Map<string, string | null>): GameCard[] {
+function reduceToGameCards(
+  releaseCards: ReleaseCard[],
+  gameCoversByGameId: Map<string, string | null>,
+  gameImagesByGameId: Map<string, CoverImage>
+): GameCard[] {
   const byGame = new Map<string, ReleaseCard[]>();
 
   for (const r of releaseCards) {
@@ -136,6 +144,7 @@ function reduceToGameCards(releaseCards: ReleaseCard[], gameCoversByGameId: Map<
     const gameCover = gameCoversByGameId.get(game_id) ?? null;
     const releaseCover = rels.find((x) => x.cover_url)?.cover_url ?? null;
     const cover_url = gameCover ?? releaseCover ?? null;
+    const cover_image = gameImagesByGameId.get(game_id) ?? rels.find((x) => x.cover_image)?.cover_image ?? null;
     const status = bestStatus(rels.map((x) => x.status));
 
     const platforms = uniq(
@@ -204,6 +213,7 @@ function reduceToGameCards(releaseCards: ReleaseCard[], gameCoversByGameId: Map<
       game_id,
       title,
       cover_url,
+      cover_image,
       status,
       first_release_year,
 
@@ -262,10 +272,12 @@ export async function GET(req: Request) {
         platform_name,
         platform_label,
         cover_url,
+        cover_asset:cover_asset_id (${COVER_ASSET_SELECT}),
         games:game_id (
           id,
           cover_url,
-          first_release_year
+          first_release_year,
+          cover_asset:cover_asset_id (${COVER_ASSET_SELECT})
         )
       )
     `
@@ -388,6 +400,12 @@ export async function GET(req: Request) {
           : null;
       // Cover precedence: game.cover_url (IGDB canonical) first, then release, then psn icon
       const cover_url = gameCover ?? releaseCover ?? psn?.title_icon_url ?? null;
+      // Cached image for whichever cover won above (the psn icon is not cached)
+      const cover_image = gameCover
+        ? coverImageFromAsset(rel?.games?.cover_asset)
+        : releaseCover
+          ? coverImageFromAsset(rel?.cover_asset)
+          : null;
 
       return {
         release_id: rid,
@@ -397,6 +415,7 @@ export async function GET(req: Request) {
         platform_name: rel.platform_name ?? null,
         platform_label: rel.platform_label ?? null,
         cover_url,
+        cover_image,
         first_release_year,
 
         status: String(r?.status ?? "owned"),
@@ -437,11 +456,12 @@ export async function GET(req: Request) {
     });
   }
 
-  // Build map of game_id -> game.cover_url for fallback in reduceToGameCards
+  // Build map of game_id -> game.cover_url (and its cached image) for fallback in reduceToGameCards
   const gameCoversByGameId = new Map<string, string | null>();
+  const gameImagesByGameId = new Map<string, CoverImage>();
   for (const r of pageRows) {
     const rel = (Array.isArray(r?.releases) ? r.releases[0] : r?.releases) as
-      | { game_id?: string; games?: { cover_url?: string } }
+      | { game_id?: string; games?: { cover_url?: string; cover_asset?: CoverAssetRow | null } }
       | null
       | undefined;
     if (rel?.game_id && rel?.games?.cover_url) {
@@ -449,11 +469,13 @@ export async function GET(req: Request) {
       const gameCover = rel.games.cover_url;
       if (!gameCoversByGameId.has(gameId)) {
         gameCoversByGameId.set(gameId, gameCover);
+        const image = coverImageFromAsset(rel.games.cover_asset);
+        if (image) gameImagesByGameId.set(gameId, image);
       }
     }
   }
 
-  const gameCards = reduceToGameCards(releaseCards, gameCoversByGameId);
+  const gameCards = reduceToGameCards(releaseCards, gameCoversByGameId, gameImagesByGameId);
   return NextResponse.json({
     ok: true,
     mode,
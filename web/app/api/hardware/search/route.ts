@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseRouteClient } from "@/lib/supabase/route-client";
 import { supabaseServer } from "@/lib/supabase/server";
+import { hardwareSupportsRa } from "@/lib/ra/consoles";
 
 function stripBrands(q: string) {
   const stop = new Set([
@@ -67,6 +68,17 @@ export async function GET(req: NextRequest) {
     // ignore fallback failures; we'll just return the original empty results
   }
 
+  // ?ra=1 (default RA device picker): drop hardware that plays no RetroAchievements console
+  if (req.nextUrl.searchParams.get("ra") === "1" && results.length) {
+    const ids = results.map((r: { id: string }) => r.id);
+    const { data: caps } = await supabaseServer
+      .from("hardware")
+      .select("id, ra_console_ids, is_modern_retro_handheld")
+      .in("id", ids);
+    const ok = new Set((caps ?? []).filter(hardwareSupportsRa).map((h) => h.id));
+    results = results.filter((r: { id: string }) => ok.has(r.id));
+  }
+
   // Log (never break UX)
   let logStatus: any = { attempted: false };
 
@@ -8,6 +8,7 @@ import {
   type GetIdentitySignalsJson,
 } from "@/lib/identity/compute";
 import { computeArchetypes } from "@/lib/identity/archetypes";
+import { getVariantStats } from "@/lib/identity/getVariantStats";
 
 function nowIso() {
   return new Date().toISOString();
@@ -134,6 +135,7 @@ export async function POST() {
       );
     } else {
       const json = signalsJson as GetIdentitySignalsJson;
+      json.variant_stats = await getVariantStats(admin, userId).catch(() => null);
       const signals = identitySignalsFromGetIdentitySignalsJson(json);
       const results = computeArchetypes(signals);
       const eraKey = normalizeEraKey(json?.primary_era_key ?? json?.top_era_weighted);
@@ -24,7 +24,7 @@ export async function GET() {
       .eq("user_id", user.id)
       .maybeSingle();
 
-    const { identity, played_on, played_on_by_era } = await loadIdentitySummary(supabaseServer as any, user.id, {
+    const { identity, played_on, played_on_by_era, series_progress } = await loadIdentitySummary(supabaseServer, user.id, {
       lifetimeScoreOverride: (profile as any)?.gamer_score_v11 ?? null,
     });
 
@@ -56,6 +56,7 @@ export async function GET() {
       timeline: timeline ?? { stats: {}, standouts: {} },
       played_on,
       played_on_by_era: played_on_by_era ?? {},
+      series_progress,
     });
   } catch (e: any) {
     return NextResponse.json({ ok: false, error: e?.message ?? "Failed" }, { status: 500 });
@@ -16,6 +16,16 @@ export async function POST(req: Request) {
     process.env.SUPABASE_SERVICE_ROLE_KEY!
   );
 
+  // Optional preference change before recomputing: { count_remakes_in_original_era: boolean }
+  const body = await req.json().catch(() => ({}));
+  if (typeof body?.count_remakes_in_original_era === "boolean") {
+    const { error: prefErr } = await admin
+      .from("profiles")
+      .update({ count_remakes_in_original_era: body.count_remakes_in_original_era, updated_at: new Date().toISOString() })
+      .eq("user_id", userId);
+    if (prefErr) return NextResponse.json({ ok: false, error: prefErr.message }, { status: 500 });
+  }
+
   const stats = await getUserStats(admin, userId);
   const archetypes = computeArchetypes(stats);
 
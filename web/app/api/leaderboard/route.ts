@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { supabaseRouteClient } from "@/lib/supabase/route-client";
+import { supabaseServer } from "@/lib/supabase/server";
+import { isLeaderboardBoard, isLeaderboardScope } from "@/lib/leaderboard/boards";
+import { readLeaderboard } from "@/lib/leaderboard/ranks";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/leaderboard?board=global|era:<EraKey>|platform:<key>&scope=all|friends&limit=
+ * Reads the precomputed leaderboard_entries (refreshed by /api/cron/leaderboard). Signed-out
+ * viewers get the public board without a `me` row; scope=friends needs a session.
+ */
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const board = url.searchParams.get("board") ?? "global";
+  const scope = url.searchParams.get("scope") ?? "all";
+  const limit = Math.min(100, Math.max(1, Number(url.searchParams.get("limit")) || 20));
+
+  if (!isLeaderboardBoard(board)) {
+    return NextResponse.json({ ok: false, error: "Unknown board" }, { status: 400 });
+  }
+  if (!isLeaderboardScope(scope)) {
+    return NextResponse.json({ ok: false, error: "scope must be all or friends" }, { status: 400 });
+  }
+
+  let viewerId: string | null = null;
+  try {
+    const supabase = await supabaseRouteClient();
+    const { data } = await supabase.auth.getUser();
+    viewerId = data?.user?.id ?? null;
+  } catch {
+    // signed out
+  }
+
+  if (scope === "friends" && !viewerId) {
+    return NextResponse.json({ ok: false, error: "Not logged in" }, { status: 401 });
+  }
+
+  try {
+    const view = await readLeaderboard(supabaseServer, { board, scope, viewerId, limit });
+    return NextResponse.json({ ok: true, ...view });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Failed to load leaderboard" }, { status: 500 });
+  }
+}
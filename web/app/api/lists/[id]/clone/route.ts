@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { supabaseRoute } from "@/lib/supabase/route";
+import { supabaseServer } from "@/lib/supabase/server";
+import { cloneList, loadListForViewer, toListSummary } from "@/lib/lists/lists";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * POST /api/lists/[id]/clone
+ * Copies a list the viewer can see into a new private list of their own (order and notes kept).
+ */
+export async function POST(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { id: listId } = await ctx.params;
+  const supabase = await supabaseRoute();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: "Not logged in" }, { status: 401 });
+
+  try {
+    const found = await loadListForViewer(supabaseServer, listId, user.id);
+    if (!found) return NextResponse.json({ error: "List not found" }, { status: 404 });
+    if (found.role === "owner") return NextResponse.json({ error: "This is already your list" }, { status: 400 });
+
+    const copy = await cloneList(supabaseServer, found.list, user.id);
+    return NextResponse.json({ ok: true, list: toListSummary(copy) });
+  } catch (e) {
+    return NextResponse.json({ error: e instanceof Error ? e.message : "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { supabaseRoute } from "@/lib/supabase/route";
+import { supabaseServer } from "@/lib/supabase/server";
+import { isProfileVisible } from "@/lib/profile/sharing";
+import { loadSocialProfile, toSocialUser } from "@/lib/social/follows";
+import { loadListForViewer, touchList } from "@/lib/lists/lists";
+
+export const dynamic = "force-dynamic";
+
+async function signedInUserId(): Promise<string | null> {
+  const supabase = await supabaseRoute();
+  const { data } = await supabase.auth.getUser();
+  return data?.user?.id ?? null;
+}
+
+/**
+ * POST /api/lists/[id]/collaborators { username }
+ * Owner only. Collaborators can add items to the list and edit the ones they added. Like follows,
+ * only profiles others can open (profile_visibility) can be invited.
+ */
+export async function POST(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { id: listId } = await ctx.params;
+  const userId = await signedInUserId();
+  if (!userId) return NextResponse.json({ error: "Not logged in" }, { status: 401 });
+
+  const body = await req.json().catch(() => ({}));
+  const username = typeof body?.username === "string" ? body.username.trim().replace(/^@/, "") : "";
+  if (!username) return NextResponse.json({ error: "username required" }, { status: 400 });
+
+  try {
+    const found = await loadListForViewer(supabaseServer, listId, userId);
+    if (!found) return NextResponse.json({ error: "List not found" }, { status: 404 });
+    if (found.role !== "owner" || found.list.is_smart || found.list.is_curated) {
+      return NextResponse.json({ error: "Only the owner can invite collaborators" }, { status: 403 });
+    }
+
+    const profile = await loadSocialProfile(supabaseServer, username);
+    if (!profile || !isProfileVisible(profile)) return NextResponse.json({ error: "User not found" }, { status: 404 });
+    if (profile.user_id === userId) return NextResponse.json({ error: "You already own this list" }, { status: 400 });
+
+    const { error } = await supabaseServer
+      .from("list_collaborators")
+      .upsert(
+        { list_id: found.list.id, user_id: profile.user_id, added_by: userId },
+        { onConflict: "list_id,user_id", ignoreDuplicates: true }
+      );
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+    await touchList(supabaseServer, found.list.id);
+
+    return NextResponse.json({ ok: true, collaborator: toSocialUser(profile) });
+  } catch (e) {
+    return NextResponse.json({ error: e instanceof Error ? e.message : "Server error" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/lists/[id]/collaborators { username }
+ * The owner removes a collaborator, or a collaborator leaves (their items stay on the list).
+ */
+export async function DELETE(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { id: listId } = await ctx.params;
+  const userId = await signedInUserId();
+  if (!userId) return NextResponse.json({ error: "Not logged in" }, { status: 401 });
+
+  const body = await req.json().catch(() => ({}));
+  const username = typeof body?.username === "string" ? body.username.trim().replace(/^@/, "") : "";
+  if (!username) return NextResponse.json({ error: "username required" }, { status: 400 });
+
+  try {
+    const found = await loadListForViewer(supabaseServer, listId, userId);
+    if (!found) return NextResponse.json({ error: "List not found" }, { status: 404 });
+
+    const profile = await loadSocialProfile(supabaseServer, username);
+    if (!profile || !found.collaboratorIds.includes(profile.user_id)) {
+      return NextResponse.json({ error: "Not a collaborator" }, { status: 404 });
+    }
+    if (found.role !== "owner" && profile.user_id !== userId) {
+      return NextResponse.json({ error: "Only the owner can remove collaborators" }, { status: 403 });
+    }
+
+    const { error } = await supabaseServer
+      .from("list_collaborators")
+      .delete()
+      .eq("list_id", found.list.id)
+      .eq("user_id", profile.user_id);
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    return NextResponse.json({ error: e instanceof Error ? e.message : "Server error" }, { status: 500 });
+  }
+}
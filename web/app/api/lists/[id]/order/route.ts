@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { supabaseRoute } from "@/lib/supabase/route";
+import { supabaseServer } from "@/lib/supabase/server";
+import { isListReorder, loadListForViewer, loadListItemRows, writeListOrder } from "@/lib/lists/lists";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * PUT /api/lists/[id]/order { release_ids: string[] }
+ * Owner only. `release_ids` must be every item of the list exactly once, in the new order
+ * (position 1 first; that is the #1 of a ranked list).
+ */
+export async function PUT(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { id: listId } = await ctx.params;
+  const supabase = await supabaseRoute();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: "Not logged in" }, { status: 401 });
+
+  const body = await req.json().catch(() => ({}));
+  const releaseIds: unknown = body?.release_ids;
+  if (!Array.isArray(releaseIds) || !releaseIds.every((id) => typeof id === "string")) {
+    return NextResponse.json({ error: "release_ids must be an array of release ids" }, { status: 400 });
+  }
+
+  try {
+    const found = await loadListForViewer(supabaseServer, listId, user.id);
+    if (!found) return NextResponse.json({ error: "List not found" }, { status: 404 });
+    if (found.role !== "owner" || found.list.is_smart) {
+      return NextResponse.json({ error: "Only the owner can reorder this list" }, { status: 403 });
+    }
+
+    const rows = await loadListItemRows(supabaseServer, found.list);
+    if (!isListReorder(rows.map((r) => r.release_id), releaseIds)) {
+      return NextResponse.json({ error: "release_ids must list every item exactly once" }, { status: 409 });
+    }
+
+    await writeListOrder(supabaseServer, found.list.id, releaseIds);
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    return NextResponse.json({ error: e instanceof Error ? e.message : "Server error" }, { status: 500 });
+  }
+}
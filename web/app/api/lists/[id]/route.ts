@@ -1,86 +1,125 @@
 import { NextResponse } from "next/server";
 import { supabaseRoute } from "@/lib/supabase/route";
+import { supabaseServer } from "@/lib/supabase/server";
+import { isProfileVisible } from "@/lib/profile/sharing";
+import { loadSocialProfilesByIds, toSocialUser } from "@/lib/social/follows";
+import {
+  canAddListItems,
+  isListVisibility,
+  listTitle,
+  loadListCollaborators,
+  loadListForViewer,
+  loadListItemRows,
+  presentListItems,
+  toListSummary,
+} from "@/lib/lists/lists";
 
-export async function GET(
-  _req: Request,
-  ctx: { params: Promise<{ id: string }> }
-) {
-  const { id } = await ctx.params;
-  const listId = id;
+export const dynamic = "force-dynamic";
 
+async function viewerId(): Promise<string | null> {
+  try {
+    const supabase = await supabaseRoute();
+    const { data } = await supabase.auth.getUser();
+    return data?.user?.id ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET /api/lists/[id]
+ * The list in order with notes, the viewer's role and what they may do. Works signed out for
+ * curated, public and unlisted lists; private lists 404 for everyone but owner and collaborators.
+ */
+export async function GET(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { id: listId } = await ctx.params;
   if (!listId || listId === "undefined") {
     return NextResponse.json({ error: "Missing list id in URL" }, { status: 400 });
   }
 
-  const supabase = await supabaseRoute();
-  const { data: { user } } = await supabase.auth.getUser();
-  if (!user) return NextResponse.json({ error: "Not logged in" }, { status: 401 });
+  const userId = await viewerId();
 
-  // 1) Load list (must be yours OR curated)
-  const { data: list, error: lErr } = await supabase
-    .from("lists")
-    .select("id, title, name, description, is_curated, user_id, created_at")
-    .eq("id", listId)
-    .maybeSingle();
+  try {
+    const found = await loadListForViewer(supabaseServer, listId, userId);
+    if (!found) return NextResponse.json({ error: "List not found" }, { status: 404 });
+    const { list, role, collaboratorIds } = found;
 
-  if (lErr) return NextResponse.json({ error: lErr.message }, { status: 500 });
-  if (!list) return NextResponse.json({ error: "List not found" }, { status: 404 });
+    const [rows, collaborators, owners] = await Promise.all([
+      loadListItemRows(supabaseServer, list),
+      loadListCollaborators(supabaseServer, collaboratorIds, { includeHidden: role !== "viewer" }),
+      loadSocialProfilesByIds(supabaseServer, [list.user_id]),
+    ]);
+    const ownerProfile = owners.get(list.user_id);
+    const owner =
+      ownerProfile && (role !== "viewer" || isProfileVisible(ownerProfile)) ? toSocialUser(ownerProfile) : null;
 
-  const L = list as any;
+    return NextResponse.json({
+      list: { ...toListSummary(list), rules: list.rules ?? {} },
+      owner,
+      collaborators,
+      role,
+      can_add: canAddListItems(role, list),
+      can_clone: !!userId && role !== "owner",
+      items: presentListItems(rows, list, role, userId),
+    });
+  } catch (e) {
+    return NextResponse.json({ error: e instanceof Error ? e.message : "Server error" }, { status: 500 });
+  }
+}
 
-  const isOwner = list.user_id === user.id;
-  const canView = list.is_curated === true || isOwner;
-  if (!canView) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+/**
+ * PATCH /api/lists/[id]
+ * Owner only: { title?, description?, visibility?: private|unlisted|public, is_ranked? }.
+ */
+export async function PATCH(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { id: listId } = await ctx.params;
+  const userId = await viewerId();
+  if (!userId) return NextResponse.json({ error: "Not logged in" }, { status: 401 });
 
-  // 2) Load items + release meta
-  let items: any[] = [];
+  const body = await req.json().catch(() => ({}));
+  const patch: Record<string, unknown> = {};
 
-  if (L.is_smart) {
-    const rules = (L.rules ?? {}) as any;
-  
-  
-    const statuses: string[] = Array.isArray(rules.statuses) ? rules.statuses : [];
-    const platformKeys: string[] = Array.isArray(rules.platform_keys) ? rules.platform_keys : [];
-  
-    // Pull from portfolio items and join release meta
-    let q = supabase
-      .from("portfolio_items")
-      .select("release_id, releases(id, display_title, platform_name, platform_key, cover_url)")
-      .eq("user_id", user.id);
-  
-    if (statuses.length > 0) q = q.in("status", statuses);
-    if (platformKeys.length > 0) q = q.in("releases.platform_key", platformKeys);
-  
-    const { data: rows, error: sErr } = await q;
-    if (sErr) return NextResponse.json({ error: sErr.message }, { status: 500 });
-  
-    items = (rows ?? []).map((r: any) => ({
-      release_id: r.release_id,
-      releases: r.releases,
-    }));
-  } else {
-    const { data: rows, error: iErr } = await supabase
-      .from("list_items")
-      .select("release_id, releases(id, display_title, platform_name, cover_url)")
-      .eq("list_id", listId)
-      .order("created_at", { ascending: false });
-  
-    if (iErr) return NextResponse.json({ error: iErr.message }, { status: 500 });
-    items = rows ?? [];
+  if (body?.title !== undefined) {
+    const title = typeof body.title === "string" ? body.title.trim() : "";
+    if (!title) return NextResponse.json({ error: "Title is required" }, { status: 400 });
+    patch.title = title;
+    patch.name = title;
+  }
+  if (body?.description !== undefined) {
+    patch.description = typeof body.description === "string" && body.description.trim() ? body.description.trim() : null;
+  }
+  if (body?.visibility !== undefined) {
+    if (!isListVisibility(body.visibility)) {
+      return NextResponse.json({ error: "visibility must be private, unlisted or public" }, { status: 400 });
+    }
+    patch.visibility = body.visibility;
+  }
+  if (body?.is_ranked !== undefined) {
+    if (typeof body.is_ranked !== "boolean") return NextResponse.json({ error: "is_ranked must be a boolean" }, { status: 400 });
+    patch.is_ranked = body.is_ranked;
+  }
+  if (Object.keys(patch).length === 0) return NextResponse.json({ error: "Nothing to update" }, { status: 400 });
 
+  try {
+    const found = await loadListForViewer(supabaseServer, listId, userId);
+    if (!found) return NextResponse.json({ error: "List not found" }, { status: 404 });
+    if (found.role !== "owner" || found.list.is_curated) {
+      return NextResponse.json({ error: "Only the owner can change this list" }, { status: 403 });
+    }
 
-  }
+    const { data, error } = await supabaseServer
+      .from("lists")
+      .update({ ...patch, updated_at: new Date().toISOString() })
+      .eq("id", found.list.id)
+      .select("id, title, name, visibility, is_ranked")
+      .single();
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 });
 
-  return NextResponse.json({
-    list: {
-        id: list.id,
-        title: (list.title ?? list.name) || "Untitled list",
-        description: list.description ?? null,
-        is_curated: !!list.is_curated,
-        is_smart: !!L.is_smart,
-        rules: L.rules ?? {},        
-        created_at: list.created_at,
-      },
-      items      
-  });
+    return NextResponse.json({
+      ok: true,
+      list: { id: data.id, title: listTitle(data), visibility: data.visibility, is_ranked: !!data.is_ranked },
+    });
+  } catch (e) {
+    return NextResponse.json({ error: e instanceof Error ? e.message : "Server error" }, { status: 500 });
+  }
 }
@@ -1,6 +1,36 @@
 import { NextResponse } from "next/server";
 import { supabaseRoute } from "@/lib/supabase/route";
+import { supabaseServer } from "@/lib/supabase/server";
+import {
+  LIST_NOTE_MAX,
+  addListItem,
+  canAddListItems,
+  canEditListItem,
+  loadListForViewer,
+  normalizeListNote,
+  touchList,
+} from "@/lib/lists/lists";
 
+/** The viewer's item row on a list they can edit, or an error response. */
+async function editableItem(userId: string, listId: string, releaseId: string) {
+  const found = await loadListForViewer(supabaseServer, listId, userId);
+  if (!found) return { res: NextResponse.json({ error: "List not found" }, { status: 404 }) };
+
+  const { data: item, error } = await supabaseServer
+    .from("list_items")
+    .select("release_id, added_by")
+    .eq("list_id", found.list.id)
+    .eq("release_id", releaseId)
+    .maybeSingle();
+  if (error) return { res: NextResponse.json({ error: error.message }, { status: 500 }) };
+  if (!item) return { res: NextResponse.json({ error: "Item not found" }, { status: 404 }) };
+  if (!canEditListItem(found.role, found.list, item, userId)) {
+    return { res: NextResponse.json({ error: "You can't edit this item" }, { status: 403 }) };
+  }
+  return { list: found.list };
+}
+
+/** POST { list_id, release_id, note? } — owner and collaborators append to the end of the list. */
 export async function POST(req: Request) {
   const supabase = await supabaseRoute();
   const { data: { user } } = await supabase.auth.getUser();
@@ -13,42 +43,83 @@ export async function POST(req: Request) {
   if (!list_id || !release_id) {
     return NextResponse.json({ error: "list_id and release_id required" }, { status: 400 });
   }
+  const note = normalizeListNote(body?.note);
+  if (note === false) return NextResponse.json({ error: `Note is longer than ${LIST_NOTE_MAX} characters` }, { status: 400 });
+
+  try {
+    const found = await loadListForViewer(supabaseServer, String(list_id), user.id);
+    if (!found) return NextResponse.json({ error: "List not found" }, { status: 404 });
+    if (!canAddListItems(found.role, found.list)) {
+      return NextResponse.json({ error: "You can't add to this list" }, { status: 403 });
+    }
+
+    const { already } = await addListItem(supabaseServer, found.list.id, String(release_id), user.id, note);
+    return NextResponse.json(already ? { ok: true, already: true } : { ok: true });
+  } catch (e) {
+    return NextResponse.json({ error: e instanceof Error ? e.message : "Server error" }, { status: 500 });
+  }
+}
 
-  const { error } = await supabase
-  .from("list_items")
-  .upsert({ list_id, release_id }, { onConflict: "list_id,release_id" });
+/** PATCH { list_id, release_id, note } — set or clear an item's note. */
+export async function PATCH(req: Request) {
+  const supabase = await supabaseRoute();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: "Not logged in" }, { status: 401 });
 
-  if (error && (error.message || "").toLowerCase().includes("duplicate")) {
-    return NextResponse.json({ ok: true, already: true });
+  const body = await req.json().catch(() => ({}));
+  const list_id = body?.list_id as string | undefined;
+  const release_id = body?.release_id as string | undefined;
+  if (!list_id || !release_id) {
+    return NextResponse.json({ error: "Missing list_id or release_id" }, { status: 400 });
   }
-  
+  const note = normalizeListNote(body?.note);
+  if (note === false) return NextResponse.json({ error: `Note is longer than ${LIST_NOTE_MAX} characters` }, { status: 400 });
 
-  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+  try {
+    const checked = await editableItem(user.id, list_id, release_id);
+    if (checked.res) return checked.res;
+
+    const { error } = await supabaseServer
+      .from("list_items")
+      .update({ note })
+      .eq("list_id", checked.list.id)
+      .eq("release_id", release_id);
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+    await touchList(supabaseServer, checked.list.id);
 
-  return NextResponse.json({ ok: true });
+    return NextResponse.json({ ok: true, note });
+  } catch (e) {
+    return NextResponse.json({ error: e instanceof Error ? e.message : "Server error" }, { status: 500 });
+  }
 }
 
 export async function DELETE(req: Request) {
-    const supabase = await supabaseRoute();
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) return NextResponse.json({ error: "Not logged in" }, { status: 401 });
-  
-    const body = await req.json().catch(() => ({}));
-    const list_id = body?.list_id as string | undefined;
-    const release_id = body?.release_id as string | undefined;
-  
-    if (!list_id || !release_id) {
-      return NextResponse.json({ error: "Missing list_id or release_id" }, { status: 400 });
-    }
-  
-    const { error } = await supabase
+  const supabase = await supabaseRoute();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: "Not logged in" }, { status: 401 });
+
+  const body = await req.json().catch(() => ({}));
+  const list_id = body?.list_id as string | undefined;
+  const release_id = body?.release_id as string | undefined;
+
+  if (!list_id || !release_id) {
+    return NextResponse.json({ error: "Missing list_id or release_id" }, { status: 400 });
+  }
+
+  try {
+    const checked = await editableItem(user.id, list_id, release_id);
+    if (checked.res) return checked.res;
+
+    const { error } = await supabaseServer
       .from("list_items")
       .delete()
-      .eq("list_id", list_id)
+      .eq("list_id", checked.list.id)
       .eq("release_id", release_id);
-  
     if (error) return NextResponse.json({ error: error.message }, { status: 500 });
-  
+    await touchList(supabaseServer, checked.list.id);
+
     return NextResponse.json({ ok: true });
+  } catch (e) {
+    return NextResponse.json({ error: e instanceof Error ? e.message : "Server error" }, { status: 500 });
   }
-  
+}
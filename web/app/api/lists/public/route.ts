@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase/server";
+import { isProfileVisible } from "@/lib/profile/sharing";
+import { loadSocialProfilesByIds, toSocialUser } from "@/lib/social/follows";
+import { LIST_COLS, toListSummary, type ListRow } from "@/lib/lists/lists";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/lists/public?limit=
+ * Recently updated public lists from everyone (unlisted ones are only reachable by link). The
+ * owner is shown when their profile is visible.
+ */
+export async function GET(req: Request) {
+  const limit = Math.min(100, Math.max(1, Number(new URL(req.url).searchParams.get("limit")) || 30));
+
+  const { data, error } = await supabaseServer
+    .from("lists")
+    .select(`${LIST_COLS}, list_items(count)`)
+    .eq("visibility", "public")
+    .eq("is_curated", false)
+    .order("updated_at", { ascending: false })
+    .limit(limit);
+
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+
+  const lists = (data ?? []) as Array<ListRow & { list_items?: Array<{ count: number }> }>;
+  try {
+    const owners = await loadSocialProfilesByIds(supabaseServer, lists.map((l) => l.user_id));
+    return NextResponse.json(
+      lists.map((l) => {
+        const p = owners.get(l.user_id);
+        return {
+          ...toListSummary(l),
+          item_count: l.list_items?.[0]?.count ?? 0,
+          owner: p && isProfileVisible(p) ? toSocialUser(p) : null,
+        };
+      })
+    );
+  } catch (e) {
+    return NextResponse.json({ error: e instanceof Error ? e.message : "Server error" }, { status: 500 });
+  }
+}
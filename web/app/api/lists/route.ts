@@ -1,6 +1,12 @@
 import { NextResponse } from "next/server";
 import { supabaseRoute } from "@/lib/supabase/route";
+import { supabaseServer } from "@/lib/supabase/server";
+import { LIST_COLS, isListVisibility, listTitle, listVisibility, type ListRow } from "@/lib/lists/lists";
 
+/**
+ * GET /api/lists
+ * The viewer's own lists, then lists they collaborate on (`role: "editor"`), newest first.
+ */
 export async function GET() {
   const supabase = await supabaseRoute();
   const { data: { user } } = await supabase.auth.getUser();
@@ -8,14 +14,40 @@ export async function GET() {
 
   const { data, error } = await supabase
     .from("lists")
-    .select("id, title, name, description, created_at, is_curated, is_smart, rules")
+    .select("id, title, name, description, created_at, is_curated, is_smart, rules, visibility, is_ranked")
     .eq("user_id", user.id)
     .eq("is_curated", false)
     .order("created_at", { ascending: false });
 
   if (error) return NextResponse.json({ error: error.message }, { status: 500 });
 
-  return NextResponse.json(data ?? []);
+  const { data: collabs, error: cErr } = await supabaseServer
+    .from("list_collaborators")
+    .select(`lists(${LIST_COLS})`)
+    .eq("user_id", user.id);
+
+  if (cErr) return NextResponse.json({ error: cErr.message }, { status: 500 });
+
+  const shared = ((collabs ?? []) as unknown as Array<{ lists: ListRow | null }>)
+    .map((c) => c.lists)
+    .filter((l): l is ListRow => !!l)
+    .sort((a, b) => (a.created_at < b.created_at ? 1 : -1))
+    .map((l) => ({
+      id: l.id,
+      title: listTitle(l),
+      description: l.description ?? null,
+      created_at: l.created_at,
+      is_curated: false,
+      is_smart: !!l.is_smart,
+      visibility: listVisibility(l),
+      is_ranked: !!l.is_ranked,
+      role: "editor" as const,
+    }));
+
+  return NextResponse.json([
+    ...(data ?? []).map((l) => ({ ...l, role: "owner" as const })),
+    ...shared,
+  ]);
 }
 
 export async function POST(req: Request) {
@@ -28,6 +60,9 @@ export async function POST(req: Request) {
   const description = (body?.description ?? "").trim();
 
   if (!title) return NextResponse.json({ error: "Title is required" }, { status: 400 });
+  if (body?.visibility !== undefined && !isListVisibility(body.visibility)) {
+    return NextResponse.json({ error: "visibility must be private, unlisted or public" }, { status: 400 });
+  }
 
   const { data, error } = await supabase
     .from("lists")
@@ -42,20 +77,24 @@ export async function POST(req: Request) {
       
         description: description || null,
         is_curated: false,
+        visibility: body?.visibility ?? "private",
+        is_ranked: body?.is_ranked === true,
       })
       
-      .select("id, title, name, description, is_curated, created_at, list_items(count)")
+      .select("id, title, name, description, is_curated, created_at, visibility, is_ranked, list_items(count)")
 
 
   if (error) return NextResponse.json({ error: error.message }, { status: 500 });
 
   const rows =
-  (data ?? []).map((l: any) => ({
+  (data ?? []).map((l) => ({
     id: l.id,
     title: (l.title ?? l.name) || "Untitled list",
     description: l.description ?? null,
     is_curated: !!l.is_curated,
     created_at: l.created_at,
+    visibility: l.visibility ?? "private",
+    is_ranked: !!l.is_ranked,
     item_count: l.list_items?.[0]?.count ?? 0,
   })) ?? [];
 
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { ogCacheControl, parseOgImageSize, profileCardModel } from "@/lib/og/identity-card";
+import { renderIdentityCardImage } from "@/lib/og/render";
+import { loadProfileOgPayload, loadProfileOgRef } from "@/lib/og/server";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/og/profile/[username]?v=<version>&size=og|twitter
+ * No auth. PNG summary of a public profile (og:image on /users/[username]); private or hidden
+ * profiles 404. Sections switched off in profile_sharing are left out of the image.
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ username: string }> }) {
+  const { username } = await params;
+  const url = new URL(req.url);
+
+  try {
+    const ref = await loadProfileOgRef(decodeURIComponent(username ?? ""));
+    if (!ref) return NextResponse.json({ error: "Not found" }, { status: 404 });
+    const payload = await loadProfileOgPayload(ref);
+    if (!payload) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+    return renderIdentityCardImage(profileCardModel(payload, ref.sharing), parseOgImageSize(url.searchParams.get("size")), {
+      "Cache-Control": ogCacheControl(url.searchParams.get("v"), ref.version),
+    });
+  } catch (e) {
+    return NextResponse.json({ error: e instanceof Error ? e.message : "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { ogCacheControl, parseOgImageSize, shareCardModel } from "@/lib/og/identity-card";
+import { renderIdentityCardImage } from "@/lib/og/render";
+import { loadShareOgRef } from "@/lib/og/server";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/og/share/[shareId]?v=<version>&size=og|twitter
+ * No auth. PNG of the identity snapshot stored for this share link (og:image on /share/[shareId]).
+ * v is the snapshot version from generateMetadata; the current version is cached as immutable.
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ shareId: string }> }) {
+  const { shareId } = await params;
+  const url = new URL(req.url);
+
+  try {
+    const ref = await loadShareOgRef(decodeURIComponent(shareId ?? ""));
+    if (!ref) return NextResponse.json({ error: "Share not found" }, { status: 404 });
+
+    return renderIdentityCardImage(shareCardModel(ref.snapshot), parseOgImageSize(url.searchParams.get("size")), {
+      "Cache-Control": ogCacheControl(url.searchParams.get("v"), ref.version),
+    });
+  } catch (e) {
+    return NextResponse.json({ error: e instanceof Error ? e.message : "Server error" }, { status: 500 });
+  }
+}
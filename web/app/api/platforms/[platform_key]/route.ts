@@ -1,10 +1,18 @@
 import { NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
+import { COVER_ASSET_SELECT, coverImageFromAsset, type CoverAssetRow, type CoverImage } from "@/lib/images/cover";
 
 export const dynamic = "force-dynamic";
 
 const PAGE_SIZE = 24;
 
+/** A release with its own and its game's cached cover asset. */
+type ReleaseAssetRow = {
+  id: string;
+  cover_asset: CoverAssetRow | null;
+  games: { cover_asset: CoverAssetRow | null } | { cover_asset: CoverAssetRow | null }[] | null;
+};
+
 /** Resolve slug to canonical platform_key. Returns canonical or null. */
 async function resolvePlatformSlug(slug: string): Promise<string | null> {
   const { data } = await supabaseServer.rpc("resolve_platform_slug", { p_slug: slug });
@@ -84,6 +92,21 @@ export async function GET(
     const items = rows ?? [];
     const nextCursor = items.length === limit ? String(page + 1) : null;
 
+    // Cached cover variants (game's asset first, matching cover precedence); tiles fall back to cover_url
+    const imageByRelease = new Map<string, CoverImage>();
+    const ids = items.map((r) => r.release_id).filter(Boolean);
+    if (ids.length) {
+      const { data: assets } = await supabaseServer
+        .from("releases")
+        .select<string, ReleaseAssetRow>(`id, cover_asset:cover_asset_id (${COVER_ASSET_SELECT}), games:game_id (cover_asset:cover_asset_id (${COVER_ASSET_SELECT}))`)
+        .in("id", ids);
+      for (const a of assets ?? []) {
+        const game = Array.isArray(a.games) ? a.games[0] : a.games;
+        const image = coverImageFromAsset(game?.cover_asset) ?? coverImageFromAsset(a.cover_asset);
+        if (image) imageByRelease.set(String(a.id), image);
+      }
+    }
+
     return NextResponse.json({
       ok: true,
       platform_key: platformKey,
@@ -98,6 +121,7 @@ export async function GET(
         display_title: r.title,
         platform_key: platformKey,
         cover_url: r.cover_url ?? null,
+        cover_image: imageByRelease.get(String(r.release_id)) ?? null,
         first_release_year: r.release_year ?? null,
       })),
       nextCursor,
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { supabaseRouteClient } from "@/lib/supabase/route-client";
+import { supabaseServer } from "@/lib/supabase/server";
+import { undoImportBatch } from "@/lib/import/batches";
+
+/**
+ * POST /api/portfolio/import/batches/[id]/undo
+ * Removes entries the batch created and restores the values it replaced on entries it updated.
+ */
+export async function POST(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const supabaseUser = await supabaseRouteClient();
+  const { data: userRes, error: userErr } = await supabaseUser.auth.getUser();
+  if (userErr || !userRes?.user) {
+    return NextResponse.json({ ok: false, error: "Not logged in" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const res = await undoImportBatch(supabaseServer, userRes.user.id, String(id ?? "").trim());
+    if (!res) return NextResponse.json({ ok: false, error: "Import not found or already undone" }, { status: 404 });
+    return NextResponse.json({ ok: true, ...res });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Undo failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { supabaseRouteClient } from "@/lib/supabase/route-client";
+import { supabaseServer } from "@/lib/supabase/server";
+import { listImportBatches } from "@/lib/import/batches";
+
+/** GET /api/portfolio/import/batches — the user's recent imports, newest first. */
+export async function GET() {
+  const supabaseUser = await supabaseRouteClient();
+  const { data: userRes, error: userErr } = await supabaseUser.auth.getUser();
+  if (userErr || !userRes?.user) {
+    return NextResponse.json({ ok: false, error: "Not logged in" }, { status: 401 });
+  }
+
+  try {
+    const batches = await listImportBatches(supabaseServer, userRes.user.id);
+    return NextResponse.json({ ok: true, batches });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Failed to load imports" }, { status: 500 });
+  }
+}
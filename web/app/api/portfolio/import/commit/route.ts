@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { supabaseRouteClient } from "@/lib/supabase/route-client";
+import { supabaseServer } from "@/lib/supabase/server";
+import { commitImportBatch, isImportSource, normalizeCommitRows, IMPORT_SOURCES } from "@/lib/import/batches";
+import { MAX_IMPORT_ROWS } from "@/lib/import/match";
+
+/**
+ * POST /api/portfolio/import/commit
+ * Body: { source, filename?, rows: [{ release_id, status, playtime_minutes?, first_played_at?, last_played_at? }] }
+ * Writes portfolio_entries as one undoable batch. Statuses go through STATUS_ALIASES.
+ */
+export async function POST(req: Request) {
+  const supabaseUser = await supabaseRouteClient();
+  const { data: userRes, error: userErr } = await supabaseUser.auth.getUser();
+  if (userErr || !userRes?.user) {
+    return NextResponse.json({ ok: false, error: "Not logged in" }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const source = body?.source ?? "generic";
+  if (!isImportSource(source)) {
+    return NextResponse.json({ ok: false, error: `source must be one of ${IMPORT_SOURCES.join(", ")}` }, { status: 400 });
+  }
+
+  const rows = normalizeCommitRows(body?.rows);
+  if (!rows) {
+    return NextResponse.json(
+      { ok: false, error: "rows must be an array of { release_id, status, ... } with valid statuses" },
+      { status: 400 }
+    );
+  }
+  if (rows.length === 0) return NextResponse.json({ ok: false, error: "Nothing to import" }, { status: 400 });
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return NextResponse.json({ ok: false, error: `Too many rows (max ${MAX_IMPORT_ROWS})` }, { status: 400 });
+  }
+
+  try {
+    const batch = await commitImportBatch(supabaseServer, userRes.user.id, {
+      source,
+      filename: typeof body?.filename === "string" ? body.filename.slice(0, 200) : null,
+      rows,
+    });
+    return NextResponse.json({ ok: true, batch });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Import failed" }, { status: 500 });
+  }
+}
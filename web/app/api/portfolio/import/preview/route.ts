@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { supabaseRouteClient } from "@/lib/supabase/route-client";
+import { supabaseServer } from "@/lib/supabase/server";
+import { matchImportRows, MAX_IMPORT_ROWS, normalizeImportRows } from "@/lib/import/match";
+
+/**
+ * POST /api/portfolio/import/preview
+ * Body: { rows: ImportRow[] } — mapped in the browser (lib/import/mapping.ts).
+ * Dry run: classifies each row as matched / ambiguous / miss. Writes nothing.
+ */
+export async function POST(req: Request) {
+  const supabaseUser = await supabaseRouteClient();
+  const { data: userRes, error: userErr } = await supabaseUser.auth.getUser();
+  if (userErr || !userRes?.user) {
+    return NextResponse.json({ ok: false, error: "Not logged in" }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const rows = normalizeImportRows(body?.rows);
+  if (!rows) return NextResponse.json({ ok: false, error: "rows must be an array of { title, ... }" }, { status: 400 });
+  if (rows.length === 0) return NextResponse.json({ ok: false, error: "No rows with a title to import" }, { status: 400 });
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return NextResponse.json(
+      { ok: false, error: `Too many rows (${rows.length}); split the file into imports of ${MAX_IMPORT_ROWS} or fewer` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const preview = await matchImportRows(supabaseServer, userRes.user.id, rows);
+    return NextResponse.json({ ok: true, ...preview });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Preview failed" }, { status: 500 });
+  }
+}
@@ -4,6 +4,7 @@ import { supabaseServer } from "@/lib/supabase/server";
 import { supabaseRouteClient } from "@/lib/supabase/route-client";
 import { normalizeKind } from "@/lib/portfolio/physical/normalizeKind";
 import { normalizeCondition } from "@/lib/portfolio/physical/normalizeCondition";
+import { normalizeEditionRegion, upsertReleaseEdition, RELEASE_EDITION_COLUMNS, type ReleaseEdition } from "@/lib/catalog/editions";
 
 const ALLOWED_KINDS = ["game", "system", "accessory", "other"] as const;
 
@@ -82,12 +83,56 @@ export async function POST(req: Request) {
     const platform_key = (body.platform_key ?? body.platform ?? null)?.toString().trim() || null;
     const quantity = Number.isFinite(Number(body.quantity)) ? Math.max(1, Number(body.quantity)) : 1;
     const notes = (body.notes ?? null)?.toString().trim() || null;
-    const release_id = (body.release_id ?? null)?.toString().trim() || null;
+    let release_id = (body.release_id ?? null)?.toString().trim() || null;
+    const rawRegion = (body.region ?? null)?.toString().trim() || null;
+    let region: string | null = normalizeEditionRegion(rawRegion) ?? rawRegion;
 
     if (!title) {
       return NextResponse.json({ error: "Missing title" }, { status: 400 });
     }
 
+    // Edition: an explicit edition_id, or edition details (name / product code / barcode) for a known release.
+    let edition: ReleaseEdition | null = null;
+    const edition_id = (body.edition_id ?? null)?.toString().trim() || null;
+    const hasEditionDetails = [body.edition_name, body.product_code, body.product_codes, body.barcode, body.barcodes].some(
+      (v) => v != null && String(v).trim() !== ""
+    );
+    if (edition_id) {
+      const { data: ed, error: edErr } = await supabaseServer
+        .from("release_editions")
+        .select(RELEASE_EDITION_COLUMNS)
+        .eq("id", edition_id)
+        .maybeSingle();
+      if (edErr || !ed) {
+        return NextResponse.json({ error: "Edition not found" }, { status: 400 });
+      }
+      if (release_id && (ed as ReleaseEdition).release_id !== release_id) {
+        return NextResponse.json({ error: "Edition belongs to a different release" }, { status: 400 });
+      }
+      edition = ed as ReleaseEdition;
+    } else if (release_id && hasEditionDetails) {
+      const res = await upsertReleaseEdition(
+        supabaseServer,
+        {
+          release_id,
+          region: rawRegion,
+          edition_name: body.edition_name,
+          edition_kind: body.edition_kind,
+          product_codes: body.product_codes ?? body.product_code,
+          barcodes: body.barcodes ?? body.barcode,
+        },
+        user.id
+      );
+      if (!res.ok) {
+        return NextResponse.json({ error: res.error }, { status: res.status });
+      }
+      edition = res.edition;
+    }
+    if (edition) {
+      release_id = edition.release_id;
+      region = edition.region;
+    }
+
     const { data, error } = await supabaseServer
       .from("portfolio_physical_items")
       .insert({
@@ -99,6 +144,8 @@ export async function POST(req: Request) {
         condition,
         notes,
         release_id,
+        region,
+        edition_id: edition?.id ?? null,
       })
       .select("*")
       .single();
@@ -114,7 +161,7 @@ export async function POST(req: Request) {
       );
     }
 
-    return NextResponse.json({ ok: true, item: data });
+    return NextResponse.json({ ok: true, item: data, edition });
   } catch (e: any) {
     return NextResponse.json({ error: e?.message || "Server error" }, { status: 500 });
   }
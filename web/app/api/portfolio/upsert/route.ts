@@ -1,31 +1,7 @@
 // app/api/portfolio/upsert/route.ts
 import { NextResponse } from "next/server";
 import { supabaseRoute } from "@/lib/supabase/route";
-
-const STATUS_ALIASES: Record<string, string> = {
-  played: "completed",
-  complete: "completed",
-  completed: "completed",
-
-  backlog: "back_burner",
-  "back-burner": "back_burner",
-  backburner: "back_burner",
-  back_burner: "back_burner",
-
-  playing: "playing",
-  dropped: "dropped",
-  wishlist: "wishlist",
-  owned: "owned",
-};
-
-const ALLOWED = new Set([
-  "playing",
-  "completed",
-  "dropped",
-  "back_burner",
-  "wishlist",
-  "owned",
-]);
+import { normalizePortfolioStatus, PORTFOLIO_STATUSES, STATUS_ALIASES } from "@/lib/portfolio/status";
 
 export async function POST(req: Request) {
   const supabase = await supabaseRoute();
@@ -40,6 +16,7 @@ export async function POST(req: Request) {
   const body = (await req.json().catch(() => ({}))) as {
     release_id?: string;
     status?: string;
+    edition_id?: string | null;
   };
 
   const release_id = String(body.release_id ?? "").trim();
@@ -52,22 +29,39 @@ export async function POST(req: Request) {
     );
   }
 
-  const status = STATUS_ALIASES[statusRaw] ?? statusRaw;
+  const status = normalizePortfolioStatus(statusRaw);
 
-  if (!ALLOWED.has(status)) {
+  if (!status) {
     return NextResponse.json(
-      { error: "Invalid status", got: statusRaw, normalized: status, allowed: [...ALLOWED] },
+      { error: "Invalid status", got: statusRaw, normalized: STATUS_ALIASES[statusRaw] ?? statusRaw, allowed: PORTFOLIO_STATUSES },
       { status: 400 }
     );
   }
 
+  // edition_id: omitted leaves it as is, null clears it, otherwise it must be an edition of this release.
+  const row: Record<string, unknown> = { user_id: user.id, release_id, status, source: "manual" };
+  if (body.edition_id !== undefined) {
+    const edition_id = body.edition_id ? String(body.edition_id).trim() : null;
+    if (edition_id) {
+      const { data: edition } = await supabase
+        .from("release_editions")
+        .select("id, release_id")
+        .eq("id", edition_id)
+        .maybeSingle();
+      if (!edition || edition.release_id !== release_id) {
+        return NextResponse.json({ error: "edition_id is not an edition of this release" }, { status: 400 });
+      }
+    }
+    row.edition_id = edition_id;
+  }
+
   const { data, error } = await supabase
     .from("portfolio_entries")
     .upsert(
-      { user_id: user.id, release_id, status, source: "manual" },
+      row,
       { onConflict: "user_id,release_id" }
     )
-    .select("id, user_id, release_id, status")
+    .select("id, user_id, release_id, status, edition_id")
     .single();
 
   if (error) return NextResponse.json({ error: error.message }, { status: 500 });
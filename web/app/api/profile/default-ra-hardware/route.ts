@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { supabaseRouteClient } from "@/lib/supabase/route-client";
+import { hardwareSupportsRa } from "@/lib/ra/consoles";
 
 export async function GET() {
   const supabase = await supabaseRouteClient();
@@ -38,11 +39,14 @@ export async function POST(req: Request) {
 
   const { data: hw, error: hwErr } = await supabase
     .from("hardware")
-    .select("id, slug, display_name")
+    .select("id, slug, display_name, ra_console_ids, is_modern_retro_handheld")
     .eq("slug", hardwareSlug)
     .single();
 
   if (hwErr) return NextResponse.json({ ok: false, error: hwErr.message }, { status: 400 });
+  if (!hardwareSupportsRa(hw)) {
+    return NextResponse.json({ ok: false, error: "hardware_not_ra_compatible" }, { status: 400 });
+  }
 
   const { error } = await supabase
     .from("profiles")
@@ -51,7 +55,10 @@ export async function POST(req: Request) {
 
   if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 400 });
 
-  return NextResponse.json({ ok: true, hardware: hw });
+  return NextResponse.json({
+    ok: true,
+    hardware: { id: hw.id, slug: hw.slug, display_name: hw.display_name },
+  });
 }
 
 export async function DELETE() {
@@ -1,9 +1,11 @@
 import { NextResponse } from "next/server";
 import { supabaseRouteClient } from "@/lib/supabase/route-client";
+import { isProfileVisibility, sanitizeProfileSharing } from "@/lib/profile/sharing";
 
 /**
- * PATCH /api/profile/public – set public profile fields (username, display_name, discord_handle, profile_public).
- * Auth required. Updates the current user's profiles row.
+ * PATCH /api/profile/public – set public profile fields (username, display_name, discord_handle, profile_public,
+ * profile_visibility, profile_sharing). Auth required. Updates the current user's profiles row.
+ * profile_sharing is merged into the stored toggles (lib/profile/sharing.ts); unknown keys are a 400.
  *
  * Username: single source of truth for /u/[username]. User-chosen only; never derive from Discord.
  * Uniqueness is enforced (case-insensitive); 409 if taken.
@@ -22,6 +24,8 @@ export async function PATCH(req: Request) {
     discord_handle?: string | null;
     profile_public?: boolean;
     public_discord?: boolean;
+    profile_visibility?: string;
+    profile_sharing?: Record<string, unknown>;
   };
   try {
     body = await req.json();
@@ -51,6 +55,14 @@ export async function PATCH(req: Request) {
   const public_discord =
     body.public_discord !== undefined ? Boolean(body.public_discord) : undefined;
 
+  if (body.profile_visibility !== undefined && !isProfileVisibility(body.profile_visibility)) {
+    return NextResponse.json({ error: "profile_visibility must be public, unlisted or private" }, { status: 400 });
+  }
+  const profile_sharing = body.profile_sharing !== undefined ? sanitizeProfileSharing(body.profile_sharing) : undefined;
+  if (profile_sharing === null) {
+    return NextResponse.json({ error: "profile_sharing must map known show_* keys to booleans" }, { status: 400 });
+  }
+
   const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
   if (username !== undefined) updates.username = username;
   if (display_name !== undefined) updates.display_name = display_name;
@@ -58,6 +70,16 @@ export async function PATCH(req: Request) {
   if (discord_handle !== undefined) updates.discord_handle = discord_handle;
   if (profile_public !== undefined) updates.profile_public = profile_public;
   if (public_discord !== undefined) updates.public_discord = public_discord;
+  if (body.profile_visibility !== undefined) updates.profile_visibility = body.profile_visibility;
+  if (profile_sharing) {
+    const { data: current, error: curErr } = await supabase
+      .from("profiles")
+      .select("profile_sharing")
+      .eq("user_id", userRes.user.id)
+      .maybeSingle();
+    if (curErr) return NextResponse.json({ error: curErr.message }, { status: 500 });
+    updates.profile_sharing = { ...((current?.profile_sharing as Record<string, unknown> | null) ?? {}), ...profile_sharing };
+  }
 
   const { error } = await supabase
     .from("profiles")
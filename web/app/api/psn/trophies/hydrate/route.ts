@@ -7,6 +7,7 @@ import {
 } from "@/lib/psn/server";
 import { getUserTrophiesEarnedForTitle, getTitleTrophies } from "psn-api";
 import { getUserTrophyGroupsForTitle } from "@/lib/psn/server"; // you export this already
+import { recordAchievementUnlocks } from "@/lib/achievements/unlocks";
 
 function nowIso() {
   return new Date().toISOString();
@@ -98,6 +99,7 @@ export async function POST(req: Request) {
     }
 
     let upserted = 0;
+    const unlocks: Parameters<typeof recordAchievementUnlocks>[3] = [];
 
     for (const trophyGroupId of groupIds) {
       // 2) Trophy list for group
@@ -157,6 +159,14 @@ export async function POST(req: Request) {
           updated_at: nowIso(),
         };
 
+        unlocks.push({
+          achievement_id: String(trophyId),
+          achievement_name: row.trophy_name,
+          icon_url: row.trophy_icon_url,
+          unlocked_at: isEarned ? row.earned_at : null,
+          rarity_percentage: t?.trophyEarnedRate ?? null,
+        });
+
         const { error: upErr } = await supabaseAdmin
           .from("psn_trophies")
           .upsert(row, {
@@ -167,10 +177,18 @@ export async function POST(req: Request) {
       }
     }
 
+    const unlocked = await recordAchievementUnlocks(
+      supabaseAdmin,
+      user.id,
+      { platform: "psn", release_id, external_game_id: npCommunicationId },
+      unlocks
+    );
+
     return NextResponse.json({
       ok: true,
       release_id,
       npCommunicationId,
+      unlocked,
       groups: Array.from(groupIds),
       upserted,
     });
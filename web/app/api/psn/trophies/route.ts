@@ -1,6 +1,8 @@
 import { NextResponse } from "next/server";
 import { supabaseRouteClient } from "@/lib/supabase/route-client";
+import { supabaseServer } from "@/lib/supabase/server";
 import { psnAuthorizeFromNpsso, psnGetTitleTrophyDetails } from "@/lib/psn/server";
+import { recordAchievementUnlocks } from "@/lib/achievements/unlocks";
 
 // Pick a PSN title row for this release that can actually hydrate trophies.
 // Prefer real npCommunicationId rows (not synthetic:...)
@@ -171,6 +173,19 @@ export async function GET(req: Request) {
       };
     });
 
+    await recordAchievementUnlocks(
+      supabaseServer,
+      user.id,
+      { platform: "psn", release_id: releaseId, external_game_id: npCommunicationId },
+      merged.map((t) => ({
+        achievement_id: String(t.trophyId),
+        achievement_name: t.name || null,
+        icon_url: t.iconUrl,
+        unlocked_at: t.earned ? t.earnedAt : null,
+        rarity_percentage: t.rarity,
+      }))
+    );
+
     return NextResponse.json({
       ok: true,
       trophies: merged,
@@ -3,6 +3,8 @@ import { supabaseRouteClient } from "@/lib/supabase/route-client";
 import { createClient } from "@supabase/supabase-js";
 import { raGetGameInfoAndUserProgress } from "@/lib/ra/server";
 import { mapReleaseToRA } from "@/lib/ra/map-release";
+import { recordAchievementUnlocks } from "@/lib/achievements/unlocks";
+import { raDefaultCompatibleReleaseIds } from "@/lib/ra/sync";
 
 const CACHE_TTL_MINUTES = 60 * 24; // 24h for normal
 const CACHE_TTL_NO_SET_MINUTES = 60 * 24 * 7; // 7 days for "no_set" status
@@ -27,6 +29,26 @@ function raBadgeUrls(badgeNameRaw: any) {
   };
 }
 
+// RA reports "YYYY-MM-DD HH:MM:SS" in UTC without a zone.
+function raDateToIso(raw: string | null): string | null {
+  if (!raw) return null;
+  const s = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(raw) ? `${raw.replace(" ", "T")}Z` : raw;
+  const d = new Date(s);
+  return Number.isNaN(d.getTime()) ? null : d.toISOString();
+}
+
+/** The fields of an RA achievement the unlock timeline reads; casing varies by endpoint. */
+type RaAchievement = {
+  id?: number | string;
+  ID?: number | string;
+  title?: string;
+  Title?: string;
+  badgeName?: string;
+  BadgeName?: string;
+  numAwarded?: number | string;
+  NumAwarded?: number | string;
+};
+
 function normalizeEarned(a: any) {
   // RA APIs vary; handle common fields
   const earnedAt =
@@ -248,7 +270,27 @@ export async function GET(req: Request) {
     console.warn("RA cache upsert failed:", upErr.message);
   }
 
-  // 7) Auto-default played-on when user has default_ra_hardware_id (RA hydration)
+  // 7) Unlock timeline (rarity = share of the set's players who have it)
+  const players = ra as { numDistinctPlayers?: number; numDistinctPlayersCasual?: number } | null;
+  const distinctPlayers = Number(players?.numDistinctPlayers ?? players?.numDistinctPlayersCasual ?? 0);
+  await recordAchievementUnlocks(
+    createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!),
+    user.id,
+    { platform: "ra", release_id: releaseId, external_game_id: String(raGameId) },
+    (rawAchievements as RaAchievement[]).map((a) => {
+      const { earned, earned_at } = normalizeEarned(a);
+      const awarded = Number(a?.numAwarded ?? a?.NumAwarded ?? NaN);
+      return {
+        achievement_id: String(a?.id ?? a?.ID ?? ""),
+        achievement_name: a?.title ?? a?.Title ?? null,
+        icon_url: raBadgeUrls(a?.badgeName ?? a?.BadgeName).unlocked,
+        unlocked_at: earned ? raDateToIso(earned_at) : null,
+        rarity_percentage: distinctPlayers > 0 && Number.isFinite(awarded) ? (awarded / distinctPlayers) * 100 : null,
+      };
+    })
+  );
+
+  // 8) Auto-default played-on when user has default_ra_hardware_id (RA hydration)
   const { data: profile } = await supabase
     .from("profiles")
     .select("default_ra_hardware_id")
@@ -256,7 +298,10 @@ export async function GET(req: Request) {
     .maybeSingle();
 
   const defaultHardwareId = profile?.default_ra_hardware_id ?? null;
-  if (defaultHardwareId) {
+  const defaultPlaysRelease = defaultHardwareId
+    ? (await raDefaultCompatibleReleaseIds(supabase, defaultHardwareId, [releaseId]).catch(() => new Set<string>())).has(releaseId)
+    : false;
+  if (defaultHardwareId && defaultPlaysRelease) {
     const { error: rpcErr } = await supabase.rpc("ensure_played_on_primary", {
       p_user_id: user.id,
       p_release_id: releaseId,
@@ -3,44 +3,7 @@ import { NextResponse } from "next/server";
 import { supabaseRouteClient } from "@/lib/supabase/route-client";
 import { createClient } from "@supabase/supabase-js";
 import { mapReleaseToRA } from "@/lib/ra/map-release";
-
-// Keep your platform->RA console mapping helper here (or import it)
-// This is only used to decide if a release is RA-compatible.
-function resolveRaConsoleId(
-  platformKeyRaw: string | null,
-  platformNameRaw: string | null,
-  platformLabelRaw: string | null
-) {
-  const s = `${platformKeyRaw ?? ""} ${platformNameRaw ?? ""} ${platformLabelRaw ?? ""}`
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, " ")
-    .trim();
-
-  const map: Array<[RegExp, number]> = [
-    [/(\bsnes\b|\bsuper nintendo\b|\bsuper nes\b)/, 3],
-    [/(\bnes\b|\bnintendo entertainment system\b)/, 7],
-    [/(\bn64\b|\bnintendo 64\b)/, 2],
-    [/(\bgbc\b|\bgame boy color\b)/, 6],
-    [/(\bgb\b|\bgame boy\b)/, 4],
-    [/(\bgba\b|\bgame boy advance\b)/, 5],
-    [/(\bgenesis\b|\bmega drive\b|\bmd\b)/, 1],
-    [/(\bmastersystem\b|\bmaster system\b|\bsms\b)/, 11],
-    [/(\bgame gear\b|\bgg\b)/, 15],
-    [/(\bplaystation\b|\bps1\b|\bpsx\b)/, 12],
-    [/(\bps2\b|\bplaystation 2\b)/, 21],
-    [/(\bpc engine\b|\bturbografx\b|\btg16\b)/, 8],
-    [/(\bneo geo pocket\b|\bngp\b)/, 14],
-    [/(\blynx\b)/, 13],
-    [/(\bvirtual boy\b)/, 28],
-    [/(\bsaturn\b)/, 39],
-    [/(\bdreamcast\b)/, 40],
-  ];
-
-  for (const [re, id] of map) {
-    if (re.test(s)) return id;
-  }
-  return null;
-}
+import { loadRaConsoleMap, resolveRaConsoleIdFromMap } from "@/lib/ra/consoles";
 
 const LIMIT = 100;
 const DEFAULT_PAGES = 5;
@@ -73,6 +36,14 @@ export async function POST(req: Request) {
   const raUsername = String(conn.ra_username).trim();
   const raApiKey = String(conn.ra_api_key).trim();
 
+  // platform_catalog → RA console ids, read once for every page
+  let consoleMap;
+  try {
+    consoleMap = await loadRaConsoleMap(supabaseAdmin);
+  } catch (e) {
+    return NextResponse.json({ error: e instanceof Error ? e.message : "Platform lookup failed" }, { status: 500 });
+  }
+
   const url = new URL(req.url);
   let cursor = url.searchParams.get("cursor");
   const pages = Math.max(1, Math.min(Number(url.searchParams.get("pages") ?? DEFAULT_PAGES), 25));
@@ -135,7 +106,7 @@ export async function POST(req: Request) {
       }
 
       // Only attempt mapping if platform is RA-compatible
-      const consoleId = resolveRaConsoleId(r.platform_key, r.platform_name, r.platform_label);
+      const consoleId = resolveRaConsoleIdFromMap(consoleMap, r.platform_key, r.platform_name, r.platform_label);
       if (!consoleId) {
         skipped += 1;
         continue;
@@ -148,6 +119,7 @@ export async function POST(req: Request) {
           raUsername,
           raApiKey,
           dryRun: false,
+          consoleMap,
         });
 
         if (result.ok && result.ra_game_id) {
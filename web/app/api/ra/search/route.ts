@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { supabaseRouteClient } from "@/lib/supabase/route-client";
 import { raSearchGamesByTitle } from "@/lib/ra/server";
+import { loadRaConsoleMap, platformKeyForRaConsole, resolveRaConsoleIdFromMap } from "@/lib/ra/consoles";
 
 export async function GET(req: Request) {
   const supabase = await supabaseRouteClient();
@@ -22,6 +23,31 @@ export async function GET(req: Request) {
     return NextResponse.json({ error: "RetroAchievements not connected yet." }, { status: 400 });
   }
 
-  const results = await raSearchGamesByTitle(conn.ra_username, conn.ra_api_key, q);
-  return NextResponse.json({ ok: true, q, results });
+  // Optional console filter: ?console_id=27 or ?platform_key=arcade (resolved via platform_catalog)
+  let consoleMap;
+  try {
+    consoleMap = await loadRaConsoleMap(supabase);
+  } catch (e) {
+    return NextResponse.json({ error: e instanceof Error ? e.message : "Platform lookup failed" }, { status: 500 });
+  }
+
+  const platformKey = (url.searchParams.get("platform_key") || "").trim();
+  const consoleParam = Number(url.searchParams.get("console_id") ?? NaN);
+  let consoleId: number | null = Number.isFinite(consoleParam) && consoleParam > 0 ? consoleParam : null;
+  if (!consoleId && platformKey) {
+    consoleId = resolveRaConsoleIdFromMap(consoleMap, platformKey, null, null);
+    if (!consoleId) {
+      return NextResponse.json({ error: `Platform '${platformKey}' is not on RetroAchievements.` }, { status: 400 });
+    }
+  }
+
+  const raw = await raSearchGamesByTitle(conn.ra_username, conn.ra_api_key, q);
+  const results = raw
+    .map((g) => {
+      const id = g.console_id ?? resolveRaConsoleIdFromMap(consoleMap, null, g.console, null);
+      return { ...g, console_id: id, platform_key: platformKeyForRaConsole(consoleMap, id) };
+    })
+    .filter((g) => !consoleId || g.console_id === consoleId);
+
+  return NextResponse.json({ ok: true, q, console_id: consoleId, results });
 }
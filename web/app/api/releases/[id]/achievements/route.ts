@@ -6,6 +6,7 @@ import {
   fetchXboxProfile,
   fetchXboxAchievementsForTitle,
 } from "@/lib/xbox/server";
+import { recordAchievementUnlocks } from "@/lib/achievements/unlocks";
 
 // Cache TTL: 12 hours
 const CACHE_TTL_MS = 12 * 60 * 60 * 1000;
@@ -374,6 +375,19 @@ export async function GET(req: Request, ctx: { params: Promise<{ id: string }> }
       };
     });
     
+    await recordAchievementUnlocks(
+      supabaseAdmin,
+      user.id,
+      { platform: "xbox", release_id: releaseId, external_game_id: titleId },
+      formatted.map((a) => ({
+        achievement_id: a.achievement_id,
+        achievement_name: a.achievement_name,
+        icon_url: a.achievement_icon_url,
+        unlocked_at: a.earned ? a.earned_at : null,
+        rarity_percentage: a.rarity_percentage,
+      }))
+    );
+
     const earnedCount = formatted.filter((a) => a.earned).length;
     console.log(`[Xbox Achievements] Formatted ${formatted.length} achievements, ${earnedCount} marked as earned`);
 
@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server";
+import { supabaseRouteClient } from "@/lib/supabase/route-client";
+import { adminClient } from "@/lib/supabase/admin-client";
+import { EDITION_KINDS, EDITION_REGIONS, listReleaseEditions, upsertReleaseEdition } from "@/lib/catalog/editions";
+
+/**
+ * GET /api/releases/[id]/editions
+ * Regional/retail editions of a release (release_editions).
+ */
+export async function GET(
+  _req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const { id: releaseId } = await ctx.params;
+  if (!releaseId) {
+    return NextResponse.json({ ok: false, error: "Missing release id" }, { status: 400 });
+  }
+
+  try {
+    const editions = await listReleaseEditions(adminClient(), releaseId);
+    return NextResponse.json({ ok: true, editions });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : String(e) }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/releases/[id]/editions
+ * Body: { region?, edition_name?, edition_kind?, product_codes?, barcodes?, released_on?, notes? }
+ * Any logged-in user can add an edition; a barcode/product code already on an edition of this release
+ * merges into it (created: false). 409 when the code belongs to another release.
+ */
+export async function POST(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  const supabase = await supabaseRouteClient();
+  const { data: userRes, error: userErr } = await supabase.auth.getUser();
+  if (userErr || !userRes?.user) {
+    return NextResponse.json({ ok: false, error: "Not logged in" }, { status: 401 });
+  }
+
+  const { id: releaseId } = await ctx.params;
+  if (!releaseId) {
+    return NextResponse.json({ ok: false, error: "Missing release id" }, { status: 400 });
+  }
+
+  const body = (await req.json().catch(() => ({}))) as Record<string, unknown>;
+  const admin = adminClient();
+
+  const { data: release, error: relErr } = await admin
+    .from("releases")
+    .select("id")
+    .eq("id", releaseId)
+    .maybeSingle();
+  if (relErr || !release) {
+    return NextResponse.json({ ok: false, error: "Release not found" }, { status: 404 });
+  }
+
+  try {
+    const res = await upsertReleaseEdition(
+      admin,
+      {
+        release_id: releaseId,
+        region: body.region,
+        edition_name: body.edition_name,
+        edition_kind: body.edition_kind,
+        product_codes: body.product_codes ?? body.product_code,
+        barcodes: body.barcodes ?? body.barcode,
+        released_on: body.released_on,
+        notes: body.notes,
+      },
+      userRes.user.id
+    );
+    if (!res.ok) {
+      return NextResponse.json(
+        { ok: false, error: res.error, allowed_regions: EDITION_REGIONS, allowed_kinds: EDITION_KINDS },
+        { status: res.status }
+      );
+    }
+    return NextResponse.json({ ok: true, edition: res.edition, created: res.created });
+  } catch (e: unknown) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : String(e) }, { status: 500 });
+  }
+}
@@ -7,6 +7,7 @@ import {
   getPlatformSlugPatterns,
 } from "@/lib/hardware/played-on-availability";
 import { getDemoReleaseEditorial } from "@/lib/demo/release_demo_editorial";
+import { loadGameLineage, type GameLineage } from "@/lib/catalog/relations";
 
 export const dynamic = "force-dynamic";
 
@@ -226,6 +227,8 @@ export async function GET(
         releaseId: id,
         displayTitle: String(release.display_title ?? ""),
         platformKey: release.platform_key,
+        platformName: release.platform_name ?? null,
+        platformLabel: release.platform_label ?? null,
         supabaseUrl: process.env.NEXT_PUBLIC_SUPABASE_URL!,
         serviceRoleKey: process.env.SUPABASE_SERVICE_ROLE_KEY!,
         mapRelease: async ({ releaseId }) => {
@@ -915,7 +918,8 @@ export async function GET(
         const { data: relations } = await supabaseServer
           .from("game_relations")
           .select("related_game_id, reason_label")
-          .eq("game_id", gameId);
+          .eq("game_id", gameId)
+          .eq("relation", "related");
 
         const rels = (relations ?? []) as Array<{ related_game_id: string; reason_label: string | null }>;
         const currentPlatform = (release as any)?.platform_key ?? null;
@@ -1109,6 +1113,24 @@ export async function GET(
       finalRelatedGames = relatedGames;
     }
 
+    // lineage: remake/remaster/port/sequel links and series entries (game_relations + game_series)
+    let lineage: GameLineage | null = null;
+    const lineageRelease = release as {
+      platform_key?: string | null;
+      series?: string | null;
+      games?: { igdb_game_id?: number | null } | null;
+    } | null;
+    if (gameId) {
+      try {
+        lineage = await loadGameLineage(supabaseServer, gameId, {
+          igdbGameId: lineageRelease?.games?.igdb_game_id ?? null,
+          platformKey: lineageRelease?.platform_key ?? null,
+        });
+      } catch {
+        /* table may not exist */
+      }
+    }
+
     const games = (release as any)?.games;
     const genresRaw = games?.genres;
     const genresNormalized: string[] = Array.isArray(genresRaw)
@@ -1138,6 +1160,7 @@ export async function GET(
           dev_final: games?.developer ?? null,
           pub_final: games?.publisher ?? null,
           genres_normalized: genresNormalized,
+          series: lineageRelease?.series ?? (lineage?.series.length ? lineage.series.map((x) => x.name).join(", ") : null),
         },
         portfolio: portfolioData,
         signals: {
@@ -1155,10 +1178,12 @@ export async function GET(
         community,
         release_versions: editorial?.release_versions ?? releaseVersions,
         related_games: finalRelatedGames,
+        lineage,
         editorial: {
           ...(editorial ?? {}),
           release_versions: editorial?.release_versions ?? releaseVersions,
           related_games: finalRelatedGames,
+          lineage,
         },
         signal_sources,
         debug: {
@@ -1,6 +1,8 @@
 import { NextResponse } from "next/server";
 import { releaseExternalIdRow } from "@/lib/release-external-ids";
 import { supabaseRouteClient } from "@/lib/supabase/route-client";
+import { supabaseServer } from "@/lib/supabase/server";
+import { recordAchievementUnlocks } from "@/lib/achievements/unlocks";
 
 const CACHE_TTL_MINUTES = 60 * 24; // 24h
 
@@ -294,6 +296,18 @@ export async function GET(req: Request) {
 
   if (upErr) console.warn("Steam achievement cache upsert failed:", upErr.message);
 
+  await recordAchievementUnlocks(
+    supabaseServer,
+    user.id,
+    { platform: "steam", release_id: releaseId, external_game_id: appid },
+    achievements.map((a) => ({
+      achievement_id: a.achievement_id,
+      achievement_name: a.achievement_name,
+      icon_url: a.achievement_icon_url,
+      unlocked_at: a.earned ? a.earned_at : null,
+    }))
+  );
+
   return NextResponse.json({
     ok: true,
     cached: false,
@@ -0,0 +1,123 @@
+import { NextResponse } from "next/server";
+import { supabaseRouteClient } from "@/lib/supabase/route-client";
+import { supabaseServer } from "@/lib/supabase/server";
+import { recordSyncEnd, recordSyncStart } from "@/lib/sync/record-run";
+import { runConnectorSync } from "@/lib/sync/engine";
+import { normalizeGogGames, parseGalaxyDb, type GalaxyLibrary } from "@/lib/gog/galaxy-db";
+
+/**
+ * GOG import from a GOG Galaxy database export, driven by the shared engine (connectors/gog.ts).
+ *
+ * Body (any of):
+ *   application/json     { games: GogOwnedGame[], skipped_other_platforms?, filename? } — parsed in the browser
+ *   multipart/form-data  file = galaxy-2.0.db — parsed here (handy offline / with curl; mind body-size limits)
+ *   empty                re-import the last uploaded snapshot
+ */
+
+async function readUpload(req: Request): Promise<{ library: GalaxyLibrary; filename: string | null } | { error: string } | null> {
+  const type = req.headers.get("content-type") ?? "";
+
+  if (type.includes("multipart/form-data")) {
+    const form = await req.formData();
+    const file = form.get("file");
+    if (!file || typeof file === "string") return { error: "Missing file" };
+    try {
+      return { library: parseGalaxyDb(new Uint8Array(await file.arrayBuffer())), filename: file.name || null };
+    } catch (e) {
+      return { error: e instanceof Error ? e.message : "Could not read GOG Galaxy database" };
+    }
+  }
+
+  const body = await req.json().catch(() => null);
+  if (!body || body.games == null) return null;
+
+  const games = normalizeGogGames(body.games);
+  if (!games) return { error: "games must be an array of { product_id, title, playtime_minutes, last_played_at }" };
+  return {
+    library: { games, skipped_other_platforms: Math.max(0, Number(body.skipped_other_platforms ?? 0) || 0) },
+    filename: typeof body.filename === "string" ? body.filename.slice(0, 200) : null,
+  };
+}
+
+export async function POST(req: Request) {
+  let runId: string | null = null;
+  const start = Date.now();
+  try {
+    const supabaseUser = await supabaseRouteClient();
+    const { data: userRes, error: userErr } = await supabaseUser.auth.getUser();
+
+    if (userErr || !userRes?.user) {
+      return NextResponse.json({ ok: false, error: "Not logged in" }, { status: 401 });
+    }
+    const user = userRes.user;
+
+    const upload = await readUpload(req);
+    if (upload && "error" in upload) {
+      return NextResponse.json({ ok: false, error: upload.error }, { status: 400 });
+    }
+    if (upload && upload.library.games.length === 0) {
+      return NextResponse.json(
+        { ok: false, error: "No GOG games found in this database (only gog_* library entries are imported)" },
+        { status: 400 }
+      );
+    }
+
+    if (upload) {
+      const { error: upErr } = await supabaseServer.from("gog_library_uploads").upsert(
+        {
+          user_id: user.id,
+          games: upload.library.games,
+          game_count: upload.library.games.length,
+          skipped_other_platforms: upload.library.skipped_other_platforms,
+          source_filename: upload.filename,
+          uploaded_at: new Date().toISOString(),
+        },
+        { onConflict: "user_id" }
+      );
+      if (upErr) return NextResponse.json({ ok: false, error: upErr.message }, { status: 500 });
+    }
+
+    runId = await recordSyncStart(supabaseServer, user.id, "gog");
+    const endRun = async (
+      status: "ok" | "error",
+      opts?: { errorMessage?: string; resultJson?: unknown }
+    ) => {
+      await recordSyncEnd(supabaseServer, runId, status, {
+        durationMs: Date.now() - start,
+        errorMessage: opts?.errorMessage ?? undefined,
+        resultJson: opts?.resultJson ?? undefined,
+      });
+    };
+
+    const res = await runConnectorSync("gog", { admin: supabaseServer, userId: user.id, memo: new Map() });
+    if (!res.ok) {
+      await endRun("error", { errorMessage: res.error, resultJson: { error: res.error, detail: res.detail ?? res.error } });
+      return NextResponse.json({ ok: false, error: res.error }, { status: res.status });
+    }
+
+    const r = res.result as Record<string, unknown>;
+    const n = (k: string) => Number(r[k] ?? 0);
+    const errors = Array.isArray(r.errors_sample) ? (r.errors_sample as string[]) : [];
+
+    const payload = {
+      ok: true,
+      total: n("total"),
+      imported: n("imported"),
+      updated: n("updated"),
+      releases_created: n("releases_created"),
+      skipped_other_platforms: n("skipped_other_platforms"),
+      uploaded_at: r.uploaded_at ?? null,
+      errors: errors.length ? errors : undefined,
+    };
+    await endRun("ok", { resultJson: payload });
+    return NextResponse.json(payload);
+  } catch (e) {
+    const errMsg = e instanceof Error ? e.message : "GOG import failed";
+    await recordSyncEnd(supabaseServer, runId, "error", {
+      durationMs: Date.now() - start,
+      errorMessage: errMsg,
+      resultJson: { error: errMsg, detail: (e instanceof Error && e.stack) || errMsg },
+    });
+    return NextResponse.json({ ok: false, error: errMsg }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { supabaseRouteClient } from "@/lib/supabase/route-client";
+import { supabaseServer } from "@/lib/supabase/server";
+import { cancelSyncJob, SYNC_JOB_PUBLIC_COLUMNS } from "@/lib/sync/jobs";
+
+export const dynamic = "force-dynamic";
+
+async function loadOwnJob(id: string) {
+  const supabase = await supabaseRouteClient();
+  const { data: userRes } = await supabase.auth.getUser();
+  if (!userRes?.user) {
+    return { ok: false as const, res: NextResponse.json({ ok: false, error: "Not logged in" }, { status: 401 }) };
+  }
+
+  // RLS: select-own only
+  const { data: job, error } = await supabase
+    .from("sync_jobs")
+    .select(SYNC_JOB_PUBLIC_COLUMNS)
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) return { ok: false as const, res: NextResponse.json({ ok: false, error: error.message }, { status: 500 }) };
+  if (!job) return { ok: false as const, res: NextResponse.json({ ok: false, error: "Job not found" }, { status: 404 }) };
+
+  return { ok: true as const, job };
+}
+
+/**
+ * GET /api/sync/jobs/[id] — status, current step and per-step progress.
+ */
+export async function GET(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { id } = await ctx.params;
+  const res = await loadOwnJob(id);
+  if (!res.ok) return res.res;
+
+  return NextResponse.json({ ok: true, job: res.job });
+}
+
+/**
+ * DELETE /api/sync/jobs/[id] — cancel a queued/running job. A worker mid-chunk stops at its next save.
+ */
+export async function DELETE(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { id } = await ctx.params;
+  const res = await loadOwnJob(id);
+  if (!res.ok) return res.res;
+
+  const cancelled = await cancelSyncJob(supabaseServer, id);
+  return NextResponse.json({ ok: true, cancelled });
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { supabaseRouteClient } from "@/lib/supabase/route-client";
+import { supabaseServer } from "@/lib/supabase/server";
+import { claimSyncJob, SYNC_JOB_PUBLIC_COLUMNS } from "@/lib/sync/jobs";
+import { runSyncJob } from "@/lib/sync/run-job";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+/**
+ * POST /api/sync/jobs/[id]/run — run your own job for one budget (~45s), then return.
+ * The Connect, Steam sync and Xbox pages call this in a loop (lib/sync/client.ts runQueuedSync)
+ * until the job finishes; a job locked by the cron worker (or in retry backoff) is not claimable
+ * and just returns its current state (ran: false), and the client waits before polling again.
+ */
+export async function POST(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { id } = await ctx.params;
+
+  const supabase = await supabaseRouteClient();
+  const { data: userRes } = await supabase.auth.getUser();
+  if (!userRes?.user) return NextResponse.json({ ok: false, error: "Not logged in" }, { status: 401 });
+
+  // RLS: select-own only
+  const { data: own, error: oErr } = await supabase.from("sync_jobs").select("id").eq("id", id).maybeSingle();
+  if (oErr) return NextResponse.json({ ok: false, error: oErr.message }, { status: 500 });
+  if (!own) return NextResponse.json({ ok: false, error: "Job not found" }, { status: 404 });
+
+  let ran: Awaited<ReturnType<typeof runSyncJob>> | null = null;
+  try {
+    const claimed = await claimSyncJob(supabaseServer, `user:${userRes.user.id}`, { jobId: id });
+    if (claimed) ran = await runSyncJob(supabaseServer, claimed);
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Sync run failed" }, { status: 500 });
+  }
+
+  const { data: job } = await supabase.from("sync_jobs").select(SYNC_JOB_PUBLIC_COLUMNS).eq("id", id).maybeSingle();
+
+  return NextResponse.json({
+    ok: true,
+    ran: ran != null,
+    job,
+    has_more: job?.status === "queued" || job?.status === "running",
+  });
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { supabaseRouteClient } from "@/lib/supabase/route-client";
+import { supabaseServer } from "@/lib/supabase/server";
+import { enqueueSyncJob, isSyncPlatform, SYNC_JOB_PLATFORMS, SYNC_JOB_PUBLIC_COLUMNS } from "@/lib/sync/jobs";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/sync/jobs?platform=psn — your recent sync jobs (newest first).
+ */
+export async function GET(req: Request) {
+  const supabase = await supabaseRouteClient();
+  const { data: userRes } = await supabase.auth.getUser();
+  if (!userRes?.user) return NextResponse.json({ ok: false, error: "Not logged in" }, { status: 401 });
+
+  const platform = new URL(req.url).searchParams.get("platform");
+
+  let q = supabase
+    .from("sync_jobs")
+    .select(SYNC_JOB_PUBLIC_COLUMNS)
+    .eq("user_id", userRes.user.id)
+    .order("created_at", { ascending: false })
+    .limit(20);
+  if (platform) q = q.eq("platform", platform);
+
+  const { data, error } = await q;
+  if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+
+  return NextResponse.json({ ok: true, jobs: data ?? [] });
+}
+
+/**
+ * POST /api/sync/jobs { platform, full? } — queue a resumable sync (incremental unless full). Returns the existing job when one is
+ * already queued/running for that platform. The cron worker picks it up; the client can also drive
+ * it with POST /api/sync/jobs/[id]/run.
+ */
+export async function POST(req: Request) {
+  const supabase = await supabaseRouteClient();
+  const { data: userRes } = await supabase.auth.getUser();
+  if (!userRes?.user) return NextResponse.json({ ok: false, error: "Not logged in" }, { status: 401 });
+
+  const body = await req.json().catch(() => ({}));
+  const platform = body?.platform;
+  if (!isSyncPlatform(platform)) {
+    return NextResponse.json({ ok: false, error: `platform must be one of ${SYNC_JOB_PLATFORMS.join(", ")}` }, { status: 400 });
+  }
+
+  try {
+    const { job, created } = await enqueueSyncJob(supabaseServer, userRes.user.id, platform, {
+      full: body?.full === true,
+    });
+    const publicJob: Partial<typeof job> = { ...job };
+    delete publicJob.items;
+    return NextResponse.json({ ok: true, created, job: publicJob }, { status: created ? 201 : 200 });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Failed to queue sync" }, { status: 500 });
+  }
+}
@@ -0,0 +1,117 @@
+import { NextResponse } from "next/server";
+import { supabaseRouteClient } from "@/lib/supabase/route-client";
+import { supabaseServer } from "@/lib/supabase/server";
+import { recordSyncEnd, recordSyncStart } from "@/lib/sync/record-run";
+import { runConnectorSync } from "@/lib/sync/engine";
+import { normalizeSwitchTitles, parseSwitchPlayActivity, type SwitchPlayedTitle } from "@/lib/switch/play-activity";
+
+/**
+ * Switch import from the Nintendo Account play activity export, driven by the shared engine
+ * (connectors/switch.ts).
+ *
+ * Body (any of):
+ *   application/json     { titles: SwitchPlayedTitle[], filename? } — parsed in the browser
+ *   multipart/form-data  file = play activity JSON — parsed here (handy offline / with curl)
+ *   empty                re-import the last uploaded snapshot
+ */
+
+async function readUpload(req: Request): Promise<{ titles: SwitchPlayedTitle[]; filename: string | null } | { error: string } | null> {
+  const type = req.headers.get("content-type") ?? "";
+
+  if (type.includes("multipart/form-data")) {
+    const form = await req.formData();
+    const file = form.get("file");
+    if (!file || typeof file === "string") return { error: "Missing file" };
+    try {
+      return { titles: parseSwitchPlayActivity(JSON.parse(await file.text())), filename: file.name || null };
+    } catch (e) {
+      return { error: e instanceof Error ? e.message : "Could not read play activity export" };
+    }
+  }
+
+  const body = await req.json().catch(() => null);
+  if (!body || body.titles == null) return null;
+
+  const titles = normalizeSwitchTitles(body.titles);
+  if (!titles) return { error: "titles must be an array of { title_id, title, playtime_minutes, first_played_at, last_played_at }" };
+  return { titles, filename: typeof body.filename === "string" ? body.filename.slice(0, 200) : null };
+}
+
+export async function POST(req: Request) {
+  let runId: string | null = null;
+  const start = Date.now();
+  try {
+    const supabaseUser = await supabaseRouteClient();
+    const { data: userRes, error: userErr } = await supabaseUser.auth.getUser();
+
+    if (userErr || !userRes?.user) {
+      return NextResponse.json({ ok: false, error: "Not logged in" }, { status: 401 });
+    }
+    const user = userRes.user;
+
+    const upload = await readUpload(req);
+    if (upload && "error" in upload) {
+      return NextResponse.json({ ok: false, error: upload.error }, { status: 400 });
+    }
+    if (upload && upload.titles.length === 0) {
+      return NextResponse.json({ ok: false, error: "No Switch titles found in this export" }, { status: 400 });
+    }
+
+    if (upload) {
+      const { error: upErr } = await supabaseServer.from("switch_play_history_uploads").upsert(
+        {
+          user_id: user.id,
+          titles: upload.titles,
+          title_count: upload.titles.length,
+          source_filename: upload.filename,
+          uploaded_at: new Date().toISOString(),
+        },
+        { onConflict: "user_id" }
+      );
+      if (upErr) return NextResponse.json({ ok: false, error: upErr.message }, { status: 500 });
+    }
+
+    runId = await recordSyncStart(supabaseServer, user.id, "switch");
+    const endRun = async (
+      status: "ok" | "error",
+      opts?: { errorMessage?: string; resultJson?: unknown }
+    ) => {
+      await recordSyncEnd(supabaseServer, runId, status, {
+        durationMs: Date.now() - start,
+        errorMessage: opts?.errorMessage ?? undefined,
+        resultJson: opts?.resultJson ?? undefined,
+      });
+    };
+
+    const res = await runConnectorSync("switch", { admin: supabaseServer, userId: user.id, memo: new Map() });
+    if (!res.ok) {
+      await endRun("error", { errorMessage: res.error, resultJson: { error: res.error, detail: res.detail ?? res.error } });
+      return NextResponse.json({ ok: false, error: res.error }, { status: res.status });
+    }
+
+    const r = res.result as Record<string, unknown>;
+    const n = (k: string) => Number(r[k] ?? 0);
+    const errors = Array.isArray(r.errors_sample) ? (r.errors_sample as string[]) : [];
+
+    const payload = {
+      ok: true,
+      total: n("total"),
+      imported: n("imported"),
+      updated: n("updated"),
+      releases_created: n("releases_created"),
+      playtime_minutes: n("playtime_minutes"),
+      uploaded_at: r.uploaded_at ?? null,
+      errors: errors.length ? errors : undefined,
+    };
+    await endRun("ok", { resultJson: payload });
+    return NextResponse.json(payload);
+  } catch (e) {
+    const errMsg = e instanceof Error ? e.message : "Switch import failed";
+    await recordSyncEnd(supabaseServer, runId, "error", {
+      durationMs: Date.now() - start,
+      errorMessage: errMsg,
+      resultJson: { error: errMsg, detail: (e instanceof Error && e.stack) || errMsg },
+    });
+    return NextResponse.json({ ok: false, error: errMsg }, { status: 500 });
+  }
+}
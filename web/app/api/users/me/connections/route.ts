@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { supabaseRouteClient } from "@/lib/supabase/route-client";
 import { supabaseServer } from "@/lib/supabase/server";
+import { RUN_PLATFORM_KEYS } from "@/lib/sync/record-run";
 
 export const dynamic = "force-dynamic";
 
@@ -17,13 +18,6 @@ async function hasAny(table: string, userId: string) {
   return { connected: !!row, last_sync: row?.updated_at ?? null };
 }
 
-const RUN_PLATFORM_KEYS: Record<string, string[]> = {
-  psn: ["psn"],
-  xbox: ["xbox"],
-  steam: ["steam", "steam-thin", "steam_enrich", "steam-enrich"],
-  ra: ["ra", "retroachievements"],
-};
-
 function getRunForPlatform(latestByPlatform: Map<string, any>, key: string): any {
   const candidates = RUN_PLATFORM_KEYS[key] ?? [key];
   let best: any = null;
@@ -43,11 +37,13 @@ export async function GET() {
     return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
   }
 
-  const [psn, xbox, steam, ra, runsData] = await Promise.all([
+  const [psn, xbox, steam, ra, gog, nintendoSwitch, runsData, schedules] = await Promise.all([
     hasAny("psn_title_progress", user.id),
     hasAny("xbox_title_progress", user.id),
     hasAny("steam_title_progress", user.id),
     hasAny("ra_achievement_cache", user.id),
+    hasAny("gog_title_progress", user.id),
+    hasAny("switch_title_progress", user.id),
     supabaseServer
       .from("sync_runs")
       .select("platform, status, started_at, duration_ms, error_message")
@@ -61,6 +57,11 @@ export async function GET() {
         }
         return latestByPlatform;
       }),
+    supabaseServer
+      .from("sync_schedules")
+      .select("platform, enabled, interval_hours, next_due_at, consecutive_errors")
+      .eq("user_id", user.id)
+      .then(({ data }) => new Map((data ?? []).map((s) => [s.platform, s]))),
   ]);
 
   const base = [
@@ -68,11 +69,14 @@ export async function GET() {
     { key: "xbox", label: "Xbox", ...xbox },
     { key: "steam", label: "Steam", ...steam },
     { key: "ra", label: "RetroAchievements", ...ra },
+    { key: "gog", label: "GOG", ...gog },
+    { key: "switch", label: "Nintendo Switch", ...nintendoSwitch },
   ];
 
   const platforms = base.map((p) => {
     const run = getRunForPlatform(runsData, p.key);
     const status = p.connected ? "connected" : "disconnected";
+    const schedule = schedules.get(p.key);
     return {
       ...p,
       status,
@@ -80,6 +84,14 @@ export async function GET() {
       last_sync_run_at: run?.started_at ?? null,
       last_sync_duration_ms: run?.duration_ms ?? null,
       last_error_message: run?.error_message ?? null,
+      auto_sync: schedule
+        ? {
+            enabled: !!schedule.enabled,
+            interval_hours: schedule.interval_hours,
+            next_due_at: schedule.next_due_at,
+            consecutive_errors: schedule.consecutive_errors ?? 0,
+          }
+        : null,
     };
   });
 
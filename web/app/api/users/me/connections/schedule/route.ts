@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server";
+import { supabaseRouteClient } from "@/lib/supabase/route-client";
+import { supabaseServer } from "@/lib/supabase/server";
+import { isScheduledSyncPlatform, SCHEDULE_INTERVAL_HOURS, SCHEDULED_SYNC_PLATFORMS } from "@/lib/sync/schedule";
+
+export const dynamic = "force-dynamic";
+
+const SCHEDULE_COLUMNS = "platform, enabled, interval_hours, next_due_at, consecutive_errors, last_enqueued_at, last_decision";
+
+/**
+ * GET /api/users/me/connections/schedule — auto re-sync settings for every platform
+ * (platforms without a row are reported as disabled with the default interval).
+ */
+export async function GET() {
+  const supabase = await supabaseRouteClient();
+  const { data: auth } = await supabase.auth.getUser();
+  const user = auth?.user;
+  if (!user) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+  const { data, error } = await supabase
+    .from("sync_schedules")
+    .select(SCHEDULE_COLUMNS)
+    .eq("user_id", user.id);
+
+  if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+
+  const byPlatform = new Map((data ?? []).map((r) => [r.platform, r]));
+  const schedules = SCHEDULED_SYNC_PLATFORMS.map(
+    (platform) =>
+      byPlatform.get(platform) ?? {
+        platform,
+        enabled: false,
+        interval_hours: SCHEDULE_INTERVAL_HOURS.default,
+        next_due_at: null,
+        consecutive_errors: 0,
+        last_enqueued_at: null,
+        last_decision: null,
+      }
+  );
+
+  return NextResponse.json({ ok: true, schedules });
+}
+
+/**
+ * PUT /api/users/me/connections/schedule { platform, enabled, interval_hours? }
+ * Enabling makes the row due immediately; the scheduler still skips if the last run is recent.
+ */
+export async function PUT(req: Request) {
+  const supabase = await supabaseRouteClient();
+  const { data: auth } = await supabase.auth.getUser();
+  const user = auth?.user;
+  if (!user) return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+
+  const body = await req.json().catch(() => ({}));
+  const platform = body?.platform;
+  if (!isScheduledSyncPlatform(platform)) {
+    return NextResponse.json(
+      { ok: false, error: `platform must be one of ${SCHEDULED_SYNC_PLATFORMS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+  if (typeof body?.enabled !== "boolean") {
+    return NextResponse.json({ ok: false, error: "enabled must be a boolean" }, { status: 400 });
+  }
+
+  const intervalHours = body?.interval_hours == null ? SCHEDULE_INTERVAL_HOURS.default : Number(body.interval_hours);
+  if (
+    !Number.isInteger(intervalHours) ||
+    intervalHours < SCHEDULE_INTERVAL_HOURS.min ||
+    intervalHours > SCHEDULE_INTERVAL_HOURS.max
+  ) {
+    return NextResponse.json(
+      { ok: false, error: `interval_hours must be an integer between ${SCHEDULE_INTERVAL_HOURS.min} and ${SCHEDULE_INTERVAL_HOURS.max}` },
+      { status: 400 }
+    );
+  }
+
+  const nowIso = new Date().toISOString();
+  const { data, error } = await supabaseServer
+    .from("sync_schedules")
+    .upsert(
+      {
+        user_id: user.id,
+        platform,
+        enabled: body.enabled,
+        interval_hours: intervalHours,
+        ...(body.enabled ? { next_due_at: nowIso } : {}),
+        updated_at: nowIso,
+      },
+      { onConflict: "user_id,platform" }
+    )
+    .select(SCHEDULE_COLUMNS)
+    .single();
+
+  if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+
+  return NextResponse.json({ ok: true, schedule: data });
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { supabaseRouteClient } from "@/lib/supabase/route-client";
+import { supabaseServer } from "@/lib/supabase/server";
+import {
+  ACCOUNT_EXPORT_TABLES,
+  buildAccountExport,
+  exportAccountTable,
+  isAccountExportTable,
+} from "@/lib/account-export/bundle";
+import { toCsv } from "@/lib/account-export/csv";
+
+/**
+ * GET /api/users/me/export
+ *   (default)                  versioned JSON bundle of everything the user owns (lib/account-export/bundle.ts)
+ *   ?format=csv&table=<table>  one table as CSV
+ * Both are sent as attachments.
+ */
+export async function GET(req: Request) {
+  const supabase = await supabaseRouteClient();
+  const { data: auth } = await supabase.auth.getUser();
+  const user = auth?.user;
+
+  if (!user) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  const url = new URL(req.url);
+  const format = (url.searchParams.get("format") ?? "json").toLowerCase();
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  try {
+    if (format === "csv") {
+      const table = url.searchParams.get("table");
+      if (!isAccountExportTable(table)) {
+        return NextResponse.json(
+          { ok: false, error: `table must be one of ${ACCOUNT_EXPORT_TABLES.map((t) => t.table).join(", ")}` },
+          { status: 400 }
+        );
+      }
+      const rows = await exportAccountTable(supabaseServer, user.id, table);
+      return new NextResponse(toCsv(rows), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="savestate-${table}-${stamp}.csv"`,
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    if (format !== "json") {
+      return NextResponse.json({ ok: false, error: "format must be json or csv" }, { status: 400 });
+    }
+
+    const bundle = await buildAccountExport(supabaseServer, user.id);
+    return new NextResponse(JSON.stringify(bundle, null, 2), {
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="savestate-export-${stamp}.json"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Export failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { supabaseRouteClient } from "@/lib/supabase/route-client";
+import { supabaseServer } from "@/lib/supabase/server";
+import type { AccountExportBundle } from "@/lib/account-export/bundle";
+import { accountHasData, restoreAccountExport, validateAccountExport } from "@/lib/account-export/restore";
+
+/**
+ * POST /api/users/me/import
+ * Body: the JSON bundle from GET /api/users/me/export (application/json, or multipart file=<bundle.json>).
+ * Only for fresh accounts (no portfolio entries or lists yet); release ids are remapped by external ids.
+ * A failed write rolls the restore back, so the same bundle can be imported again.
+ */
+async function readBundle(req: Request): Promise<unknown> {
+  const type = req.headers.get("content-type") ?? "";
+  if (type.includes("multipart/form-data")) {
+    const form = await req.formData();
+    const file = form.get("file");
+    if (!file || typeof file === "string") return null;
+    return JSON.parse(await file.text());
+  }
+  return req.json();
+}
+
+export async function POST(req: Request) {
+  const supabase = await supabaseRouteClient();
+  const { data: auth } = await supabase.auth.getUser();
+  const user = auth?.user;
+
+  if (!user) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  const bundle = await readBundle(req).catch(() => null);
+  const invalid = validateAccountExport(bundle);
+  if (invalid) return NextResponse.json({ ok: false, error: invalid }, { status: 400 });
+
+  try {
+    if (await accountHasData(supabaseServer, user.id)) {
+      return NextResponse.json(
+        { ok: false, error: "This account already has games or lists. Restore only works on a fresh account." },
+        { status: 409 }
+      );
+    }
+
+    const report = await restoreAccountExport(supabaseServer, user.id, bundle as AccountExportBundle);
+    return NextResponse.json({ ok: true, report });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Import failed" }, { status: 500 });
+  }
+}
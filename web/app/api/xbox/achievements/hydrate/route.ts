@@ -6,6 +6,7 @@ import {
   fetchXboxProfile,
   fetchXboxAchievementsForTitle,
 } from "@/lib/xbox/server";
+import { recordAchievementUnlocks } from "@/lib/achievements/unlocks";
 
 function nowIso() {
   return new Date().toISOString();
@@ -82,6 +83,7 @@ export async function POST(req: Request) {
     const achievements = await fetchXboxAchievementsForTitle(authorization, xuid, titleId);
 
     let upserted = 0;
+    const unlocks: Parameters<typeof recordAchievementUnlocks>[3] = [];
 
     const getId = (ach: any) =>
       String(ach?.id ?? ach?.achievementId ?? ach?.achievement_id ?? "").trim();
@@ -151,6 +153,14 @@ export async function POST(req: Request) {
         updated_at: nowIso(),
       };
 
+      unlocks.push({
+        achievement_id: achievementId,
+        achievement_name: row.achievement_name,
+        icon_url: row.achievement_icon_url,
+        unlocked_at: earned ? unlockTime : null,
+        rarity_percentage: row.rarity_percentage,
+      });
+
       const { error: upErr } = await supabaseAdmin
         .from("xbox_achievements")
         .upsert(row, {
@@ -160,11 +170,19 @@ export async function POST(req: Request) {
       if (!upErr) upserted += 1;
     }
 
+    const unlocked = await recordAchievementUnlocks(
+      supabaseAdmin,
+      user.id,
+      { platform: "xbox", release_id, external_game_id: titleId },
+      unlocks
+    );
+
     return NextResponse.json({
       ok: true,
       release_id,
       title_id: titleId,
       upserted,
+      unlocked,
       total: achievements.length,
     });
   } catch (e: any) {
@@ -0,0 +1,324 @@
+"use client";
+
+import * as React from "react";
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
+import { ChevronRight } from "lucide-react";
+import { PageShell } from "@/src/ui/PageShell";
+import type { OnlyGame, ProfileComparison, SharedGame } from "@/lib/social/compare";
+
+function GlassCard({ children, className = "" }: { children: React.ReactNode; className?: string }) {
+  return (
+    <div
+      className={[
+        "relative overflow-hidden rounded-[var(--radius-xl)] border border-border bg-card/60 backdrop-blur",
+        "shadow-[0_20px_80px_rgba(0,0,0,0.45)]",
+        className,
+      ].join(" ")}
+    >
+      {children}
+    </div>
+  );
+}
+
+function Kicker({ children }: { children: React.ReactNode }) {
+  return <div className="text-[11px] uppercase tracking-wider text-muted-foreground">{children}</div>;
+}
+
+function Hidden({ what }: { what: string }) {
+  return <div className="mt-3 text-sm text-muted-foreground">{what} isn&apos;t shared by one of these profiles.</div>;
+}
+
+function pct(n: number | null | undefined) {
+  return n == null ? "—" : `${Math.round(n * 100)}%`;
+}
+
+function fmtInt(n: number | null | undefined) {
+  if (n == null || Number.isNaN(n)) return "—";
+  return n.toLocaleString();
+}
+
+function Avatar({ user }: { user: ProfileComparison["a"] }) {
+  return (
+    <Link
+      href={`/users/${encodeURIComponent(user.username)}`}
+      className="h-14 w-14 shrink-0 rounded-full border border-border bg-card/60 overflow-hidden flex items-center justify-center text-lg text-muted-foreground"
+    >
+      {user.avatar_url ? (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img src={user.avatar_url} alt="" className="h-full w-full object-cover" />
+      ) : (
+        (user.display_name ?? user.username).charAt(0).toUpperCase()
+      )}
+    </Link>
+  );
+}
+
+/** Two bars meeting in the middle: a grows left, b grows right. */
+function SplitBar({ a, b, max }: { a: number | null; b: number | null; max: number }) {
+  const w = (v: number | null) => `${max > 0 && v != null ? Math.round((v / max) * 100) : 0}%`;
+  return (
+    <div className="grid grid-cols-2 gap-1">
+      <div className="flex justify-end h-2 rounded-l bg-card/40">
+        <div className="h-2 rounded-l bg-[#F2C14E]" style={{ width: w(a) }} />
+      </div>
+      <div className="flex h-2 rounded-r bg-card/40">
+        <div className="h-2 rounded-r bg-indigo-400" style={{ width: w(b) }} />
+      </div>
+    </div>
+  );
+}
+
+function GameList({ title, games }: { title: string; games: Array<SharedGame | OnlyGame> }) {
+  return (
+    <div>
+      <Kicker>{title}</Kicker>
+      {games.length === 0 ? (
+        <div className="mt-2 text-sm text-muted-foreground">None.</div>
+      ) : (
+        <ul className="mt-2 space-y-1.5 text-sm">
+          {games.map((g) => {
+            // Shared games show who completed them (✓ a / ✓ b) when completions are shared.
+            const note =
+              "a" in g
+                ? g.a.completed != null
+                  ? `${g.a.completed ? "✓" : "·"} / ${g.b.completed ? "✓" : "·"}`
+                  : [...new Set([...g.a.platforms, ...g.b.platforms])].join(", ")
+                : g.platforms.join(", ");
+            return (
+              <li key={g.game_id} className="flex items-baseline justify-between gap-3">
+                <span className="min-w-0 truncate">{g.title}</span>
+                <span className="shrink-0 text-xs text-muted-foreground">{note}</span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default function ComparePageClient() {
+  const params = useParams();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const a = (params?.a as string)?.trim() ?? "";
+  const b = (params?.b as string)?.trim() ?? "";
+  const platform = searchParams?.get("platform") ?? "";
+
+  const [data, setData] = useState<ProfileComparison | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!a || !b) return;
+    let cancelled = false;
+    const qs = platform ? `?platform=${encodeURIComponent(platform)}` : "";
+    fetch(`/api/compare/${a}/${b}${qs}`, { cache: "no-store" })
+      .then(async (r) => {
+        const json = await r.json().catch(() => null);
+        if (cancelled) return;
+        if (!r.ok || !json?.ok) {
+          setError(json?.error ?? "Not found");
+          setData(null);
+        } else {
+          setError(null);
+          setData(json as ProfileComparison);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setError("Couldn't load the comparison.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [a, b, platform]);
+
+  function setPlatform(next: string | null) {
+    const qs = next ? `?platform=${encodeURIComponent(next)}` : "";
+    router.replace(`/compare/${a}/${b}${qs}`);
+  }
+
+  if (error) {
+    return (
+      <PageShell className="flex min-h-screen flex-col items-center justify-center gap-4">
+        <p className="text-[var(--text)]">{error === "Not found" ? "One of these profiles isn't available." : error}</p>
+        <Link href="/gamehome" className="text-sm text-[var(--accent)] hover:underline">
+          Go home
+        </Link>
+      </PageShell>
+    );
+  }
+
+  if (!data) {
+    return (
+      <PageShell className="flex min-h-screen items-center justify-center">
+        <p className="text-[var(--muted)]">Loading…</p>
+      </PageShell>
+    );
+  }
+
+  const nameA = data.a.display_name ?? data.a.username;
+  const nameB = data.b.display_name ?? data.b.username;
+  const eraMax = Math.max(0, ...(data.eras ?? []).flatMap((r) => [r.a?.share ?? 0, r.b?.share ?? 0]));
+  const archMax = Math.max(0, ...(data.archetypes ?? []).flatMap((r) => [r.a ?? 0, r.b ?? 0]));
+  const platMax = Math.max(0, ...(data.platforms ?? []).flatMap((r) => [r.a ?? 0, r.b ?? 0]));
+
+  return (
+    <PageShell>
+      <div className="relative mx-auto max-w-[1240px] px-6 py-10 space-y-8">
+        <Link href="/gamehome" className="inline-flex items-center gap-1 text-sm text-white/60 hover:text-white">
+          <ChevronRight className="h-4 w-4 rotate-180" />
+          Back to Home
+        </Link>
+
+        <GlassCard className="p-6">
+          <div className="flex flex-wrap items-center justify-between gap-6">
+            <div className="flex items-center gap-4">
+              <Avatar user={data.a} />
+              <div>
+                <div className="text-lg font-semibold text-[#F2C14E]">{nameA}</div>
+                <div className="text-xs text-muted-foreground">
+                  @{data.a.username} · score {fmtInt(data.a.score)}
+                </div>
+              </div>
+            </div>
+            <div className="text-center">
+              <Kicker>Taste similarity</Kicker>
+              <div className="mt-1 text-4xl font-semibold">
+                {data.similarity.score == null ? "—" : `${data.similarity.score}%`}
+              </div>
+            </div>
+            <div className="flex items-center gap-4">
+              <div className="text-right">
+                <div className="text-lg font-semibold text-indigo-300">{nameB}</div>
+                <div className="text-xs text-muted-foreground">
+                  @{data.b.username} · score {fmtInt(data.b.score)}
+                </div>
+              </div>
+              <Avatar user={data.b} />
+            </div>
+          </div>
+        </GlassCard>
+
+        <GlassCard className="p-6">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <Kicker>Libraries{data.library?.platform ? ` · ${data.library.platform}` : ""}</Kicker>
+            {data.library?.platform && (
+              <button type="button" onClick={() => setPlatform(null)} className="text-xs text-muted-foreground hover:text-foreground">
+                All platforms
+              </button>
+            )}
+          </div>
+          {!data.library ? (
+            <Hidden what="The game library" />
+          ) : (
+            <>
+              <div className="mt-4 grid grid-cols-3 gap-4 text-center">
+                <div>
+                  <div className="text-2xl font-semibold text-[#F2C14E]">{fmtInt(data.library.counts.only_a)}</div>
+                  <div className="text-xs text-muted-foreground">only {nameA}</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-semibold">{fmtInt(data.library.counts.shared)}</div>
+                  <div className="text-xs text-muted-foreground">shared</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-semibold text-indigo-300">{fmtInt(data.library.counts.only_b)}</div>
+                  <div className="text-xs text-muted-foreground">only {nameB}</div>
+                </div>
+              </div>
+              {data.completion && (
+                <div className="mt-4 text-sm text-muted-foreground">
+                  Of shared games, {fmtInt(data.completion.both)} completed by both, {fmtInt(data.completion.only_a)} only by{" "}
+                  {nameA}, {fmtInt(data.completion.only_b)} only by {nameB} (completion overlap {pct(data.completion.overlap)}).
+                </div>
+              )}
+              <div className="mt-6 grid grid-cols-1 gap-6 md:grid-cols-3">
+                <GameList title={`Only ${nameA}`} games={data.library.only_a} />
+                <GameList title="Shared" games={data.library.shared} />
+                <GameList title={`Only ${nameB}`} games={data.library.only_b} />
+              </div>
+            </>
+          )}
+        </GlassCard>
+
+        <div className="grid grid-cols-1 gap-8 lg:grid-cols-2">
+          <GlassCard className="p-6">
+            <Kicker>Eras</Kicker>
+            {!data.eras ? (
+              <Hidden what="The era timeline" />
+            ) : (
+              <ul className="mt-4 space-y-3">
+                {data.eras.map((r) => (
+                  <li key={r.era}>
+                    <div className="flex items-baseline justify-between gap-3 text-sm">
+                      <span className="w-14 text-[#F2C14E]">{pct(r.a?.share)}</span>
+                      <span className="min-w-0 truncate text-center">
+                        {r.label} <span className="text-xs text-muted-foreground">{r.years}</span>
+                      </span>
+                      <span className="w-14 text-right text-indigo-300">{pct(r.b?.share)}</span>
+                    </div>
+                    <div className="mt-1">
+                      <SplitBar a={r.a?.share ?? null} b={r.b?.share ?? null} max={eraMax} />
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </GlassCard>
+
+          <GlassCard className="p-6">
+            <Kicker>Archetypes</Kicker>
+            {!data.archetypes ? (
+              <Hidden what="Archetypes" />
+            ) : (
+              <ul className="mt-4 space-y-3">
+                {data.archetypes.map((r) => (
+                  <li key={r.key}>
+                    <div className="flex items-baseline justify-between gap-3 text-sm">
+                      <span className="w-10 text-[#F2C14E]">{r.a ?? "—"}</span>
+                      <span className="min-w-0 truncate text-center">{r.label}</span>
+                      <span className="w-10 text-right text-indigo-300">{r.b ?? "—"}</span>
+                    </div>
+                    <div className="mt-1">
+                      <SplitBar a={r.a} b={r.b} max={archMax} />
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </GlassCard>
+        </div>
+
+        <GlassCard className="p-6">
+          <Kicker>Platforms</Kicker>
+          {!data.platforms ? (
+            <Hidden what="Platforms" />
+          ) : (
+            <ul className="mt-4 space-y-3">
+              {data.platforms.slice(0, 15).map((r) => (
+                <li key={r.platform}>
+                  <div className="flex items-baseline justify-between gap-3 text-sm">
+                    <span className="w-14 text-[#F2C14E]">{fmtInt(r.a)}</span>
+                    {r.a != null && r.b != null ? (
+                      <button type="button" onClick={() => setPlatform(r.platform)} className="min-w-0 truncate hover:underline">
+                        {r.platform}
+                      </button>
+                    ) : (
+                      <span className="min-w-0 truncate">{r.platform}</span>
+                    )}
+                    <span className="w-14 text-right text-indigo-300">{fmtInt(r.b)}</span>
+                  </div>
+                  <div className="mt-1">
+                    <SplitBar a={r.a} b={r.b} max={platMax} />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </GlassCard>
+      </div>
+    </PageShell>
+  );
+}
@@ -0,0 +1,20 @@
+import type { Metadata } from "next";
+import { Suspense } from "react";
+import ComparePageClient from "./ComparePageClient";
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ a: string; b: string }>;
+}): Promise<Metadata> {
+  const { a, b } = await params;
+  return { title: `@${decodeURIComponent(a ?? "")} vs @${decodeURIComponent(b ?? "")} on SaveState` };
+}
+
+export default function ComparePage() {
+  return (
+    <Suspense fallback={null}>
+      <ComparePageClient />
+    </Suspense>
+  );
+}
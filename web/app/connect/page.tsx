@@ -2,6 +2,10 @@
 
 import { useEffect, useState } from "react";
 import Link from "next/link";
+import { parseGalaxyDb } from "@/lib/gog/galaxy-db";
+import { parseSwitchPlayActivity } from "@/lib/switch/play-activity";
+import { runQueuedSync, syncJobResultPayload } from "@/lib/sync/client";
+import type { SyncPlatform } from "@/lib/sync/record-run";
 
 const SYNC_ENDPOINTS: Record<string, string> = {
   psn: "/api/sync/psn",
@@ -9,8 +13,16 @@ const SYNC_ENDPOINTS: Record<string, string> = {
   steam: "/api/sync/steam-thin",
   steam_enrich: "/api/sync/steam-enrich",
   ra: "/api/sync/retroachievements",
+  gog: "/api/sync/gog",
+  switch: "/api/sync/switch",
 };
 
+/**
+ * Linked accounts sync through the resumable job queue (lib/sync/client.ts), so large libraries
+ * finish over several requests instead of timing out in one; uploads still post to SYNC_ENDPOINTS.
+ */
+const QUEUED_PLATFORMS: SyncPlatform[] = ["psn", "xbox", "steam", "ra"];
+
 const CONNECT_URLS: Record<string, string> = {
   steam: "/api/auth/steam/start",
   xbox: "/api/auth/xbox/start",
@@ -18,6 +30,41 @@ const CONNECT_URLS: Record<string, string> = {
   ra: "/api/auth/retroachievements/start",
 };
 
+/**
+ * Imported from a file the user uploads rather than a linked account (no auto-sync).
+ * Files are parsed here (GOG Galaxy databases can be hundreds of MB); only the title list is posted.
+ */
+const UPLOAD_PLATFORMS: Record<string, { accept: string; hint: string; parse: (file: File) => Promise<unknown> }> = {
+  gog: {
+    accept: ".db",
+    hint: "GOG Galaxy database (galaxy-2.0.db) — close Galaxy first",
+    parse: async (file) => parseGalaxyDb(new Uint8Array(await file.arrayBuffer())),
+  },
+  switch: {
+    accept: ".json,application/json",
+    hint: "Play activity JSON from your Nintendo Account data export",
+    parse: async (file) => ({ titles: parseSwitchPlayActivity(JSON.parse(await file.text())) }),
+  },
+};
+
+/** Auto re-sync cadence choices (hours); 0 = off. Stored via /api/users/me/connections/schedule. */
+const AUTO_SYNC_OPTIONS: { hours: number; label: string }[] = [
+  { hours: 0, label: "Auto-sync off" },
+  { hours: 12, label: "Every 12 hours" },
+  { hours: 24, label: "Daily" },
+  { hours: 168, label: "Weekly" },
+];
+
+/** Incremental syncs report titles skipped as unchanged since the last run. */
+function unchangedNote(data: { skipped?: number } | null): string | null {
+  return data?.skipped ? `${data.skipped} unchanged` : null;
+}
+
+function joinNotes(...parts: (string | null)[]): string | null {
+  const s = parts.filter(Boolean).join(" · ");
+  return s || null;
+}
+
 function normalizeSyncSummary(platformKey: string, data: any) {
   if (!data) return {};
 
@@ -25,7 +72,7 @@ function normalizeSyncSummary(platformKey: string, data: any) {
   if (platformKey === "steam" || platformKey === "steam_enrich") {
     return {
       line1: `${data.mapped ?? 0}/${data.total ?? 0} mapped · ${data.portfolio_upserted ?? 0} added`,
-      line2: data.releases_created ? `${data.releases_created} new releases` : null,
+      line2: joinNotes(data.releases_created ? `${data.releases_created} new releases` : null, unchangedNote(data)),
       warn: Array.isArray(data.errors) && data.errors.length ? `${data.errors.length} warnings` : null,
       note: data.note ?? null,
     };
@@ -37,7 +84,7 @@ function normalizeSyncSummary(platformKey: string, data: any) {
     const titles = data.trophy_groups?.unique_titles ?? 0;
     return {
       line1: `${played} played · ${trophies} trophies · ${titles} titles`,
-      line2: data.releases_touched ? `${data.releases_touched} releases touched` : null,
+      line2: joinNotes(data.releases_touched ? `${data.releases_touched} releases touched` : null, unchangedNote(data)),
       note: data.note ?? null,
     };
   }
@@ -50,12 +97,32 @@ function normalizeSyncSummary(platformKey: string, data: any) {
     const errCount = Array.isArray(data.errors) ? data.errors.length : 0;
     return {
       line1: `${processed}/${total} processed ${gt}`.trim(),
-      line2: data.imported || data.updated ? `${data.imported ?? 0} imported · ${data.updated ?? 0} updated` : null,
+      line2: joinNotes(
+        data.imported || data.updated ? `${data.imported ?? 0} imported · ${data.updated ?? 0} updated` : null,
+        unchangedNote(data)
+      ),
       warn: errCount ? `${errCount} warnings` : warns,
       note: data.warning ?? null,
     };
   }
 
+  if (platformKey === "gog") {
+    return {
+      line1: `${data.imported ?? 0} imported · ${data.updated ?? 0} updated of ${data.total ?? 0}`,
+      line2: data.skipped_other_platforms ? `${data.skipped_other_platforms} non-GOG entries skipped` : null,
+      warn: Array.isArray(data.errors) && data.errors.length ? `${data.errors.length} warnings` : null,
+    };
+  }
+
+  if (platformKey === "switch") {
+    const hours = Math.round((data.playtime_minutes ?? 0) / 60);
+    return {
+      line1: `${data.imported ?? 0} imported · ${data.updated ?? 0} updated of ${data.total ?? 0}`,
+      line2: hours ? `${hours.toLocaleString()} hours played` : null,
+      warn: Array.isArray(data.errors) && data.errors.length ? `${data.errors.length} warnings` : null,
+    };
+  }
+
   if (platformKey === "ra") {
     return {
       line1: `imported ${data.imported ?? 0}${data.username ? ` · ${data.username}` : ""}`,
@@ -112,6 +179,7 @@ type Platform = {
   sync_status?: string | null;
   last_sync_duration_ms?: number | null;
   last_error_message?: string | null;
+  auto_sync?: { enabled: boolean; interval_hours: number; next_due_at: string | null; consecutive_errors: number } | null;
 };
 
 type SyncStatus = {
@@ -150,20 +218,34 @@ export default function ConnectPage() {
     load();
   }, []);
 
-  async function syncPlatform(key: string) {
-    const url = SYNC_ENDPOINTS[key];
-    if (!url) return;
+  async function runSync(key: string, body?: unknown) {
+    const queued = QUEUED_PLATFORMS.find((p) => p === key);
+    if (queued && body === undefined) {
+      const job = await runQueuedSync(queued);
+      if (job.status !== "ok") throw new Error(job.last_error || `Sync ${job.status}`);
+      return syncJobResultPayload(queued, job.result);
+    }
 
-    setSyncing((s) => ({ ...s, [key]: { running: true } }));
+    const res = await fetch(SYNC_ENDPOINTS[key], {
+      method: "POST",
+      credentials: "include",
+      ...(body !== undefined ? { headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) } : {}),
+    });
+    const data = await res.json().catch(() => ({}));
 
-    try {
-      const res = await fetch(url, { method: "POST", credentials: "include" });
-      const data = await res.json().catch(() => ({}));
+    if (!res.ok || data?.ok === false) {
+      throw new Error(data?.error || res.statusText);
+    }
+    return data;
+  }
 
-      if (!res.ok || data?.ok === false) {
-        throw new Error(data?.error || res.statusText);
-      }
+  async function syncPlatform(key: string, body?: unknown) {
+    if (!SYNC_ENDPOINTS[key]) return;
+
+    setSyncing((s) => ({ ...s, [key]: { running: true } }));
 
+    try {
+      const data = await runSync(key, body);
       const ui = normalizeSyncSummary(key, data);
 
       setSyncing((s) => ({
@@ -181,6 +263,31 @@ export default function ConnectPage() {
     }
   }
 
+  async function uploadPlatformFile(key: string, file: File | undefined) {
+    const upload = UPLOAD_PLATFORMS[key];
+    if (!file || !upload) return;
+    try {
+      const parsed = (await upload.parse(file)) as Record<string, unknown>;
+      await syncPlatform(key, { ...parsed, filename: file.name });
+    } catch (e) {
+      const message = e instanceof Error ? e.message : undefined;
+      setSyncing((s) => ({
+        ...s,
+        [key]: { running: false, ok: false, error: message ?? "Could not read file", raw: { error: message } },
+      }));
+    }
+  }
+
+  async function setAutoSync(key: string, hours: number) {
+    const res = await fetch("/api/users/me/connections/schedule", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify(hours > 0 ? { platform: key, enabled: true, interval_hours: hours } : { platform: key, enabled: false }),
+    });
+    if (res.ok) await load();
+  }
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background text-foreground flex items-center justify-center">
@@ -214,6 +321,7 @@ export default function ConnectPage() {
           {platforms.map((p) => {
             const running = !!syncing?.[p.key]?.running;
             const connected = !!p.connected;
+            const upload = UPLOAD_PLATFORMS[p.key];
 
             return (
               <div
@@ -227,7 +335,39 @@ export default function ConnectPage() {
                   <div className="text-lg font-semibold">{p.label}</div>
                 </div>
 
-                {!connected ? (
+                {upload ? (
+                  <div className="flex items-center gap-3">
+                    {connected ? (
+                      <button
+                        type="button"
+                        onClick={() => syncPlatform(p.key)}
+                        disabled={running}
+                        className="inline-flex h-11 items-center justify-center rounded-[var(--radius-xl)] border border-border bg-card/40 text-foreground font-semibold px-6 hover:bg-card/60 transition disabled:opacity-50"
+                      >
+                        Re-import
+                      </button>
+                    ) : null}
+                    <label
+                      title={upload.hint}
+                      className={[
+                        "inline-flex h-11 cursor-pointer items-center justify-center rounded-[var(--radius-xl)] bg-[#F2C14E] text-black font-semibold px-6 hover:bg-[#F2C14E]/90 transition",
+                        running ? "pointer-events-none opacity-50" : "",
+                      ].join(" ")}
+                    >
+                      {running ? "Importing…" : connected ? "Upload new export" : "Upload export"}
+                      <input
+                        type="file"
+                        accept={upload.accept}
+                        className="sr-only"
+                        disabled={running}
+                        onChange={(e) => {
+                          uploadPlatformFile(p.key, e.target.files?.[0]);
+                          e.target.value = "";
+                        }}
+                      />
+                    </label>
+                  </div>
+                ) : !connected ? (
                   <Link
                     href={CONNECT_URLS[p.key] ?? "#"}
                     className="inline-flex h-11 items-center justify-center rounded-[var(--radius-xl)] bg-[#F2C14E] text-black font-semibold px-6 hover:bg-[#F2C14E]/90 transition"
@@ -235,14 +375,31 @@ export default function ConnectPage() {
                     Connect
                   </Link>
                 ) : (
-                  <button
-                    type="button"
-                    onClick={() => syncPlatform(p.key)}
-                    disabled={running}
-                    className="inline-flex h-11 items-center justify-center rounded-[var(--radius-xl)] bg-[#F2C14E] text-black font-semibold px-6 hover:bg-[#F2C14E]/90 transition disabled:opacity-50"
-                  >
-                    {running ? "Syncing…" : "Sync now"}
-                  </button>
+                  <div className="flex items-center gap-3">
+                    <select
+                      aria-label={`${p.label} auto-sync`}
+                      value={p.auto_sync?.enabled ? p.auto_sync.interval_hours : 0}
+                      onChange={(e) => setAutoSync(p.key, Number(e.target.value))}
+                      className="h-11 rounded-[var(--radius-xl)] border border-border bg-card/40 px-3 text-sm text-foreground"
+                    >
+                      {AUTO_SYNC_OPTIONS.map((o) => (
+                        <option key={o.hours} value={o.hours}>
+                          {o.label}
+                        </option>
+                      ))}
+                      {p.auto_sync?.enabled && !AUTO_SYNC_OPTIONS.some((o) => o.hours === p.auto_sync?.interval_hours) ? (
+                        <option value={p.auto_sync.interval_hours}>Every {p.auto_sync.interval_hours} hours</option>
+                      ) : null}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => syncPlatform(p.key)}
+                      disabled={running}
+                      className="inline-flex h-11 items-center justify-center rounded-[var(--radius-xl)] bg-[#F2C14E] text-black font-semibold px-6 hover:bg-[#F2C14E]/90 transition disabled:opacity-50"
+                    >
+                      {running ? "Syncing…" : "Sync now"}
+                    </button>
+                  </div>
                 )}
               </div>
             );
@@ -5,8 +5,10 @@ import { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import ProgressBlock, { type ProgressSignal } from "@/components/progress/ProgressBlock";
 import { resolveCoverUrl } from "@/lib/images/resolveCoverUrl";
+import type { CoverImage } from "@/lib/images/cover";
 import { IdentityStrip } from "@/app/components/identity/IdentityStrip";
 import { PlayedOnSummaryChip } from "@/components/identity/PlayedOnSummaryChip";
+import { FriendsFeed } from "@/components/social/FriendsFeed";
 import { EraTimeline } from "@/components/identity/EraTimeline";
 import { buildTimelineEras } from "@/lib/identity/timeline-view";
 import { eraLabel, eraYears, mergeEraBucketsByCanonical } from "@/lib/identity/eras";
@@ -101,6 +103,8 @@ type Card = {
 
   title: string;
   cover_url: string | null;
+  /** Cached variants + blurhash/color placeholder (GET /api/gamehome); null until ingested. */
+  cover_image?: CoverImage | null;
   status: string;
 
   steam_playtime_minutes: number;
@@ -986,9 +990,13 @@ export default function GameHomePage() {
               <HomeCard className="p-7">
                 <Kicker>Recommended for you</Kicker>
                 <div className="mt-2 flex flex-col md:flex-row md:items-center gap-6">
-                  <div className="h-20 w-16 rounded-[var(--radius-lg)] overflow-hidden border border-border bg-card/60 shrink-0">
+                  <div
+                    className="h-20 w-16 rounded-[var(--radius-lg)] overflow-hidden border border-border bg-card/60 shrink-0"
+                    style={{ backgroundColor: recommended?.cover_image?.color ?? undefined }}
+                  >
                   <img
                     src={
+                      recommended?.cover_image?.src ||
                       resolveCoverUrl({ cover_url: recommended?.cover_url ?? null, game_cover_url: recommended?.cover_url ?? null }) ||
                       getPlatformPlaceholder(recommended?.platform_key ?? null)
                     }
@@ -1099,6 +1107,9 @@ export default function GameHomePage() {
                 </Link>
               </div>
             )}
+
+            {/* Friends */}
+            <FriendsFeed />
           </>
         )}
 
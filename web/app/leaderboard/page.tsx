@@ -1,77 +1,117 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useState } from "react";
 import Link from "next/link";
+import { fetchLeaderboard, type LeaderboardRow, type LeaderboardView } from "@/src/core/api";
+import {
+  LEADERBOARD_ERAS,
+  LEADERBOARD_PLATFORMS,
+  leaderboardBoardLabel,
+  type LeaderboardBoard,
+  type LeaderboardScope,
+} from "@/lib/leaderboard/boards";
 
-type Row = {
-  user_id: string;
-  display_name: string;
-  score: number;
-  era_snes_score: number;
-};
+function fmt(n: number) {
+  return new Intl.NumberFormat().format(n);
+}
 
-type Api = {
-  ok: boolean;
-  total_users: number;
-  me: {
-    user_id: string;
-    global_rank: number;
-    global_top_percent: number;
-    snes_rank: number;
-    snes_top_percent: number;
+function pillStyle(active: boolean): React.CSSProperties {
+  return {
+    padding: "6px 12px",
+    borderRadius: 999,
+    border: "1px solid #e5e7eb",
+    background: active ? "#0f172a" : "white",
+    color: active ? "white" : "#0f172a",
+    fontWeight: 800,
+    fontSize: 13,
+    cursor: "pointer",
   };
-  global_top: Row[];
-  global_window: Row[];
-  snes_top: Row[];
-};
+}
 
-function fmt(n: number) {
-  return new Intl.NumberFormat().format(n);
+function RowItem({ r }: { r: LeaderboardRow }) {
+  const name = r.display_name || r.username || "Anonymous";
+  return (
+    <div
+      style={{
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "space-between",
+        gap: 12,
+        padding: "10px 10px",
+        borderRadius: 12,
+        border: "1px solid #e5e7eb",
+        background: r.is_me ? "#f1f5f9" : "white",
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", gap: 10 }}>
+        <div
+          style={{
+            width: 36,
+            textAlign: "right",
+            color: "#64748b",
+            fontSize: 12,
+            fontWeight: 900,
+          }}
+        >
+          #{r.rank}
+        </div>
+        <div style={{ fontWeight: 900 }}>
+          {r.username ? (
+            <Link href={`/users/${encodeURIComponent(r.username)}`} style={{ color: "inherit" }}>
+              {name}
+            </Link>
+          ) : (
+            name
+          )}
+          {r.is_me ? " (you)" : ""}
+        </div>
+      </div>
+
+      <div style={{ textAlign: "right" }}>
+        <div style={{ fontWeight: 900 }}>{fmt(r.score)}</div>
+        <div style={{ color: "#64748b", fontSize: 12 }}>score</div>
+      </div>
+    </div>
+  );
 }
 
 export default function LeaderboardPage() {
-  // For now we’re mocking user_id as "me".
-  // Later we’ll pass real Supabase user.id.
-  const userId = "me";
+  const [board, setBoard] = useState<LeaderboardBoard>("global");
+  const [scope, setScope] = useState<LeaderboardScope>("all");
 
-  const [data, setData] = useState<Api | null>(null);
+  const [data, setData] = useState<LeaderboardView | null>(null);
   const [loading, setLoading] = useState(true);
   const [err, setErr] = useState("");
 
   useEffect(() => {
-    async function load() {
-      try {
-        setLoading(true);
-        setErr("");
-
-        const res = await fetch(`/api/leaderboard/mock?user_id=${encodeURIComponent(userId)}`);
-        const text = await res.text();
-        const json = text ? JSON.parse(text) : null;
-
-        if (!res.ok) throw new Error(json?.error || `Failed (${res.status})`);
+    let cancelled = false;
+    fetchLeaderboard({ board, scope, limit: 25 })
+      .then((json) => {
+        if (cancelled) return;
         setData(json);
-      } catch (e: any) {
-        setErr(e?.message || "Failed to load leaderboard");
+        setErr("");
+      })
+      .catch((e: unknown) => {
+        if (cancelled) return;
+        setErr(e instanceof Error ? e.message : "Failed to load leaderboard");
         setData(null);
-      } finally {
-        setLoading(false);
-      }
-    }
-
-    load();
-  }, []);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [board, scope]);
 
-  const me = data?.me;
+  function pick(next: { board?: LeaderboardBoard; scope?: LeaderboardScope }) {
+    setLoading(true);
+    if (next.board) setBoard(next.board);
+    if (next.scope) setScope(next.scope);
+  }
 
-  const globalTop = data?.global_top ?? [];
-  const snesTop = data?.snes_top ?? [];
-  const totalUsers = data?.total_users ?? 0;
-
-  const myRow = useMemo(() => {
-    if (!data) return null;
-    const all = data.global_top.concat(data.global_window);
-    return all.find((r) => r.user_id === data.me.user_id) ?? null;
-  }, [data]);
+  const me = data?.me ?? null;
+  const label = leaderboardBoardLabel(board);
 
   return (
     <div style={{ padding: 24 }}>
@@ -79,7 +119,7 @@ export default function LeaderboardPage() {
         <div>
           <h1 style={{ fontSize: 26, fontWeight: 900, marginBottom: 6 }}>Leaderboard</h1>
           <div style={{ color: "#6b7280" }}>
-            Percentiles over sweat. (For now: mock users, real vibes.)
+            Gamer Lifetime Score across public profiles. Percentiles over sweat.
           </div>
         </div>
 
@@ -93,6 +133,48 @@ export default function LeaderboardPage() {
         </div>
       </div>
 
+      {/* Board + scope pickers */}
+      <div style={{ display: "grid", gap: 10, marginTop: 18 }}>
+        <div style={{ display: "flex", flexWrap: "wrap", gap: 8 }}>
+          <button type="button" style={pillStyle(scope === "all")} onClick={() => pick({ scope: "all" })}>
+            Everyone
+          </button>
+          <button type="button" style={pillStyle(scope === "friends")} onClick={() => pick({ scope: "friends" })}>
+            Friends
+          </button>
+        </div>
+
+        <div style={{ display: "flex", flexWrap: "wrap", gap: 8, alignItems: "center" }}>
+          <button type="button" style={pillStyle(board === "global")} onClick={() => pick({ board: "global" })}>
+            Global
+          </button>
+          <select
+            value={board.startsWith("era:") ? board : ""}
+            onChange={(e) => e.target.value && pick({ board: e.target.value as LeaderboardBoard })}
+            style={{ padding: "6px 10px", borderRadius: 10, border: "1px solid #e5e7eb", fontSize: 13 }}
+          >
+            <option value="">By era…</option>
+            {LEADERBOARD_ERAS.map((e) => (
+              <option key={e} value={`era:${e}`}>
+                {leaderboardBoardLabel(`era:${e}`)}
+              </option>
+            ))}
+          </select>
+          <select
+            value={board.startsWith("platform:") ? board : ""}
+            onChange={(e) => e.target.value && pick({ board: e.target.value as LeaderboardBoard })}
+            style={{ padding: "6px 10px", borderRadius: 10, border: "1px solid #e5e7eb", fontSize: 13 }}
+          >
+            <option value="">By platform…</option>
+            {LEADERBOARD_PLATFORMS.map((p) => (
+              <option key={p} value={`platform:${p}`}>
+                {leaderboardBoardLabel(`platform:${p}`)}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
       {loading && <div style={{ marginTop: 14, color: "#6b7280" }}>Loading…</div>}
       {err && (
         <div style={{ marginTop: 14, color: "#b91c1c" }}>
@@ -102,187 +184,80 @@ export default function LeaderboardPage() {
 
       {!loading && data && (
         <>
-          {/* Your percentile cards */}
+          {/* Your standing */}
           <div
             style={{
-              display: "grid",
-              gridTemplateColumns: "repeat(auto-fit, minmax(260px, 1fr))",
-              gap: 12,
-              marginTop: 18,
+              border: "1px solid #e5e7eb",
+              borderRadius: 14,
+              padding: 14,
+              background: "white",
+              marginTop: 16,
+              maxWidth: 520,
             }}
           >
-            <div
-              style={{
-                border: "1px solid #e5e7eb",
-                borderRadius: 14,
-                padding: 14,
-                background: "white",
-              }}
-            >
-              <div style={{ fontWeight: 900, marginBottom: 6 }}>Global standing</div>
-              <div style={{ color: "#0f172a", fontSize: 18, fontWeight: 900 }}>
-                Top {me?.global_top_percent}%{" "}
-                <span style={{ color: "#64748b", fontSize: 13, fontWeight: 700 }}>
-                  (#{me?.global_rank} of {totalUsers})
-                </span>
-              </div>
-              <div style={{ color: "#64748b", marginTop: 6, fontSize: 13 }}>
-                Your Gamer Lifetime Score compared to all users (mock dataset).
-              </div>
+            <div style={{ fontWeight: 900, marginBottom: 6 }}>
+              {label} standing{scope === "friends" ? " among friends" : ""}
             </div>
-
-            <div
-              style={{
-                border: "1px solid #e5e7eb",
-                borderRadius: 14,
-                padding: 14,
-                background: "white",
-              }}
-            >
-              <div style={{ fontWeight: 900, marginBottom: 6 }}>SNES-era standing</div>
+            {me ? (
               <div style={{ color: "#0f172a", fontSize: 18, fontWeight: 900 }}>
-                Top {me?.snes_top_percent}%{" "}
+                Top {me.top_percent}%{" "}
                 <span style={{ color: "#64748b", fontSize: 13, fontWeight: 700 }}>
-                  (#{me?.snes_rank} of {totalUsers})
+                  (#{me.rank} of {fmt(data.total)} • {fmt(me.score)} pts)
                 </span>
               </div>
-              <div style={{ color: "#64748b", marginTop: 6, fontSize: 13 }}>
-                Era percentile uses your “SNES activity” slice (mocked from the era model).
+            ) : (
+              <div style={{ color: "#64748b", fontSize: 13 }}>
+                You’re not on this board. Boards include public profiles with a score on them — check{" "}
+                <Link href="/settings" style={{ color: "#2563eb" }}>
+                  profile visibility
+                </Link>{" "}
+                and run a sync.
               </div>
-            </div>
+            )}
           </div>
 
-          {/* Leaderboards */}
-          <div
-            style={{
-              display: "grid",
-              gridTemplateColumns: "repeat(auto-fit, minmax(320px, 1fr))",
-              gap: 12,
-              marginTop: 16,
-            }}
-          >
-            {/* Global top */}
-            <div style={{ border: "1px solid #e5e7eb", borderRadius: 14, background: "white" }}>
-              <div style={{ padding: 14, borderBottom: "1px solid #e5e7eb" }}>
-                <div style={{ fontWeight: 900 }}>All-user leaderboard</div>
-                <div style={{ color: "#64748b", fontSize: 13, marginTop: 4 }}>
-                  You’re highlighted. (Top 20 shown.)
-                </div>
+          {/* Board */}
+          <div style={{ border: "1px solid #e5e7eb", borderRadius: 14, background: "white", marginTop: 12, maxWidth: 720 }}>
+            <div style={{ padding: 14, borderBottom: "1px solid #e5e7eb" }}>
+              <div style={{ fontWeight: 900 }}>
+                {label} leaderboard{scope === "friends" ? " — friends" : ""}
               </div>
-
-              <div style={{ padding: 14, display: "grid", gap: 10 }}>
-                {globalTop.map((r, idx) => {
-                  const rank = idx + 1;
-                  const isMe = r.user_id === me?.user_id;
-
-                  return (
-                    <div
-                      key={r.user_id}
-                      style={{
-                        display: "flex",
-                        alignItems: "center",
-                        justifyContent: "space-between",
-                        gap: 12,
-                        padding: "10px 10px",
-                        borderRadius: 12,
-                        border: "1px solid #e5e7eb",
-                        background: isMe ? "#f1f5f9" : "white",
-                      }}
-                    >
-                      <div style={{ display: "flex", alignItems: "center", gap: 10 }}>
-                        <div
-                          style={{
-                            width: 28,
-                            textAlign: "right",
-                            color: "#64748b",
-                            fontSize: 12,
-                            fontWeight: 900,
-                          }}
-                        >
-                          #{rank}
-                        </div>
-                        <div>
-                          <div style={{ fontWeight: 900 }}>
-                            {r.display_name}
-                            {isMe ? " (you)" : ""}
-                          </div>
-                          <div style={{ color: "#64748b", fontSize: 12 }}>
-                            SNES slice: {fmt(r.era_snes_score)}
-                          </div>
-                        </div>
-                      </div>
-
-                      <div style={{ textAlign: "right" }}>
-                        <div style={{ fontWeight: 900 }}>{fmt(r.score)}</div>
-                        <div style={{ color: "#64748b", fontSize: 12 }}>score</div>
-                      </div>
-                    </div>
-                  );
-                })}
+              <div style={{ color: "#64748b", fontSize: 13, marginTop: 4 }}>
+                {fmt(data.total)} ranked
+                {data.computed_at ? ` • updated ${new Date(data.computed_at).toLocaleString()}` : ""}
               </div>
             </div>
 
-            {/* SNES top */}
-            <div style={{ border: "1px solid #e5e7eb", borderRadius: 14, background: "white" }}>
-              <div style={{ padding: 14, borderBottom: "1px solid #e5e7eb" }}>
-                <div style={{ fontWeight: 900 }}>SNES-era leaderboard</div>
-                <div style={{ color: "#64748b", fontSize: 13, marginTop: 4 }}>
-                  Top 20 by SNES-era score.
+            <div style={{ padding: 14, display: "grid", gap: 10 }}>
+              {data.top.length === 0 && (
+                <div style={{ color: "#64748b", fontSize: 13 }}>
+                  {scope === "friends"
+                    ? "None of the people you follow are on this board yet."
+                    : "No ranks yet — leaderboards refresh every few hours."}
                 </div>
-              </div>
-
-              <div style={{ padding: 14, display: "grid", gap: 10 }}>
-                {snesTop.map((r, idx) => {
-                  const rank = idx + 1;
-                  const isMe = r.user_id === me?.user_id;
-
-                  return (
-                    <div
-                      key={r.user_id}
-                      style={{
-                        display: "flex",
-                        alignItems: "center",
-                        justifyContent: "space-between",
-                        gap: 12,
-                        padding: "10px 10px",
-                        borderRadius: 12,
-                        border: "1px solid #e5e7eb",
-                        background: isMe ? "#f1f5f9" : "white",
-                      }}
-                    >
-                      <div style={{ display: "flex", alignItems: "center", gap: 10 }}>
-                        <div
-                          style={{
-                            width: 28,
-                            textAlign: "right",
-                            color: "#64748b",
-                            fontSize: 12,
-                            fontWeight: 900,
-                          }}
-                        >
-                          #{rank}
-                        </div>
-                        <div style={{ fontWeight: 900 }}>
-                          {r.display_name}
-                          {isMe ? " (you)" : ""}
-                        </div>
-                      </div>
-
-                      <div style={{ textAlign: "right" }}>
-                        <div style={{ fontWeight: 900 }}>{fmt(r.era_snes_score)}</div>
-                        <div style={{ color: "#64748b", fontSize: 12 }}>SNES score</div>
-                      </div>
-                    </div>
-                  );
-                })}
-              </div>
+              )}
+              {data.top.map((r, i) => (
+                <RowItem key={`top-${r.rank}-${i}`} r={r} />
+              ))}
+              {data.window.length > 0 && (
+                <>
+                  <div style={{ textAlign: "center", color: "#94a3b8" }}>…</div>
+                  {data.window.map((r, i) => (
+                    <RowItem key={`win-${r.rank}-${i}`} r={r} />
+                  ))}
+                </>
+              )}
             </div>
           </div>
 
-          {/* Tiny “how this works” */}
           <div style={{ marginTop: 14, color: "#64748b", fontSize: 13 }}>
-            <strong style={{ color: "#0f172a" }}>Next upgrade:</strong> swap the mock API for real
-            Supabase queries + compute percentiles per cohort (platform, era, genre, etc.).
+            <strong style={{ color: "#0f172a" }}>How boards work:</strong> platform boards rank the part of
+            your score that platform feeds; era boards weight your score by how much of your library comes
+            from that era. See{" "}
+            <Link href="/score-methodology" style={{ color: "#2563eb" }}>
+              score methodology
+            </Link>
+            .
           </div>
         </>
       )}
@@ -0,0 +1,478 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import { releaseHref } from "@/lib/routes";
+import { LIST_NOTE_MAX, moveListItem, type ListItem, type ListRole, type ListSummary, type ListVisibility } from "@/lib/lists/lists";
+import type { SocialUser } from "@/lib/social/follows";
+
+type ListResponse = {
+  list: ListSummary & { rules: Record<string, unknown> };
+  owner: SocialUser | null;
+  collaborators: SocialUser[];
+  role: ListRole;
+  can_add: boolean;
+  can_clone: boolean;
+  items: ListItem[];
+};
+
+const VISIBILITY_LABEL: Record<ListVisibility, string> = {
+  private: "Private — you and collaborators",
+  unlisted: "Unlisted — anyone with the link",
+  public: "Public — listed under Community lists",
+};
+
+const buttonStyle: React.CSSProperties = {
+  border: "1px solid #e5e7eb",
+  background: "white",
+  borderRadius: 10,
+  padding: "8px 10px",
+  cursor: "pointer",
+  fontSize: 12,
+  whiteSpace: "nowrap",
+};
+
+const badgeStyle: React.CSSProperties = {
+  fontSize: 12,
+  padding: "3px 8px",
+  borderRadius: 999,
+  border: "1px solid #e5e7eb",
+  background: "white",
+  color: "#0f172a",
+  lineHeight: 1.2,
+};
+
+async function send(url: string, method: string, body?: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const text = await res.text();
+  const data = text ? JSON.parse(text) : null;
+  if (!res.ok) throw new Error(data?.error || `Request failed (${res.status})`);
+  return data;
+}
+
+function NoteEditor({ listId, item, onSaved }: { listId: string; item: ListItem; onSaved: (note: string | null) => void }) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(item.note ?? "");
+  const [err, setErr] = useState("");
+
+  async function save() {
+    setErr("");
+    try {
+      const data = await send("/api/lists/items", "PATCH", { list_id: listId, release_id: item.release_id, note: draft });
+      onSaved(data?.note ?? null);
+      setEditing(false);
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Failed to save note");
+    }
+  }
+
+  if (!editing) {
+    return (
+      <button type="button" onClick={() => setEditing(true)} style={{ ...buttonStyle, padding: "4px 8px", marginTop: 8 }}>
+        {item.note ? "Edit note" : "Add note"}
+      </button>
+    );
+  }
+  return (
+    <div style={{ marginTop: 8, display: "grid", gap: 6 }}>
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        maxLength={LIST_NOTE_MAX}
+        rows={3}
+        placeholder="Why it's here…"
+        style={{ padding: "8px 10px", borderRadius: 8, border: "1px solid #e5e7eb", fontSize: 13 }}
+      />
+      <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+        <button type="button" onClick={save} style={buttonStyle}>
+          Save note
+        </button>
+        <button type="button" onClick={() => setEditing(false)} style={buttonStyle}>
+          Cancel
+        </button>
+        <span style={{ color: "#94a3b8", fontSize: 12 }}>
+          {draft.length}/{LIST_NOTE_MAX}
+        </span>
+        {err && <span style={{ color: "#b91c1c", fontSize: 12 }}>{err}</span>}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * /lists/[id]: the share page of a list. Anyone the list is shared with sees it in order with notes;
+ * the owner manages visibility, ranking, order and collaborators, collaborators add and annotate
+ * items (from a release page), and other signed-in users can clone it.
+ */
+export default function ListPageClient() {
+  const params = useParams();
+  const router = useRouter();
+  const listId = (params?.id as string) ?? "";
+
+  const [data, setData] = useState<ListResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState("");
+  const [invite, setInvite] = useState("");
+  const [copied, setCopied] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!listId || listId === "undefined") return;
+    let cancelled = false;
+    fetch(`/api/lists/${listId}`, { cache: "no-store" })
+      .then(async (res) => {
+        const raw = await res.text();
+        const json = raw ? JSON.parse(raw) : null;
+        if (res.status === 404) throw new Error("This list is private or doesn't exist.");
+        if (!res.ok) throw new Error(json?.error || `Failed (${res.status})`);
+        if (cancelled) return;
+        setData(json as ListResponse);
+        setErr("");
+      })
+      .catch((e: unknown) => {
+        if (cancelled) return;
+        setErr(e instanceof Error ? e.message : "Failed to load list");
+        setData(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [listId, version]);
+
+  async function run(action: () => Promise<unknown>, reload = true) {
+    setBusy(true);
+    setErr("");
+    try {
+      await action();
+      if (reload) setVersion((v) => v + 1);
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Something went wrong");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function setItems(update: (items: ListItem[]) => ListItem[]) {
+    setData((prev) => (prev ? { ...prev, items: update(prev.items) } : prev));
+  }
+
+  async function move(from: number, to: number) {
+    if (!data) return;
+    const next = moveListItem(data.items, from, to);
+    const ranked = data.list.is_ranked;
+    setItems(() => next.map((it, i) => ({ ...it, rank: ranked ? i + 1 : null })));
+    await run(() => send(`/api/lists/${listId}/order`, "PUT", { release_ids: next.map((it) => it.release_id) }), false);
+  }
+
+  async function removeFromList(releaseId: string) {
+    await run(async () => {
+      await send("/api/lists/items", "DELETE", { list_id: listId, release_id: releaseId });
+      setItems((items) => items.filter((x) => x.release_id !== releaseId));
+    });
+  }
+
+  async function leaveList() {
+    setBusy(true);
+    setErr("");
+    try {
+      const me = await fetch("/api/users/me", { cache: "no-store" }).then((r) => (r.ok ? r.json() : null));
+      if (!me?.profile?.username) throw new Error("Couldn't load your profile");
+      await send(`/api/lists/${listId}/collaborators`, "DELETE", { username: me.profile.username });
+      router.push("/lists");
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Failed to leave list");
+      setBusy(false);
+    }
+  }
+
+  async function copyLink() {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/lists/${listId}`);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // clipboard unavailable
+    }
+  }
+
+  async function cloneThisList() {
+    setBusy(true);
+    setErr("");
+    try {
+      const json = await send(`/api/lists/${listId}/clone`, "POST");
+      router.push(`/lists/${json.list.id}`);
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Failed to clone list");
+      setBusy(false);
+    }
+  }
+
+  const list = data?.list;
+  const isOwner = data?.role === "owner";
+  const canReorder = isOwner && !list?.is_smart;
+  const shareable = list && (list.visibility !== "private" || list.is_curated);
+
+  return (
+    <div style={{ padding: 24, maxWidth: 860 }}>
+      <div style={{ marginBottom: 14 }}>
+        <Link href="/lists" style={{ color: "#2563eb" }}>
+          ← Back to Lists
+        </Link>
+      </div>
+
+      {loading && <div style={{ color: "#6b7280" }}>Loading…</div>}
+      {err && <div style={{ color: "#b91c1c", marginBottom: 12 }}>{err}</div>}
+
+      {!loading && data && list && (
+        <>
+          <div style={{ display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap", marginBottom: 6 }}>
+            <h1 style={{ fontSize: 26 }}>{list.title}</h1>
+            {list.is_ranked && <div style={badgeStyle}>🏆 Ranked</div>}
+            {list.is_smart && <div style={badgeStyle}>⚡ Smart</div>}
+            {list.is_curated && <div style={badgeStyle}>⭐ Curated</div>}
+            {!list.is_curated && <div style={badgeStyle}>{list.visibility}</div>}
+          </div>
+
+          <div style={{ color: "#64748b", fontSize: 13, marginBottom: 6 }}>
+            {data.owner && (
+              <>
+                by{" "}
+                <Link href={`/users/${encodeURIComponent(data.owner.username)}`} style={{ color: "#2563eb" }}>
+                  @{data.owner.username}
+                </Link>
+              </>
+            )}
+            {data.collaborators.length > 0 && (
+              <>
+                {data.owner ? " with " : "with "}
+                {data.collaborators.map((c, i) => (
+                  <span key={c.username}>
+                    {i > 0 && ", "}
+                    <Link href={`/users/${encodeURIComponent(c.username)}`} style={{ color: "#2563eb" }}>
+                      @{c.username}
+                    </Link>
+                  </span>
+                ))}
+              </>
+            )}
+            {list.cloned_from && (
+              <>
+                {" · "}
+                <Link href={`/lists/${list.cloned_from}`} style={{ color: "#2563eb" }}>
+                  cloned from another list
+                </Link>
+              </>
+            )}
+          </div>
+
+          {list.description && <div style={{ color: "#64748b", marginBottom: 14 }}>{list.description}</div>}
+
+          <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginBottom: 14 }}>
+            {shareable && (
+              <button type="button" onClick={copyLink} style={buttonStyle}>
+                {copied ? "Link copied" : "Copy share link"}
+              </button>
+            )}
+            {data.can_clone && (
+              <button type="button" onClick={cloneThisList} disabled={busy} style={buttonStyle}>
+                Clone this list
+              </button>
+            )}
+            {data.role === "editor" && (
+              <span style={{ color: "#64748b", fontSize: 13, alignSelf: "center" }}>
+                You can add games to this list from any release page.
+              </span>
+            )}
+          </div>
+
+          {isOwner && !list.is_curated && (
+            <div
+              style={{
+                border: "1px solid #e5e7eb",
+                borderRadius: 12,
+                padding: 14,
+                marginBottom: 18,
+                background: "white",
+                display: "grid",
+                gap: 10,
+              }}
+            >
+              <div style={{ fontWeight: 900 }}>Sharing</div>
+              <select
+                value={list.visibility}
+                disabled={busy}
+                onChange={(e) => run(() => send(`/api/lists/${listId}`, "PATCH", { visibility: e.target.value }))}
+                style={{ padding: "8px 10px", borderRadius: 8, border: "1px solid #e5e7eb", maxWidth: 360 }}
+              >
+                {(Object.keys(VISIBILITY_LABEL) as ListVisibility[]).map((v) => (
+                  <option key={v} value={v}>
+                    {VISIBILITY_LABEL[v]}
+                  </option>
+                ))}
+              </select>
+              {!list.is_smart && (
+                <label style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 14 }}>
+                  <input
+                    type="checkbox"
+                    checked={list.is_ranked}
+                    disabled={busy}
+                    onChange={(e) => run(() => send(`/api/lists/${listId}`, "PATCH", { is_ranked: e.target.checked }))}
+                  />
+                  Ranked list (number the games in order)
+                </label>
+              )}
+
+              {!list.is_smart && (
+                <>
+                  <div style={{ fontWeight: 700, marginTop: 4 }}>Collaborators</div>
+                  {data.collaborators.length === 0 && (
+                    <div style={{ color: "#6b7280", fontSize: 13 }}>Nobody else can add to this list yet.</div>
+                  )}
+                  {data.collaborators.map((c) => (
+                    <div key={c.username} style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 14 }}>
+                      <span>@{c.username}</span>
+                      <button
+                        type="button"
+                        disabled={busy}
+                        onClick={() => run(() => send(`/api/lists/${listId}/collaborators`, "DELETE", { username: c.username }))}
+                        style={{ ...buttonStyle, padding: "4px 8px" }}
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+                  <div style={{ display: "flex", gap: 8 }}>
+                    <input
+                      value={invite}
+                      onChange={(e) => setInvite(e.target.value)}
+                      placeholder="@username"
+                      style={{ padding: "8px 10px", borderRadius: 8, border: "1px solid #e5e7eb" }}
+                    />
+                    <button
+                      type="button"
+                      disabled={busy || !invite.trim()}
+                      onClick={() =>
+                        run(async () => {
+                          await send(`/api/lists/${listId}/collaborators`, "POST", { username: invite });
+                          setInvite("");
+                        })
+                      }
+                      style={buttonStyle}
+                    >
+                      Add collaborator
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          {data.role === "editor" && (
+            <div style={{ marginBottom: 14 }}>
+              <button
+                type="button"
+                disabled={busy}
+                onClick={leaveList}
+                style={buttonStyle}
+              >
+                Leave this list
+              </button>
+            </div>
+          )}
+
+          {data.items.length === 0 ? (
+            <div style={{ color: "#6b7280" }}>
+              {data.can_add ? "This list is empty. Add games from My Portfolio or any release page." : "This list is empty."}
+            </div>
+          ) : (
+            <div style={{ display: "grid", gap: 12, marginTop: 12 }}>
+              {data.items.map((r, i) => (
+                <div
+                  key={r.release_id}
+                  style={{
+                    border: "1px solid #e5e7eb",
+                    borderRadius: 12,
+                    padding: 12,
+                    display: "flex",
+                    justifyContent: "space-between",
+                    alignItems: "flex-start",
+                    gap: 12,
+                    background: "white",
+                  }}
+                >
+                  {r.rank != null && (
+                    <div style={{ fontWeight: 900, fontSize: 22, minWidth: 40, color: "#0f172a" }}>#{r.rank}</div>
+                  )}
+                  <div style={{ flex: 1 }}>
+                    <div style={{ fontWeight: 900 }}>{r.releases?.display_title ?? "Unknown"}</div>
+                    <div style={{ color: "#64748b", fontSize: 13, marginTop: 2 }}>{r.releases?.platform_name ?? "—"}</div>
+                    {r.note && <div style={{ marginTop: 8, fontSize: 14, whiteSpace: "pre-wrap" }}>{r.note}</div>}
+
+                    {r.releases?.id && (
+                      <div style={{ marginTop: 8 }}>
+                        <Link href={releaseHref(r.releases.id)} style={{ color: "#2563eb" }}>
+                          Open details →
+                        </Link>
+                      </div>
+                    )}
+
+                    {r.can_edit && (
+                      <NoteEditor
+                        key={r.note ?? ""}
+                        listId={listId}
+                        item={r}
+                        onSaved={(note) =>
+                          setItems((items) => items.map((x) => (x.release_id === r.release_id ? { ...x, note } : x)))
+                        }
+                      />
+                    )}
+                  </div>
+
+                  <div style={{ display: "grid", gap: 6 }}>
+                    {canReorder && (
+                      <div style={{ display: "flex", gap: 6 }}>
+                        <button
+                          type="button"
+                          aria-label="Move up"
+                          disabled={busy || i === 0}
+                          onClick={() => move(i, i - 1)}
+                          style={{ ...buttonStyle, opacity: i === 0 ? 0.4 : 1 }}
+                        >
+                          ↑
+                        </button>
+                        <button
+                          type="button"
+                          aria-label="Move down"
+                          disabled={busy || i === data.items.length - 1}
+                          onClick={() => move(i, i + 1)}
+                          style={{ ...buttonStyle, opacity: i === data.items.length - 1 ? 0.4 : 1 }}
+                        >
+                          ↓
+                        </button>
+                      </div>
+                    )}
+                    {r.can_edit && (
+                      <button type="button" disabled={busy} onClick={() => removeFromList(r.release_id)} style={buttonStyle}>
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -10,7 +10,29 @@ type ListRow = {
     is_curated: boolean;
     created_at: string;
     item_count?: number;
+    visibility?: "private" | "unlisted" | "public";
+    is_ranked?: boolean;
+    role?: "owner" | "editor";
   };
+
+const badgeStyle = {
+  fontSize: 12,
+  padding: "3px 8px",
+  borderRadius: 999,
+  border: "1px solid #e5e7eb",
+  background: "white",
+  color: "#0f172a",
+  lineHeight: 1.2,
+};
+
+type CommunityListRow = {
+  id: string;
+  title: string;
+  description: string | null;
+  is_ranked: boolean;
+  item_count: number;
+  owner: { username: string } | null;
+};
   
 
 export default function ListsPage() {
@@ -18,9 +40,11 @@ export default function ListsPage() {
   const [loading, setLoading] = useState(true);
   const [err, setErr] = useState("");
   const [curatedLists, setCuratedLists] = useState<any[]>([]);
+  const [communityLists, setCommunityLists] = useState<CommunityListRow[]>([]);
 
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
+  const [ranked, setRanked] = useState(false);
   const [creating, setCreating] = useState(false);
   const [smartTitle, setSmartTitle] = useState("");
 const [smartStatus, setSmartStatus] = useState("");
@@ -54,6 +78,11 @@ const [smartErr, setSmartErr] = useState("");
       .then((r) => r.json())
       .then((d) => setCuratedLists(Array.isArray(d) ? d : []))
       .catch(() => setCuratedLists([]));
+
+    fetch("/api/lists/public")
+      .then((r) => r.json())
+      .then((d) => setCommunityLists(Array.isArray(d) ? d : []))
+      .catch(() => setCommunityLists([]));
       
   }, []);
   
@@ -66,7 +95,7 @@ const [smartErr, setSmartErr] = useState("");
       const res = await fetch("/api/lists", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ title, description }),
+        body: JSON.stringify({ title, description, is_ranked: ranked }),
       });
 
       const text = await res.text();
@@ -76,6 +105,7 @@ const [smartErr, setSmartErr] = useState("");
 
       setTitle("");
       setDescription("");
+      setRanked(false);
       await load();
     } catch (e: any) {
       setErr(e?.message || "Failed to create list");
@@ -158,6 +188,10 @@ const [smartErr, setSmartErr] = useState("");
             placeholder="Description (optional)…"
             style={{ padding: "10px 12px", borderRadius: 8, border: "1px solid #e5e7eb" }}
           />
+          <label style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 14 }}>
+            <input type="checkbox" checked={ranked} onChange={(e) => setRanked(e.target.checked)} />
+            Ranked (a numbered top list you can reorder)
+          </label>
 
           <button
             onClick={createList}
@@ -311,6 +345,45 @@ const [smartErr, setSmartErr] = useState("");
 
 
 
+{/* Community lists */}
+{communityLists.length > 0 && (
+  <>
+    <div style={{ fontWeight: 900, marginTop: 12, marginBottom: 10 }}>
+      Community lists
+    </div>
+
+    <div style={{ display: "grid", gap: 12, marginBottom: 18 }}>
+      {communityLists.map((l) => (
+        <Link
+          key={l.id}
+          href={`/lists/${l.id}`}
+          style={{ textDecoration: "none", color: "inherit" }}
+        >
+          <div
+            style={{
+              border: "1px solid #e5e7eb",
+              borderRadius: 12,
+              padding: 14,
+              background: "white",
+            }}
+          >
+            <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+              <div style={{ fontWeight: 800 }}>{l.title}</div>
+              {l.is_ranked && <div style={badgeStyle}>🏆 Ranked</div>}
+            </div>
+
+            <div style={{ color: "#64748b", marginTop: 4, fontSize: 13 }}>
+              {[l.owner ? `by @${l.owner.username}` : null, `${l.item_count} games`, l.description]
+                .filter(Boolean)
+                .join(" · ")}
+            </div>
+          </div>
+        </Link>
+      ))}
+    </div>
+  </>
+)}
+
    {/* My lists */}
 {loading && <div style={{ color: "#6b7280" }}>Loading…</div>}
 
@@ -373,6 +446,18 @@ const [smartErr, setSmartErr] = useState("");
               ⭐ Curated
             </div>
           )}
+
+          {l?.is_ranked && <div style={badgeStyle}>🏆 Ranked</div>}
+          {l?.visibility && l.visibility !== "private" && (
+            <div style={badgeStyle} title="Anyone with the link can open this list">
+              🔗 {l.visibility === "public" ? "Public" : "Unlisted"}
+            </div>
+          )}
+          {l?.role === "editor" && (
+            <div style={badgeStyle} title="You're a collaborator on this list">
+              👥 Shared with you
+            </div>
+          )}
         </div>
 
         {/* Description */}
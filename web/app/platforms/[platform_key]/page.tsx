@@ -4,12 +4,14 @@ import { useCallback, useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import { useParams, useRouter } from "next/navigation";
 import { MemoryTile } from "@/components/memory/MemoryTile";
+import type { CoverImage } from "@/lib/images/cover";
 
 type PlatformItem = {
   id: string;
   display_title: string;
   platform_key: string | null;
   cover_url: string | null;
+  cover_image?: CoverImage | null;
   release_date: string | null;
   first_release_year: number | null;
 };
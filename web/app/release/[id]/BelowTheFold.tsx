@@ -79,6 +79,34 @@ function Row({
   );
 }
 
+const LINEAGE_FROM_LABEL: Record<string, string> = {
+  remake_of: "Remake of",
+  remaster_of: "Remaster of",
+  port_of: "Port of",
+  sequel_of: "Sequel to",
+};
+
+const LINEAGE_TO_LABEL: Record<string, string> = {
+  remake_of: "Remade as",
+  remaster_of: "Remastered as",
+  port_of: "Ported as",
+  sequel_of: "Followed by",
+};
+
+function LineageTitle({ link }: { link: AnyObj }) {
+  const label = `${link?.title ?? "Unknown game"}${link?.first_release_year ? ` (${link.first_release_year})` : ""}`;
+  return link?.release_id ? (
+    <Link
+      href={`/release/${link.release_id}`}
+      className="text-[#F1F5F9] underline underline-offset-4 hover:text-white"
+    >
+      {label}
+    </Link>
+  ) : (
+    <span className="text-[#F1F5F9]">{label}</span>
+  );
+}
+
 function EmptyState({ text }: { text: string }) {
   return (
     <div className="text-sm text-[#A8B0BF] opacity-80">
@@ -117,6 +145,15 @@ export default function BelowTheFold({
   const versions = Array.isArray(ed?.release_versions) ? ed.release_versions : [];
   const related = Array.isArray(ed?.related_games) ? ed.related_games : [];
 
+  // Lineage from game_relations: remakes/remasters/ports, sequels, series entries
+  const lineage = ed?.lineage ?? null;
+  const lineageFrom = Array.isArray(lineage?.derived_from) ? lineage.derived_from : [];
+  const lineageTo = Array.isArray(lineage?.followed_by) ? lineage.followed_by : [];
+  const lineageSeries = (Array.isArray(lineage?.series) ? lineage.series : []).filter(
+    (x: AnyObj) => Array.isArray(x?.mainline) && x.mainline.length > 1
+  );
+  const hasLineage = lineageFrom.length > 0 || lineageTo.length > 0 || lineageSeries.length > 0;
+
   // Timeline labels (support both demo field names + DB field names)
   const eraLabel =
     timeline?.era_label ??
@@ -402,6 +439,54 @@ export default function BelowTheFold({
         )}
       </SectionCard>
 
+      {/* Lineage: hidden until the game has typed relations */}
+      {hasLineage ? (
+        <SectionCard title="Lineage">
+          <div className="space-y-4">
+            {lineageFrom.map((l: AnyObj, idx: number) => (
+              <Row
+                key={`from-${l?.relation}-${l?.igdb_game_id ?? idx}`}
+                label={LINEAGE_FROM_LABEL[l?.relation] ?? "Related to"}
+                value={<LineageTitle link={l} />}
+              />
+            ))}
+            {lineageTo.map((l: AnyObj, idx: number) => (
+              <Row
+                key={`to-${l?.relation}-${l?.game_id ?? idx}`}
+                label={LINEAGE_TO_LABEL[l?.relation] ?? "Related to"}
+                value={<LineageTitle link={l} />}
+              />
+            ))}
+            {lineageSeries.map((x: AnyObj) => (
+              <div key={String(x.series_key)}>
+                <div className="text-xs uppercase tracking-wide text-[#A8B0BF]">
+                  {x.name} · {x.mainline.length} mainline games
+                </div>
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {x.mainline.map((m: AnyObj) => {
+                    const text = `${m?.title ?? "—"}${m?.first_release_year ? ` (${m.first_release_year})` : ""}`;
+                    const cls = `px-3 py-1.5 rounded-lg text-xs border ${
+                      m?.is_current
+                        ? "border-[#BFA87E] bg-[#BFA87E]/20 text-[#F1F5F9]"
+                        : "border-white/10 bg-white/5 text-[#A8B0BF]"
+                    }`;
+                    return m?.release_id && !m?.is_current ? (
+                      <Link key={String(m.igdb_game_id)} href={`/release/${m.release_id}`} className={`${cls} hover:text-[#F1F5F9]`}>
+                        {text}
+                      </Link>
+                    ) : (
+                      <span key={String(m?.igdb_game_id)} className={cls}>
+                        {text}
+                      </span>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        </SectionCard>
+      ) : null}
+
       {/* Related Games: if empty, show 4 placeholder tiles */}
       <SectionCard title="Related Games">
         {related.length === 0 ? (
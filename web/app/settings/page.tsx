@@ -3,6 +3,8 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import Link from "next/link";
 import DefaultRADeviceSettings from "@/components/settings/DefaultRADeviceSettings";
+import AccountDataSettings from "@/components/settings/AccountDataSettings";
+import ProfileSharingSettings from "@/components/settings/ProfileSharingSettings";
 
 type MeResponse = {
   profile?: {
@@ -373,7 +375,11 @@ export default function SettingsPage() {
         </div>
       </div>
 
+      {!loading && !meErr && <ProfileSharingSettings username={initialUsername} profilePublic={profilePublic} />}
+
       <DefaultRADeviceSettings />
+
+      <AccountDataSettings />
     </div>
   );
 }
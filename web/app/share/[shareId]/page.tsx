@@ -1,7 +1,31 @@
+import type { Metadata } from "next";
 import { notFound } from "next/navigation";
 import { supabaseServer } from "@/lib/supabase/server";
+import { identityCardDescription, shareCardModel } from "@/lib/og/identity-card";
+import { identityCardMetadata } from "@/lib/og/metadata";
+import { loadShareOgRef } from "@/lib/og/server";
 import ShareWithTimeline from "./ShareWithTimeline";
 
+/** og:image is the stored snapshot rendered by /api/og/share/[shareId], versioned by updated_at. */
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ shareId: string }>;
+}): Promise<Metadata> {
+  const { shareId } = await params;
+  const ref = await loadShareOgRef(shareId ?? "").catch(() => null);
+  if (!ref) return {};
+  const model = shareCardModel(ref.snapshot);
+  const id = encodeURIComponent(ref.share_id);
+  return identityCardMetadata({
+    title: `${model.heading} · SaveState Identity`,
+    description: identityCardDescription(model),
+    pagePath: `/share/${id}`,
+    imagePath: `/api/og/share/${id}`,
+    version: ref.version,
+  });
+}
+
 /**
  * Public share page (no auth). Validates share_id then renders identity card + timeline
  * via client fetch to GET /api/identity/share/[shareId].
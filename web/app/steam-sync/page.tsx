@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import Link from "next/link";
+import { runQueuedSync, syncJobResultPayload } from "@/lib/sync/client";
 
 function safeJsonParse(text: string) {
   try {
@@ -25,23 +26,12 @@ export default function SteamSyncPage() {
     setOutput("");
 
     try {
-      const res = await fetch("/api/sync/steam-thin", { method: "POST" });
-      setStatus(res.status);
+      // Resumable job: large libraries finish over several /run calls instead of timing out.
+      const job = await runQueuedSync("steam");
+      setStatus(job.status === "ok" ? 200 : 500);
+      setOutput(JSON.stringify(job.status === "ok" ? syncJobResultPayload("steam", job.result) : job, null, 2));
 
-      const text = await res.text();
-      const parsed = safeJsonParse(text);
-
-      if (!res.ok) {
-        if (parsed.ok) {
-          setOutput(JSON.stringify(parsed.value, null, 2));
-        } else {
-          setOutput(text || "(empty error response)");
-        }
-        return;
-      }
-
-      if (parsed.ok) {
-        setOutput(JSON.stringify(parsed.value, null, 2));
+      if (job.status === "ok") {
         // After thin sync completes, trigger priority enrichment once
         try {
           const enrichRes = await fetch(
@@ -60,8 +50,6 @@ export default function SteamSyncPage() {
         } catch {
           // non-blocking
         }
-      } else {
-        setOutput(text || "(empty response)");
       }
     } catch (e: any) {
       setOutput(`Fetch failed: ${e?.message || String(e)}`);
@@ -10,20 +10,16 @@ function payloadToShareData(payload: PublicProfilePayload) {
   const t = payload?.timeline ?? payload;
   const { stats } = getTimelineStatsAndStandouts(payload);
   const eras = (t as { eras?: Array<{ era: string; games: number; releases: number }> })?.eras ?? [];
-  const eraBuckets =
+  const eraBuckets: Record<string, { games: number; releases: number }> =
     identity.era_buckets ??
     identity.era_buckets_legacy ??
-    (Object.keys(stats).length > 0 ? stats : eras.length > 0 ? Object.fromEntries(eras.map((e) => [e.era, { games: e.games, releases: e.releases }])) : {});
+    (Object.keys(stats).length > 0 ? (stats as Record<string, { games: number; releases: number }>) : eras.length > 0 ? Object.fromEntries(eras.map((e) => [e.era, { games: e.games, releases: e.releases }])) : {});
   return {
     username: user.username,
     lifetime_score: identity.lifetime_score,
-    archetypes: [
-      {
-        key: identity.archetype.key,
-        label: identity.archetype.label,
-        strength: identity.archetype.strength,
-      },
-    ],
+    archetypes: identity.archetype
+      ? [{ key: identity.archetype.key, label: identity.archetype.label, strength: identity.archetype.strength }]
+      : [],
     top_signals: identity.top_signals.slice(0, 4).map((s) => ({ ...s, value: "—" })),
     identity_signals: {
       owned_games: identity.totals.owned_games,
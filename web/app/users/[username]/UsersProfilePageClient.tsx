@@ -15,6 +15,7 @@ import { buildVm } from "@/lib/profile/buildVm";
 import { buildChips } from "@/lib/profile/buildChips";
 import type { PublicProfilePayload } from "@/lib/public-profile";
 import { ChevronRight } from "lucide-react";
+import { FollowPanel } from "@/components/social/FollowPanel";
 
 // Profile style kit
 const goldBtn =
@@ -372,6 +373,8 @@ export default function UsersProfilePageClient() {
                       Share card
                     </Link>
                   </div>
+
+                  <FollowPanel username={vm.user.username} />
                 </div>
               </div>
             </GlassCard>
@@ -1,5 +1,7 @@
 import { ShareCardPageClient } from "@/app/u/[username]/card/ShareCardPageClient";
 
+export { generateMetadata } from "../page";
+
 export default async function Page({
   params,
 }: {
@@ -1,5 +1,27 @@
+import type { Metadata } from "next";
+import { identityCardMetadata } from "@/lib/og/metadata";
+import { loadProfileOgRef } from "@/lib/og/server";
 import UsersProfilePageClient from "./UsersProfilePageClient";
 
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ username: string }>;
+}): Promise<Metadata> {
+  const { username } = await params;
+  const ref = await loadProfileOgRef(decodeURIComponent(username ?? "")).catch(() => null);
+  if (!ref) return {};
+  const name = ref.display_name || `@${ref.username}`;
+  const handle = encodeURIComponent(ref.username);
+  return identityCardMetadata({
+    title: `${name} on SaveState`,
+    description: `${name}'s gaming identity: archetypes, eras and lifetime score.`,
+    pagePath: `/users/${handle}`,
+    imagePath: `/api/og/profile/${handle}`,
+    version: ref.version,
+  });
+}
+
 export default function UsersProfilePage() {
   return <UsersProfilePageClient />;
 }
@@ -2,6 +2,7 @@
 
 import Link from "next/link";
 import { useEffect, useState } from "react";
+import { runQueuedSync, syncJobResultPayload } from "@/lib/sync/client";
 
 export default function XboxConnectPage() {
   const [me, setMe] = useState<any>(null);
@@ -75,9 +76,13 @@ export default function XboxConnectPage() {
                 <button
                   type="button"
                   onClick={async () => {
-                    const res = await fetch("/api/sync/xbox", { method: "POST" });
-                    const text = await res.text();
-                    alert(`Status ${res.status}\n\n${text}`);
+                    try {
+                      const job = await runQueuedSync("xbox");
+                      const out = job.status === "ok" ? syncJobResultPayload("xbox", job.result) : job;
+                      alert(`Sync ${job.status}\n\n${JSON.stringify(out, null, 2)}`);
+                    } catch (e) {
+                      alert(`Sync failed\n\n${e instanceof Error ? e.message : String(e)}`);
+                    }
                     await load();
                   }}
                   style={{
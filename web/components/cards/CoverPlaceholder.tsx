@@ -0,0 +1,44 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { decodeBlurhash, isValidBlurhash } from "@/lib/images/blurhash";
+
+const SIZE = 32;
+
+/**
+ * Blurhash (or flat dominant color) painted under a cover while it loads. Fill the parent: the parent
+ * must be `relative`; the image sits on top and `hidden` fades this out once it has loaded.
+ */
+export function CoverPlaceholder({
+  blurhash,
+  color,
+  hidden = false,
+}: {
+  blurhash?: string | null;
+  color?: string | null;
+  hidden?: boolean;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !isValidBlurhash(blurhash)) return;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    const img = ctx.createImageData(SIZE, SIZE);
+    img.data.set(decodeBlurhash(blurhash, SIZE, SIZE));
+    ctx.putImageData(img, 0, 0);
+  }, [blurhash]);
+
+  if (!blurhash && !color) return null;
+
+  return (
+    <div
+      aria-hidden
+      className={`pointer-events-none absolute inset-0 transition-opacity duration-300 ${hidden ? "opacity-0" : "opacity-100"}`}
+      style={{ backgroundColor: color ?? undefined }}
+    >
+      {isValidBlurhash(blurhash) && <canvas ref={canvasRef} width={SIZE} height={SIZE} className="h-full w-full" />}
+    </div>
+  );
+}
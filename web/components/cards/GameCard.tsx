@@ -2,25 +2,29 @@
 
 import { useMemo, useState } from "react";
 import Image from "next/image";
-import { pickCoverUrl } from "@/lib/images/cover";
+import { pickCoverUrl, type CoverImage } from "@/lib/images/cover";
+import { CoverPlaceholder } from "@/components/cards/CoverPlaceholder";
 
 export type GameCardProps = {
-  game?: { cover_url?: string | null; canonical_title?: string | null } | null;
-  release?: { cover_url?: string | null; display_title?: string | null } | null;
+  game?: { cover_url?: string | null; canonical_title?: string | null; cover_image?: CoverImage | null } | null;
+  release?: { cover_url?: string | null; display_title?: string | null; cover_image?: CoverImage | null } | null;
   title?: string;
 };
 
 export function GameCard({ game, release, title }: GameCardProps) {
+  // Cached variant first (same game → release precedence), remote cover_url otherwise
+  const cached = game?.cover_image ?? release?.cover_image ?? null;
   const initialSrc = useMemo(
     () =>
       pickCoverUrl({
-        gameCover: game?.cover_url ?? null,
-        releaseCover: release?.cover_url ?? null,
+        gameCover: game?.cover_image?.src ?? game?.cover_url ?? null,
+        releaseCover: release?.cover_image?.src ?? release?.cover_url ?? null,
       }),
-    [game?.cover_url, release?.cover_url]
+    [game?.cover_image?.src, game?.cover_url, release?.cover_image?.src, release?.cover_url]
   );
 
   const [src, setSrc] = useState(initialSrc);
+  const [loaded, setLoaded] = useState(false);
 
   const displayTitle =
     title ??
@@ -31,12 +35,14 @@ export function GameCard({ game, release, title }: GameCardProps) {
   return (
     <div className="rounded-2xl overflow-hidden bg-zinc-900/40 border border-white/5">
       <div className="relative w-full aspect-[16/9]">
+        <CoverPlaceholder blurhash={cached?.blurhash} color={cached?.color} hidden={loaded} />
         <Image
           src={src}
           alt={displayTitle}
           fill
           className="object-cover"
           sizes="(max-width: 768px) 100vw, 320px"
+          onLoad={() => setLoaded(true)}
           onError={() => {
             // Prevent infinite loops: only swap if not already placeholder
             if (src !== "/img/cover-placeholder.png") {
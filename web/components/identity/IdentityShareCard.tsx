@@ -1,13 +1,14 @@
 import { GlassCard } from "@/components/ui/glass-card";
 
+/** Fields the owner hides in profile_sharing arrive as null. */
 type IdentitySignals = {
-  owned_games?: number;
-  owned_releases?: number;
-  unique_platforms?: number;
-  achievements_earned?: number;
-  achievements_total?: number;
-  minutes_played?: number;
-  era_buckets?: Record<string, { games: number; releases: number }>;
+  owned_games?: number | null;
+  owned_releases?: number | null;
+  unique_platforms?: number | null;
+  achievements_earned?: number | null;
+  achievements_total?: number | null;
+  minutes_played?: number | null;
+  era_buckets?: Record<string, { games: number; releases: number }> | null;
 };
 
 type SharePayload = {
@@ -46,7 +47,7 @@ export default function IdentityShareCard({ data }: { data: SharePayload }) {
 
             <div className="text-right">
               <div className="text-xs text-white/70">Lifetime Score</div>
-              <div className="mt-1 text-3xl font-semibold text-white">{fmtInt(data.lifetime_score ?? 0)}</div>
+              <div className="mt-1 text-3xl font-semibold text-white">{fmtInt(data.lifetime_score)}</div>
             </div>
           </div>
 
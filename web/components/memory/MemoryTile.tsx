@@ -3,6 +3,8 @@
 import { useState } from "react";
 import Link from "next/link";
 import { resolveCoverUrl } from "@/lib/images/resolveCoverUrl";
+import type { CoverImage } from "@/lib/images/cover";
+import { CoverPlaceholder } from "@/components/cards/CoverPlaceholder";
 import { releaseHref } from "@/lib/routes";
 
 export type MemoryTileItem = {
@@ -12,6 +14,8 @@ export type MemoryTileItem = {
   cover_url: string | null;
   release_date: string | null;
   first_release_year: number | null;
+  /** Cached variants + placeholder from the cover pipeline; null until ingested. */
+  cover_image?: CoverImage | null;
 };
 
 type MemoryTileProps = {
@@ -23,6 +27,8 @@ type MemoryTileProps = {
 export function MemoryTile({ item, remembered = false, onRememberChange }: MemoryTileProps) {
   const [loading, setLoading] = useState(false);
   const [localRemembered, setLocalRemembered] = useState(remembered);
+  const [coverLoaded, setCoverLoaded] = useState(false);
+  const cached = item.cover_image ?? null;
 
   const isRemembered = localRemembered;
 
@@ -66,14 +72,22 @@ export function MemoryTile({ item, remembered = false, onRememberChange }: Memor
   return (
     <div className="group relative flex flex-col">
       <Link href={releaseHref(item.id)} className="flex flex-col">
-        <div className="aspect-[3/4] overflow-hidden rounded-lg border border-slate-200 bg-slate-100 dark:border-white/10 dark:bg-white/5">
+        <div className="relative aspect-[3/4] overflow-hidden rounded-lg border border-slate-200 bg-slate-100 dark:border-white/10 dark:bg-white/5">
+          <CoverPlaceholder blurhash={cached?.blurhash} color={cached?.color} hidden={coverLoaded} />
           <img
-            src={resolveCoverUrl({
-              cover_url: item.cover_url,
-              platform_key: item.platform_key,
-            })}
+            src={
+              cached?.src ??
+              resolveCoverUrl({
+                cover_url: item.cover_url,
+                platform_key: item.platform_key,
+              })
+            }
+            srcSet={cached?.srcSet || undefined}
+            sizes={cached ? "(max-width: 640px) 33vw, 160px" : undefined}
             alt=""
-            className="h-full w-full object-cover transition group-hover:scale-105"
+            loading="lazy"
+            onLoad={() => setCoverLoaded(true)}
+            className="relative h-full w-full object-cover transition group-hover:scale-105"
           />
         </div>
         <p className="mt-1.5 line-clamp-2 text-xs font-medium text-slate-900 dark:text-white">
@@ -0,0 +1,92 @@
+"use client";
+
+import { useState } from "react";
+import { ACCOUNT_EXPORT_TABLES } from "@/lib/account-export/bundle";
+import type { AccountRestoreReport } from "@/lib/account-export/restore";
+
+export default function AccountDataSettings() {
+  const [restoring, setRestoring] = useState(false);
+  const [report, setReport] = useState<AccountRestoreReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function restore(file: File | null) {
+    if (!file) return;
+    setRestoring(true);
+    setError(null);
+    setReport(null);
+    try {
+      const form = new FormData();
+      form.append("file", file);
+      const res = await fetch("/api/users/me/import", { method: "POST", body: form });
+      const json = await res.json().catch(() => ({}));
+      if (!json.ok) throw new Error(json.error || `Restore failed (${res.status})`);
+      setReport(json.report);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Restore failed");
+    } finally {
+      setRestoring(false);
+    }
+  }
+
+  const restoredRows = report
+    ? Object.values(report.tables).reduce((n, t) => n + (t?.inserted ?? 0), 0)
+    : 0;
+
+  return (
+    <div className="rounded-xl border p-4 space-y-3 mt-6">
+      <div>
+        <div className="text-base font-semibold">Your data</div>
+        <div className="text-sm text-neutral-500">
+          Download everything SaveState stores for you: library, physical items, lists, played-on, memories,
+          platform progress and identity history.
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <a className="rounded-md border px-3 py-2 text-sm font-medium" href="/api/users/me/export">
+          Download JSON export
+        </a>
+        <details className="text-sm">
+          <summary className="cursor-pointer rounded-md border px-3 py-2">CSV per table</summary>
+          <div className="mt-2 flex flex-wrap gap-2">
+            {ACCOUNT_EXPORT_TABLES.map((t) => (
+              <a
+                key={t.table}
+                className="rounded-md border px-2 py-1 text-xs"
+                href={`/api/users/me/export?format=csv&table=${t.table}`}
+              >
+                {t.table}
+              </a>
+            ))}
+          </div>
+        </details>
+      </div>
+
+      <div className="rounded-lg border p-3 space-y-2">
+        <div className="text-sm font-medium">Restore from an export</div>
+        <div className="text-xs text-neutral-500">
+          Only works on a fresh account (no games or lists yet). Games are matched by their platform ids, so an
+          export from another SaveState server works too. Restores your library, lists, physical items and
+          memories; trophies, achievements and platform progress come back when you re-sync your accounts. A restore
+          that fails is undone, so you can try the same file again.
+        </div>
+        <input
+          type="file"
+          accept=".json,application/json"
+          disabled={restoring}
+          onChange={(e) => restore(e.target.files?.[0] ?? null)}
+          className="text-sm"
+        />
+        {restoring && <div className="text-sm text-neutral-500">Restoring…</div>}
+        {report && (
+          <div className="text-sm">
+            Restored {restoredRows} rows. {report.releases.remapped} of {report.releases.total} games matched
+            {report.releases.unresolved ? `, ${report.releases.unresolved} not found on this server` : ""}.
+          </div>
+        )}
+      </div>
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+    </div>
+  );
+}
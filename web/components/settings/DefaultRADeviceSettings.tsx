@@ -48,7 +48,7 @@ export default function DefaultRADeviceSettings() {
     let cancelled = false;
     (async () => {
       try {
-        const res = await fetch(`/api/hardware/search?q=${encodeURIComponent(dq)}`);
+        const res = await fetch(`/api/hardware/search?q=${encodeURIComponent(dq)}&ra=1`);
         const json = await res.json();
         if (!cancelled) setResults(json.ok ? (json.results ?? []) : []);
       } catch {
@@ -0,0 +1,216 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  PROFILE_SHARING_SECTIONS,
+  PUBLIC_PROFILE_RULES,
+  applyProfileSharing,
+  isProfileVisibility,
+  resolveProfileSharing,
+  type ProfileSharing,
+  type ProfileSharingKey,
+  type ProfileVisibility,
+} from "@/lib/profile/sharing";
+
+const VISIBILITY_COPY: Record<ProfileVisibility, string> = {
+  public: "Public — anyone can open it, follow you and see you on leaderboards.",
+  unlisted: "Unlisted — only people with the link; follows need your approval; no leaderboards.",
+  private: "Private — only you.",
+};
+
+function fmtInt(n: unknown): string | null {
+  return typeof n === "number" && Number.isFinite(n) ? Math.round(n).toLocaleString() : null;
+}
+
+/** One line per toggle of what the redacted /api/public/profile payload still shows (null = nothing). */
+/** The parts of the /api/public/profile payload the preview reads; anything may be redacted away. */
+type StrangerPayload = {
+  identity?: {
+    lifetime_score?: unknown;
+    totals?: { owned_games?: unknown };
+    archetype?: { label?: string };
+    primary_archetype?: { name?: string };
+    top_era?: { label?: string };
+    top_signals?: unknown[];
+  };
+  top_era?: { label?: string } | null;
+  timeline?: { stats?: unknown; standouts?: unknown };
+  played_on?: { top_device?: { display_name?: string } };
+};
+
+function strangerView(payload: unknown): Record<ProfileSharingKey, string | null> {
+  const p = payload as StrangerPayload | null;
+  const identity = p?.identity ?? {};
+  const eras = Object.values((p?.timeline?.stats ?? {}) as Record<string, { games?: number }>).filter(
+    (s) => (s?.games ?? 0) > 0
+  ).length;
+  const standouts = Object.values((p?.timeline?.standouts ?? {}) as Record<string, unknown[]>).reduce(
+    (n, list) => n + (Array.isArray(list) ? list.length : 0),
+    0
+  );
+  const score = fmtInt(identity.lifetime_score);
+  const owned = fmtInt(identity.totals?.owned_games);
+  const archetype = identity.archetype?.label ?? identity.primary_archetype?.name ?? null;
+  const topEra = p?.top_era?.label ?? identity.top_era?.label ?? null;
+  return {
+    show_score: score ? `Lifetime score ${score}` : null,
+    show_archetypes: archetype ? `${archetype}${identity.top_signals?.length ? ` + ${identity.top_signals.length} signals` : ""}` : null,
+    show_timeline: topEra || eras ? [topEra, eras ? `${eras} eras` : null].filter(Boolean).join(" · ") : null,
+    show_recent_activity: standouts ? `${standouts} standout games, completions in friends' feeds` : null,
+    show_played_on: p?.played_on?.top_device?.display_name ? `Mostly on ${p.played_on.top_device.display_name}` : null,
+    show_platforms: null,
+    show_collections: owned ? `${owned} games owned` : null,
+  };
+}
+
+/**
+ * Settings → who can open your profile (profile_visibility) and which sections they see
+ * (profile_sharing), with a live "what a stranger sees" preview: your own full profile run through
+ * the same PUBLIC_PROFILE_RULES the public route applies.
+ */
+export default function ProfileSharingSettings({ username, profilePublic }: { username: string; profilePublic: boolean }) {
+  const [visibility, setVisibility] = useState<ProfileVisibility>("public");
+  const [sharing, setSharing] = useState<ProfileSharing>(resolveProfileSharing(null));
+  const [ownerView, setOwnerView] = useState<unknown>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/profile/me", { cache: "no-store" })
+      .then((r) => r.json())
+      .then((j) => {
+        if (cancelled) return;
+        const p = j?.profile;
+        if (isProfileVisibility(p?.profile_visibility)) setVisibility(p.profile_visibility);
+        setSharing(resolveProfileSharing(p?.profile_sharing ?? null));
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!username) return;
+    let cancelled = false;
+    fetch(`/api/public/profile/${encodeURIComponent(username)}`, { cache: "no-store" })
+      .then((r) => r.json())
+      .then((j) => {
+        if (!cancelled && j?.ok && j.isOwner) setOwnerView(j);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [username]);
+
+  const preview = useMemo(
+    () => (ownerView ? strangerView(applyProfileSharing(ownerView, sharing, PUBLIC_PROFILE_RULES)) : null),
+    [ownerView, sharing]
+  );
+  const hiddenFromStrangers = !profilePublic || visibility === "private";
+
+  async function save() {
+    setSaving(true);
+    setError(null);
+    setSaved(false);
+    try {
+      const res = await fetch("/api/profile/public", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ profile_visibility: visibility, profile_sharing: sharing }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.error || `Save failed (${res.status})`);
+      setSaved(true);
+      setTimeout(() => setSaved(false), 2000);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Save failed");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="rounded-xl border p-4 space-y-4 mt-6">
+      <div>
+        <div className="text-base font-semibold">Who sees what</div>
+        <div className="text-sm text-neutral-500">
+          Applies everywhere your profile shows up: your page and its card, share links, link previews, comparisons and
+          your followers&apos; feeds.
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {(Object.keys(VISIBILITY_COPY) as ProfileVisibility[]).map((v) => (
+          <label key={v} className="flex items-start gap-2 text-sm cursor-pointer">
+            <input
+              type="radio"
+              name="profile_visibility"
+              checked={visibility === v}
+              onChange={() => setVisibility(v)}
+              className="mt-1"
+            />
+            <span>{VISIBILITY_COPY[v]}</span>
+          </label>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+        <div className="space-y-2">
+          {PROFILE_SHARING_SECTIONS.map((s) => (
+            <label key={s.key} className="flex items-start gap-2 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={sharing[s.key]}
+                onChange={(e) => setSharing((prev) => ({ ...prev, [s.key]: e.target.checked }))}
+                className="mt-1"
+              />
+              <span>
+                <span className="font-medium">{s.label}</span>
+                <span className="block text-xs text-neutral-500">{s.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        <div className="rounded-lg border p-3">
+          <div className="text-sm font-medium">What a stranger sees</div>
+          {hiddenFromStrangers ? (
+            <div className="mt-2 text-sm text-neutral-500">Nothing — your profile can&apos;t be opened by others.</div>
+          ) : !preview ? (
+            <div className="mt-2 text-sm text-neutral-500">
+              {username ? "Loading preview…" : "Pick a username to get a public profile."}
+            </div>
+          ) : (
+            <ul className="mt-2 space-y-1.5 text-sm">
+              {PROFILE_SHARING_SECTIONS.map((s) => (
+                <li key={s.key} className="flex justify-between gap-3">
+                  <span className="text-neutral-500">{s.label}</span>
+                  <span className={["text-right", sharing[s.key] ? "" : "text-neutral-400"].join(" ")}>
+                    {!sharing[s.key] ? "Hidden" : (preview[s.key] ?? "Shown where it applies")}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={save}
+          disabled={saving}
+          className="rounded-md border px-3 py-2 text-sm font-medium disabled:opacity-50"
+        >
+          {saving ? "Saving…" : "Save sharing"}
+        </button>
+        {error && <span className="text-sm text-red-700">{error}</span>}
+        {saved && <span className="text-sm text-green-700">Saved.</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import type { FollowListItem, FollowListKind, FollowStatus, FollowSummary } from "@/lib/social/follows";
+
+/**
+ * Follow button + follower/following counts with expandable lists and a link to /compare with the
+ * signed-in viewer, for /users/[username].
+ */
+export function FollowPanel({ username }: { username: string }) {
+  const [summary, setSummary] = useState<FollowSummary | null>(null);
+  const [list, setList] = useState<FollowListKind | null>(null);
+  const [items, setItems] = useState<FollowListItem[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [viewerUsername, setViewerUsername] = useState<string | null>(null);
+
+  const base = `/api/follows/${encodeURIComponent(username)}`;
+
+  const load = useCallback(async () => {
+    const res = await fetch(base, { cache: "no-store" });
+    const json = await res.json().catch(() => null);
+    if (res.ok && json?.ok) setSummary(json as FollowSummary);
+  }, [base]);
+
+  useEffect(() => {
+    if (!username) return;
+    let cancelled = false;
+    fetch(base, { cache: "no-store" })
+      .then((r) => (r.ok ? r.json() : null))
+      .then((json) => {
+        if (!cancelled && json?.ok) setSummary(json as FollowSummary);
+      })
+      .catch(() => {});
+    fetch("/api/users/me", { cache: "no-store" })
+      .then((r) => (r.ok ? r.json() : null))
+      .then((json) => {
+        if (!cancelled) setViewerUsername(json?.profile?.username ?? null);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [base, username]);
+
+  async function toggleFollow() {
+    if (!summary) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/follows", {
+        method: summary.viewer_status ? "DELETE" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username }),
+      });
+      const json = await res.json().catch(() => null);
+      if (res.status === 401) {
+        window.location.href = "/login";
+        return;
+      }
+      if (!res.ok || !json?.ok) throw new Error(json?.error ?? "Request failed");
+      await load();
+      if (list) await openList(list);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Request failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function openList(kind: FollowListKind) {
+    const res = await fetch(`${base}?list=${kind}`, { cache: "no-store" });
+    const json = await res.json().catch(() => null);
+    if (res.ok && json?.ok) {
+      setItems((json.items ?? []) as FollowListItem[]);
+      setList(kind);
+    }
+  }
+
+  if (!summary) return null;
+
+  const label = (s: FollowStatus | null) => (s === "accepted" ? "Following" : s === "pending" ? "Requested" : "Follow");
+
+  return (
+    <div className="mt-5 space-y-3">
+      <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+        {!summary.is_self && (
+          <button
+            type="button"
+            onClick={toggleFollow}
+            disabled={busy}
+            className={[
+              "px-3 py-1.5 rounded-lg border text-xs font-medium disabled:opacity-50",
+              summary.viewer_status
+                ? "border-border bg-card/40 text-foreground hover:bg-card/60"
+                : "border-[#F2C14E] bg-[#F2C14E] text-black hover:bg-[#F2C14E]/90",
+            ].join(" ")}
+          >
+            {label(summary.viewer_status)}
+          </button>
+        )}
+        <button type="button" onClick={() => (list === "followers" ? setList(null) : openList("followers"))} className="hover:text-foreground">
+          <span className="font-medium text-foreground">{summary.followers}</span> followers
+        </button>
+        <button type="button" onClick={() => (list === "following" ? setList(null) : openList("following"))} className="hover:text-foreground">
+          <span className="font-medium text-foreground">{summary.following}</span> following
+        </button>
+        {summary.follows_viewer && <span className="rounded-md border border-border px-2 py-0.5">Follows you</span>}
+        {!summary.is_self && viewerUsername && (
+          <Link
+            href={`/compare/${encodeURIComponent(viewerUsername)}/${encodeURIComponent(username)}`}
+            className="hover:text-foreground hover:underline"
+          >
+            Compare with me
+          </Link>
+        )}
+      </div>
+
+      {error && <div className="text-xs text-destructive">{error}</div>}
+
+      {list && (
+        <div className="rounded-lg border border-border bg-card/40 p-3">
+          <div className="text-[11px] uppercase tracking-wider text-muted-foreground">
+            {list === "followers" ? "Followers" : "Following"}
+          </div>
+          {items.length === 0 ? (
+            <div className="mt-2 text-xs text-muted-foreground">Nobody yet.</div>
+          ) : (
+            <ul className="mt-2 space-y-2">
+              {items.map((u) => (
+                <li key={u.username}>
+                  <Link href={`/users/${encodeURIComponent(u.username)}`} className="flex items-center gap-2 text-sm hover:underline">
+                    <span className="h-6 w-6 shrink-0 rounded-full border border-border bg-card/60 overflow-hidden flex items-center justify-center text-[10px] text-muted-foreground">
+                      {u.avatar_url ? (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img src={u.avatar_url} alt="" className="h-full w-full object-cover" />
+                      ) : (
+                        (u.display_name ?? u.username).charAt(0).toUpperCase()
+                      )}
+                    </span>
+                    <span className="truncate">{u.display_name ?? u.username}</span>
+                    <span className="truncate text-xs text-muted-foreground">@{u.username}</span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { feedItemSentence, type FeedItem } from "@/lib/social/feed";
+import type { FollowListItem } from "@/lib/social/follows";
+import { releaseHref } from "@/lib/routes";
+
+function timeAgo(iso: string) {
+  const t = new Date(iso).getTime();
+  if (!t) return "";
+  const mins = Math.floor((Date.now() - t) / 60_000);
+  if (mins < 1) return "just now";
+  if (mins < 60) return `${mins}m ago`;
+  const hrs = Math.floor(mins / 60);
+  if (hrs < 24) return `${hrs}h ago`;
+  return `${Math.floor(hrs / 24)}d ago`;
+}
+
+/**
+ * GameHome "Friends" section: pending follow requests (approve / reject) and the activity feed of
+ * people you follow (/api/feed). Renders nothing for signed-out viewers.
+ */
+export function FriendsFeed({ className = "" }: { className?: string }) {
+  const [items, setItems] = useState<FeedItem[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [requests, setRequests] = useState<FollowListItem[]>([]);
+  const [status, setStatus] = useState<"loading" | "ok" | "signed_out" | "error">("loading");
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const [feedRes, reqRes] = await Promise.all([
+        fetch("/api/feed", { cache: "no-store" }),
+        fetch("/api/follows/requests", { cache: "no-store" }),
+      ]);
+      if (cancelled) return;
+      if (feedRes.status === 401) {
+        setStatus("signed_out");
+        return;
+      }
+      const feed = await feedRes.json().catch(() => null);
+      const reqs = await reqRes.json().catch(() => null);
+      if (cancelled) return;
+      if (!feedRes.ok || !feed?.ok) {
+        setStatus("error");
+        return;
+      }
+      setItems(feed.items ?? []);
+      setCursor(feed.next_cursor ?? null);
+      setRequests(reqs?.ok ? reqs.requests ?? [] : []);
+      setStatus("ok");
+    })().catch(() => {
+      if (!cancelled) setStatus("error");
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  async function loadMore() {
+    if (!cursor) return;
+    setLoadingMore(true);
+    try {
+      const res = await fetch(`/api/feed?before=${encodeURIComponent(cursor)}`, { cache: "no-store" });
+      const json = await res.json().catch(() => null);
+      if (res.ok && json?.ok) {
+        setItems((prev) => [...prev, ...(json.items ?? [])]);
+        setCursor(json.next_cursor ?? null);
+      }
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  async function respond(username: string, action: "approve" | "reject") {
+    const res = await fetch("/api/follows/requests", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ username, action }),
+    });
+    if (res.ok) setRequests((prev) => prev.filter((r) => r.username !== username));
+  }
+
+  if (status === "signed_out" || status === "loading") return null;
+
+  return (
+    <div className={["space-y-4", className].join(" ")}>
+      <div className="text-xl font-semibold">Friends</div>
+
+      {requests.length > 0 && (
+        <div className="rounded-[var(--radius-xl)] border border-border bg-card/60 p-5">
+          <div className="text-[11px] uppercase tracking-wider text-muted-foreground">Follow requests</div>
+          <ul className="mt-3 space-y-3">
+            {requests.map((r) => (
+              <li key={r.username} className="flex items-center justify-between gap-3">
+                <Link href={`/users/${encodeURIComponent(r.username)}`} className="min-w-0 truncate text-sm hover:underline">
+                  {r.display_name ?? r.username} <span className="text-muted-foreground">@{r.username}</span>
+                </Link>
+                <div className="flex shrink-0 gap-2">
+                  <button
+                    type="button"
+                    onClick={() => respond(r.username, "approve")}
+                    className="rounded-lg bg-[#F2C14E] px-3 py-1 text-xs font-medium text-black hover:bg-[#F2C14E]/90"
+                  >
+                    Approve
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => respond(r.username, "reject")}
+                    className="rounded-lg border border-border bg-card/40 px-3 py-1 text-xs hover:bg-card/60"
+                  >
+                    Reject
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="rounded-[var(--radius-xl)] border border-border bg-card/60 divide-y divide-border/60">
+        {status === "error" ? (
+          <div className="p-6 text-sm text-muted-foreground">Couldn&apos;t load your friends feed.</div>
+        ) : items.length === 0 ? (
+          <div className="p-6 text-sm text-muted-foreground">
+            Nothing from friends yet. Follow people from their profile to see their completions, platinums and memories here.
+          </div>
+        ) : (
+          items.map((item) => (
+            <div key={item.id} className="p-5 flex items-center justify-between gap-4">
+              <div className="min-w-0 flex items-center gap-4">
+                <Link
+                  href={`/users/${encodeURIComponent(item.actor.username)}`}
+                  className="h-10 w-10 shrink-0 rounded-full border border-border bg-card/60 overflow-hidden flex items-center justify-center text-sm text-muted-foreground"
+                >
+                  {item.actor.avatar_url ? (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img src={item.actor.avatar_url} alt="" className="h-full w-full object-cover" />
+                  ) : (
+                    (item.actor.display_name ?? item.actor.username).charAt(0).toUpperCase()
+                  )}
+                </Link>
+                <div className="min-w-0">
+                  <div className="text-sm truncate">
+                    <Link href={`/users/${encodeURIComponent(item.actor.username)}`} className="font-medium hover:underline">
+                      {item.actor.display_name ?? item.actor.username}
+                    </Link>{" "}
+                    {item.count === 1 && item.releases[0]?.release_id ? (
+                      <Link href={releaseHref(item.releases[0].release_id)} className="text-muted-foreground hover:underline">
+                        {feedItemSentence(item)}
+                      </Link>
+                    ) : (
+                      <span className="text-muted-foreground">{feedItemSentence(item)}</span>
+                    )}
+                  </div>
+                  {item.releases.length > 0 && (
+                    <div className="mt-2 flex gap-2">
+                      {item.releases.map((r, i) => {
+                        const src = r.cover_image?.src ?? r.cover_url;
+                        return src ? (
+                          // eslint-disable-next-line @next/next/no-img-element
+                          <img
+                            key={`${r.release_id ?? r.title}-${i}`}
+                            src={src}
+                            alt={r.title}
+                            title={r.title}
+                            loading="lazy"
+                            className="h-12 w-9 rounded object-cover border border-border"
+                            style={{ backgroundColor: r.cover_image?.color ?? undefined }}
+                          />
+                        ) : null;
+                      })}
+                    </div>
+                  )}
+                </div>
+              </div>
+              <div className="text-sm text-muted-foreground shrink-0">{timeAgo(item.occurred_at)}</div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {cursor && (
+        <button
+          type="button"
+          onClick={loadMore}
+          disabled={loadingMore}
+          className="rounded-[var(--radius)] border border-border bg-card/50 px-4 py-2 text-sm hover:bg-card/70 disabled:opacity-50"
+        >
+          {loadingMore ? "Loading…" : "Show more"}
+        </button>
+      )}
+    </div>
+  );
+}
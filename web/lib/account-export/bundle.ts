@@ -0,0 +1,185 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Account data export (GET /api/users/me/export). One versioned JSON bundle with every user-owned
+ * table plus a release index (external ids + IGDB id) so restore.ts can remap release ids when the
+ * bundle is loaded into another account or another SaveState instance. Progress, achievement and
+ * archetype tables are export-only; restore.ts writes back just the user-authored ones.
+ *
+ * Bump ACCOUNT_EXPORT_VERSION when the bundle shape changes; restore accepts any version up to it.
+ */
+
+export const ACCOUNT_EXPORT_FORMAT = "savestate.account-export";
+export const ACCOUNT_EXPORT_VERSION = 1;
+
+export type AccountExportTableSpec = {
+  table: string;
+  /** How rows reach the user: own user_id column, or via a parent table. */
+  owner: "user_id" | "list_id";
+  /** release_id handling on restore: rows with an unresolved required release are skipped. */
+  release: "required" | "optional" | "none";
+  /** Upsert key on restore (without it rows are inserted with fresh ids). */
+  conflict?: string;
+};
+
+export const ACCOUNT_EXPORT_TABLES = [
+  { table: "portfolio_entries", owner: "user_id", release: "required", conflict: "user_id,release_id" },
+  { table: "portfolio_physical_items", owner: "user_id", release: "optional" },
+  { table: "lists", owner: "user_id", release: "none" },
+  { table: "list_items", owner: "list_id", release: "required", conflict: "list_id,release_id" },
+  { table: "user_release_played_on", owner: "user_id", release: "required", conflict: "user_id,release_id,hardware_id" },
+  { table: "user_memory_titles", owner: "user_id", release: "required", conflict: "user_id,release_id" },
+  { table: "psn_title_progress", owner: "user_id", release: "optional", conflict: "user_id,np_communication_id" },
+  { table: "xbox_title_progress", owner: "user_id", release: "optional", conflict: "user_id,title_id" },
+  { table: "steam_title_progress", owner: "user_id", release: "required", conflict: "user_id,release_id" },
+  { table: "gog_title_progress", owner: "user_id", release: "optional", conflict: "user_id,gog_product_id" },
+  { table: "switch_title_progress", owner: "user_id", release: "optional", conflict: "user_id,title_id" },
+  { table: "ra_game_progress", owner: "user_id", release: "optional", conflict: "user_id,ra_game_id" },
+  { table: "achievement_unlocks", owner: "user_id", release: "optional", conflict: "user_id,platform,external_game_id,achievement_id" },
+  { table: "user_archetype_snapshots", owner: "user_id", release: "none", conflict: "user_id" },
+  { table: "user_archetype_snapshots_history", owner: "user_id", release: "none" },
+] as const satisfies readonly AccountExportTableSpec[];
+
+export type AccountExportTable = (typeof ACCOUNT_EXPORT_TABLES)[number]["table"];
+
+export type ExportRow = Record<string, unknown>;
+
+export type ExportRelease = {
+  release_id: string;
+  display_title: string | null;
+  platform_key: string | null;
+  igdb_game_id: number | null;
+  external_ids: Array<{ source: string; external_id: string }>;
+};
+
+export type AccountExportBundle = {
+  format: typeof ACCOUNT_EXPORT_FORMAT;
+  version: number;
+  exported_at: string;
+  account: { username: string | null; display_name: string | null };
+  releases: ExportRelease[];
+  tables: Record<AccountExportTable, ExportRow[]>;
+};
+
+const PAGE = 1000;
+
+type SelectQuery = ReturnType<ReturnType<SupabaseClient["from"]>["select"]>;
+const IN_CHUNK = 200;
+
+function chunks<T>(arr: T[], size = IN_CHUNK): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < arr.length; i += size) out.push(arr.slice(i, i + size));
+  return out;
+}
+
+export function isAccountExportTable(v: unknown): v is AccountExportTable {
+  return ACCOUNT_EXPORT_TABLES.some((t) => t.table === v);
+}
+
+function withoutUserId(row: ExportRow): ExportRow {
+  const out = { ...row };
+  delete out.user_id;
+  return out;
+}
+
+/** Paged select (PostgREST caps responses at 1000 rows). */
+async function selectAll(
+  admin: SupabaseClient,
+  table: string,
+  select: string,
+  apply: (q: SelectQuery) => SelectQuery
+): Promise<ExportRow[]> {
+  const out: ExportRow[] = [];
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await apply(admin.from(table).select(select)).range(from, from + PAGE - 1);
+    if (error) throw new Error(`${table}: ${error.message}`);
+    out.push(...((data ?? []) as ExportRow[]));
+    if (!data || data.length < PAGE) return out;
+  }
+}
+
+/** Rows of one table for the user. user_id is dropped (the bundle is the user); played-on rows carry hardware_slug. */
+export async function exportAccountTable(admin: SupabaseClient, userId: string, table: AccountExportTable): Promise<ExportRow[]> {
+  if (table === "list_items") {
+    const lists = await selectAll(admin, "lists", "id", (q) => q.eq("user_id", userId));
+    const rows: ExportRow[] = [];
+    for (const part of chunks(lists.map((l) => String(l.id)))) {
+      rows.push(...(await selectAll(admin, "list_items", "*", (q) => q.in("list_id", part))));
+    }
+    return rows;
+  }
+
+  if (table === "user_release_played_on") {
+    const rows = await selectAll(admin, table, "*, hardware:hardware_id(slug)", (q) => q.eq("user_id", userId));
+    return rows.map(({ hardware, ...r }) => ({
+      ...withoutUserId(r),
+      hardware_slug: (hardware as { slug?: string | null } | null)?.slug ?? null,
+    }));
+  }
+
+  const rows = await selectAll(admin, table, "*", (q) => q.eq("user_id", userId));
+  return rows.map(withoutUserId);
+}
+
+/** Release index for every release_id referenced by the exported rows. */
+async function exportReleaseIndex(admin: SupabaseClient, releaseIds: string[]): Promise<ExportRelease[]> {
+  const byId = new Map<string, ExportRelease>();
+
+  for (const part of chunks(releaseIds)) {
+    const { data, error } = await admin
+      .from("releases")
+      .select("id, display_title, platform_key, games:game_id(igdb_game_id)")
+      .in("id", part);
+    if (error) throw new Error(`releases: ${error.message}`);
+    for (const r of data ?? []) {
+      const game = Array.isArray(r.games) ? r.games[0] : r.games;
+      byId.set(String(r.id), {
+        release_id: String(r.id),
+        display_title: r.display_title ?? null,
+        platform_key: r.platform_key ?? null,
+        igdb_game_id: game?.igdb_game_id != null ? Number(game.igdb_game_id) : null,
+        external_ids: [],
+      });
+    }
+
+    const { data: ext, error: extErr } = await admin
+      .from("release_external_ids")
+      .select("release_id, source, external_id")
+      .in("release_id", part);
+    if (extErr) throw new Error(`release_external_ids: ${extErr.message}`);
+    for (const x of ext ?? []) {
+      byId.get(String(x.release_id))?.external_ids.push({ source: String(x.source), external_id: String(x.external_id) });
+    }
+  }
+
+  return [...byId.values()];
+}
+
+export async function buildAccountExport(admin: SupabaseClient, userId: string): Promise<AccountExportBundle> {
+  const { data: profile } = await admin
+    .from("profiles")
+    .select("username, display_name")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  const tables = {} as Record<AccountExportTable, ExportRow[]>;
+  for (const spec of ACCOUNT_EXPORT_TABLES) {
+    tables[spec.table] = await exportAccountTable(admin, userId, spec.table);
+  }
+
+  const releaseIds = new Set<string>();
+  for (const rows of Object.values(tables)) {
+    for (const r of rows) {
+      if (r.release_id) releaseIds.add(String(r.release_id));
+    }
+  }
+
+  return {
+    format: ACCOUNT_EXPORT_FORMAT,
+    version: ACCOUNT_EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    account: { username: profile?.username ?? null, display_name: profile?.display_name ?? null },
+    releases: await exportReleaseIndex(admin, [...releaseIds]),
+    tables,
+  };
+}
@@ -0,0 +1,17 @@
+/** RFC 4180 CSV for export rows. Columns are the union of row keys; nested values are written as JSON. */
+export function toCsv(rows: Record<string, unknown>[]): string {
+  const headers: string[] = [];
+  for (const r of rows) {
+    for (const k of Object.keys(r)) {
+      if (!headers.includes(k)) headers.push(k);
+    }
+  }
+
+  const cell = (v: unknown) => {
+    if (v == null) return "";
+    const s = typeof v === "object" ? JSON.stringify(v) : String(v);
+    return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+  };
+
+  return [headers.map(cell).join(","), ...rows.map((r) => headers.map((h) => cell(r[h])).join(","))].join("\r\n") + "\r\n";
+}
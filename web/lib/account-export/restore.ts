@@ -0,0 +1,342 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  ACCOUNT_EXPORT_FORMAT,
+  ACCOUNT_EXPORT_TABLES,
+  ACCOUNT_EXPORT_VERSION,
+  type AccountExportBundle,
+  type AccountExportTable,
+  type AccountExportTableSpec,
+  type ExportRelease,
+  type ExportRow,
+} from "./bundle";
+
+/**
+ * Restore an account export into a fresh account (POST /api/users/me/import).
+ *
+ * Only user-authored tables are written back, and only the columns in RESTORE_COLUMNS. Platform
+ * progress, achievement unlocks and archetype snapshots stay export-only: they feed leaderboards
+ * and the activity feed, so they come back through a re-sync rather than from an editable file.
+ *
+ * Release ids are remapped, in order: release_external_ids (source, external_id) -> game IGDB id +
+ * platform_key -> the same release id if it exists here. Rows whose release can't be resolved are
+ * skipped (or keep a null release_id where the column is optional). Lists get new ids and
+ * list_items follow them (lists restore private and unlinked from the list they were cloned from,
+ * items as added by the restoring user); played-on hardware is matched by slug.
+ *
+ * The restore is all or nothing: when a write fails, the rows already written are deleted again
+ * and the error is thrown, so the account stays fresh and the same bundle can be imported again.
+ */
+
+export type RestoreTableReport = { inserted: number; skipped: number };
+
+export type AccountRestoreReport = {
+  releases: { total: number; remapped: number; unresolved: number };
+  tables: Partial<Record<AccountExportTable, RestoreTableReport>>;
+};
+
+/** Columns written back per table. Tables not listed here are export-only. */
+export const RESTORE_COLUMNS: Partial<Record<AccountExportTable, readonly string[]>> = {
+  portfolio_entries: ["release_id", "status", "rating", "playtime_minutes", "first_played_at", "last_played_at", "created_at", "updated_at"],
+  portfolio_physical_items: ["kind", "title", "platform_key", "quantity", "condition", "notes", "region", "release_id", "created_at", "updated_at"],
+  lists: ["title", "name", "description", "is_smart", "rules", "is_ranked", "created_at", "updated_at"],
+  list_items: ["list_id", "release_id", "position", "note", "created_at"],
+  user_release_played_on: ["release_id", "source", "is_primary", "created_at", "updated_at"],
+  user_memory_titles: ["release_id", "platform_key", "remembered_at", "created_at"],
+};
+
+/** Column returned by each write that identifies the rows it inserted, for rollback. */
+const ROLLBACK_KEY: Partial<Record<AccountExportTable, string>> = {
+  portfolio_entries: "release_id",
+  portfolio_physical_items: "id",
+  lists: "id",
+  list_items: "list_id",
+  user_release_played_on: "id",
+  user_memory_titles: "id",
+};
+
+/** Rows a restore wrote so far: table + the ROLLBACK_KEY values it got back, in write order. */
+export type RestoreWriteLog = Array<{ table: AccountExportTable; values: string[] }>;
+
+export type RestoreRollbackStep = {
+  table: AccountExportTable;
+  /** Owner filter; list_items are owned through their (new) list. */
+  owner: { column: "user_id"; value: string } | null;
+  column: string;
+  values: string[];
+};
+
+export type RestoreContext = {
+  userId: string;
+  /** Bundle release id -> release id here. */
+  releaseMap: Map<string, string>;
+  /** Bundle list id -> new list id; filled by lists, read by list_items. */
+  listIds: Map<string, string>;
+  /** hardware slug -> hardware id, for played-on rows. */
+  hardware: Map<string, string>;
+};
+
+const IN_CHUNK = 200;
+const WRITE_CHUNK = 500;
+
+function chunks<T>(arr: T[], size = IN_CHUNK): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < arr.length; i += size) out.push(arr.slice(i, i + size));
+  return out;
+}
+
+/** Shape check. Returns an error message, or null when the bundle can be restored. */
+export function validateAccountExport(bundle: unknown): string | null {
+  if (!bundle || typeof bundle !== "object") return "Not an export bundle";
+  const input = bundle as Record<string, unknown>;
+  if (input.format !== ACCOUNT_EXPORT_FORMAT) return `Not a SaveState export (format must be "${ACCOUNT_EXPORT_FORMAT}")`;
+  const version = Number(input.version);
+  if (!Number.isInteger(version) || version < 1) return "Export has no version";
+  if (version > ACCOUNT_EXPORT_VERSION) return `Export version ${version} is newer than this server supports (${ACCOUNT_EXPORT_VERSION})`;
+  if (!Array.isArray(input.releases) || !input.tables || typeof input.tables !== "object") return "Export is missing releases or tables";
+  for (const [table, rows] of Object.entries(input.tables)) {
+    if (!Array.isArray(rows) || rows.some((r) => !r || typeof r !== "object" || Array.isArray(r))) {
+      return `Export table ${table} must be a list of rows`;
+    }
+  }
+  return null;
+}
+
+/** True when the account already has a library; restore is only for fresh accounts. */
+export async function accountHasData(admin: SupabaseClient, userId: string): Promise<boolean> {
+  for (const table of ["portfolio_entries", "lists"]) {
+    const { count, error } = await admin
+      .from(table)
+      .select("user_id", { count: "exact", head: true })
+      .eq("user_id", userId);
+    if (error) throw new Error(`${table}: ${error.message}`);
+    if ((count ?? 0) > 0) return true;
+  }
+  return false;
+}
+
+async function remapReleases(admin: SupabaseClient, releases: ExportRelease[]): Promise<Map<string, string>> {
+  const map = new Map<string, string>();
+  const pending = () => releases.filter((r) => !map.has(r.release_id));
+
+  // 1) external ids, grouped by source
+  const bySource = new Map<string, Map<string, string>>();
+  for (const r of releases) {
+    for (const x of r.external_ids ?? []) {
+      if (!bySource.has(x.source)) bySource.set(x.source, new Map());
+      bySource.get(x.source)!.set(String(x.external_id), r.release_id);
+    }
+  }
+  for (const [source, ids] of bySource) {
+    for (const part of chunks([...ids.keys()])) {
+      const { data, error } = await admin
+        .from("release_external_ids")
+        .select("release_id, external_id")
+        .eq("source", source)
+        .in("external_id", part);
+      if (error) throw new Error(`release_external_ids: ${error.message}`);
+      for (const x of data ?? []) {
+        const oldId = ids.get(String(x.external_id));
+        if (oldId && !map.has(oldId)) map.set(oldId, String(x.release_id));
+      }
+    }
+  }
+
+  // 2) IGDB game + platform
+  const withIgdb = pending().filter((r) => r.igdb_game_id != null && r.platform_key);
+  for (const part of chunks(withIgdb)) {
+    const { data, error } = await admin
+      .from("releases")
+      .select("id, platform_key, games:game_id!inner(igdb_game_id)")
+      .in("games.igdb_game_id", part.map((r) => r.igdb_game_id));
+    if (error) throw new Error(`releases by igdb: ${error.message}`);
+    for (const row of data ?? []) {
+      const game = Array.isArray(row.games) ? row.games[0] : row.games;
+      const hit = part.find((r) => r.igdb_game_id === Number(game?.igdb_game_id) && r.platform_key === row.platform_key);
+      if (hit && !map.has(hit.release_id)) map.set(hit.release_id, String(row.id));
+    }
+  }
+
+  // 3) same instance: the old id still exists
+  for (const part of chunks(pending().map((r) => r.release_id))) {
+    const { data, error } = await admin.from("releases").select("id").in("id", part);
+    if (error) throw new Error(`releases: ${error.message}`);
+    for (const r of data ?? []) map.set(String(r.id), String(r.id));
+  }
+
+  return map;
+}
+
+async function resolveHardwareSlugs(admin: SupabaseClient, rows: ExportRow[]): Promise<Map<string, string>> {
+  const slugs = [...new Set(rows.map((r) => r.hardware_slug).filter(Boolean).map(String))];
+  const map = new Map<string, string>();
+  for (const part of chunks(slugs)) {
+    const { data, error } = await admin.from("hardware").select("id, slug").in("slug", part);
+    if (error) throw new Error(`hardware: ${error.message}`);
+    for (const h of data ?? []) map.set(String(h.slug), String(h.id));
+  }
+  return map;
+}
+
+/** Writes in chunks, logging what each chunk inserted (ignored duplicates return nothing). */
+async function writeRows(
+  admin: SupabaseClient,
+  table: AccountExportTable,
+  rows: ExportRow[],
+  conflict: string | undefined,
+  log: RestoreWriteLog
+): Promise<void> {
+  const key = ROLLBACK_KEY[table] ?? "id";
+  for (const part of chunks(rows, WRITE_CHUNK)) {
+    const q = conflict
+      ? admin.from(table).upsert(part, { onConflict: conflict, ignoreDuplicates: true })
+      : admin.from(table).insert(part);
+    const { data, error } = await q.select<string, ExportRow>(key);
+    if (error) throw new Error(`${table}: ${error.message}`);
+    const values = (data ?? []).map((r) => r[key]).filter((v) => v != null).map(String);
+    if (values.length) log.push({ table, values });
+  }
+}
+
+/** Deletes that undo a write log: newest table first (list_items before lists), owned rows only. */
+export function restoreRollbackPlan(log: RestoreWriteLog, userId: string): RestoreRollbackStep[] {
+  const steps: RestoreRollbackStep[] = [];
+  for (const { table, values } of [...log].reverse()) {
+    const last = steps[steps.length - 1];
+    if (last?.table === table) {
+      last.values.push(...values);
+      continue;
+    }
+    const spec = ACCOUNT_EXPORT_TABLES.find((t) => t.table === table);
+    steps.push({
+      table,
+      owner: spec?.owner === "user_id" ? { column: "user_id", value: userId } : null,
+      column: ROLLBACK_KEY[table] ?? "id",
+      values: [...values],
+    });
+  }
+  for (const step of steps) step.values = [...new Set(step.values)];
+  return steps;
+}
+
+async function rollbackRestore(admin: SupabaseClient, userId: string, log: RestoreWriteLog): Promise<void> {
+  for (const step of restoreRollbackPlan(log, userId)) {
+    for (const part of chunks(step.values)) {
+      let q = admin.from(step.table).delete().in(step.column, part);
+      if (step.owner) q = q.eq(step.owner.column, step.owner.value);
+      const { error } = await q;
+      if (error) throw new Error(`${step.table} rollback: ${error.message}`);
+    }
+  }
+}
+
+function pickColumns(row: ExportRow, columns: readonly string[]): ExportRow {
+  const out: ExportRow = {};
+  for (const c of columns) {
+    if (c in row) out[c] = row[c];
+  }
+  return out;
+}
+
+/**
+ * Bundle rows -> rows to write for one table: allowlisted columns only, owned by the restoring
+ * user, with release / list / hardware ids remapped. Export-only tables yield nothing.
+ */
+export function restoreTableRows(
+  spec: AccountExportTableSpec,
+  source: ExportRow[],
+  ctx: RestoreContext
+): { rows: ExportRow[]; skipped: number } {
+  const columns = RESTORE_COLUMNS[spec.table as AccountExportTable];
+  if (!columns) return { rows: [], skipped: 0 };
+
+  const rows: ExportRow[] = [];
+  let skipped = 0;
+
+  for (const original of source) {
+    const row = pickColumns(original, columns);
+
+    if (spec.release !== "none") {
+      const mapped = original.release_id ? ctx.releaseMap.get(String(original.release_id)) : undefined;
+      if (!mapped && spec.release === "required") {
+        skipped++;
+        continue;
+      }
+      row.release_id = mapped ?? null;
+    }
+
+    if (spec.table === "lists") {
+      const newId = crypto.randomUUID();
+      ctx.listIds.set(String(original.id), newId);
+      rows.push({ ...row, id: newId, user_id: ctx.userId, is_curated: false, visibility: "private", cloned_from: null });
+      continue;
+    }
+
+    if (spec.owner === "list_id") {
+      const listId = ctx.listIds.get(String(original.list_id));
+      if (!listId) {
+        skipped++;
+        continue;
+      }
+      rows.push({ ...row, list_id: listId, added_by: ctx.userId });
+      continue;
+    }
+
+    if (spec.table === "user_release_played_on") {
+      const hardwareId = ctx.hardware.get(String(original.hardware_slug ?? ""));
+      if (!hardwareId) {
+        skipped++;
+        continue;
+      }
+      row.hardware_id = hardwareId;
+    }
+
+    if (spec.table === "portfolio_entries") row.source = "import";
+
+    rows.push({ ...row, user_id: ctx.userId });
+  }
+
+  return { rows, skipped };
+}
+
+export async function restoreAccountExport(
+  admin: SupabaseClient,
+  userId: string,
+  bundle: AccountExportBundle
+): Promise<AccountRestoreReport> {
+  const releaseMap = await remapReleases(admin, bundle.releases);
+  const ctx: RestoreContext = { userId, releaseMap, listIds: new Map(), hardware: new Map() };
+  const report: AccountRestoreReport = {
+    releases: {
+      total: bundle.releases.length,
+      remapped: releaseMap.size,
+      unresolved: bundle.releases.length - releaseMap.size,
+    },
+    tables: {},
+  };
+  const log: RestoreWriteLog = [];
+
+  for (const spec of ACCOUNT_EXPORT_TABLES) {
+    if (!RESTORE_COLUMNS[spec.table]) continue;
+    const source: ExportRow[] = Array.isArray(bundle.tables[spec.table]) ? bundle.tables[spec.table] : [];
+    if (source.length === 0) continue;
+
+    if (spec.table === "user_release_played_on") ctx.hardware = await resolveHardwareSlugs(admin, source);
+    const { rows, skipped } = restoreTableRows(spec, source, ctx);
+
+    try {
+      await writeRows(admin, spec.table, rows, "conflict" in spec ? spec.conflict : undefined, log);
+    } catch (e) {
+      const message = e instanceof Error ? e.message : `${spec.table}: write failed`;
+      try {
+        await rollbackRestore(admin, userId, log);
+      } catch (undo) {
+        const detail = undo instanceof Error ? undo.message : "rollback failed";
+        throw new Error(`${message} (${detail}; the account may be partly restored)`);
+      }
+      throw new Error(`${message} (nothing was restored)`);
+    }
+    report.tables[spec.table] = { inserted: rows.length, skipped };
+  }
+
+  return report;
+}
@@ -0,0 +1,180 @@
+/**
+ * achievement_unlocks: one normalized row per unlocked achievement / trophy across platforms.
+ * Written whenever achievements are fetched live (PSN trophies, Xbox, Steam, RA routes); read by
+ * GET /api/achievements/unlocks for date-range views. Locked achievements are never stored.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export const ACHIEVEMENT_PLATFORMS = ["psn", "xbox", "steam", "ra"] as const;
+
+export type AchievementPlatform = (typeof ACHIEVEMENT_PLATFORMS)[number];
+
+export type AchievementUnlockInput = {
+  achievement_id: string;
+  achievement_name?: string | null;
+  icon_url?: string | null;
+  unlocked_at: string | null | undefined;
+  /** Percent of players who have it (0–100), when the platform reports one. */
+  rarity_percentage?: number | null;
+};
+
+export type AchievementUnlock = {
+  id: number;
+  platform: AchievementPlatform;
+  release_id: string | null;
+  external_game_id: string;
+  achievement_id: string;
+  achievement_name: string | null;
+  icon_url: string | null;
+  unlocked_at: string;
+  rarity_percentage: number | null;
+};
+
+const UNLOCK_COLS =
+  "id, platform, release_id, external_game_id, achievement_id, achievement_name, icon_url, unlocked_at, rarity_percentage";
+const WRITE_CHUNK = 500;
+
+export function isAchievementPlatform(v: unknown): v is AchievementPlatform {
+  return ACHIEVEMENT_PLATFORMS.includes(v as AchievementPlatform);
+}
+
+function toIso(v: unknown): string | null {
+  if (v == null || v === "") return null;
+  const d = new Date(String(v));
+  return Number.isNaN(d.getTime()) ? null : d.toISOString();
+}
+
+/** Percent of players, clamped to 0–100 (platforms round past the ends); null when not a number. */
+function toRarity(v: unknown): number | null {
+  if (v == null || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? Math.min(100, Math.max(0, n)) : null;
+}
+
+export type AchievementUnlockGame = { platform: AchievementPlatform; release_id: string | null; external_game_id: string };
+
+/** Rows to upsert: only achievements with an id and a valid unlock date (locked ones have none). */
+export function toAchievementUnlockRows(
+  userId: string,
+  game: AchievementUnlockGame,
+  achievements: AchievementUnlockInput[],
+  now: string
+) {
+  return achievements
+    .map((a) => ({ a, unlockedAt: toIso(a.unlocked_at) }))
+    .filter((r): r is { a: AchievementUnlockInput; unlockedAt: string } => !!r.unlockedAt && !!String(r.a.achievement_id ?? "").trim())
+    .map(({ a, unlockedAt }) => ({
+      user_id: userId,
+      platform: game.platform,
+      release_id: game.release_id,
+      external_game_id: game.external_game_id,
+      achievement_id: String(a.achievement_id).trim(),
+      achievement_name: a.achievement_name ?? null,
+      icon_url: a.icon_url ?? null,
+      unlocked_at: unlockedAt,
+      rarity_percentage: toRarity(a.rarity_percentage),
+      updated_at: now,
+    }));
+}
+
+/**
+ * Upsert the unlocked subset of a live achievement list. Best effort: failures are logged, never
+ * thrown, so display routes keep working when the table is missing or the write is rejected.
+ */
+export async function recordAchievementUnlocks(
+  admin: SupabaseClient,
+  userId: string,
+  game: AchievementUnlockGame,
+  achievements: AchievementUnlockInput[]
+): Promise<number> {
+  const rows = toAchievementUnlockRows(userId, game, achievements, new Date().toISOString());
+
+  let written = 0;
+  for (let i = 0; i < rows.length; i += WRITE_CHUNK) {
+    const part = rows.slice(i, i + WRITE_CHUNK);
+    const { error } = await admin
+      .from("achievement_unlocks")
+      .upsert(part, { onConflict: "user_id,platform,external_game_id,achievement_id" });
+    if (error) {
+      console.warn(`[achievement_unlocks] ${game.platform}:${game.external_game_id} upsert failed:`, error.message);
+      return written;
+    }
+    written += part.length;
+  }
+  return written;
+}
+
+/** Keyset cursor over (unlocked_at desc, id desc): "<iso>|<id>". */
+export function encodeCursor(u: Pick<AchievementUnlock, "unlocked_at" | "id">) {
+  return `${u.unlocked_at}|${u.id}`;
+}
+
+export function decodeCursor(cursor: string | null | undefined): { at: string; id: number } | null {
+  const [rawAt, rawId] = String(cursor ?? "").split("|");
+  const at = toIso(rawAt);
+  return at && /^\d+$/.test(rawId ?? "") ? { at, id: Number(rawId) } : null;
+}
+
+/** PostgREST filter for the rows after `after`: older, or as old with a smaller id. */
+export function unlockCursorFilter(after: { at: string; id: number }): string {
+  return `unlocked_at.lt."${after.at}",and(unlocked_at.eq."${after.at}",id.lt.${after.id})`;
+}
+
+/** `month=YYYY-MM` as [from, to): the first instant of the month and of the next one (UTC). */
+export function monthRange(month: string): { from: string; to: string } | null {
+  const m = month.match(/^(\d{4})-(\d{2})$/);
+  if (!m || Number(m[2]) < 1 || Number(m[2]) > 12) return null;
+  return {
+    from: new Date(Date.UTC(Number(m[1]), Number(m[2]) - 1, 1)).toISOString(),
+    to: new Date(Date.UTC(Number(m[1]), Number(m[2]), 1)).toISOString(),
+  };
+}
+
+/** One page out of up to limit + 1 fetched rows; the extra row only says whether there is more. */
+export function pageAchievementUnlocks<T extends Pick<AchievementUnlock, "unlocked_at" | "id">>(
+  rows: T[],
+  limit: number
+): { items: T[]; next_cursor: string | null; has_more: boolean } {
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  const has_more = rows.length > limit;
+  return { items: page, next_cursor: has_more && last ? encodeCursor(last) : null, has_more };
+}
+
+export type AchievementUnlockQuery = {
+  from?: string | null;
+  to?: string | null;
+  platform?: AchievementPlatform | null;
+  release_id?: string | null;
+  cursor?: string | null;
+  limit?: number;
+};
+
+/** Newest first, keyset-paginated. `from` inclusive, `to` exclusive. */
+export async function queryAchievementUnlocks(
+  admin: SupabaseClient,
+  userId: string,
+  q: AchievementUnlockQuery
+): Promise<{ items: AchievementUnlock[]; next_cursor: string | null; has_more: boolean }> {
+  const limit = Math.min(Math.max(Number(q.limit) || 50, 1), 200);
+  const after = decodeCursor(q.cursor);
+
+  let query = admin
+    .from("achievement_unlocks")
+    .select(UNLOCK_COLS)
+    .eq("user_id", userId)
+    .order("unlocked_at", { ascending: false })
+    .order("id", { ascending: false });
+
+  if (q.from) query = query.gte("unlocked_at", q.from);
+  if (q.to) query = query.lt("unlocked_at", q.to);
+  if (q.platform) query = query.eq("platform", q.platform);
+  if (q.release_id) query = query.eq("release_id", q.release_id);
+  if (after) query = query.or(unlockCursorFilter(after));
+
+  const { data, error } = await query.limit(limit + 1);
+  if (error) throw new Error(`achievement_unlocks: ${error.message}`);
+
+  return pageAchievementUnlocks((data ?? []) as AchievementUnlock[], limit);
+}
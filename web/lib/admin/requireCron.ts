@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+
+/**
+ * Cron / worker routes: require `Authorization: Bearer $CRON_SECRET` (what Vercel Cron sends).
+ * Same return shape as requireAdmin so routes can early-return `res`.
+ */
+export function requireCron(req: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return { ok: false as const, res: NextResponse.json({ ok: false, error: "CRON_SECRET not configured" }, { status: 500 }) };
+  }
+
+  const auth = req.headers.get("authorization") ?? "";
+  if (auth !== `Bearer ${secret}`) {
+    return { ok: false as const, res: NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 }) };
+  }
+
+  return { ok: true as const };
+}
@@ -0,0 +1,422 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * catalog_audit_log: one row per catalog mutation (release/game merges, IGDB pins and overrides).
+ *
+ * Every mutation opens its entry *before* touching anything (status 'pending', full before
+ * snapshot) and closes it afterwards ('applied' or 'failed', after snapshot + affected rows). If
+ * the entry can't be written the mutation doesn't run, so nothing destructive happens unrecorded.
+ * revertCatalogAudit() replays the snapshot: recreates merged-away releases/games, re-points the
+ * moved rows (every RELEASE_REF_TABLES table) and re-inserts rows the merge had to drop.
+ */
+
+type SelectQuery = ReturnType<ReturnType<SupabaseClient["from"]>["select"]>;
+
+export const CATALOG_AUDIT_ACTIONS = ["release_merge", "game_merge", "igdb_pin", "igdb_override"] as const;
+export type CatalogAuditAction = (typeof CATALOG_AUDIT_ACTIONS)[number];
+
+export type CatalogAuditStatus = "pending" | "applied" | "failed" | "reverted";
+
+export type CatalogActor = {
+  kind: "admin" | "user" | "system";
+  id: string | null;
+  /** Route or job that did it, e.g. "/api/admin/games-merge" or "sync". */
+  label: string;
+};
+
+export const SYNC_ACTOR: CatalogActor = { kind: "system", id: null, label: "sync" };
+
+/** A row identified by its key columns (release_id/game_id excluded: that's what moves). */
+export type CatalogRowRef = { table: string; key: Record<string, unknown> };
+
+export type CatalogAffectedRow = CatalogRowRef & {
+  user_id: string | null;
+  /**
+   * moved = re-pointed to the winner; dropped = deleted because the winner already had that row;
+   * relinked = `column` changed from `from` to `to` (rows pointing at a folded edition).
+   */
+  op: "moved" | "dropped" | "relinked";
+  column?: string;
+  from?: string;
+  to?: string;
+};
+
+/** Column values a patch overwrote, so revert can write them back. */
+export type CatalogPatchedRow = CatalogRowRef & { row: Record<string, unknown> };
+
+export type ReleaseMergeBefore = {
+  release: Record<string, unknown>;
+  external_ids: Record<string, unknown>[];
+  enrichment_state: Record<string, unknown> | null;
+  /** Full rows that referenced the loser, by table. */
+  rows: Record<string, Record<string, unknown>[]>;
+  /** Winner rows the merge updated (editions that absorbed the loser's codes), as they were before. */
+  patched?: CatalogPatchedRow[];
+};
+
+export type GameMergeBefore = {
+  games: Record<string, unknown>[];
+  release_ids: Record<string, string[]>;
+  game_external_ids: Record<string, unknown>[];
+};
+
+export type PatchBefore = {
+  rows: CatalogPatchedRow[];
+};
+
+export type CatalogAuditEntry = {
+  id: string;
+  action: CatalogAuditAction;
+  status: CatalogAuditStatus;
+  actor_kind: CatalogActor["kind"];
+  actor_id: string | null;
+  actor_label: string | null;
+  target_type: "release" | "game";
+  /** Winner for merges; the patched game for pins (null when an override touched no game). */
+  target_id: string | null;
+  subject_ids: string[];
+  before: ReleaseMergeBefore | GameMergeBefore | PatchBefore;
+  after: Record<string, unknown> | null;
+  affected: CatalogAffectedRow[];
+  affected_user_ids: string[];
+  error: string | null;
+  created_at: string;
+  completed_at: string | null;
+  reverted_at: string | null;
+  reverted_by: string | null;
+  revert_result: Record<string, unknown> | null;
+};
+
+export type CatalogAuditSummary = Omit<CatalogAuditEntry, "before" | "after" | "affected"> & { affected_count: number };
+
+/**
+ * Tables holding release_id, with the columns that identify a row apart from release_id.
+ * Shared with mergeReleaseInto so merge and revert agree on what a "row" is. Every foreign key to
+ * releases(id) belongs here (release_external_ids and release_enrichment_state are merged
+ * separately); __tests__/catalog/release-refs.test.ts checks the migrations against this list.
+ * `user` is the column naming the user a row belongs to (null for catalog rows).
+ */
+export const RELEASE_REF_TABLES: { table: string; key: string[]; user: string | null }[] = [
+  { table: "portfolio_entries", key: ["user_id"], user: "user_id" },
+  { table: "portfolio_physical_items", key: ["id"], user: "user_id" },
+  { table: "user_release_played_on", key: ["user_id", "hardware_id"], user: "user_id" },
+  { table: "user_memory_titles", key: ["user_id"], user: "user_id" },
+  { table: "list_items", key: ["list_id"], user: "added_by" },
+  { table: "psn_title_progress", key: ["user_id", "np_communication_id"], user: "user_id" },
+  { table: "xbox_title_progress", key: ["user_id", "title_id"], user: "user_id" },
+  { table: "steam_title_progress", key: ["user_id"], user: "user_id" },
+  { table: "gog_title_progress", key: ["user_id", "gog_product_id"], user: "user_id" },
+  { table: "switch_title_progress", key: ["user_id", "title_id"], user: "user_id" },
+  { table: "ra_achievement_cache", key: ["user_id"], user: "user_id" },
+  { table: "library_import_batch_items", key: ["id"], user: "user_id" },
+  { table: "achievement_unlocks", key: ["id"], user: "user_id" },
+  { table: "user_activity_events", key: ["id"], user: "user_id" },
+  { table: "release_editions", key: ["region", "edition_slug"], user: null },
+  { table: "release_notes", key: ["id"], user: null },
+  { table: "game_matches", key: ["id"], user: null },
+];
+
+/** Tables pointing at release_editions(id). Folding a loser edition into the winner's relinks them. */
+export const EDITION_REF_TABLES: { table: string; key: string[]; user: string }[] = [
+  { table: "portfolio_entries", key: ["user_id", "release_id"], user: "user_id" },
+  { table: "portfolio_physical_items", key: ["id"], user: "user_id" },
+];
+
+const SUMMARY_COLS =
+  "id, action, status, actor_kind, actor_id, actor_label, target_type, target_id, subject_ids, affected_user_ids, error, created_at, completed_at, reverted_at, reverted_by, revert_result, affected";
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+export function isCatalogAuditAction(v: unknown): v is CatalogAuditAction {
+  return CATALOG_AUDIT_ACTIONS.includes(v as CatalogAuditAction);
+}
+
+export function pickKey(row: Record<string, unknown>, cols: string[]): Record<string, unknown> {
+  return Object.fromEntries(cols.map((c) => [c, row[c]]));
+}
+
+/** Apply `.eq(col, value)` for every key column. */
+export function whereKey<Q extends { eq(column: string, value: unknown): Q }>(q: Q, key: Record<string, unknown>): Q {
+  let out = q;
+  for (const [col, value] of Object.entries(key)) out = out.eq(col, value);
+  return out;
+}
+
+/** Open an entry. Throws when the log can't be written — callers must not mutate in that case. */
+export async function beginCatalogAudit(
+  admin: SupabaseClient,
+  entry: {
+    action: CatalogAuditAction;
+    actor: CatalogActor;
+    target_type: "release" | "game";
+    target_id: string | null;
+    subject_ids?: string[];
+    before: CatalogAuditEntry["before"];
+  }
+): Promise<string> {
+  const { data, error } = await admin
+    .from("catalog_audit_log")
+    .insert({
+      action: entry.action,
+      status: "pending",
+      actor_kind: entry.actor.kind,
+      actor_id: entry.actor.id,
+      actor_label: entry.actor.label,
+      target_type: entry.target_type,
+      target_id: entry.target_id,
+      subject_ids: entry.subject_ids ?? [],
+      before: entry.before,
+    })
+    .select("id")
+    .single();
+  if (error || !data?.id) throw new Error(`catalog_audit_log insert: ${error?.message ?? "no id returned"}`);
+  return String(data.id);
+}
+
+/** Close an entry. Best effort: the mutation already happened, so a failed close only logs. */
+export async function completeCatalogAudit(
+  admin: SupabaseClient,
+  auditId: string,
+  result: { after?: Record<string, unknown> | null; affected?: CatalogAffectedRow[]; error?: string | null }
+): Promise<void> {
+  const affected = result.affected ?? [];
+  const userIds = [...new Set(affected.map((a) => a.user_id).filter((u): u is string => !!u))];
+  const { error } = await admin
+    .from("catalog_audit_log")
+    .update({
+      status: result.error ? "failed" : "applied",
+      after: result.after ?? null,
+      affected,
+      affected_user_ids: userIds,
+      error: result.error ?? null,
+      completed_at: nowIso(),
+    })
+    .eq("id", auditId);
+  if (error) console.warn(`catalog_audit_log ${auditId} complete: ${error.message}`);
+}
+
+/**
+ * Snapshot the columns a patch is about to overwrite. `cols` must include the key columns.
+ * Used by IGDB pins/overrides: revert writes these values back.
+ */
+export async function snapshotPatchedRows(
+  admin: SupabaseClient,
+  table: string,
+  keyCols: string[],
+  cols: string[],
+  filter: (q: SelectQuery) => SelectQuery
+): Promise<CatalogPatchedRow[]> {
+  const { data, error } = await filter(admin.from(table).select([...new Set([...keyCols, ...cols])].join(", ")));
+  if (error) throw new Error(`${table} snapshot: ${error.message}`);
+  return ((data ?? []) as Record<string, unknown>[]).map((row) => ({ table, key: pickKey(row, keyCols), row }));
+}
+
+export async function listCatalogAudit(
+  admin: SupabaseClient,
+  opts: {
+    action?: CatalogAuditAction | null;
+    user_id?: string | null;
+    target_id?: string | null;
+    cursor?: string | null;
+    limit: number;
+  }
+): Promise<{ items: CatalogAuditSummary[]; next_cursor: string | null; has_more: boolean }> {
+  let q = admin
+    .from("catalog_audit_log")
+    .select(SUMMARY_COLS)
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(opts.limit + 1);
+
+  if (opts.action) q = q.eq("action", opts.action);
+  if (opts.user_id) q = q.contains("affected_user_ids", [opts.user_id]);
+  if (opts.target_id) q = q.or(`target_id.eq.${opts.target_id},subject_ids.cs.{${opts.target_id}}`);
+  if (opts.cursor) {
+    const [at, id] = opts.cursor.split("|");
+    if (at && id) q = q.or(`created_at.lt.${at},and(created_at.eq.${at},id.lt.${id})`);
+  }
+
+  const { data, error } = await q;
+  if (error) throw new Error(`catalog_audit_log: ${error.message}`);
+
+  const rows = (data ?? []) as (Omit<CatalogAuditSummary, "affected_count"> & { affected: unknown })[];
+  const has_more = rows.length > opts.limit;
+  const items: CatalogAuditSummary[] = rows.slice(0, opts.limit).map(({ affected, ...rest }) => ({
+    ...rest,
+    affected_count: Array.isArray(affected) ? affected.length : 0,
+  }));
+  const last = items[items.length - 1];
+  return { items, next_cursor: has_more && last ? `${last.created_at}|${last.id}` : null, has_more };
+}
+
+export async function getCatalogAudit(admin: SupabaseClient, auditId: string): Promise<CatalogAuditEntry | null> {
+  const { data, error } = await admin.from("catalog_audit_log").select("*").eq("id", auditId).maybeSingle();
+  if (error) throw new Error(`catalog_audit_log: ${error.message}`);
+  return (data as CatalogAuditEntry | null) ?? null;
+}
+
+type RevertResult = Record<string, unknown>;
+
+export type CatalogRevertOutcome =
+  | { ok: true; result: RevertResult }
+  | { ok: false; status: number; error: string };
+
+async function revertReleaseMerge(admin: SupabaseClient, e: CatalogAuditEntry): Promise<RevertResult> {
+  const before = e.before as ReleaseMergeBefore;
+  const loserId = String(before.release.id);
+  const winnerId = e.target_id;
+
+  const { error: relErr } = await admin.from("releases").insert(before.release);
+  if (relErr) throw new Error(`releases restore: ${relErr.message}`);
+
+  let externalIds = 0;
+  for (const x of before.external_ids) {
+    const { error } = await admin.from("release_external_ids").upsert(x, { onConflict: "source,external_id" });
+    if (error) throw new Error(`release_external_ids restore: ${error.message}`);
+    externalIds += 1;
+  }
+
+  if (before.enrichment_state) {
+    await admin.from("release_enrichment_state").upsert(before.enrichment_state, { onConflict: "release_id" });
+  }
+
+  let repointed = 0;
+  let reinserted = 0;
+  let relinked = 0;
+  const failures: string[] = [];
+  // Dropped editions come back before the rows that pointed at them are relinked.
+  const ordered = [...e.affected.filter((a) => a.op !== "relinked"), ...e.affected.filter((a) => a.op === "relinked")];
+  for (const a of ordered) {
+    if (a.op === "relinked") {
+      const { error } = await whereKey(admin.from(a.table).update({ [a.column!]: a.from }), a.key).eq(a.column!, a.to);
+      if (error) failures.push(`${a.table} ${JSON.stringify(a.key)}: ${error.message}`);
+      else relinked += 1;
+    } else if (a.op === "moved") {
+      const { error } = await whereKey(admin.from(a.table).update({ release_id: loserId }), a.key).eq("release_id", winnerId);
+      if (error) failures.push(`${a.table} ${JSON.stringify(a.key)}: ${error.message}`);
+      else repointed += 1;
+    } else {
+      const spec = RELEASE_REF_TABLES.find((t) => t.table === a.table);
+      const row = (before.rows[a.table] ?? []).find(
+        (r) => spec && JSON.stringify(pickKey(r, spec.key)) === JSON.stringify(a.key)
+      );
+      if (!row) {
+        failures.push(`${a.table} ${JSON.stringify(a.key)}: no snapshot row`);
+        continue;
+      }
+      const { error } = await admin.from(a.table).insert(row);
+      if (error) failures.push(`${a.table} ${JSON.stringify(a.key)}: ${error.message}`);
+      else reinserted += 1;
+    }
+  }
+
+  let restored = 0;
+  for (const p of before.patched ?? []) {
+    const { error } = await whereKey(admin.from(p.table).update(p.row), p.key);
+    if (error) failures.push(`${p.table} ${JSON.stringify(p.key)}: ${error.message}`);
+    else restored += 1;
+  }
+
+  return { release_id: loserId, external_ids: externalIds, repointed, reinserted, relinked, restored, failures };
+}
+
+async function revertGameMerge(admin: SupabaseClient, e: CatalogAuditEntry): Promise<RevertResult> {
+  const before = e.before as GameMergeBefore;
+  const winnerId = e.target_id;
+  const restored: string[] = [];
+  const igdbCleared: string[] = [];
+
+  for (const g of before.games) {
+    const gameId = String(g.id);
+
+    let { error } = await admin.from("games").insert(g);
+    // games.igdb_game_id is unique; the winner keeps it and the restored game comes back unpinned.
+    if (error && (error as { code?: string }).code === "23505" && g.igdb_game_id != null) {
+      ({ error } = await admin.from("games").insert({ ...g, igdb_game_id: null }));
+      if (!error) igdbCleared.push(gameId);
+    }
+    if (error) throw new Error(`games restore ${gameId}: ${error.message}`);
+    restored.push(gameId);
+  }
+
+  let releases = 0;
+  for (const [loserId, releaseIds] of Object.entries(before.release_ids)) {
+    if (!releaseIds.length) continue;
+    const { error } = await admin
+      .from("releases")
+      .update({ game_id: loserId, updated_at: nowIso() })
+      .in("id", releaseIds)
+      .eq("game_id", winnerId);
+    if (error) throw new Error(`releases repoint: ${error.message}`);
+    releases += releaseIds.length;
+  }
+
+  let externalIds = 0;
+  for (const x of before.game_external_ids) {
+    const { error } = await admin.from("game_external_ids").update({ game_id: x.game_id }).eq("id", x.id);
+    if (!error) externalIds += 1;
+  }
+
+  return { restored_game_ids: restored, igdb_cleared_game_ids: igdbCleared, releases, game_external_ids: externalIds };
+}
+
+async function revertPatch(admin: SupabaseClient, e: CatalogAuditEntry): Promise<RevertResult> {
+  const before = e.before as PatchBefore;
+  let restored = 0;
+  const failures: string[] = [];
+  for (const p of before.rows) {
+    const { error } = await whereKey(admin.from(p.table).update(p.row), p.key);
+    if (error) failures.push(`${p.table} ${JSON.stringify(p.key)}: ${error.message}`);
+    else restored += 1;
+  }
+  // Rows the action created (e.g. a new igdb_match_overrides row) go away again.
+  const created = ((e.after as { created?: CatalogRowRef[] } | null)?.created ?? []) as CatalogRowRef[];
+  let deleted = 0;
+  for (const c of created) {
+    const { error } = await whereKey(admin.from(c.table).delete(), c.key);
+    if (error) failures.push(`${c.table} ${JSON.stringify(c.key)}: ${error.message}`);
+    else deleted += 1;
+  }
+  return { restored, deleted, failures };
+}
+
+/** Ids an entry would recreate that exist again (a later sync re-created them, or a double revert). */
+async function revertConflicts(admin: SupabaseClient, e: CatalogAuditEntry): Promise<string[]> {
+  const table = e.action === "release_merge" ? "releases" : e.action === "game_merge" ? "games" : null;
+  if (!table) return [];
+  const ids =
+    e.action === "release_merge"
+      ? [String((e.before as ReleaseMergeBefore).release.id)]
+      : (e.before as GameMergeBefore).games.map((g) => String(g.id));
+  const { data, error } = await admin.from(table).select("id").in("id", ids);
+  if (error) throw new Error(`${table} lookup: ${error.message}`);
+  return ((data ?? []) as { id: string }[]).map((r) => String(r.id));
+}
+
+/**
+ * Undo an applied entry. Entries that can't be reverted come back as { ok: false, status };
+ * failures on individual user rows are listed in the result instead of aborting the revert.
+ */
+export async function revertCatalogAudit(admin: SupabaseClient, auditId: string, actor: CatalogActor): Promise<CatalogRevertOutcome> {
+  const e = await getCatalogAudit(admin, auditId);
+  if (!e) return { ok: false, status: 404, error: "Audit entry not found" };
+  if (e.status !== "applied") return { ok: false, status: 409, error: `Cannot revert a ${e.status} entry` };
+
+  const conflicts = await revertConflicts(admin, e);
+  if (conflicts.length) return { ok: false, status: 409, error: `Already exists again: ${conflicts.join(", ")}` };
+
+  let result: RevertResult;
+  if (e.action === "release_merge") result = await revertReleaseMerge(admin, e);
+  else if (e.action === "game_merge") result = await revertGameMerge(admin, e);
+  else result = await revertPatch(admin, e);
+
+  const { error } = await admin
+    .from("catalog_audit_log")
+    .update({ status: "reverted", reverted_at: nowIso(), reverted_by: actor.id, revert_result: result })
+    .eq("id", auditId);
+  if (error) throw new Error(`catalog_audit_log update: ${error.message}`);
+
+  return { ok: true, result };
+}
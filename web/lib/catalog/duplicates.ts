@@ -0,0 +1,799 @@
+/**
+ * Scheduled duplicate detection for games and releases (/api/cron/catalog-duplicates).
+ *
+ * Release pairs are only considered on the same platform_key and are scored from four signals: same
+ * game_id, games sharing an igdb_game_id, release_external_ids that are the same id once normalized
+ * ("CUSA00001_00" vs "cusa00001-00") and near-identical normalized titles. Game pairs are games rows
+ * with the same igdb_game_id. A pair is *safe* when an id signal agrees, the titles agree and no
+ * source maps the two to different external ids. Auto-merge is off unless the run asks for it
+ * (max_auto_merges); then safe pairs are merged through mergeReleaseInto / mergeGamesInto (audited,
+ * revertable), except release pairs whose loser has rows in REVIEW_BEFORE_MERGE_TABLES. Everything
+ * else goes to catalog_duplicate_candidates for /admin/duplicate-review with a report of the users
+ * each merge would touch.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { mergeReleaseInto } from "@/lib/merge-release-into";
+import { mergeGamesInto } from "@/lib/merge-games-into";
+import { RELEASE_REF_TABLES, type CatalogActor } from "@/lib/catalog/audit";
+
+export type DuplicateKind = "release" | "game";
+export type DuplicateStatus = "pending" | "auto_merged" | "merged" | "dismissed" | "stale";
+
+export type DuplicateReleaseRow = {
+  id: string;
+  game_id: string | null;
+  platform_key: string | null;
+  display_title: string | null;
+  cover_url: string | null;
+  game_title: string | null;
+  igdb_game_id: number | null;
+  external_ids: Array<{ source: string; external_id: string }>;
+};
+
+export type DuplicateGameRow = {
+  id: string;
+  canonical_title: string | null;
+  igdb_game_id: number | null;
+  cover_url: string | null;
+  release_count: number;
+};
+
+export type DuplicateSignals = {
+  same_game: boolean;
+  same_igdb: boolean;
+  /** "source:normalized id" present on both sides. */
+  shared_external_ids: string[];
+  /** Sources where the two map to *different* external ids (two real products, e.g. demo vs full game). */
+  conflicting_sources: string[];
+  title_similarity: number;
+  titles: [string, string];
+  merge_error?: string;
+  /** Tables where the loser release has rows that need a reviewer before merging (see REVIEW_BEFORE_MERGE_TABLES). */
+  review_tables?: string[];
+};
+
+export type DuplicatePair = {
+  kind: DuplicateKind;
+  a_id: string;
+  b_id: string;
+  score: number;
+  safe: boolean;
+  signals: DuplicateSignals;
+  suggested_winner_id: string;
+};
+
+export type DuplicateImpact = {
+  user_count: number;
+  /** Users with rows on both sides: the merge keeps the winner's row and drops theirs from the loser. */
+  collisions: number;
+  users: Array<{ user_id: string; a: string[]; b: string[] }>;
+};
+
+/** Title-only pairs below this are not worth a reviewer's time. */
+export const TITLE_ONLY_MIN_SIMILARITY = 0.9;
+/** Titles must agree at least this much for an id-backed pair to auto-merge. */
+export const SAFE_TITLE_SIMILARITY = 0.8;
+export const SAFE_MIN_SCORE = 0.9;
+/** Blocks bigger than this (e.g. 300 "untitled" releases) are skipped rather than compared pairwise. */
+const MAX_BLOCK = 40;
+const PAGE = 1000;
+
+type SelectQuery = ReturnType<ReturnType<SupabaseClient["from"]>["select"]>;
+const IN_CHUNK = 200;
+const IMPACT_USERS_MAX = 50;
+
+/**
+ * User-curated rows (and editions) that a release merge folds or drops on conflict. A safe release
+ * pair whose loser has any of these is queued for review instead of auto-merged.
+ */
+export const REVIEW_BEFORE_MERGE_TABLES = [
+  "list_items",
+  "portfolio_physical_items",
+  "user_memory_titles",
+  "user_release_played_on",
+  "release_editions",
+] as const;
+
+export const DETECTOR_ACTOR: CatalogActor = { kind: "system", id: null, label: "/api/cron/catalog-duplicates" };
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+function chunks<T>(arr: T[], size = IN_CHUNK): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < arr.length; i += size) out.push(arr.slice(i, i + size));
+  return out;
+}
+
+/** Lowercase, no trademark signs, bracketed tags or punctuation: "DOOM® (PS4)" → "doom". */
+export function normalizeDuplicateTitle(s: string | null | undefined): string {
+  return String(s ?? "")
+    .toLowerCase()
+    .replace(/™|®|©/g, "")
+    .replace(/\([^)]*\)|\[[^\]]*\]/g, " ")
+    .replace(/&/g, " and ")
+    .replace(/['’]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function bigrams(s: string): Map<string, number> {
+  const m = new Map<string, number>();
+  for (let i = 0; i < s.length - 1; i++) {
+    const g = s.slice(i, i + 2);
+    m.set(g, (m.get(g) ?? 0) + 1);
+  }
+  return m;
+}
+
+/** Dice coefficient over character bigrams of the normalized titles (1 = identical). */
+export function titleSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+  const x = normalizeDuplicateTitle(a);
+  const y = normalizeDuplicateTitle(b);
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+  if (x.length < 2 || y.length < 2) return 0;
+  const bx = bigrams(x);
+  const by = bigrams(y);
+  let overlap = 0;
+  for (const [g, n] of bx) overlap += Math.min(n, by.get(g) ?? 0);
+  return (2 * overlap) / (x.length - 1 + (y.length - 1));
+}
+
+export function normalizeExternalId(id: string): string {
+  return String(id ?? "").toLowerCase().replace(/[^a-z0-9]+/g, "");
+}
+
+function round(n: number) {
+  return Math.round(n * 1000) / 1000;
+}
+
+function orderPair<T extends { id: string }>(x: T, y: T): [T, T] {
+  return x.id < y.id ? [x, y] : [y, x];
+}
+
+function releaseTitle(r: DuplicateReleaseRow) {
+  return r.display_title || r.game_title || "";
+}
+
+function releaseRank(r: DuplicateReleaseRow) {
+  return (r.igdb_game_id != null ? 1000 : 0) + (r.cover_url ? 100 : 0) + Math.min(r.external_ids.length, 9);
+}
+
+/**
+ * Score one release pair. Null when they can't be duplicates (different platforms, or nothing but
+ * a title resemblance below TITLE_ONLY_MIN_SIMILARITY).
+ */
+export function scoreReleasePair(x: DuplicateReleaseRow, y: DuplicateReleaseRow): DuplicatePair | null {
+  if (x.id === y.id || !x.platform_key || x.platform_key !== y.platform_key) return null;
+  const [a, b] = orderPair(x, y);
+
+  const same_game = !!a.game_id && a.game_id === b.game_id;
+  const same_igdb = a.igdb_game_id != null && a.igdb_game_id === b.igdb_game_id;
+
+  const bySource = (r: DuplicateReleaseRow) => {
+    const m = new Map<string, Set<string>>();
+    for (const e of r.external_ids) {
+      const id = normalizeExternalId(e.external_id);
+      if (!id) continue;
+      if (!m.has(e.source)) m.set(e.source, new Set());
+      m.get(e.source)!.add(id);
+    }
+    return m;
+  };
+  const ea = bySource(a);
+  const eb = bySource(b);
+  const shared_external_ids: string[] = [];
+  const conflicting_sources: string[] = [];
+  for (const [source, ids] of ea) {
+    const other = eb.get(source);
+    if (!other) continue;
+    const common = Array.from(ids).filter((id) => other.has(id));
+    if (common.length) shared_external_ids.push(...common.map((id) => `${source}:${id}`));
+    else conflicting_sources.push(source);
+  }
+
+  const sim = titleSimilarity(releaseTitle(a), releaseTitle(b));
+  const identity = shared_external_ids.length || same_game ? 1 : same_igdb ? 0.9 : 0;
+  if (!identity && sim < TITLE_ONLY_MIN_SIMILARITY) return null;
+
+  // Id-backed pairs start at 0.7 and climb with title agreement; title-only pairs top out at 0.75.
+  let score = identity ? 0.7 + 0.3 * sim * identity : 0.75 * sim;
+  if (conflicting_sources.length) score -= 0.25;
+  score = round(Math.max(0, Math.min(1, score)));
+
+  const safe = identity > 0 && sim >= SAFE_TITLE_SIMILARITY && !conflicting_sources.length && score >= SAFE_MIN_SCORE;
+  const winner = releaseRank(b) > releaseRank(a) ? b : a;
+
+  return {
+    kind: "release",
+    a_id: a.id,
+    b_id: b.id,
+    score,
+    safe,
+    signals: {
+      same_game,
+      same_igdb,
+      shared_external_ids,
+      conflicting_sources,
+      title_similarity: round(sim),
+      titles: [releaseTitle(a), releaseTitle(b)],
+    },
+    suggested_winner_id: winner.id,
+  };
+}
+
+/** Two games rows with the same igdb_game_id. Safe unless the titles disagree (one is a bad match). */
+export function scoreGamePair(x: DuplicateGameRow, y: DuplicateGameRow): DuplicatePair | null {
+  if (x.id === y.id || x.igdb_game_id == null || x.igdb_game_id !== y.igdb_game_id) return null;
+  const [a, b] = orderPair(x, y);
+  const sim = titleSimilarity(a.canonical_title, b.canonical_title);
+  const score = round(0.7 + 0.3 * sim);
+  const rank = (g: DuplicateGameRow) => g.release_count * 1000 + (g.cover_url ? 100 : 0);
+  return {
+    kind: "game",
+    a_id: a.id,
+    b_id: b.id,
+    score,
+    safe: sim >= SAFE_TITLE_SIMILARITY && score >= SAFE_MIN_SCORE,
+    signals: {
+      same_game: false,
+      same_igdb: true,
+      shared_external_ids: [],
+      conflicting_sources: [],
+      title_similarity: round(sim),
+      titles: [a.canonical_title ?? "", b.canonical_title ?? ""],
+    },
+    suggested_winner_id: rank(b) > rank(a) ? b.id : a.id,
+  };
+}
+
+/**
+ * Candidate release pairs: releases are blocked by platform + (game, IGDB id, normalized external id,
+ * first two title words) and only compared within a block, best score first.
+ */
+export function findReleaseDuplicatePairs(rows: DuplicateReleaseRow[]): DuplicatePair[] {
+  const blocks = new Map<string, DuplicateReleaseRow[]>();
+  const add = (key: string, r: DuplicateReleaseRow) => {
+    if (!blocks.has(key)) blocks.set(key, []);
+    blocks.get(key)!.push(r);
+  };
+  for (const r of rows) {
+    if (!r.platform_key) continue;
+    const p = r.platform_key;
+    if (r.game_id) add(`${p}|game:${r.game_id}`, r);
+    if (r.igdb_game_id != null) add(`${p}|igdb:${r.igdb_game_id}`, r);
+    for (const e of r.external_ids) {
+      const id = normalizeExternalId(e.external_id);
+      if (id) add(`${p}|ext:${e.source}:${id}`, r);
+    }
+    const words = normalizeDuplicateTitle(releaseTitle(r)).split(" ").filter(Boolean);
+    if (words.length) add(`${p}|title:${words.slice(0, 2).join(" ")}`, r);
+  }
+
+  const seen = new Set<string>();
+  const out: DuplicatePair[] = [];
+  for (const members of blocks.values()) {
+    if (members.length < 2 || members.length > MAX_BLOCK) continue;
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const [a, b] = orderPair(members[i], members[j]);
+        const key = `${a.id}|${b.id}`;
+        if (a.id === b.id || seen.has(key)) continue;
+        seen.add(key);
+        const pair = scoreReleasePair(a, b);
+        if (pair) out.push(pair);
+      }
+    }
+  }
+  return out.sort((x, y) => y.score - x.score);
+}
+
+export function findGameDuplicatePairs(rows: DuplicateGameRow[]): DuplicatePair[] {
+  const byIgdb = new Map<number, DuplicateGameRow[]>();
+  for (const g of rows) {
+    if (g.igdb_game_id == null) continue;
+    if (!byIgdb.has(g.igdb_game_id)) byIgdb.set(g.igdb_game_id, []);
+    byIgdb.get(g.igdb_game_id)!.push(g);
+  }
+  const out: DuplicatePair[] = [];
+  for (const group of byIgdb.values()) {
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        const pair = scoreGamePair(group[i], group[j]);
+        if (pair) out.push(pair);
+      }
+    }
+  }
+  return out.sort((x, y) => y.score - x.score);
+}
+
+/** Which users have rows on each side. usersByRelease: release_id → user_id → tables. */
+export function buildDuplicateImpact(
+  aReleaseIds: string[],
+  bReleaseIds: string[],
+  usersByRelease: Map<string, Map<string, Set<string>>>
+): DuplicateImpact {
+  const side = (ids: string[]) => {
+    const m = new Map<string, Set<string>>();
+    for (const id of ids) {
+      for (const [userId, tables] of usersByRelease.get(id) ?? []) {
+        if (!m.has(userId)) m.set(userId, new Set());
+        for (const t of tables) m.get(userId)!.add(t);
+      }
+    }
+    return m;
+  };
+  const a = side(aReleaseIds);
+  const b = side(bReleaseIds);
+  const userIds = Array.from(new Set([...a.keys(), ...b.keys()])).sort();
+  const users = userIds.map((user_id) => ({
+    user_id,
+    a: Array.from(a.get(user_id) ?? []).sort(),
+    b: Array.from(b.get(user_id) ?? []).sort(),
+  }));
+  return {
+    user_count: users.length,
+    collisions: users.filter((u) => u.a.length && u.b.length).length,
+    users: users.slice(0, IMPACT_USERS_MAX),
+  };
+}
+
+async function loadUsersByRelease(admin: SupabaseClient, releaseIds: string[]) {
+  const out = new Map<string, Map<string, Set<string>>>();
+  const ids = Array.from(new Set(releaseIds));
+  for (const { table, user } of RELEASE_REF_TABLES) {
+    if (!user) continue;
+    for (const part of chunks(ids)) {
+      const { data, error } = await admin
+        .from(table)
+        .select<string, Record<string, string | null>>(`release_id, ${user}`)
+        .in("release_id", part);
+      if (error) throw new Error(`${table}: ${error.message}`);
+      for (const r of data ?? []) {
+        const userId = r[user];
+        if (!userId || !r.release_id) continue;
+        if (!out.has(r.release_id)) out.set(r.release_id, new Map());
+        const users = out.get(r.release_id)!;
+        if (!users.has(userId)) users.set(userId, new Set());
+        users.get(userId)!.add(table);
+      }
+    }
+  }
+  return out;
+}
+
+async function loadAll<T = Record<string, unknown>>(
+  admin: SupabaseClient,
+  table: string,
+  columns: string,
+  filter?: (q: SelectQuery) => SelectQuery
+): Promise<T[]> {
+  const out: T[] = [];
+  for (let from = 0; ; from += PAGE) {
+    let q: SelectQuery = admin
+      .from(table)
+      .select<string, unknown>(columns)
+      .order("id", { ascending: true })
+      .range(from, from + PAGE - 1);
+    if (filter) q = filter(q);
+    const { data, error } = await q;
+    if (error) throw new Error(`${table}: ${error.message}`);
+    out.push(...((data ?? []) as T[]));
+    if ((data ?? []).length < PAGE) return out;
+  }
+}
+
+export async function loadDuplicateReleaseRows(admin: SupabaseClient): Promise<DuplicateReleaseRow[]> {
+  const releases = await loadAll<{
+    id: string;
+    game_id: string | null;
+    platform_key: string | null;
+    display_title: string | null;
+    cover_url: string | null;
+    games: { canonical_title: string | null; igdb_game_id: number | null } | null;
+  }>(
+    admin,
+    "releases",
+    "id, game_id, platform_key, display_title, cover_url, games(canonical_title, igdb_game_id)"
+  );
+  const ext = await loadAll(admin, "release_external_ids", "id, release_id, source, external_id");
+  const extByRelease = new Map<string, Array<{ source: string; external_id: string }>>();
+  for (const e of ext) {
+    const id = String(e.release_id);
+    if (!extByRelease.has(id)) extByRelease.set(id, []);
+    extByRelease.get(id)!.push({ source: String(e.source), external_id: String(e.external_id) });
+  }
+  return releases.map((r) => ({
+    id: String(r.id),
+    game_id: r.game_id ? String(r.game_id) : null,
+    platform_key: r.platform_key ?? null,
+    display_title: r.display_title ?? null,
+    cover_url: r.cover_url ?? null,
+    game_title: r.games?.canonical_title ?? null,
+    igdb_game_id: r.games?.igdb_game_id != null ? Number(r.games.igdb_game_id) : null,
+    external_ids: extByRelease.get(String(r.id)) ?? [],
+  }));
+}
+
+export async function loadDuplicateGameRows(admin: SupabaseClient, releases: DuplicateReleaseRow[]): Promise<DuplicateGameRow[]> {
+  const games = await loadAll<{ id: string; canonical_title: string | null; igdb_game_id: number; cover_url: string | null }>(
+    admin,
+    "games",
+    "id, canonical_title, igdb_game_id, cover_url",
+    (q) => q.not("igdb_game_id", "is", null)
+  );
+  const counts = new Map<string, number>();
+  for (const r of releases) if (r.game_id) counts.set(r.game_id, (counts.get(r.game_id) ?? 0) + 1);
+  return games.map((g) => ({
+    id: String(g.id),
+    canonical_title: g.canonical_title ?? null,
+    igdb_game_id: Number(g.igdb_game_id),
+    cover_url: g.cover_url ?? null,
+    release_count: counts.get(String(g.id)) ?? 0,
+  }));
+}
+
+/** REVIEW_BEFORE_MERGE_TABLES that have rows for the release. */
+async function loadReviewTables(admin: SupabaseClient, releaseId: string): Promise<string[]> {
+  const out: string[] = [];
+  for (const table of REVIEW_BEFORE_MERGE_TABLES) {
+    const { count, error } = await admin
+      .from(table)
+      .select("release_id", { count: "exact", head: true })
+      .eq("release_id", releaseId);
+    if (error) throw new Error(`${table}: ${error.message}`);
+    if ((count ?? 0) > 0) out.push(table);
+  }
+  return out;
+}
+
+export type DuplicateRunResult = {
+  dry_run: boolean;
+  scanned_releases: number;
+  scanned_games: number;
+  pairs: number;
+  auto_merged: number;
+  /** Safe pairs sent to review because the loser has user-curated rows. */
+  held_for_review: number;
+  queued: number;
+  skipped_dismissed: number;
+  stale: number;
+  failed: Array<{ kind: DuplicateKind; a_id: string; b_id: string; error: string }>;
+  preview?: DuplicatePair[];
+};
+
+/**
+ * Detect, auto-merge safe pairs (at most maxAutoMerges per run, none by default) and queue the rest.
+ * Pairs an admin dismissed stay dismissed; pending pairs not found again are marked stale.
+ */
+export async function runDuplicateDetection(
+  admin: SupabaseClient,
+  opts: { dry_run?: boolean; max_auto_merges?: number; max_queue?: number } = {}
+): Promise<DuplicateRunResult> {
+  const dryRun = opts.dry_run ?? false;
+  const maxAutoMerges = opts.max_auto_merges ?? 0;
+  const maxQueue = opts.max_queue ?? 500;
+  const startedAt = nowIso();
+
+  const releases = await loadDuplicateReleaseRows(admin);
+  const games = await loadDuplicateGameRows(admin, releases);
+  // Game merges first: they fold releases together, which can settle release pairs on their own.
+  const pairs = [...findGameDuplicatePairs(games), ...findReleaseDuplicatePairs(releases)];
+
+  const result: DuplicateRunResult = {
+    dry_run: dryRun,
+    scanned_releases: releases.length,
+    scanned_games: games.length,
+    pairs: pairs.length,
+    auto_merged: 0,
+    held_for_review: 0,
+    queued: 0,
+    skipped_dismissed: 0,
+    stale: 0,
+    failed: [],
+  };
+  if (dryRun) {
+    result.preview = pairs.slice(0, 100);
+    return result;
+  }
+
+  const { data: dismissedRows, error: dErr } = await admin
+    .from("catalog_duplicate_candidates")
+    .select("kind, a_id, b_id")
+    .eq("status", "dismissed");
+  if (dErr) throw new Error(`catalog_duplicate_candidates: ${dErr.message}`);
+  const dismissed = new Set(((dismissedRows ?? []) as { kind: string; a_id: string; b_id: string }[]).map((r) => `${r.kind}|${r.a_id}|${r.b_id}`));
+
+  const gone = new Set<string>();
+  const toQueue: DuplicatePair[] = [];
+  for (const pair of pairs) {
+    if (gone.has(pair.a_id) || gone.has(pair.b_id)) continue;
+    if (dismissed.has(`${pair.kind}|${pair.a_id}|${pair.b_id}`)) {
+      result.skipped_dismissed += 1;
+      continue;
+    }
+    if (!pair.safe || result.auto_merged >= maxAutoMerges) {
+      toQueue.push(pair);
+      continue;
+    }
+
+    const loser = pair.suggested_winner_id === pair.a_id ? pair.b_id : pair.a_id;
+    if (pair.kind === "release") {
+      const reviewTables = await loadReviewTables(admin, loser);
+      if (reviewTables.length) {
+        result.held_for_review += 1;
+        toQueue.push({ ...pair, signals: { ...pair.signals, review_tables: reviewTables } });
+        continue;
+      }
+    }
+    const merged =
+      pair.kind === "release"
+        ? await mergeReleaseInto(admin, pair.suggested_winner_id, loser, DETECTOR_ACTOR)
+        : await mergeGamesInto(admin, pair.suggested_winner_id, [loser], DETECTOR_ACTOR);
+    if (!merged.ok) {
+      result.failed.push({ kind: pair.kind, a_id: pair.a_id, b_id: pair.b_id, error: merged.error });
+      toQueue.push({ ...pair, signals: { ...pair.signals, merge_error: merged.error } });
+      continue;
+    }
+    gone.add(loser);
+    result.auto_merged += 1;
+    const { error } = await admin.from("catalog_duplicate_candidates").upsert(
+      {
+        kind: pair.kind,
+        a_id: pair.a_id,
+        b_id: pair.b_id,
+        score: pair.score,
+        signals: pair.signals,
+        suggested_winner_id: pair.suggested_winner_id,
+        status: "auto_merged",
+        audit_id: merged.audit_id,
+        last_seen_at: nowIso(),
+        resolved_at: nowIso(),
+      },
+      { onConflict: "kind,a_id,b_id" }
+    );
+    if (error) throw new Error(`catalog_duplicate_candidates: ${error.message}`);
+  }
+
+  const open = toQueue.filter((p) => !gone.has(p.a_id) && !gone.has(p.b_id));
+  const queue = open.slice(0, maxQueue);
+  if (queue.length) {
+    const releasesByGame = new Map<string, string[]>();
+    for (const r of releases) {
+      if (!r.game_id) continue;
+      if (!releasesByGame.has(r.game_id)) releasesByGame.set(r.game_id, []);
+      releasesByGame.get(r.game_id)!.push(r.id);
+    }
+    const sideReleases = (kind: DuplicateKind, id: string) => (kind === "release" ? [id] : releasesByGame.get(id) ?? []);
+    const usersByRelease = await loadUsersByRelease(
+      admin,
+      queue.flatMap((p) => [...sideReleases(p.kind, p.a_id), ...sideReleases(p.kind, p.b_id)])
+    );
+
+    const rows = queue.map((p) => ({
+      kind: p.kind,
+      a_id: p.a_id,
+      b_id: p.b_id,
+      score: p.score,
+      signals: p.signals,
+      suggested_winner_id: p.suggested_winner_id,
+      impact: buildDuplicateImpact(sideReleases(p.kind, p.a_id), sideReleases(p.kind, p.b_id), usersByRelease),
+      status: "pending",
+      last_seen_at: nowIso(),
+    }));
+    for (const part of chunks(rows)) {
+      const { error } = await admin.from("catalog_duplicate_candidates").upsert(part, { onConflict: "kind,a_id,b_id" });
+      if (error) throw new Error(`catalog_duplicate_candidates: ${error.message}`);
+    }
+    result.queued = rows.length;
+  }
+
+  // A full scan that didn't find a pending pair again means it was fixed some other way.
+  if (open.length <= maxQueue) {
+    const { data: staleRows, error } = await admin
+      .from("catalog_duplicate_candidates")
+      .update({ status: "stale", resolved_at: nowIso() })
+      .eq("status", "pending")
+      .lt("last_seen_at", startedAt)
+      .select("id");
+    if (error) throw new Error(`catalog_duplicate_candidates: ${error.message}`);
+    result.stale = (staleRows ?? []).length;
+  }
+
+  return result;
+}
+
+export type DuplicateSide = {
+  id: string;
+  title: string | null;
+  platform_key: string | null;
+  igdb_game_id: number | null;
+  cover_url: string | null;
+};
+
+export type DuplicateQueueItem = {
+  id: string;
+  kind: DuplicateKind;
+  score: number;
+  signals: DuplicateSignals;
+  suggested_winner_id: string | null;
+  impact: DuplicateImpact;
+  detected_at: string;
+  last_seen_at: string;
+  a: DuplicateSide | null;
+  b: DuplicateSide | null;
+};
+
+export type DuplicateQueuePage = {
+  items: DuplicateQueueItem[];
+  next_cursor: string | null;
+  has_more: boolean;
+};
+
+const QUEUE_COLS = "id, kind, a_id, b_id, score, signals, suggested_winner_id, impact, status, detected_at, last_seen_at";
+
+/** A catalog_duplicate_candidates row as QUEUE_COLS selects it. */
+type DuplicateCandidateRow = {
+  id: string;
+  kind: DuplicateKind;
+  a_id: string;
+  b_id: string;
+  score: number;
+  signals: unknown;
+  suggested_winner_id: string | null;
+  impact: unknown;
+  status: DuplicateStatus;
+  detected_at: string;
+  last_seen_at: string;
+};
+
+type SideReleaseRow = {
+  id: string;
+  display_title: string | null;
+  platform_key: string | null;
+  cover_url: string | null;
+  games: { igdb_game_id: number | null } | null;
+};
+
+async function loadSides(admin: SupabaseClient, kind: DuplicateKind, ids: string[]): Promise<Map<string, DuplicateSide>> {
+  const out = new Map<string, DuplicateSide>();
+  for (const part of chunks(Array.from(new Set(ids)))) {
+    if (kind === "release") {
+      const { data, error } = await admin
+        .from("releases")
+        .select<string, SideReleaseRow>("id, display_title, platform_key, cover_url, games(igdb_game_id)")
+        .in("id", part);
+      if (error) throw new Error(`releases: ${error.message}`);
+      for (const r of data ?? []) {
+        out.set(String(r.id), {
+          id: String(r.id),
+          title: r.display_title ?? null,
+          platform_key: r.platform_key ?? null,
+          igdb_game_id: r.games?.igdb_game_id ?? null,
+          cover_url: r.cover_url ?? null,
+        });
+      }
+    } else {
+      const { data, error } = await admin.from("games").select("id, canonical_title, igdb_game_id, cover_url").in("id", part);
+      if (error) throw new Error(`games: ${error.message}`);
+      for (const g of data ?? []) {
+        out.set(String(g.id), {
+          id: String(g.id),
+          title: g.canonical_title ?? null,
+          platform_key: null,
+          igdb_game_id: g.igdb_game_id ?? null,
+          cover_url: g.cover_url ?? null,
+        });
+      }
+    }
+  }
+  return out;
+}
+
+/** Pending pairs, best score first. A side that was deleted since detection comes back null. */
+export async function listDuplicateQueue(
+  admin: SupabaseClient,
+  opts: { kind?: DuplicateKind | null; cursor?: string | null; limit: number }
+): Promise<DuplicateQueuePage> {
+  let q = admin
+    .from("catalog_duplicate_candidates")
+    .select(QUEUE_COLS)
+    .eq("status", "pending")
+    .order("score", { ascending: false })
+    .order("id", { ascending: true })
+    .limit(opts.limit + 1);
+  if (opts.kind) q = q.eq("kind", opts.kind);
+  if (opts.cursor) {
+    const [score, id] = opts.cursor.split("|");
+    if (id && Number.isFinite(Number(score))) {
+      q = q.or(`score.lt.${Number(score)},and(score.eq.${Number(score)},id.gt.${id})`);
+    }
+  }
+  const { data, error } = await q;
+  if (error) throw new Error(`catalog_duplicate_candidates: ${error.message}`);
+
+  const rows = (data ?? []) as DuplicateCandidateRow[];
+  const has_more = rows.length > opts.limit;
+  const page = rows.slice(0, opts.limit);
+  const last = page[page.length - 1];
+
+  const sides = {
+    release: await loadSides(admin, "release", page.filter((r) => r.kind === "release").flatMap((r) => [r.a_id, r.b_id])),
+    game: await loadSides(admin, "game", page.filter((r) => r.kind === "game").flatMap((r) => [r.a_id, r.b_id])),
+  };
+
+  return {
+    items: page.map((r) => ({
+      id: String(r.id),
+      kind: r.kind as DuplicateKind,
+      score: Number(r.score),
+      signals: r.signals as DuplicateSignals,
+      suggested_winner_id: r.suggested_winner_id ?? null,
+      impact: (r.impact ?? { user_count: 0, collisions: 0, users: [] }) as DuplicateImpact,
+      detected_at: r.detected_at,
+      last_seen_at: r.last_seen_at,
+      a: sides[r.kind as DuplicateKind].get(String(r.a_id)) ?? null,
+      b: sides[r.kind as DuplicateKind].get(String(r.b_id)) ?? null,
+    })),
+    next_cursor: has_more && last ? `${Number(last.score)}|${last.id}` : null,
+    has_more,
+  };
+}
+
+export type DuplicateDecisionOutcome =
+  | { ok: true; status: DuplicateStatus; audit_id: string | null }
+  | { ok: false; status: number; error: string };
+
+/** Merge a queued pair into the chosen side (default: the suggested winner) or dismiss it for good. */
+export async function resolveDuplicateCandidate(
+  admin: SupabaseClient,
+  candidateId: string,
+  decision: { action: "merge"; winner_id?: string | null } | { action: "dismiss" },
+  actor: CatalogActor
+): Promise<DuplicateDecisionOutcome> {
+  const { data: row, error } = await admin.from("catalog_duplicate_candidates").select(QUEUE_COLS).eq("id", candidateId).maybeSingle();
+  if (error) throw new Error(`catalog_duplicate_candidates: ${error.message}`);
+  if (!row) return { ok: false, status: 404, error: "Duplicate candidate not found" };
+  if (row.status !== "pending") return { ok: false, status: 409, error: `Candidate is already ${row.status}` };
+
+  const resolved = { resolved_at: nowIso(), resolved_by: actor.id };
+  if (decision.action === "dismiss") {
+    const { error: upErr } = await admin
+      .from("catalog_duplicate_candidates")
+      .update({ status: "dismissed", ...resolved })
+      .eq("id", candidateId);
+    if (upErr) throw new Error(`catalog_duplicate_candidates: ${upErr.message}`);
+    return { ok: true, status: "dismissed", audit_id: null };
+  }
+
+  const winner = decision.winner_id || row.suggested_winner_id || row.a_id;
+  if (winner !== row.a_id && winner !== row.b_id) {
+    return { ok: false, status: 400, error: "winner_id must be one of the pair" };
+  }
+  const loser = winner === row.a_id ? row.b_id : row.a_id;
+  const merged =
+    row.kind === "release"
+      ? await mergeReleaseInto(admin, winner, loser, actor)
+      : await mergeGamesInto(admin, winner, [loser], actor);
+  if (!merged.ok) return { ok: false, status: 500, error: merged.error };
+
+  const { error: upErr } = await admin
+    .from("catalog_duplicate_candidates")
+    .update({ status: "merged", audit_id: merged.audit_id, suggested_winner_id: winner, ...resolved })
+    .eq("id", candidateId);
+  if (upErr) throw new Error(`catalog_duplicate_candidates: ${upErr.message}`);
+
+  // Other pending pairs with the loser can't be merged any more.
+  await admin
+    .from("catalog_duplicate_candidates")
+    .update({ status: "stale", resolved_at: nowIso() })
+    .eq("status", "pending")
+    .eq("kind", row.kind)
+    .or(`a_id.eq.${loser},b_id.eq.${loser}`);
+
+  return { ok: true, status: "merged", audit_id: merged.audit_id };
+}
@@ -0,0 +1,414 @@
+/**
+ * release_editions: regional/retail variants of a release (region, edition name, product codes, barcodes).
+ *
+ * Input is whatever a collector types or scans ("NA", "Player's Choice", "slus 00594", a UPC), so
+ * everything goes through the normalizers here before it touches the table. An edition is identified
+ * by any of its barcodes or product codes first, then by (release_id, region, edition_slug); a new
+ * code for a known edition is merged into it instead of creating a duplicate.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export const EDITION_REGIONS = ["NTSC-U", "PAL", "NTSC-J", "NTSC-K", "NTSC-C", "region_free", "unknown"] as const;
+export type EditionRegion = (typeof EDITION_REGIONS)[number];
+
+export const EDITION_KINDS = ["standard", "collectors", "limited", "special", "budget_reprint", "bundle", "other"] as const;
+export type EditionKind = (typeof EDITION_KINDS)[number];
+
+/** Kinds a variant hunter goes out of their way for. */
+export const SPECIAL_EDITION_KINDS: EditionKind[] = ["collectors", "limited", "special"];
+
+export const EDITION_REGION_LABEL: Record<EditionRegion, string> = {
+  "NTSC-U": "North America (NTSC-U)",
+  PAL: "Europe / Australia (PAL)",
+  "NTSC-J": "Japan (NTSC-J)",
+  "NTSC-K": "Korea (NTSC-K)",
+  "NTSC-C": "China / Asia (NTSC-C)",
+  region_free: "Region free",
+  unknown: "Unknown region",
+};
+
+export type ReleaseEdition = {
+  id: string;
+  release_id: string;
+  region: EditionRegion;
+  edition_name: string;
+  edition_slug: string;
+  edition_kind: EditionKind;
+  product_codes: string[];
+  barcodes: string[];
+  released_on: string | null;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export const RELEASE_EDITION_COLUMNS =
+  "id, release_id, region, edition_name, edition_slug, edition_kind, product_codes, barcodes, released_on, notes, created_by, created_at, updated_at";
+
+type Db = Pick<SupabaseClient, "from">;
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+const REGION_ALIASES: Record<string, EditionRegion> = {
+  "ntsc-u": "NTSC-U",
+  "ntscu": "NTSC-U",
+  "ntsc-us": "NTSC-U",
+  ntsc: "NTSC-U",
+  na: "NTSC-U",
+  us: "NTSC-U",
+  usa: "NTSC-U",
+  "north america": "NTSC-U",
+  canada: "NTSC-U",
+  pal: "PAL",
+  "pal-e": "PAL",
+  eu: "PAL",
+  eur: "PAL",
+  europe: "PAL",
+  uk: "PAL",
+  au: "PAL",
+  aus: "PAL",
+  australia: "PAL",
+  "ntsc-j": "NTSC-J",
+  ntscj: "NTSC-J",
+  jp: "NTSC-J",
+  jpn: "NTSC-J",
+  japan: "NTSC-J",
+  "ntsc-k": "NTSC-K",
+  kr: "NTSC-K",
+  kor: "NTSC-K",
+  korea: "NTSC-K",
+  "ntsc-c": "NTSC-C",
+  cn: "NTSC-C",
+  chn: "NTSC-C",
+  china: "NTSC-C",
+  asia: "NTSC-C",
+  hk: "NTSC-C",
+  "region free": "region_free",
+  "region-free": "region_free",
+  region_free: "region_free",
+  world: "region_free",
+};
+
+/** "NA", "usa", "ntsc u" → "NTSC-U"; null when it's not a region we know. */
+export function normalizeEditionRegion(input: unknown): EditionRegion | null {
+  const raw = typeof input === "string" ? input.trim().toLowerCase().replace(/[_\s]+/g, " ") : "";
+  if (!raw) return null;
+  const dashed = raw.replace(/^ntsc ([ujkc])$/, "ntsc-$1").replace(/^pal ([e])$/, "pal-$1");
+  if (REGION_ALIASES[dashed]) return REGION_ALIASES[dashed];
+  if ((EDITION_REGIONS as readonly string[]).includes(input as string)) return input as EditionRegion;
+  return null;
+}
+
+/** Sony disc serial prefixes (PS1/PS2/PSP) and Nintendo cartridge suffixes by region. */
+const SONY_PREFIX_REGION: Record<string, EditionRegion> = {
+  SLUS: "NTSC-U",
+  SCUS: "NTSC-U",
+  SLES: "PAL",
+  SCES: "PAL",
+  SCED: "PAL",
+  SLPS: "NTSC-J",
+  SLPM: "NTSC-J",
+  SCPS: "NTSC-J",
+  SCAJ: "NTSC-J",
+  SLKA: "NTSC-K",
+  SCKA: "NTSC-K",
+  ULUS: "NTSC-U",
+  UCUS: "NTSC-U",
+  ULES: "PAL",
+  UCES: "PAL",
+  ULJM: "NTSC-J",
+  ULJS: "NTSC-J",
+  UCJS: "NTSC-J",
+};
+
+const NINTENDO_SUFFIX_REGION: Record<string, EditionRegion> = {
+  USA: "NTSC-U",
+  CAN: "NTSC-U",
+  EUR: "PAL",
+  UKV: "PAL",
+  NOE: "PAL",
+  FRA: "PAL",
+  FRG: "PAL",
+  ESP: "PAL",
+  ITA: "PAL",
+  HOL: "PAL",
+  SCN: "PAL",
+  AUS: "PAL",
+  JPN: "NTSC-J",
+  KOR: "NTSC-K",
+  CHN: "NTSC-C",
+};
+
+/** "slus 00594" → "SLUS-00594"; uppercases and collapses separators. */
+export function normalizeProductCode(input: unknown): string | null {
+  const raw = typeof input === "string" ? input.trim().toUpperCase() : "";
+  if (!raw) return null;
+  const s = raw.replace(/[\s_.]+/g, "-").replace(/-+/g, "-").replace(/^-|-$/g, "");
+  const sony = s.match(/^([A-Z]{4})-?(\d{3})-?(\d{2})$/) ?? s.match(/^([A-Z]{4})-?(\d{5})$/);
+  if (sony) return `${sony[1]}-${sony.slice(2).join("")}`;
+  return s || null;
+}
+
+/** Region implied by a product code, when its format carries one. */
+export function regionFromProductCode(code: string): EditionRegion | null {
+  const c = normalizeProductCode(code);
+  if (!c) return null;
+  const sony = SONY_PREFIX_REGION[c.slice(0, 4)];
+  if (sony && /^[A-Z]{4}-\d{5}$/.test(c)) return sony;
+  const suffix = c.match(/-([A-Z]{3})(?:-\d+)?$/);
+  if (suffix && NINTENDO_SUFFIX_REGION[suffix[1]]) return NINTENDO_SUFFIX_REGION[suffix[1]];
+  return null;
+}
+
+/** Digits only; null unless it's a UPC-A (12), EAN-13 or EAN-8 with a valid check digit. */
+export function normalizeBarcode(input: unknown): string | null {
+  const digits = String(input ?? "").replace(/\D/g, "");
+  if (![8, 12, 13].includes(digits.length)) return null;
+  const body = digits.slice(0, -1);
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    // Weights 3,1,3,... from the digit next to the check digit.
+    const w = (body.length - i) % 2 === 1 ? 3 : 1;
+    sum += Number(body[i]) * w;
+  }
+  const check = (10 - (sum % 10)) % 10;
+  return check === Number(digits[digits.length - 1]) ? digits : null;
+}
+
+const EDITION_KIND_PATTERNS: Array<[RegExp, EditionKind]> = [
+  [/collector'?s?|premium|ultimate box/i, "collectors"],
+  [/limited|numbered|first print|launch edition/i, "limited"],
+  [/player'?s'? choice|greatest hits|platinum|nintendo selects|essentials|big hits|best of|the best|classics|budget/i, "budget_reprint"],
+  [/bundle|pack-?in|combo/i, "bundle"],
+  [/special|deluxe|steelbook|anniversary|signature|gold|game of the year|goty/i, "special"],
+  [/^(standard|regular|normal|original)?( edition)?$/i, "standard"],
+];
+
+/** "collector's ed." → { edition_name: "Collector's Ed.", edition_slug: "collectors-ed", edition_kind: "collectors" } */
+export function normalizeEdition(input: unknown, kindHint?: unknown): {
+  edition_name: string;
+  edition_slug: string;
+  edition_kind: EditionKind;
+} {
+  const name = typeof input === "string" ? input.trim().replace(/\s+/g, " ") : "";
+  const edition_name = name || "Standard";
+  const edition_slug =
+    edition_name
+      .toLowerCase()
+      .replace(/['’]/g, "")
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "standard";
+  const hinted = typeof kindHint === "string" && (EDITION_KINDS as readonly string[]).includes(kindHint) ? (kindHint as EditionKind) : null;
+  const matched = EDITION_KIND_PATTERNS.find(([re]) => re.test(edition_name))?.[1];
+  return { edition_name, edition_slug, edition_kind: hinted ?? matched ?? "other" };
+}
+
+export type ReleaseEditionInput = {
+  release_id: string;
+  region?: unknown;
+  edition_name?: unknown;
+  edition_kind?: unknown;
+  product_codes?: unknown;
+  barcodes?: unknown;
+  released_on?: unknown;
+  notes?: unknown;
+};
+
+export type NormalizedEdition = {
+  release_id: string;
+  region: EditionRegion;
+  edition_name: string;
+  edition_slug: string;
+  edition_kind: EditionKind;
+  product_codes: string[];
+  barcodes: string[];
+  released_on: string | null;
+  notes: string | null;
+};
+
+function asList(v: unknown): unknown[] {
+  if (Array.isArray(v)) return v;
+  if (typeof v === "string") return v.split(/[,;\n]+/);
+  return v == null ? [] : [v];
+}
+
+/**
+ * Normalize user input into an edition row. Region falls back to what the product codes imply.
+ * Returns the reasons it was rejected instead (bad barcode, conflicting regions).
+ */
+export function normalizeEditionInput(
+  input: ReleaseEditionInput
+): { ok: true; edition: NormalizedEdition } | { ok: false; errors: string[] } {
+  const errors: string[] = [];
+  const release_id = String(input.release_id ?? "").trim();
+  if (!release_id) errors.push("release_id is required");
+
+  const product_codes = Array.from(
+    new Set(asList(input.product_codes).map(normalizeProductCode).filter((c): c is string => c != null))
+  );
+  const barcodes: string[] = [];
+  for (const raw of asList(input.barcodes)) {
+    if (String(raw ?? "").trim() === "") continue;
+    const b = normalizeBarcode(raw);
+    if (b) barcodes.push(b);
+    else errors.push(`invalid barcode: ${String(raw).trim()}`);
+  }
+
+  const codeRegions = Array.from(new Set(product_codes.map(regionFromProductCode).filter((r): r is EditionRegion => r != null)));
+  const given = input.region != null && String(input.region).trim() !== "" ? normalizeEditionRegion(input.region) : null;
+  if (input.region != null && String(input.region).trim() !== "" && !given) errors.push(`unknown region: ${String(input.region)}`);
+  if (codeRegions.length > 1) errors.push(`product codes disagree on region: ${codeRegions.join(", ")}`);
+  if (given && codeRegions.length === 1 && codeRegions[0] !== given && given !== "region_free") {
+    errors.push(`region ${given} does not match product code region ${codeRegions[0]}`);
+  }
+
+  const releasedRaw = input.released_on != null ? String(input.released_on).trim() : "";
+  const released_on = /^\d{4}-\d{2}-\d{2}$/.test(releasedRaw) ? releasedRaw : null;
+  if (releasedRaw && !released_on) errors.push("released_on must be YYYY-MM-DD");
+
+  if (errors.length) return { ok: false, errors };
+  return {
+    ok: true,
+    edition: {
+      release_id,
+      region: given ?? codeRegions[0] ?? "unknown",
+      ...normalizeEdition(input.edition_name, input.edition_kind),
+      product_codes,
+      barcodes: Array.from(new Set(barcodes)),
+      released_on,
+      notes: input.notes != null && String(input.notes).trim() ? String(input.notes).trim() : null,
+    },
+  };
+}
+
+/** An edition by barcode or product code (exact, normalized). */
+export async function findEditionByCode(db: Db, code: string): Promise<ReleaseEdition | null> {
+  const barcode = normalizeBarcode(code);
+  const productCode = normalizeProductCode(code);
+  const column = barcode ? "barcodes" : "product_codes";
+  const value = barcode ?? productCode;
+  if (!value) return null;
+  const { data, error } = await db
+    .from("release_editions")
+    .select(RELEASE_EDITION_COLUMNS)
+    .contains(column, [value])
+    .limit(1);
+  if (error) throw new Error(`release_editions: ${error.message}`);
+  return ((data ?? [])[0] as ReleaseEdition | undefined) ?? null;
+}
+
+export async function listReleaseEditions(db: Db, releaseId: string): Promise<ReleaseEdition[]> {
+  const { data, error } = await db
+    .from("release_editions")
+    .select(RELEASE_EDITION_COLUMNS)
+    .eq("release_id", releaseId)
+    .order("region", { ascending: true })
+    .order("edition_slug", { ascending: true });
+  if (error) throw new Error(`release_editions: ${error.message}`);
+  return (data ?? []) as ReleaseEdition[];
+}
+
+export type UpsertEditionResult =
+  | { ok: true; edition: ReleaseEdition; created: boolean }
+  | { ok: false; error: string; status: 400 | 409 };
+
+/**
+ * Create an edition or merge new codes into the one it already is. A code that belongs to an edition
+ * of a different release is a conflict (the scan is for another game).
+ */
+export async function upsertReleaseEdition(
+  admin: Db,
+  input: ReleaseEditionInput,
+  createdBy: string | null
+): Promise<UpsertEditionResult> {
+  const norm = normalizeEditionInput(input);
+  if (!norm.ok) return { ok: false, error: norm.errors.join("; "), status: 400 };
+  const e = norm.edition;
+
+  let existing: ReleaseEdition | null = null;
+  for (const code of [...e.barcodes, ...e.product_codes]) {
+    const hit = await findEditionByCode(admin, code);
+    if (!hit) continue;
+    if (hit.release_id !== e.release_id) {
+      return { ok: false, error: `${code} already belongs to an edition of another release (${hit.release_id})`, status: 409 };
+    }
+    existing = hit;
+    break;
+  }
+  if (!existing) {
+    const { data, error } = await admin
+      .from("release_editions")
+      .select(RELEASE_EDITION_COLUMNS)
+      .eq("release_id", e.release_id)
+      .eq("region", e.region)
+      .eq("edition_slug", e.edition_slug)
+      .maybeSingle();
+    if (error) throw new Error(`release_editions: ${error.message}`);
+    existing = (data as ReleaseEdition | null) ?? null;
+  }
+
+  if (existing) {
+    const patch = {
+      product_codes: Array.from(new Set([...(existing.product_codes ?? []), ...e.product_codes])),
+      barcodes: Array.from(new Set([...(existing.barcodes ?? []), ...e.barcodes])),
+      released_on: existing.released_on ?? e.released_on,
+      notes: existing.notes ?? e.notes,
+      updated_at: nowIso(),
+    };
+    const { data, error } = await admin
+      .from("release_editions")
+      .update(patch)
+      .eq("id", existing.id)
+      .select(RELEASE_EDITION_COLUMNS)
+      .single();
+    if (error) throw new Error(`release_editions: ${error.message}`);
+    return { ok: true, edition: data as ReleaseEdition, created: false };
+  }
+
+  const { data, error } = await admin
+    .from("release_editions")
+    .insert({ ...e, created_by: createdBy, updated_at: nowIso() })
+    .select(RELEASE_EDITION_COLUMNS)
+    .single();
+  if (error) throw new Error(`release_editions: ${error.message}`);
+  return { ok: true, edition: data as ReleaseEdition, created: true };
+}
+
+export type EditionMergePlan = {
+  /** Loser editions the winner already has (same region + edition_slug), with the winner's merged values. */
+  pairs: {
+    loser: ReleaseEdition;
+    winner: ReleaseEdition;
+    patch: Pick<ReleaseEdition, "product_codes" | "barcodes" | "released_on" | "notes">;
+  }[];
+  /** Loser editions the winner lacks: they move to the winner release as they are. */
+  moves: ReleaseEdition[];
+};
+
+/** How a release merge folds the loser's editions into the winner's (codes merged like upsertReleaseEdition). */
+export function planEditionMerge(loser: ReleaseEdition[], winner: ReleaseEdition[]): EditionMergePlan {
+  const byIdentity = new Map(winner.map((w) => [`${w.region}|${w.edition_slug}`, w]));
+  const plan: EditionMergePlan = { pairs: [], moves: [] };
+  for (const l of loser) {
+    const w = byIdentity.get(`${l.region}|${l.edition_slug}`);
+    if (!w) {
+      plan.moves.push(l);
+      continue;
+    }
+    plan.pairs.push({
+      loser: l,
+      winner: w,
+      patch: {
+        product_codes: Array.from(new Set([...(w.product_codes ?? []), ...(l.product_codes ?? [])])),
+        barcodes: Array.from(new Set([...(w.barcodes ?? []), ...(l.barcodes ?? [])])),
+        released_on: w.released_on ?? l.released_on,
+        notes: w.notes ?? l.notes,
+      },
+    });
+  }
+  return plan;
+}
@@ -0,0 +1,478 @@
+/**
+ * Game lineage in game_relations: remakes, remasters and ports of an older game, sequels, and series
+ * membership, plus the game_series registry of each series' mainline entries.
+ *
+ * Written during IGDB enrichment (upsertGameIgdbFirst, the matcher, pin-igdb and the relations backfill)
+ * from the hit's category/parent_game, its remakes/remasters/ports lists and its collections (franchises
+ * when it has none). Rows always point from the newer game to the older one; the original may not be in
+ * the catalog, so its IGDB id, title and year are stored and related_game_id is linked once it arrives.
+ * Read by /api/releases/[id], identity series progress and era bucketing (getUserStats).
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { igdbFetchGameById, igdbFetchSeriesMainline, type IgdbHit, type IgdbSeriesEntry, type IgdbSeriesRef } from "@/lib/igdb/server";
+
+export const LINEAGE_RELATIONS = ["remake_of", "remaster_of", "port_of", "sequel_of", "part_of_series"] as const;
+export type LineageRelation = (typeof LINEAGE_RELATIONS)[number];
+
+/** A newer version of the same game; era bucketing can follow the original for these. */
+export const NEW_VERSION_RELATIONS = ["remake_of", "remaster_of"] as const;
+
+/** Owning any of these counts as having played the original's series entry. */
+export const SERIES_CREDIT_RELATIONS = ["remake_of", "remaster_of", "port_of"] as const;
+
+/** IGDB category → relation to parent_game. */
+const CATEGORY_RELATION: Record<number, LineageRelation> = { 8: "remake_of", 9: "remaster_of", 11: "port_of" };
+
+/** game_series rows older than this are refetched from IGDB. */
+export const SERIES_REFRESH_DAYS = 7;
+
+const IN_CHUNK = 200;
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+function chunks<T>(arr: T[], size = IN_CHUNK): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < arr.length; i += size) out.push(arr.slice(i, i + size));
+  return out;
+}
+
+type Db = Pick<SupabaseClient, "from">;
+
+export type SeriesKind = "collection" | "franchise";
+
+export type GameSeriesRow = {
+  series_key: string;
+  kind: SeriesKind;
+  igdb_id: number;
+  name: string;
+  slug: string | null;
+  mainline_games: IgdbSeriesEntry[];
+  fetched_at: string | null;
+};
+
+export type GameRelationRow = {
+  game_id: string;
+  relation: LineageRelation;
+  target_key: string;
+  related_game_id: string | null;
+  related_igdb_game_id: number | null;
+  related_title: string | null;
+  related_first_release_year: number | null;
+  series_key: string | null;
+  source: "igdb" | "derived";
+};
+
+/** Title/year of an IGDB game the relation points at, when known. */
+export type RelatedGameInfo = { title: string | null; first_release_year: number | null };
+
+export function seriesKey(kind: SeriesKind, igdbId: number): string {
+  return `igdb_${kind}:${igdbId}`;
+}
+
+/** Series a hit belongs to: its IGDB collections, else its franchises (franchises are broader). */
+export function seriesRefsForHit(hit: IgdbHit): Array<{ kind: SeriesKind; ref: IgdbSeriesRef }> {
+  if (hit.collections?.length) return hit.collections.map((ref) => ({ kind: "collection" as const, ref }));
+  return (hit.franchises ?? []).map((ref) => ({ kind: "franchise" as const, ref }));
+}
+
+function seriesEntry(series: GameSeriesRow[], igdbGameId: number): IgdbSeriesEntry | null {
+  for (const s of series) {
+    const e = s.mainline_games.find((m) => m.igdb_game_id === igdbGameId);
+    if (e) return e;
+  }
+  return null;
+}
+
+function toGameRelation(
+  gameId: string,
+  relation: LineageRelation,
+  related: { igdb_game_id: number } & RelatedGameInfo,
+  source: GameRelationRow["source"]
+): GameRelationRow {
+  return {
+    game_id: gameId,
+    relation,
+    target_key: `igdb:${related.igdb_game_id}`,
+    related_game_id: null,
+    related_igdb_game_id: related.igdb_game_id,
+    related_title: related.title,
+    related_first_release_year: related.first_release_year,
+    series_key: null,
+    source,
+  };
+}
+
+/**
+ * Relations of one game from its IGDB hit and the game_series rows of its series. `original` is the
+ * parent game's title/year when the caller looked it up (falls back to the series lists).
+ * sequel_of = previous mainline entry of the same series; only main games (category 0) get one.
+ */
+export function deriveGameRelations(
+  gameId: string,
+  hit: IgdbHit,
+  series: GameSeriesRow[],
+  original?: RelatedGameInfo | null
+): GameRelationRow[] {
+  const out = new Map<string, GameRelationRow>();
+  const add = (r: GameRelationRow) => {
+    if (!out.has(`${r.relation}|${r.target_key}`)) out.set(`${r.relation}|${r.target_key}`, r);
+  };
+
+  const relation = hit.category != null ? CATEGORY_RELATION[Number(hit.category)] : undefined;
+  if (relation && hit.parent_game_id != null && hit.parent_game_id !== hit.igdb_game_id) {
+    const known = original ?? seriesEntry(series, hit.parent_game_id);
+    add(
+      toGameRelation(
+        gameId,
+        relation,
+        {
+          igdb_game_id: hit.parent_game_id,
+          title: known?.title ?? null,
+          first_release_year: known?.first_release_year ?? null,
+        },
+        "igdb"
+      )
+    );
+  }
+
+  for (const s of series) {
+    add({
+      game_id: gameId,
+      relation: "part_of_series",
+      target_key: `series:${s.series_key}`,
+      related_game_id: null,
+      related_igdb_game_id: null,
+      related_title: s.name,
+      related_first_release_year: null,
+      series_key: s.series_key,
+      source: "igdb",
+    });
+    const idx = s.mainline_games.findIndex((m) => m.igdb_game_id === hit.igdb_game_id);
+    if (idx > 0 && (hit.category == null || Number(hit.category) === 0)) {
+      add(toGameRelation(gameId, "sequel_of", s.mainline_games[idx - 1], "derived"));
+    }
+  }
+  return Array.from(out.values());
+}
+
+/**
+ * Rows for catalog games listed in the original's remakes/remasters/ports (enriching the original
+ * first, or games whose own hit lacks parent_game). `versions` are catalog games by IGDB id.
+ */
+export function deriveVersionRelations(
+  original: IgdbHit,
+  versions: Array<{ id: string; igdb_game_id: number }>
+): GameRelationRow[] {
+  const lists: Array<[LineageRelation, number[] | undefined]> = [
+    ["remake_of", original.remake_ids],
+    ["remaster_of", original.remaster_ids],
+    ["port_of", original.port_ids],
+  ];
+  const out: GameRelationRow[] = [];
+  for (const [relation, ids] of lists) {
+    for (const v of versions) {
+      if (!ids?.includes(v.igdb_game_id)) continue;
+      out.push(
+        toGameRelation(
+          v.id,
+          relation,
+          { igdb_game_id: original.igdb_game_id, title: original.title, first_release_year: original.first_release_year },
+          "igdb"
+        )
+      );
+    }
+  }
+  return out;
+}
+
+/** Load game_series rows for the hit's series, fetching missing or stale ones from IGDB. */
+export async function ensureGameSeries(
+  admin: Db,
+  refs: Array<{ kind: SeriesKind; ref: IgdbSeriesRef }>,
+  opts?: { maxAgeDays?: number }
+): Promise<GameSeriesRow[]> {
+  if (!refs.length) return [];
+  const keys = refs.map((r) => seriesKey(r.kind, r.ref.igdb_id));
+  const { data, error } = await admin
+    .from("game_series")
+    .select("series_key, kind, igdb_id, name, slug, mainline_games, fetched_at")
+    .in("series_key", keys);
+  if (error) throw new Error(`game_series: ${error.message}`);
+
+  const byKey = new Map<string, GameSeriesRow>(((data ?? []) as GameSeriesRow[]).map((r) => [r.series_key, r]));
+  const cutoff = Date.now() - (opts?.maxAgeDays ?? SERIES_REFRESH_DAYS) * 24 * 60 * 60 * 1000;
+
+  for (const { kind, ref } of refs) {
+    const key = seriesKey(kind, ref.igdb_id);
+    const cur = byKey.get(key);
+    if (cur?.fetched_at && new Date(cur.fetched_at).getTime() >= cutoff) continue;
+
+    const fetched = await igdbFetchSeriesMainline(kind, ref.igdb_id);
+    if (!fetched && cur) continue;
+    const row: GameSeriesRow = {
+      series_key: key,
+      kind,
+      igdb_id: ref.igdb_id,
+      name: fetched?.name ?? ref.name,
+      slug: fetched?.slug ?? ref.slug,
+      mainline_games: fetched?.mainline ?? [],
+      fetched_at: fetched ? nowIso() : null,
+    };
+    const { error: upErr } = await admin.from("game_series").upsert({ ...row, updated_at: nowIso() }, { onConflict: "series_key" });
+    if (upErr) throw new Error(`game_series: ${upErr.message}`);
+    byKey.set(key, row);
+  }
+  return keys.map((k) => byKey.get(k)).filter((r): r is GameSeriesRow => r != null);
+}
+
+export type RecordGameRelationsResult = { written: number; series: string[] };
+
+/**
+ * Replace a game's IGDB/derived relations from its hit, add rows for catalog games that are
+ * remakes/remasters/ports of it, and link rows that were waiting for this game to enter the catalog.
+ * Curated ('related') rows are never touched.
+ */
+export async function recordGameRelations(admin: Db, gameId: string, hit: IgdbHit): Promise<RecordGameRelationsResult> {
+  const series = await ensureGameSeries(admin, seriesRefsForHit(hit));
+
+  let original: RelatedGameInfo | null = null;
+  const relation = hit.category != null ? CATEGORY_RELATION[Number(hit.category)] : undefined;
+  if (relation && hit.parent_game_id != null && !seriesEntry(series, hit.parent_game_id)) {
+    const { data: parentRow } = await admin
+      .from("games")
+      .select("canonical_title, first_release_year")
+      .eq("igdb_game_id", hit.parent_game_id)
+      .maybeSingle();
+    if (parentRow) {
+      original = { title: parentRow.canonical_title ?? null, first_release_year: parentRow.first_release_year ?? null };
+    } else {
+      const parentHit = await igdbFetchGameById(hit.parent_game_id);
+      if (parentHit) original = { title: parentHit.title, first_release_year: parentHit.first_release_year };
+    }
+  }
+
+  const versionIds = [...(hit.remake_ids ?? []), ...(hit.remaster_ids ?? []), ...(hit.port_ids ?? [])];
+  const versions: Array<{ id: string; igdb_game_id: number }> = [];
+  for (const part of chunks(versionIds)) {
+    const { data, error } = await admin.from("games").select("id, igdb_game_id").in("igdb_game_id", part);
+    if (error) throw new Error(`games: ${error.message}`);
+    for (const g of data ?? []) versions.push({ id: String(g.id), igdb_game_id: Number(g.igdb_game_id) });
+  }
+
+  const rows = [...deriveGameRelations(gameId, hit, series, original), ...deriveVersionRelations(hit, versions)];
+
+  const relatedIgdbIds = Array.from(new Set(rows.map((r) => r.related_igdb_game_id).filter((n): n is number => n != null)));
+  const gameIdByIgdb = new Map<number, string>();
+  for (const part of chunks(relatedIgdbIds)) {
+    const { data, error } = await admin.from("games").select("id, igdb_game_id").in("igdb_game_id", part);
+    if (error) throw new Error(`games: ${error.message}`);
+    for (const g of data ?? []) gameIdByIgdb.set(Number(g.igdb_game_id), String(g.id));
+  }
+  for (const r of rows) {
+    if (r.related_igdb_game_id != null) r.related_game_id = gameIdByIgdb.get(r.related_igdb_game_id) ?? null;
+  }
+
+  const { error: delErr } = await admin
+    .from("game_relations")
+    .delete()
+    .eq("game_id", gameId)
+    .in("source", ["igdb", "derived"]);
+  if (delErr) throw new Error(`game_relations: ${delErr.message}`);
+
+  if (rows.length) {
+    const now = nowIso();
+    const { error: upErr } = await admin
+      .from("game_relations")
+      .upsert(
+        rows.map((r) => ({ ...r, updated_at: now })),
+        { onConflict: "game_id,relation,target_key" }
+      );
+    if (upErr) throw new Error(`game_relations: ${upErr.message}`);
+  }
+
+  const { error: linkErr } = await admin
+    .from("game_relations")
+    .update({ related_game_id: gameId, updated_at: nowIso() })
+    .eq("related_igdb_game_id", hit.igdb_game_id)
+    .is("related_game_id", null);
+  if (linkErr) throw new Error(`game_relations: ${linkErr.message}`);
+
+  return { written: rows.length, series: series.map((s) => s.series_key) };
+}
+
+/** Enrichment wrapper: lineage is best-effort and must never fail the match that triggered it. */
+export async function recordGameRelationsBestEffort(
+  admin: Db,
+  gameId: string,
+  hit: IgdbHit | null | undefined
+): Promise<RecordGameRelationsResult | null> {
+  if (!hit?.igdb_game_id) return null;
+  try {
+    return await recordGameRelations(admin, gameId, hit);
+  } catch (e: unknown) {
+    console.warn("[game_relations] record failed:", gameId, e instanceof Error ? e.message : String(e));
+    return null;
+  }
+}
+
+/**
+ * game id → the original's first_release_year, for games that are remakes/remasters of an older
+ * game. Used when a user counts remakes in the original's era.
+ */
+export async function originalReleaseYears(db: Db, gameIds: string[]): Promise<Map<string, number>> {
+  const out = new Map<string, number>();
+  for (const part of chunks(Array.from(new Set(gameIds)))) {
+    const { data, error } = await db
+      .from("game_relations")
+      .select("game_id, related_first_release_year")
+      .in("game_id", part)
+      .in("relation", [...NEW_VERSION_RELATIONS])
+      .not("related_first_release_year", "is", null);
+    if (error) throw new Error(`game_relations: ${error.message}`);
+    for (const r of data ?? []) {
+      const y = Number(r.related_first_release_year);
+      const cur = out.get(String(r.game_id));
+      if (Number.isFinite(y) && (cur == null || y < cur)) out.set(String(r.game_id), y);
+    }
+  }
+  return out;
+}
+
+export type LineageLink = {
+  relation: LineageRelation;
+  game_id: string | null;
+  igdb_game_id: number | null;
+  title: string | null;
+  first_release_year: number | null;
+  /** A release of the linked game, preferring the viewer's platform, for /release/[id] links. */
+  release_id: string | null;
+};
+
+export type LineageSeries = {
+  series_key: string;
+  name: string;
+  mainline: Array<IgdbSeriesEntry & { game_id: string | null; release_id: string | null; is_current: boolean }>;
+};
+
+export type GameLineage = {
+  /** What this game is a remake/remaster/port/sequel of. */
+  derived_from: LineageLink[];
+  /** Catalog games that are remakes/remasters/ports/sequels of this one. */
+  followed_by: LineageLink[];
+  series: LineageSeries[];
+};
+
+/** Everything /release/[id] shows about a game's lineage. Empty when the game has no typed relations. */
+export async function loadGameLineage(
+  db: Db,
+  gameId: string,
+  opts?: { igdbGameId?: number | null; platformKey?: string | null }
+): Promise<GameLineage> {
+  const lineage: GameLineage = { derived_from: [], followed_by: [], series: [] };
+
+  const [outRes, inRes] = await Promise.all([
+    db
+      .from("game_relations")
+      .select("relation, related_game_id, related_igdb_game_id, related_title, related_first_release_year, series_key")
+      .eq("game_id", gameId)
+      .neq("relation", "related"),
+    db
+      .from("game_relations")
+      .select("relation, game_id, games:game_id(canonical_title, first_release_year, igdb_game_id)")
+      .eq("related_game_id", gameId)
+      .neq("relation", "related")
+      .neq("relation", "part_of_series"),
+  ]);
+  if (outRes.error) throw new Error(`game_relations: ${outRes.error.message}`);
+  if (inRes.error) throw new Error(`game_relations: ${inRes.error.message}`);
+
+  const seriesKeys: string[] = [];
+  for (const r of outRes.data ?? []) {
+    if (r.relation === "part_of_series") {
+      if (r.series_key) seriesKeys.push(String(r.series_key));
+      continue;
+    }
+    lineage.derived_from.push({
+      relation: r.relation,
+      game_id: r.related_game_id ?? null,
+      igdb_game_id: r.related_igdb_game_id != null ? Number(r.related_igdb_game_id) : null,
+      title: r.related_title ?? null,
+      first_release_year: r.related_first_release_year ?? null,
+      release_id: null,
+    });
+  }
+  for (const r of inRes.data ?? []) {
+    const g = (Array.isArray(r.games) ? r.games[0] : r.games) ?? null;
+    lineage.followed_by.push({
+      relation: r.relation,
+      game_id: String(r.game_id),
+      igdb_game_id: g?.igdb_game_id != null ? Number(g.igdb_game_id) : null,
+      title: g?.canonical_title ?? null,
+      first_release_year: g?.first_release_year ?? null,
+      release_id: null,
+    });
+  }
+
+  if (seriesKeys.length) {
+    const { data: seriesRows, error } = await db
+      .from("game_series")
+      .select("series_key, name, mainline_games")
+      .in("series_key", seriesKeys);
+    if (error) throw new Error(`game_series: ${error.message}`);
+
+    const mainlineIds = Array.from(
+      new Set(
+        (seriesRows ?? []).flatMap((s) =>
+          (Array.isArray(s.mainline_games) ? s.mainline_games : []).map((m: IgdbSeriesEntry) => Number(m.igdb_game_id))
+        )
+      )
+    );
+    const gameIdByIgdb = new Map<number, string>();
+    for (const part of chunks(mainlineIds)) {
+      const { data } = await db.from("games").select("id, igdb_game_id").in("igdb_game_id", part);
+      for (const g of data ?? []) gameIdByIgdb.set(Number(g.igdb_game_id), String(g.id));
+    }
+    for (const s of seriesRows ?? []) {
+      const mainline = (Array.isArray(s.mainline_games) ? s.mainline_games : []) as IgdbSeriesEntry[];
+      lineage.series.push({
+        series_key: String(s.series_key),
+        name: String(s.name),
+        mainline: mainline.map((m) => {
+          const gid = gameIdByIgdb.get(Number(m.igdb_game_id)) ?? null;
+          return {
+            ...m,
+            game_id: gid,
+            release_id: null,
+            is_current: gid === gameId || (opts?.igdbGameId != null && Number(m.igdb_game_id) === Number(opts.igdbGameId)),
+          };
+        }),
+      });
+    }
+  }
+
+  // Link each catalog game to one of its releases, preferring the viewer's platform.
+  const linked = [
+    ...lineage.derived_from,
+    ...lineage.followed_by,
+    ...lineage.series.flatMap((s) => s.mainline.filter((m) => !m.is_current)),
+  ].filter((l) => l.game_id != null);
+  const releaseByGame = new Map<string, string>();
+  for (const part of chunks(Array.from(new Set(linked.map((l) => l.game_id as string))))) {
+    const { data } = await db
+      .from("releases")
+      .select("id, game_id, platform_key")
+      .in("game_id", part)
+      .order("created_at", { ascending: true });
+    for (const r of data ?? []) {
+      const gid = String(r.game_id);
+      if (!releaseByGame.has(gid) || (opts?.platformKey && r.platform_key === opts.platformKey)) {
+        releaseByGame.set(gid, String(r.id));
+      }
+    }
+  }
+  for (const l of linked) l.release_id = releaseByGame.get(l.game_id as string) ?? null;
+
+  return lineage;
+}
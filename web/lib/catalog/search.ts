@@ -0,0 +1,177 @@
+/**
+ * Catalog search: fuzzy release lookup for /add and /add-games.
+ *
+ * The catalog_search RPC (sql/2026-03-07_catalog_search.sql) returns up to MAX_CANDIDATES scored
+ * releases for the query — trigram similarity on release and canonical titles, acronyms ("ff7")
+ * and game_title_aliases spellings. Filters, facets and cursor pages are applied here over that
+ * candidate set, so facet counts always describe the same ranking the pages walk through.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ListResponse } from "@/src/core/types/pagination";
+import { inferEraFromYear, type EraKey } from "@/lib/insights/user-stats";
+
+export const MAX_CANDIDATES = 500;
+export const MIN_QUERY_LENGTH = 2;
+
+export type CatalogSearchItem = {
+  id: string;
+  release_id: string;
+  game_id: string | null;
+  display_title: string;
+  title: string;
+  platform_key: string | null;
+  platform_name: string | null;
+  cover_url: string | null;
+  year: number | null;
+  first_release_year: number | null;
+  era: EraKey;
+  score: number;
+  matched_via: "title" | "canonical" | "acronym" | "alias";
+};
+
+/** One row of the catalog_search RPC. */
+type CatalogSearchRow = {
+  release_id: string;
+  game_id: string | null;
+  display_title: string | null;
+  platform_key: string | null;
+  platform_name: string | null;
+  cover_url: string | null;
+  first_release_year: number | null;
+  release_year: number | null;
+  score: number | null;
+  matched_via: CatalogSearchItem["matched_via"] | null;
+};
+
+export type CatalogSearchFilters = {
+  platforms?: string[];
+  era?: EraKey | null;
+  year_min?: number | null;
+  year_max?: number | null;
+};
+
+export type CatalogFacet = { key: string; count: number };
+
+export type CatalogSearchResponse = ListResponse<CatalogSearchItem> & {
+  total: number;
+  facets: { platforms: CatalogFacet[]; eras: CatalogFacet[] };
+};
+
+const ERA_KEYS: EraKey[] = ["early", "nes", "snes", "ps1", "ps2", "ps3_360", "wii", "modern", "unknown"];
+
+export function isEraKey(v: unknown): v is EraKey {
+  return ERA_KEYS.includes(v as EraKey);
+}
+
+function toItem(r: CatalogSearchRow): CatalogSearchItem {
+  const year = r.first_release_year ?? r.release_year ?? null;
+  return {
+    id: String(r.release_id),
+    release_id: String(r.release_id),
+    game_id: r.game_id ? String(r.game_id) : null,
+    display_title: String(r.display_title ?? "Untitled"),
+    title: String(r.display_title ?? "Untitled"),
+    platform_key: r.platform_key ?? null,
+    platform_name: r.platform_name ?? null,
+    cover_url: r.cover_url ?? null,
+    year,
+    first_release_year: r.first_release_year ?? null,
+    era: inferEraFromYear(year),
+    score: Number(r.score ?? 0),
+    matched_via: r.matched_via ?? "title",
+  };
+}
+
+function matchesPlatform(it: CatalogSearchItem, f: CatalogSearchFilters) {
+  return !f.platforms?.length || (it.platform_key != null && f.platforms.includes(it.platform_key));
+}
+
+function matchesEra(it: CatalogSearchItem, f: CatalogSearchFilters) {
+  return !f.era || it.era === f.era;
+}
+
+function matchesYear(it: CatalogSearchItem, f: CatalogSearchFilters) {
+  if (f.year_min == null && f.year_max == null) return true;
+  if (it.year == null) return false;
+  if (f.year_min != null && it.year < f.year_min) return false;
+  if (f.year_max != null && it.year > f.year_max) return false;
+  return true;
+}
+
+/** Counts per value; each facet ignores its own filter so the other options stay visible. */
+function facetCounts(items: CatalogSearchItem[], key: (it: CatalogSearchItem) => string | null): CatalogFacet[] {
+  const counts = new Map<string, number>();
+  for (const it of items) {
+    const k = key(it);
+    if (k) counts.set(k, (counts.get(k) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([k, count]) => ({ key: k, count }))
+    .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key));
+}
+
+/** Cursor = "<score>|<release_id>" of the last item on the previous page (candidates are score desc, id asc). */
+function encodeCursor(it: CatalogSearchItem) {
+  return `${it.score.toFixed(6)}|${it.release_id}`;
+}
+
+function afterCursor(items: CatalogSearchItem[], cursor: string | null): CatalogSearchItem[] {
+  if (!cursor) return items;
+  const [scoreRaw, id] = cursor.split("|");
+  const score = Number(scoreRaw);
+  if (!id || !Number.isFinite(score)) return items;
+  return items.filter((it) => it.score < score || (it.score === score && it.release_id > id));
+}
+
+/** Filter, facet and page an already-ranked candidate list (no database access). */
+export function pageCatalogCandidates(
+  candidates: CatalogSearchItem[],
+  filters: CatalogSearchFilters,
+  opts: { cursor: string | null; limit: number }
+): CatalogSearchResponse {
+  const filtered = candidates.filter((it) => matchesPlatform(it, filters) && matchesEra(it, filters) && matchesYear(it, filters));
+
+  const platforms = facetCounts(
+    candidates.filter((it) => matchesEra(it, filters) && matchesYear(it, filters)),
+    (it) => it.platform_key
+  );
+  const eras = facetCounts(
+    candidates.filter((it) => matchesPlatform(it, filters) && matchesYear(it, filters)),
+    (it) => it.era
+  );
+
+  const rest = afterCursor(filtered, opts.cursor);
+  const items = rest.slice(0, opts.limit);
+  const hasMore = rest.length > items.length;
+
+  return {
+    items,
+    next_cursor: hasMore && items.length ? encodeCursor(items[items.length - 1]) : null,
+    has_more: hasMore,
+    total: filtered.length,
+    facets: { platforms, eras },
+  };
+}
+
+export async function searchCatalog(
+  admin: SupabaseClient,
+  q: string,
+  filters: CatalogSearchFilters,
+  opts: { cursor: string | null; limit: number }
+): Promise<CatalogSearchResponse> {
+  const query = q.trim();
+  if (query.length < MIN_QUERY_LENGTH) {
+    return { items: [], next_cursor: null, has_more: false, total: 0, facets: { platforms: [], eras: [] } };
+  }
+
+  const { data, error } = await admin.rpc("catalog_search", { p_query: query, p_limit: MAX_CANDIDATES });
+  if (error) throw new Error(`catalog_search: ${error.message}`);
+
+  // Re-sort on the rounded score the cursor carries so pages can't skip or repeat near-ties.
+  const candidates = ((data ?? []) as CatalogSearchRow[])
+    .map(toItem)
+    .map((it) => ({ ...it, score: Number(it.score.toFixed(6)) }))
+    .sort((a, b) => b.score - a.score || (a.release_id < b.release_id ? -1 : a.release_id > b.release_id ? 1 : 0));
+  return pageCatalogCandidates(candidates, filters, opts);
+}
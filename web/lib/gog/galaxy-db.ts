@@ -0,0 +1,129 @@
+import { openSqlite, type SqliteRow } from "@/lib/gog/sqlite";
+
+/**
+ * GOG Galaxy 2.0 library export (galaxy-2.0.db, usually under
+ * C:\ProgramData\GOG.com\Galaxy\storage). Pure parsing: runs in the browser before upload
+ * and in the import route for raw .db uploads.
+ *
+ * Galaxy also aggregates other launchers (steam_*, epic_*, xboxone_* ...); those have their
+ * own connectors, so only gog_* release keys are imported.
+ */
+
+export type GogOwnedGame = {
+  /** GOG product id (the number in release key gog_<id>). */
+  product_id: string;
+  title: string;
+  playtime_minutes: number;
+  last_played_at: string | null;
+};
+
+export type GalaxyLibrary = {
+  games: GogOwnedGame[];
+  /** Release keys from other launchers that were left out. */
+  skipped_other_platforms: number;
+};
+
+/** Galaxy release keys look like "gog_1207658924". */
+export function gogProductIdFromReleaseKey(releaseKey: unknown): string | null {
+  const m = String(releaseKey ?? "").match(/^gog_(\d+)$/);
+  return m ? m[1] : null;
+}
+
+/** Galaxy stores dates as "YYYY-MM-DD HH:MM:SS" (UTC) or epoch seconds. */
+function galaxyDateToIso(v: unknown): string | null {
+  if (v == null || v === "") return null;
+  if (typeof v === "number") return v > 0 ? new Date(v * 1000).toISOString() : null;
+  const s = String(v).trim();
+  const d = new Date(/[zZ]|[+-]\d\d:?\d\d$/.test(s) ? s.replace(" ", "T") : `${s.replace(" ", "T")}Z`);
+  return Number.isNaN(d.getTime()) ? null : d.toISOString();
+}
+
+/** GamePieces.value is JSON like {"title": "..."}. */
+function pieceTitle(value: unknown): string | null {
+  try {
+    const t = JSON.parse(String(value ?? ""))?.title;
+    return typeof t === "string" && t.trim() ? t.trim() : null;
+  } catch {
+    return null;
+  }
+}
+
+function requireTable(rows: SqliteRow[] | null, name: string): SqliteRow[] {
+  if (!rows) throw new Error(`Not a GOG Galaxy database (missing ${name} table)`);
+  return rows;
+}
+
+export function parseGalaxyDb(bytes: Uint8Array): GalaxyLibrary {
+  const db = openSqlite(bytes);
+
+  const library = requireTable(db.rows("LibraryReleases"), "LibraryReleases");
+  const pieceTypes = db.rows("GamePieceTypes") ?? [];
+  const pieces = db.rows("GamePieces") ?? [];
+  const gameTimes = db.rows("GameTimes") ?? [];
+  const lastPlayed = db.rows("LastPlayedDates") ?? [];
+
+  const titleTypeIds = new Map<number, "title" | "originalTitle">();
+  for (const t of pieceTypes) {
+    if (t.type === "title" || t.type === "originalTitle") titleTypeIds.set(Number(t.id), t.type);
+  }
+
+  // Prefer the localized "title" piece over "originalTitle".
+  const titles = new Map<string, { title: string; original: boolean }>();
+  for (const p of pieces) {
+    const kind = titleTypeIds.get(Number(p.gamePieceTypeId));
+    const id = kind ? gogProductIdFromReleaseKey(p.releaseKey) : null;
+    const title = id ? pieceTitle(p.value) : null;
+    if (!id || !title) continue;
+    const prev = titles.get(id);
+    if (!prev || (prev.original && kind === "title")) titles.set(id, { title, original: kind === "originalTitle" });
+  }
+
+  const minutes = new Map<string, number>();
+  for (const r of gameTimes) {
+    const id = gogProductIdFromReleaseKey(r.releaseKey);
+    if (id) minutes.set(id, Math.max(minutes.get(id) ?? 0, Number(r.minutesInGame ?? 0) || 0));
+  }
+
+  const played = new Map<string, string>();
+  for (const r of lastPlayed) {
+    const id = gogProductIdFromReleaseKey(r.gameReleaseKey ?? r.releaseKey);
+    const iso = id ? galaxyDateToIso(r.lastPlayedDate) : null;
+    if (id && iso && (!played.get(id) || iso > played.get(id)!)) played.set(id, iso);
+  }
+
+  const games = new Map<string, GogOwnedGame>();
+  let skipped = 0;
+  for (const r of library) {
+    const id = gogProductIdFromReleaseKey(r.releaseKey);
+    if (!id) {
+      skipped += 1;
+      continue;
+    }
+    if (games.has(id)) continue;
+    games.set(id, {
+      product_id: id,
+      title: titles.get(id)?.title ?? `GOG product ${id}`,
+      playtime_minutes: minutes.get(id) ?? 0,
+      last_played_at: played.get(id) ?? null,
+    });
+  }
+
+  return { games: [...games.values()], skipped_other_platforms: skipped };
+}
+
+/** Validate titles posted by the browser (already parsed client-side). */
+export function normalizeGogGames(input: unknown): GogOwnedGame[] | null {
+  if (!Array.isArray(input)) return null;
+  const out: GogOwnedGame[] = [];
+  for (const g of input) {
+    const id = String(g?.product_id ?? "").trim();
+    if (!/^\d+$/.test(id)) return null;
+    out.push({
+      product_id: id,
+      title: String(g?.title ?? "").trim() || `GOG product ${id}`,
+      playtime_minutes: Math.max(0, Math.floor(Number(g?.playtime_minutes ?? 0) || 0)),
+      last_played_at: galaxyDateToIso(g?.last_played_at),
+    });
+  }
+  return out;
+}
@@ -0,0 +1,246 @@
+/**
+ * Minimal read-only SQLite reader for user-uploaded database files (GOG Galaxy export).
+ * Walks table b-trees only: rowid tables, UTF-8 / UTF-16LE text, overflow pages.
+ * Not supported: WITHOUT ROWID tables, indexes, and content still sitting in a -wal file
+ * (ask users to close Galaxy first so the WAL is checkpointed).
+ *
+ * Uploads are untrusted: a truncated or corrupt file fails with an Error naming the problem, never
+ * a RangeError, an unbounded loop or an allocation sized by a garbage length.
+ */
+
+export type SqliteRow = Record<string, unknown>;
+
+export type SqliteDb = {
+  tables(): string[];
+  /** All rows of a table keyed by column name; null when the table doesn't exist. */
+  rows(table: string): SqliteRow[] | null;
+};
+
+const HEADER = "SQLite format 3\u0000";
+const TABLE_INTERIOR = 0x05;
+const TABLE_LEAF = 0x0d;
+
+type SchemaEntry = { name: string; rootpage: number; columns: string[]; rowidColumn: number };
+
+function corrupt(detail: string): never {
+  throw new Error(`SQLite file is truncated or corrupt (${detail})`);
+}
+
+/** Out-of-bounds DataView reads on a damaged page surface as the same error as our own checks. */
+function guarded<T>(fn: () => T): T {
+  try {
+    return fn();
+  } catch (e) {
+    if (e instanceof RangeError) corrupt(e.message);
+    throw e;
+  }
+}
+
+function readVarint(buf: Uint8Array, pos: number): [number, number] {
+  let v = 0;
+  for (let i = 0; i < 8; i++) {
+    const b = buf[pos + i];
+    v = v * 128 + (b & 0x7f);
+    if ((b & 0x80) === 0) return [v, i + 1];
+  }
+  return [v * 256 + buf[pos + 8], 9];
+}
+
+function readInt(view: DataView, pos: number, bytes: number): number {
+  switch (bytes) {
+    case 1:
+      return view.getInt8(pos);
+    case 2:
+      return view.getInt16(pos);
+    case 3:
+      return (view.getInt8(pos) << 16) | view.getUint16(pos + 1);
+    case 4:
+      return view.getInt32(pos);
+    case 6:
+      return view.getInt16(pos) * 2 ** 32 + view.getUint32(pos + 2);
+    default:
+      return Number(view.getBigInt64(pos));
+  }
+}
+
+const INT_SIZES: Record<number, number> = { 1: 1, 2: 2, 3: 3, 4: 4, 5: 6, 6: 8 };
+
+function decodeRecord(payload: Uint8Array, decoder: TextDecoder): unknown[] {
+  const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+  const [headerSize, n] = readVarint(payload, 0);
+  if (headerSize < n || headerSize > payload.length) corrupt(`record header of ${headerSize} bytes`);
+  const types: number[] = [];
+  let hp = n;
+  while (hp < headerSize) {
+    const [t, len] = readVarint(payload, hp);
+    types.push(t);
+    hp += len;
+  }
+
+  const values: unknown[] = [];
+  let dp = headerSize;
+  for (const t of types) {
+    const width = INT_SIZES[t] ?? (t === 7 ? 8 : t >= 12 ? Math.floor((t - 12) / 2) : 0);
+    if (dp + width > payload.length) corrupt(`record value past the end of its cell`);
+    if (t === 0) values.push(null);
+    else if (INT_SIZES[t]) {
+      values.push(readInt(view, dp, INT_SIZES[t]));
+      dp += INT_SIZES[t];
+    } else if (t === 7) {
+      values.push(view.getFloat64(dp));
+      dp += 8;
+    } else if (t === 8 || t === 9) values.push(t - 8);
+    else if (t >= 12) {
+      const len = Math.floor((t - 12) / 2);
+      const bytes = payload.subarray(dp, dp + len);
+      values.push(t % 2 === 0 ? bytes.slice() : decoder.decode(bytes));
+      dp += len;
+    } else throw new Error(`Unsupported SQLite serial type ${t}`);
+  }
+  return values;
+}
+
+/** Column names (declaration order) from CREATE TABLE sql, plus the INTEGER PRIMARY KEY (rowid alias) index. */
+function parseColumns(sql: string): { columns: string[]; rowidColumn: number } {
+  const open = sql.indexOf("(");
+  const close = sql.lastIndexOf(")");
+  if (open < 0 || close < open) return { columns: [], rowidColumn: -1 };
+
+  const defs: string[] = [];
+  let depth = 0;
+  let cur = "";
+  for (const ch of sql.slice(open + 1, close)) {
+    if (ch === "(") depth++;
+    if (ch === ")") depth--;
+    if (ch === "," && depth === 0) {
+      defs.push(cur);
+      cur = "";
+    } else cur += ch;
+  }
+  defs.push(cur);
+
+  const columns: string[] = [];
+  let rowidColumn = -1;
+  for (const raw of defs) {
+    const def = raw.trim();
+    if (!def || /^(constraint|primary|unique|check|foreign)\b/i.test(def)) continue;
+    const m = def.match(/^(?:"([^"]+)"|`([^`]+)`|\[([^\]]+)\]|(\S+))\s*([\s\S]*)$/);
+    if (!m) continue;
+    if (/^integer\s+primary\s+key\b/i.test(m[5] ?? "")) rowidColumn = columns.length;
+    columns.push(m[1] ?? m[2] ?? m[3] ?? m[4]);
+  }
+  return { columns, rowidColumn };
+}
+
+export function openSqlite(bytes: Uint8Array): SqliteDb {
+  if (bytes.length < 100 || new TextDecoder().decode(bytes.subarray(0, 16)) !== HEADER) {
+    throw new Error("Not an SQLite database file");
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const rawPageSize = view.getUint16(16);
+  const pageSize = rawPageSize === 1 ? 65536 : rawPageSize;
+  if (pageSize < 512 || (pageSize & (pageSize - 1)) !== 0) corrupt(`page size ${pageSize}`);
+  const usable = pageSize - bytes[20];
+  if (usable < 480) corrupt(`usable page size ${usable}`);
+  const encoding = view.getUint32(56);
+  if (encoding === 3) throw new Error("UTF-16BE SQLite databases are not supported");
+  const decoder = new TextDecoder(encoding === 2 ? "utf-16le" : "utf-8");
+
+  const page = (n: number) => {
+    const start = (n - 1) * pageSize;
+    if (!Number.isInteger(n) || n < 1 || start + pageSize > bytes.length) corrupt(`page ${n} out of range`);
+    return bytes.subarray(start, start + pageSize);
+  };
+
+  /** Cell payload, following overflow pages when it doesn't fit locally. */
+  const cellPayload = (p: Uint8Array, pos: number, size: number): Uint8Array => {
+    const maxLocal = usable - 35;
+    if (size <= maxLocal) {
+      if (pos + size > p.length) corrupt("cell past the end of its page");
+      return p.subarray(pos, pos + size);
+    }
+    if (size > bytes.length) corrupt(`cell payload of ${size} bytes`);
+
+    const minLocal = Math.floor(((usable - 12) * 32) / 255) - 23;
+    const k = minLocal + ((size - minLocal) % (usable - 4));
+    const local = k <= maxLocal ? k : minLocal;
+
+    const out = new Uint8Array(size);
+    out.set(p.subarray(pos, pos + local), 0);
+    let filled = local;
+    let next = new DataView(p.buffer, p.byteOffset).getUint32(pos + local);
+    while (filled < size) {
+      if (!next) corrupt("overflow chain ends early");
+      const op = page(next);
+      const chunk = Math.min(usable - 4, size - filled);
+      out.set(op.subarray(4, 4 + chunk), filled);
+      filled += chunk;
+      next = new DataView(op.buffer, op.byteOffset).getUint32(0);
+    }
+    return out;
+  };
+
+  const walk = (root: number, visit: (rowid: number, values: unknown[]) => void) => {
+    const seen = new Set<number>();
+    const stack = [root];
+    while (stack.length) {
+      const n = stack.pop()!;
+      if (seen.has(n)) throw new Error("SQLite b-tree cycle (corrupt file)");
+      seen.add(n);
+
+      const p = page(n);
+      const pv = new DataView(p.buffer, p.byteOffset, p.byteLength);
+      const hdr = n === 1 ? 100 : 0;
+      const type = p[hdr];
+      const cells = pv.getUint16(hdr + 3);
+
+      if (type === TABLE_INTERIOR) {
+        // Push right-most first so children pop in key order.
+        stack.push(pv.getUint32(hdr + 8));
+        for (let i = cells - 1; i >= 0; i--) {
+          stack.push(pv.getUint32(pv.getUint16(hdr + 12 + i * 2)));
+        }
+      } else if (type === TABLE_LEAF) {
+        for (let i = 0; i < cells; i++) {
+          let pos = pv.getUint16(hdr + 8 + i * 2);
+          const [size, a] = readVarint(p, pos);
+          pos += a;
+          const [rowid, b] = readVarint(p, pos);
+          pos += b;
+          visit(rowid, decodeRecord(cellPayload(p, pos, size), decoder));
+        }
+      } else {
+        throw new Error(`Unsupported SQLite page type ${type} (WITHOUT ROWID tables are not supported)`);
+      }
+    }
+  };
+
+  const schema = new Map<string, SchemaEntry>();
+  guarded(() =>
+    walk(1, (_rowid, v) => {
+      if (v[0] !== "table" || typeof v[1] !== "string" || typeof v[4] !== "string") return;
+      schema.set(v[1], { name: v[1], rootpage: Number(v[3]), ...parseColumns(v[4]) });
+    })
+  );
+
+  return {
+    tables: () => [...schema.keys()],
+    rows(table) {
+      const entry = schema.get(table);
+      if (!entry) return null;
+      const out: SqliteRow[] = [];
+      guarded(() =>
+        walk(entry.rootpage, (rowid, values) => {
+          const row: SqliteRow = {};
+          entry.columns.forEach((c, i) => {
+            // Columns added by ALTER TABLE after the row was written are absent from its record.
+            row[c] = i === entry.rowidColumn ? rowid : (values[i] ?? null);
+          });
+          out.push(row);
+        })
+      );
+      return out;
+    },
+  };
+}
@@ -0,0 +1,189 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { mergeReleaseInto } from "@/lib/merge-release-into";
+import { releaseExternalIdRow } from "@/lib/release-external-ids";
+import { getOrCreateGameForSync, upsertGameMasterMappingIngest } from "@/lib/sync-game-resolve";
+import type { GogOwnedGame } from "./galaxy-db";
+
+/**
+ * Per-game GOG import steps used by the GOG connector (lib/sync/connectors/gog.ts).
+ * Order: release_external_ids -> game -> release -> mapping -> gog_title_progress -> portfolio_entries.
+ */
+
+const GOG_PLATFORM_KEY = "gog";
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+export type GogGameSyncResult =
+  | { ok: true; releaseId: string; created: boolean }
+  | { ok: false; error: string };
+
+/**
+ * release_external_ids(source='gog', external_id=product id), else game (game_external_ids via
+ * getOrCreateGameForSync; no IGDB inline) -> release -> mapping.
+ */
+export async function mapGogGameToRelease(admin: SupabaseClient, g: GogOwnedGame): Promise<GogGameSyncResult> {
+  const externalId = g.product_id;
+  const title = g.title;
+
+  const { data: mapRow, error: mapErr } = await admin
+    .from("release_external_ids")
+    .select("release_id")
+    .eq("source", "gog")
+    .eq("external_id", externalId)
+    .maybeSingle();
+
+  if (mapErr) return { ok: false, error: `release_external_ids lookup: ${mapErr.message}` };
+  if (mapRow?.release_id) return { ok: true, releaseId: String(mapRow.release_id), created: false };
+
+  await upsertGameMasterMappingIngest(admin, {
+    source: "gog",
+    external_id: externalId,
+    source_title: title,
+    source_platform: "GOG",
+  });
+
+  let gameId: string;
+  try {
+    const res = await getOrCreateGameForSync(admin, {
+      source: "gog",
+      external_id: externalId,
+      raw_title: title,
+      platform_key: GOG_PLATFORM_KEY,
+    });
+    gameId = res.game_id;
+  } catch (e) {
+    return { ok: false, error: `game for ${title}: ${e instanceof Error ? e.message : "unknown"}` };
+  }
+
+  let releaseId: string | null = null;
+  let created = false;
+
+  const { data: existingRelease, error: findErr } = await admin
+    .from("releases")
+    .select("id")
+    .eq("platform_key", GOG_PLATFORM_KEY)
+    .eq("game_id", gameId)
+    .maybeSingle();
+
+  if (findErr) return { ok: false, error: `release lookup: ${findErr.message}` };
+
+  if (existingRelease?.id) {
+    releaseId = String(existingRelease.id);
+  } else {
+    const { data: newRelease, error: rErr } = await admin
+      .from("releases")
+      .insert({
+        game_id: gameId,
+        display_title: title,
+        platform_name: "GOG",
+        platform_key: GOG_PLATFORM_KEY,
+        cover_url: null,
+      })
+      .select("id")
+      .single();
+
+    if (rErr) {
+      const code = (rErr as { code?: string })?.code;
+      if (code !== "23505") return { ok: false, error: `release insert ${title}: ${rErr.message}` };
+      const { data: raced } = await admin
+        .from("releases")
+        .select("id")
+        .eq("platform_key", GOG_PLATFORM_KEY)
+        .eq("game_id", gameId)
+        .maybeSingle();
+      if (!raced?.id) return { ok: false, error: `release 23505 but no row for ${title}` };
+      releaseId = String(raced.id);
+    } else if (newRelease?.id) {
+      releaseId = String(newRelease.id);
+      created = true;
+    } else {
+      return { ok: false, error: `release insert ${title}: no id returned` };
+    }
+  }
+
+  await admin
+    .from("release_external_ids")
+    .upsert(releaseExternalIdRow(releaseId, "gog", externalId), {
+      onConflict: "source,external_id",
+      ignoreDuplicates: true,
+    });
+
+  const { data: currentMap } = await admin
+    .from("release_external_ids")
+    .select("release_id")
+    .eq("source", "gog")
+    .eq("external_id", externalId)
+    .maybeSingle();
+
+  if (currentMap?.release_id && String(currentMap.release_id) !== releaseId) {
+    await mergeReleaseInto(admin, String(currentMap.release_id), releaseId);
+    releaseId = String(currentMap.release_id);
+  }
+
+  return { ok: true, releaseId, created };
+}
+
+/**
+ * gog_title_progress + portfolio_entries for a mapped game. Playtime and last played only move
+ * forward, so re-importing an older export never rolls anything back.
+ */
+export async function upsertGogGameProgress(
+  admin: SupabaseClient,
+  userId: string,
+  g: GogOwnedGame,
+  releaseId: string
+): Promise<{ portfolioInserted: boolean }> {
+  const { error: progErr } = await admin
+    .from("gog_title_progress")
+    .upsert(
+      {
+        user_id: userId,
+        release_id: releaseId,
+        gog_product_id: g.product_id,
+        title_name: g.title,
+        playtime_minutes: g.playtime_minutes,
+        last_played_at: g.last_played_at,
+        last_updated_at: nowIso(),
+        updated_at: nowIso(),
+      },
+      { onConflict: "user_id,gog_product_id" }
+    );
+  if (progErr) throw new Error(`gog_title_progress upsert: ${progErr.message}`);
+
+  const { data: existingEntry } = await admin
+    .from("portfolio_entries")
+    .select("user_id, release_id, playtime_minutes, last_played_at")
+    .eq("user_id", userId)
+    .eq("release_id", releaseId)
+    .maybeSingle();
+
+  if (!existingEntry) {
+    const { error: insErr } = await admin.from("portfolio_entries").insert({
+      user_id: userId,
+      release_id: releaseId,
+      status: "owned",
+      playtime_minutes: g.playtime_minutes,
+      last_played_at: g.last_played_at,
+      updated_at: nowIso(),
+    });
+    if (insErr) throw new Error(`portfolio_entries insert: ${insErr.message}`);
+    return { portfolioInserted: true };
+  }
+
+  const nextPlaytime = Math.max(Number(existingEntry.playtime_minutes ?? 0), g.playtime_minutes);
+  let nextLastPlayed = (existingEntry.last_played_at as string | null) ?? null;
+  if (g.last_played_at && (!nextLastPlayed || new Date(g.last_played_at) > new Date(nextLastPlayed))) {
+    nextLastPlayed = g.last_played_at;
+  }
+
+  const { error: updErr } = await admin
+    .from("portfolio_entries")
+    .update({ playtime_minutes: nextPlaytime, last_played_at: nextLastPlayed, updated_at: nowIso() })
+    .eq("user_id", userId)
+    .eq("release_id", releaseId);
+  if (updErr) throw new Error(`portfolio_entries update: ${updErr.message}`);
+
+  return { portfolioInserted: false };
+}
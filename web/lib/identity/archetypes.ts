@@ -49,6 +49,11 @@ export type IdentitySignals = {
   collector_fields?: number; // optional, later: tags/shelves/notes/condition fields count
   weeks_active?: number; // optional
   top_platform_releases?: number; // releases on top platform — for Platform Loyalist
+  variants_owned?: number; // distinct editions (or release+region) owned — release_editions
+  variant_regions?: number; // distinct regions across those variants
+  import_variants?: number; // variants outside the user's most common region
+  special_editions?: number; // collector's / limited / special
+  multi_variant_releases?: number; // releases owned in 2+ variants
 };
 
 export type ArchetypeId =
@@ -58,7 +63,7 @@ export type ArchetypeId =
   | "archivist"
   | "era_keeper"
   | "platform_loyalist"
-  | "variant_hunter"; // placeholder for future collector variant modeling
+  | "variant_hunter";
 
 export type ArchetypeResult = {
   id: ArchetypeId;
@@ -224,14 +229,33 @@ export const ARCHETYPES: ArchetypeDef[] = [
     },
   },
 
-  // Placeholder until you model variants/editions/regions.
   {
     id: "variant_hunter",
     name: "Variant Hunter",
-    gate: (s) => (s.collector_fields ?? 0) >= 80, // placeholder gate so it doesn't show prematurely
+    gate: (s) => {
+      const owned = s.variants_owned ?? 0;
+      return (
+        owned >= 10 &&
+        ((s.multi_variant_releases ?? 0) >= 3 || (s.special_editions ?? 0) >= 5 || (s.import_variants ?? 0) >= 5)
+      );
+    },
     score: (s) => {
-      const f = sat((s.collector_fields ?? 0), 120);
-      return { score: f, reasons: [`Curation fields: ${(s.collector_fields ?? 0).toLocaleString()}`] };
+      const m = sat((s.multi_variant_releases ?? 0), 15); // 3≈17, 15=50, 40≈73
+      const sp = sat((s.special_editions ?? 0), 20); // 5=20, 20=50, 60=75
+      const im = sat((s.import_variants ?? 0), 20);
+      const r = lin((s.variant_regions ?? 0), 1, 4); // 1 region → 0, 4+ → 100
+      const score = blend([
+        { w: 0.35, s: m },
+        { w: 0.3, s: sp },
+        { w: 0.2, s: im },
+        { w: 0.15, s: r },
+      ]);
+
+      const reasons = [`Variants: ${(s.variants_owned ?? 0).toLocaleString()}`];
+      if ((s.multi_variant_releases ?? 0) > 0) reasons.push(`Owned in 2+ editions: ${(s.multi_variant_releases ?? 0).toLocaleString()}`);
+      if ((s.special_editions ?? 0) > 0) reasons.push(`Special editions: ${(s.special_editions ?? 0).toLocaleString()}`);
+      if ((s.import_variants ?? 0) > 0) reasons.push(`Imports: ${(s.import_variants ?? 0).toLocaleString()} across ${s.variant_regions ?? 0} regions`);
+      return { score, reasons };
     },
   },
 ];
@@ -128,5 +128,35 @@ export function computeCollectorArchetypes(
     }
   }
 
+  // 4) Variant Hunter — Gate: at least 10 owned variants (release_editions) AND 3 releases owned in
+  //    2+ editions, 5 special editions or 5 imports. variant_stats is attached by loadIdentitySummary.
+  const v = (s.variant_stats || null) as Record<string, unknown> | null;
+  if (v) {
+    const variants = Number(v.variants_owned ?? 0);
+    const multi = Number(v.multi_variant_releases ?? 0);
+    const special = Number(v.special_editions ?? 0);
+    const imports = Number(v.import_variants ?? 0);
+    const regions = Number(v.regions ?? 0);
+    if (variants >= 10 && (multi >= 3 || special >= 5 || imports >= 5)) {
+      const depthScore = Math.min(100, Math.round(((multi + special + imports) / 40) * 100));
+      const volumeScore = Math.min(100, Math.round((variants / 150) * 100));
+      const score = Math.round(depthScore * 0.7 + volumeScore * 0.3);
+
+      archetypes.push({
+        key: "variant_hunter",
+        label: "Variant Hunter",
+        strength: strengthTier(score),
+        score,
+        meta: { variants, multi_variant_releases: multi, special_editions: special, import_variants: imports, regions },
+        reasons: [
+          multi ? `${multi} games owned in more than one edition` : null,
+          special ? `${special} collector's and limited editions` : null,
+          imports ? `${imports} imports across ${regions} regions` : null,
+        ].filter(Boolean) as string[],
+        verbs: ["collect", "hunt", "complete"],
+      });
+    }
+  }
+
   return archetypes.sort((a, b) => b.score - a.score);
 }
@@ -17,6 +17,7 @@ import {
   type ArchetypeResult,
 } from "@/lib/identity/archetypes";
 import type { CollectorArchetype } from "@/lib/identity/collector-archetypes";
+import type { VariantStats } from "@/lib/identity/getVariantStats";
 import { toEraKey } from "@/lib/identity/eras";
 
 export type IdentityRpcRow = {
@@ -154,6 +155,8 @@ export type GetIdentitySignalsJson = {
   top_platform?: string | null;
   top_platform_releases?: number;
   platform_counts?: Record<string, number>;
+  /** Not from the RPC: attached by callers from getVariantStats (release_editions). */
+  variant_stats?: VariantStats | null;
 };
 
 /** Map get_identity_signals RPC JSON to IdentitySignals for archetype scorer. */
@@ -179,6 +182,11 @@ export function identitySignalsFromGetIdentitySignalsJson(json: GetIdentitySigna
     completion_count: undefined,
     achievements_last_90d: undefined,
     top_platform_releases: json.top_platform_releases != null ? Number(json.top_platform_releases) : undefined,
+    variants_owned: json.variant_stats ? Number(json.variant_stats.variants_owned ?? 0) : undefined,
+    variant_regions: json.variant_stats ? Number(json.variant_stats.regions ?? 0) : undefined,
+    import_variants: json.variant_stats ? Number(json.variant_stats.import_variants ?? 0) : undefined,
+    special_editions: json.variant_stats ? Number(json.variant_stats.special_editions ?? 0) : undefined,
+    multi_variant_releases: json.variant_stats ? Number(json.variant_stats.multi_variant_releases ?? 0) : undefined,
   };
 }
 
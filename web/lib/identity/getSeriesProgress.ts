@@ -0,0 +1,94 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { SERIES_CREDIT_RELATIONS, type GameSeriesRow } from "@/lib/catalog/relations";
+
+export type SeriesProgress = {
+  series_key: string;
+  name: string;
+  played: number;
+  total: number;
+  /** Mainline entries not in the library yet, oldest first. */
+  missing: Array<{ igdb_game_id: number; title: string; first_release_year: number | null }>;
+  /** "You've played 9 of 11 mainline The Legend of Zelda games" */
+  line: string;
+};
+
+/**
+ * Mainline progress per series. `played` holds the IGDB ids the user owns plus the originals of any
+ * remake/remaster/port they own (Link's Awakening on Switch counts for the 1993 entry).
+ */
+export function computeSeriesProgress(
+  series: Array<Pick<GameSeriesRow, "series_key" | "name" | "mainline_games">>,
+  played: Set<number>,
+  minPlayed = 2
+): SeriesProgress[] {
+  const out: SeriesProgress[] = [];
+  for (const s of series) {
+    const mainline = Array.isArray(s.mainline_games) ? s.mainline_games : [];
+    if (mainline.length < 2) continue;
+    const missing = mainline.filter((m) => !played.has(Number(m.igdb_game_id)));
+    const count = mainline.length - missing.length;
+    if (count < minPlayed) continue;
+    out.push({
+      series_key: s.series_key,
+      name: s.name,
+      played: count,
+      total: mainline.length,
+      missing,
+      line:
+        count === mainline.length
+          ? `You've played all ${mainline.length} mainline ${s.name} games`
+          : `You've played ${count} of ${mainline.length} mainline ${s.name} games`,
+    });
+  }
+  return out.sort((a, b) => b.played - a.played || b.played / b.total - a.played / a.total || a.name.localeCompare(b.name));
+}
+
+export async function getSeriesProgress(
+  db: SupabaseClient,
+  userId: string,
+  limit = 5
+): Promise<SeriesProgress[]> {
+  const { data: owned, error } = await db
+    .from("portfolio_entries")
+    .select("releases:release_id(game_id, games:game_id(id, igdb_game_id))")
+    .eq("user_id", userId);
+  if (error) throw error;
+
+  const gameIds = new Set<string>();
+  const played = new Set<number>();
+  for (const row of owned ?? []) {
+    const release = Array.isArray(row.releases) ? row.releases[0] : row.releases;
+    const g = Array.isArray(release?.games) ? release.games[0] : release?.games;
+    if (!g?.id) continue;
+    gameIds.add(String(g.id));
+    if (g.igdb_game_id != null) played.add(Number(g.igdb_game_id));
+  }
+  if (!gameIds.size) return [];
+
+  const seriesKeys = new Set<string>();
+  const ids = Array.from(gameIds);
+  for (let i = 0; i < ids.length; i += 200) {
+    const { data: rels, error: relErr } = await db
+      .from("game_relations")
+      .select("relation, related_igdb_game_id, series_key")
+      .in("game_id", ids.slice(i, i + 200))
+      .in("relation", ["part_of_series", ...SERIES_CREDIT_RELATIONS]);
+    if (relErr) throw relErr;
+    for (const r of rels ?? []) {
+      if (r.relation === "part_of_series") {
+        if (r.series_key) seriesKeys.add(String(r.series_key));
+      } else if (r.related_igdb_game_id != null) {
+        played.add(Number(r.related_igdb_game_id));
+      }
+    }
+  }
+  if (!seriesKeys.size) return [];
+
+  const { data: series, error: seriesErr } = await db
+    .from("game_series")
+    .select("series_key, name, mainline_games")
+    .in("series_key", Array.from(seriesKeys));
+  if (seriesErr) throw seriesErr;
+
+  return computeSeriesProgress(series ?? [], played).slice(0, limit);
+}
@@ -0,0 +1,107 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { normalizeEditionRegion, SPECIAL_EDITION_KINDS, type EditionKind } from "@/lib/catalog/editions";
+
+export type VariantStats = {
+  /** Distinct variants owned: an edition, or a release + region for items without an edition. */
+  variants_owned: number;
+  /** Distinct known regions across those variants (region_free/unknown excluded). */
+  regions: number;
+  /** Most common region, i.e. what counts as "home" for imports. */
+  home_region: string | null;
+  /** Variants from a region other than home_region. */
+  import_variants: number;
+  /** Collector's / limited / special editions. */
+  special_editions: number;
+  /** Releases owned in two or more variants. */
+  multi_variant_releases: number;
+};
+
+export type VariantRow = {
+  release_id: string | null;
+  edition_id: string | null;
+  region: string | null;
+  edition_kind: string | null;
+};
+
+const NON_REGIONS = new Set(["region_free", "unknown"]);
+
+/** Variant counts from owned physical items / portfolio entries (duplicates across both collapse). */
+export function computeVariantStats(rows: VariantRow[]): VariantStats {
+  const variants = new Map<string, { release_id: string | null; region: string | null; kind: string | null }>();
+  for (const r of rows) {
+    const region = normalizeEditionRegion(r.region);
+    const key = r.edition_id ? `edition:${r.edition_id}` : r.release_id && region ? `release:${r.release_id}:${region}` : null;
+    if (!key) continue;
+    const prev = variants.get(key);
+    variants.set(key, {
+      release_id: r.release_id ?? prev?.release_id ?? null,
+      region: region ?? prev?.region ?? null,
+      kind: r.edition_kind ?? prev?.kind ?? null,
+    });
+  }
+
+  const regionCounts = new Map<string, number>();
+  const perRelease = new Map<string, number>();
+  let special = 0;
+  for (const v of variants.values()) {
+    if (v.region && !NON_REGIONS.has(v.region)) regionCounts.set(v.region, (regionCounts.get(v.region) ?? 0) + 1);
+    if (v.release_id) perRelease.set(v.release_id, (perRelease.get(v.release_id) ?? 0) + 1);
+    if (v.kind && SPECIAL_EDITION_KINDS.includes(v.kind as EditionKind)) special += 1;
+  }
+
+  let home: string | null = null;
+  let homeCount = 0;
+  for (const [region, n] of regionCounts) {
+    if (n > homeCount) {
+      home = region;
+      homeCount = n;
+    }
+  }
+  let imports = 0;
+  for (const [region, n] of regionCounts) if (region !== home) imports += n;
+
+  return {
+    variants_owned: variants.size,
+    regions: regionCounts.size,
+    home_region: home,
+    import_variants: imports,
+    special_editions: special,
+    multi_variant_releases: Array.from(perRelease.values()).filter((n) => n >= 2).length,
+  };
+}
+
+/** A physical item or portfolio entry with its edition, as getVariantStats selects it. */
+type VariantSourceRow = {
+  release_id: string | null;
+  edition_id: string | null;
+  region?: string | null;
+  release_editions: { region: string | null; edition_kind: string | null } | null;
+};
+
+export async function getVariantStats(
+  db: SupabaseClient,
+  userId: string
+): Promise<VariantStats> {
+  const [physical, entries] = await Promise.all([
+    db
+      .from("portfolio_physical_items")
+      .select<string, VariantSourceRow>("release_id, edition_id, region, release_editions:edition_id(region, edition_kind)")
+      .eq("user_id", userId)
+      .not("release_id", "is", null),
+    db
+      .from("portfolio_entries")
+      .select<string, VariantSourceRow>("release_id, edition_id, release_editions:edition_id(region, edition_kind)")
+      .eq("user_id", userId)
+      .not("edition_id", "is", null),
+  ]);
+  if (physical.error) throw physical.error;
+  if (entries.error) throw entries.error;
+
+  const rows: VariantRow[] = [...(physical.data ?? []), ...(entries.data ?? [])].map((r) => ({
+    release_id: r.release_id ?? null,
+    edition_id: r.edition_id ?? null,
+    region: r.release_editions?.region ?? r.region ?? null,
+    edition_kind: r.release_editions?.edition_kind ?? null,
+  }));
+  return computeVariantStats(rows);
+}
@@ -0,0 +1,166 @@
+/**
+ * Payload of a shared identity link ({ card, timeline }) for GET /api/identity/share/[shareId] and
+ * the share OG image. The card is the stored snapshot (or one computed live when there is none);
+ * both are redacted with SHARE_CARD_RULES by the owner's current profile_sharing, so switching a
+ * section off also hides it from links shared earlier.
+ */
+
+import { ORIGIN_BUCKET_META, ORIGIN_BUCKET_ORDER } from "@/lib/identity/era";
+import type { GetIdentitySignalsJson } from "@/lib/identity/compute";
+import { normalizeTimeline } from "@/lib/identity/normalize-timeline";
+import { normalizeOriginTimeline } from "@/lib/identity/normalizeOriginTimeline";
+import type { EraTimelineItem, TimelineResponse } from "@/lib/identity/types";
+import { SHARE_CARD_RULES, applyProfileSharing, resolveProfileSharing } from "@/lib/profile/sharing";
+
+/** Share snapshot shape (card) — matches IdentityShareCard payload. */
+export type ShareSnapshot = {
+  username?: string | null;
+  lifetime_score?: number | null;
+  archetypes: Array<{ key: string; label: string; strength: "emerging" | "strong" | "core"; score?: number }>;
+  top_signals: Array<{ key: string; label: string; value: string }>;
+  identity_signals?: {
+    owned_games?: number;
+    owned_releases?: number;
+    unique_platforms?: number;
+    achievements_earned?: number;
+    achievements_total?: number;
+    minutes_played?: number;
+    era_buckets?: Record<string, { games: number; releases: number }>;
+  };
+};
+
+export function toSharePayload(
+  summary: { lifetime_score?: number; primary_archetype?: { key: string; name: string; strength: string }; secondary_archetypes?: Array<{ key: string; name: string; strength: string }>; top_signals?: Array<{ key: string; label: string; value?: number }> },
+  signalsJson: GetIdentitySignalsJson | null
+): ShareSnapshot {
+  const archetypes = [
+    summary.primary_archetype,
+    ...(summary.secondary_archetypes ?? []),
+  ]
+    .filter(Boolean)
+    .map((a) => ({
+      key: a!.key,
+      label: a!.name,
+      strength: a!.strength as "emerging" | "strong" | "core",
+    }));
+
+  const top_signals = (summary.top_signals ?? []).slice(0, 4).map((t) => ({
+    key: t.key,
+    label: t.label,
+    value: `${Math.round((t.value ?? 0) * 100)}%`,
+  }));
+
+  let identity_signals: ShareSnapshot["identity_signals"] | undefined;
+  if (signalsJson && typeof signalsJson === "object") {
+    const ej = signalsJson;
+    const buckets = ej.era_buckets;
+    const normalizedBuckets =
+      buckets && typeof buckets === "object"
+        ? (Object.fromEntries(
+            Object.entries(buckets).map(([k, v]) => [
+              k,
+              { games: Number(v?.games ?? 0), releases: Number(v?.releases ?? 0) },
+            ])
+          ) as Record<string, { games: number; releases: number }>)
+        : undefined;
+    identity_signals = {
+      owned_games: ej.owned_games != null ? Number(ej.owned_games) : undefined,
+      owned_releases: ej.owned_releases != null ? Number(ej.owned_releases) : undefined,
+      unique_platforms: ej.unique_platforms != null ? Number(ej.unique_platforms) : undefined,
+      achievements_earned: ej.achievements_earned != null ? Number(ej.achievements_earned) : undefined,
+      achievements_total: ej.achievements_total != null ? Number(ej.achievements_total) : undefined,
+      minutes_played: ej.minutes_played != null ? Number(ej.minutes_played) : undefined,
+      era_buckets: normalizedBuckets,
+    };
+  }
+
+  return {
+    username: null,
+    lifetime_score: summary.lifetime_score != null ? Math.round(summary.lifetime_score * 100) : null,
+    archetypes,
+    top_signals,
+    identity_signals,
+  };
+}
+
+/** Era timeline of the shared user from the get_origin_timeline RPC result; null when there is none. */
+export function shareTimeline(userId: string, timelinePayload: unknown): TimelineResponse | null {
+  if (!timelinePayload) return null;
+  const { origin } = normalizeTimeline(timelinePayload);
+  const { stats, standouts } = normalizeOriginTimeline(origin);
+  const buckets = ORIGIN_BUCKET_ORDER.filter((k) => k !== "unknown");
+  const s = stats ?? {};
+  const so = standouts ?? {};
+
+  const eraStats = buckets.map((key) => ({
+    key,
+    games: Number((s[key] as { games?: number })?.games ?? 0),
+    releases: Number((s[key] as { releases?: number })?.releases ?? 0),
+  }));
+  eraStats.sort((a, b) => {
+    if (b.games !== a.games) return b.games - a.games;
+    return b.releases - a.releases;
+  });
+  const rankByKey: Record<string, number> = {};
+  eraStats.forEach((s, i) => {
+    rankByKey[s.key] = i + 1;
+  });
+
+  const eras: EraTimelineItem[] = buckets.map((bucketKey) => {
+    const meta = ORIGIN_BUCKET_META[bucketKey];
+    const games = Number((s[bucketKey] as { games?: number })?.games ?? 0);
+    const releases = Number((s[bucketKey] as { releases?: number })?.releases ?? 0);
+    const notableList = Array.isArray(so[bucketKey]) ? so[bucketKey]! : [];
+    const notable = notableList.slice(0, 3).map((n) => ({
+      release_id: String(n.release_id ?? ""),
+      title: String(n.title ?? "Untitled"),
+      cover_url: n.cover_url ?? null,
+      played_on: n.played_on ?? null,
+      earned: n.earned != null ? Number(n.earned) : undefined,
+      total: n.total != null ? Number(n.total) : undefined,
+      minutes_played: n.minutes_played != null ? Number(n.minutes_played) : undefined,
+    }));
+
+    return {
+      era: bucketKey,
+      label: meta?.title ?? bucketKey,
+      years: meta?.sub ?? "",
+      rank: rankByKey[bucketKey] ?? 0,
+      games,
+      releases,
+      topSignals: [],
+      notable,
+    };
+  });
+
+  eras.sort((a, b) => {
+    const ia = ORIGIN_BUCKET_ORDER.indexOf(a.era);
+    const ib = ORIGIN_BUCKET_ORDER.indexOf(b.era);
+    return (ia === -1 ? 999 : ia) - (ib === -1 ? 999 : ib);
+  });
+
+  return {
+    ok: true,
+    user_id: userId,
+    mode: "release_year",
+    eras,
+  };
+}
+
+/** What GET /api/identity/share/[shareId] sends: card and timeline, allowlisted fields only. */
+export function buildShareResponse(input: {
+  card: ShareSnapshot | null;
+  timeline: TimelineResponse | null;
+  profileSharing: Record<string, unknown> | null;
+}): { card: ShareSnapshot | null; timeline: TimelineResponse | null } {
+  return applyProfileSharing(
+    { card: input.card, timeline: input.timeline },
+    resolveProfileSharing(input.profileSharing),
+    SHARE_CARD_RULES
+  );
+}
+
+/** Stored snapshot for the share OG image and /share/[shareId] metadata. */
+export function redactShareSnapshot<T extends object>(snapshot: T | null, profileSharing: Record<string, unknown> | null): T | null {
+  return applyProfileSharing({ card: snapshot }, resolveProfileSharing(profileSharing), SHARE_CARD_RULES).card;
+}
@@ -0,0 +1,430 @@
+/**
+ * Confidence calibration: replay the IGDB scorers against labelled match history and report
+ * precision/recall per platform at each threshold.
+ *
+ * Input is a dump of game_match_attempts, igdb_match_rejects and manual_igdb_overrides
+ * (GET /api/admin/matcher/calibration?format=fixture). Nothing here touches IGDB or the database:
+ * attempts are replayed from their stored candidates_json, so only attempts written since
+ * 2026-03-09 can be replayed. Labels come from people, never from the scorer itself:
+ *   manual_igdb_overrides          → this igdb_game_id is right
+ *   review_decision = picked       → reviewed_igdb_game_id is right
+ *   review_decision = rejected_all → no candidate is right
+ *   igdb_match_rejects             → this igdb_game_id is wrong
+ * Runs under vitest (__tests__/igdb/match-calibration.test.ts) so scoring changes are checked
+ * against the same history before they ship.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  CONFIDENCE_THRESHOLD,
+  pickValidatedCandidate,
+  type ReviewCandidate,
+} from "./match-validation";
+import {
+  MATCHER_AUTO_APPROVED_THRESHOLD,
+  passesMatcherSanityCheck,
+  scoreSearchCandidates,
+  type IgdbHit,
+} from "./server";
+
+export type MatchHistoryDump = {
+  dumped_at?: string;
+  game_match_attempts: Array<{
+    id?: string;
+    source: string;
+    external_id: string;
+    title_used: string | null;
+    igdb_game_id_candidate?: number | null;
+    confidence?: number | null;
+    outcome?: string | null;
+    candidates_json: ReviewCandidate[] | null;
+    review_decision?: "picked" | "rejected_all" | null;
+    reviewed_igdb_game_id?: number | null;
+    created_at?: string | null;
+  }>;
+  igdb_match_rejects: Array<{ platform_key: string; external_id: string; igdb_game_id: number }>;
+  manual_igdb_overrides: Array<{ source: string; external_id: string; igdb_game_id: number }>;
+};
+
+export type LabelSource = "override" | "review_pick" | "review_reject_all" | "reject";
+
+export type LabelledMatchCase = {
+  platform: string;
+  external_id: string;
+  title: string;
+  /** Candidates from the latest replayable attempt, in stored (IGDB) order. */
+  candidates: IgdbHit[];
+  /** Known right answer; null when unknown or when none_correct. */
+  correct_igdb_game_id: number | null;
+  none_correct: boolean;
+  wrong_igdb_game_ids: number[];
+  labels: LabelSource[];
+};
+
+export type BuildCasesResult = {
+  cases: LabelledMatchCase[];
+  skipped: { no_candidates: number; unlabelled: number };
+};
+
+function caseKey(platform: string, externalId: string) {
+  return `${platform}|${externalId}`;
+}
+
+function hitFromReviewCandidate(c: ReviewCandidate): IgdbHit {
+  return {
+    igdb_game_id: Number(c.igdb_game_id),
+    title: String(c.title ?? ""),
+    summary: null,
+    genres: [],
+    developer: null,
+    publisher: null,
+    first_release_year: c.first_release_year ?? null,
+    cover_url: c.cover_url ?? null,
+    category: c.category ?? null,
+    platform_names: Array.isArray(c.platforms) && c.platforms.length ? c.platforms : undefined,
+  };
+}
+
+/**
+ * Group the dump by (platform, external_id) and attach labels. Precedence when signals disagree:
+ * override > latest review decision; a reject never marks the known-right id wrong.
+ */
+export function buildLabelledCases(dump: MatchHistoryDump): BuildCasesResult {
+  const attempts = [...(dump.game_match_attempts ?? [])].sort((a, b) =>
+    String(a.created_at ?? "").localeCompare(String(b.created_at ?? ""))
+  );
+
+  type Acc = {
+    platform: string;
+    external_id: string;
+    title: string | null;
+    candidates: ReviewCandidate[] | null;
+    decision: { kind: "picked"; igdb_game_id: number } | { kind: "rejected_all" } | null;
+  };
+  const byKey = new Map<string, Acc>();
+  for (const a of attempts) {
+    const key = caseKey(a.source, String(a.external_id));
+    const acc: Acc = byKey.get(key) ?? {
+      platform: a.source,
+      external_id: String(a.external_id),
+      title: null,
+      candidates: null,
+      decision: null,
+    };
+    if (Array.isArray(a.candidates_json) && a.candidates_json.length) {
+      acc.candidates = a.candidates_json;
+      acc.title = a.title_used ?? acc.title;
+    }
+    if (a.review_decision === "picked" && a.reviewed_igdb_game_id != null) {
+      acc.decision = { kind: "picked", igdb_game_id: Number(a.reviewed_igdb_game_id) };
+    } else if (a.review_decision === "rejected_all") {
+      acc.decision = { kind: "rejected_all" };
+    }
+    byKey.set(key, acc);
+  }
+
+  const overrides = new Map<string, number>();
+  for (const o of dump.manual_igdb_overrides ?? []) {
+    overrides.set(caseKey(o.source, String(o.external_id)), Number(o.igdb_game_id));
+  }
+  const rejects = new Map<string, Set<number>>();
+  for (const r of dump.igdb_match_rejects ?? []) {
+    const key = caseKey(r.platform_key, String(r.external_id));
+    if (!rejects.has(key)) rejects.set(key, new Set());
+    rejects.get(key)!.add(Number(r.igdb_game_id));
+  }
+
+  const out: BuildCasesResult = { cases: [], skipped: { no_candidates: 0, unlabelled: 0 } };
+  for (const [key, acc] of byKey.entries()) {
+    if (!acc.candidates || !acc.title) {
+      out.skipped.no_candidates += 1;
+      continue;
+    }
+    const labels: LabelSource[] = [];
+    let correct: number | null = null;
+    let noneCorrect = false;
+
+    const override = overrides.get(key);
+    if (override != null) {
+      correct = override;
+      labels.push("override");
+    } else if (acc.decision?.kind === "picked") {
+      correct = acc.decision.igdb_game_id;
+      labels.push("review_pick");
+    } else if (acc.decision?.kind === "rejected_all") {
+      noneCorrect = true;
+      labels.push("review_reject_all");
+    }
+
+    const wrong = Array.from(rejects.get(key) ?? []).filter((id) => id !== correct);
+    if (wrong.length) labels.push("reject");
+
+    if (!labels.length) {
+      out.skipped.unlabelled += 1;
+      continue;
+    }
+    out.cases.push({
+      platform: acc.platform,
+      external_id: acc.external_id,
+      title: acc.title,
+      candidates: acc.candidates.map(hitFromReviewCandidate),
+      correct_igdb_game_id: correct,
+      none_correct: noneCorrect,
+      wrong_igdb_game_ids: wrong,
+      labels,
+    });
+  }
+  out.cases.sort((a, b) => a.platform.localeCompare(b.platform) || a.external_id.localeCompare(b.external_id));
+  return out;
+}
+
+/** What a scorer would auto-accept for a case at a threshold; null = leave unmatched/queue for review. */
+export type MatchPrediction = { igdb_game_id: number; confidence: number } | null;
+
+export type MatchScorer = {
+  id: string;
+  /** Threshold the production code uses today. */
+  current_threshold: number;
+  predict(c: LabelledMatchCase, threshold: number): MatchPrediction;
+};
+
+/** resolveGameWithValidation (sync path): first candidate clearing threshold + guardrails. */
+export const VALIDATION_SCORER: MatchScorer = {
+  id: "validation",
+  current_threshold: CONFIDENCE_THRESHOLD,
+  predict(c, threshold) {
+    const { best, accepted } = pickValidatedCandidate(c.candidates, c.title, threshold);
+    return accepted && best ? { igdb_game_id: best.hit.igdb_game_id, confidence: best.confidence } : null;
+  },
+};
+
+/** /api/admin/matcher/run: top scoreSearchCandidates hit, confirmed at threshold if it passes the sanity check. */
+export const MATCHER_SCORER: MatchScorer = {
+  id: "matcher",
+  current_threshold: MATCHER_AUTO_APPROVED_THRESHOLD,
+  predict(c, threshold) {
+    const { hit, confidence } = scoreSearchCandidates(c.candidates, c.title, c.platform);
+    if (!hit || confidence < threshold || !passesMatcherSanityCheck(hit)) return null;
+    return { igdb_game_id: hit.igdb_game_id, confidence };
+  },
+};
+
+export type CaseOutcome = "tp" | "fp" | "fn" | "tn" | "unknown";
+
+/**
+ * tp = accepted the right id; fp = accepted a wrong id (or anything when none is right);
+ * fn = accepted nothing though a right id is known; tn = accepted nothing and nothing/only
+ * wrong ids are known; unknown = accepted an id the labels say nothing about.
+ */
+export function classifyPrediction(c: LabelledMatchCase, pred: MatchPrediction): CaseOutcome {
+  if (c.correct_igdb_game_id != null) {
+    if (!pred) return "fn";
+    return pred.igdb_game_id === c.correct_igdb_game_id ? "tp" : "fp";
+  }
+  if (!pred) return "tn";
+  if (c.none_correct || c.wrong_igdb_game_ids.includes(pred.igdb_game_id)) return "fp";
+  return "unknown";
+}
+
+export type ThresholdStats = {
+  threshold: number;
+  tp: number;
+  fp: number;
+  fn: number;
+  tn: number;
+  unknown: number;
+  /** tp / (tp + fp); null when nothing was accepted. */
+  precision: number | null;
+  /** tp / cases with a known right id; null when there are none. */
+  recall: number | null;
+};
+
+export type CaseMiss = {
+  platform: string;
+  external_id: string;
+  title: string;
+  outcome: "fp" | "fn";
+  predicted: MatchPrediction;
+  expected: number | null;
+};
+
+export type CalibrationReport = {
+  scorer: string;
+  current_threshold: number;
+  thresholds: number[];
+  cases: number;
+  overall: ThresholdStats[];
+  by_platform: Record<string, ThresholdStats[]>;
+  /** Wrong calls at the current threshold, for eyeballing. */
+  misses: CaseMiss[];
+};
+
+/** 0.50 … 1.00 in 0.05 steps plus the production thresholds. */
+export function defaultCalibrationThresholds(extra: number[] = []): number[] {
+  const steps = Array.from({ length: 11 }, (_, i) => Math.round((0.5 + i * 0.05) * 100) / 100);
+  return Array.from(
+    new Set([...steps, CONFIDENCE_THRESHOLD, MATCHER_AUTO_APPROVED_THRESHOLD, ...extra])
+  ).sort((a, b) => a - b);
+}
+
+function emptyStats(threshold: number): ThresholdStats {
+  return { threshold, tp: 0, fp: 0, fn: 0, tn: 0, unknown: 0, precision: null, recall: null };
+}
+
+function finish(s: ThresholdStats, positives: number): ThresholdStats {
+  const accepted = s.tp + s.fp;
+  return {
+    ...s,
+    precision: accepted ? s.tp / accepted : null,
+    recall: positives ? s.tp / positives : null,
+  };
+}
+
+export function calibrate(
+  cases: LabelledMatchCase[],
+  scorer: MatchScorer,
+  opts?: { thresholds?: number[] }
+): CalibrationReport {
+  const thresholds = opts?.thresholds ?? defaultCalibrationThresholds([scorer.current_threshold]);
+  const platforms = Array.from(new Set(cases.map((c) => c.platform))).sort();
+
+  const overall = thresholds.map(emptyStats);
+  const byPlatform: Record<string, ThresholdStats[]> = {};
+  for (const p of platforms) byPlatform[p] = thresholds.map(emptyStats);
+  const misses: CaseMiss[] = [];
+
+  for (const c of cases) {
+    thresholds.forEach((t, i) => {
+      const pred = scorer.predict(c, t);
+      const outcome = classifyPrediction(c, pred);
+      overall[i][outcome] += 1;
+      byPlatform[c.platform][i][outcome] += 1;
+      if (t === scorer.current_threshold && (outcome === "fp" || outcome === "fn")) {
+        misses.push({
+          platform: c.platform,
+          external_id: c.external_id,
+          title: c.title,
+          outcome,
+          predicted: pred,
+          expected: c.correct_igdb_game_id,
+        });
+      }
+    });
+  }
+
+  const positives = (pcases: LabelledMatchCase[]) => pcases.filter((c) => c.correct_igdb_game_id != null).length;
+  const allPositives = positives(cases);
+  const report: CalibrationReport = {
+    scorer: scorer.id,
+    current_threshold: scorer.current_threshold,
+    thresholds,
+    cases: cases.length,
+    overall: overall.map((s) => finish(s, allPositives)),
+    by_platform: {},
+    misses,
+  };
+  for (const p of platforms) {
+    const n = positives(cases.filter((c) => c.platform === p));
+    report.by_platform[p] = byPlatform[p].map((s) => finish(s, n));
+  }
+  return report;
+}
+
+/** Stats row for one threshold (overall or for a platform). */
+export function statsAt(report: CalibrationReport, threshold: number, platform?: string): ThresholdStats | null {
+  const rows = platform ? report.by_platform[platform] : report.overall;
+  return rows?.find((s) => s.threshold === threshold) ?? null;
+}
+
+function pct(v: number | null) {
+  return v == null ? "   —" : `${(v * 100).toFixed(0).padStart(3)}%`;
+}
+
+/** Plain-text table for test output / logs. The current threshold is marked with *. */
+export function formatCalibrationReport(report: CalibrationReport): string {
+  const lines = [`${report.scorer}: ${report.cases} labelled case(s), current threshold ${report.current_threshold}`];
+  const section = (name: string, rows: ThresholdStats[]) => {
+    lines.push(`  ${name}`);
+    lines.push("    thresh   prec  recall   tp  fp  fn  tn  ?");
+    for (const s of rows) {
+      const mark = s.threshold === report.current_threshold ? "*" : " ";
+      lines.push(
+        `   ${mark}${s.threshold.toFixed(2)}   ${pct(s.precision)}   ${pct(s.recall)}  ${[s.tp, s.fp, s.fn, s.tn, s.unknown]
+          .map((n) => String(n).padStart(3))
+          .join(" ")}`
+      );
+    }
+  };
+  section("all platforms", report.overall);
+  for (const [p, rows] of Object.entries(report.by_platform)) section(p, rows);
+  return lines.join("\n");
+}
+
+const DUMP_PAGE_SIZE = 1000;
+
+type SelectQuery = ReturnType<ReturnType<SupabaseClient["from"]>["select"]>;
+
+async function dumpTable<T = Record<string, unknown>>(
+  admin: SupabaseClient,
+  table: string,
+  cols: string,
+  maxRows: number,
+  filter?: (q: SelectQuery) => SelectQuery
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; from < maxRows; from += DUMP_PAGE_SIZE) {
+    let q: SelectQuery = admin.from(table).select<string, unknown>(cols).order("id", { ascending: true });
+    if (filter) q = filter(q);
+    const { data, error } = await q.range(from, Math.min(from + DUMP_PAGE_SIZE, maxRows) - 1);
+    if (error) throw new Error(`${table}: ${error.message}`);
+    rows.push(...((data ?? []) as T[]));
+    if ((data ?? []).length < DUMP_PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+/**
+ * Read the labelled history into a MatchHistoryDump. Only replayable attempts (with
+ * candidates_json) are included; rejects and overrides are included whole.
+ */
+export async function loadMatchHistoryDump(
+  admin: SupabaseClient,
+  opts: { maxAttempts: number; source?: string | null }
+): Promise<MatchHistoryDump> {
+  const attempts = await dumpTable<MatchHistoryDump["game_match_attempts"][number]>(
+    admin,
+    "game_match_attempts",
+    "id, source, external_id, title_used, igdb_game_id_candidate, confidence, outcome, candidates_json, review_decision, reviewed_igdb_game_id, created_at",
+    opts.maxAttempts,
+    (q) => {
+      let f = q.not("candidates_json", "is", null);
+      if (opts.source) f = f.eq("source", opts.source);
+      return f;
+    }
+  );
+  const rejects = await dumpTable(admin, "igdb_match_rejects", "id, platform_key, external_id, igdb_game_id", 50_000, (q) =>
+    opts.source ? q.eq("platform_key", opts.source) : q
+  );
+  const overrides = await dumpTable(admin, "manual_igdb_overrides", "id, source, external_id, igdb_game_id", 50_000, (q) =>
+    opts.source ? q.eq("source", opts.source) : q
+  );
+  return {
+    dumped_at: new Date().toISOString(),
+    game_match_attempts: attempts.map((a) => ({
+      ...a,
+      confidence: a.confidence != null ? Number(a.confidence) : null,
+      igdb_game_id_candidate: a.igdb_game_id_candidate != null ? Number(a.igdb_game_id_candidate) : null,
+      reviewed_igdb_game_id: a.reviewed_igdb_game_id != null ? Number(a.reviewed_igdb_game_id) : null,
+    })),
+    igdb_match_rejects: rejects.map((r) => ({
+      platform_key: String(r.platform_key),
+      external_id: String(r.external_id),
+      igdb_game_id: Number(r.igdb_game_id),
+    })),
+    manual_igdb_overrides: overrides.map((o) => ({
+      source: String(o.source),
+      external_id: String(o.external_id),
+      igdb_game_id: Number(o.igdb_game_id),
+    })),
+  };
+}
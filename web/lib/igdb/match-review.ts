@@ -0,0 +1,429 @@
+/**
+ * Candidate review queue over game_match_attempts (/admin/match-review).
+ *
+ * Queue = attempts with a best candidate, outcome pending/rejected and no review yet, best
+ * confidence first. An admin picks one candidate (or rejects them all); the pick is committed like
+ * a manual override: the attempt's placeholder game gets the IGDB id + metadata (or is merged into
+ * the game that already has it), game_external_ids and manual_igdb_overrides point the platform id
+ * at it so later syncs agree. Game changes go through catalog_audit_log and can be reverted.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { igdbFetchGameById, normalizeCanonicalTitle, shouldOverwriteCover } from "@/lib/igdb/server";
+import type { MatchReasons, ReviewCandidate } from "@/lib/igdb/match-validation";
+import { mergeGamesInto } from "@/lib/merge-games-into";
+import { stampMetadataSources } from "@/lib/metadata/sources";
+import {
+  beginCatalogAudit,
+  completeCatalogAudit,
+  snapshotPatchedRows,
+  type CatalogActor,
+} from "@/lib/catalog/audit";
+
+export type MatchReviewItem = {
+  id: string;
+  source: string;
+  external_id: string;
+  title_used: string | null;
+  game_id: string | null;
+  outcome: string;
+  confidence: number | null;
+  best_igdb_game_id: number;
+  candidates: ReviewCandidate[];
+  /** Best candidate trips bundle_mismatch or category_guardrail: bulk approve leaves these alone. */
+  flagged: boolean;
+  created_at: string;
+};
+
+export type MatchReviewPage = {
+  items: MatchReviewItem[];
+  next_cursor: string | null;
+  has_more: boolean;
+};
+
+export type MatchReviewOutcome<T> = { ok: true; result: T } | { ok: false; status: number; error: string };
+
+const QUEUE_COLS =
+  "id, source, external_id, title_used, game_id, igdb_game_id_candidate, confidence, reasons_json, candidates_json, outcome, created_at, reviewed_at";
+
+/** A game_match_attempts row as QUEUE_COLS selects it. */
+type MatchAttemptRow = {
+  id: string | number;
+  source: string;
+  external_id: string;
+  title_used: string | null;
+  game_id: string | null;
+  igdb_game_id_candidate: string | number | null;
+  confidence: string | number | null;
+  reasons_json: Record<string, unknown> | null;
+  candidates_json: unknown;
+  outcome: string;
+  created_at: string;
+  reviewed_at?: string | null;
+};
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+/**
+ * One queue row as a review item. Attempts from before candidates_json only know the best id and
+ * its reasons.
+ */
+export function toMatchReviewItem(r: MatchAttemptRow): MatchReviewItem {
+  const best = Number(r.igdb_game_id_candidate);
+  const candidates: ReviewCandidate[] =
+    Array.isArray(r.candidates_json) && r.candidates_json.length
+      ? (r.candidates_json as ReviewCandidate[])
+      : [
+          {
+            igdb_game_id: best,
+            title: `IGDB #${best}`,
+            first_release_year: null,
+            cover_url: null,
+            platforms: [],
+            category: null,
+            confidence: Number(r.confidence ?? 0),
+            reasons: r.reasons_json && !("scored" in r.reasons_json) ? (r.reasons_json as MatchReasons) : {},
+          },
+        ];
+  const top = candidates.find((c) => c.igdb_game_id === best) ?? candidates[0];
+  return {
+    id: String(r.id),
+    source: String(r.source),
+    external_id: String(r.external_id),
+    title_used: r.title_used ?? null,
+    game_id: r.game_id ? String(r.game_id) : null,
+    outcome: String(r.outcome),
+    confidence: r.confidence != null ? Number(r.confidence) : null,
+    best_igdb_game_id: best,
+    candidates,
+    flagged: !!(top?.reasons?.bundle_mismatch || top?.reasons?.category_guardrail),
+    created_at: String(r.created_at),
+  };
+}
+
+function queueQuery(admin: SupabaseClient, opts: { source?: string | null; min_confidence?: number | null }) {
+  let q = admin
+    .from("game_match_attempts")
+    .select(QUEUE_COLS)
+    .is("reviewed_at", null)
+    .not("igdb_game_id_candidate", "is", null)
+    .in("outcome", ["pending", "rejected"]);
+  if (opts.source) q = q.eq("source", opts.source);
+  if (opts.min_confidence != null) q = q.gte("confidence", opts.min_confidence);
+  return q;
+}
+
+/** A title re-synced several times has several open attempts; keep the newest of each, in queue order. */
+export function newestAttempts<T extends { source: unknown; external_id: unknown; created_at: unknown }>(rows: T[]): T[] {
+  const newest = new Map<string, T>();
+  for (const r of rows) {
+    const key = `${r.source}|${r.external_id}`;
+    const seen = newest.get(key);
+    if (!seen || String(r.created_at) > String(seen.created_at)) newest.set(key, r);
+  }
+  return rows.filter((r) => newest.get(`${r.source}|${r.external_id}`) === r);
+}
+
+/** Cursor = "<confidence>|<id>" of the last item (queue is confidence desc, id asc). */
+export async function listMatchReviewQueue(
+  admin: SupabaseClient,
+  opts: { source?: string | null; min_confidence?: number | null; cursor?: string | null; limit: number }
+): Promise<MatchReviewPage> {
+  let q = queueQuery(admin, opts)
+    .order("confidence", { ascending: false, nullsFirst: false })
+    .order("id", { ascending: true })
+    .limit(opts.limit + 1);
+
+  if (opts.cursor) {
+    const [conf, id] = opts.cursor.split("|");
+    if (id && Number.isFinite(Number(conf))) {
+      q = q.or(`confidence.lt.${Number(conf)},and(confidence.eq.${Number(conf)},id.gt.${id})`);
+    }
+  }
+
+  const { data, error } = await q;
+  if (error) throw new Error(`game_match_attempts: ${error.message}`);
+
+  const rows = (data ?? []) as MatchAttemptRow[];
+  const has_more = rows.length > opts.limit;
+  const page = rows.slice(0, opts.limit);
+  const last = page[page.length - 1];
+
+  return {
+    items: newestAttempts(page).map(toMatchReviewItem),
+    next_cursor: has_more && last ? `${Number(last.confidence ?? 0)}|${last.id}` : null,
+    has_more,
+  };
+}
+
+async function loadOpenAttempt(admin: SupabaseClient, attemptId: string): Promise<MatchReviewOutcome<MatchAttemptRow>> {
+  const { data, error } = await admin
+    .from("game_match_attempts")
+    .select(QUEUE_COLS)
+    .eq("id", attemptId)
+    .maybeSingle<MatchAttemptRow>();
+  if (error) throw new Error(`game_match_attempts: ${error.message}`);
+  return openAttempt(data);
+}
+
+/** Only attempts nobody reviewed yet can be picked or rejected. */
+export function openAttempt<T extends { reviewed_at?: string | null }>(row: T | null): MatchReviewOutcome<T> {
+  if (!row) return { ok: false, status: 404, error: "Match attempt not found" };
+  if (row.reviewed_at) return { ok: false, status: 409, error: "Match attempt was already reviewed" };
+  return { ok: true, result: row };
+}
+
+export type ReviewDecision = {
+  review_decision: "picked" | "rejected_all";
+  reviewed_by: string | null;
+  igdb_game_id?: number;
+  game_id?: string;
+};
+
+/** The columns closeAttempts stamps: a pick accepts the attempt, a reject-all rejects it for good. */
+export function reviewDecisionPatch(decision: ReviewDecision, now: string): Record<string, unknown> {
+  const patch: Record<string, unknown> = {
+    reviewed_at: now,
+    reviewed_by: decision.reviewed_by,
+    review_decision: decision.review_decision,
+    outcome: decision.review_decision === "picked" ? "accepted" : "rejected",
+    resolved_at: now,
+  };
+  if (decision.igdb_game_id != null) patch.reviewed_igdb_game_id = decision.igdb_game_id;
+  if (decision.game_id) patch.game_id = decision.game_id;
+  return patch;
+}
+
+/** Stamp the decision on every open attempt for this platform item. */
+async function closeAttempts(admin: SupabaseClient, attempt: { source: string; external_id: string }, decision: ReviewDecision) {
+  const { error } = await admin
+    .from("game_match_attempts")
+    .update(reviewDecisionPatch(decision, nowIso()))
+    .eq("source", attempt.source)
+    .eq("external_id", attempt.external_id)
+    .is("reviewed_at", null);
+  if (error) throw new Error(`game_match_attempts update: ${error.message}`);
+}
+
+/**
+ * Commit one candidate for an attempt. Returns the game the platform item now resolves to and the
+ * catalog_audit_log entry for the game change.
+ */
+export async function pickMatchCandidate(
+  admin: SupabaseClient,
+  attemptId: string,
+  igdbGameId: number,
+  actor: CatalogActor
+): Promise<MatchReviewOutcome<{ game_id: string; igdb_game_id: number; audit_id: string | null }>> {
+  const open = await loadOpenAttempt(admin, attemptId);
+  if (!open.ok) return open;
+  const attempt = open.result;
+  const source = String(attempt.source);
+  const externalId = String(attempt.external_id);
+
+  const hit = await igdbFetchGameById(igdbGameId);
+  if (!hit) return { ok: false, status: 404, error: `IGDB game ${igdbGameId} not found` };
+
+  const now = nowIso();
+  const rawTitle = String(attempt.title_used ?? "").trim() || hit.title;
+  const patch: Record<string, unknown> = {
+    igdb_game_id: igdbGameId,
+    canonical_title: normalizeCanonicalTitle(String(hit.title || rawTitle).trim() || rawTitle),
+    match_status: "verified",
+    match_method: "manual",
+    matched_at: now,
+    updated_at: now,
+  };
+  if (hit.summary != null) patch.summary = hit.summary;
+  if (hit.developer != null) patch.developer = hit.developer;
+  if (hit.publisher != null) patch.publisher = hit.publisher;
+  if (hit.first_release_year != null) patch.first_release_year = hit.first_release_year;
+  if (Array.isArray(hit.genres) && hit.genres.length) patch.genres = hit.genres;
+  if (hit.cover_url) patch.cover_url = hit.cover_url;
+  if (hit.category != null) patch.igdb_category = hit.category;
+
+  const { data: owner, error: ownerErr } = await admin
+    .from("games")
+    .select("id, cover_url")
+    .eq("igdb_game_id", igdbGameId)
+    .maybeSingle();
+  if (ownerErr) throw new Error(`games lookup: ${ownerErr.message}`);
+
+  const placeholderId: string | null = attempt.game_id ? String(attempt.game_id) : null;
+  let gameId: string;
+  let auditId: string | null = null;
+
+  if (owner?.id && placeholderId && String(owner.id) !== placeholderId) {
+    // Another game already is this IGDB title: fold the placeholder into it.
+    const merged = await mergeGamesInto(admin, String(owner.id), [placeholderId], actor);
+    if (!merged.ok) return { ok: false, status: 500, error: merged.error };
+    gameId = String(owner.id);
+    auditId = merged.audit_id;
+  } else {
+    gameId = owner?.id ? String(owner.id) : placeholderId ?? "";
+    if (!gameId) {
+      patch.metadata_sources = stampMetadataSources(null, patch, "igdb");
+      const { data: inserted, error: insErr } = await admin.from("games").insert(patch).select("id").single();
+      if (insErr) throw new Error(`game insert: ${insErr.message}`);
+      gameId = String(inserted.id);
+    } else {
+      const { data: current } = await admin.from("games").select("cover_url, metadata_sources").eq("id", gameId).maybeSingle();
+      if (current?.cover_url && !shouldOverwriteCover(current.cover_url)) delete patch.cover_url;
+      patch.metadata_sources = stampMetadataSources(current?.metadata_sources, patch, "igdb");
+
+      const before = await snapshotPatchedRows(admin, "games", ["id"], Object.keys(patch), (q) => q.eq("id", gameId));
+      auditId = await beginCatalogAudit(admin, {
+        action: "igdb_pin",
+        actor,
+        target_type: "game",
+        target_id: gameId,
+        before: { rows: before },
+      });
+      const { error: updErr } = await admin.from("games").update(patch).eq("id", gameId);
+      if (updErr) {
+        await completeCatalogAudit(admin, auditId, { error: updErr.message });
+        throw new Error(`games update: ${updErr.message}`);
+      }
+      await completeCatalogAudit(admin, auditId, { after: { games: patch, match_attempt_id: attemptId } });
+    }
+  }
+
+  // Point the platform id at the game and pin it for future syncs.
+  const { error: extErr } = await admin.from("game_external_ids").upsert(
+    { source, external_id: externalId, game_id: gameId, confidence: 1, match_source: "manual", matched_at: now },
+    { onConflict: "source,external_id" }
+  );
+  if (extErr) throw new Error(`game_external_ids upsert: ${extErr.message}`);
+  const { error: ovErr } = await admin
+    .from("manual_igdb_overrides")
+    .upsert({ source, external_id: externalId, igdb_game_id: igdbGameId }, { onConflict: "source,external_id" });
+  if (ovErr) throw new Error(`manual_igdb_overrides upsert: ${ovErr.message}`);
+
+  await closeAttempts(admin, attempt, {
+    review_decision: "picked",
+    reviewed_by: actor.id,
+    igdb_game_id: igdbGameId,
+    game_id: gameId,
+  });
+  return { ok: true, result: { game_id: gameId, igdb_game_id: igdbGameId, audit_id: auditId } };
+}
+
+/** None of the candidates is right: close the attempt(s); the game stays title-only. */
+export async function rejectMatchCandidates(
+  admin: SupabaseClient,
+  attemptId: string,
+  reviewerId: string | null
+): Promise<MatchReviewOutcome<{ id: string }>> {
+  const open = await loadOpenAttempt(admin, attemptId);
+  if (!open.ok) return open;
+  await closeAttempts(admin, open.result, { review_decision: "rejected_all", reviewed_by: reviewerId });
+  if (open.result.game_id) {
+    await admin
+      .from("games")
+      .update({ match_status: "unmatched", updated_at: nowIso() })
+      .eq("id", open.result.game_id)
+      .is("igdb_game_id", null);
+  }
+  return { ok: true, result: { id: attemptId } };
+}
+
+export type BulkApproveResult = {
+  dry_run: boolean;
+  min_confidence: number;
+  considered: number;
+  approved: number;
+  skipped_flagged: number;
+  failed: Array<{ id: string; error: string }>;
+  sample: Array<{ id: string; title_used: string | null; igdb_game_id: number; title: string; confidence: number | null }>;
+};
+
+/**
+ * What bulk approve does with one queued item: commit its best candidate, or leave it for a person
+ * because it is under the threshold or its best candidate is flagged.
+ */
+export function bulkApproveDecision(
+  it: MatchReviewItem,
+  opts: { min_confidence: number; include_flagged?: boolean }
+): { approve: true; best: ReviewCandidate | null } | { approve: false; reason: "below_threshold" | "flagged" } {
+  if (it.confidence == null || it.confidence < opts.min_confidence) return { approve: false, reason: "below_threshold" };
+  if (it.flagged && !opts.include_flagged) return { approve: false, reason: "flagged" };
+  const best = it.candidates.find((c) => c.igdb_game_id === it.best_igdb_game_id) ?? it.candidates[0] ?? null;
+  return { approve: true, best };
+}
+
+/**
+ * Approve the best candidate of every queued attempt at or above `min_confidence` (up to `limit`
+ * approvals per call; in dry runs `approved` is how many would be). Attempts whose best candidate is flagged (bundle/category guardrail) are skipped
+ * unless include_flagged.
+ */
+export async function bulkApproveMatchAttempts(
+  admin: SupabaseClient,
+  opts: {
+    min_confidence: number;
+    source?: string | null;
+    include_flagged?: boolean;
+    dry_run: boolean;
+    limit: number;
+  },
+  actor: CatalogActor
+): Promise<BulkApproveResult> {
+  const out: BulkApproveResult = {
+    dry_run: opts.dry_run,
+    min_confidence: opts.min_confidence,
+    considered: 0,
+    approved: 0,
+    skipped_flagged: 0,
+    failed: [],
+    sample: [],
+  };
+
+  // Walk the queue with its own cursor so flagged attempts we skip don't stall later calls.
+  const seen = new Set<string>();
+  let cursor: string | null = null;
+  while (out.approved + out.failed.length < opts.limit) {
+    const page = await listMatchReviewQueue(admin, {
+      source: opts.source,
+      min_confidence: opts.min_confidence,
+      cursor,
+      limit: 200,
+    });
+    for (const it of page.items) {
+      if (out.approved + out.failed.length >= opts.limit) break;
+      const key = `${it.source}|${it.external_id}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      out.considered += 1;
+
+      const decision = bulkApproveDecision(it, opts);
+      if (!decision.approve) {
+        if (decision.reason === "flagged") out.skipped_flagged += 1;
+        continue;
+      }
+      if (out.sample.length < 20) {
+        out.sample.push({
+          id: it.id,
+          title_used: it.title_used,
+          igdb_game_id: it.best_igdb_game_id,
+          title: decision.best?.title ?? "",
+          confidence: it.confidence,
+        });
+      }
+      if (opts.dry_run) {
+        out.approved += 1;
+        continue;
+      }
+      try {
+        const res = await pickMatchCandidate(admin, it.id, it.best_igdb_game_id, actor);
+        if (res.ok) out.approved += 1;
+        else out.failed.push({ id: it.id, error: res.error });
+      } catch (e) {
+        out.failed.push({ id: it.id, error: e instanceof Error ? e.message : "approve failed" });
+      }
+    }
+    if (!page.has_more || !page.next_cursor) break;
+    cursor = page.next_cursor;
+  }
+  return out;
+}
@@ -14,7 +14,8 @@ import {
 } from "./server";
 import type { IgdbHit } from "./server";
 
-const CONFIDENCE_THRESHOLD = 0.7;
+/** resolveGameWithValidation commits at or above this. Calibrate with lib/igdb/calibration.ts. */
+export const CONFIDENCE_THRESHOLD = 0.7;
 /** IGDB category 0 = main_game. Reject dlc/bundle/expansion for canonical game. */
 const MAIN_GAME_CATEGORY = 0;
 
@@ -100,6 +101,57 @@ export function scoreCandidate(hit: IgdbHit, queryTitle: string): ScoredCandidat
   return { hit, confidence, reasons };
 }
 
+/**
+ * Which candidate resolveGameWithValidation would take: the first (IGDB order) that clears the
+ * threshold and both guardrails, else the first candidate for the attempt log. accepted = commit it.
+ */
+export function pickValidatedCandidate(
+  candidates: IgdbHit[],
+  queryTitle: string,
+  threshold: number = CONFIDENCE_THRESHOLD
+): { best: ScoredCandidate | null; scored: ScoredCandidate[]; accepted: boolean } {
+  const scored = candidates.map((hit) => scoreCandidate(hit, queryTitle));
+  const passes = (s: ScoredCandidate) =>
+    s.confidence >= threshold && !s.reasons.bundle_mismatch && !s.reasons.category_guardrail;
+  const best = scored.find(passes) ?? scored[0] ?? null;
+  return { best, scored, accepted: best != null && passes(best) };
+}
+
+/** One candidate as stored in game_match_attempts.candidates_json for /admin/match-review. */
+export type ReviewCandidate = {
+  igdb_game_id: number;
+  title: string;
+  first_release_year: number | null;
+  cover_url: string | null;
+  platforms: string[];
+  category: number | null;
+  confidence: number;
+  reasons: MatchReasons;
+};
+
+/**
+ * Evidence for the review queue: every hit with its MatchReasons. `confidence` overrides the
+ * validation score when the caller ranked hits differently (igdbSearchBest scores).
+ */
+export function reviewCandidates(
+  hits: Array<{ hit: IgdbHit; confidence?: number }>,
+  queryTitle: string
+): ReviewCandidate[] {
+  return hits.map(({ hit, confidence }) => {
+    const scored = scoreCandidate(hit, queryTitle);
+    return {
+      igdb_game_id: hit.igdb_game_id,
+      title: hit.title,
+      first_release_year: hit.first_release_year ?? null,
+      cover_url: hit.cover_url ?? null,
+      platforms: hit.platform_names ?? [],
+      category: hit.category ?? null,
+      confidence: confidence ?? scored.confidence,
+      reasons: scored.reasons,
+    };
+  });
+}
+
 /**
  * Check manual override (source, external_id) -> igdb_game_id. Returns igdb_game_id or null.
  */
@@ -131,6 +183,7 @@ export async function insertMatchAttempt(
     igdb_game_id_candidate?: number | null;
     confidence?: number | null;
     reasons_json?: Record<string, unknown> | null;
+    candidates_json?: ReviewCandidate[] | null;
     outcome: string;
     resolved_at?: string | null;
   }
@@ -143,6 +196,7 @@ export async function insertMatchAttempt(
     igdb_game_id_candidate: row.igdb_game_id_candidate ?? null,
     confidence: row.confidence ?? null,
     reasons_json: row.reasons_json ?? null,
+    candidates_json: row.candidates_json ?? null,
     outcome: row.outcome,
     resolved_at: row.resolved_at ?? null,
   });
@@ -222,20 +276,11 @@ export async function resolveGameWithValidation(
     return { game_id: game.game_id, igdb_game_id: null };
   }
 
-  const scored = candidates.map((hit) => scoreCandidate(hit, raw));
-  const valid = scored.filter(
-    (s) =>
-      s.confidence >= CONFIDENCE_THRESHOLD &&
-      !s.reasons.bundle_mismatch &&
-      !s.reasons.category_guardrail
-  );
-  const best = valid[0] ?? scored[0];
+  const { best: picked, scored, accepted } = pickValidatedCandidate(candidates, raw);
+  const best = picked!;
+  const evidence = reviewCandidates(scored.map((s) => ({ hit: s.hit, confidence: s.confidence })), raw);
 
-  if (
-    best.confidence >= CONFIDENCE_THRESHOLD &&
-    !best.reasons.bundle_mismatch &&
-    !best.reasons.category_guardrail
-  ) {
+  if (accepted) {
     const game = await commitIgdbMatch(admin, best.hit, raw);
     await insertMatchAttempt(admin, {
       source,
@@ -245,6 +290,7 @@ export async function resolveGameWithValidation(
       igdb_game_id_candidate: best.hit.igdb_game_id,
       confidence: best.confidence,
       reasons_json: best.reasons,
+      candidates_json: evidence,
       outcome: "accepted",
       resolved_at: new Date().toISOString(),
     });
@@ -260,6 +306,7 @@ export async function resolveGameWithValidation(
     igdb_game_id_candidate: best.hit.igdb_game_id,
     confidence: best.confidence,
     reasons_json: best.reasons,
+    candidates_json: evidence,
     outcome: "rejected",
     resolved_at: new Date().toISOString(),
   });
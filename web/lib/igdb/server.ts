@@ -1,3 +1,5 @@
+import { stampMetadataSources } from "@/lib/metadata/sources";
+
 export type IgdbHit = {
     igdb_game_id: number;
     title: string;
@@ -11,7 +13,16 @@ export type IgdbHit = {
     category?: number | null;
     /** Platform names from IGDB (e.g. "Nintendo Entertainment System") for retro platform filter */
     platform_names?: string[];
+    /** Lineage for game_relations (lib/catalog/relations.ts): original of a remake/remaster/port, and the reverse lists. */
+    parent_game_id?: number | null;
+    remake_ids?: number[];
+    remaster_ids?: number[];
+    port_ids?: number[];
+    collections?: IgdbSeriesRef[];
+    franchises?: IgdbSeriesRef[];
   };
+
+export type IgdbSeriesRef = { igdb_id: number; name: string; slug: string | null };
   
   function normalizeCover(url: string | null) {
     if (!url) return null;
@@ -63,7 +74,15 @@ export type IgdbHit = {
     involved_companies.developer,
     involved_companies.publisher,
     cover.url,
-    platforms.name`;
+    platforms.name,
+    parent_game,
+    remakes,
+    remasters,
+    ports,
+    collections.name,
+    collections.slug,
+    franchises.name,
+    franchises.slug`;
 
   /** One IGDB search; returns parsed games array or null. */
   async function igdbSearchOne(query: string): Promise<any[] | null> {
@@ -113,6 +132,49 @@ export type IgdbHit = {
     return buildHitFromGame(json[0], String(igdbGameId));
   }
 
+  export type IgdbSeriesEntry = { igdb_game_id: number; title: string; first_release_year: number | null };
+
+  /**
+   * Mainline entries (category 0 main games) of an IGDB collection or franchise, oldest first.
+   * Returns null without credentials or when the series is unknown; used for game_series.
+   */
+  export async function igdbFetchSeriesMainline(
+    kind: "collection" | "franchise",
+    igdbId: number
+  ): Promise<{ name: string; slug: string | null; mainline: IgdbSeriesEntry[] } | null> {
+    if (!IGDB_CLIENT_ID || !IGDB_ACCESS_TOKEN || !Number.isFinite(igdbId) || igdbId <= 0) return null;
+    const post = async (endpoint: string, body: string): Promise<Record<string, unknown>[] | null> => {
+      const res = await fetch(`https://api.igdb.com/v4/${endpoint}`, {
+        method: "POST",
+        headers: {
+          "Client-ID": IGDB_CLIENT_ID,
+          Authorization: `Bearer ${IGDB_ACCESS_TOKEN}`,
+          "Content-Type": "text/plain",
+        },
+        body,
+        cache: "no-store",
+      });
+      const text = await res.text();
+      const json = text ? JSON.parse(text) : null;
+      return res.ok && Array.isArray(json) ? json : null;
+    };
+
+    const series = (await post(kind === "collection" ? "collections" : "franchises", `where id = ${igdbId}; fields name, slug, games; limit 1;`))?.[0];
+    if (!series?.name) return null;
+    const gameIds = (Array.isArray(series.games) ? series.games : []).map(Number).filter((n: number) => Number.isFinite(n) && n > 0);
+    const games = gameIds.length
+      ? (await post("games", `where id = (${gameIds.join(",")}) & category = 0; fields id, name, first_release_date; limit 500;`)) ?? []
+      : [];
+    const mainline = games
+      .map((g) => ({
+        igdb_game_id: Number(g.id),
+        title: String(g.name ?? ""),
+        first_release_year: typeof g?.first_release_date === "number" ? new Date(g.first_release_date * 1000).getUTCFullYear() : null,
+      }))
+      .sort((a, b) => (a.first_release_year ?? 9999) - (b.first_release_year ?? 9999) || a.igdb_game_id - b.igdb_game_id);
+    return { name: String(series.name), slug: series.slug ? String(series.slug) : null, mainline };
+  }
+
   /** Exact slug match; use when search returns nothing or messy. */
   async function igdbWhereSlug(slug: string): Promise<any[] | null> {
     if (!IGDB_CLIENT_ID || !IGDB_ACCESS_TOKEN || !slug) return null;
@@ -153,6 +215,15 @@ export type IgdbHit = {
     const platformNames = Array.isArray(g?.platforms)
       ? g.platforms.map((p: any) => p?.name).filter(Boolean)
       : [];
+    const ids = (v: unknown): number[] =>
+      Array.isArray(v) ? v.map((x) => Number(typeof x === "object" && x ? (x as { id?: unknown }).id : x)).filter((n) => Number.isFinite(n) && n > 0) : [];
+    const seriesRefs = (v: unknown): IgdbSeriesRef[] =>
+      Array.isArray(v)
+        ? v
+            .filter((x) => x?.id != null && x?.name)
+            .map((x) => ({ igdb_id: Number(x.id), name: String(x.name), slug: x.slug ? String(x.slug) : null }))
+        : [];
+    const parentId = Number(typeof g?.parent_game === "object" && g?.parent_game ? g.parent_game.id : g?.parent_game);
     return {
       igdb_game_id: Number(g.id),
       title: String(g.name || fallbackTitle),
@@ -164,6 +235,12 @@ export type IgdbHit = {
       cover_url: normalizeCover(g?.cover?.url ?? null) ?? (g?.cover?.image_id ? `https://images.igdb.com/igdb/image/upload/t_cover_big/${g.cover.image_id}.jpg` : null),
       category: g?.category != null ? Number(g.category) : null,
       platform_names: platformNames.length ? platformNames : undefined,
+      parent_game_id: Number.isFinite(parentId) && parentId > 0 ? parentId : null,
+      remake_ids: ids(g?.remakes),
+      remaster_ids: ids(g?.remasters),
+      port_ids: ids(g?.ports),
+      collections: seriesRefs(g?.collections),
+      franchises: seriesRefs(g?.franchises),
     };
   }
 
@@ -419,8 +496,6 @@ export type IgdbHit = {
     admin?: { from: (t: string) => any }
   ): Promise<IgdbSearchBestResult> {
     const rawTitle = options?.rawTitle ?? title;
-    const cleaned = cleanTitleForIgdb(rawTitle);
-    const yearHint = extractYearFromTitle(rawTitle) ? parseInt(extractYearFromTitle(rawTitle)!, 10) : undefined;
 
     let searchTitle = title;
     if (options?.useGameTitleAlias && admin) {
@@ -429,7 +504,21 @@ export type IgdbHit = {
     }
 
     const rawHits = await igdbSearchCandidates(searchTitle, { rawTitle, limit: 10 });
-    const result = pickBestCandidate(rawHits, rawTitle, cleaned || rawTitle, yearHint, options?.platformHint ?? undefined);
+    return scoreSearchCandidates(rawHits, rawTitle, options?.platformHint);
+  }
+
+  /**
+   * The scoring half of igdbSearchBest, with no network: rank already-fetched hits for rawTitle.
+   * Exported so the calibration harness (lib/igdb/calibration.ts) replays exactly what the matcher does.
+   */
+  export function scoreSearchCandidates(
+    rawHits: IgdbHit[],
+    rawTitle: string,
+    platformHint?: string | null
+  ): IgdbSearchBestResult {
+    const cleaned = cleanTitleForIgdb(rawTitle);
+    const yearHint = extractYearFromTitle(rawTitle) ? parseInt(extractYearFromTitle(rawTitle)!, 10) : undefined;
+    const result = pickBestCandidate(rawHits, rawTitle, cleaned || rawTitle, yearHint, platformHint ?? undefined);
     const scored = "scored" in result ? result.scored : [];
     const best = scored[0];
     return {
@@ -439,6 +528,17 @@ export type IgdbHit = {
     };
   }
 
+  /** /api/admin/matcher/run confirms a mapping at or above this score (and only if passesMatcherSanityCheck). */
+  export const MATCHER_AUTO_APPROVED_THRESHOLD = 0.92;
+
+  /** Sanity: do not auto-confirm if best hit title is empty or year is in the future. */
+  export function passesMatcherSanityCheck(hit: { title?: string | null; first_release_year?: number | null } | null): boolean {
+    if (!hit?.title || String(hit.title).trim().length === 0) return false;
+    const year = hit.first_release_year != null ? Number(hit.first_release_year) : null;
+    if (year != null && (year < 1970 || year > new Date().getFullYear() + 1)) return false;
+    return true;
+  }
+
   /** Internal: fetch top N IGDB hits (no scoring). Used by igdbSearchCandidates. */
   async function igdbSearchBestRaw(title: string, rawTitle: string, limit = 10): Promise<IgdbHit[]> {
     return igdbSearchCandidates(title, { rawTitle, limit });
@@ -847,9 +947,14 @@ limit ${limit};
         if (meta?.category != null) patch.igdb_category = meta.category;
         const { data: otherGame } = await admin.from("games").select("id").eq("igdb_game_id", overrideIgdbId).neq("id", gameId).maybeSingle();
         if (otherGame?.id) await admin.from("games").update({ igdb_game_id: null, updated_at: matchNow }).eq("id", otherGame.id);
-        const { data: gameRow } = await admin.from("games").select("cover_url").eq("id", gameId).single();
+        const { data: gameRow } = await admin.from("games").select("cover_url, metadata_sources").eq("id", gameId).single();
         if (gameRow?.cover_url && !shouldOverwriteCover(gameRow.cover_url)) delete patch.cover_url;
+        patch.metadata_sources = stampMetadataSources(gameRow?.metadata_sources, patch, "igdb");
         await admin.from("games").update(patch).eq("id", gameId);
+        if (meta) {
+          const { recordGameRelationsBestEffort } = await import("@/lib/catalog/relations");
+          await recordGameRelationsBestEffort(admin, gameId, meta);
+        }
         await admin.from("igdb_match_attempts").insert({
           platform_key: opts.platform_key,
           external_id: String(opts.external_id),
@@ -974,10 +1079,13 @@ limit ${limit};
         if (otherGame?.id) {
           await admin.from("games").update({ igdb_game_id: null, updated_at: matchNow }).eq("id", otherGame.id);
         }
-        const { data: gameRow } = await admin.from("games").select("cover_url").eq("id", gameId).single();
+        const { data: gameRow } = await admin.from("games").select("cover_url, metadata_sources").eq("id", gameId).single();
         if (gameRow?.cover_url && !shouldOverwriteCover(gameRow.cover_url)) delete patch.cover_url;
+        patch.metadata_sources = stampMetadataSources(gameRow?.metadata_sources, patch, "igdb");
         const { error: updErr } = await admin.from("games").update(patch).eq("id", gameId);
         if (updErr) throw new Error(`game update igdb_game_id: ${updErr.message}`);
+        const { recordGameRelationsBestEffort } = await import("@/lib/catalog/relations");
+        await recordGameRelationsBestEffort(admin, gameId, hit);
         await admin.from("igdb_match_attempts").insert({
           platform_key: platformKey,
           external_id: opts?.external_id ?? null,
@@ -1035,6 +1143,7 @@ limit ${limit};
     });
 
     if (confidence < AUTO_MATCH_THRESHOLD && opts?.source != null && opts?.external_id != null) {
+      const { reviewCandidates } = await import("./match-validation");
       await admin.from("game_match_attempts").insert({
         source: opts.source,
         external_id: String(opts.external_id),
@@ -1043,6 +1152,7 @@ limit ${limit};
         igdb_game_id_candidate: bestHit?.igdb_game_id ?? null,
         confidence,
         reasons_json: matchDebug(result) ? { scored: matchDebug(result) } : null,
+        candidates_json: scored.length ? reviewCandidates(scored.map((s) => ({ hit: s.hit, confidence: s.score })), raw) : null,
         outcome: confidence >= NEEDS_REVIEW_THRESHOLD ? "pending" : "rejected",
       });
     }
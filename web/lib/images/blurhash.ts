@@ -0,0 +1,156 @@
+// lib/images/blurhash.ts
+
+/**
+ * BlurHash (https://blurha.sh) encode/decode. Encode runs in the cover pipeline on a ~32px RGBA
+ * thumbnail; decode runs in the browser to paint card placeholders while the real cover loads.
+ * No dependencies so client components can import it.
+ */
+
+const CHARS = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~";
+
+function encode83(n: number, length: number): string {
+  let out = "";
+  for (let i = 1; i <= length; i++) {
+    const digit = Math.floor(n / Math.pow(83, length - i)) % 83;
+    out += CHARS[digit];
+  }
+  return out;
+}
+
+function decode83(s: string): number {
+  let value = 0;
+  for (const c of s) {
+    const digit = CHARS.indexOf(c);
+    if (digit < 0) throw new Error(`blurhash: invalid character '${c}'`);
+    value = value * 83 + digit;
+  }
+  return value;
+}
+
+function sRGBToLinear(v: number): number {
+  const x = v / 255;
+  return x <= 0.04045 ? x / 12.92 : Math.pow((x + 0.055) / 1.055, 2.4);
+}
+
+function linearToSRGB(v: number): number {
+  const x = Math.max(0, Math.min(1, v));
+  return x <= 0.0031308 ? Math.trunc(x * 12.92 * 255 + 0.5) : Math.trunc((1.055 * Math.pow(x, 1 / 2.4) - 0.055) * 255 + 0.5);
+}
+
+function signPow(v: number, exp: number): number {
+  return Math.sign(v) * Math.pow(Math.abs(v), exp);
+}
+
+/** RGBA pixels (4 bytes per pixel) → hash. Components 1..9 per axis; 4x3 suits portrait covers. */
+export function encodeBlurhash(
+  pixels: Uint8Array | Uint8ClampedArray,
+  width: number,
+  height: number,
+  componentsX = 4,
+  componentsY = 3
+): string {
+  if (componentsX < 1 || componentsX > 9 || componentsY < 1 || componentsY > 9) {
+    throw new Error("blurhash: components must be 1..9");
+  }
+  if (pixels.length !== width * height * 4) throw new Error("blurhash: pixel buffer does not match width x height");
+
+  const factors: Array<[number, number, number]> = [];
+  for (let j = 0; j < componentsY; j++) {
+    for (let i = 0; i < componentsX; i++) {
+      const norm = i === 0 && j === 0 ? 1 : 2;
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const basis = Math.cos((Math.PI * i * x) / width) * Math.cos((Math.PI * j * y) / height);
+          const p = 4 * (x + y * width);
+          r += basis * sRGBToLinear(pixels[p]);
+          g += basis * sRGBToLinear(pixels[p + 1]);
+          b += basis * sRGBToLinear(pixels[p + 2]);
+        }
+      }
+      const scale = norm / (width * height);
+      factors.push([r * scale, g * scale, b * scale]);
+    }
+  }
+
+  const [dc, ...ac] = factors;
+  let hash = encode83(componentsX - 1 + (componentsY - 1) * 9, 1);
+
+  let maxValue = 1;
+  if (ac.length) {
+    const actualMax = Math.max(...ac.flat().map(Math.abs));
+    const quantisedMax = Math.floor(Math.max(0, Math.min(82, Math.floor(actualMax * 166 - 0.5))));
+    maxValue = (quantisedMax + 1) / 166;
+    hash += encode83(quantisedMax, 1);
+  } else {
+    hash += encode83(0, 1);
+  }
+
+  hash += encode83((linearToSRGB(dc[0]) << 16) + (linearToSRGB(dc[1]) << 8) + linearToSRGB(dc[2]), 4);
+
+  for (const [r, g, b] of ac) {
+    const q = (v: number) => Math.floor(Math.max(0, Math.min(18, Math.floor(signPow(v / maxValue, 0.5) * 9 + 9.5))));
+    hash += encode83(q(r) * 19 * 19 + q(g) * 19 + q(b), 2);
+  }
+  return hash;
+}
+
+export function isValidBlurhash(hash: string | null | undefined): hash is string {
+  if (!hash || hash.length < 6) return false;
+  try {
+    const sizeFlag = decode83(hash[0]);
+    const numY = Math.floor(sizeFlag / 9) + 1;
+    const numX = (sizeFlag % 9) + 1;
+    return hash.length === 4 + 2 * numX * numY && decode83(hash) >= 0;
+  } catch {
+    return false;
+  }
+}
+
+/** Hash → RGBA pixels at width x height (keep small, e.g. 32x32, and scale with CSS). */
+export function decodeBlurhash(hash: string, width: number, height: number, punch = 1): Uint8ClampedArray {
+  if (!isValidBlurhash(hash)) throw new Error("blurhash: invalid hash");
+
+  const sizeFlag = decode83(hash[0]);
+  const numY = Math.floor(sizeFlag / 9) + 1;
+  const numX = (sizeFlag % 9) + 1;
+  const maxValue = ((decode83(hash[1]) + 1) / 166) * punch;
+
+  const colors: Array<[number, number, number]> = [];
+  const dc = decode83(hash.substring(2, 6));
+  colors.push([sRGBToLinear(dc >> 16), sRGBToLinear((dc >> 8) & 255), sRGBToLinear(dc & 255)]);
+  for (let i = 1; i < numX * numY; i++) {
+    const v = decode83(hash.substring(4 + i * 2, 6 + i * 2));
+    colors.push([
+      signPow((Math.floor(v / 361) - 9) / 9, 2) * maxValue,
+      signPow(((Math.floor(v / 19) % 19) - 9) / 9, 2) * maxValue,
+      signPow(((v % 19) - 9) / 9, 2) * maxValue,
+    ]);
+  }
+
+  const out = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let j = 0; j < numY; j++) {
+        for (let i = 0; i < numX; i++) {
+          const basis = Math.cos((Math.PI * x * i) / width) * Math.cos((Math.PI * y * j) / height);
+          const c = colors[i + j * numX];
+          r += c[0] * basis;
+          g += c[1] * basis;
+          b += c[2] * basis;
+        }
+      }
+      const p = 4 * (x + y * width);
+      out[p] = linearToSRGB(r);
+      out[p + 1] = linearToSRGB(g);
+      out[p + 2] = linearToSRGB(b);
+      out[p + 3] = 255;
+    }
+  }
+  return out;
+}
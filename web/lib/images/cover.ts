@@ -5,4 +5,57 @@ export function pickCoverUrl(opts: {
     const src = (opts.gameCover || opts.releaseCover || "/img/cover-placeholder.png").trim();
     return src || "/img/cover-placeholder.png";
   }
-  
\ No newline at end of file
+
+/**
+ * Cached cover variants written by the cover pipeline (lib/images/pipeline.ts). games/releases point at a
+ * cover_assets row via cover_asset_id; embed it with COVER_ASSET_SELECT and turn it into props with
+ * coverImageFromAsset. Anything not `ready` yields null so callers fall back to the remote cover_url.
+ */
+export const COVER_VARIANTS = [
+  { name: "thumb", width: 160 },
+  { name: "card", width: 342 },
+  { name: "full", width: 720 },
+] as const;
+
+export type CoverVariantName = (typeof COVER_VARIANTS)[number]["name"];
+
+export type CoverAssetVariant = { url: string; width: number; height: number };
+
+export type CoverAssetRow = {
+  status: string;
+  variants: Partial<Record<CoverVariantName, CoverAssetVariant>> | null;
+  blurhash: string | null;
+  dominant_color: string | null;
+  width: number | null;
+  height: number | null;
+};
+
+export const COVER_ASSET_SELECT = "status, variants, blurhash, dominant_color, width, height";
+
+export type CoverImage = {
+  src: string;
+  srcSet: string;
+  width: number | null;
+  height: number | null;
+  blurhash: string | null;
+  color: string | null;
+};
+
+export function coverImageFromAsset(
+  asset: CoverAssetRow | CoverAssetRow[] | null | undefined,
+  preferred: CoverVariantName = "card"
+): CoverImage | null {
+  const a = Array.isArray(asset) ? asset[0] : asset;
+  if (!a || a.status !== "ready" || !a.variants) return null;
+  const variants = COVER_VARIANTS.map((v) => a.variants?.[v.name]).filter((v): v is CoverAssetVariant => !!v?.url);
+  const main = a.variants[preferred] ?? variants[variants.length - 1];
+  if (!main?.url) return null;
+  return {
+    src: main.url,
+    srcSet: variants.map((v) => `${v.url} ${v.width}w`).join(", "),
+    width: a.width,
+    height: a.height,
+    blurhash: a.blurhash,
+    color: a.dominant_color,
+  };
+}
@@ -0,0 +1,455 @@
+/**
+ * Cover art pipeline (/api/cron/cover-ingest, /api/catalog/backfill-covers).
+ *
+ * Each remote cover source is fetched once, resized with sharp to the COVER_VARIANTS widths as webp,
+ * written to CoverStorage under a content-addressed key and summarized as a blurhash + dominant color.
+ * cover_assets keeps one row per source URL; games.cover_asset_id / releases.cover_asset_id point at it.
+ *
+ * Subjects walk their cover ladder (coverSourceCandidates) until a source ingests. A source that fails
+ * is marked broken and retried with exponential backoff; when every source of a game is broken the
+ * metadata provider chain is asked for a fresh cover_url (IGDB/MobyGames URLs rotate).
+ */
+
+import { createHash } from "node:crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import sharp from "sharp";
+import { encodeBlurhash } from "@/lib/images/blurhash";
+import { COVER_VARIANTS, type CoverAssetVariant, type CoverVariantName } from "@/lib/images/cover";
+import { coverSourceCandidates } from "@/lib/images/resolveCoverUrl";
+import type { CoverStorage } from "@/lib/images/storage";
+import { metadataProviderChain, resolveGameMetadata } from "@/lib/metadata/resolve";
+import { METADATA_FIELDS, parseMetadataSources } from "@/lib/metadata/sources";
+
+export const COVER_FETCH_TIMEOUT_MS = 15_000;
+export const COVER_MAX_BYTES = 12 * 1024 * 1024;
+const BLURHASH_SIZE = 32;
+const BACKOFF_MAX_HOURS = 24 * 7;
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+export type FetchLike = (url: string, init?: RequestInit) => Promise<Response>;
+
+export class CoverFetchError extends Error {
+  constructor(
+    message: string,
+    public status: number | null
+  ) {
+    super(message);
+    this.name = "CoverFetchError";
+  }
+}
+
+export type ProcessedCover = {
+  content_hash: string;
+  width: number;
+  height: number;
+  blurhash: string;
+  dominant_color: string;
+  variants: Array<{ name: CoverVariantName; width: number; height: number; body: Buffer }>;
+};
+
+export type CoverSubjectKind = "game" | "release";
+
+export type CoverSubject = {
+  kind: CoverSubjectKind;
+  id: string;
+  /** Games only: lets a fully broken ladder ask the metadata providers for a new cover. */
+  title?: string | null;
+  candidates: string[];
+};
+
+export type CoverIngestOptions = {
+  fetchImpl?: FetchLike;
+  /** Re-fetch even when the asset is ready or still backing off. */
+  force?: boolean;
+  /** Games: ask the metadata chain for a fresh cover_url when every source is broken (default true). */
+  refresh_metadata?: boolean;
+};
+
+export type CoverSourceResult = { asset_id: string | null; status: "ready" | "broken"; changed: boolean; error?: string };
+
+export type CoverSubjectResult = {
+  kind: CoverSubjectKind;
+  id: string;
+  status: "ready" | "broken" | "no_source";
+  source_url: string | null;
+  refreshed_cover_url?: string;
+  error?: string;
+};
+
+export type CoverIngestRunResult = {
+  dry_run: boolean;
+  missing_games: number;
+  missing_releases: number;
+  broken_due: number;
+  ready: number;
+  broken: number;
+  refreshed: number;
+  no_source: number;
+  errors: Array<{ kind: CoverSubjectKind; id: string; error: string }>;
+  preview?: CoverSubject[];
+};
+
+/** Hours until a broken source is retried: 1, 2, 4 … capped at a week. */
+export function coverBackoffHours(failureCount: number): number {
+  return Math.min(Math.pow(2, Math.max(0, failureCount - 1)), BACKOFF_MAX_HOURS);
+}
+
+export function coverStorageKey(contentHash: string, variant: CoverVariantName): string {
+  return `${contentHash.slice(0, 2)}/${contentHash}/${variant}.webp`;
+}
+
+export async function fetchCoverSource(url: string, fetchImpl: FetchLike = fetch): Promise<Buffer> {
+  let res: Response;
+  try {
+    res = await fetchImpl(url, {
+      cache: "no-store",
+      redirect: "follow",
+      signal: AbortSignal.timeout(COVER_FETCH_TIMEOUT_MS),
+      headers: { Accept: "image/*" },
+    });
+  } catch (e: unknown) {
+    throw new CoverFetchError(`fetch failed: ${e instanceof Error ? e.message : String(e)}`, null);
+  }
+  if (!res.ok) throw new CoverFetchError(`HTTP ${res.status}`, res.status);
+
+  const type = (res.headers.get("content-type") ?? "").toLowerCase();
+  if (type && !type.startsWith("image/") && !type.startsWith("application/octet-stream")) {
+    throw new CoverFetchError(`not an image (${type})`, res.status);
+  }
+  const declared = Number(res.headers.get("content-length") ?? 0);
+  if (declared > COVER_MAX_BYTES) throw new CoverFetchError(`too large (${declared} bytes)`, res.status);
+
+  const bytes = Buffer.from(await res.arrayBuffer());
+  if (!bytes.length) throw new CoverFetchError("empty body", res.status);
+  if (bytes.length > COVER_MAX_BYTES) throw new CoverFetchError(`too large (${bytes.length} bytes)`, res.status);
+  return bytes;
+}
+
+function hex2(n: number) {
+  return Math.max(0, Math.min(255, Math.round(n))).toString(16).padStart(2, "0");
+}
+
+/** Decode, resize to every variant (never upscaled) and summarize. Throws on undecodable bytes. */
+export async function processCoverImage(bytes: Buffer): Promise<ProcessedCover> {
+  const image = sharp(bytes, { failOn: "error" }).rotate();
+  const meta = await image.metadata();
+  const width = meta.autoOrient?.width ?? meta.width;
+  const height = meta.autoOrient?.height ?? meta.height;
+  if (!width || !height) throw new Error("image: missing dimensions");
+
+  const variants: ProcessedCover["variants"] = [];
+  for (const v of COVER_VARIANTS) {
+    const { data, info } = await image
+      .clone()
+      .resize({ width: v.width, withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toBuffer({ resolveWithObject: true });
+    variants.push({ name: v.name, width: info.width, height: info.height, body: data });
+  }
+
+  const small = await image
+    .clone()
+    .resize(BLURHASH_SIZE, BLURHASH_SIZE, { fit: "inside" })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const blurhash = encodeBlurhash(new Uint8ClampedArray(small.data), small.info.width, small.info.height, 4, 3);
+
+  const { dominant } = await image.clone().stats();
+
+  return {
+    content_hash: createHash("sha256").update(bytes).digest("hex"),
+    width,
+    height,
+    blurhash,
+    dominant_color: `#${hex2(dominant.r)}${hex2(dominant.g)}${hex2(dominant.b)}`,
+    variants,
+  };
+}
+
+export async function storeProcessedCover(
+  storage: CoverStorage,
+  processed: ProcessedCover
+): Promise<Partial<Record<CoverVariantName, CoverAssetVariant>>> {
+  const out: Partial<Record<CoverVariantName, CoverAssetVariant>> = {};
+  for (const v of processed.variants) {
+    const url = await storage.put(coverStorageKey(processed.content_hash, v.name), v.body, "image/webp");
+    out[v.name] = { url, width: v.width, height: v.height };
+  }
+  return out;
+}
+
+/**
+ * Ingest one source URL into cover_assets. Ready assets are left alone unless `force`; broken ones are
+ * only re-fetched once next_check_at has passed. Unchanged bytes (same content_hash) skip re-processing.
+ */
+export async function ingestCoverSource(
+  admin: SupabaseClient,
+  storage: CoverStorage,
+  sourceUrl: string,
+  opts: CoverIngestOptions = {}
+): Promise<CoverSourceResult> {
+  const { data: existing, error: exErr } = await admin
+    .from("cover_assets")
+    .select("id, status, content_hash, failure_count, next_check_at")
+    .eq("source_url", sourceUrl)
+    .maybeSingle();
+  if (exErr) throw new Error(`cover_assets: ${exErr.message}`);
+
+  if (existing && !opts.force) {
+    if (existing.status === "ready") return { asset_id: existing.id, status: "ready", changed: false };
+    if (existing.status === "broken" && existing.next_check_at && new Date(existing.next_check_at).getTime() > Date.now()) {
+      return { asset_id: existing.id, status: "broken", changed: false, error: "backing off" };
+    }
+  }
+
+  let processed: ProcessedCover;
+  try {
+    const bytes = await fetchCoverSource(sourceUrl, opts.fetchImpl);
+    if (existing?.status === "ready" && existing.content_hash === createHash("sha256").update(bytes).digest("hex")) {
+      return { asset_id: existing.id, status: "ready", changed: false };
+    }
+    processed = await processCoverImage(bytes);
+  } catch (e: unknown) {
+    const error = e instanceof Error ? e.message : String(e);
+    const failures = Number(existing?.failure_count ?? 0) + 1;
+    const row = {
+      source_url: sourceUrl,
+      status: "broken",
+      failure_count: failures,
+      last_error: error.slice(0, 500),
+      next_check_at: new Date(Date.now() + coverBackoffHours(failures) * 3600_000).toISOString(),
+      updated_at: nowIso(),
+    };
+    const { data: saved, error: sErr } = await admin
+      .from("cover_assets")
+      .upsert(row, { onConflict: "source_url" })
+      .select("id")
+      .single();
+    if (sErr) throw new Error(`cover_assets: ${sErr.message}`);
+    return { asset_id: saved?.id ?? existing?.id ?? null, status: "broken", changed: existing?.status !== "broken", error };
+  }
+
+  const variants = await storeProcessedCover(storage, processed);
+  const { data: saved, error: sErr } = await admin
+    .from("cover_assets")
+    .upsert(
+      {
+        source_url: sourceUrl,
+        status: "ready",
+        content_hash: processed.content_hash,
+        width: processed.width,
+        height: processed.height,
+        variants,
+        blurhash: processed.blurhash,
+        dominant_color: processed.dominant_color,
+        failure_count: 0,
+        last_error: null,
+        fetched_at: nowIso(),
+        next_check_at: null,
+        updated_at: nowIso(),
+      },
+      { onConflict: "source_url" }
+    )
+    .select("id")
+    .single();
+  if (sErr) throw new Error(`cover_assets: ${sErr.message}`);
+  return { asset_id: saved.id, status: "ready", changed: true };
+}
+
+function subjectTable(kind: CoverSubjectKind) {
+  return kind === "game" ? "games" : "releases";
+}
+
+async function linkSubject(admin: SupabaseClient, subject: CoverSubject, patch: Record<string, unknown>) {
+  const { error } = await admin.from(subjectTable(subject.kind)).update(patch).eq("id", subject.id);
+  if (error) throw new Error(`${subjectTable(subject.kind)}: ${error.message}`);
+}
+
+/** Ask the metadata chain for a cover the game doesn't already list; null when none. */
+async function refreshGameCoverUrl(admin: SupabaseClient, subject: CoverSubject): Promise<{ url: string; source: string } | null> {
+  const title = String(subject.title ?? "").trim();
+  if (!title) return null;
+  const resolved = await resolveGameMetadata(title, {
+    providers: metadataProviderChain(admin),
+    skip: METADATA_FIELDS.filter((f) => f !== "cover_url"),
+  });
+  const fresh = coverSourceCandidates({ cover_url: resolved.fields.cover_url ?? null })[0];
+  if (!fresh || subject.candidates.includes(fresh)) return null;
+  return { url: fresh, source: resolved.sources.cover_url ?? "unknown" };
+}
+
+/**
+ * Walk a subject's candidates until one ingests and point cover_asset_id at it. If all are broken the
+ * subject is linked to its first (broken) asset so it waits in the retry queue instead of being
+ * re-picked as missing every run.
+ */
+export async function ingestSubjectCover(
+  admin: SupabaseClient,
+  storage: CoverStorage,
+  subject: CoverSubject,
+  opts: CoverIngestOptions = {}
+): Promise<CoverSubjectResult> {
+  const base = { kind: subject.kind, id: subject.id };
+  let firstBroken: { asset_id: string | null; error?: string } | null = null;
+
+  for (const url of subject.candidates) {
+    const r = await ingestCoverSource(admin, storage, url, opts);
+    if (r.status === "ready" && r.asset_id) {
+      await linkSubject(admin, subject, { cover_asset_id: r.asset_id });
+      return { ...base, status: "ready", source_url: url };
+    }
+    firstBroken ??= { asset_id: r.asset_id, error: r.error };
+  }
+
+  if (subject.kind === "game" && (opts.refresh_metadata ?? true)) {
+    const fresh = await refreshGameCoverUrl(admin, subject).catch(() => null);
+    if (fresh) {
+      const r = await ingestCoverSource(admin, storage, fresh.url, opts);
+      if (r.status === "ready" && r.asset_id) {
+        const { data: game } = await admin.from("games").select("metadata_sources").eq("id", subject.id).maybeSingle();
+        await linkSubject(admin, subject, {
+          cover_url: fresh.url,
+          cover_asset_id: r.asset_id,
+          metadata_sources: { ...parseMetadataSources(game?.metadata_sources), cover_url: fresh.source },
+          updated_at: nowIso(),
+        });
+        return { ...base, status: "ready", source_url: fresh.url, refreshed_cover_url: fresh.url };
+      }
+    }
+  }
+
+  if (!firstBroken) return { ...base, status: "no_source", source_url: null };
+  if (firstBroken.asset_id) await linkSubject(admin, subject, { cover_asset_id: firstBroken.asset_id });
+  return { ...base, status: "broken", source_url: subject.candidates[0] ?? null, error: firstBroken.error };
+}
+
+/** The games and releases columns a cover subject is built from. */
+type GameCoverRow = { id: string; canonical_title: string | null; cover_url: string | null };
+type ReleaseCoverRow = { id: string; cover_url: string | null; steam_appid: string | null };
+
+function gameSubject(g: GameCoverRow): CoverSubject {
+  return {
+    kind: "game",
+    id: String(g.id),
+    title: g.canonical_title ?? null,
+    candidates: coverSourceCandidates({ game_cover_url: g.cover_url ?? null }),
+  };
+}
+
+function releaseSubject(r: ReleaseCoverRow): CoverSubject {
+  return {
+    kind: "release",
+    id: String(r.id),
+    candidates: coverSourceCandidates({ cover_url: r.cover_url ?? null, steam_appid: r.steam_appid ?? null }),
+  };
+}
+
+/** Subjects for specific games (backfill-covers ingests the games it just touched). */
+export async function loadGameCoverSubjects(admin: SupabaseClient, gameIds: string[]): Promise<CoverSubject[]> {
+  if (!gameIds.length) return [];
+  const { data, error } = await admin.from("games").select("id, canonical_title, cover_url").in("id", gameIds);
+  if (error) throw new Error(`games: ${error.message}`);
+  return (data ?? []).map(gameSubject);
+}
+
+/**
+ * One scheduled pass: games then releases with a cover_url but no asset, then subjects whose asset is
+ * broken and due for a retry. `limit` caps subjects per kind (sharp work is CPU-bound and sequential).
+ */
+export async function runCoverIngest(
+  admin: SupabaseClient,
+  storage: CoverStorage,
+  opts: { limit?: number; dry_run?: boolean } & CoverIngestOptions = {}
+): Promise<CoverIngestRunResult> {
+  const limit = Math.max(1, opts.limit ?? 50);
+  const dryRun = opts.dry_run ?? false;
+
+  const { data: games, error: gErr } = await admin
+    .from("games")
+    .select("id, canonical_title, cover_url")
+    .not("cover_url", "is", null)
+    .is("cover_asset_id", null)
+    .not("cover_url", "ilike", "%unknown.png%")
+    .not("cover_url", "ilike", "%placeholder%")
+    .limit(limit);
+  if (gErr) throw new Error(`games: ${gErr.message}`);
+
+  const { data: releases, error: rErr } = await admin
+    .from("releases")
+    .select("id, cover_url, steam_appid")
+    .not("cover_url", "is", null)
+    .is("cover_asset_id", null)
+    .not("cover_url", "ilike", "%unknown.png%")
+    .not("cover_url", "ilike", "%placeholder%")
+    .limit(limit);
+  if (rErr) throw new Error(`releases: ${rErr.message}`);
+
+  const { data: brokenAssets, error: bErr } = await admin
+    .from("cover_assets")
+    .select("id")
+    .eq("status", "broken")
+    .lte("next_check_at", nowIso())
+    .order("next_check_at", { ascending: true })
+    .limit(limit);
+  if (bErr) throw new Error(`cover_assets: ${bErr.message}`);
+
+  const brokenIds = (brokenAssets ?? []).map((a: { id: string }) => a.id);
+  let brokenGames: GameCoverRow[] = [];
+  let brokenReleases: ReleaseCoverRow[] = [];
+  if (brokenIds.length) {
+    const [bg, br] = await Promise.all([
+      admin.from("games").select("id, canonical_title, cover_url").in("cover_asset_id", brokenIds).limit(limit),
+      admin.from("releases").select("id, cover_url, steam_appid").in("cover_asset_id", brokenIds).limit(limit),
+    ]);
+    if (bg.error) throw new Error(`games: ${bg.error.message}`);
+    if (br.error) throw new Error(`releases: ${br.error.message}`);
+    brokenGames = bg.data ?? [];
+    brokenReleases = br.data ?? [];
+  }
+
+  const subjects = [
+    ...(games ?? []).map(gameSubject),
+    ...(releases ?? []).map(releaseSubject),
+    ...brokenGames.map(gameSubject),
+    ...brokenReleases.map(releaseSubject),
+  ];
+
+  const result: CoverIngestRunResult = {
+    dry_run: dryRun,
+    missing_games: (games ?? []).length,
+    missing_releases: (releases ?? []).length,
+    broken_due: brokenGames.length + brokenReleases.length,
+    ready: 0,
+    broken: 0,
+    refreshed: 0,
+    no_source: 0,
+    errors: [],
+  };
+  if (dryRun) {
+    result.preview = subjects.slice(0, 100);
+    return result;
+  }
+
+  const seen = new Set<string>();
+  for (const s of subjects) {
+    const key = `${s.kind}:${s.id}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    try {
+      const r = await ingestSubjectCover(admin, storage, s, opts);
+      if (r.status === "ready") result.ready += 1;
+      else if (r.status === "broken") result.broken += 1;
+      else result.no_source += 1;
+      if (r.refreshed_cover_url) result.refreshed += 1;
+    } catch (e: unknown) {
+      if (result.errors.length < 50) {
+        result.errors.push({ kind: s.kind, id: s.id, error: e instanceof Error ? e.message : String(e) });
+      }
+    }
+  }
+  return result;
+}
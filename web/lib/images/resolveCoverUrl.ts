@@ -72,4 +72,30 @@ export type CoverInput = {
   
     return "/images/placeholder-cover.png";
   }
-  
\ No newline at end of file
+  
+  /** IGDB thumbs → cover_big, protocol-relative → https. */
+  export function upgradeCoverSourceUrl(url: string): string {
+    const u = url.trim().startsWith("//") ? `https:${url.trim()}` : url.trim();
+    return /images\.igdb\.com/i.test(u) ? u.replace(/\/t_[a-z0-9_]+\//i, "/t_cover_big/") : u;
+  }
+
+  /**
+   * Remote sources the cover pipeline may ingest, in resolveCoverUrl's ladder order (placeholders and
+   * local paths dropped, duplicates removed). The pipeline walks it until one fetches.
+   */
+  export function coverSourceCandidates(input: CoverInput): string[] {
+    const out: string[] = [];
+    const add = (raw: string | null | undefined) => {
+      const s = (raw ?? "").trim();
+      if (!s || !isValidCoverUrl(s)) return;
+      const u = upgradeCoverSourceUrl(s);
+      if (isHttp(u) && !out.includes(u)) out.push(u);
+    };
+    add(input.game_cover_url);
+    add(input.cover_url);
+    const appid = (input.steam_appid ?? "").trim();
+    if (appid) add(steamHeader(appid));
+    add(input.psn_title_icon_url);
+    add(input.igdb_cover_url);
+    return out;
+  }
@@ -0,0 +1,71 @@
+// lib/images/storage.ts
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Where processed cover variants live. COVER_STORAGE picks the backend:
+ *   supabase (default)    public Supabase Storage bucket `covers` (sql/2026-03-15_cover_assets.sql)
+ *   local:<dir>[|<base>]  files under <dir>, served from <base> (default /covers) — tests and offline dev,
+ *                         e.g. local:public/covers
+ * Keys are content-addressed, so a put for an existing key rewrites identical bytes.
+ */
+export type CoverStorage = {
+  id: string;
+  /** Store bytes under key; returns the public URL. */
+  put: (key: string, body: Buffer, contentType: string) => Promise<string>;
+  remove: (keys: string[]) => Promise<void>;
+};
+
+export const COVER_BUCKET = "covers";
+
+export function supabaseCoverStorage(admin: SupabaseClient, bucket = COVER_BUCKET): CoverStorage {
+  return {
+    id: `supabase:${bucket}`,
+    async put(key, body, contentType) {
+      const { error } = await admin.storage.from(bucket).upload(key, body, {
+        contentType,
+        upsert: true,
+        cacheControl: "31536000",
+      });
+      if (error) throw new Error(`storage ${bucket}: ${error.message}`);
+      return admin.storage.from(bucket).getPublicUrl(key).data.publicUrl;
+    },
+    async remove(keys) {
+      if (!keys.length) return;
+      const { error } = await admin.storage.from(bucket).remove(keys);
+      if (error) throw new Error(`storage ${bucket}: ${error.message}`);
+    },
+  };
+}
+
+export function localCoverStorage(rootDir: string, publicBase = "/covers"): CoverStorage {
+  const root = path.resolve(rootDir);
+  const resolveKey = (key: string) => {
+    const file = path.resolve(root, key);
+    if (!file.startsWith(root + path.sep)) throw new Error(`storage local: key escapes root: ${key}`);
+    return file;
+  };
+  return {
+    id: `local:${root}`,
+    async put(key, body) {
+      const file = resolveKey(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, body);
+      return `${publicBase.replace(/\/+$/, "")}/${key}`;
+    },
+    async remove(keys) {
+      for (const key of keys) await rm(resolveKey(key), { force: true });
+    },
+  };
+}
+
+export function coverStorageFromEnv(admin: SupabaseClient, spec: string | undefined = process.env.COVER_STORAGE): CoverStorage {
+  const s = String(spec ?? "").trim();
+  if (s.startsWith("local:") && s.length > 6) {
+    const [dir, base] = s.slice(6).split("|");
+    return localCoverStorage(dir, base || undefined);
+  }
+  if (s && s !== "supabase") console.warn("[covers] unknown COVER_STORAGE, using supabase:", s);
+  return supabaseCoverStorage(admin);
+}
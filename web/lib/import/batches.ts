@@ -0,0 +1,318 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { normalizePortfolioStatus, type PortfolioStatus } from "@/lib/portfolio/status";
+
+/**
+ * Commit / undo for the library import. Every commit is one library_import_batches row; each
+ * portfolio entry it touched gets a library_import_batch_items row with the values it replaced,
+ * so undo can delete what the batch created and restore what it changed.
+ *
+ * Merging into an existing entry: status is overwritten (the user chose it in the wizard),
+ * playtime only goes up, first played only moves back and last played only moves forward.
+ */
+
+export const IMPORT_SOURCES = ["backloggd", "hltb", "grouvee", "generic"] as const;
+
+export type ImportSource = (typeof IMPORT_SOURCES)[number];
+
+export type ImportCommitRow = {
+  release_id: string;
+  status: PortfolioStatus;
+  playtime_minutes: number | null;
+  first_played_at: string | null;
+  last_played_at: string | null;
+};
+
+export type ImportBatchSummary = {
+  id: string;
+  source: ImportSource;
+  filename: string | null;
+  status: "committed" | "undone";
+  row_count: number;
+  created_count: number;
+  updated_count: number;
+  skipped_count: number;
+  created_at: string;
+  undone_at: string | null;
+};
+
+type EntrySnapshot = {
+  status: string | null;
+  playtime_minutes: number | null;
+  first_played_at: string | null;
+  last_played_at: string | null;
+};
+
+const SNAPSHOT_COLS = "release_id, status, playtime_minutes, first_played_at, last_played_at";
+const BATCH_COLS =
+  "id, source, filename, status, row_count, created_count, updated_count, skipped_count, created_at, undone_at";
+const IN_CHUNK = 200;
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+function chunks<T>(arr: T[], size = IN_CHUNK): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < arr.length; i += size) out.push(arr.slice(i, i + size));
+  return out;
+}
+
+function cleanIso(v: unknown): string | null {
+  if (v == null || v === "") return null;
+  const d = new Date(String(v));
+  return Number.isNaN(d.getTime()) ? null : d.toISOString();
+}
+
+function minIso(a: string | null, b: string | null) {
+  if (!a) return b;
+  if (!b) return a;
+  return a < b ? a : b;
+}
+
+function maxIso(a: string | null, b: string | null) {
+  if (!a) return b;
+  if (!b) return a;
+  return a > b ? a : b;
+}
+
+export function isImportSource(v: unknown): v is ImportSource {
+  return IMPORT_SOURCES.includes(v as ImportSource);
+}
+
+/**
+ * Validate resolved rows posted by the wizard. Rows for the same release are folded together
+ * (later status wins). Null when the shape is wrong.
+ */
+export function normalizeCommitRows(input: unknown): ImportCommitRow[] | null {
+  if (!Array.isArray(input)) return null;
+  const byRelease = new Map<string, ImportCommitRow>();
+  for (const r of input as Array<Record<string, unknown> | null>) {
+    const releaseId = String(r?.release_id ?? "").trim();
+    if (!UUID_RE.test(releaseId)) return null;
+    const status = normalizePortfolioStatus(r?.status ?? "owned");
+    if (!status) return null;
+    const mins = Number(r?.playtime_minutes);
+    const row: ImportCommitRow = {
+      release_id: releaseId,
+      status,
+      playtime_minutes: Number.isFinite(mins) && mins >= 0 ? Math.round(mins) : null,
+      first_played_at: cleanIso(r?.first_played_at),
+      last_played_at: cleanIso(r?.last_played_at),
+    };
+    const prev = byRelease.get(releaseId);
+    byRelease.set(
+      releaseId,
+      prev
+        ? {
+            ...row,
+            playtime_minutes:
+              prev.playtime_minutes == null && row.playtime_minutes == null
+                ? null
+                : Math.max(prev.playtime_minutes ?? 0, row.playtime_minutes ?? 0),
+            first_played_at: minIso(prev.first_played_at, row.first_played_at),
+            last_played_at: maxIso(prev.last_played_at, row.last_played_at),
+          }
+        : row
+    );
+  }
+  return [...byRelease.values()];
+}
+
+function mergedEntry(existing: EntrySnapshot, row: ImportCommitRow): EntrySnapshot {
+  const playtime =
+    row.playtime_minutes == null
+      ? existing.playtime_minutes
+      : Math.max(Number(existing.playtime_minutes ?? 0), row.playtime_minutes);
+  return {
+    status: row.status,
+    playtime_minutes: playtime,
+    first_played_at: minIso(existing.first_played_at, row.first_played_at),
+    last_played_at: maxIso(existing.last_played_at, row.last_played_at),
+  };
+}
+
+function sameEntry(a: EntrySnapshot, b: EntrySnapshot) {
+  const t = (v: string | null) => (v ? new Date(v).getTime() : null);
+  return (
+    a.status === b.status &&
+    Number(a.playtime_minutes ?? 0) === Number(b.playtime_minutes ?? 0) &&
+    t(a.first_played_at) === t(b.first_played_at) &&
+    t(a.last_played_at) === t(b.last_played_at)
+  );
+}
+
+export async function commitImportBatch(
+  admin: SupabaseClient,
+  userId: string,
+  opts: { source: ImportSource; filename: string | null; rows: ImportCommitRow[] }
+): Promise<ImportBatchSummary> {
+  const releaseIds = opts.rows.map((r) => r.release_id);
+
+  const known = new Set<string>();
+  for (const part of chunks(releaseIds)) {
+    const { data, error } = await admin.from("releases").select("id").in("id", part);
+    if (error) throw new Error(`releases lookup: ${error.message}`);
+    for (const r of data ?? []) known.add(String(r.id));
+  }
+
+  const existing = new Map<string, EntrySnapshot>();
+  for (const part of chunks(releaseIds)) {
+    const { data, error } = await admin
+      .from("portfolio_entries")
+      .select(SNAPSHOT_COLS)
+      .eq("user_id", userId)
+      .in("release_id", part);
+    if (error) throw new Error(`portfolio lookup: ${error.message}`);
+    for (const e of data ?? []) {
+      existing.set(String(e.release_id), {
+        status: e.status ?? null,
+        playtime_minutes: e.playtime_minutes ?? null,
+        first_played_at: e.first_played_at ?? null,
+        last_played_at: e.last_played_at ?? null,
+      });
+    }
+  }
+
+  const { data: batch, error: batchErr } = await admin
+    .from("library_import_batches")
+    .insert({ user_id: userId, source: opts.source, filename: opts.filename, row_count: opts.rows.length })
+    .select("id")
+    .single();
+  if (batchErr || !batch?.id) throw new Error(`library_import_batches insert: ${batchErr?.message ?? "no id returned"}`);
+  const batchId = String(batch.id);
+
+  const inserts: Record<string, unknown>[] = [];
+  const items: Record<string, unknown>[] = [];
+  let updated = 0;
+  let skipped = 0;
+
+  for (const row of opts.rows) {
+    if (!known.has(row.release_id)) {
+      skipped++;
+      continue;
+    }
+
+    const prev = existing.get(row.release_id);
+    if (!prev) {
+      inserts.push({
+        user_id: userId,
+        release_id: row.release_id,
+        status: row.status,
+        playtime_minutes: row.playtime_minutes ?? 0,
+        first_played_at: row.first_played_at,
+        last_played_at: row.last_played_at,
+        source: "import",
+        updated_at: nowIso(),
+      });
+      items.push({ batch_id: batchId, user_id: userId, release_id: row.release_id, action: "created", previous: null });
+      continue;
+    }
+
+    const next = mergedEntry(prev, row);
+    if (sameEntry(prev, next)) {
+      skipped++;
+      continue;
+    }
+
+    const { error: updErr } = await admin
+      .from("portfolio_entries")
+      .update({ ...next, updated_at: nowIso() })
+      .eq("user_id", userId)
+      .eq("release_id", row.release_id);
+    if (updErr) throw new Error(`portfolio_entries update: ${updErr.message}`);
+    items.push({ batch_id: batchId, user_id: userId, release_id: row.release_id, action: "updated", previous: prev });
+    updated++;
+  }
+
+  for (const part of chunks(inserts)) {
+    const { error } = await admin.from("portfolio_entries").insert(part);
+    if (error) throw new Error(`portfolio_entries insert: ${error.message}`);
+  }
+  for (const part of chunks(items)) {
+    const { error } = await admin.from("library_import_batch_items").insert(part);
+    if (error) throw new Error(`library_import_batch_items insert: ${error.message}`);
+  }
+
+  const { data: done, error: doneErr } = await admin
+    .from("library_import_batches")
+    .update({ created_count: inserts.length, updated_count: updated, skipped_count: skipped })
+    .eq("id", batchId)
+    .select(BATCH_COLS)
+    .single();
+  if (doneErr) throw new Error(`library_import_batches update: ${doneErr.message}`);
+
+  return done as ImportBatchSummary;
+}
+
+export async function listImportBatches(admin: SupabaseClient, userId: string, limit = 20): Promise<ImportBatchSummary[]> {
+  const { data, error } = await admin
+    .from("library_import_batches")
+    .select(BATCH_COLS)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) throw new Error(`library_import_batches lookup: ${error.message}`);
+  return (data ?? []) as ImportBatchSummary[];
+}
+
+/**
+ * Undo one committed batch: delete entries it created, put back the values it replaced on entries
+ * it updated. Returns null when the batch isn't the user's or was already undone.
+ */
+export async function undoImportBatch(
+  admin: SupabaseClient,
+  userId: string,
+  batchId: string
+): Promise<{ batch: ImportBatchSummary; removed: number; restored: number } | null> {
+  if (!UUID_RE.test(batchId)) return null;
+
+  const { data: batch, error: batchErr } = await admin
+    .from("library_import_batches")
+    .select(BATCH_COLS)
+    .eq("id", batchId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (batchErr) throw new Error(`library_import_batches lookup: ${batchErr.message}`);
+  if (!batch || batch.status !== "committed") return null;
+
+  const { data: items, error: itemsErr } = await admin
+    .from("library_import_batch_items")
+    .select("release_id, action, previous")
+    .eq("batch_id", batchId);
+  if (itemsErr) throw new Error(`library_import_batch_items lookup: ${itemsErr.message}`);
+
+  const created = (items ?? []).filter((i) => i.action === "created").map((i) => String(i.release_id));
+  for (const part of chunks(created)) {
+    const { error } = await admin.from("portfolio_entries").delete().eq("user_id", userId).in("release_id", part);
+    if (error) throw new Error(`portfolio_entries delete: ${error.message}`);
+  }
+
+  let restored = 0;
+  for (const item of (items ?? []).filter((i) => i.action === "updated" && i.previous)) {
+    const prev = item.previous as EntrySnapshot;
+    const { error } = await admin
+      .from("portfolio_entries")
+      .update({
+        status: prev.status,
+        playtime_minutes: prev.playtime_minutes,
+        first_played_at: prev.first_played_at,
+        last_played_at: prev.last_played_at,
+        updated_at: nowIso(),
+      })
+      .eq("user_id", userId)
+      .eq("release_id", item.release_id);
+    if (error) throw new Error(`portfolio_entries restore: ${error.message}`);
+    restored++;
+  }
+
+  const { data: undone, error: undoErr } = await admin
+    .from("library_import_batches")
+    .update({ status: "undone", undone_at: nowIso() })
+    .eq("id", batchId)
+    .select(BATCH_COLS)
+    .single();
+  if (undoErr) throw new Error(`library_import_batches update: ${undoErr.message}`);
+
+  return { batch: undone as ImportBatchSummary, removed: created.length, restored };
+}
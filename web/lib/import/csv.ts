@@ -0,0 +1,134 @@
+/**
+ * Spreadsheet parsing for the library import wizard. Pure: runs in the browser before the
+ * column-mapping step. Accepts RFC 4180 CSV (quoted fields, doubled quotes, CRLF, embedded
+ * newlines), TSV, and JSON arrays of objects (Grouvee / generic exports).
+ */
+
+export type ParsedSheet = {
+  headers: string[];
+  rows: Record<string, string>[];
+};
+
+/** Delimiters in the header record, skipping quoted headers ("Name, Edition" is one column). */
+function countDelimiter(src: string, delim: string): number {
+  let n = 0;
+  let quoted = false;
+  for (const c of src) {
+    if (c === '"') quoted = !quoted;
+    else if (!quoted && (c === "\n" || c === "\r")) break;
+    else if (!quoted && c === delim) n++;
+  }
+  return n;
+}
+
+/** Split CSV text into records. Delimiter is auto-detected from the header (comma, semicolon or tab). */
+export function parseCsvRecords(text: string, delimiter?: string): string[][] {
+  const src = text.replace(/^\uFEFF/, "");
+  const delim =
+    delimiter ??
+    ([",", ";", "\t"] as const).reduce((best, d) =>
+      countDelimiter(src, d) > countDelimiter(src, best) ? d : best
+    );
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (quoted) {
+      if (c === '"') {
+        if (src[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else {
+        field += c;
+      }
+      continue;
+    }
+    if (c === '"' && field === "") {
+      quoted = true;
+    } else if (c === delim) {
+      record.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && src[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records.filter((r) => r.some((f) => f.trim() !== ""));
+}
+
+/** First record is the header row; duplicate / blank headers get a positional suffix. */
+export function parseCsv(text: string): ParsedSheet {
+  const [head, ...body] = parseCsvRecords(text);
+  if (!head) return { headers: [], rows: [] };
+
+  const seen = new Map<string, number>();
+  const headers = head.map((h, i) => {
+    const base = h.trim() || `Column ${i + 1}`;
+    const n = seen.get(base) ?? 0;
+    seen.set(base, n + 1);
+    return n ? `${base} (${n + 1})` : base;
+  });
+
+  const rows = body.map((r) => {
+    const row: Record<string, string> = {};
+    headers.forEach((h, i) => {
+      row[h] = (r[i] ?? "").trim();
+    });
+    return row;
+  });
+
+  return { headers, rows };
+}
+
+function cell(v: unknown): string {
+  if (v == null) return "";
+  if (typeof v === "object") return JSON.stringify(v);
+  return String(v).trim();
+}
+
+/** JSON array of objects (or { games|items|data: [...] }). Nested values are kept as JSON strings. */
+export function parseJsonSheet(json: unknown): ParsedSheet {
+  const obj = json as Record<string, unknown> | null;
+  const list = Array.isArray(json) ? json : (obj?.games ?? obj?.items ?? obj?.data ?? null);
+  if (!Array.isArray(list)) throw new Error("JSON import must be an array of objects");
+
+  const headers: string[] = [];
+  const rows = list
+    .filter((o) => o && typeof o === "object" && !Array.isArray(o))
+    .map((o) => {
+      const row: Record<string, string> = {};
+      for (const [k, v] of Object.entries(o)) {
+        if (!headers.includes(k)) headers.push(k);
+        row[k] = cell(v);
+      }
+      return row;
+    });
+
+  return { headers, rows };
+}
+
+/** CSV / TSV / JSON by file name, falling back to sniffing the first character. */
+export function parseImportFile(text: string, filename = ""): ParsedSheet {
+  const trimmed = text.replace(/^\uFEFF/, "").trimStart();
+  if (/\.json$/i.test(filename) || trimmed.startsWith("[") || trimmed.startsWith("{")) {
+    return parseJsonSheet(JSON.parse(trimmed));
+  }
+  return parseCsv(text);
+}
@@ -0,0 +1,89 @@
+/**
+ * Column mapping for the library import wizard: spreadsheet rows (any tracker) -> ImportRow.
+ * Pure; the browser applies it before POST /api/portfolio/import/preview.
+ */
+
+export const IMPORT_FIELDS = ["title", "platform", "status", "playtime", "first_played", "last_played"] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+export type PlaytimeUnit = "hours" | "minutes" | "seconds";
+
+/** Field -> source column header. Only title is required. */
+export type ImportMapping = Partial<Record<ImportField, string>> & {
+  /** How to read plain numbers in the playtime column ("12:30" / "12h 30m" are always understood). */
+  playtime_unit?: PlaytimeUnit;
+};
+
+export type ImportRow = {
+  /** 0-based index into the uploaded sheet, echoed back by preview so the UI can line rows up. */
+  row_index: number;
+  title: string;
+  platform: string | null;
+  /** Raw status text; normalized server-side through STATUS_ALIASES. */
+  status: string | null;
+  playtime_minutes: number | null;
+  first_played_at: string | null;
+  last_played_at: string | null;
+};
+
+/** "12:34:56" / "12:34" (h:m), "12h 30m", "1.5" (in `unit`). Null when empty or unreadable. */
+export function parseDurationMinutes(raw: unknown, unit: PlaytimeUnit = "hours"): number | null {
+  const s = String(raw ?? "").trim().toLowerCase();
+  if (!s) return null;
+
+  const clock = s.match(/^(\d+):(\d{1,2})(?::(\d{1,2}))?$/);
+  if (clock) return Number(clock[1]) * 60 + Number(clock[2]) + Math.floor(Number(clock[3] ?? 0) / 60);
+
+  const parts = [...s.matchAll(/(\d+(?:\.\d+)?)\s*(h|hr|hrs|hours?|m|min|mins|minutes?|s|sec|secs|seconds?)\b/g)];
+  if (parts.length) {
+    let total = 0;
+    for (const [, n, u] of parts) {
+      const v = Number(n);
+      if (u.startsWith("h")) total += v * 60;
+      else if (u.startsWith("m")) total += v;
+      else total += v / 60;
+    }
+    return Math.round(total);
+  }
+
+  const n = Number(s.replace(/,/g, ""));
+  if (!Number.isFinite(n) || n < 0) return null;
+  if (unit === "hours") return Math.round(n * 60);
+  if (unit === "seconds") return Math.round(n / 60);
+  return Math.round(n);
+}
+
+/** Any date the browser can read -> ISO. Bare years and obviously bogus dates are dropped. */
+export function parseImportDate(raw: unknown): string | null {
+  const s = String(raw ?? "").trim();
+  if (!s || /^\d{1,4}$/.test(s)) return null;
+  const d = new Date(/^\d{4}-\d{2}-\d{2}$/.test(s) ? `${s}T00:00:00Z` : s);
+  if (Number.isNaN(d.getTime())) return null;
+  const year = d.getUTCFullYear();
+  return year < 1970 || year > 2100 ? null : d.toISOString();
+}
+
+export function applyImportMapping(rows: Record<string, string>[], mapping: ImportMapping): ImportRow[] {
+  const col = (row: Record<string, string>, field: ImportField) => {
+    const header = mapping[field];
+    const v = header ? row[header] : undefined;
+    return v != null && String(v).trim() !== "" ? String(v).trim() : null;
+  };
+
+  const out: ImportRow[] = [];
+  rows.forEach((row, row_index) => {
+    const title = col(row, "title");
+    if (!title) return;
+    out.push({
+      row_index,
+      title,
+      platform: col(row, "platform"),
+      status: col(row, "status"),
+      playtime_minutes: parseDurationMinutes(col(row, "playtime"), mapping.playtime_unit),
+      first_played_at: parseImportDate(col(row, "first_played")),
+      last_played_at: parseImportDate(col(row, "last_played")),
+    });
+  });
+  return out;
+}
@@ -0,0 +1,316 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { normalizeCanonicalTitle } from "@/lib/igdb/server";
+import { normalizePortfolioStatus, type PortfolioStatus } from "@/lib/portfolio/status";
+import type { ImportRow } from "./mapping";
+
+/**
+ * Dry-run matching for the library import (POST /api/portfolio/import/preview). Nothing is written.
+ *
+ * Titles resolve through games.canonical_title (plus game_title_aliases) and exact release
+ * display_title; rows still unmatched get a capped ilike word search. A platform column narrows
+ * candidates to the hinted platform_keys, and a candidate already in the user's portfolio wins
+ * ties so re-importing the same export updates rather than duplicates.
+ */
+
+export const MAX_IMPORT_ROWS = 2000;
+const MAX_FUZZY_LOOKUPS = 150;
+const MAX_CANDIDATES = 5;
+const IN_CHUNK = 200;
+
+export type ImportCandidate = {
+  release_id: string;
+  display_title: string;
+  platform_key: string | null;
+  platform_name: string | null;
+  cover_url: string | null;
+  in_portfolio: boolean;
+};
+
+export type ImportMatchKind = "matched" | "ambiguous" | "miss";
+
+export type ImportPreviewRow = {
+  row_index: number;
+  title: string;
+  platform: string | null;
+  status_raw: string | null;
+  /** Normalized through STATUS_ALIASES; blank or unknown statuses import as "owned". */
+  status: PortfolioStatus;
+  status_recognized: boolean;
+  playtime_minutes: number | null;
+  first_played_at: string | null;
+  last_played_at: string | null;
+  match: ImportMatchKind;
+  /** Set when match = "matched". */
+  release_id: string | null;
+  candidates: ImportCandidate[];
+};
+
+export type ImportPreview = {
+  total: number;
+  matched: number;
+  ambiguous: number;
+  missed: number;
+  rows: ImportPreviewRow[];
+};
+
+// Tracker platform labels -> release platform_keys (sync sources first, then catalog slugs).
+const PLATFORM_HINTS: Array<[RegExp, string[]]> = [
+  [/switch/, ["switch"]],
+  [/wii ?u/, ["wiiu"]],
+  [/\bwii\b/, ["wii"]],
+  [/gamecube|\bngc\b/, ["gamecube"]],
+  [/nintendo 64|\bn64\b/, ["n64"]],
+  [/super nintendo|\bsnes\b|super famicom/, ["snes"]],
+  [/\bnes\b|famicom|nintendo entertainment system/, ["nes"]],
+  [/game ?boy advance|\bgba\b/, ["gba"]],
+  [/game ?boy colou?r|\bgbc\b/, ["gbc"]],
+  [/game ?boy|\bgb\b/, ["gb"]],
+  [/\b3ds\b/, ["3ds"]],
+  [/\bn?ds\b|nintendo ds/, ["nds"]],
+  [/ps ?5|playstation 5/, ["psn", "ps5"]],
+  [/ps ?4|playstation 4/, ["psn", "ps4"]],
+  [/ps ?3|playstation 3/, ["psn", "ps3"]],
+  [/vita/, ["psn", "vita"]],
+  [/\bpsp\b|playstation portable/, ["psp"]],
+  [/ps ?2|playstation 2/, ["ps2"]],
+  [/ps ?1|\bpsx\b|^playstation$/, ["ps1"]],
+  [/series [xs]|xbox series/, ["xbox", "xsx"]],
+  [/xbox one/, ["xbox", "xone"]],
+  [/360/, ["xbox", "x360"]],
+  [/xbox/, ["xbox"]],
+  [/\bgog\b/, ["gog", "pc"]],
+  [/\bpc\b|windows|steam|mac|linux/, ["steam", "gog", "pc"]],
+  [/genesis|mega ?drive/, ["genesis"]],
+  [/saturn/, ["saturn"]],
+  [/dreamcast/, ["dreamcast", "dc"]],
+];
+
+export function platformKeysForLabel(raw: string | null | undefined): string[] | null {
+  const s = String(raw ?? "").trim().toLowerCase();
+  if (!s) return null;
+  for (const [re, keys] of PLATFORM_HINTS) {
+    if (re.test(s)) return keys;
+  }
+  return [s.replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "")];
+}
+
+function cleanString(v: unknown, max = 300): string | null {
+  const s = String(v ?? "").trim();
+  return s ? s.slice(0, max) : null;
+}
+
+function cleanIso(v: unknown): string | null {
+  if (v == null || v === "") return null;
+  const d = new Date(String(v));
+  return Number.isNaN(d.getTime()) ? null : d.toISOString();
+}
+
+/** Validate rows posted by the wizard (already mapped client-side). Null when the shape is wrong. */
+export function normalizeImportRows(input: unknown): ImportRow[] | null {
+  if (!Array.isArray(input)) return null;
+  const out: ImportRow[] = [];
+  input.forEach((r: Record<string, unknown> | null, i) => {
+    const title = cleanString(r?.title);
+    if (!title) return;
+    const mins = Number(r?.playtime_minutes);
+    out.push({
+      row_index: Number.isInteger(r?.row_index) ? Number(r?.row_index) : i,
+      title,
+      platform: cleanString(r?.platform, 100),
+      status: cleanString(r?.status, 100),
+      playtime_minutes: Number.isFinite(mins) && mins >= 0 ? Math.round(mins) : null,
+      first_played_at: cleanIso(r?.first_played_at),
+      last_played_at: cleanIso(r?.last_played_at),
+    });
+  });
+  return out;
+}
+
+function chunks<T>(arr: T[], size = IN_CHUNK): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < arr.length; i += size) out.push(arr.slice(i, i + size));
+  return out;
+}
+
+type ReleaseRow = {
+  id: string;
+  game_id: string | null;
+  display_title: string | null;
+  platform_key: string | null;
+  platform_name: string | null;
+  cover_url: string | null;
+};
+
+const RELEASE_COLS = "id, game_id, display_title, platform_key, platform_name, cover_url";
+
+function titleKey(s: string) {
+  return normalizeCanonicalTitle(s).toLowerCase();
+}
+
+/** "Zelda: Breath of the Wild" -> "%zelda%breath%of%the%wild%" (ilike wildcards in the input are dropped). */
+function wordPattern(title: string): string | null {
+  const words = title
+    .toLowerCase()
+    .replace(/[%_\\]/g, " ")
+    .split(/[\s\-–—:;,.!?/()[\]"+&]+/)
+    .filter(Boolean);
+  return words.length ? `%${words.join("%")}%` : null;
+}
+
+export async function matchImportRows(admin: SupabaseClient, userId: string, rows: ImportRow[]): Promise<ImportPreview> {
+  const rawTitles = [...new Set(rows.map((r) => r.title))];
+  const canonicalTitles = [...new Set(rawTitles.map((t) => normalizeCanonicalTitle(t)))];
+
+  // Tracker spellings we've seen before -> canonical title.
+  const aliasCanonical = new Map<string, string>();
+  for (const part of chunks(rawTitles)) {
+    const { data, error } = await admin
+      .from("game_title_aliases")
+      .select("raw_title, canonical_title")
+      .in("raw_title", part);
+    if (error) throw new Error(`game_title_aliases lookup: ${error.message}`);
+    for (const a of data ?? []) {
+      if (a.canonical_title) aliasCanonical.set(String(a.raw_title), String(a.canonical_title));
+    }
+  }
+
+  // canonical (lower-cased) -> game ids
+  const gamesByKey = new Map<string, Set<string>>();
+  const lookupCanonicals = [...new Set([...canonicalTitles, ...aliasCanonical.values()])];
+  for (const part of chunks(lookupCanonicals)) {
+    const { data, error } = await admin.from("games").select("id, canonical_title").in("canonical_title", part);
+    if (error) throw new Error(`games lookup: ${error.message}`);
+    for (const g of data ?? []) {
+      const k = titleKey(String(g.canonical_title ?? ""));
+      if (!gamesByKey.has(k)) gamesByKey.set(k, new Set());
+      gamesByKey.get(k)!.add(String(g.id));
+    }
+  }
+
+  const releasesById = new Map<string, ReleaseRow>();
+  const releasesByGame = new Map<string, string[]>();
+  const releasesByTitle = new Map<string, string[]>();
+  const addRelease = (r: ReleaseRow) => {
+    if (releasesById.has(r.id)) return;
+    releasesById.set(r.id, r);
+    if (r.game_id) releasesByGame.set(r.game_id, [...(releasesByGame.get(r.game_id) ?? []), r.id]);
+    const k = titleKey(r.display_title ?? "");
+    releasesByTitle.set(k, [...(releasesByTitle.get(k) ?? []), r.id]);
+  };
+
+  const gameIds = [...new Set([...gamesByKey.values()].flatMap((s) => [...s]))];
+  for (const part of chunks(gameIds)) {
+    const { data, error } = await admin.from("releases").select(RELEASE_COLS).in("game_id", part);
+    if (error) throw new Error(`releases by game: ${error.message}`);
+    (data ?? []).forEach(addRelease);
+  }
+  for (const part of chunks([...new Set([...rawTitles, ...canonicalTitles])])) {
+    const { data, error } = await admin.from("releases").select(RELEASE_COLS).in("display_title", part);
+    if (error) throw new Error(`releases by title: ${error.message}`);
+    (data ?? []).forEach(addRelease);
+  }
+
+  const exactCandidates = (r: ImportRow): string[] => {
+    const ids = new Set<string>();
+    const keys = [titleKey(r.title)];
+    const alias = aliasCanonical.get(r.title);
+    if (alias) keys.push(titleKey(alias));
+    for (const k of keys) {
+      for (const g of gamesByKey.get(k) ?? []) (releasesByGame.get(g) ?? []).forEach((id) => ids.add(id));
+      (releasesByTitle.get(k) ?? []).forEach((id) => ids.add(id));
+    }
+    return [...ids];
+  };
+
+  // Word search for rows with no exact hit (capped; each is one query).
+  const fuzzy = new Map<number, string[]>();
+  let fuzzyBudget = MAX_FUZZY_LOOKUPS;
+  for (const r of rows) {
+    if (fuzzyBudget <= 0) break;
+    if (exactCandidates(r).length) continue;
+    const pattern = wordPattern(r.title);
+    if (!pattern) continue;
+    fuzzyBudget--;
+    const { data, error } = await admin
+      .from("releases")
+      .select(RELEASE_COLS)
+      .ilike("display_title", pattern)
+      .order("display_title")
+      .limit(MAX_CANDIDATES * 2);
+    if (error) throw new Error(`releases search: ${error.message}`);
+    (data ?? []).forEach(addRelease);
+    fuzzy.set(r.row_index, (data ?? []).map((x: ReleaseRow) => String(x.id)));
+  }
+
+  const owned = new Set<string>();
+  for (const part of chunks([...releasesById.keys()])) {
+    const { data, error } = await admin
+      .from("portfolio_entries")
+      .select("release_id")
+      .eq("user_id", userId)
+      .in("release_id", part);
+    if (error) throw new Error(`portfolio lookup: ${error.message}`);
+    for (const e of data ?? []) owned.add(String(e.release_id));
+  }
+
+  const toCandidate = (id: string): ImportCandidate => {
+    const r = releasesById.get(id)!;
+    return {
+      release_id: id,
+      display_title: r.display_title ?? "Untitled",
+      platform_key: r.platform_key,
+      platform_name: r.platform_name,
+      cover_url: r.cover_url,
+      in_portfolio: owned.has(id),
+    };
+  };
+
+  const out: ImportPreviewRow[] = rows.map((r) => {
+    const exact = exactCandidates(r);
+    const isFuzzy = exact.length === 0;
+    let ids = isFuzzy ? (fuzzy.get(r.row_index) ?? []) : exact;
+
+    const hint = platformKeysForLabel(r.platform);
+    if (hint) {
+      const onPlatform = ids.filter((id) => hint.includes(String(releasesById.get(id)?.platform_key ?? "")));
+      if (onPlatform.length) ids = onPlatform;
+    }
+    ids = [...ids].sort((a, b) => Number(owned.has(b)) - Number(owned.has(a)));
+
+    let match: ImportMatchKind = "miss";
+    let releaseId: string | null = null;
+    if (ids.length && !isFuzzy) {
+      const inPortfolio = ids.filter((id) => owned.has(id));
+      if (ids.length === 1) releaseId = ids[0];
+      else if (inPortfolio.length === 1) releaseId = inPortfolio[0];
+      match = releaseId ? "matched" : "ambiguous";
+    } else if (ids.length) {
+      // Word-search hits always need a human to confirm.
+      match = "ambiguous";
+    }
+
+    const normalized = r.status ? normalizePortfolioStatus(r.status) : null;
+    return {
+      row_index: r.row_index,
+      title: r.title,
+      platform: r.platform,
+      status_raw: r.status,
+      status: normalized ?? "owned",
+      status_recognized: !r.status || normalized != null,
+      playtime_minutes: r.playtime_minutes,
+      first_played_at: r.first_played_at,
+      last_played_at: r.last_played_at,
+      match,
+      release_id: releaseId,
+      candidates: match === "miss" ? [] : ids.slice(0, MAX_CANDIDATES).map(toCandidate),
+    };
+  });
+
+  return {
+    total: out.length,
+    matched: out.filter((r) => r.match === "matched").length,
+    ambiguous: out.filter((r) => r.match === "ambiguous").length,
+    missed: out.filter((r) => r.match === "miss").length,
+    rows: out,
+  };
+}
@@ -0,0 +1,203 @@
+import type { ImportMapping } from "./mapping";
+import type { ParsedSheet } from "./csv";
+
+/**
+ * Known tracker exports. A preset recognises its headers, derives synthetic columns where the
+ * tracker doesn't have a single status / playtime column (HLTB flag columns, Grouvee JSON cells),
+ * and proposes a default mapping the user can still change in the wizard.
+ */
+
+export type ImportPresetKey = "backloggd" | "hltb" | "grouvee" | "generic";
+
+export type ImportPreset = {
+  key: ImportPresetKey;
+  label: string;
+  detect: (headers: string[]) => boolean;
+  /** Adds derived columns (named "… (derived)") to each row. */
+  expand?: (row: Record<string, string>) => Record<string, string>;
+  mapping: (headers: string[]) => ImportMapping;
+};
+
+const DERIVED_STATUS = "Status (derived)";
+const DERIVED_PLATFORM = "Platform (derived)";
+const DERIVED_PLAYTIME = "Playtime minutes (derived)";
+const DERIVED_STARTED = "Started (derived)";
+const DERIVED_FINISHED = "Finished (derived)";
+
+function norm(h: string) {
+  return h.trim().toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+function has(headers: string[], ...names: string[]) {
+  const set = new Set(headers.map(norm));
+  return names.every((n) => set.has(norm(n)));
+}
+
+/** First header whose normalized form is one of `names` (in priority order). */
+export function findHeader(headers: string[], ...names: string[]): string | undefined {
+  for (const n of names) {
+    const hit = headers.find((h) => norm(h) === norm(n));
+    if (hit) return hit;
+  }
+  return undefined;
+}
+
+function flagSet(v: string | undefined) {
+  const s = String(v ?? "").trim().toLowerCase();
+  return s !== "" && s !== "0" && s !== "false" && s !== "no";
+}
+
+function parseJsonCell(v: string | undefined): unknown {
+  if (!v) return null;
+  try {
+    return JSON.parse(v);
+  } catch {
+    return null;
+  }
+}
+
+// Backloggd: "Retired" means finished a game with no ending (HLTB uses it for dropped).
+const BACKLOGGD_STATUS: Record<string, string> = {
+  retired: "completed",
+};
+
+const backloggd: ImportPreset = {
+  key: "backloggd",
+  label: "Backloggd",
+  detect: (h) => has(h, "Status") && (has(h, "Backloggd ID") || has(h, "Played Status") || has(h, "Game Name")),
+  expand: (row) => {
+    const raw = row[findHeader(Object.keys(row), "Played Status", "Status") ?? ""] ?? "";
+    return { ...row, [DERIVED_STATUS]: BACKLOGGD_STATUS[raw.trim().toLowerCase()] ?? raw };
+  },
+  mapping: (h) => ({
+    title: findHeader(h, "Game Name", "Game", "Name", "Title"),
+    platform: findHeader(h, "Platform", "Played Platform"),
+    status: DERIVED_STATUS,
+    playtime: findHeader(h, "Time Played", "Playtime"),
+    first_played: findHeader(h, "Start Date", "Started"),
+    last_played: findHeader(h, "Finish Date", "Finished", "Date"),
+    playtime_unit: "hours",
+  }),
+};
+
+// HLTB: one yes/blank column per list instead of a status column. Most specific list wins.
+const HLTB_FLAGS: Array<[string, string]> = [
+  ["Playing", "playing"],
+  ["Replay", "playing"],
+  ["Completed", "completed"],
+  ["Retired", "dropped"],
+  ["Backlog", "back_burner"],
+];
+
+const hltb: ImportPreset = {
+  key: "hltb",
+  label: "HowLongToBeat",
+  detect: (h) => has(h, "Title", "Backlog", "Completed", "Retired") || has(h, "Title", "Main Story", "Completionist"),
+  expand: (row) => {
+    const keys = Object.keys(row);
+    let status = "";
+    for (const [flag, s] of HLTB_FLAGS) {
+      const k = keys.find((x) => norm(x) === norm(flag));
+      if (k && flagSet(row[k])) {
+        status = s;
+        break;
+      }
+    }
+    return { ...row, [DERIVED_STATUS]: status || "owned" };
+  },
+  mapping: (h) => ({
+    title: findHeader(h, "Title"),
+    platform: findHeader(h, "Platform"),
+    status: DERIVED_STATUS,
+    playtime: findHeader(h, "Progress", "Time Played", "Main Story"),
+    first_played: findHeader(h, "Start Date", "Started"),
+    last_played: findHeader(h, "Completion Date", "Finish Date", "Updated"),
+    playtime_unit: "hours",
+  }),
+};
+
+/** Grouvee keys shelves / platforms by name and stores play-throughs as a JSON list. */
+const grouvee: ImportPreset = {
+  key: "grouvee",
+  label: "Grouvee",
+  detect: (h) => has(h, "name", "shelves", "platforms") || has(h, "name", "shelves", "dates"),
+  expand: (row) => {
+    const shelves = parseJsonCell(row.shelves);
+    const platforms = parseJsonCell(row.platforms);
+    const dates = parseJsonCell(row.dates);
+
+    const shelfNames = shelves && typeof shelves === "object" ? Object.keys(shelves) : [];
+    const platformNames = platforms && typeof platforms === "object" ? Object.keys(platforms) : [];
+    const runs: Array<Record<string, unknown> | null> = Array.isArray(dates) ? dates : [];
+
+    let seconds = 0;
+    let started: string | null = null;
+    let finished: string | null = null;
+    for (const r of runs) {
+      seconds += Number(r?.seconds_played ?? 0) || 0;
+      const s = r?.date_started ? String(r.date_started) : null;
+      const f = r?.date_finished ? String(r.date_finished) : null;
+      if (s && (!started || s < started)) started = s;
+      if (f && (!finished || f > finished)) finished = f;
+    }
+
+    // Prefer the shelf that says the most about progress.
+    const order = ["Playing", "Played", "Completed", "Beaten", "Backlog", "Wish List", "Wishlist"];
+    const shelf = order.find((o) => shelfNames.some((n) => n.toLowerCase() === o.toLowerCase())) ?? shelfNames[0] ?? "";
+
+    return {
+      ...row,
+      [DERIVED_STATUS]: shelf.toLowerCase() === "played" ? "completed" : shelf,
+      [DERIVED_PLATFORM]: platformNames[0] ?? "",
+      [DERIVED_PLAYTIME]: seconds > 0 ? String(Math.round(seconds / 60)) : "",
+      [DERIVED_STARTED]: started ?? "",
+      [DERIVED_FINISHED]: finished ?? "",
+    };
+  },
+  mapping: () => ({
+    title: "name",
+    platform: DERIVED_PLATFORM,
+    status: DERIVED_STATUS,
+    playtime: DERIVED_PLAYTIME,
+    first_played: DERIVED_STARTED,
+    last_played: DERIVED_FINISHED,
+    playtime_unit: "minutes",
+  }),
+};
+
+/** Any spreadsheet: guess columns by common header names. */
+const generic: ImportPreset = {
+  key: "generic",
+  label: "Spreadsheet",
+  detect: () => true,
+  mapping: (h) => ({
+    title: findHeader(h, "Title", "Name", "Game", "Game Name", "Game Title"),
+    platform: findHeader(h, "Platform", "System", "Console"),
+    status: findHeader(h, "Status", "State", "List", "Shelf"),
+    playtime: findHeader(h, "Playtime", "Play Time", "Hours", "Hours Played", "Time Played", "Minutes"),
+    first_played: findHeader(h, "Started", "Start Date", "First Played", "Date Started"),
+    last_played: findHeader(h, "Finished", "Finish Date", "Last Played", "Completed On", "Date Finished"),
+    playtime_unit: /minutes/i.test(findHeader(h, "Minutes") ?? "") ? "minutes" : "hours",
+  }),
+};
+
+export const IMPORT_PRESETS: ImportPreset[] = [backloggd, hltb, grouvee, generic];
+
+export function detectImportPreset(headers: string[]): ImportPreset {
+  return IMPORT_PRESETS.find((p) => p.detect(headers)) ?? generic;
+}
+
+export function getImportPreset(key: ImportPresetKey): ImportPreset {
+  return IMPORT_PRESETS.find((p) => p.key === key) ?? generic;
+}
+
+/** Sheet with the preset's derived columns appended (headers included, so they show up in the mapping step). */
+export function expandSheet(sheet: ParsedSheet, preset: ImportPreset): ParsedSheet {
+  if (!preset.expand) return sheet;
+  const rows = sheet.rows.map(preset.expand);
+  const headers = [...sheet.headers];
+  for (const k of Object.keys(rows[0] ?? {})) {
+    if (!headers.includes(k)) headers.push(k);
+  }
+  return { headers, rows };
+}
@@ -33,7 +33,7 @@ export type EraKey =
   | "modern"
   | "unknown";
 
-function inferEraFromYear(y: number | null): EraKey {
+export function inferEraFromYear(y: number | null): EraKey {
   if (y == null || !Number.isFinite(y)) return "unknown";
   const yr = Number(y);
   if (yr <= 1985) return "early";
@@ -68,13 +68,32 @@ type PortfolioRow = {
   } | null;
 };
 
+export type UserStatsOptions = {
+  /**
+   * Bucket remakes/remasters by their original's first_release_year (game_relations), so Resident Evil 2
+   * (2019) counts toward the PS1 era. Defaults to the user's profiles.count_remakes_in_original_era.
+   */
+  remakesInOriginalEra?: boolean;
+};
+
+async function remakesInOriginalEraPreference(admin: SupabaseClient, userId: string): Promise<boolean> {
+  const { data, error } = await admin
+    .from("profiles")
+    .select("count_remakes_in_original_era")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) return false;
+  return Boolean((data as { count_remakes_in_original_era?: boolean } | null)?.count_remakes_in_original_era);
+}
+
 /**
  * Pull the user's releases + games release-year and platform key.
  * Then aggregate signals from PSN, Xbox, Steam, RA (table names adapted to this codebase).
  */
 export async function getUserStats(
   admin: SupabaseClient,
-  userId: string
+  userId: string,
+  opts?: UserStatsOptions
 ): Promise<UserStats> {
   const { data: rows, error } = await admin
     .from("portfolio_entries")
@@ -100,6 +119,7 @@ export async function getUserStats(
   const eraCounts: Record<string, number> = {};
   let totalReleases = 0;
   const releaseIds: string[] = [];
+  const releaseYears: Array<{ gameId: string | null; year: number | null }> = [];
 
   for (const r of (rows ?? []) as unknown as PortfolioRow[]) {
     const rel = r?.releases;
@@ -112,7 +132,22 @@ export async function getUserStats(
     platformCounts[pk] = (platformCounts[pk] ?? 0) + 1;
 
     const yr = (rel.games as { first_release_year?: number } | null)?.first_release_year ?? null;
-    const era = inferEraFromYear(typeof yr === "number" ? yr : null);
+    releaseYears.push({ gameId: rel.game_id ?? null, year: typeof yr === "number" ? yr : null });
+  }
+
+  // Remakes in the original's era: a missing game_relations table just means no remakes are known.
+  let originalYears = new Map<string, number>();
+  if (opts?.remakesInOriginalEra ?? (await remakesInOriginalEraPreference(admin, userId))) {
+    try {
+      const { originalReleaseYears } = await import("@/lib/catalog/relations");
+      originalYears = await originalReleaseYears(admin, releaseYears.map((x) => x.gameId).filter((id): id is string => id != null));
+    } catch {
+      // ignore
+    }
+  }
+
+  for (const { gameId, year } of releaseYears) {
+    const era = inferEraFromYear((gameId != null ? originalYears.get(gameId) : undefined) ?? year);
     eraCounts[era] = (eraCounts[era] ?? 0) + 1;
   }
 
@@ -195,6 +230,14 @@ export async function getUserStats(
       for (const x of psnRows ?? []) {
         totalPlaytimeMinutes += Number((x as { playtime_minutes?: number }).playtime_minutes ?? 0);
       }
+      const { data: switchRows } = await admin
+        .from("switch_title_progress")
+        .select("playtime_minutes")
+        .eq("user_id", userId)
+        .in("release_id", releaseIds);
+      for (const x of switchRows ?? []) {
+        totalPlaytimeMinutes += Number((x as { playtime_minutes?: number }).playtime_minutes ?? 0);
+      }
     }
   } catch {
     // ignore
@@ -0,0 +1,95 @@
+/**
+ * Leaderboard boards. Pure (no Supabase) so the /leaderboard page can build its board picker from it.
+ *
+ * Every board ranks a number derived from the v11 score (lib/score/v11.ts):
+ *   global          — score_total
+ *   platform:<key>  — the v11 components that platform feeds (Steam playtime, PSN playtime + trophies, …)
+ *   era:<EraKey>    — score_total × the share of the user's library released in that era
+ */
+
+import type { EraKey } from "@/lib/insights/user-stats";
+import type { ScoreV11Breakdown } from "@/lib/score/v11";
+
+export const LEADERBOARD_ERAS = ["early", "nes", "snes", "ps1", "ps2", "ps3_360", "wii", "modern"] as const satisfies readonly EraKey[];
+export type LeaderboardEra = (typeof LEADERBOARD_ERAS)[number];
+
+export const LEADERBOARD_PLATFORMS = ["steam", "psn", "xbox", "ra"] as const;
+export type LeaderboardPlatform = (typeof LEADERBOARD_PLATFORMS)[number];
+
+export type LeaderboardBoard = "global" | `era:${LeaderboardEra}` | `platform:${LeaderboardPlatform}`;
+
+export const LEADERBOARD_BOARDS: LeaderboardBoard[] = [
+  "global",
+  ...LEADERBOARD_ERAS.map((e) => `era:${e}` as const),
+  ...LEADERBOARD_PLATFORMS.map((p) => `platform:${p}` as const),
+];
+
+export const LEADERBOARD_SCOPES = ["all", "friends"] as const;
+export type LeaderboardScope = (typeof LEADERBOARD_SCOPES)[number];
+
+const ERA_LABELS: Record<LeaderboardEra, string> = {
+  early: "Early home (≤1985)",
+  nes: "NES era",
+  snes: "SNES era",
+  ps1: "PS1 era",
+  ps2: "PS2 era",
+  ps3_360: "PS3 / 360 era",
+  wii: "Wii era",
+  modern: "Modern",
+};
+
+const PLATFORM_LABELS: Record<LeaderboardPlatform, string> = {
+  steam: "Steam",
+  psn: "PlayStation",
+  xbox: "Xbox",
+  ra: "RetroAchievements",
+};
+
+export function isLeaderboardBoard(v: unknown): v is LeaderboardBoard {
+  return typeof v === "string" && (LEADERBOARD_BOARDS as string[]).includes(v);
+}
+
+export function isLeaderboardScope(v: unknown): v is LeaderboardScope {
+  return typeof v === "string" && (LEADERBOARD_SCOPES as readonly string[]).includes(v);
+}
+
+export function leaderboardBoardLabel(board: LeaderboardBoard): string {
+  if (board === "global") return "Global";
+  const [kind, key] = board.split(":");
+  if (kind === "era") return ERA_LABELS[key as LeaderboardEra] ?? key;
+  return PLATFORM_LABELS[key as LeaderboardPlatform] ?? key;
+}
+
+function platformScore(b: ScoreV11Breakdown, p: LeaderboardPlatform): number {
+  const c = b.components;
+  if (p === "steam") return c.steam_playtime;
+  if (p === "psn") return c.psn_playtime + c.psn_trophies;
+  if (p === "xbox") return c.xbox_achievements + c.xbox_playtime;
+  return c.retroachievements;
+}
+
+/**
+ * Per-board scores for one user. A user only appears on a platform/era board when they have a
+ * non-zero score there, so empty libraries don't pad the bottom of every board.
+ */
+export function leaderboardScoresForUser(
+  breakdown: ScoreV11Breakdown,
+  eraCounts: Record<string, number>
+): Partial<Record<LeaderboardBoard, number>> {
+  const out: Partial<Record<LeaderboardBoard, number>> = { global: breakdown.score_total };
+
+  for (const p of LEADERBOARD_PLATFORMS) {
+    const s = platformScore(breakdown, p);
+    if (s > 0) out[`platform:${p}`] = s;
+  }
+
+  const totalReleases = Object.values(eraCounts).reduce((sum, n) => sum + (Number(n) || 0), 0);
+  if (totalReleases > 0) {
+    for (const e of LEADERBOARD_ERAS) {
+      const s = Math.round((breakdown.score_total * (Number(eraCounts[e]) || 0)) / totalReleases);
+      if (s > 0) out[`era:${e}`] = s;
+    }
+  }
+
+  return out;
+}
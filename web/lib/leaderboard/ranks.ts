@@ -0,0 +1,466 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * leaderboard_entries: precomputed ranks per board (see ./boards.ts). GET /api/cron/leaderboard
+ * rescores eligible profiles with the v11 score a page at a time, carrying its cursor across runs
+ * (leaderboard_refresh_state), and rewrites the table once a pass has visited every profile;
+ * GET /api/leaderboard only reads it, so the page never scores anyone live.
+ *
+ * Eligible = profile_public, profile_visibility 'public' (null counts as public, like the public
+ * profile route) and profile_sharing.show_score not switched off; era boards also need show_timeline
+ * and platform boards show_platforms. Reads re-check eligibility, so a profile that goes private or
+ * switches a toggle off drops out at once instead of at the next pass.
+ */
+
+import { inferEraFromYear } from "@/lib/insights/user-stats";
+import { profileVisibility, resolveProfileSharing, type ProfileSharingKey } from "@/lib/profile/sharing";
+import { computeScoreV11 } from "@/lib/score/v11";
+import { loadFollowingIds } from "@/lib/social/follows";
+import {
+  leaderboardScoresForUser,
+  type LeaderboardBoard,
+  type LeaderboardScope,
+} from "./boards";
+
+const PAGE = 1000;
+const SCORE_PAGE = 100;
+const IN_CHUNK = 200;
+const WRITE_CHUNK = 500;
+const STATE_ID = "default";
+/** A new pass starts this long after the previous one finished (the cron runs hourly to finish passes). */
+const PASS_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+function chunks<T>(arr: T[], size = IN_CHUNK): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < arr.length; i += size) out.push(arr.slice(i, i + size));
+  return out;
+}
+
+type ProfileRow = {
+  user_id: string;
+  profile_public?: boolean | null;
+  profile_visibility: string | null;
+  profile_sharing: Record<string, unknown> | null;
+};
+
+/** profile_sharing toggles a board reveals: the score, plus the era timeline or the platforms played. */
+export function leaderboardBoardSharing(board: string): ProfileSharingKey[] {
+  if (board.startsWith("era:")) return ["show_score", "show_timeline"];
+  if (board.startsWith("platform:")) return ["show_score", "show_platforms"];
+  return ["show_score"];
+}
+
+/** Whether the profile may appear on `board` (on any board at all when it's omitted). */
+export function isLeaderboardEligible(p: ProfileRow, board = "global"): boolean {
+  if (p.profile_public === false || profileVisibility(p) !== "public") return false;
+  const shared = resolveProfileSharing(p.profile_sharing);
+  return leaderboardBoardSharing(board).every((k) => shared[k]);
+}
+
+/** Next page of public profiles after the cursor, in user_id order (eligibility is checked by the caller). */
+async function loadProfilePage(admin: SupabaseClient, afterUserId: string | null): Promise<ProfileRow[]> {
+  let q = admin
+    .from("profiles")
+    .select("user_id, profile_public, profile_visibility, profile_sharing")
+    .eq("profile_public", true)
+    .order("user_id", { ascending: true })
+    .limit(SCORE_PAGE);
+  if (afterUserId) q = q.gt("user_id", afterUserId);
+  const { data, error } = await q;
+  if (error) throw new Error(`profiles: ${error.message}`);
+  return (data ?? []) as ProfileRow[];
+}
+
+/** Portfolio size per EraKey (first_release_year of the release's game), same buckets as getUserStats. */
+async function loadEraCounts(admin: SupabaseClient, userId: string): Promise<Record<string, number>> {
+  const { data, error } = await admin
+    .from("portfolio_entries")
+    .select("release_id, releases:release_id(games:game_id(first_release_year))")
+    .eq("user_id", userId);
+  if (error) throw new Error(`portfolio_entries: ${error.message}`);
+
+  const counts: Record<string, number> = {};
+  for (const r of (data ?? []) as { releases?: { games?: { first_release_year?: unknown } | null } | null }[]) {
+    const yr = r?.releases?.games?.first_release_year;
+    const era = inferEraFromYear(typeof yr === "number" ? yr : null);
+    counts[era] = (counts[era] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/** Standard competition ranking (1, 2, 2, 4); ties broken by user_id only for a stable order. */
+function rankScores(scores: { user_id: string; score: number }[]) {
+  const sorted = [...scores].sort((a, b) => b.score - a.score || a.user_id.localeCompare(b.user_id));
+  let rank = 0;
+  return sorted.map((s, i) => {
+    if (i === 0 || s.score !== sorted[i - 1].score) rank = i + 1;
+    return { ...s, rank };
+  });
+}
+
+type RefreshState = {
+  pass_started_at: string | null;
+  cursor_user_id: string | null;
+  users_scored: number;
+  users_failed: number;
+  last_finished_at?: string | null;
+};
+
+async function loadRefreshState(admin: SupabaseClient): Promise<RefreshState> {
+  const { data, error } = await admin
+    .from("leaderboard_refresh_state")
+    .select("pass_started_at, cursor_user_id, users_scored, users_failed, last_finished_at")
+    .eq("id", STATE_ID)
+    .maybeSingle();
+  if (error) throw new Error(`leaderboard_refresh_state: ${error.message}`);
+  return {
+    pass_started_at: data?.pass_started_at ?? null,
+    cursor_user_id: data?.cursor_user_id ?? null,
+    users_scored: Number(data?.users_scored ?? 0),
+    users_failed: Number(data?.users_failed ?? 0),
+    last_finished_at: data?.last_finished_at ?? null,
+  };
+}
+
+async function saveRefreshState(admin: SupabaseClient, state: RefreshState): Promise<void> {
+  const { error } = await admin
+    .from("leaderboard_refresh_state")
+    .upsert({ id: STATE_ID, ...state, updated_at: nowIso() }, { onConflict: "id" });
+  if (error) throw new Error(`leaderboard_refresh_state: ${error.message}`);
+}
+
+/**
+ * Chunked upsert; a chunk that fails is retried row by row so one bad row doesn't sink the rest.
+ * Returns the number of rows that still failed (their errors are appended to `errors`).
+ */
+async function upsertRows(admin: SupabaseClient, table: string, rows: Record<string, unknown>[], onConflict: string, errors: string[]): Promise<number> {
+  let failed = 0;
+  for (const part of chunks(rows, WRITE_CHUNK)) {
+    const { error } = await admin.from(table).upsert(part, { onConflict });
+    if (!error) continue;
+    for (const row of part) {
+      const { error: rowErr } = await admin.from(table).upsert(row, { onConflict });
+      if (rowErr) {
+        failed += 1;
+        errors.push(`${table} ${row.board}/${row.user_id}: ${rowErr.message}`);
+      }
+    }
+  }
+  return failed;
+}
+
+/** All scores staged by this pass, per board. */
+async function loadPassScores(admin: SupabaseClient, passStartedAt: string): Promise<Map<string, { user_id: string; score: number }[]>> {
+  const byBoard = new Map<string, { user_id: string; score: number }[]>();
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await admin
+      .from("leaderboard_pass_scores")
+      .select("board, user_id, score")
+      .eq("pass_started_at", passStartedAt)
+      .order("board", { ascending: true })
+      .order("user_id", { ascending: true })
+      .range(from, from + PAGE - 1);
+    if (error) throw new Error(`leaderboard_pass_scores: ${error.message}`);
+    const rows = (data ?? []) as { board: string; user_id: string; score: number }[];
+    for (const r of rows) {
+      if (!byBoard.has(r.board)) byBoard.set(r.board, []);
+      byBoard.get(r.board)!.push({ user_id: String(r.user_id), score: Number(r.score) });
+    }
+    if (rows.length < PAGE) return byBoard;
+  }
+}
+
+/**
+ * Rank the pass's staged scores into leaderboard_entries. Rows from earlier passes that were not
+ * rewritten (profile went private, board score dropped to 0, scoring failed) are deleted.
+ */
+async function finishPass(admin: SupabaseClient, passStartedAt: string, errors: string[]): Promise<{ boards: Record<string, number>; rows_failed: number }> {
+  const rows: { board: string; user_id: string; score: number; rank: number; computed_at: string }[] = [];
+  const boards: Record<string, number> = {};
+  for (const [board, scores] of await loadPassScores(admin, passStartedAt)) {
+    const ranked = rankScores(scores);
+    boards[board] = ranked.length;
+    for (const r of ranked) rows.push({ board, user_id: r.user_id, score: r.score, rank: r.rank, computed_at: passStartedAt });
+  }
+
+  const rowsFailed = await upsertRows(admin, "leaderboard_entries", rows, "board,user_id", errors);
+
+  const { error: delErr } = await admin.from("leaderboard_entries").delete().lt("computed_at", passStartedAt);
+  if (delErr) throw new Error(`leaderboard_entries cleanup: ${delErr.message}`);
+  const { error: stageErr } = await admin.from("leaderboard_pass_scores").delete().lte("pass_started_at", passStartedAt);
+  if (stageErr) throw new Error(`leaderboard_pass_scores cleanup: ${stageErr.message}`);
+
+  return { boards, rows_failed: rowsFailed };
+}
+
+export type LeaderboardRefreshSummary = {
+  /** computed_at of the pass this run worked on. */
+  computed_at: string;
+  /** True when this run visited the last profile and rewrote leaderboard_entries. */
+  finished: boolean;
+  /** True when no pass was due yet (see PASS_INTERVAL_MS); nothing was scored. */
+  idle: boolean;
+  /** Counts for this run; the pass totals are in leaderboard_refresh_state. */
+  users_scored: number;
+  users_failed: number;
+  rows_failed: number;
+  errors: string[];
+  /** Ranked rows per board, when the pass finished. */
+  boards: Record<string, number>;
+};
+
+/**
+ * Score the next profiles of the current pass until `budgetMs` is spent, starting a new pass when
+ * none is open. A profile that fails to score is recorded and skipped, never retried in a loop.
+ */
+export async function refreshLeaderboards(admin: SupabaseClient, opts: { budgetMs: number }): Promise<LeaderboardRefreshSummary> {
+  const deadline = Date.now() + opts.budgetMs;
+  const state = await loadRefreshState(admin);
+  if (!state.pass_started_at) {
+    const lastFinished = state.last_finished_at ? new Date(state.last_finished_at).getTime() : 0;
+    if (Date.now() - lastFinished < PASS_INTERVAL_MS) {
+      return { computed_at: state.last_finished_at!, finished: false, idle: true, users_scored: 0, users_failed: 0, rows_failed: 0, errors: [], boards: {} };
+    }
+    Object.assign(state, { pass_started_at: nowIso(), cursor_user_id: null, users_scored: 0, users_failed: 0 });
+  }
+  const passStartedAt = state.pass_started_at!;
+
+  const errors: string[] = [];
+  let scored = 0;
+  let failed = 0;
+  let rowsFailed = 0;
+  let exhausted = false;
+  const saveCursor = () =>
+    saveRefreshState(admin, {
+      ...state,
+      users_scored: state.users_scored + scored,
+      users_failed: state.users_failed + failed,
+    });
+
+  while (Date.now() < deadline) {
+    const page = await loadProfilePage(admin, state.cursor_user_id);
+    let visited = 0;
+    for (const p of page) {
+      if (Date.now() >= deadline) break;
+      visited += 1;
+      const userId = String(p.user_id);
+      state.cursor_user_id = userId;
+      if (!isLeaderboardEligible(p)) continue;
+
+      try {
+        const breakdown = await computeScoreV11(admin, userId);
+        const eraCounts = await loadEraCounts(admin, userId);
+        const scores = leaderboardScoresForUser(breakdown, eraCounts);
+        const rows = Object.entries(scores)
+          .filter(([board]) => isLeaderboardEligible(p, board))
+          .map(([board, score]) => ({ board, user_id: userId, score, pass_started_at: passStartedAt }));
+        const { error } = await admin.from("leaderboard_pass_scores").upsert(rows, { onConflict: "board,user_id" });
+        if (error) throw new Error(`leaderboard_pass_scores: ${error.message}`);
+        scored += 1;
+      } catch (e) {
+        failed += 1;
+        errors.push(`${userId}: ${e instanceof Error ? e.message : "score failed"}`);
+      }
+    }
+    await saveCursor();
+
+    if (visited === page.length && page.length < SCORE_PAGE) {
+      exhausted = true;
+      break;
+    }
+  }
+
+  let boards: Record<string, number> = {};
+  if (exhausted) {
+    ({ boards, rows_failed: rowsFailed } = await finishPass(admin, passStartedAt, errors));
+    // Pass totals stay until the next pass starts.
+    await saveRefreshState(admin, {
+      pass_started_at: null,
+      cursor_user_id: null,
+      users_scored: state.users_scored + scored,
+      users_failed: state.users_failed + failed,
+      last_finished_at: nowIso(),
+    });
+  }
+
+  return {
+    computed_at: passStartedAt,
+    finished: exhausted,
+    idle: false,
+    users_scored: scored,
+    users_failed: failed,
+    rows_failed: rowsFailed,
+    errors: errors.slice(0, 20),
+    boards,
+  };
+}
+
+export type LeaderboardRow = {
+  rank: number;
+  score: number;
+  username: string | null;
+  display_name: string | null;
+  avatar_url: string | null;
+  is_me: boolean;
+};
+
+export type LeaderboardView = {
+  board: LeaderboardBoard;
+  scope: LeaderboardScope;
+  computed_at: string | null;
+  total: number;
+  me: { rank: number; score: number; top_percent: number } | null;
+  top: LeaderboardRow[];
+  /** Rows around the viewer when they are outside `top`; empty otherwise. */
+  window: LeaderboardRow[];
+};
+
+type EntryRow = { user_id: string; score: number; rank: number; computed_at: string };
+
+const ENTRY_COLS = "user_id, score, rank, computed_at";
+const WINDOW_RADIUS = 3;
+
+/** Accepted follows of the viewer (user_follows), plus the viewer. */
+async function loadFriendIds(admin: SupabaseClient, viewerId: string): Promise<string[]> {
+  return [viewerId, ...(await loadFollowingIds(admin, viewerId))];
+}
+
+type LeaderboardProfile = ProfileRow & { username: string | null; display_name: string | null; avatar_url: string | null };
+
+/**
+ * Entries joined to their profiles. Other users' rows whose profile is no longer eligible for the
+ * board (went private, switched a toggle off since the pass) are left out; the viewer's own row stays.
+ */
+export function leaderboardRows(
+  entries: EntryRow[],
+  profiles: Map<string, LeaderboardProfile>,
+  board: string,
+  viewerId: string | null
+): LeaderboardRow[] {
+  const out: LeaderboardRow[] = [];
+  for (const e of entries) {
+    const p = profiles.get(e.user_id);
+    const isMe = e.user_id === viewerId;
+    if (!isMe && (!p || !isLeaderboardEligible(p, board))) continue;
+    out.push({
+      rank: e.rank,
+      score: Number(e.score),
+      username: p?.username ?? null,
+      display_name: p?.display_name ?? null,
+      avatar_url: p?.avatar_url ?? null,
+      is_me: isMe,
+    });
+  }
+  return out;
+}
+
+async function attachProfiles(admin: SupabaseClient, entries: EntryRow[], board: string, viewerId: string | null): Promise<LeaderboardRow[]> {
+  const ids = [...new Set(entries.map((e) => e.user_id))];
+  const profiles = new Map<string, LeaderboardProfile>();
+  for (const part of chunks(ids)) {
+    const { data, error } = await admin
+      .from("profiles")
+      .select("user_id, username, display_name, avatar_url, profile_public, profile_visibility, profile_sharing")
+      .in("user_id", part);
+    if (error) throw new Error(`profiles: ${error.message}`);
+    for (const p of (data ?? []) as LeaderboardProfile[]) profiles.set(String(p.user_id), p);
+  }
+  return leaderboardRows(entries, profiles, board, viewerId);
+}
+
+function topPercent(rank: number, total: number) {
+  return total > 0 ? Math.max(1, Math.ceil((rank / total) * 100)) : 100;
+}
+
+/** Friends scope: the precomputed board filtered to the viewer's follows and re-ranked among them. */
+async function readFriendsEntries(admin: SupabaseClient, board: LeaderboardBoard, viewerId: string): Promise<EntryRow[]> {
+  const ids = await loadFriendIds(admin, viewerId);
+  const found: EntryRow[] = [];
+  for (const part of chunks(ids)) {
+    const { data, error } = await admin.from("leaderboard_entries").select(ENTRY_COLS).eq("board", board).in("user_id", part);
+    if (error) throw new Error(`leaderboard_entries: ${error.message}`);
+    found.push(...((data ?? []) as EntryRow[]));
+  }
+  const computedAt = new Map(found.map((r) => [r.user_id, r.computed_at]));
+  return rankScores(found.map((r) => ({ user_id: r.user_id, score: Number(r.score) }))).map((r) => ({
+    ...r,
+    computed_at: computedAt.get(r.user_id) ?? "",
+  }));
+}
+
+export async function readLeaderboard(
+  admin: SupabaseClient,
+  opts: { board: LeaderboardBoard; scope: LeaderboardScope; viewerId: string | null; limit: number }
+): Promise<LeaderboardView> {
+  const { board, scope, viewerId, limit } = opts;
+
+  if (scope === "friends") {
+    if (!viewerId) throw new Error("friends scope requires a signed-in viewer");
+    const entries = await readFriendsEntries(admin, board, viewerId);
+    const mine = entries.find((e) => e.user_id === viewerId) ?? null;
+    const rows = await attachProfiles(admin, entries.slice(0, limit), board, viewerId);
+    const windowEntries = mine && mine.rank > limit
+      ? entries.filter((e) => Math.abs(e.rank - mine.rank) <= WINDOW_RADIUS)
+      : [];
+    return {
+      board,
+      scope,
+      computed_at: entries[0]?.computed_at || null,
+      total: entries.length,
+      me: mine ? { rank: mine.rank, score: mine.score, top_percent: topPercent(mine.rank, entries.length) } : null,
+      top: rows,
+      window: await attachProfiles(admin, windowEntries, board, viewerId),
+    };
+  }
+
+  const { data: topData, error: topErr, count } = await admin
+    .from("leaderboard_entries")
+    .select(ENTRY_COLS, { count: "exact" })
+    .eq("board", board)
+    .order("rank", { ascending: true })
+    .order("user_id", { ascending: true })
+    .limit(limit);
+  if (topErr) throw new Error(`leaderboard_entries: ${topErr.message}`);
+  const topEntries = (topData ?? []) as EntryRow[];
+  const total = Number(count ?? topEntries.length);
+
+  let mine: EntryRow | null = null;
+  if (viewerId) {
+    const { data, error } = await admin
+      .from("leaderboard_entries")
+      .select(ENTRY_COLS)
+      .eq("board", board)
+      .eq("user_id", viewerId)
+      .maybeSingle();
+    if (error) throw new Error(`leaderboard_entries: ${error.message}`);
+    mine = (data as EntryRow | null) ?? null;
+  }
+
+  let windowEntries: EntryRow[] = [];
+  if (mine && !topEntries.some((e) => e.user_id === mine.user_id)) {
+    const { data, error } = await admin
+      .from("leaderboard_entries")
+      .select(ENTRY_COLS)
+      .eq("board", board)
+      .gte("rank", mine.rank - WINDOW_RADIUS)
+      .lte("rank", mine.rank + WINDOW_RADIUS)
+      .order("rank", { ascending: true })
+      .order("user_id", { ascending: true });
+    if (error) throw new Error(`leaderboard_entries: ${error.message}`);
+    windowEntries = (data ?? []) as EntryRow[];
+  }
+
+  return {
+    board,
+    scope,
+    computed_at: topEntries[0]?.computed_at ?? null,
+    total,
+    me: mine ? { rank: mine.rank, score: Number(mine.score), top_percent: topPercent(mine.rank, total) } : null,
+    top: await attachProfiles(admin, topEntries, board, viewerId),
+    window: await attachProfiles(admin, windowEntries, board, viewerId),
+  };
+}
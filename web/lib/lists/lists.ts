@@ -0,0 +1,403 @@
+/**
+ * User lists (lists + list_items, sql/2026-03-17_list_sharing_rankings.sql). Items are ordered by
+ * list_items.position and may carry a note; ranked lists show that order as #1, #2, ...
+ *
+ * Who can do what is decided here and checked by every /api/lists route (which then writes with
+ * the service role):
+ * - owner: everything (settings, visibility, order, collaborators, any item)
+ * - editor (list_collaborators): add items, edit the note of / remove the items they added
+ * - viewer: anyone else, when the list is curated, public or unlisted; can clone it
+ * Smart lists (is_smart) compute their items from the owner's portfolio and take no item edits.
+ * Since that is the owner's collection, other viewers also need the owner's profile to be visible
+ * and the sections the list reveals (smartListSharing) to be shared.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  isProfileVisible,
+  resolveProfileSharing,
+  type ProfilePrivacyRow,
+  type ProfileSharingKey,
+} from "@/lib/profile/sharing";
+import { loadSocialProfilesByIds, toSocialUser, type SocialUser } from "@/lib/social/follows";
+
+export const LIST_VISIBILITIES = ["private", "unlisted", "public"] as const;
+export type ListVisibility = (typeof LIST_VISIBILITIES)[number];
+
+export type ListRole = "owner" | "editor" | "viewer";
+
+export const LIST_NOTE_MAX = 500;
+
+export const LIST_COLS =
+  "id, user_id, title, name, description, is_curated, is_smart, rules, visibility, is_ranked, cloned_from, created_at, updated_at";
+
+export type ListRow = {
+  id: string;
+  user_id: string;
+  title: string | null;
+  name: string | null;
+  description: string | null;
+  is_curated: boolean | null;
+  is_smart: boolean | null;
+  rules: Record<string, unknown> | null;
+  visibility: string | null;
+  is_ranked: boolean | null;
+  cloned_from: string | null;
+  created_at: string;
+  updated_at: string | null;
+};
+
+export type ListRelease = {
+  id: string;
+  display_title: string | null;
+  platform_name: string | null;
+  cover_url: string | null;
+};
+
+export type ListItemRow = {
+  release_id: string;
+  position: number | null;
+  note: string | null;
+  added_by: string | null;
+  created_at: string | null;
+  releases: ListRelease | null;
+};
+
+export type ListItem = ListItemRow & {
+  /** 1-based place in the list; null unless the list is ranked. */
+  rank: number | null;
+  /** Viewer may edit the note / remove the item. */
+  can_edit: boolean;
+};
+
+export type ListSummary = {
+  id: string;
+  title: string;
+  description: string | null;
+  visibility: ListVisibility;
+  is_ranked: boolean;
+  is_smart: boolean;
+  is_curated: boolean;
+  cloned_from: string | null;
+  created_at: string;
+  updated_at: string | null;
+};
+
+const IN_CHUNK = 200;
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+function chunks<T>(arr: T[], size = IN_CHUNK): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < arr.length; i += size) out.push(arr.slice(i, i + size));
+  return out;
+}
+
+export function isListVisibility(v: unknown): v is ListVisibility {
+  return typeof v === "string" && (LIST_VISIBILITIES as readonly string[]).includes(v);
+}
+
+export function listVisibility(l: Pick<ListRow, "visibility">): ListVisibility {
+  return isListVisibility(l.visibility) ? l.visibility : "private";
+}
+
+export function listTitle(l: Pick<ListRow, "title" | "name">): string {
+  return (l.title ?? l.name) || "Untitled list";
+}
+
+export function toListSummary(l: ListRow): ListSummary {
+  return {
+    id: l.id,
+    title: listTitle(l),
+    description: l.description ?? null,
+    visibility: listVisibility(l),
+    is_ranked: !!l.is_ranked,
+    is_smart: !!l.is_smart,
+    is_curated: !!l.is_curated,
+    cloned_from: l.cloned_from ?? null,
+    created_at: l.created_at,
+    updated_at: l.updated_at ?? null,
+  };
+}
+
+/** Status and platform filters of a smart list; anything malformed counts as no filter. */
+export function smartListRules(list: Partial<Pick<ListRow, "rules">>): { statuses: string[]; platform_keys: string[] } {
+  const rules = (list.rules ?? {}) as { statuses?: unknown; platform_keys?: unknown };
+  const strings = (v: unknown) => (Array.isArray(v) ? v.filter((x): x is string => typeof x === "string") : []);
+  return { statuses: strings(rules.statuses), platform_keys: strings(rules.platform_keys) };
+}
+
+/**
+ * Sharing toggles of the owner a smart list needs before a viewer sees it: the items are the owner's
+ * collection with each release's platform, and a status filter tells what they're playing or finished.
+ */
+export function smartListSharing(list: Partial<Pick<ListRow, "rules">>): ProfileSharingKey[] {
+  const keys: ProfileSharingKey[] = ["show_collections", "show_platforms"];
+  if (smartListRules(list).statuses.length > 0) keys.push("show_recent_activity");
+  return keys;
+}
+
+/**
+ * Viewer's role on the list, or null when they can't see it at all. Smart lists only reach viewers
+ * when `owner` (the owner's profile row) is visible and shares everything smartListSharing asks for.
+ */
+export function listRole(
+  list: Pick<ListRow, "user_id" | "is_curated" | "visibility"> & Partial<Pick<ListRow, "is_smart" | "rules">>,
+  viewerId: string | null,
+  collaboratorIds: readonly string[],
+  owner: ProfilePrivacyRow | null = null
+): ListRole | null {
+  if (viewerId && list.user_id === viewerId) return "owner";
+  if (viewerId && collaboratorIds.includes(viewerId)) return "editor";
+  if (list.is_curated !== true && listVisibility(list) === "private") return null;
+  if (list.is_smart) {
+    if (!owner || !isProfileVisible(owner)) return null;
+    const sharing = resolveProfileSharing(owner.profile_sharing);
+    if (!smartListSharing(list).every((k) => sharing[k])) return null;
+  }
+  return "viewer";
+}
+
+export function canAddListItems(role: ListRole | null, list: Pick<ListRow, "is_smart">): boolean {
+  return !list.is_smart && (role === "owner" || role === "editor");
+}
+
+export function canEditListItem(
+  role: ListRole | null,
+  list: Pick<ListRow, "is_smart">,
+  item: Pick<ListItemRow, "added_by">,
+  viewerId: string | null
+): boolean {
+  if (list.is_smart) return false;
+  return role === "owner" || (role === "editor" && !!viewerId && item.added_by === viewerId);
+}
+
+/** Trimmed note, null when empty; `false` when longer than LIST_NOTE_MAX. */
+export function normalizeListNote(raw: unknown): string | null | false {
+  if (typeof raw !== "string") return null;
+  const note = raw.trim();
+  if (!note) return null;
+  return note.length > LIST_NOTE_MAX ? false : note;
+}
+
+/** List order: position ascending (unpositioned last), then newest first. */
+export function sortListItems<T extends Pick<ListItemRow, "position" | "created_at" | "release_id">>(rows: T[]): T[] {
+  return [...rows].sort((a, b) => {
+    const pa = a.position ?? Number.POSITIVE_INFINITY;
+    const pb = b.position ?? Number.POSITIVE_INFINITY;
+    if (pa !== pb) return pa - pb;
+    const ca = a.created_at ?? "";
+    const cb = b.created_at ?? "";
+    if (ca !== cb) return ca < cb ? 1 : -1;
+    return a.release_id.localeCompare(b.release_id);
+  });
+}
+
+/** `ids` with the item at `from` moved to index `to` (both clamped). */
+export function moveListItem<T>(ids: readonly T[], from: number, to: number): T[] {
+  const out = [...ids];
+  if (from < 0 || from >= out.length) return out;
+  const [item] = out.splice(from, 1);
+  out.splice(Math.max(0, Math.min(out.length, to)), 0, item);
+  return out;
+}
+
+/** Whether `next` is a reordering of exactly the items in `current`. */
+export function isListReorder(current: readonly string[], next: readonly string[]): boolean {
+  if (current.length !== next.length) return false;
+  const want = new Set(current);
+  const seen = new Set<string>();
+  for (const id of next) {
+    if (!want.has(id) || seen.has(id)) return false;
+    seen.add(id);
+  }
+  return true;
+}
+
+export function nextListPosition(rows: Array<Pick<ListItemRow, "position">>): number {
+  return rows.reduce((max, r) => Math.max(max, r.position ?? 0), 0) + 1;
+}
+
+/** Sorted items with ranks and per-item edit rights for the viewer. */
+export function presentListItems(
+  rows: ListItemRow[],
+  list: Pick<ListRow, "is_ranked" | "is_smart">,
+  role: ListRole | null,
+  viewerId: string | null
+): ListItem[] {
+  return sortListItems(rows).map((r, i) => ({
+    ...r,
+    rank: list.is_ranked ? i + 1 : null,
+    can_edit: canEditListItem(role, list, r, viewerId),
+  }));
+}
+
+export async function loadList(admin: SupabaseClient, listId: string): Promise<ListRow | null> {
+  if (!UUID_RE.test(listId)) return null;
+  const { data, error } = await admin.from("lists").select(LIST_COLS).eq("id", listId).maybeSingle<ListRow>();
+  if (error) throw new Error(`lists: ${error.message}`);
+  return data ?? null;
+}
+
+export async function loadCollaboratorIds(admin: SupabaseClient, listId: string): Promise<string[]> {
+  const { data, error } = await admin.from("list_collaborators").select("user_id").eq("list_id", listId);
+  if (error) throw new Error(`list_collaborators: ${error.message}`);
+  return ((data ?? []) as { user_id: string }[]).map((r) => String(r.user_id));
+}
+
+/** The list and the viewer's role on it; null when it doesn't exist or the viewer can't see it. */
+export async function loadListForViewer(
+  admin: SupabaseClient,
+  listId: string,
+  viewerId: string | null
+): Promise<{ list: ListRow; role: ListRole; collaboratorIds: string[] } | null> {
+  const list = await loadList(admin, listId);
+  if (!list) return null;
+  const collaboratorIds = await loadCollaboratorIds(admin, list.id);
+  const owner = list.is_smart ? ((await loadSocialProfilesByIds(admin, [list.user_id])).get(list.user_id) ?? null) : null;
+  const role = listRole(list, viewerId, collaboratorIds, owner);
+  return role ? { list, role, collaboratorIds } : null;
+}
+
+/**
+ * Collaborators as shown on the list. Profiles hidden by profile_visibility only show up for
+ * the owner and the collaborators themselves (who need them to manage / recognise the list).
+ */
+export async function loadListCollaborators(
+  admin: SupabaseClient,
+  collaboratorIds: string[],
+  opts: { includeHidden?: boolean } = {}
+): Promise<SocialUser[]> {
+  const profiles = await loadSocialProfilesByIds(admin, collaboratorIds);
+  const out: SocialUser[] = [];
+  for (const id of collaboratorIds) {
+    const p = profiles.get(id);
+    const user = p && (opts.includeHidden || isProfileVisible(p)) ? toSocialUser(p) : null;
+    if (user) out.push(user);
+  }
+  return out;
+}
+
+export async function loadListItemRows(admin: SupabaseClient, list: Pick<ListRow, "id" | "user_id" | "is_smart" | "rules">): Promise<ListItemRow[]> {
+  if (list.is_smart) {
+    const { statuses, platform_keys } = smartListRules(list);
+
+    // Inner join: filtering on the embedded releases.platform_key drops the portfolio row itself
+    // instead of keeping it with releases: null.
+    let q = admin
+      .from("portfolio_items")
+      .select<string, { release_id: string; releases: ListRelease | null }>(
+        "release_id, releases!inner(id, display_title, platform_name, platform_key, cover_url)"
+      )
+      .eq("user_id", list.user_id);
+    if (statuses.length > 0) q = q.in("status", statuses);
+    if (platform_keys.length > 0) q = q.in("releases.platform_key", platform_keys);
+
+    const { data, error } = await q;
+    if (error) throw new Error(`portfolio_items: ${error.message}`);
+    return (data ?? []).map((r) => ({
+      release_id: r.release_id,
+      position: null,
+      note: null,
+      added_by: list.user_id,
+      created_at: null,
+      releases: r.releases,
+    }));
+  }
+
+  const { data, error } = await admin
+    .from("list_items")
+    .select<string, ListItemRow>("release_id, position, note, added_by, created_at, releases(id, display_title, platform_name, cover_url)")
+    .eq("list_id", list.id);
+  if (error) throw new Error(`list_items: ${error.message}`);
+  return sortListItems(data ?? []);
+}
+
+export async function touchList(admin: SupabaseClient, listId: string): Promise<void> {
+  const { error } = await admin.from("lists").update({ updated_at: nowIso() }).eq("id", listId);
+  if (error) throw new Error(`lists: ${error.message}`);
+}
+
+/** Appends the release at the end of the list; an item already on it is left where it is. */
+export async function addListItem(
+  admin: SupabaseClient,
+  listId: string,
+  releaseId: string,
+  userId: string,
+  note: string | null
+): Promise<{ already: boolean }> {
+  const { data: rows, error: pErr } = await admin
+    .from("list_items")
+    .select("release_id, position")
+    .eq("list_id", listId);
+  if (pErr) throw new Error(`list_items: ${pErr.message}`);
+  const existing = (rows ?? []) as Array<Pick<ListItemRow, "release_id" | "position">>;
+  if (existing.some((r) => r.release_id === releaseId)) return { already: true };
+
+  const { error } = await admin.from("list_items").insert({
+    list_id: listId,
+    release_id: releaseId,
+    position: nextListPosition(existing),
+    note,
+    added_by: userId,
+  });
+  if (error && (error as { code?: string }).code === "23505") return { already: true };
+  if (error) throw new Error(`list_items: ${error.message}`);
+  await touchList(admin, listId);
+  return { already: false };
+}
+
+/** Writes positions 1..n in the given order (callers check it with isListReorder first). */
+export async function writeListOrder(admin: SupabaseClient, listId: string, releaseIds: string[]): Promise<void> {
+  const rows = releaseIds.map((release_id, i) => ({ list_id: listId, release_id, position: i + 1 }));
+  for (const part of chunks(rows)) {
+    const { error } = await admin.from("list_items").upsert(part, { onConflict: "list_id,release_id" });
+    if (error) throw new Error(`list_items: ${error.message}`);
+  }
+  await touchList(admin, listId);
+}
+
+/**
+ * "Clone this list": a private copy owned by `userId` with the same order and notes (smart lists
+ * copy their rules, so the clone fills from the cloner's own portfolio).
+ */
+export async function cloneList(admin: SupabaseClient, source: ListRow, userId: string): Promise<ListRow> {
+  const title = listTitle(source);
+  const { data, error } = await admin
+    .from("lists")
+    .insert({
+      user_id: userId,
+      name: title,
+      title,
+      description: source.description ?? null,
+      is_curated: false,
+      is_smart: !!source.is_smart,
+      ...(source.is_smart ? { rules: source.rules ?? {} } : {}),
+      visibility: "private",
+      is_ranked: !!source.is_ranked,
+      cloned_from: source.id,
+    })
+    .select(LIST_COLS)
+    .single<ListRow>();
+  if (error) throw new Error(`lists: ${error.message}`);
+  const copy = data;
+
+  if (!source.is_smart) {
+    const items = await loadListItemRows(admin, source);
+    const rows = items.map((it, i) => ({
+      list_id: copy.id,
+      release_id: it.release_id,
+      position: i + 1,
+      note: it.note ?? null,
+      added_by: userId,
+    }));
+    for (const part of chunks(rows)) {
+      const { error: iErr } = await admin.from("list_items").insert(part);
+      if (iErr) throw new Error(`list_items: ${iErr.message}`);
+    }
+  }
+  return copy;
+}
@@ -0,0 +1,80 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  beginCatalogAudit,
+  completeCatalogAudit,
+  type CatalogActor,
+} from "@/lib/catalog/audit";
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+export type GameMergeResult =
+  | { ok: true; audit_id: string; moved_releases: number; deleted_ids: string[] }
+  | { ok: false; audit_id: string | null; error: string };
+
+/**
+ * Merge loser games into winner: repoint releases.game_id and game_external_ids to winner, then delete losers.
+ * Recorded in catalog_audit_log (full loser rows + which releases moved) so /admin/catalog-audit can undo it.
+ */
+export async function mergeGamesInto(
+  admin: SupabaseClient,
+  winnerId: string,
+  loserIds: string[],
+  actor: CatalogActor
+): Promise<GameMergeResult> {
+  const losers = [...new Set(loserIds)].filter((id) => id && id !== winnerId);
+  if (!winnerId || !losers.length) return { ok: false, audit_id: null, error: "Nothing to merge" };
+
+  let auditId: string;
+  try {
+    const { data: games, error: gErr } = await admin.from("games").select("*").in("id", losers);
+    if (gErr) throw new Error(`games snapshot: ${gErr.message}`);
+    const { data: rels, error: rErr } = await admin.from("releases").select("id, game_id").in("game_id", losers);
+    if (rErr) throw new Error(`releases snapshot: ${rErr.message}`);
+    const { data: ext, error: xErr } = await admin.from("game_external_ids").select("*").in("game_id", losers);
+    if (xErr) throw new Error(`game_external_ids snapshot: ${xErr.message}`);
+
+    const releaseIds: Record<string, string[]> = Object.fromEntries(losers.map((id) => [id, [] as string[]]));
+    for (const r of (rels ?? []) as { id: string; game_id: string }[]) {
+      releaseIds[String(r.game_id)]?.push(String(r.id));
+    }
+
+    auditId = await beginCatalogAudit(admin, {
+      action: "game_merge",
+      actor,
+      target_type: "game",
+      target_id: winnerId,
+      subject_ids: losers,
+      before: { games: games ?? [], release_ids: releaseIds, game_external_ids: ext ?? [] },
+    });
+  } catch (e) {
+    return { ok: false, audit_id: null, error: e instanceof Error ? e.message : "audit snapshot failed" };
+  }
+
+  try {
+    const { data: moved, error: mvErr } = await admin
+      .from("releases")
+      .update({ game_id: winnerId, updated_at: nowIso() })
+      .in("game_id", losers)
+      .select("id");
+    if (mvErr) throw new Error(`Failed to repoint releases: ${mvErr.message}`);
+
+    // game_external_ids cascade on game delete; keep the mappings by moving them to the winner.
+    const { error: extErr } = await admin.from("game_external_ids").update({ game_id: winnerId }).in("game_id", losers);
+    if (extErr) throw new Error(`Failed to repoint game_external_ids: ${extErr.message}`);
+
+    const { error: delErr } = await admin.from("games").delete().in("id", losers);
+    if (delErr) throw new Error(`Failed to delete merged games: ${delErr.message}`);
+
+    const movedReleases = Array.isArray(moved) ? moved.length : 0;
+    await completeCatalogAudit(admin, auditId, {
+      after: { winner_id: winnerId, moved_releases: movedReleases, deleted_ids: losers },
+    });
+    return { ok: true, audit_id: auditId, moved_releases: movedReleases, deleted_ids: losers };
+  } catch (e) {
+    const error = e instanceof Error ? e.message : "merge failed";
+    await completeCatalogAudit(admin, auditId, { error });
+    return { ok: false, audit_id: auditId, error };
+  }
+}
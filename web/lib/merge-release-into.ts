@@ -1,35 +1,211 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
 import { releaseExternalIdRow } from "@/lib/release-external-ids";
+import {
+  beginCatalogAudit,
+  completeCatalogAudit,
+  EDITION_REF_TABLES,
+  pickKey,
+  RELEASE_REF_TABLES,
+  snapshotPatchedRows,
+  SYNC_ACTOR,
+  whereKey,
+  type CatalogActor,
+  type CatalogAffectedRow,
+} from "@/lib/catalog/audit";
+import { listReleaseEditions, planEditionMerge, type EditionMergePlan, type ReleaseEdition } from "@/lib/catalog/editions";
+
+const PAGE = 1000;
+
+export type ReleaseMergeResult =
+  | { ok: true; audit_id: string; moved: Record<string, number>; dropped: number }
+  | { ok: false; audit_id: string | null; error: string };
+
+async function loadRows(admin: SupabaseClient, table: string, column: string, value: string) {
+  const out: Record<string, unknown>[] = [];
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await admin.from(table).select("*").eq(column, value).range(from, from + PAGE - 1);
+    if (error) throw new Error(`${table} snapshot: ${error.message}`);
+    out.push(...((data ?? []) as Record<string, unknown>[]));
+    if ((data ?? []).length < PAGE) return out;
+  }
+}
+
+/**
+ * Fold the loser's editions the winner already has (same region + edition_slug) into the winner's:
+ * portfolio entries and physical items are relinked, codes merged, the loser's edition dropped.
+ * Editions the winner lacks move with the generic release_id update afterwards.
+ */
+async function foldEditions(admin: SupabaseClient, plan: EditionMergePlan, affected: CatalogAffectedRow[]): Promise<number> {
+  for (const { loser, winner, patch } of plan.pairs) {
+    for (const { table, key, user } of EDITION_REF_TABLES) {
+      const { data, error } = await admin
+        .from(table)
+        .select<string, Record<string, unknown>>([...new Set([...key, user])].join(", "))
+        .eq("edition_id", loser.id);
+      if (error) throw new Error(`${table} editions lookup: ${error.message}`);
+      const refs = data ?? [];
+      if (!refs.length) continue;
+      const { error: upErr } = await admin.from(table).update({ edition_id: winner.id }).eq("edition_id", loser.id);
+      if (upErr) throw new Error(`${table} edition relink: ${upErr.message}`);
+      for (const r of refs) {
+        affected.push({
+          table,
+          key: pickKey(r, key),
+          user_id: r[user] ? String(r[user]) : null,
+          op: "relinked",
+          column: "edition_id",
+          from: loser.id,
+          to: winner.id,
+        });
+      }
+    }
+
+    const { error: patchErr } = await admin
+      .from("release_editions")
+      .update({ ...patch, updated_at: new Date().toISOString() })
+      .eq("id", winner.id);
+    if (patchErr) throw new Error(`release_editions merge: ${patchErr.message}`);
+    const { error: delErr } = await admin.from("release_editions").delete().eq("id", loser.id);
+    if (delErr) throw new Error(`release_editions delete: ${delErr.message}`);
+    affected.push({
+      table: "release_editions",
+      key: { region: loser.region, edition_slug: loser.edition_slug },
+      user_id: null,
+      op: "dropped",
+    });
+  }
+  return plan.pairs.length;
+}
 
 /**
- * Merge loser release into winner: move portfolio + signals + release_external_ids to winner, then delete loser.
+ * Merge loser release into winner: move every row that references it (RELEASE_REF_TABLES: portfolio,
+ * physical items, lists, played-on, memories, progress, editions, ...) and release_external_ids to
+ * winner, then delete loser.
  * Used when the anchored release_external_ids row points to a different release_id than the one we just created.
+ *
+ * Every merge is recorded in catalog_audit_log first (loser row, external ids and every row that pointed
+ * at it), so it can be reverted from /admin/catalog-audit. Rows the winner already has for the same
+ * user (e.g. two portfolio entries) can't move; the winner's row is kept and the loser's is kept in the
+ * snapshot. Editions both releases have (same region + edition_slug) are folded into the winner's
+ * (foldEditions), with the winner's edition snapshotted too. If the audit entry can't be written,
+ * nothing is merged.
  */
-export async function mergeReleaseInto(admin: any, winnerId: string, loserId: string) {
-  const tablesWithReleaseId = [
-    "portfolio_entries",
-    "psn_title_progress",
-    "xbox_title_progress",
-    "steam_title_progress",
-    "ra_achievement_cache",
-  ] as const;
-  for (const table of tablesWithReleaseId) {
-    await admin.from(table).update({ release_id: winnerId }).eq("release_id", loserId);
+export async function mergeReleaseInto(
+  admin: SupabaseClient,
+  winnerId: string,
+  loserId: string,
+  actor: CatalogActor = SYNC_ACTOR
+): Promise<ReleaseMergeResult> {
+  if (!winnerId || !loserId || winnerId === loserId) {
+    return { ok: false, audit_id: null, error: "winner and loser must be different releases" };
   }
-  // release_enrichment_state is keyed by release_id; drop loser row (winner may already have one)
-  await admin.from("release_enrichment_state").delete().eq("release_id", loserId);
-  const { data: extRows } = await admin
-    .from("release_external_ids")
-    .select("source, external_id")
-    .eq("release_id", loserId);
-  if (Array.isArray(extRows) && extRows.length) {
-    for (const x of extRows as { source: string; external_id: string }[]) {
-      await admin
-        .from("release_external_ids")
-        .upsert(releaseExternalIdRow(winnerId, x.source, x.external_id), {
-          onConflict: "source,external_id",
-        });
+
+  let auditId: string;
+  let editions: EditionMergePlan;
+  try {
+    const { data: release, error: relErr } = await admin.from("releases").select("*").eq("id", loserId).maybeSingle();
+    if (relErr) throw new Error(`releases snapshot: ${relErr.message}`);
+    if (!release) return { ok: false, audit_id: null, error: `release ${loserId} not found` };
+
+    const { data: extRows, error: extErr } = await admin.from("release_external_ids").select("*").eq("release_id", loserId);
+    if (extErr) throw new Error(`release_external_ids snapshot: ${extErr.message}`);
+    const { data: enrichment } = await admin.from("release_enrichment_state").select("*").eq("release_id", loserId).maybeSingle();
+
+    const rows: Record<string, Record<string, unknown>[]> = {};
+    for (const { table } of RELEASE_REF_TABLES) {
+      const found = await loadRows(admin, table, "release_id", loserId);
+      if (found.length) rows[table] = found;
+    }
+
+    editions = planEditionMerge((rows.release_editions ?? []) as ReleaseEdition[], await listReleaseEditions(admin, winnerId));
+    const patched = editions.pairs.length
+      ? await snapshotPatchedRows(admin, "release_editions", ["id"], ["product_codes", "barcodes", "released_on", "notes", "updated_at"], (q) =>
+          q.in("id", editions.pairs.map((p) => p.winner.id))
+        )
+      : [];
+
+    auditId = await beginCatalogAudit(admin, {
+      action: "release_merge",
+      actor,
+      target_type: "release",
+      target_id: winnerId,
+      subject_ids: [loserId],
+      before: { release, external_ids: extRows ?? [], enrichment_state: enrichment ?? null, rows, patched },
+    });
+  } catch (e) {
+    const error = e instanceof Error ? e.message : "audit snapshot failed";
+    console.warn(`mergeReleaseInto ${loserId} -> ${winnerId} skipped: ${error}`);
+    return { ok: false, audit_id: null, error };
+  }
+
+  const affected: CatalogAffectedRow[] = [];
+  const moved: Record<string, number> = {};
+  try {
+    const folded = await foldEditions(admin, editions, affected);
+    if (folded) moved.release_editions_folded = folded;
+
+    for (const { table, key, user } of RELEASE_REF_TABLES) {
+      const { data: current, error: curErr } = await admin
+        .from(table)
+        .select<string, Record<string, unknown>>([...new Set(user ? [...key, user] : key)].join(", "))
+        .eq("release_id", loserId);
+      if (curErr) throw new Error(`${table} lookup: ${curErr.message}`);
+      const refs = current ?? [];
+      if (!refs.length) continue;
+      const userOf = (r: Record<string, unknown>) => (user && r[user] ? String(r[user]) : null);
+
+      const { error: bulkErr } = await admin.from(table).update({ release_id: winnerId }).eq("release_id", loserId);
+      if (!bulkErr) {
+        for (const r of refs) {
+          affected.push({ table, key: pickKey(r, key), user_id: userOf(r), op: "moved" });
+        }
+        moved[table] = refs.length;
+        continue;
+      }
+
+      // Bulk move hit a conflict (winner already has some of these rows): go row by row.
+      for (const r of refs) {
+        const k = pickKey(r, key);
+        const { error: oneErr } = await whereKey(admin.from(table).update({ release_id: winnerId }), k).eq("release_id", loserId);
+        if (!oneErr) {
+          affected.push({ table, key: k, user_id: userOf(r), op: "moved" });
+          moved[table] = (moved[table] ?? 0) + 1;
+          continue;
+        }
+        const { error: delErr } = await whereKey(admin.from(table).delete(), k).eq("release_id", loserId);
+        if (delErr) throw new Error(`${table} ${JSON.stringify(k)}: ${delErr.message}`);
+        affected.push({ table, key: k, user_id: userOf(r), op: "dropped" });
+      }
     }
-    await admin.from("release_external_ids").delete().eq("release_id", loserId);
+
+    // release_enrichment_state is keyed by release_id; drop loser row (winner may already have one)
+    await admin.from("release_enrichment_state").delete().eq("release_id", loserId);
+    const { data: extRows } = await admin
+      .from("release_external_ids")
+      .select("source, external_id")
+      .eq("release_id", loserId);
+    if (Array.isArray(extRows) && extRows.length) {
+      for (const x of extRows as { source: string; external_id: string }[]) {
+        await admin
+          .from("release_external_ids")
+          .upsert(releaseExternalIdRow(winnerId, x.source, x.external_id), {
+            onConflict: "source,external_id",
+          });
+      }
+      await admin.from("release_external_ids").delete().eq("release_id", loserId);
+    }
+    const { error: delErr } = await admin.from("releases").delete().eq("id", loserId);
+    if (delErr) throw new Error(`releases delete: ${delErr.message}`);
+  } catch (e) {
+    const error = e instanceof Error ? e.message : "merge failed";
+    await completeCatalogAudit(admin, auditId, { affected, error });
+    return { ok: false, audit_id: auditId, error };
   }
-  await admin.from("releases").delete().eq("id", loserId);
+
+  const dropped = affected.filter((a) => a.op === "dropped").length;
+  await completeCatalogAudit(admin, auditId, {
+    after: { winner_id: winnerId, moved, dropped },
+    affected,
+  });
+  return { ok: true, audit_id: auditId, moved, dropped };
 }
@@ -0,0 +1,91 @@
+/**
+ * Dataset-backed metadata providers: the curated local dataset (lib/metadata/local-games.json,
+ * last in the default chain) and a file-backed provider that reads the same format from disk,
+ * used as a fake for offline tests and via METADATA_PROVIDERS=file:<path> in dev.
+ */
+import { readFile } from "fs/promises";
+import path from "path";
+import localGamesJson from "./local-games.json";
+import {
+  pickBestMetadataRecord,
+  type MetadataProvider,
+  type MetadataRecord,
+} from "./sources";
+
+/** One dataset entry. Everything but id and title is optional. */
+export type MetadataDatasetEntry = {
+  id: string;
+  title: string;
+  /** Alternate titles (regional names, romanizations) matched like the title. */
+  aliases?: string[];
+  summary?: string | null;
+  developer?: string | null;
+  publisher?: string | null;
+  first_release_year?: number | null;
+  cover_url?: string | null;
+  genres?: string[] | null;
+  platforms?: string[];
+};
+
+function entryRecords(provider: string, e: MetadataDatasetEntry): MetadataRecord[] {
+  const base: Omit<MetadataRecord, "title"> = {
+    provider,
+    external_id: String(e.id),
+    summary: e.summary ?? null,
+    developer: e.developer ?? null,
+    publisher: e.publisher ?? null,
+    first_release_year: e.first_release_year ?? null,
+    cover_url: e.cover_url ?? null,
+    genres: Array.isArray(e.genres) && e.genres.length ? e.genres : null,
+    platform_names: Array.isArray(e.platforms) ? e.platforms : undefined,
+  };
+  // Aliases score as their own records but report the canonical title.
+  return [e.title, ...(e.aliases ?? [])].map((t) => ({ ...base, title: t }));
+}
+
+function parseDataset(json: unknown, source: string): MetadataDatasetEntry[] {
+  const rows = Array.isArray(json) ? json : (json as { games?: unknown })?.games;
+  if (!Array.isArray(rows)) throw new Error(`metadata dataset ${source}: expected an array or { games: [] }`);
+  return rows.filter(
+    (r): r is MetadataDatasetEntry =>
+      r != null && typeof r === "object" && typeof r.id !== "undefined" && typeof r.title === "string" && r.title.trim() !== ""
+  );
+}
+
+/** Provider over an in-memory dataset. */
+export function datasetMetadataProvider(id: string, entries: MetadataDatasetEntry[]): MetadataProvider {
+  const byId = new Map(entries.map((e) => [String(e.id), e]));
+  const records = entries.flatMap((e) => entryRecords(id, e));
+  return {
+    id,
+    async search(title, opts) {
+      const best = pickBestMetadataRecord(records, title, opts);
+      if (!best) return null;
+      return { ...best, title: byId.get(best.external_id)?.title ?? best.title };
+    },
+  };
+}
+
+/** The curated dataset shipped with the app (hand-maintained for titles IGDB lacks). */
+export function localMetadataProvider(): MetadataProvider {
+  return datasetMetadataProvider("local", parseDataset(localGamesJson, "local-games.json"));
+}
+
+/**
+ * Provider reading a dataset JSON file (same format as local-games.json) on first search.
+ * Relative paths resolve against the process cwd. Id is "file:<basename>" unless given.
+ */
+export function fileMetadataProvider(filePath: string, id?: string): MetadataProvider {
+  const abs = path.resolve(process.cwd(), filePath);
+  const providerId = id ?? `file:${path.basename(abs)}`;
+  let loaded: Promise<MetadataProvider> | null = null;
+  return {
+    id: providerId,
+    async search(title, opts) {
+      loaded ??= readFile(abs, "utf8").then((text) =>
+        datasetMetadataProvider(providerId, parseDataset(JSON.parse(text), abs))
+      );
+      return (await loaded).search(title, opts);
+    },
+  };
+}
@@ -0,0 +1,30 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { igdbSearchBestSingle, type IgdbHit } from "@/lib/igdb/server";
+import type { MetadataProvider, MetadataRecord } from "./sources";
+
+/** Shape an IgdbHit (search or igdbFetchGameById) as a MetadataRecord. */
+export function metadataFromIgdbHit(hit: IgdbHit): MetadataRecord {
+  return {
+    provider: "igdb",
+    external_id: String(hit.igdb_game_id),
+    title: hit.title,
+    summary: hit.summary ?? null,
+    developer: hit.developer ?? null,
+    publisher: hit.publisher ?? null,
+    first_release_year: hit.first_release_year ?? null,
+    cover_url: hit.cover_url ?? null,
+    genres: Array.isArray(hit.genres) && hit.genres.length ? hit.genres : null,
+    platform_names: hit.platform_names,
+  };
+}
+
+/** IGDB via the existing scored search; only hits at or above AUTO_MATCH_THRESHOLD count. */
+export function igdbMetadataProvider(admin?: SupabaseClient): MetadataProvider {
+  return {
+    id: "igdb",
+    async search(title) {
+      const hit = await igdbSearchBestSingle(title, { rawTitle: title, useGameTitleAlias: true }, admin);
+      return hit ? metadataFromIgdbHit(hit) : null;
+    },
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * MobyGames-style secondary source (https://www.mobygames.com/info/api/). Strong on retro and
+ * obscure titles IGDB lacks. Needs MOBYGAMES_API_KEY; without it search() returns null. The
+ * games endpoint carries no credits, so developer/publisher stay null and fall through to the
+ * next provider.
+ */
+import { pickBestMetadataRecord, type MetadataProvider, type MetadataRecord } from "./sources";
+
+const MOBYGAMES_API_KEY = process.env.MOBYGAMES_API_KEY;
+const MOBYGAMES_BASE_URL = process.env.MOBYGAMES_BASE_URL || "https://api.mobygames.com/v1";
+/** Free tier allows one request per second. */
+const MIN_REQUEST_INTERVAL_MS = 1100;
+
+let lastRequestAt = 0;
+
+async function throttle() {
+  const wait = lastRequestAt + MIN_REQUEST_INTERVAL_MS - Date.now();
+  if (wait > 0) await new Promise((r) => setTimeout(r, wait));
+  lastRequestAt = Date.now();
+}
+
+function stripHtml(s: string): string {
+  return s
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** The fields of a games endpoint result recordFromGame reads. */
+type MobyGame = {
+  game_id?: number | null;
+  title?: string | null;
+  description?: string | null;
+  genres?: { genre_name?: string | null }[];
+  platforms?: { platform_name?: string | null; first_release_date?: string | null }[];
+  sample_cover?: { image?: string | null } | null;
+};
+
+function recordFromGame(g: MobyGame | null): MetadataRecord | null {
+  if (g?.game_id == null || !g?.title) return null;
+  const platforms = Array.isArray(g.platforms) ? g.platforms : [];
+  const years = platforms
+    .map((p) => Number(String(p?.first_release_date ?? "").slice(0, 4)))
+    .filter((y: number) => Number.isFinite(y) && y > 1950);
+  const genres = Array.isArray(g.genres)
+    ? Array.from(new Set<string>(g.genres.map((x) => String(x?.genre_name ?? "")).filter(Boolean)))
+    : [];
+  const description = g.description ? stripHtml(String(g.description)) : "";
+  return {
+    provider: "mobygames",
+    external_id: String(g.game_id),
+    title: String(g.title),
+    summary: description || null,
+    developer: null,
+    publisher: null,
+    first_release_year: years.length ? Math.min(...years) : null,
+    cover_url: g.sample_cover?.image ? String(g.sample_cover.image) : null,
+    genres: genres.length ? genres : null,
+    platform_names: platforms.map((p) => String(p?.platform_name ?? "")).filter(Boolean),
+  };
+}
+
+export function mobygamesMetadataProvider(): MetadataProvider {
+  return {
+    id: "mobygames",
+    async search(title, opts) {
+      if (!MOBYGAMES_API_KEY || !title.trim()) return null;
+      await throttle();
+      const qs = new URLSearchParams({ title: title.trim(), format: "normal", limit: "10", api_key: MOBYGAMES_API_KEY });
+      const res = await fetch(`${MOBYGAMES_BASE_URL}/games?${qs.toString()}`, { cache: "no-store" });
+      if (!res.ok) throw new Error(`mobygames: HTTP ${res.status}`);
+      const json = await res.json();
+      const records = (Array.isArray(json?.games) ? json.games : [])
+        .map(recordFromGame)
+        .filter((r: MetadataRecord | null): r is MetadataRecord => r != null);
+      return pickBestMetadataRecord(records, title, opts);
+    },
+  };
+}
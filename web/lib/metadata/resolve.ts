@@ -0,0 +1,172 @@
+/**
+ * Metadata provider chain for games enrichment.
+ *
+ * Providers are asked in order (default igdb → mobygames → local; METADATA_PROVIDERS overrides,
+ * e.g. "local" or "file:./fixtures/games.json" for offline dev) and each games field is taken
+ * from the first provider whose matched record has it. games.metadata_sources records the winner
+ * per field. Callers that already hold an IGDB hit pass it as `seed` so IGDB is not searched twice.
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { shouldOverwriteCover } from "@/lib/igdb/server";
+import { fileMetadataProvider, localMetadataProvider } from "./dataset";
+import { igdbMetadataProvider } from "./igdb";
+import { mobygamesMetadataProvider } from "./mobygames";
+import {
+  hasMetadataValue,
+  METADATA_FIELDS,
+  parseMetadataSources,
+  type GameMetadataFields,
+  type MetadataField,
+  type MetadataProvider,
+  type MetadataRecord,
+  type MetadataSources,
+} from "./sources";
+
+export const DEFAULT_METADATA_PROVIDERS = "igdb,mobygames,local";
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+/**
+ * Build the provider chain from a comma list (default: METADATA_PROVIDERS env, then
+ * DEFAULT_METADATA_PROVIDERS). Tokens: igdb, mobygames, local, file:<path>. Unknown tokens are skipped.
+ */
+export function metadataProviderChain(
+  admin?: SupabaseClient,
+  spec: string | undefined = process.env.METADATA_PROVIDERS
+): MetadataProvider[] {
+  const tokens = String(spec || DEFAULT_METADATA_PROVIDERS)
+    .split(",")
+    .map((t) => t.trim())
+    .filter(Boolean);
+  const out: MetadataProvider[] = [];
+  for (const t of tokens) {
+    if (t === "igdb") out.push(igdbMetadataProvider(admin));
+    else if (t === "mobygames") out.push(mobygamesMetadataProvider());
+    else if (t === "local") out.push(localMetadataProvider());
+    else if (t.startsWith("file:") && t.length > 5) out.push(fileMetadataProvider(t.slice(5)));
+    else console.warn("[metadata] unknown provider in METADATA_PROVIDERS:", t);
+  }
+  return out;
+}
+
+/** The chain minus IGDB, for callers that just searched IGDB themselves and got nothing. */
+export function fallbackMetadataProviders(chain: MetadataProvider[]): MetadataProvider[] {
+  return chain.filter((p) => p.id !== "igdb");
+}
+
+export type ResolvedGameMetadata = {
+  /** Only the fields some provider filled. */
+  fields: Partial<GameMetadataFields>;
+  sources: MetadataSources;
+  /** Every provider record that matched, in chain order (seed first). */
+  matches: Array<{ provider: string; external_id: string; title: string }>;
+  /** Providers that threw; the chain continues past them. */
+  errors: Array<{ provider: string; error: string }>;
+};
+
+export type ResolveGameMetadataOptions = {
+  providers: MetadataProvider[];
+  /** Record already fetched by the caller (e.g. the matcher's IGDB hit); its provider is not searched again. */
+  seed?: MetadataRecord | null;
+  /** Fields to leave alone because the game already has them. */
+  skip?: MetadataField[];
+  platformHint?: string | null;
+};
+
+/** Walk the chain until every wanted field is filled or providers run out. */
+export async function resolveGameMetadata(
+  title: string,
+  opts: ResolveGameMetadataOptions
+): Promise<ResolvedGameMetadata> {
+  const skip = new Set(opts.skip ?? []);
+  const wanted = METADATA_FIELDS.filter((f) => !skip.has(f));
+  const out: ResolvedGameMetadata = { fields: {}, sources: {}, matches: [], errors: [] };
+  const fields = out.fields as Record<MetadataField, unknown>;
+
+  const take = (rec: MetadataRecord) => {
+    out.matches.push({ provider: rec.provider, external_id: rec.external_id, title: rec.title });
+    for (const f of wanted) {
+      if (f in fields || !hasMetadataValue(rec[f])) continue;
+      fields[f] = rec[f];
+      out.sources[f] = rec.provider;
+    }
+  };
+
+  if (opts.seed) take(opts.seed);
+  for (const p of opts.providers) {
+    if (wanted.every((f) => f in fields)) break;
+    if (opts.seed && p.id === opts.seed.provider) continue;
+    try {
+      const rec = await p.search(title, {
+        platformHint: opts.platformHint ?? null,
+        year: (fields.first_release_year as number | undefined) ?? null,
+      });
+      if (rec) take(rec);
+    } catch (e: unknown) {
+      out.errors.push({ provider: p.id, error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+  return out;
+}
+
+/**
+ * games columns for a full metadata write (matcher): every field, null where no provider had it,
+ * plus metadata_sources for exactly those fields.
+ */
+export function metadataColumns(resolved: ResolvedGameMetadata): GameMetadataFields & { metadata_sources: MetadataSources } {
+  const f = resolved.fields;
+  return {
+    summary: f.summary ?? null,
+    developer: f.developer ?? null,
+    publisher: f.publisher ?? null,
+    first_release_year: f.first_release_year ?? null,
+    cover_url: f.cover_url ?? null,
+    genres: f.genres ?? null,
+    metadata_sources: resolved.sources,
+  };
+}
+
+export type FillGameMetadataResult = {
+  filled: MetadataField[];
+  sources: MetadataSources;
+  errors: ResolvedGameMetadata["errors"];
+};
+
+/**
+ * Fill only the fields a games row is missing (placeholder covers count as missing) and merge
+ * their providers into metadata_sources. Used by backfills and for titles IGDB could not match.
+ */
+export async function fillMissingGameMetadata(
+  admin: SupabaseClient,
+  gameId: string,
+  title: string,
+  opts: { providers: MetadataProvider[]; platformHint?: string | null; dryRun?: boolean }
+): Promise<FillGameMetadataResult> {
+  const { data: game, error } = await admin
+    .from("games")
+    .select(`id, ${METADATA_FIELDS.join(", ")}, metadata_sources`)
+    .eq("id", gameId)
+    .maybeSingle<Record<string, unknown>>();
+  if (error) throw new Error(`games: ${error.message}`);
+  if (!game) throw new Error(`games: ${gameId} not found`);
+
+  const skip = METADATA_FIELDS.filter((f) =>
+    f === "cover_url" ? !shouldOverwriteCover(game.cover_url as string | null) : hasMetadataValue(game[f])
+  );
+  const resolved = await resolveGameMetadata(title, { providers: opts.providers, skip, platformHint: opts.platformHint });
+  const filled = METADATA_FIELDS.filter((f) => f in resolved.fields);
+  if (!filled.length || opts.dryRun) return { filled, sources: resolved.sources, errors: resolved.errors };
+
+  const { error: uErr } = await admin
+    .from("games")
+    .update({
+      ...resolved.fields,
+      metadata_sources: { ...parseMetadataSources(game.metadata_sources), ...resolved.sources },
+      updated_at: nowIso(),
+    })
+    .eq("id", gameId);
+  if (uErr) throw new Error(`games: ${uErr.message}`);
+  return { filled, sources: resolved.sources, errors: resolved.errors };
+}
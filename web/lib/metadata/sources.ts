@@ -0,0 +1,158 @@
+/**
+ * Metadata provider contract and per-field provenance for games.
+ *
+ * No imports on purpose: lib/igdb/server.ts stamps games.metadata_sources from here, and the
+ * providers in this folder import lib/igdb/server.ts.
+ */
+
+/** games columns a metadata provider may fill. Order is the order fields are reported in. */
+export const METADATA_FIELDS = [
+  "summary",
+  "developer",
+  "publisher",
+  "first_release_year",
+  "cover_url",
+  "genres",
+] as const;
+
+export type MetadataField = (typeof METADATA_FIELDS)[number];
+
+export type GameMetadataFields = {
+  summary: string | null;
+  developer: string | null;
+  publisher: string | null;
+  first_release_year: number | null;
+  cover_url: string | null;
+  genres: string[] | null;
+};
+
+/** games.metadata_sources: field → provider id that last wrote it. */
+export type MetadataSources = Partial<Record<MetadataField, string>>;
+
+/** One provider's best match for a title, normalized to games columns. */
+export type MetadataRecord = GameMetadataFields & {
+  /** Provider id, e.g. "igdb", "mobygames", "local", "file:fixtures.json". */
+  provider: string;
+  /** Provider's own id for the game (igdb_game_id, MobyGames game_id, dataset key). */
+  external_id: string;
+  title: string;
+  platform_names?: string[];
+};
+
+export type MetadataSearchOptions = {
+  /** Platform key or label (psn, steam, "Super Nintendo") used to break ties between same-titled games. */
+  platformHint?: string | null;
+  year?: number | null;
+};
+
+export type MetadataProvider = {
+  id: string;
+  /** Best match for the title, or null. Providers return null (never throw) when unconfigured. */
+  search(title: string, opts?: MetadataSearchOptions): Promise<MetadataRecord | null>;
+};
+
+/** True when a column value counts as filled (empty strings and empty genre lists do not). */
+export function hasMetadataValue(v: unknown): boolean {
+  if (v == null) return false;
+  if (typeof v === "string") return v.trim().length > 0;
+  if (Array.isArray(v)) return v.length > 0;
+  return true;
+}
+
+/** Parse games.metadata_sources defensively (null / legacy rows → {}). */
+export function parseMetadataSources(v: unknown): MetadataSources {
+  if (!v || typeof v !== "object" || Array.isArray(v)) return {};
+  const out: MetadataSources = {};
+  for (const f of METADATA_FIELDS) {
+    const p = (v as Record<string, unknown>)[f];
+    if (typeof p === "string" && p) out[f] = p;
+  }
+  return out;
+}
+
+/**
+ * Returns metadata_sources for a games patch: `existing` with every metadata field present in
+ * `patch` attributed to `provider`. Fields the patch clears (null) drop their source.
+ */
+export function stampMetadataSources(
+  existing: unknown,
+  patch: Record<string, unknown>,
+  provider: string
+): MetadataSources {
+  const out = parseMetadataSources(existing);
+  for (const f of METADATA_FIELDS) {
+    if (!(f in patch)) continue;
+    if (hasMetadataValue(patch[f])) out[f] = provider;
+    else delete out[f];
+  }
+  return out;
+}
+
+/** Comparison key for titles across providers: case, accents, ™®©, punctuation and a leading "The" ignored. */
+export function metadataTitleKey(s: string): string {
+  return String(s || "")
+    .replace(/™|®|©/g, "")
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .replace(/^the /, "");
+}
+
+/** Minimum title score for a non-primary provider's record to be used at all. */
+export const METADATA_MIN_TITLE_SCORE = 0.8;
+
+/**
+ * Score a provider record against the title we looked up: 1 for the same title key, otherwise
+ * token Jaccard; nudged by platform hint and year so same-titled remakes lose to the original
+ * (so an exact title can score slightly above 1).
+ */
+export function scoreMetadataRecord(
+  record: Pick<MetadataRecord, "title" | "first_release_year" | "platform_names">,
+  title: string,
+  opts?: MetadataSearchOptions
+): number {
+  const a = metadataTitleKey(record.title);
+  const b = metadataTitleKey(title);
+  if (!a || !b) return 0;
+  let score: number;
+  if (a === b) {
+    score = 1;
+  } else {
+    const ta = new Set(a.split(" "));
+    const tb = new Set(b.split(" "));
+    let inter = 0;
+    ta.forEach((t) => {
+      if (tb.has(t)) inter += 1;
+    });
+    score = inter / (ta.size + tb.size - inter);
+  }
+  const hint = String(opts?.platformHint ?? "").trim().toLowerCase();
+  if (hint && record.platform_names?.some((p) => p.toLowerCase().includes(hint))) score += 0.05;
+  if (opts?.year != null && record.first_release_year != null) {
+    const diff = Math.abs(record.first_release_year - opts.year);
+    if (diff === 0) score += 0.05;
+    else if (diff > 1) score -= 0.2;
+  }
+  return Math.max(0, score);
+}
+
+/** Best-scoring record at or above METADATA_MIN_TITLE_SCORE, or null. Ties keep list order. */
+export function pickBestMetadataRecord(
+  records: MetadataRecord[],
+  title: string,
+  opts?: MetadataSearchOptions
+): MetadataRecord | null {
+  let best: MetadataRecord | null = null;
+  let bestScore = METADATA_MIN_TITLE_SCORE;
+  for (const r of records) {
+    const s = scoreMetadataRecord(r, title, opts);
+    if (s > bestScore || (s === bestScore && !best)) {
+      best = r;
+      bestScore = s;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,159 @@
+/**
+ * Open Graph identity cards: the data model behind /api/og/share/[shareId] and
+ * /api/og/profile/[username] (rendered by ./render.tsx, loaded by ./server.ts).
+ *
+ * Images are addressed by a version (?v=) derived from what they draw — the share snapshot's
+ * updated_at, or a fingerprint of the public profile fields — so taking a new snapshot yields a new
+ * og:image URL and chat apps re-fetch instead of showing the stale card. A request for the current
+ * version is cached as immutable; anything else gets a short shared cache.
+ */
+
+import { createHash } from "node:crypto";
+import { ORIGIN_BUCKET_META } from "@/lib/identity/era";
+import type { ProfileSharing } from "@/lib/profile/sharing";
+import type { PublicProfilePayload } from "@/lib/public-profile";
+
+export const OG_IMAGE_SIZES = {
+  og: { width: 1200, height: 630 },
+  twitter: { width: 1200, height: 600 },
+} as const;
+
+export type OgImageSize = keyof typeof OG_IMAGE_SIZES;
+
+export const OG_CACHE_IMMUTABLE = "public, max-age=31536000, immutable";
+export const OG_CACHE_SHORT = "public, s-maxage=300, stale-while-revalidate=3600";
+
+/** Snapshot stored in user_identity_shares.snapshot (POST /api/identity/share). */
+export type IdentityShareSnapshot = {
+  username?: string | null;
+  lifetime_score?: number | null;
+  archetypes?: Array<{ key: string; label: string; strength: "emerging" | "strong" | "core"; score?: number }>;
+  top_signals?: Array<{ key: string; label: string; value: string }>;
+  identity_signals?: {
+    owned_games?: number;
+    owned_releases?: number;
+    unique_platforms?: number;
+    achievements_earned?: number;
+    achievements_total?: number;
+    minutes_played?: number;
+    era_buckets?: Record<string, { games: number; releases: number }>;
+  };
+};
+
+/** profiles.profile_sharing toggles that affect the card (missing = shown, like the profile route). */
+export type OgProfileSharing = Partial<Pick<ProfileSharing, "show_score" | "show_archetypes" | "show_timeline">>;
+
+export type IdentityCardModel = {
+  kicker: string;
+  heading: string;
+  subheading: string | null;
+  score: number | null;
+  archetypes: Array<{ label: string; strength: string }>;
+  signals: Array<{ label: string; value: string }>;
+  /** Top eras by games owned; share is 0..1 of all games across buckets. */
+  eras: Array<{ key: string; label: string; games: number; share: number }>;
+  stats: Array<{ label: string; value: string }>;
+};
+
+export function parseOgImageSize(raw: string | null | undefined): OgImageSize {
+  return raw === "twitter" ? "twitter" : "og";
+}
+
+/** Short stable fingerprint of the inputs a card is drawn from. */
+export function ogImageVersion(parts: unknown[]): string {
+  return createHash("sha1").update(JSON.stringify(parts)).digest("hex").slice(0, 12);
+}
+
+export function ogCacheControl(requested: string | null | undefined, current: string): string {
+  return requested && requested === current ? OG_CACHE_IMMUTABLE : OG_CACHE_SHORT;
+}
+
+function fmtInt(n?: number | null): string {
+  if (n == null || !Number.isFinite(n)) return "—";
+  return Intl.NumberFormat("en-US").format(Math.round(n));
+}
+
+function pct(a?: number | null, b?: number | null): string {
+  if (!a || !b) return "—";
+  return `${Math.round((a / b) * 100)}%`;
+}
+
+function hours(minutes?: number | null): string {
+  if (!minutes) return "—";
+  return `${fmtInt(minutes / 60)}h`;
+}
+
+export function topEras(
+  buckets: Record<string, { games?: number; releases?: number }> | null | undefined,
+  limit = 4
+): IdentityCardModel["eras"] {
+  const rows = Object.entries(buckets ?? {})
+    .filter(([key]) => key !== "unknown")
+    .map(([key, v]) => ({ key, games: Number(v?.games ?? 0) }))
+    .filter((r) => Number.isFinite(r.games) && r.games > 0);
+  const total = rows.reduce((sum, r) => sum + r.games, 0);
+  return rows
+    .sort((a, b) => b.games - a.games || a.key.localeCompare(b.key))
+    .slice(0, limit)
+    .map((r) => ({
+      key: r.key,
+      label: ORIGIN_BUCKET_META[r.key]?.title ?? r.key.replace(/_/g, " "),
+      games: r.games,
+      share: total > 0 ? r.games / total : 0,
+    }));
+}
+
+/** Card for /share/[shareId]: exactly what the owner snapshotted, same fields as IdentityShareCard. */
+export function shareCardModel(snapshot: IdentityShareSnapshot | null | undefined): IdentityCardModel {
+  const s = snapshot ?? {};
+  const signals = s.identity_signals ?? {};
+  return {
+    kicker: "SaveState Identity",
+    heading: s.username ? `@${s.username}` : "Gamer Profile",
+    subheading: null,
+    score: s.lifetime_score != null && Number.isFinite(Number(s.lifetime_score)) ? Number(s.lifetime_score) : null,
+    archetypes: (s.archetypes ?? []).slice(0, 3).map((a) => ({ label: a.label, strength: a.strength })),
+    signals: (s.top_signals ?? []).slice(0, 4).map((t) => ({ label: t.label, value: t.value })),
+    eras: topEras(signals.era_buckets),
+    stats: [
+      { label: "Owned games", value: fmtInt(signals.owned_games) },
+      { label: "Platforms", value: fmtInt(signals.unique_platforms) },
+      { label: "Progress", value: pct(signals.achievements_earned, signals.achievements_total) },
+    ],
+  };
+}
+
+/** Card for /users/[username]: public profile summary with the profile_sharing toggles applied. */
+export function profileCardModel(payload: PublicProfilePayload, sharing: OgProfileSharing = {}): IdentityCardModel {
+  const { user, identity } = payload;
+  const showScore = sharing.show_score !== false;
+  const showArchetypes = sharing.show_archetypes !== false;
+  const showTimeline = sharing.show_timeline !== false;
+  const totals = identity?.totals;
+  return {
+    kicker: "SaveState Profile",
+    heading: user.display_name || `@${user.username}`,
+    subheading: user.display_name && user.display_name !== user.username ? `@${user.username}` : null,
+    score: showScore && identity ? identity.lifetime_score : null,
+    archetypes:
+      showArchetypes && identity?.archetype ? [{ label: identity.archetype.label, strength: identity.archetype.strength }] : [],
+    signals: showArchetypes ? (identity?.top_signals ?? []).slice(0, 4).map((t) => ({ label: t.label, value: "" })) : [],
+    eras: showTimeline ? topEras(identity?.era_buckets) : [],
+    stats: [
+      { label: "Owned games", value: fmtInt(totals?.owned_games) },
+      { label: "Played", value: hours(totals?.minutes_played) },
+      { label: "Progress", value: pct(totals?.achievements_earned, totals?.achievements_total) },
+    ],
+  };
+}
+
+/** og:description text for the same card. */
+export function identityCardDescription(model: IdentityCardModel): string {
+  const parts: string[] = [];
+  if (model.archetypes[0]) parts.push(model.archetypes[0].label);
+  if (model.score != null) parts.push(`Lifetime score ${fmtInt(model.score)}`);
+  if (model.eras[0]) parts.push(`Mostly ${model.eras[0].label}`);
+  const owned = model.stats.find((s) => s.label === "Owned games");
+  if (owned && owned.value !== "—") parts.push(`${owned.value} games`);
+  return parts.length ? parts.join(" · ") : "Gaming identity on SaveState";
+}
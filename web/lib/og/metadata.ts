@@ -0,0 +1,47 @@
+import type { Metadata } from "next";
+import { OG_IMAGE_SIZES } from "./identity-card";
+
+function siteBase(): URL | undefined {
+  const raw = process.env.NEXT_PUBLIC_SITE_URL || process.env.SITE_URL;
+  if (!raw) return undefined; // Next falls back to the deployment URL
+  try {
+    return new URL(raw);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * og:/twitter: tags for a page whose preview is one of the /api/og/* identity cards.
+ * imagePath is the route without query; version pins the cached image (see lib/og/identity-card.ts).
+ */
+export function identityCardMetadata(opts: {
+  title: string;
+  description: string;
+  pagePath: string;
+  imagePath: string;
+  version: string;
+}): Metadata {
+  const v = encodeURIComponent(opts.version);
+  const og = OG_IMAGE_SIZES.og;
+  const tw = OG_IMAGE_SIZES.twitter;
+  return {
+    metadataBase: siteBase(),
+    title: opts.title,
+    description: opts.description,
+    openGraph: {
+      type: "profile",
+      title: opts.title,
+      description: opts.description,
+      url: opts.pagePath,
+      siteName: "SaveState",
+      images: [{ url: `${opts.imagePath}?v=${v}`, width: og.width, height: og.height, alt: opts.title }],
+    },
+    twitter: {
+      card: "summary_large_image",
+      title: opts.title,
+      description: opts.description,
+      images: [{ url: `${opts.imagePath}?v=${v}&size=twitter`, width: tw.width, height: tw.height, alt: opts.title }],
+    },
+  };
+}
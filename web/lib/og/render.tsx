@@ -0,0 +1,141 @@
+import { ImageResponse } from "next/og";
+import { OG_IMAGE_SIZES, type IdentityCardModel, type OgImageSize } from "./identity-card";
+
+/**
+ * Renders an IdentityCardModel to PNG via next/og (satori): every element with more than one child
+ * needs display flex, and only inline styles are supported — so this does not reuse the Tailwind
+ * IdentityShareCard, it just mirrors its look (black, white/70 labels, glass panels).
+ */
+
+const LABEL = "rgba(255,255,255,0.6)";
+const PANEL = "rgba(255,255,255,0.07)";
+const BORDER = "1px solid rgba(255,255,255,0.12)";
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        flex: 1,
+        padding: "18px 22px",
+        borderRadius: 20,
+        background: PANEL,
+        border: BORDER,
+      }}
+    >
+      <div style={{ fontSize: 22, color: LABEL }}>{label}</div>
+      <div style={{ fontSize: 40, fontWeight: 700, marginTop: 6 }}>{value}</div>
+    </div>
+  );
+}
+
+export function renderIdentityCardImage(
+  model: IdentityCardModel,
+  size: OgImageSize,
+  headers?: Record<string, string>
+): ImageResponse {
+  const { width, height } = OG_IMAGE_SIZES[size];
+  const compact = height < 630;
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          flexDirection: "column",
+          padding: compact ? "44px 60px" : "56px 60px",
+          background: "linear-gradient(135deg, #050505 0%, #111827 60%, #1e1b4b 100%)",
+          color: "white",
+          fontFamily: "sans-serif",
+        }}
+      >
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "flex-start" }}>
+          <div style={{ display: "flex", flexDirection: "column", maxWidth: 760 }}>
+            <div style={{ fontSize: 24, color: LABEL }}>{model.kicker}</div>
+            <div style={{ fontSize: 64, fontWeight: 700, marginTop: 4, lineHeight: 1.1 }}>{model.heading}</div>
+            {model.subheading ? (
+              <div style={{ fontSize: 28, color: LABEL, marginTop: 4 }}>{model.subheading}</div>
+            ) : null}
+          </div>
+          {model.score != null ? (
+            <div style={{ display: "flex", flexDirection: "column", alignItems: "flex-end" }}>
+              <div style={{ fontSize: 24, color: LABEL }}>Lifetime Score</div>
+              <div style={{ fontSize: 80, fontWeight: 700, lineHeight: 1 }}>
+                {Intl.NumberFormat("en-US").format(model.score)}
+              </div>
+            </div>
+          ) : null}
+        </div>
+
+        <div style={{ display: "flex", gap: 18, marginTop: compact ? 24 : 32 }}>
+          {model.stats.map((s) => (
+            <Stat key={s.label} label={s.label} value={s.value} />
+          ))}
+        </div>
+
+        <div style={{ display: "flex", gap: 40, marginTop: compact ? 24 : 32, flex: 1 }}>
+          <div style={{ display: "flex", flexDirection: "column", flex: 1 }}>
+            {model.archetypes.length > 0 ? (
+              <div style={{ display: "flex", flexWrap: "wrap", gap: 12 }}>
+                {model.archetypes.map((a) => (
+                  <div
+                    key={a.label}
+                    style={{
+                      display: "flex",
+                      alignItems: "center",
+                      gap: 10,
+                      padding: "8px 20px",
+                      borderRadius: 999,
+                      border: BORDER,
+                      background: "rgba(0,0,0,0.3)",
+                      fontSize: 26,
+                    }}
+                  >
+                    <span>{a.label}</span>
+                    <span style={{ fontSize: 20, color: LABEL }}>{a.strength}</span>
+                  </div>
+                ))}
+              </div>
+            ) : null}
+            <div style={{ display: "flex", flexDirection: "column", gap: 8, marginTop: 18 }}>
+              {model.signals.map((t) => (
+                <div key={t.label} style={{ display: "flex", justifyContent: "space-between", fontSize: 24 }}>
+                  <span style={{ color: "rgba(255,255,255,0.85)" }}>{t.label}</span>
+                  <span style={{ color: LABEL }}>{t.value}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {model.eras.length > 0 ? (
+            <div style={{ display: "flex", flexDirection: "column", width: 420, gap: 12 }}>
+              <div style={{ fontSize: 22, color: LABEL }}>Eras</div>
+              {model.eras.map((e) => (
+                <div key={e.key} style={{ display: "flex", alignItems: "center", gap: 14 }}>
+                  <div style={{ width: 90, fontSize: 24 }}>{e.label}</div>
+                  <div style={{ display: "flex", flex: 1, height: 16, borderRadius: 8, background: PANEL }}>
+                    <div
+                      style={{
+                        width: `${Math.max(4, Math.round(e.share * 100))}%`,
+                        height: "100%",
+                        borderRadius: 8,
+                        background: "linear-gradient(90deg, #818cf8, #c084fc)",
+                      }}
+                    />
+                  </div>
+                  <div style={{ width: 70, fontSize: 22, color: LABEL, justifyContent: "flex-end", display: "flex" }}>
+                    {e.games}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : null}
+        </div>
+      </div>
+    ),
+    { width, height, headers }
+  );
+}
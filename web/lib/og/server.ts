@@ -0,0 +1,106 @@
+import "server-only";
+import { supabaseServer } from "@/lib/supabase/server";
+import { getPublicProfileByUsername } from "@/lib/public-profile";
+import { redactShareSnapshot } from "@/lib/identity/share-card";
+import { isProfileVisible, resolveProfileSharing } from "@/lib/profile/sharing";
+import {
+  ogImageVersion,
+  type IdentityShareSnapshot,
+  type OgProfileSharing,
+} from "./identity-card";
+
+/**
+ * Lookups behind the OG image routes and the generateMetadata of /share/[shareId] and
+ * /users/[username]. The *Ref helpers are cheap (one row) so pages can stamp the image URL with
+ * its version; the image routes then load the full card data.
+ */
+
+export type ShareOgRef = {
+  share_id: string;
+  user_id: string;
+  snapshot: IdentityShareSnapshot | null;
+  version: string;
+};
+
+export type ProfileOgRef = {
+  user_id: string;
+  username: string;
+  display_name: string | null;
+  sharing: OgProfileSharing;
+  version: string;
+};
+
+/** The snapshot is redacted with SHARE_CARD_RULES by the owner's current profile_sharing. */
+export async function loadShareOgRef(shareId: string): Promise<ShareOgRef | null> {
+  const id = shareId.trim();
+  if (!id) return null;
+  const { data, error } = await supabaseServer
+    .from("user_identity_shares")
+    .select("share_id, user_id, snapshot, updated_at")
+    .eq("share_id", id)
+    .maybeSingle();
+  if (error) throw new Error(`user_identity_shares: ${error.message}`);
+  if (!data?.user_id) return null;
+
+  const { data: owner, error: ownerErr } = await supabaseServer
+    .from("profiles")
+    .select("profile_sharing")
+    .eq("user_id", data.user_id)
+    .maybeSingle();
+  if (ownerErr) throw new Error(`profiles: ${ownerErr.message}`);
+  const sharing = resolveProfileSharing(owner?.profile_sharing ?? null);
+
+  const raw = data.snapshot && typeof data.snapshot === "object" ? (data.snapshot as IdentityShareSnapshot) : null;
+  const snapshot = redactShareSnapshot(raw, owner?.profile_sharing ?? null);
+  return {
+    share_id: String(data.share_id),
+    user_id: String(data.user_id),
+    snapshot,
+    version: ogImageVersion([data.updated_at ?? null, sharing]),
+  };
+}
+
+/**
+ * Same gate as GET /api/public/profile/[username] for an anonymous viewer: profile_public and
+ * profile_visibility not private. Hidden profiles resolve to null so no image or preview leaks.
+ */
+export async function loadProfileOgRef(rawUsername: string): Promise<ProfileOgRef | null> {
+  const username = rawUsername.trim();
+  if (!username) return null;
+  const { data: profile, error } = await supabaseServer
+    .from("profiles")
+    .select("user_id, username, display_name, avatar_url, profile_public, profile_visibility, profile_sharing, gamer_score_v11")
+    .ilike("username", username)
+    .limit(1)
+    .maybeSingle();
+  if (error) throw new Error(`profiles: ${error.message}`);
+  if (!profile?.user_id || !isProfileVisible(profile)) return null;
+
+  const { data: share } = await supabaseServer
+    .from("user_identity_shares")
+    .select("updated_at")
+    .eq("user_id", profile.user_id)
+    .maybeSingle();
+
+  const sharing: OgProfileSharing = resolveProfileSharing(profile.profile_sharing);
+
+  return {
+    user_id: String(profile.user_id),
+    username: String(profile.username ?? username),
+    display_name: profile.display_name ?? null,
+    sharing,
+    version: ogImageVersion([
+      share?.updated_at ?? null,
+      profile.username,
+      profile.display_name,
+      profile.gamer_score_v11,
+      sharing,
+    ]),
+  };
+}
+
+export async function loadProfileOgPayload(ref: ProfileOgRef) {
+  const result = await getPublicProfileByUsername(supabaseServer, ref.username);
+  if ("notFound" in result || "private" in result) return null;
+  return result;
+}
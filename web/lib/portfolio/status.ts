@@ -0,0 +1,50 @@
+/**
+ * Portfolio statuses and the aliases accepted for them. Shared by POST /api/portfolio/upsert and
+ * the library import (tracker exports use their own vocabulary: Backloggd, HLTB, Grouvee).
+ */
+
+export const PORTFOLIO_STATUSES = ["playing", "completed", "dropped", "back_burner", "wishlist", "owned"] as const;
+
+export type PortfolioStatus = (typeof PORTFOLIO_STATUSES)[number];
+
+export const STATUS_ALIASES: Record<string, PortfolioStatus> = {
+  played: "completed",
+  complete: "completed",
+  completed: "completed",
+  beaten: "completed",
+  finished: "completed",
+  mastered: "completed",
+
+  backlog: "back_burner",
+  "back-burner": "back_burner",
+  backburner: "back_burner",
+  back_burner: "back_burner",
+  "back burner": "back_burner",
+  shelved: "back_burner",
+  paused: "back_burner",
+  "on hold": "back_burner",
+
+  playing: "playing",
+  replaying: "playing",
+  replays: "playing",
+
+  dropped: "dropped",
+  abandoned: "dropped",
+  retired: "dropped",
+
+  wishlist: "wishlist",
+  "wish list": "wishlist",
+  wishlisted: "wishlist",
+  "want to play": "wishlist",
+
+  owned: "owned",
+};
+
+const ALLOWED = new Set<string>(PORTFOLIO_STATUSES);
+
+/** Alias -> status. Null when the value isn't a known status or alias. */
+export function normalizePortfolioStatus(raw: unknown): PortfolioStatus | null {
+  const s = String(raw ?? "").trim().toLowerCase();
+  const status = STATUS_ALIASES[s] ?? s;
+  return ALLOWED.has(status) ? (status as PortfolioStatus) : null;
+}
@@ -0,0 +1,291 @@
+/**
+ * Privacy policy for everything a non-owner can see about a profile. Two layers:
+ *
+ * - Visibility (profiles.profile_public + profile_visibility): public / unlisted profiles can be
+ *   opened by anyone with the link, private or non-public ones by nobody but the owner.
+ * - Sections (profiles.profile_sharing, sql/2026-02-26_profile_privacy.sql): one boolean per
+ *   section, a missing key counts as shared. Every surface a stranger can reach is registered in
+ *   PROFILE_SHARING_SURFACES. Profile and share payloads go through applyProfileSharing with the
+ *   allowlist of their surface: fields it doesn't name are dropped, fields of a section that is off
+ *   are nulled (or emptied). Owners get every section, still limited to the allowlisted fields.
+ *
+ * Pure and client-safe: the settings preview applies the same rules to show what a stranger sees.
+ */
+
+export const PROFILE_SHARING_KEYS = [
+  "show_score",
+  "show_timeline",
+  "show_recent_activity",
+  "show_played_on",
+  "show_platforms",
+  "show_collections",
+  "show_archetypes",
+] as const;
+
+export type ProfileSharingKey = (typeof PROFILE_SHARING_KEYS)[number];
+export type ProfileSharing = Record<ProfileSharingKey, boolean>;
+
+export const PROFILE_VISIBILITIES = ["public", "unlisted", "private"] as const;
+export type ProfileVisibility = (typeof PROFILE_VISIBILITIES)[number];
+
+/** Settings copy: what each toggle covers. */
+export const PROFILE_SHARING_SECTIONS: Array<{ key: ProfileSharingKey; label: string; description: string }> = [
+  { key: "show_score", label: "Score", description: "Lifetime score, hours played and achievement progress." },
+  {
+    key: "show_archetypes",
+    label: "Archetypes",
+    description: "Your archetypes and archetype changes. Top signals also need the sections they mention.",
+  },
+  { key: "show_timeline", label: "Era timeline", description: "Top era, games per era and memories." },
+  { key: "show_recent_activity", label: "Recent activity", description: "Recently played games, standouts, completions and platinums." },
+  { key: "show_played_on", label: "Played on", description: "The devices you play on." },
+  { key: "show_platforms", label: "Platforms", description: "Which platforms your games are on." },
+  { key: "show_collections", label: "Collection", description: "How many games you own and which ones (comparisons)." },
+];
+
+export type ProfilePrivacyRow = {
+  profile_public?: boolean | null;
+  profile_visibility?: string | null;
+  profile_sharing?: Record<string, unknown> | null;
+};
+
+export function isProfileVisibility(v: unknown): v is ProfileVisibility {
+  return typeof v === "string" && (PROFILE_VISIBILITIES as readonly string[]).includes(v);
+}
+
+export function profileVisibility(p: Pick<ProfilePrivacyRow, "profile_visibility">): ProfileVisibility {
+  return isProfileVisibility(p.profile_visibility) ? p.profile_visibility : "public";
+}
+
+/** Whether a non-owner may open the profile at all. */
+export function isProfileVisible(p: Pick<ProfilePrivacyRow, "profile_public" | "profile_visibility">): boolean {
+  return p.profile_public === true && profileVisibility(p) !== "private";
+}
+
+/** Every toggle resolved to a boolean; owners see all sections. */
+export function resolveProfileSharing(
+  raw: Record<string, unknown> | null | undefined,
+  opts: { isOwner?: boolean } = {}
+): ProfileSharing {
+  const out = {} as ProfileSharing;
+  for (const k of PROFILE_SHARING_KEYS) out[k] = opts.isOwner ? true : raw?.[k] !== false;
+  return out;
+}
+
+/** Known keys with boolean values from a settings PATCH body; null when anything else is in it. */
+export function sanitizeProfileSharing(raw: unknown): Partial<ProfileSharing> | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const out: Partial<ProfileSharing> = {};
+  for (const [k, v] of Object.entries(raw as Record<string, unknown>)) {
+    if (!(PROFILE_SHARING_KEYS as readonly string[]).includes(k) || typeof v !== "boolean") return null;
+    out[k as ProfileSharingKey] = v;
+  }
+  return out;
+}
+
+
+/**
+ * One entry of a surface's allowlist. `path` is dot-separated; `*` matches every key of an object or
+ * every item of an array. A field reaches a non-owner only when a rule names it or one of its
+ * parents; a rule with narrower rules under it keeps only the children those name. The field is
+ * replaced with `hidden` (null by default; `[]` / `{}` where the UI iterates it) unless all `keys`
+ * are shared — `keys: []` means always shown.
+ */
+export type ProfileSharingRule = { path: string; keys: ProfileSharingKey[]; hidden?: null | [] | Record<string, never> };
+
+function always(prefix: string, names: string[]): ProfileSharingRule[] {
+  return names.map((n) => ({ path: prefix ? `${prefix}.${n}` : n, keys: [] }));
+}
+
+// Archetype evidence (reasons, top signals) is free text about other sections: "412 owned games",
+// "62% of your library is on PSN", "48% of your library in PS2 Era", "Most played on Steam Deck".
+const ARCHETYPE_EVIDENCE: ProfileSharingKey[] = [
+  "show_archetypes",
+  "show_collections",
+  "show_platforms",
+  "show_timeline",
+  "show_played_on",
+];
+
+/** GET /api/public/profile/[username] (identity summary + origin timeline), used by /users/[username] and its card. */
+export const PUBLIC_PROFILE_RULES: ProfileSharingRule[] = [
+  ...always("", ["ok", "isOwner", "user"]),
+  { path: "identity.lifetime_score", keys: ["show_score"] },
+  { path: "identity.score_total", keys: ["show_score"] },
+  { path: "identity.totals.minutes_played", keys: ["show_score"] },
+  { path: "identity.totals.achievements_earned", keys: ["show_score"] },
+  { path: "identity.totals.achievements_total", keys: ["show_score"] },
+  { path: "identity.totals.owned_games", keys: ["show_collections"] },
+  { path: "identity.totals.owned_releases", keys: ["show_collections"] },
+  { path: "identity.archetype", keys: ["show_archetypes"] },
+  { path: "identity.primary_archetype", keys: ["show_archetypes"] },
+  { path: "identity.secondary_archetypes", keys: ["show_archetypes"], hidden: [] },
+  { path: "identity.archetypes", keys: ["show_archetypes"], hidden: [] },
+  ...always("identity.archetypes.*", ["key", "label", "strength", "score"]),
+  { path: "identity.archetypes.*.reasons", keys: ARCHETYPE_EVIDENCE, hidden: [] },
+  { path: "identity.top_signals", keys: ARCHETYPE_EVIDENCE, hidden: [] },
+  { path: "identity.drawer", keys: ["show_archetypes"] },
+  ...always("identity.drawer", ["key", "name", "tier", "oneLiner", "description", "evolution", "nextSteps"]),
+  { path: "identity.drawer.signals", keys: ARCHETYPE_EVIDENCE, hidden: [] },
+  { path: "identity.evolution", keys: ["show_archetypes"] },
+  { path: "archetypes", keys: ["show_archetypes"] },
+  ...always("archetypes.*", ["key", "label", "strength", "score"]),
+  { path: "archetypes.*.reasons", keys: ARCHETYPE_EVIDENCE, hidden: [] },
+  { path: "identity.top_era", keys: ["show_timeline"] },
+  { path: "identity.era_affinity", keys: ["show_timeline"] },
+  { path: "identity.era_buckets", keys: ["show_timeline"] },
+  { path: "identity.identity_signals.era_buckets", keys: ["show_timeline"] },
+  { path: "top_era", keys: ["show_timeline"] },
+  { path: "era_buckets", keys: ["show_timeline"] },
+  { path: "timeline.stats", keys: ["show_timeline"], hidden: {} },
+  { path: "timeline.standouts", keys: ["show_timeline", "show_recent_activity"], hidden: {} },
+  ...always("timeline.standouts.*.*", ["release_id", "title", "cover_url"]),
+  { path: "timeline.standouts.*.*.played_on", keys: ["show_played_on"] },
+  { path: "timeline.standouts.*.*.earned", keys: ["show_score"] },
+  { path: "timeline.standouts.*.*.total", keys: ["show_score"] },
+  { path: "timeline.standouts.*.*.minutes_played", keys: ["show_score"] },
+  { path: "identity.most_played_on", keys: ["show_played_on"] },
+  { path: "played_on", keys: ["show_played_on"] },
+  { path: "played_on_by_era", keys: ["show_played_on"], hidden: {} },
+];
+
+/** PublicProfilePayload (lib/public-profile.ts): GET /api/profile/[username] and the profile OG image. */
+export const PROFILE_PAYLOAD_RULES: ProfileSharingRule[] = [
+  ...always("", ["ok", "user"]),
+  { path: "identity.lifetime_score", keys: ["show_score"] },
+  { path: "identity.totals.minutes_played", keys: ["show_score"] },
+  { path: "identity.totals.achievements_earned", keys: ["show_score"] },
+  { path: "identity.totals.achievements_total", keys: ["show_score"] },
+  { path: "identity.totals.owned_games", keys: ["show_collections"] },
+  { path: "identity.totals.owned_releases", keys: ["show_collections"] },
+  { path: "identity.archetype", keys: ["show_archetypes"] },
+  { path: "identity.top_signals", keys: ARCHETYPE_EVIDENCE, hidden: [] },
+  { path: "identity.top_era", keys: ["show_timeline"] },
+  { path: "identity.era_buckets", keys: ["show_timeline"] },
+  { path: "identity.era_buckets_timeline", keys: ["show_timeline"] },
+  { path: "identity.era_buckets_legacy", keys: ["show_timeline"] },
+  { path: "identity.era_entropy", keys: ["show_timeline"] },
+  { path: "timeline.mode", keys: [] },
+  { path: "timeline.eras", keys: ["show_timeline"], hidden: [] },
+  ...always("timeline.eras.*", ["era", "label", "years", "rank", "games", "releases", "topSignals"]),
+  { path: "timeline.eras.*.notable", keys: ["show_recent_activity"], hidden: [] },
+  { path: "notable_games", keys: ["show_recent_activity"], hidden: [] },
+  { path: "played_on", keys: ["show_played_on"] },
+];
+
+/** Share link payload { card, timeline }: GET /api/identity/share/[shareId] and the share OG image. */
+export const SHARE_CARD_RULES: ProfileSharingRule[] = [
+  { path: "card.username", keys: [] },
+  { path: "card.lifetime_score", keys: ["show_score"] },
+  { path: "card.identity_signals.minutes_played", keys: ["show_score"] },
+  { path: "card.identity_signals.achievements_earned", keys: ["show_score"] },
+  { path: "card.identity_signals.achievements_total", keys: ["show_score"] },
+  { path: "card.archetypes", keys: ["show_archetypes"], hidden: [] },
+  { path: "card.top_signals", keys: ARCHETYPE_EVIDENCE, hidden: [] },
+  { path: "card.identity_signals.era_buckets", keys: ["show_timeline"] },
+  { path: "card.identity_signals.owned_games", keys: ["show_collections"] },
+  { path: "card.identity_signals.owned_releases", keys: ["show_collections"] },
+  { path: "card.identity_signals.unique_platforms", keys: ["show_platforms"] },
+  { path: "timeline", keys: ["show_timeline"] },
+  ...always("timeline", ["ok", "mode"]),
+  ...always("timeline.eras.*", ["era", "label", "years", "rank", "games", "releases", "topSignals", "titles_with_achievements"]),
+  { path: "timeline.eras.*.notable", keys: ["show_recent_activity"], hidden: [] },
+  ...always("timeline.eras.*.notable.*", ["release_id", "title", "cover_url"]),
+  { path: "timeline.eras.*.notable.*.played_on", keys: ["show_played_on"] },
+  { path: "timeline.eras.*.notable.*.earned", keys: ["show_score"] },
+  { path: "timeline.eras.*.notable.*.total", keys: ["show_score"] },
+  { path: "timeline.eras.*.notable.*.minutes_played", keys: ["show_score"] },
+];
+
+/**
+ * Every surface that shows a profile to someone other than its owner, with the URLs serving it and
+ * the pure builder that decides what goes out (the contract tests run each builder with every toggle
+ * switched off). Rule-set surfaces go through applyProfileSharing; the others check the toggles of
+ * each section themselves.
+ */
+export const PROFILE_SHARING_SURFACES = {
+  public_profile: {
+    routes: ["/api/public/profile/[username]"],
+    builtBy: "lib/public-profile.ts buildPublicProfileResponse (PUBLIC_PROFILE_RULES)",
+  },
+  profile_payload: {
+    routes: ["/api/profile/[username]", "/api/og/profile/[username]"],
+    builtBy: "lib/public-profile.ts buildPublicProfilePayload (PROFILE_PAYLOAD_RULES)",
+  },
+  share_card: {
+    routes: ["/api/identity/share/[shareId]"],
+    builtBy: "lib/identity/share-card.ts buildShareResponse (SHARE_CARD_RULES)",
+  },
+  share_og: {
+    routes: ["/api/og/share/[shareId]", "/share/[shareId] metadata"],
+    builtBy: "lib/identity/share-card.ts redactShareSnapshot (SHARE_CARD_RULES)",
+  },
+  feed: {
+    routes: ["/api/feed"],
+    builtBy: "lib/social/feed.ts buildFeedItems (FEED_KIND_SHARING)",
+  },
+  compare: {
+    routes: ["/api/compare/[a]/[b]"],
+    builtBy: "lib/social/compare.ts buildProfileComparison (COMPARE_SECTION_SHARING)",
+  },
+  leaderboard: {
+    routes: ["/api/leaderboard", "/api/cron/leaderboard"],
+    builtBy: "lib/leaderboard/ranks.ts leaderboardRows (leaderboardBoardSharing)",
+  },
+  lists: {
+    routes: ["/api/lists/[id]", "/api/lists/[id]/clone"],
+    builtBy: "lib/lists/lists.ts listRole + presentListItems (smartListSharing)",
+  },
+} as const;
+
+export type ProfileSharingSurface = keyof typeof PROFILE_SHARING_SURFACES;
+
+type RuleNode = { rule?: ProfileSharingRule; children: Map<string, RuleNode> };
+
+function ruleTree(rules: ProfileSharingRule[]): RuleNode {
+  const root: RuleNode = { children: new Map() };
+  for (const rule of rules) {
+    let node = root;
+    for (const seg of rule.path.split(".")) {
+      let next = node.children.get(seg);
+      if (!next) node.children.set(seg, (next = { children: new Map() }));
+      node = next;
+    }
+    node.rule = rule;
+  }
+  return root;
+}
+
+const DROP = Symbol("drop");
+
+function keepAllowed(value: unknown, node: RuleNode, sharing: ProfileSharing): unknown {
+  if (node.rule && !node.rule.keys.every((k) => sharing[k])) {
+    const hidden = node.rule.hidden;
+    return hidden == null ? null : Array.isArray(hidden) ? [] : {};
+  }
+  if (node.children.size === 0) return structuredClone(value);
+  if (value == null || typeof value !== "object") return node.rule ? value : DROP;
+
+  if (Array.isArray(value)) {
+    const item = node.children.get("*");
+    if (!item) return [];
+    return value.map((v) => keepAllowed(v, item, sharing)).filter((v) => v !== DROP);
+  }
+  const out: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(value as Record<string, unknown>)) {
+    const child = node.children.get(k) ?? node.children.get("*");
+    if (!child) continue;
+    const kept = keepAllowed(v, child, sharing);
+    if (kept !== DROP) out[k] = kept;
+  }
+  return out;
+}
+
+/**
+ * Copy of `payload` with only the fields `rules` allow: anything they don't name is dropped, and
+ * fields of a section that isn't shared are nulled or emptied.
+ */
+export function applyProfileSharing<T>(payload: T, sharing: ProfileSharing, rules: ProfileSharingRule[]): T {
+  const kept = keepAllowed(payload, ruleTree(rules), sharing);
+  return (kept === DROP ? {} : kept) as T;
+}
@@ -1,6 +1,8 @@
 /**
  * Shared logic for public profile: resolve username → payload or private/notFound.
- * Used by GET /api/public/profile?username= and GET /api/public/profile/[username].
+ * Used by GET /api/profile/[username] and the profile OG image. The payload is redacted with
+ * PROFILE_PAYLOAD_RULES (lib/profile/sharing.ts); fields of sections the owner hides are null / [].
+ * buildPublicProfileResponse does the same for GET /api/public/profile/[username].
  */
 
 import type { SupabaseClient } from "@supabase/supabase-js";
@@ -9,6 +11,16 @@ import { normalizeTimeline } from "@/lib/identity/normalize-timeline";
 import { normalizeTopEraForProfile } from "@/lib/identity/era-mapping";
 import { summaryFromCollectorArchetypes, type GetIdentitySignalsJson } from "@/lib/identity/compute";
 import { computeCollectorArchetypes } from "@/lib/identity/collector-archetypes";
+import {
+  PROFILE_PAYLOAD_RULES,
+  PUBLIC_PROFILE_RULES,
+  applyProfileSharing,
+  isProfileVisible,
+  resolveProfileSharing,
+  type ProfilePrivacyRow,
+} from "@/lib/profile/sharing";
+import { unwrapOriginTimeline } from "@/lib/identity/unwrapOriginTimeline";
+import type { BuildIdentityResult } from "@/lib/identity/buildIdentity";
 
 function isProbablyNotAGameTitle(title: string): boolean {
   const t = (title || "").toLowerCase().trim();
@@ -98,26 +110,27 @@ export type PublicProfilePayload = {
     avatar_url: string | null;
     discord_handle: string | null; // null unless public
   };
+  /** Fields of sections hidden in profile_sharing are null (lists: empty). */
   identity: {
-    lifetime_score: number;
+    lifetime_score: number | null;
     archetype: {
       key: string;
       label: string;
       strength: "emerging" | "strong" | "core";
       one_liner: string;
-    };
+    } | null;
     top_era: { key: string; legacy_key?: string | null; label: string; years: string } | null;
     top_signals: Array<{ key: string; label: string }>;
-    era_buckets: Record<string, { games: number; releases: number }>;
-    era_buckets_timeline?: Record<string, { games: number; releases: number }>;
-    era_buckets_legacy: Record<string, { games: number; releases: number }>;
-    era_entropy: number;
+    era_buckets: Record<string, { games: number; releases: number }> | null;
+    era_buckets_timeline?: Record<string, { games: number; releases: number }> | null;
+    era_buckets_legacy: Record<string, { games: number; releases: number }> | null;
+    era_entropy: number | null;
     totals: {
-      owned_games: number;
-      owned_releases: number;
-      minutes_played: number;
-      achievements_earned: number;
-      achievements_total: number;
+      owned_games: number | null;
+      owned_releases: number | null;
+      minutes_played: number | null;
+      achievements_earned: number | null;
+      achievements_total: number | null;
     };
   };
   timeline: {
@@ -147,6 +160,19 @@ export type GetPublicProfileResult =
   | { private: true }
   | PublicProfilePayload;
 
+/** profiles columns the public profile payloads are built from. */
+export type PublicProfileRow = ProfilePrivacyRow & {
+  username: string | null;
+  display_name: string | null;
+  avatar_url: string | null;
+  discord_handle: string | null;
+  public_discord: boolean | null;
+  gamer_score_v11: number | null;
+};
+
+const PUBLIC_PROFILE_COLS =
+  "id, user_id, username, display_name, avatar_url, discord_handle, public_discord, profile_public, profile_visibility, profile_sharing, gamer_score_v11";
+
 export async function getPublicProfileByUsername(
   admin: SupabaseClient,
   rawUsername: string
@@ -156,16 +182,65 @@ export async function getPublicProfileByUsername(
 
   const { data: profile, error: profileErr } = await admin
     .from("profiles")
-    .select("id, user_id, username, display_name, avatar_url, discord_handle, public_discord, profile_public, gamer_score_v11")
+    .select(PUBLIC_PROFILE_COLS)
     .ilike("username", trimmed)
     .maybeSingle();
 
   if (profileErr || !profile) return { notFound: true };
-  if (!profile.profile_public) return { private: true };
+  if (!isProfileVisible(profile)) return { private: true };
 
   const userId = (profile.id ?? profile.user_id) as string;
   if (!userId) return { notFound: true };
   const username = String(profile.username ?? trimmed);
+
+  const { data: signalsJson, error: sigErr } = await admin.rpc("get_identity_signals", {
+    p_user_id: userId,
+  });
+
+  const { data: timelinePayload, error: timelineErr } = await admin.rpc("get_public_origin_timeline", {
+    p_username: username,
+  });
+  if (timelineErr) throw timelineErr;
+
+  const { data: recentRows } = await admin
+    .from("portfolio_entries")
+    .select(
+      `
+    release_id,
+    updated_at,
+    created_at,
+    releases:releases (
+      display_title,
+      title,
+      cover_url
+    )
+  `
+    )
+    .eq("user_id", userId)
+    .order("updated_at", { ascending: false, nullsFirst: false })
+    .order("created_at", { ascending: false })
+    .limit(6);
+
+  return buildPublicProfilePayload({
+    profile: { ...(profile as PublicProfileRow), username },
+    signals: sigErr ? null : ((signalsJson as GetIdentitySignalsJson | null) ?? null),
+    timeline: timelinePayload,
+    recentRows: recentRows ?? [],
+  });
+}
+
+/**
+ * The /api/profile payload from what getPublicProfileByUsername loaded, redacted with
+ * PROFILE_PAYLOAD_RULES by the owner's profile_sharing.
+ */
+export function buildPublicProfilePayload(input: {
+  profile: PublicProfileRow;
+  signals: GetIdentitySignalsJson | null;
+  timeline: unknown;
+  recentRows: unknown[];
+}): PublicProfilePayload {
+  const { profile, signals } = input;
+  const username = String(profile.username ?? "");
   const displayName = String(profile.display_name ?? username);
   const avatarUrl = profile.avatar_url != null ? String(profile.avatar_url) : null;
   const includeDiscord = !!profile.public_discord && profile.discord_handle != null;
@@ -190,11 +265,6 @@ export async function getPublicProfileByUsername(
     achievements_total: 0,
   };
 
-  const { data: signalsJson, error: sigErr } = await admin.rpc("get_identity_signals", {
-    p_user_id: userId,
-  });
-
-  const signals = signalsJson as GetIdentitySignalsJson | null;
   const eraBucketsLegacy = (signals?.era_buckets ?? {}) as Record<
     string,
     { games: number; releases: number }
@@ -207,8 +277,8 @@ export async function getPublicProfileByUsername(
     Object.keys(eraBucketsTimeline).length > 0 ? eraBucketsTimeline : eraBucketsLegacy;
   const eraEntropy = (signals?.era_entropy_timeline ?? signals?.era_entropy ?? 0) as number;
 
-  if (!sigErr && signalsJson != null) {
-    const json = signalsJson as GetIdentitySignalsJson;
+  if (signals != null) {
+    const json = signals;
     totals = {
       owned_games: Number(json.owned_games ?? 0),
       owned_releases: Number(json.owned_releases ?? json.owned_entries ?? 0),
@@ -239,11 +309,7 @@ export async function getPublicProfileByUsername(
     }));
   }
 
-  const { data: timelinePayload, error: timelineErr } = await admin.rpc("get_public_origin_timeline", {
-    p_username: username,
-  });
-  if (timelineErr) throw timelineErr;
-  const { origin } = normalizeTimeline(timelinePayload);
+  const { origin } = normalizeTimeline(input.timeline);
   const stats = origin.stats;
   const standouts = origin.standouts;
   const buckets = ORIGIN_BUCKET_ORDER.filter((k) => k !== "unknown");
@@ -295,26 +361,7 @@ export async function getPublicProfileByUsername(
     return (ia === -1 ? 999 : ia) - (ib === -1 ? 999 : ib);
   });
 
-  const { data: recentRows } = await admin
-    .from("portfolio_entries")
-    .select(
-      `
-    release_id,
-    updated_at,
-    created_at,
-    releases:releases (
-      display_title,
-      title,
-      cover_url
-    )
-  `
-    )
-    .eq("user_id", userId)
-    .order("updated_at", { ascending: false, nullsFirst: false })
-    .order("created_at", { ascending: false })
-    .limit(6);
-
-  const notable_games: PublicProfilePayload["notable_games"] = (recentRows ?? [])
+  const notable_games: PublicProfilePayload["notable_games"] = input.recentRows
     .filter((row: any) => row?.releases != null)
     .map((row: any) => {
       const r = row?.releases;
@@ -377,5 +424,61 @@ export async function getPublicProfileByUsername(
     notable_games: notable_games_cleaned,
   };
 
-  return payload;
+  return applyProfileSharing(payload, resolveProfileSharing(profile.profile_sharing), PROFILE_PAYLOAD_RULES);
+}
+
+/**
+ * GET /api/public/profile/[username] body from the identity summary (loadIdentitySummary) and the
+ * get_public_origin_timeline RPC result, redacted with PUBLIC_PROFILE_RULES. Owners get every section.
+ */
+export function buildPublicProfileResponse(input: {
+  profile: PublicProfileRow;
+  isOwner: boolean;
+  summary: { identity: BuildIdentityResult | null; signals: GetIdentitySignalsJson | null; played_on: unknown; played_on_by_era: unknown };
+  timeline: unknown;
+}) {
+  const { profile, isOwner, summary } = input;
+  const user = {
+    username: String(profile.username ?? ""),
+    display_name: profile.display_name ?? null,
+    avatar_url: profile.avatar_url ?? null,
+    ...(profile.public_discord ? { discord_handle: profile.discord_handle ?? null } : {}),
+  };
+
+  const buildResult = summary.identity;
+  const signals = summary.signals;
+  const flat: Record<string, unknown> = buildResult?.summary ?? buildResult ?? {};
+  if (profile.gamer_score_v11 != null) {
+    flat.lifetime_score = profile.gamer_score_v11;
+    flat.score_total = profile.gamer_score_v11;
+  }
+  if (signals && typeof signals === "object") {
+    flat.totals = {
+      owned_games: signals.owned_games ?? signals.owned_releases ?? 0,
+      owned_releases: signals.owned_releases ?? signals.owned_entries ?? 0,
+      minutes_played: signals.minutes_played ?? 0,
+      achievements_earned: signals.achievements_earned ?? 0,
+      achievements_total: signals.achievements_total ?? 0,
+    };
+  }
+
+  // A failed or empty timeline shouldn't break the page.
+  const timeline = input.timeline ? unwrapOriginTimeline(input.timeline) : { stats: {}, standouts: {} };
+
+  return applyProfileSharing(
+    {
+      ok: true as const,
+      isOwner,
+      user,
+      identity: flat,
+      top_era: buildResult?.top_era ?? null,
+      era_buckets: buildResult?.era_buckets ?? null,
+      archetypes: buildResult?.archetypes ?? null,
+      timeline,
+      played_on: summary.played_on,
+      played_on_by_era: summary.played_on_by_era ?? {},
+    },
+    resolveProfileSharing(profile.profile_sharing, { isOwner }),
+    PUBLIC_PROFILE_RULES
+  );
 }
@@ -0,0 +1,158 @@
+// lib/ra/consoles.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * RetroAchievements console ids, resolved from platform_catalog.ra_console_id
+ * (sql/2026-03-14_ra_console_map.sql) instead of a hardcoded list.
+ *
+ * A release's platform_key / platform_name / platform_label are matched against every catalog row's
+ * key, display name and aliases — including rows with no RA console, so "PlayStation 4" resolves to
+ * ps4 (null) rather than falling through to the "playstation" alias of ps1.
+ */
+
+export type RaPlatformRow = {
+  platform_key: string;
+  display_name: string | null;
+  aliases: string[] | null;
+  ra_console_id: number | null;
+};
+
+export type RaConsoleMap = {
+  /** normalized key/name/alias (spaced and compact) → catalog row */
+  byToken: Map<string, { platform_key: string; ra_console_id: number | null }>;
+  /** phrases for the fallback scan, longest first */
+  phrases: Array<{ phrase: string; platform_key: string; ra_console_id: number | null }>;
+  /** ra console id → first platform_key carrying it */
+  platformKeyByConsole: Map<number, string>;
+};
+
+export type RaCapableHardware = {
+  ra_console_ids: number[] | null;
+  is_modern_retro_handheld?: boolean | null;
+};
+
+export function normalizePlatformText(s: string | null | undefined): string {
+  return String(s ?? "")
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+export function buildRaConsoleMap(rows: RaPlatformRow[]): RaConsoleMap {
+  const byToken: RaConsoleMap["byToken"] = new Map();
+  const phrases: RaConsoleMap["phrases"] = [];
+  const platformKeyByConsole = new Map<number, string>();
+
+  for (const row of rows) {
+    const ra = row.ra_console_id == null ? null : Number(row.ra_console_id);
+    const entry = { platform_key: row.platform_key, ra_console_id: Number.isFinite(ra) ? ra : null };
+    if (entry.ra_console_id != null && !platformKeyByConsole.has(entry.ra_console_id)) {
+      platformKeyByConsole.set(entry.ra_console_id, row.platform_key);
+    }
+
+    const seen = new Set<string>();
+    for (const raw of [row.platform_key, row.display_name, ...(row.aliases ?? [])]) {
+      const norm = normalizePlatformText(raw);
+      if (!norm || seen.has(norm)) continue;
+      seen.add(norm);
+      // First row wins on collisions; the platform_key itself always beats another row's alias.
+      if (!byToken.has(norm) || norm === normalizePlatformText(row.platform_key)) byToken.set(norm, entry);
+      const compact = norm.replace(/ /g, "");
+      if (compact !== norm && !byToken.has(compact)) byToken.set(compact, entry);
+      phrases.push({ phrase: norm, ...entry });
+    }
+  }
+
+  phrases.sort((a, b) => b.phrase.length - a.phrase.length);
+  return { byToken, phrases, platformKeyByConsole };
+}
+
+/**
+ * 1) Any of key / name / label equal to a catalog key, display name or alias (ignoring spacing).
+ * 2) Otherwise the longest catalog phrase appearing as whole words in the combined text
+ *    ("Sega Genesis (USA)" → genesis).
+ */
+export function resolveRaConsoleIdFromMap(
+  map: RaConsoleMap,
+  platformKeyRaw: string | null,
+  platformNameRaw: string | null,
+  platformLabelRaw: string | null
+): number | null {
+  const parts = [platformKeyRaw, platformNameRaw, platformLabelRaw].map(normalizePlatformText).filter(Boolean);
+  if (!parts.length) return null;
+
+  for (const p of parts) {
+    const hit = map.byToken.get(p) ?? map.byToken.get(p.replace(/ /g, ""));
+    if (hit) return hit.ra_console_id;
+  }
+
+  const haystack = ` ${parts.join(" ")} `;
+  for (const { phrase, ra_console_id } of map.phrases) {
+    if (haystack.includes(` ${phrase} `)) return ra_console_id;
+  }
+  return null;
+}
+
+export function platformKeyForRaConsole(map: RaConsoleMap, consoleId: number | null | undefined): string | null {
+  if (consoleId == null || !Number.isFinite(consoleId)) return null;
+  return map.platformKeyByConsole.get(consoleId) ?? null;
+}
+
+/** Can this device stand in as the played-on hardware for a game on `consoleId`? */
+export function hardwarePlaysRaConsole(hw: RaCapableHardware, consoleId: number | null): boolean {
+  if (hw.is_modern_retro_handheld) return true;
+  if (hw.ra_console_ids == null) return true;
+  return consoleId != null && hw.ra_console_ids.includes(consoleId);
+}
+
+/** Hardware that plays at least one RA console (offered as a default RA device). */
+export function hardwareSupportsRa(hw: RaCapableHardware): boolean {
+  return Boolean(hw.is_modern_retro_handheld) || hw.ra_console_ids == null || hw.ra_console_ids.length > 0;
+}
+
+export async function loadRaConsoleMap(db: SupabaseClient): Promise<RaConsoleMap> {
+  const { data, error } = await db
+    .from("platform_catalog")
+    .select("platform_key, display_name, aliases, ra_console_id")
+    .order("sort_order", { ascending: true });
+  if (error) throw new Error(`platform_catalog: ${error.message}`);
+  return buildRaConsoleMap((data ?? []) as RaPlatformRow[]);
+}
+
+export async function resolveRaConsoleId(
+  db: SupabaseClient,
+  platformKey: string | null,
+  platformName: string | null,
+  platformLabel: string | null
+): Promise<number | null> {
+  return resolveRaConsoleIdFromMap(await loadRaConsoleMap(db), platformKey, platformName, platformLabel);
+}
+
+/**
+ * Refresh ra_consoles from RA's API_GetConsoleIDs payload. Returns the console ids that no
+ * platform_catalog row points at yet, so new RA systems show up as a to-do instead of silently unmapped.
+ */
+export async function syncRaConsoles(
+  admin: SupabaseClient,
+  consoles: Array<{ id: number; name: string; icon_url: string | null; active: boolean; is_game_system: boolean }>
+): Promise<{ upserted: number; unmapped: Array<{ id: number; name: string }> }> {
+  const fetchedAt = new Date().toISOString();
+  const rows = consoles
+    .filter((c) => Number.isFinite(c.id) && c.id > 0 && c.name)
+    .map((c) => ({ ...c, fetched_at: fetchedAt }));
+
+  if (rows.length) {
+    const { error } = await admin.from("ra_consoles").upsert(rows, { onConflict: "id" });
+    if (error) throw new Error(`ra_consoles: ${error.message}`);
+  }
+
+  const map = await loadRaConsoleMap(admin);
+  const unmapped = rows
+    .filter((c) => c.is_game_system && !map.platformKeyByConsole.has(c.id))
+    .map((c) => ({ id: c.id, name: c.name }));
+
+  return { upserted: rows.length, unmapped };
+}
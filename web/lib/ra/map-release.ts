@@ -1,41 +1,7 @@
 // lib/ra/map-release.ts
 import type { SupabaseClient } from "@supabase/supabase-js";
 import { releaseExternalIdRow } from "@/lib/release-external-ids";
-
-function resolveRaConsoleId(platformKeyRaw: string | null, platformNameRaw: string | null, platformLabelRaw: string | null) {
-  const s = `${platformKeyRaw ?? ""} ${platformNameRaw ?? ""} ${platformLabelRaw ?? ""}`
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, " ")
-    .trim();
-
-  // RetroAchievements Console IDs (these are the canonical IDs used by RA's API)
-  // If any of these are wrong, it's a 30-second fix: just update the number.
-  const map: Array<[RegExp, number]> = [
-    [/(\bsnes\b|\bsuper nintendo\b|\bsuper nes\b)/, 3],
-    [/(\bnes\b|\bnintendo entertainment system\b)/, 7],
-    [/(\bn64\b|\bnintendo 64\b)/, 2],
-    [/(\bgbc\b|\bgame boy color\b)/, 6],
-    [/(\bgb\b|\bgame boy\b)/, 4],
-    [/(\bgba\b|\bgame boy advance\b)/, 5],
-    [/(\bgenesis\b|\bmega drive\b|\bmd\b)/, 1],
-    [/(\bmastersystem\b|\bmaster system\b|\bsms\b)/, 11],
-    [/(\bgame gear\b|\bgg\b)/, 15],
-    [/(\bplaystation\b|\bps1\b|\bpsx\b)/, 12],
-    [/(\bps2\b|\bplaystation 2\b)/, 21],
-    [/(\bpc engine\b|\bturbografx\b|\btg16\b)/, 8],
-    [/(\bneo geo pocket\b|\bngp\b)/, 14],
-    [/(\blynx\b)/, 13],
-    [/(\bvirtual boy\b)/, 28],
-    [/(\bsaturn\b)/, 39],
-    [/(\bdreamcast\b)/, 40],
-    // add more as you expand
-  ];
-
-  for (const [re, id] of map) {
-    if (re.test(s)) return id;
-  }
-  return null;
-}
+import { loadRaConsoleMap, resolveRaConsoleIdFromMap, type RaConsoleMap } from "@/lib/ra/consoles";
 
 function normalizeTitleForRa(title: string) {
   return title
@@ -123,7 +89,7 @@ async function getRaGameListCached(
 /**
  * Attempts to map a SaveState release -> RetroAchievements game id by:
  * - Reading the release (title/platform)
- * - Resolving RA system id from platform label/key
+ * - Resolving RA system id from platform key/name/label via platform_catalog (lib/ra/consoles.ts)
  * - Searching RA games and picking best match
  * - Writing release_external_ids(source='ra', external_id=raGameId)
  *
@@ -140,6 +106,8 @@ export async function mapReleaseToRA(
     userId?: string;
     raUsername?: string;
     raApiKey?: string;
+    /** pass when mapping many releases so platform_catalog is read once */
+    consoleMap?: RaConsoleMap;
   }
 ): Promise<{
   ok: boolean;
@@ -176,8 +144,17 @@ export async function mapReleaseToRA(
   const title = String(rel.display_title ?? "").trim();
   if (!title) return { ok: false, ra_game_id: null, note: "Missing release title." };
 
-  // 2) Resolve RA Console ID directly (no API call needed)
-  const raConsoleId = resolveRaConsoleId(
+  // 2) Resolve RA Console ID from platform_catalog (no API call needed)
+  let consoleMap = opts?.consoleMap;
+  if (!consoleMap) {
+    try {
+      consoleMap = await loadRaConsoleMap(supabaseAdmin);
+    } catch (e) {
+      return { ok: false, ra_game_id: null, note: e instanceof Error ? e.message : "Platform lookup failed." };
+    }
+  }
+  const raConsoleId = resolveRaConsoleIdFromMap(
+    consoleMap,
     rel.platform_key,
     rel.platform_name,
     rel.platform_label
@@ -1,9 +1,5 @@
 import { createClient } from "@supabase/supabase-js";
-
-const RA_PLATFORMS = new Set([
-  "nes","snes","n64","gb","gbc","gba","genesis","sms","gg","ps1","ps2","psp",
-  "saturn","dc","arcade","pcengine","segacd","32x","ngp","ngpc",
-]);
+import { resolveRaConsoleId } from "@/lib/ra/consoles";
 
 function normTitle(s: string) {
   return String(s || "")
@@ -15,10 +11,6 @@ function normTitle(s: string) {
     .trim();
 }
 
-function isRACompatiblePlatform(platform_key: string | null) {
-  return platform_key ? RA_PLATFORMS.has(platform_key.toLowerCase()) : false;
-}
-
 /**
  * Attempts to ensure release_external_ids has source='ra' for this release.
  * Returns { ok, mapped, ra_game_id, note }
@@ -28,6 +20,8 @@ export async function ensureRaMappingForRelease(opts: {
   // used for matching
   displayTitle: string;
   platformKey: string | null;
+  platformName?: string | null;
+  platformLabel?: string | null;
 
   // Supabase creds (service role recommended)
   supabaseUrl: string;
@@ -40,12 +34,19 @@ export async function ensureRaMappingForRelease(opts: {
 }) {
   const { releaseId, platformKey } = opts;
 
-  if (!isRACompatiblePlatform(platformKey)) {
+  const supabaseAdmin = createClient(opts.supabaseUrl, opts.serviceRoleKey);
+
+  // RA-compatible = the platform resolves to an RA console through platform_catalog
+  let consoleId: number | null = null;
+  try {
+    consoleId = await resolveRaConsoleId(supabaseAdmin, platformKey, opts.platformName ?? null, opts.platformLabel ?? null);
+  } catch (e) {
+    return { ok: false, mapped: false, ra_game_id: null, note: e instanceof Error ? e.message : "Platform lookup failed." };
+  }
+  if (!consoleId) {
     return { ok: true, mapped: false, ra_game_id: null, note: "Platform not RA-compatible." };
   }
 
-  const supabaseAdmin = createClient(opts.supabaseUrl, opts.serviceRoleKey);
-
   // 1) Already mapped?
   const { data: existing, error: exErr } = await supabaseAdmin
     .from("release_external_ids")
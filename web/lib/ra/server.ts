@@ -40,7 +40,46 @@ export async function raSearchGamesByTitle(username: string, apiKey: string, tit
         id: Number(g.ID ?? g.GameID ?? g.id),
         title: g.Title ?? g.GameTitle ?? g.title ?? "",
         console: g.ConsoleName ?? g.Console ?? "",
+        console_id: Number(g.ConsoleID ?? g.consoleId ?? NaN) || null,
         imageIcon: g.ImageIcon ?? g.imageIcon ?? null,
       }))
     : [];
 }
+
+/** One API_GetConsoleIDs row; some responses use camelCase keys. */
+type RaConsoleRow = {
+  ID?: number | string;
+  id?: number | string;
+  Name?: string;
+  name?: string;
+  IconURL?: string | null;
+  iconUrl?: string | null;
+  Active?: boolean;
+  active?: boolean;
+  IsGameSystem?: boolean;
+  isGameSystem?: boolean;
+};
+
+export async function raGetConsoleIds(username: string, apiKey: string) {
+  const params = new URLSearchParams({
+    z: username,
+    y: apiKey,
+    g: "1", // game systems only (skips Hubs / Events)
+  });
+
+  const url = `https://retroachievements.org/API/API_GetConsoleIDs.php?${params.toString()}`;
+
+  const res = await fetch(url, { cache: "no-store" });
+  if (!res.ok) throw new Error(`RA console list failed (${res.status})`);
+  const data = await res.json();
+
+  return Array.isArray(data)
+    ? data.map((c: RaConsoleRow) => ({
+        id: Number(c.ID ?? c.id),
+        name: String(c.Name ?? c.name ?? ""),
+        icon_url: c.IconURL ?? c.iconUrl ?? null,
+        active: c.Active ?? c.active ?? true,
+        is_game_system: c.IsGameSystem ?? c.isGameSystem ?? true,
+      }))
+    : [];
+}
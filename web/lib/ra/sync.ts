@@ -0,0 +1,207 @@
+// web/lib/ra/sync.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { hardwarePlaysRaConsole, loadRaConsoleMap, resolveRaConsoleIdFromMap } from "@/lib/ra/consoles";
+
+/**
+ * RetroAchievements recent-games sync shared by POST /api/sync/retroachievements and the job queue.
+ */
+
+export type RARecentGame = {
+  GameID?: number;
+  gameId?: number;
+
+  NumPossibleAchievements?: number;
+  numPossibleAchievements?: number;
+
+  NumAchieved?: number;
+  numAchieved?: number;
+
+  NumAchievedHardcore?: number;
+  numAchievedHardcore?: number;
+
+  PossibleScore?: number;
+  possibleScore?: number;
+
+  ScoreAchieved?: number;
+  scoreAchieved?: number;
+
+  ScoreAchievedHardcore?: number;
+  scoreAchievedHardcore?: number;
+};
+
+function toNum(v: unknown) {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function clamp(n: number, lo: number, hi: number) {
+  return Math.max(lo, Math.min(hi, n));
+}
+
+function pick(obj: RARecentGame, a: keyof RARecentGame, b: keyof RARecentGame): number | undefined {
+  return obj?.[a] ?? obj?.[b];
+}
+
+async function fetchRAJson(url: string) {
+  const res = await fetch(url, { cache: "no-store" });
+  const text = await res.text();
+  let data: unknown = null;
+
+  try {
+    data = text ? JSON.parse(text) : null;
+  } catch {
+    throw new Error(`RA returned non-JSON. First 120 chars: ${text.slice(0, 120)}`);
+  }
+
+  if (!res.ok) throw new Error(`RA request failed (${res.status})`);
+  return data;
+}
+
+// Pull up to N recent games (paged)
+export async function getRecentGames(opts: { username: string; apiKey: string; max: number }) {
+  const { username, apiKey, max } = opts;
+
+  const out: RARecentGame[] = [];
+  let offset = 0;
+
+  while (out.length < max) {
+    const count = Math.min(50, max - out.length);
+
+    const url =
+      `https://retroachievements.org/API/API_GetUserRecentlyPlayedGames.php` +
+      `?u=${encodeURIComponent(username)}` +
+      `&y=${encodeURIComponent(apiKey)}` +
+      `&c=${encodeURIComponent(String(count))}` +
+      `&o=${encodeURIComponent(String(offset))}`;
+
+    const page = await fetchRAJson(url);
+    const arr: RARecentGame[] = Array.isArray(page) ? page : [];
+
+    if (arr.length === 0) break;
+
+    out.push(...arr);
+    offset += arr.length;
+
+    if (arr.length < count) break;
+  }
+
+  return out;
+}
+
+/**
+ * Normalize recent games into ra_game_progress rows (requires unique on user_id, ra_game_id).
+ */
+export function raProgressRows(recent: RARecentGame[], userId: string, nowIso: string) {
+  return recent
+    .map((g) => {
+      const ra_game_id = toNum(pick(g, "GameID", "gameId"));
+
+      const achievements_total = toNum(pick(g, "NumPossibleAchievements", "numPossibleAchievements"));
+      const achievements_earned = toNum(pick(g, "NumAchieved", "numAchieved"));
+      const achievements_earned_hardcore = toNum(pick(g, "NumAchievedHardcore", "numAchievedHardcore"));
+
+      const points_total = toNum(pick(g, "PossibleScore", "possibleScore"));
+      const points_earned = toNum(pick(g, "ScoreAchieved", "scoreAchieved"));
+      const points_earned_hardcore = toNum(pick(g, "ScoreAchievedHardcore", "scoreAchievedHardcore"));
+
+      const pct =
+        achievements_total > 0 ? (achievements_earned / achievements_total) * 100 : 0;
+
+      return {
+        user_id: userId,
+        ra_game_id,
+
+        points_total,
+        points_earned,
+        points_earned_hardcore,
+
+        achievements_total,
+        achievements_earned,
+        achievements_earned_hardcore,
+
+        percent_complete: clamp(Math.round(pct * 10) / 10, 0, 100),
+
+        updated_at: nowIso,
+      };
+    })
+    .filter((r) => r.ra_game_id > 0);
+}
+
+export type RaProgressRow = ReturnType<typeof raProgressRows>[number];
+
+/**
+ * Releases the default RA device can actually play: the device's hardware.ra_console_ids must cover
+ * the release's RA console (resolved via platform_catalog). Emulation devices (null ids) and modern
+ * retro handhelds play everything; a missing hardware row yields nothing.
+ */
+export async function raDefaultCompatibleReleaseIds(
+  supabase: SupabaseClient,
+  defaultHardwareId: string,
+  releaseIds: string[]
+): Promise<Set<string>> {
+  const out = new Set<string>();
+  if (releaseIds.length === 0) return out;
+
+  const { data: hw } = await supabase
+    .from("hardware")
+    .select("ra_console_ids, is_modern_retro_handheld")
+    .eq("id", defaultHardwareId)
+    .maybeSingle();
+  if (!hw) return out;
+  if (hw.is_modern_retro_handheld || hw.ra_console_ids == null) {
+    for (const id of releaseIds) out.add(id);
+    return out;
+  }
+
+  const [map, { data: releases }] = await Promise.all([
+    loadRaConsoleMap(supabase),
+    supabase.from("releases").select("id, platform_key, platform_name, platform_label").in("id", releaseIds),
+  ]);
+  for (const r of releases ?? []) {
+    const consoleId = resolveRaConsoleIdFromMap(map, r.platform_key, r.platform_name, r.platform_label);
+    if (hardwarePlaysRaConsole(hw, consoleId)) out.add(r.id);
+  }
+  return out;
+}
+
+/**
+ * Auto-default played-on for each mapped release (idempotent; skips if manual/RA primary exists,
+ * or if the default device can't play that release's console).
+ */
+export async function applyRaDefaultPlayedOn(
+  supabase: SupabaseClient,
+  userId: string,
+  defaultHardwareId: string,
+  raGameIds: string[]
+): Promise<void> {
+  if (raGameIds.length === 0) return;
+
+  const { data: mappings } = await supabase
+    .from("release_external_ids")
+    .select("release_id, external_id")
+    .eq("source", "ra")
+    .in("external_id", raGameIds);
+
+  let compatible: Set<string>;
+  try {
+    compatible = await raDefaultCompatibleReleaseIds(
+      supabase,
+      defaultHardwareId,
+      (mappings ?? []).map((m: { release_id: string }) => m.release_id)
+    );
+  } catch (e) {
+    console.warn("RA default played-on skipped:", e instanceof Error ? e.message : e);
+    return;
+  }
+
+  for (const m of mappings ?? []) {
+    if (!compatible.has(m.release_id)) continue;
+    const { error: rpcErr } = await supabase.rpc("ensure_played_on_primary", {
+      p_user_id: userId,
+      p_release_id: m.release_id,
+      p_hardware_id: defaultHardwareId,
+      p_source: "ra_default",
+    });
+    if (rpcErr) console.warn(`ensure_played_on_primary(${m.release_id}):`, rpcErr.message);
+  }
+}
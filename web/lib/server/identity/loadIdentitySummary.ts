@@ -4,6 +4,8 @@ import { buildIdentityFromSignals } from "@/lib/identity/buildIdentity";
 import { getPlayedOnSummary } from "@/lib/identity/getPlayedOnSummary";
 import { getMostPlayedOn } from "@/lib/identity/getMostPlayedOn";
 import { getPlayedOnByEra } from "@/lib/identity/getPlayedOnByEra";
+import { getSeriesProgress, type SeriesProgress } from "@/lib/identity/getSeriesProgress";
+import { getVariantStats, type VariantStats } from "@/lib/identity/getVariantStats";
 
 export type IdentitySignals = any;
 
@@ -19,11 +21,15 @@ export async function loadIdentitySummary(
   if (error) throw error;
   const signals: IdentitySignals = data;
 
-  const [played_on, most_played_on, played_on_by_era] = await Promise.all([
+  const [played_on, most_played_on, played_on_by_era, series_progress, variant_stats] = await Promise.all([
     getPlayedOnSummary(supabase, userId, 3),
     getMostPlayedOn(supabase, userId, 3),
     getPlayedOnByEra(supabase, userId, 3).catch(() => ({}) as Record<string, never>),
+    getSeriesProgress(supabase, userId).catch(() => [] as SeriesProgress[]),
+    getVariantStats(supabase, userId).catch(() => null as VariantStats | null),
   ]);
+  // Editions aren't in the RPC yet; the collector archetypes read them from signals like everything else.
+  if (signals && variant_stats) signals.variant_stats = variant_stats;
   const identity = buildIdentityFromSignals(signals, played_on, most_played_on);
 
   // Ensure identity.summary has archetype + top_era (flat = summary is what APIs send as "identity")
@@ -57,5 +63,7 @@ export async function loadIdentitySummary(
   (identity as Record<string, unknown>).most_played_on = most_played_on;
   if (summary) (summary as Record<string, unknown>).most_played_on = most_played_on;
 
-  return { signals, identity, played_on, played_on_by_era };
+  (identity as Record<string, unknown>).series_progress = series_progress;
+
+  return { signals, identity, played_on, played_on_by_era, series_progress };
 }
@@ -0,0 +1,449 @@
+/**
+ * Side-by-side comparison of two profiles for /compare/[a]/[b]: shared games, games only one side
+ * has, completion overlap, era distributions, archetype scores, platforms and a taste similarity
+ * score. Both profiles must pass the public-profile visibility gate, and every section needs the
+ * matching profile_sharing toggle of the side(s) it exposes — a section that would reveal something
+ * about a side that switched it off is left out, and so is its part of the similarity score.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { ORIGIN_BUCKET_META, ORIGIN_BUCKET_ORDER } from "@/lib/identity/era";
+import { mergeEraBucketsByCanonical } from "@/lib/identity/eras";
+import { isProfileVisible, resolveProfileSharing, type ProfileSharingKey } from "@/lib/profile/sharing";
+import {
+  SOCIAL_PROFILE_COLS,
+  toSocialUser,
+  type SocialProfileRow,
+  type SocialUser,
+} from "./follows";
+
+/** profile_sharing key each section needs (from both sides for the library sections). */
+export const COMPARE_SECTION_SHARING: Record<
+  "library" | "completion" | "eras" | "archetypes" | "platforms" | "score",
+  ProfileSharingKey
+> = {
+  library: "show_collections",
+  completion: "show_recent_activity",
+  eras: "show_timeline",
+  archetypes: "show_archetypes",
+  platforms: "show_platforms",
+  score: "show_score",
+};
+
+export type CompareSection = keyof typeof COMPARE_SECTION_SHARING;
+
+/** Weights of the similarity components; missing components are dropped and the rest rescaled. */
+export const TASTE_SIMILARITY_WEIGHTS = { library: 0.4, eras: 0.25, archetypes: 0.25, platforms: 0.1 } as const;
+
+const COMPARE_LIST_LIMIT = 60;
+const PAGE = 1000;
+
+export type CompareSide = SocialProfileRow & { gamer_score_v11?: number | null; is_viewer?: boolean };
+
+/** One game in a library; releases of the same game on several platforms collapse into it. */
+export type LibraryGame = {
+  game_id: string;
+  title: string;
+  cover_url: string | null;
+  platforms: string[];
+  completed: boolean;
+};
+
+export type LibraryRow = {
+  release_id: string;
+  status: string | null;
+  releases: {
+    id: string;
+    game_id: string | null;
+    display_title: string | null;
+    title: string | null;
+    platform_label: string | null;
+    cover_url: string | null;
+  } | null;
+};
+
+export type SharedGame = {
+  game_id: string;
+  title: string;
+  cover_url: string | null;
+  a: { platforms: string[]; completed: boolean | null };
+  b: { platforms: string[]; completed: boolean | null };
+};
+
+export type OnlyGame = { game_id: string; title: string; cover_url: string | null; platforms: string[] };
+
+export type LibraryComparison = {
+  platform: string | null;
+  counts: { a: number; b: number; shared: number; only_a: number; only_b: number };
+  shared: SharedGame[];
+  only_a: OnlyGame[];
+  only_b: OnlyGame[];
+};
+
+export type CompletionOverlap = {
+  both: number;
+  only_a: number;
+  only_b: number;
+  neither: number;
+  /** Completed by both / completed by either, over shared games. */
+  overlap: number | null;
+};
+
+export type EraComparisonRow = {
+  era: string;
+  label: string;
+  years: string;
+  a: { games: number; share: number } | null;
+  b: { games: number; share: number } | null;
+};
+
+export type ArchetypeComparisonRow = { key: string; label: string; a: number | null; b: number | null };
+
+export type PlatformComparisonRow = { platform: string; a: number | null; b: number | null };
+
+export type TasteSimilarity = {
+  /** 0–100, null when no component is shared by both sides. */
+  score: number | null;
+  components: Record<keyof typeof TASTE_SIMILARITY_WEIGHTS, number | null>;
+};
+
+export type ProfileComparison = {
+  a: SocialUser & { score: number | null };
+  b: SocialUser & { score: number | null };
+  library: LibraryComparison | null;
+  completion: CompletionOverlap | null;
+  eras: EraComparisonRow[] | null;
+  archetypes: ArchetypeComparisonRow[] | null;
+  platforms: PlatformComparisonRow[] | null;
+  similarity: TasteSimilarity;
+};
+
+/** Raw per-side data the route loads; sections a side doesn't share may be left out. */
+export type CompareSideData = {
+  profile: CompareSide;
+  library: LibraryGame[] | null;
+  era_buckets: Record<string, { games?: number; releases?: number }> | null;
+  archetypes: Array<{ key: string; label: string; score: number }> | null;
+};
+
+/** Owners see everything of their own side; a missing toggle counts as shared. */
+export function sideShares(side: CompareSide, section: CompareSection): boolean {
+  return resolveProfileSharing(side.profile_sharing, { isOwner: side.is_viewer })[COMPARE_SECTION_SHARING[section]];
+}
+
+/** Both sides pass the visibility gate (the viewer's own side always does). */
+export function canCompare(a: CompareSide, b: CompareSide): boolean {
+  return (a.is_viewer || isProfileVisible(a)) && (b.is_viewer || isProfileVisible(b));
+}
+
+function platformKey(label: string): string {
+  return label.trim().toLowerCase();
+}
+
+/** Portfolio rows → one entry per game (releases without a game are keyed by release). */
+export function libraryFromRows(rows: LibraryRow[]): LibraryGame[] {
+  const byGame = new Map<string, LibraryGame>();
+  for (const row of rows) {
+    const rel = row.releases;
+    if (!rel?.id) continue;
+    const key = rel.game_id ? String(rel.game_id) : `release:${rel.id}`;
+    const platform = rel.platform_label?.trim() || null;
+    const prev = byGame.get(key);
+    if (prev) {
+      if (platform && !prev.platforms.includes(platform)) prev.platforms.push(platform);
+      prev.completed = prev.completed || row.status === "completed";
+      prev.cover_url = prev.cover_url ?? rel.cover_url ?? null;
+      continue;
+    }
+    byGame.set(key, {
+      game_id: key,
+      title: String(rel.display_title ?? rel.title ?? "Untitled"),
+      cover_url: rel.cover_url ?? null,
+      platforms: platform ? [platform] : [],
+      completed: row.status === "completed",
+    });
+  }
+  return [...byGame.values()];
+}
+
+/** Keep games that have a release on `platform` (label, case-insensitive), with only that platform listed. */
+export function filterLibraryByPlatform(games: LibraryGame[], platform: string | null): LibraryGame[] {
+  if (!platform) return games;
+  const want = platformKey(platform);
+  return games
+    .filter((g) => g.platforms.some((p) => platformKey(p) === want))
+    .map((g) => ({ ...g, platforms: g.platforms.filter((p) => platformKey(p) === want) }));
+}
+
+function byTitle<T extends { title: string }>(a: T, b: T): number {
+  return a.title.localeCompare(b.title);
+}
+
+function onlyGame(g: LibraryGame): OnlyGame {
+  return { game_id: g.game_id, title: g.title, cover_url: g.cover_url, platforms: g.platforms };
+}
+
+/**
+ * Shared / only-a / only-b games. Lists are capped (counts are not); completion flags are only
+ * filled in when `withCompletion` (both sides share completions).
+ */
+export function compareLibraries(
+  a: LibraryGame[],
+  b: LibraryGame[],
+  opts: { platform?: string | null; withCompletion?: boolean; limit?: number } = {}
+): LibraryComparison {
+  const limit = opts.limit ?? COMPARE_LIST_LIMIT;
+  const libA = filterLibraryByPlatform(a, opts.platform ?? null);
+  const libB = filterLibraryByPlatform(b, opts.platform ?? null);
+  const mapB = new Map(libB.map((g) => [g.game_id, g]));
+  const idsA = new Set(libA.map((g) => g.game_id));
+
+  const shared: SharedGame[] = [];
+  const onlyA: OnlyGame[] = [];
+  for (const g of libA) {
+    const other = mapB.get(g.game_id);
+    if (!other) {
+      onlyA.push(onlyGame(g));
+      continue;
+    }
+    shared.push({
+      game_id: g.game_id,
+      title: g.title,
+      cover_url: g.cover_url ?? other.cover_url,
+      a: { platforms: g.platforms, completed: opts.withCompletion ? g.completed : null },
+      b: { platforms: other.platforms, completed: opts.withCompletion ? other.completed : null },
+    });
+  }
+  const onlyB = libB.filter((g) => !idsA.has(g.game_id)).map(onlyGame);
+
+  return {
+    platform: opts.platform ?? null,
+    counts: { a: libA.length, b: libB.length, shared: shared.length, only_a: onlyA.length, only_b: onlyB.length },
+    shared: shared.sort(byTitle).slice(0, limit),
+    only_a: onlyA.sort(byTitle).slice(0, limit),
+    only_b: onlyB.sort(byTitle).slice(0, limit),
+  };
+}
+
+/** Completion split over the games both sides have. */
+export function completionOverlap(a: LibraryGame[], b: LibraryGame[], platform: string | null = null): CompletionOverlap {
+  const mapB = new Map(filterLibraryByPlatform(b, platform).map((g) => [g.game_id, g]));
+  const out: CompletionOverlap = { both: 0, only_a: 0, only_b: 0, neither: 0, overlap: null };
+  for (const g of filterLibraryByPlatform(a, platform)) {
+    const other = mapB.get(g.game_id);
+    if (!other) continue;
+    if (g.completed && other.completed) out.both += 1;
+    else if (g.completed) out.only_a += 1;
+    else if (other.completed) out.only_b += 1;
+    else out.neither += 1;
+  }
+  const either = out.both + out.only_a + out.only_b;
+  out.overlap = either > 0 ? out.both / either : null;
+  return out;
+}
+
+function eraShares(buckets: CompareSideData["era_buckets"]): Map<string, { games: number; share: number }> {
+  const merged = mergeEraBucketsByCanonical(buckets);
+  const total = Object.values(merged).reduce((s, v) => s + v.games, 0);
+  return new Map(Object.entries(merged).map(([k, v]) => [k, { games: v.games, share: total > 0 ? v.games / total : 0 }]));
+}
+
+/**
+ * Era rows in timeline order for every era either side has games in. A side passed as null (not
+ * shared) gets null cells.
+ */
+export function compareEraBuckets(
+  a: CompareSideData["era_buckets"] | null,
+  b: CompareSideData["era_buckets"] | null
+): EraComparisonRow[] {
+  const sa = a ? eraShares(a) : null;
+  const sb = b ? eraShares(b) : null;
+  const empty = { games: 0, share: 0 };
+  return ORIGIN_BUCKET_ORDER.filter((era) => (sa?.get(era)?.games ?? 0) > 0 || (sb?.get(era)?.games ?? 0) > 0).map(
+    (era) => ({
+      era,
+      label: ORIGIN_BUCKET_META[era]?.title ?? era,
+      years: ORIGIN_BUCKET_META[era]?.sub ?? "",
+      a: sa ? (sa.get(era) ?? empty) : null,
+      b: sb ? (sb.get(era) ?? empty) : null,
+    })
+  );
+}
+
+/** Archetype scores side by side, strongest combined first. */
+export function compareArchetypes(
+  a: CompareSideData["archetypes"],
+  b: CompareSideData["archetypes"]
+): ArchetypeComparisonRow[] {
+  const rows = new Map<string, ArchetypeComparisonRow>();
+  for (const [side, list] of [["a", a], ["b", b]] as const) {
+    for (const x of list ?? []) {
+      const row = rows.get(x.key) ?? { key: x.key, label: x.label, a: a ? 0 : null, b: b ? 0 : null };
+      row[side] = Number(x.score) || 0;
+      rows.set(x.key, row);
+    }
+  }
+  return [...rows.values()].sort((x, y) => (y.a ?? 0) + (y.b ?? 0) - ((x.a ?? 0) + (x.b ?? 0)));
+}
+
+function platformCounts(games: LibraryGame[]): Map<string, number> {
+  const out = new Map<string, number>();
+  for (const g of games) for (const p of g.platforms) out.set(p, (out.get(p) ?? 0) + 1);
+  return out;
+}
+
+/** Games per platform label, most combined first. */
+export function comparePlatforms(a: LibraryGame[] | null, b: LibraryGame[] | null): PlatformComparisonRow[] {
+  const ca = a ? platformCounts(a) : null;
+  const cb = b ? platformCounts(b) : null;
+  const labels = new Map<string, string>();
+  for (const m of [ca, cb]) for (const p of m?.keys() ?? []) if (!labels.has(platformKey(p))) labels.set(platformKey(p), p);
+  const count = (m: Map<string, number> | null, key: string) => {
+    if (!m) return null;
+    let n = 0;
+    for (const [p, v] of m) if (platformKey(p) === key) n += v;
+    return n;
+  };
+  return [...labels]
+    .map(([key, platform]) => ({ platform, a: count(ca, key), b: count(cb, key) }))
+    .sort((x, y) => (y.a ?? 0) + (y.b ?? 0) - ((x.a ?? 0) + (x.b ?? 0)) || x.platform.localeCompare(y.platform));
+}
+
+/** Cosine similarity of two sparse non-negative vectors; null when either is all zero. */
+export function cosineSimilarity(a: Map<string, number>, b: Map<string, number>): number | null {
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (const [k, v] of a) {
+    na += v * v;
+    dot += v * (b.get(k) ?? 0);
+  }
+  for (const v of b.values()) nb += v * v;
+  if (na === 0 || nb === 0) return null;
+  return dot / Math.sqrt(na * nb);
+}
+
+/**
+ * Weighted mix of library overlap (shared / smaller library, so a small library fully inside a big
+ * one counts as alike), era and archetype cosine similarity and platform cosine similarity. Pass
+ * null for any component not shared by both sides.
+ */
+export function tasteSimilarity(input: {
+  library: { a: LibraryGame[]; b: LibraryGame[] } | null;
+  eras: EraComparisonRow[] | null;
+  archetypes: ArchetypeComparisonRow[] | null;
+  platforms: PlatformComparisonRow[] | null;
+}): TasteSimilarity {
+  let library: number | null = null;
+  if (input.library) {
+    const ids = new Set(input.library.a.map((g) => g.game_id));
+    const shared = input.library.b.filter((g) => ids.has(g.game_id)).length;
+    const smaller = Math.min(input.library.a.length, input.library.b.length);
+    library = smaller > 0 ? shared / smaller : null;
+  }
+
+  const vectors = <T>(rows: T[] | null, key: (r: T) => string, val: (r: T, side: "a" | "b") => number | null) => {
+    if (!rows) return null;
+    const va = new Map<string, number>();
+    const vb = new Map<string, number>();
+    for (const r of rows) {
+      const x = val(r, "a");
+      const y = val(r, "b");
+      if (x == null || y == null) return null;
+      va.set(key(r), x);
+      vb.set(key(r), y);
+    }
+    return cosineSimilarity(va, vb);
+  };
+
+  const components: TasteSimilarity["components"] = {
+    library,
+    eras: vectors(input.eras, (r) => r.era, (r, s) => r[s]?.share ?? null),
+    archetypes: vectors(input.archetypes, (r) => r.key, (r, s) => r[s]),
+    platforms: vectors(input.platforms, (r) => platformKey(r.platform), (r, s) => r[s]),
+  };
+
+  let sum = 0;
+  let weight = 0;
+  for (const [k, w] of Object.entries(TASTE_SIMILARITY_WEIGHTS) as Array<[keyof typeof TASTE_SIMILARITY_WEIGHTS, number]>) {
+    const v = components[k];
+    if (v == null) continue;
+    sum += v * w;
+    weight += w;
+  }
+  return { score: weight > 0 ? Math.round((sum / weight) * 100) : null, components };
+}
+
+/** Assemble the comparison, dropping every section a side doesn't share. */
+export function buildProfileComparison(
+  a: CompareSideData,
+  b: CompareSideData,
+  opts: { platform?: string | null } = {}
+): ProfileComparison {
+  const both = (s: CompareSection) => sideShares(a.profile, s) && sideShares(b.profile, s);
+  const one = <T>(side: CompareSideData, s: CompareSection, v: T) => (sideShares(side.profile, s) ? v : null);
+
+  const libraryShared = both("library") && !!a.library && !!b.library;
+  const withCompletion = libraryShared && both("completion");
+  // Filtering by platform reveals platform data, so it needs show_platforms from both sides too.
+  const platform = opts.platform?.trim() && both("platforms") ? opts.platform.trim() : null;
+
+  // Game lists of a side that hides its platforms don't say which platform each game is on.
+  const listed = (side: CompareSideData) =>
+    sideShares(side.profile, "platforms") ? side.library! : side.library!.map((g) => ({ ...g, platforms: [] }));
+  const library = libraryShared ? compareLibraries(listed(a), listed(b), { platform, withCompletion }) : null;
+  const completion = withCompletion ? completionOverlap(a.library!, b.library!, platform) : null;
+  const eraA = one(a, "eras", a.era_buckets ?? {});
+  const eraB = one(b, "eras", b.era_buckets ?? {});
+  const eras = eraA || eraB ? compareEraBuckets(eraA, eraB) : null;
+  const archA = one(a, "archetypes", a.archetypes ?? []);
+  const archB = one(b, "archetypes", b.archetypes ?? []);
+  const archetypes = archA || archB ? compareArchetypes(archA, archB) : null;
+  const platA = one(a, "platforms", a.library);
+  const platB = one(b, "platforms", b.library);
+  const platforms = platA || platB ? comparePlatforms(platA, platB) : null;
+
+  const similarity = tasteSimilarity({
+    library: libraryShared ? { a: a.library!, b: b.library! } : null,
+    eras: eraA && eraB ? eras : null,
+    archetypes: archA && archB ? archetypes : null,
+    platforms: platA && platB ? platforms : null,
+  });
+
+  const user = (side: CompareSideData) => ({
+    ...(toSocialUser(side.profile) ?? { username: "", display_name: null, avatar_url: null }),
+    score: one(side, "score", side.profile.gamer_score_v11 ?? null),
+  });
+
+  return { a: user(a), b: user(b), library, completion, eras, archetypes, platforms, similarity };
+}
+
+export async function loadCompareProfile(admin: SupabaseClient, username: string): Promise<CompareSide | null> {
+  const u = username.trim();
+  if (!u) return null;
+  const { data, error } = await admin
+    .from("profiles")
+    .select(`${SOCIAL_PROFILE_COLS}, gamer_score_v11`)
+    .ilike("username", u)
+    .limit(1)
+    .maybeSingle<CompareSide>();
+  if (error) throw new Error(`profiles: ${error.message}`);
+  return data ?? null;
+}
+
+/** Whole library of `userId` (status + release), paged past the PostgREST row cap. */
+export async function loadLibraryRows(admin: SupabaseClient, userId: string): Promise<LibraryRow[]> {
+  const out: LibraryRow[] = [];
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await admin
+      .from("portfolio_entries")
+      .select<string, LibraryRow>("release_id, status, releases:release_id (id, game_id, display_title, title, platform_label, cover_url)")
+      .eq("user_id", userId)
+      .order("release_id", { ascending: true })
+      .range(from, from + PAGE - 1);
+    if (error) throw new Error(`portfolio_entries: ${error.message}`);
+    const rows = data ?? [];
+    out.push(...rows);
+    if (rows.length < PAGE) return out;
+  }
+}
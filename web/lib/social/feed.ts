@@ -0,0 +1,321 @@
+/**
+ * Friends activity feed for /gamehome: user_activity_events (written by the triggers in
+ * sql/2026-03-16_follow_graph_activity_feed.sql) of everyone the viewer follows with an accepted
+ * edge. Each event kind sits behind one profile_sharing toggle of its author, checked at read time
+ * so switching a section off hides past events too; release platforms follow show_platforms. Bursts
+ * (an import completing 40 games) collapse into one item per author and kind.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getArchetypeCatalogEntry } from "@/lib/archetypes/catalog";
+import { COVER_ASSET_SELECT, coverImageFromAsset, type CoverAssetRow, type CoverImage } from "@/lib/images/cover";
+import { isProfileVisible, resolveProfileSharing, type ProfileSharingKey } from "@/lib/profile/sharing";
+import {
+  loadFollowingIds,
+  loadSocialProfilesByIds,
+  toSocialUser,
+  type SocialProfileRow,
+  type SocialUser,
+} from "./follows";
+
+export const FEED_EVENT_KINDS = ["completion", "mastery", "memory", "archetype_shift"] as const;
+export type FeedEventKind = (typeof FEED_EVENT_KINDS)[number];
+
+/** profile_sharing key that must not be false for followers to see the kind. */
+export const FEED_KIND_SHARING: Record<FeedEventKind, ProfileSharingKey> = {
+  completion: "show_recent_activity",
+  mastery: "show_recent_activity",
+  memory: "show_timeline",
+  archetype_shift: "show_archetypes",
+};
+
+/** Events of one author and kind closer together than this merge into one feed item. */
+export const FEED_GROUP_WINDOW_MS = 24 * 60 * 60 * 1000;
+const FEED_GROUP_MAX_RELEASES = 4;
+const IN_CHUNK = 200;
+
+export type FeedEventRow = {
+  id: number | string;
+  user_id: string;
+  kind: FeedEventKind;
+  release_id: string | null;
+  payload: Record<string, unknown> | null;
+  occurred_at: string;
+};
+
+export type FeedRelease = {
+  release_id: string | null;
+  title: string;
+  platform_label: string | null;
+  cover_url: string | null;
+  cover_image: CoverImage | null;
+  /** mastery: Platinum / 100% / Mastered / Completed */
+  label: string | null;
+};
+
+export type FeedItem = {
+  id: string;
+  kind: FeedEventKind;
+  actor: SocialUser;
+  occurred_at: string;
+  /** Events merged into this item (releases holds at most the first few). */
+  count: number;
+  releases: FeedRelease[];
+  archetype: { from: string | null; from_label: string | null; to: string; to_label: string } | null;
+};
+
+export type FeedPage = { items: FeedItem[]; next_cursor: string | null };
+
+export function feedKindsAllowed(sharing: Record<string, unknown> | null | undefined): FeedEventKind[] {
+  const shared = resolveProfileSharing(sharing);
+  return FEED_EVENT_KINDS.filter((k) => shared[FEED_KIND_SHARING[k]]);
+}
+
+export function encodeFeedCursor(e: Pick<FeedEventRow, "occurred_at" | "id">): string {
+  return `${e.occurred_at}|${e.id}`;
+}
+
+export function decodeFeedCursor(raw: string | null | undefined): { occurred_at: string; id: number } | null {
+  if (!raw) return null;
+  const i = raw.lastIndexOf("|");
+  if (i <= 0) return null;
+  const occurred_at = raw.slice(0, i);
+  const id = Number(raw.slice(i + 1));
+  if (!Number.isFinite(Date.parse(occurred_at)) || !Number.isInteger(id)) return null;
+  return { occurred_at, id };
+}
+
+function compareEvents(a: FeedEventRow, b: FeedEventRow): number {
+  const t = Date.parse(b.occurred_at) - Date.parse(a.occurred_at);
+  return t !== 0 ? t : Number(b.id) - Number(a.id);
+}
+
+/**
+ * Events (newest first) → groups of consecutive same-author same-kind events within the window.
+ * Archetype shifts are never merged.
+ */
+export function groupFeedEvents(events: FeedEventRow[], windowMs = FEED_GROUP_WINDOW_MS): FeedEventRow[][] {
+  const groups: FeedEventRow[][] = [];
+  for (const e of [...events].sort(compareEvents)) {
+    const last = groups[groups.length - 1];
+    const head = last?.[0];
+    const tail = last?.[last.length - 1];
+    if (
+      head &&
+      tail &&
+      e.kind !== "archetype_shift" &&
+      head.kind === e.kind &&
+      head.user_id === e.user_id &&
+      Date.parse(tail.occurred_at) - Date.parse(e.occurred_at) <= windowMs
+    ) {
+      last.push(e);
+    } else {
+      groups.push([e]);
+    }
+  }
+  return groups;
+}
+
+function archetypeLabel(key: string | null): string | null {
+  if (!key) return null;
+  return getArchetypeCatalogEntry(key)?.label ?? key.replace(/_/g, " ");
+}
+
+export type ReleaseInfo = {
+  title: string;
+  platform_label: string | null;
+  cover_url: string | null;
+  cover_image: CoverImage | null;
+};
+
+/** `showPlatforms`: the author's show_platforms toggle; off leaves platform_label null. */
+export function buildFeedItem(
+  group: FeedEventRow[],
+  actor: SocialUser,
+  releases: Map<string, ReleaseInfo>,
+  opts: { showPlatforms?: boolean } = {}
+): FeedItem {
+  const showPlatforms = opts.showPlatforms !== false;
+  const head = group[0];
+  let archetype: FeedItem["archetype"] = null;
+  if (head.kind === "archetype_shift") {
+    const from = typeof head.payload?.from === "string" ? head.payload.from : null;
+    const to = String(head.payload?.to ?? "");
+    archetype = { from, from_label: archetypeLabel(from), to, to_label: archetypeLabel(to) ?? to };
+  }
+
+  return {
+    id: `${head.kind}:${head.id}`,
+    kind: head.kind,
+    actor,
+    occurred_at: head.occurred_at,
+    count: group.length,
+    releases:
+      head.kind === "archetype_shift"
+        ? []
+        : group.slice(0, FEED_GROUP_MAX_RELEASES).map((e) => {
+            const r = e.release_id ? releases.get(e.release_id) : undefined;
+            const payloadTitle = typeof e.payload?.title === "string" ? e.payload.title : null;
+            return {
+              release_id: e.release_id,
+              title: r?.title ?? payloadTitle ?? "Untitled",
+              platform_label: showPlatforms ? (r?.platform_label ?? null) : null,
+              cover_url: r?.cover_url ?? null,
+              cover_image: r?.cover_image ?? null,
+              label: typeof e.payload?.label === "string" ? e.payload.label : null,
+            };
+          }),
+    archetype,
+  };
+}
+
+function masteryVerb(label: string | null): string {
+  switch (label) {
+    case "Platinum":
+      return "earned the Platinum in";
+    case "Mastered":
+      return "mastered";
+    case "Completed":
+      return "beat every achievement in";
+    default:
+      return "hit 100% in";
+  }
+}
+
+/**
+ * Feed items for one page of events (newest first). Events of authors who aren't visible or don't
+ * share the kind (anymore) are dropped here as well as in the queries, and release platforms only
+ * show for authors sharing show_platforms.
+ */
+export function buildFeedItems(
+  events: FeedEventRow[],
+  profiles: Map<string, SocialProfileRow>,
+  releases: Map<string, ReleaseInfo>
+): FeedItem[] {
+  const shown = events.filter((e) => {
+    const p = profiles.get(e.user_id);
+    return !!p && isProfileVisible(p) && !!toSocialUser(p) && feedKindsAllowed(p.profile_sharing).includes(e.kind);
+  });
+  return groupFeedEvents(shown).map((g) => {
+    const p = profiles.get(g[0].user_id)!;
+    return buildFeedItem(g, toSocialUser(p)!, releases, {
+      showPlatforms: resolveProfileSharing(p.profile_sharing).show_platforms,
+    });
+  });
+}
+
+/** "completed Chrono Trigger" / "completed 12 games" — the actor's name is rendered separately. */
+export function feedItemSentence(item: Pick<FeedItem, "kind" | "count" | "releases" | "archetype">): string {
+  const title = item.releases[0]?.title ?? "a game";
+  const many = item.count > 1;
+  switch (item.kind) {
+    case "completion":
+      return many ? `completed ${item.count} games` : `completed ${title}`;
+    case "mastery":
+      return many ? `earned ${item.count} platinums and 100%s` : `${masteryVerb(item.releases[0]?.label ?? null)} ${title}`;
+    case "memory":
+      return many ? `remembered ${item.count} games` : `remembers ${title}`;
+    case "archetype_shift":
+      return item.archetype?.from_label
+        ? `shifted from ${item.archetype.from_label} to ${item.archetype.to_label}`
+        : `is now a ${item.archetype?.to_label ?? "new archetype"}`;
+  }
+}
+
+async function loadEventsForKind(
+  admin: SupabaseClient,
+  kind: FeedEventKind,
+  userIds: string[],
+  before: { occurred_at: string; id: number } | null,
+  limit: number
+): Promise<FeedEventRow[]> {
+  const out: FeedEventRow[] = [];
+  for (let i = 0; i < userIds.length; i += IN_CHUNK) {
+    let q = admin
+      .from("user_activity_events")
+      .select("id, user_id, kind, release_id, payload, occurred_at")
+      .eq("kind", kind)
+      .in("user_id", userIds.slice(i, i + IN_CHUNK));
+    if (before) {
+      const t = `"${before.occurred_at}"`;
+      q = q.or(`occurred_at.lt.${t},and(occurred_at.eq.${t},id.lt.${before.id})`);
+    }
+    const { data, error } = await q
+      .order("occurred_at", { ascending: false })
+      .order("id", { ascending: false })
+      .limit(limit);
+    if (error) throw new Error(`user_activity_events: ${error.message}`);
+    out.push(...((data ?? []) as FeedEventRow[]));
+  }
+  return out;
+}
+
+/** The releases columns a feed item shows. */
+type ReleaseInfoRow = {
+  id: string;
+  display_title: string | null;
+  title: string | null;
+  platform_label: string | null;
+  cover_url: string | null;
+  cover_asset: CoverAssetRow | null;
+};
+
+async function loadReleaseInfo(admin: SupabaseClient, releaseIds: string[]): Promise<Map<string, ReleaseInfo>> {
+  const out = new Map<string, ReleaseInfo>();
+  const ids = [...new Set(releaseIds)];
+  for (let i = 0; i < ids.length; i += IN_CHUNK) {
+    const { data, error } = await admin
+      .from("releases")
+      .select<string, ReleaseInfoRow>(
+        `id, display_title, title, platform_label, cover_url, cover_asset:cover_asset_id (${COVER_ASSET_SELECT})`
+      )
+      .in("id", ids.slice(i, i + IN_CHUNK));
+    if (error) throw new Error(`releases: ${error.message}`);
+    for (const r of data ?? []) {
+      out.set(String(r.id), {
+        title: String(r.display_title ?? r.title ?? "Untitled"),
+        platform_label: r.platform_label ?? null,
+        cover_url: r.cover_url ?? null,
+        cover_image: coverImageFromAsset(r.cover_asset),
+      });
+    }
+  }
+  return out;
+}
+
+/**
+ * One page of the viewer's friends feed. The cursor walks raw events (occurred_at, id); groups are
+ * formed within the page, so a burst split across pages shows as two items.
+ */
+export async function loadFriendsFeed(
+  admin: SupabaseClient,
+  viewerId: string,
+  opts: { limit?: number; before?: string | null } = {}
+): Promise<FeedPage> {
+  const limit = Math.min(100, Math.max(1, opts.limit ?? 30));
+  const before = decodeFeedCursor(opts.before);
+
+  const followingIds = await loadFollowingIds(admin, viewerId);
+  if (!followingIds.length) return { items: [], next_cursor: null };
+
+  const profiles = (await loadSocialProfilesByIds(admin, followingIds)) as Map<string, SocialProfileRow>;
+  const usersByKind = new Map<FeedEventKind, string[]>(FEED_EVENT_KINDS.map((k) => [k, []]));
+  for (const [userId, p] of profiles) {
+    if (!isProfileVisible(p) || !toSocialUser(p)) continue;
+    for (const k of feedKindsAllowed(p.profile_sharing)) usersByKind.get(k)!.push(userId);
+  }
+
+  const events: FeedEventRow[] = [];
+  for (const [kind, ids] of usersByKind) {
+    if (ids.length) events.push(...(await loadEventsForKind(admin, kind, ids, before, limit + 1)));
+  }
+  events.sort(compareEvents);
+  const page = events.slice(0, limit);
+  const next_cursor = events.length > limit && page.length ? encodeFeedCursor(page[page.length - 1]) : null;
+
+  const releases = await loadReleaseInfo(
+    admin,
+    page.map((e) => e.release_id).filter((id): id is string => !!id)
+  );
+  return { items: buildFeedItems(page, profiles, releases), next_cursor };
+}
@@ -0,0 +1,252 @@
+/**
+ * Follow graph on user_follows (follower -> following). Following a public profile is accepted at
+ * once; an unlisted profile gets a pending request its owner approves or rejects; private (or not
+ * profile_public) profiles can't be followed and never appear in anyone's lists. Accepted edges
+ * feed the friends leaderboard (lib/leaderboard/ranks.ts) and the activity feed (./feed.ts).
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { isProfileVisible, profileVisibility } from "@/lib/profile/sharing";
+
+export type FollowStatus = "pending" | "accepted";
+export type FollowListKind = "followers" | "following";
+
+export type SocialProfileRow = {
+  user_id: string;
+  username: string | null;
+  display_name: string | null;
+  avatar_url: string | null;
+  profile_public: boolean | null;
+  profile_visibility: string | null;
+  profile_sharing: Record<string, unknown> | null;
+};
+
+export type SocialUser = {
+  username: string;
+  display_name: string | null;
+  avatar_url: string | null;
+};
+
+export type FollowListItem = SocialUser & { since: string };
+
+export type FollowSummary = {
+  followers: number;
+  following: number;
+  is_self: boolean;
+  /** Viewer -> profile edge, null when not following (or signed out). */
+  viewer_status: FollowStatus | null;
+  /** Profile -> viewer edge is accepted. */
+  follows_viewer: boolean;
+};
+
+export const SOCIAL_PROFILE_COLS =
+  "user_id, username, display_name, avatar_url, profile_public, profile_visibility, profile_sharing";
+
+const IN_CHUNK = 200;
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+function chunks<T>(arr: T[], size = IN_CHUNK): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < arr.length; i += size) out.push(arr.slice(i, i + size));
+  return out;
+}
+
+export function isFollowListKind(v: unknown): v is FollowListKind {
+  return v === "followers" || v === "following";
+}
+
+/** Status a new follow of this profile starts in. */
+export function initialFollowStatus(p: Pick<SocialProfileRow, "profile_visibility">): FollowStatus {
+  return profileVisibility(p) === "unlisted" ? "pending" : "accepted";
+}
+
+export function toSocialUser(p: SocialProfileRow): SocialUser | null {
+  if (!p.username) return null;
+  return { username: p.username, display_name: p.display_name ?? null, avatar_url: p.avatar_url ?? null };
+}
+
+export async function loadSocialProfile(admin: SupabaseClient, username: string): Promise<SocialProfileRow | null> {
+  const u = username.trim();
+  if (!u) return null;
+  const { data, error } = await admin
+    .from("profiles")
+    .select(SOCIAL_PROFILE_COLS)
+    .ilike("username", u)
+    .limit(1)
+    .maybeSingle();
+  if (error) throw new Error(`profiles: ${error.message}`);
+  return (data as SocialProfileRow | null) ?? null;
+}
+
+export async function loadSocialProfilesByIds(admin: SupabaseClient, userIds: string[]): Promise<Map<string, SocialProfileRow>> {
+  const out = new Map<string, SocialProfileRow>();
+  for (const part of chunks([...new Set(userIds)])) {
+    const { data, error } = await admin.from("profiles").select(SOCIAL_PROFILE_COLS).in("user_id", part);
+    if (error) throw new Error(`profiles: ${error.message}`);
+    for (const p of (data ?? []) as SocialProfileRow[]) out.set(String(p.user_id), p);
+  }
+  return out;
+}
+
+/** Users `userId` follows with the given status (accepted by default). */
+export async function loadFollowingIds(admin: SupabaseClient, userId: string, status: FollowStatus = "accepted"): Promise<string[]> {
+  const { data, error } = await admin
+    .from("user_follows")
+    .select("following_id")
+    .eq("follower_id", userId)
+    .eq("status", status);
+  if (error) throw new Error(`user_follows: ${error.message}`);
+  return ((data ?? []) as { following_id: string }[]).map((r) => String(r.following_id));
+}
+
+/**
+ * Follow `target`. An existing edge is left as is (a pending request is not re-sent, an accepted
+ * follow is not downgraded). Throws on a hidden profile or self-follow — routes check first.
+ */
+export async function followUser(admin: SupabaseClient, followerId: string, target: SocialProfileRow): Promise<FollowStatus> {
+  if (target.user_id === followerId) throw new Error("user_follows: cannot follow yourself");
+  if (!isProfileVisible(target)) throw new Error("user_follows: profile is not visible");
+
+  const { data: existing, error: exErr } = await admin
+    .from("user_follows")
+    .select("status")
+    .eq("follower_id", followerId)
+    .eq("following_id", target.user_id)
+    .maybeSingle();
+  if (exErr) throw new Error(`user_follows: ${exErr.message}`);
+  if (existing?.status) return existing.status as FollowStatus;
+
+  const status = initialFollowStatus(target);
+  const { error } = await admin.from("user_follows").insert({
+    follower_id: followerId,
+    following_id: target.user_id,
+    status,
+    created_at: nowIso(),
+    responded_at: status === "accepted" ? nowIso() : null,
+  });
+  if (error) throw new Error(`user_follows: ${error.message}`);
+  return status;
+}
+
+/** Unfollow, or withdraw a pending request. */
+export async function unfollowUser(admin: SupabaseClient, followerId: string, followingId: string): Promise<void> {
+  const { error } = await admin
+    .from("user_follows")
+    .delete()
+    .eq("follower_id", followerId)
+    .eq("following_id", followingId);
+  if (error) throw new Error(`user_follows: ${error.message}`);
+}
+
+/** Owner approves or rejects (deletes) a pending request. False when there was none. */
+export async function respondToFollowRequest(
+  admin: SupabaseClient,
+  ownerId: string,
+  followerId: string,
+  approve: boolean
+): Promise<boolean> {
+  const q = approve
+    ? admin.from("user_follows").update({ status: "accepted", responded_at: nowIso() })
+    : admin.from("user_follows").delete();
+  const { data, error } = await q
+    .eq("follower_id", followerId)
+    .eq("following_id", ownerId)
+    .eq("status", "pending")
+    .select("follower_id");
+  if (error) throw new Error(`user_follows: ${error.message}`);
+  return (data ?? []).length > 0;
+}
+
+async function countEdges(admin: SupabaseClient, col: "follower_id" | "following_id", userId: string): Promise<number> {
+  const { count, error } = await admin
+    .from("user_follows")
+    .select("follower_id", { count: "exact", head: true })
+    .eq(col, userId)
+    .eq("status", "accepted");
+  if (error) throw new Error(`user_follows: ${error.message}`);
+  return count ?? 0;
+}
+
+export async function loadFollowSummary(admin: SupabaseClient, userId: string, viewerId: string | null): Promise<FollowSummary> {
+  const [followers, following] = await Promise.all([
+    countEdges(admin, "following_id", userId),
+    countEdges(admin, "follower_id", userId),
+  ]);
+
+  let viewer_status: FollowStatus | null = null;
+  let follows_viewer = false;
+  if (viewerId && viewerId !== userId) {
+    const { data, error } = await admin
+      .from("user_follows")
+      .select("follower_id, following_id, status")
+      .or(
+        `and(follower_id.eq.${viewerId},following_id.eq.${userId}),and(follower_id.eq.${userId},following_id.eq.${viewerId})`
+      );
+    if (error) throw new Error(`user_follows: ${error.message}`);
+    for (const e of (data ?? []) as Array<{ follower_id: string; following_id: string; status: FollowStatus }>) {
+      if (e.follower_id === viewerId) viewer_status = e.status;
+      else if (e.status === "accepted") follows_viewer = true;
+    }
+  }
+
+  return { followers, following, is_self: viewerId === userId, viewer_status, follows_viewer };
+}
+
+/**
+ * Accepted followers / following of `userId`, newest first. People whose own profile is hidden are
+ * left out (the counts in loadFollowSummary still include them).
+ */
+export async function loadFollowList(
+  admin: SupabaseClient,
+  userId: string,
+  kind: FollowListKind,
+  opts: { limit?: number; offset?: number } = {}
+): Promise<FollowListItem[]> {
+  const limit = Math.min(100, Math.max(1, opts.limit ?? 50));
+  const offset = Math.max(0, opts.offset ?? 0);
+  const [selfCol, otherCol] = kind === "followers" ? ["following_id", "follower_id"] : ["follower_id", "following_id"];
+
+  const { data, error } = await admin
+    .from("user_follows")
+    .select<string, Record<string, string | null>>(`${otherCol}, created_at, responded_at`)
+    .eq(selfCol, userId)
+    .eq("status", "accepted")
+    .order("created_at", { ascending: false })
+    .range(offset, offset + limit - 1);
+  if (error) throw new Error(`user_follows: ${error.message}`);
+
+  const edges = data ?? [];
+  const profiles = await loadSocialProfilesByIds(admin, edges.map((e) => String(e[otherCol])));
+  const out: FollowListItem[] = [];
+  for (const e of edges) {
+    const p = profiles.get(String(e[otherCol]));
+    const user = p && isProfileVisible(p) ? toSocialUser(p) : null;
+    if (user) out.push({ ...user, since: String(e.responded_at ?? e.created_at) });
+  }
+  return out;
+}
+
+/** Pending requests to follow `userId` (for the owner to approve). */
+export async function loadFollowRequests(admin: SupabaseClient, userId: string): Promise<FollowListItem[]> {
+  const { data, error } = await admin
+    .from("user_follows")
+    .select("follower_id, created_at")
+    .eq("following_id", userId)
+    .eq("status", "pending")
+    .order("created_at", { ascending: false })
+    .limit(100);
+  if (error) throw new Error(`user_follows: ${error.message}`);
+
+  const edges = (data ?? []) as Array<{ follower_id: string; created_at: string }>;
+  const profiles = await loadSocialProfilesByIds(admin, edges.map((e) => e.follower_id));
+  const out: FollowListItem[] = [];
+  for (const e of edges) {
+    const p = profiles.get(String(e.follower_id));
+    const user = p ? toSocialUser(p) : null;
+    if (user) out.push({ ...user, since: e.created_at });
+  }
+  return out;
+}
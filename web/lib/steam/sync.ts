@@ -0,0 +1,276 @@
+// web/lib/steam/sync.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { ensureGameTitleOnly } from "@/lib/igdb/server";
+import { mergeReleaseInto } from "@/lib/merge-release-into";
+import { releaseExternalIdRow } from "@/lib/release-external-ids";
+import {
+  lookupGameId,
+  upsertGameExternalId,
+  gameExternalIdRow,
+} from "@/lib/game-external-ids";
+
+/**
+ * Steam thin sync steps shared by POST /api/sync/steam-thin and the job queue (lib/sync/jobs).
+ * Thin = library + playtime + last played + mappings; no IGDB (ensureGameTitleOnly only).
+ */
+
+export type SteamOwnedGame = {
+  appid: number;
+  name?: string;
+  playtime_forever?: number; // minutes
+  rtime_last_played?: number; // unix seconds
+};
+
+export function steamHeaderImage(appid: number) {
+  return `https://cdn.cloudflare.steamstatic.com/steam/apps/${appid}/header.jpg`;
+}
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+/**
+ * IPlayerService/GetOwnedGames for one steamid (include_appinfo + played free games).
+ */
+export async function fetchSteamOwnedGames(
+  key: string,
+  steamid: string
+): Promise<{ ok: boolean; status: number; games: SteamOwnedGame[]; detail: unknown }> {
+  const url =
+    `https://api.steampowered.com/IPlayerService/GetOwnedGames/v0001/` +
+    `?key=${encodeURIComponent(key)}` +
+    `&steamid=${encodeURIComponent(steamid)}` +
+    `&include_appinfo=1&include_played_free_games=1&format=json`;
+
+  const steamRes = await fetch(url, { cache: "no-store" });
+  const steamJson = await steamRes.json().catch(() => null);
+  const games: SteamOwnedGame[] =
+    Array.isArray(steamJson?.response?.games) ? steamJson.response.games : [];
+
+  return { ok: steamRes.ok, status: steamRes.status, games, detail: steamJson };
+}
+
+function steamGameFields(g: SteamOwnedGame) {
+  const appid = Number(g.appid);
+  return {
+    appid,
+    title: (g.name || `Steam App ${appid}`).trim(),
+    playtime: Number(g.playtime_forever || 0),
+    steamExternalId: String(appid),
+    incomingLastPlayed:
+      typeof g.rtime_last_played === "number" && g.rtime_last_played > 0
+        ? new Date(g.rtime_last_played * 1000).toISOString()
+        : null,
+  };
+}
+
+/**
+ * Mapping only: release_external_ids(source='steam', external_id=appid), else game (game_external_ids,
+ * then title-only) -> release -> mapping. `mapped` = mapping already existed.
+ */
+export async function mapSteamGameToRelease(
+  admin: SupabaseClient,
+  g: SteamOwnedGame
+): Promise<{ releaseId: string | null; mapped: boolean; releaseCreated: boolean; errors: string[] }> {
+  const result = { mapped: false, releaseCreated: false };
+  const errors: string[] = [];
+  const { appid, title, steamExternalId } = steamGameFields(g);
+
+  // 1) Ensure mapping exists: release_external_ids(source='steam', external_id=appid)
+  const { data: mapRow, error: mapErr } = await admin
+    .from("release_external_ids")
+    .select("release_id")
+    .eq("source", "steam")
+    .eq("external_id", steamExternalId)
+    .maybeSingle();
+
+  if (mapErr) {
+    errors.push(mapErr.message);
+    return { ...result, releaseId: null, errors };
+  }
+
+  let releaseId: string | null = mapRow?.release_id ? String(mapRow.release_id) : null;
+
+  if (releaseId) {
+    result.mapped = true;
+  } else {
+    // 2) No mapping: resolve game_id (game_external_ids first, then title-only), then release, then mapping
+    let gameId: string;
+    try {
+      const existingGameId = await lookupGameId(admin, "steam", steamExternalId);
+      if (existingGameId) {
+        gameId = existingGameId;
+      } else {
+        const res = await ensureGameTitleOnly(admin, title);
+        gameId = res.game_id;
+        await upsertGameExternalId(
+          admin,
+          gameExternalIdRow(gameId, "steam", steamExternalId, {
+            match_source: "title_only",
+            confidence: 0.8,
+          })
+        );
+      }
+    } catch (e) {
+      errors.push(e instanceof Error ? e.message : "game create failed");
+      return { ...result, releaseId: null, errors };
+    }
+
+    const { data: existingRelease } = await admin
+      .from("releases")
+      .select("id")
+      .eq("platform_key", "steam")
+      .eq("game_id", gameId)
+      .maybeSingle();
+
+    if (existingRelease?.id) {
+      releaseId = String(existingRelease.id);
+    } else {
+      const { data: newRelease, error: rErr } = await admin
+        .from("releases")
+        .insert({
+          game_id: gameId,
+          display_title: title,
+          platform_name: "Steam",
+          platform_key: "steam",
+          steam_appid: appid,
+          cover_url: steamHeaderImage(appid),
+        })
+        .select("id")
+        .single();
+
+      if (rErr) {
+        const code = (rErr as { code?: string })?.code;
+        if (code === "23505") {
+          const { data: raced } = await admin
+            .from("releases")
+            .select("id")
+            .eq("platform_key", "steam")
+            .eq("game_id", gameId)
+            .maybeSingle();
+          if (raced?.id) releaseId = String(raced.id);
+          else {
+            errors.push(String(rErr.message));
+            return { ...result, releaseId: null, errors };
+          }
+        } else {
+          errors.push(String(rErr.message));
+          return { ...result, releaseId: null, errors };
+        }
+      } else if (newRelease?.id) {
+        releaseId = String(newRelease.id);
+        result.releaseCreated = true;
+      } else {
+        return { ...result, releaseId: null, errors };
+      }
+    }
+
+    await admin
+      .from("release_external_ids")
+      .upsert(releaseExternalIdRow(releaseId, "steam", steamExternalId), {
+        onConflict: "source,external_id",
+        ignoreDuplicates: true,
+      });
+
+    const { data: currentMap } = await admin
+      .from("release_external_ids")
+      .select("release_id")
+      .eq("source", "steam")
+      .eq("external_id", steamExternalId)
+      .maybeSingle();
+
+    if (currentMap?.release_id && String(currentMap.release_id) !== releaseId) {
+      await mergeReleaseInto(admin, String(currentMap.release_id), releaseId);
+      releaseId = String(currentMap.release_id);
+    }
+  }
+
+  return { ...result, releaseId, errors };
+}
+
+/**
+ * steam_title_progress, portfolio_entries (playtime/last played only ever move forward) and
+ * release_enrichment_state for a mapped game.
+ */
+export async function upsertSteamGameProgress(
+  admin: SupabaseClient,
+  supabaseUser: SupabaseClient,
+  userId: string,
+  g: SteamOwnedGame,
+  releaseId: string
+): Promise<{ portfolioUpserted: boolean; enrichmentStateUpserted: boolean; errors: string[] }> {
+  const result = { portfolioUpserted: false, enrichmentStateUpserted: false };
+  const errors: string[] = [];
+  const { title, playtime, steamExternalId, incomingLastPlayed } = steamGameFields(g);
+
+  // 3) steam_title_progress (playtime + last_updated for gamehome/release page)
+  await admin
+    .from("steam_title_progress")
+    .upsert(
+      {
+        user_id: userId,
+        release_id: releaseId,
+        steam_appid: steamExternalId,
+        title_name: title,
+        playtime_minutes: playtime,
+        last_updated_at: nowIso(),
+      },
+      { onConflict: "user_id,release_id" }
+    );
+
+  // 4) Create/ensure portfolio_entries + update playtime_minutes and last_played_at
+  const { data: existingEntry } = await supabaseUser
+    .from("portfolio_entries")
+    .select("user_id, release_id, playtime_minutes, last_played_at")
+    .eq("user_id", userId)
+    .eq("release_id", releaseId)
+    .maybeSingle();
+
+  if (!existingEntry) {
+    const { error: insErr } = await supabaseUser.from("portfolio_entries").insert({
+      user_id: userId,
+      release_id: releaseId,
+      status: "owned",
+      playtime_minutes: playtime,
+      last_played_at: incomingLastPlayed,
+      updated_at: nowIso(),
+    });
+    if (!insErr) result.portfolioUpserted = true;
+    else errors.push(insErr.message);
+  } else {
+    const currentPlaytime = Number(existingEntry.playtime_minutes ?? 0);
+    const nextPlaytime = Math.max(currentPlaytime, playtime);
+    let nextLastPlayed = (existingEntry.last_played_at as string | null) ?? null;
+    if (incomingLastPlayed) {
+      if (!nextLastPlayed || new Date(incomingLastPlayed) > new Date(nextLastPlayed)) {
+        nextLastPlayed = incomingLastPlayed;
+      }
+    }
+    const { error: updErr } = await supabaseUser
+      .from("portfolio_entries")
+      .update({
+        playtime_minutes: nextPlaytime,
+        last_played_at: nextLastPlayed,
+        updated_at: nowIso(),
+      })
+      .eq("user_id", userId)
+      .eq("release_id", releaseId);
+    if (!updErr) result.portfolioUpserted = true;
+    else errors.push(updErr.message);
+  }
+
+  // 5) Insert/update release_enrichment_state so enrichment can pick it up
+  const { error: enrichErr } = await admin
+    .from("release_enrichment_state")
+    .upsert(
+      {
+        release_id: releaseId,
+        source: "steam",
+        updated_at: nowIso(),
+      },
+      { onConflict: "release_id" }
+    );
+  if (!enrichErr) result.enrichmentStateUpserted = true;
+
+  return { ...result, errors };
+}
@@ -0,0 +1,124 @@
+/**
+ * Nintendo Switch play activity from the Nintendo Account data export. Pure parsing: runs in the
+ * browser before upload and in the import route for raw file uploads.
+ *
+ * Accepted shapes:
+ *   { playHistories: [{ titleId, titleName, imageUrl, firstPlayedAt, lastPlayedAt, totalPlayedMinutes }] }
+ *     — per-title totals (account play history)
+ *   [{ titleId, titleName, startedAt|playedAt, endedAt?, playedMinutes|durationMinutes? }, ...]
+ *     — per-session events, summed per title
+ * Either may be wrapped in another object ({ data: ... }, { playActivity: ... }).
+ */
+
+export type SwitchPlayedTitle = {
+  /** 16-hex-digit application id, upper-case (e.g. 0100F2C0115B6000). */
+  title_id: string;
+  title: string;
+  image_url: string | null;
+  playtime_minutes: number;
+  first_played_at: string | null;
+  last_played_at: string | null;
+};
+
+const TITLE_ID_RE = /^[0-9A-F]{16}$/;
+
+export function normalizeSwitchTitleId(v: unknown): string | null {
+  const s = String(v ?? "").trim().toUpperCase().replace(/^0X/, "");
+  return TITLE_ID_RE.test(s) ? s : null;
+}
+
+function toIso(v: unknown): string | null {
+  if (v == null || v === "") return null;
+  const d = typeof v === "number" ? new Date(v < 1e12 ? v * 1000 : v) : new Date(String(v));
+  return Number.isNaN(d.getTime()) ? null : d.toISOString();
+}
+
+function minutes(v: unknown): number {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : 0;
+}
+
+function minIso(a: string | null, b: string | null) {
+  if (!a) return b;
+  if (!b) return a;
+  return a < b ? a : b;
+}
+
+function maxIso(a: string | null, b: string | null) {
+  if (!a) return b;
+  if (!b) return a;
+  return a > b ? a : b;
+}
+
+const ENTRY_KEYS = ["playHistories", "play_histories", "playActivity", "play_activity", "titles", "events"];
+
+function hasTitleId(e: unknown) {
+  return !!e && typeof e === "object" && ("titleId" in e || "title_id" in e);
+}
+
+/** The entry array: a known key, or the first nested array whose items carry a titleId. */
+function findEntries(json: unknown, depth = 0): unknown[] | null {
+  if (Array.isArray(json)) return json;
+  if (!json || typeof json !== "object" || depth > 2) return null;
+  const obj = json as Record<string, unknown>;
+  for (const key of ENTRY_KEYS) {
+    const v = obj[key];
+    if (Array.isArray(v)) return v;
+  }
+  for (const v of Object.values(obj)) {
+    const inner = findEntries(v, depth + 1);
+    if (inner?.some(hasTitleId)) return inner;
+  }
+  return null;
+}
+
+/** Merge per-title totals and per-session events into one row per title id. */
+export function parseSwitchPlayActivity(json: unknown): SwitchPlayedTitle[] {
+  const entries = findEntries(json);
+  if (!entries) throw new Error("Not a Nintendo play activity export (no playHistories / titleId entries found)");
+
+  const byId = new Map<string, SwitchPlayedTitle>();
+  for (const entry of entries) {
+    if (!entry || typeof entry !== "object") continue;
+    const e = entry as Record<string, unknown>;
+    const id = normalizeSwitchTitleId(e?.titleId ?? e?.title_id ?? e?.applicationId);
+    if (!id) continue;
+
+    const start = toIso(e?.firstPlayedAt ?? e?.startedAt ?? e?.playedAt ?? e?.started_at ?? e?.played_at);
+    const end = toIso(e?.lastPlayedAt ?? e?.endedAt ?? e?.ended_at ?? e?.playedAt ?? e?.startedAt);
+    const mins = minutes(e?.totalPlayedMinutes ?? e?.playedMinutes ?? e?.durationMinutes ?? e?.playtime_minutes);
+    const name = String(e?.titleName ?? e?.title_name ?? e?.name ?? "").trim();
+
+    const prev = byId.get(id);
+    byId.set(id, {
+      title_id: id,
+      title: prev?.title || name || `Switch title ${id}`,
+      image_url: prev?.image_url ?? (typeof e?.imageUrl === "string" ? e.imageUrl : null),
+      // Totals rows carry the whole history; session rows add up.
+      playtime_minutes: e?.totalPlayedMinutes != null ? Math.max(prev?.playtime_minutes ?? 0, mins) : (prev?.playtime_minutes ?? 0) + mins,
+      first_played_at: minIso(prev?.first_played_at ?? null, start),
+      last_played_at: maxIso(prev?.last_played_at ?? null, end),
+    });
+  }
+
+  return [...byId.values()];
+}
+
+/** Validate titles posted by the browser (already parsed client-side). */
+export function normalizeSwitchTitles(input: unknown): SwitchPlayedTitle[] | null {
+  if (!Array.isArray(input)) return null;
+  const out: SwitchPlayedTitle[] = [];
+  for (const t of input) {
+    const id = normalizeSwitchTitleId(t?.title_id);
+    if (!id) return null;
+    out.push({
+      title_id: id,
+      title: String(t?.title ?? "").trim() || `Switch title ${id}`,
+      image_url: typeof t?.image_url === "string" && /^https:\/\//.test(t.image_url) ? t.image_url : null,
+      playtime_minutes: minutes(t?.playtime_minutes),
+      first_played_at: toIso(t?.first_played_at),
+      last_played_at: toIso(t?.last_played_at),
+    });
+  }
+  return out;
+}
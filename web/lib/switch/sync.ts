@@ -0,0 +1,199 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { mergeReleaseInto } from "@/lib/merge-release-into";
+import { releaseExternalIdRow } from "@/lib/release-external-ids";
+import { getOrCreateGameForSync, upsertGameMasterMappingIngest } from "@/lib/sync-game-resolve";
+import type { SwitchPlayedTitle } from "./play-activity";
+
+/**
+ * Per-title Switch import steps used by the Switch connector (lib/sync/connectors/switch.ts).
+ * Order: release_external_ids -> game -> release -> mapping -> switch_title_progress -> portfolio_entries.
+ * New titles get a title-only game and a game_match_queue row (via getOrCreateGameForSync), so the
+ * matcher worker resolves them to IGDB like every other platform.
+ */
+
+const SWITCH_PLATFORM_KEY = "switch";
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+export type SwitchTitleSyncResult =
+  | { ok: true; releaseId: string; created: boolean }
+  | { ok: false; error: string };
+
+export async function mapSwitchTitleToRelease(admin: SupabaseClient, t: SwitchPlayedTitle): Promise<SwitchTitleSyncResult> {
+  const externalId = t.title_id;
+  const title = t.title;
+
+  const { data: mapRow, error: mapErr } = await admin
+    .from("release_external_ids")
+    .select("release_id")
+    .eq("source", "switch")
+    .eq("external_id", externalId)
+    .maybeSingle();
+
+  if (mapErr) return { ok: false, error: `release_external_ids lookup: ${mapErr.message}` };
+  if (mapRow?.release_id) return { ok: true, releaseId: String(mapRow.release_id), created: false };
+
+  await upsertGameMasterMappingIngest(admin, {
+    source: "switch",
+    external_id: externalId,
+    source_title: title,
+    source_platform: "Nintendo Switch",
+    source_cover_url: t.image_url,
+  });
+
+  let gameId: string;
+  try {
+    const res = await getOrCreateGameForSync(admin, {
+      source: "switch",
+      external_id: externalId,
+      raw_title: title,
+      platform_key: SWITCH_PLATFORM_KEY,
+    });
+    gameId = res.game_id;
+  } catch (e) {
+    return { ok: false, error: `game for ${title}: ${e instanceof Error ? e.message : "unknown"}` };
+  }
+
+  let releaseId: string | null = null;
+  let created = false;
+
+  const { data: existingRelease, error: findErr } = await admin
+    .from("releases")
+    .select("id")
+    .eq("platform_key", SWITCH_PLATFORM_KEY)
+    .eq("game_id", gameId)
+    .maybeSingle();
+
+  if (findErr) return { ok: false, error: `release lookup: ${findErr.message}` };
+
+  if (existingRelease?.id) {
+    releaseId = String(existingRelease.id);
+  } else {
+    const { data: newRelease, error: rErr } = await admin
+      .from("releases")
+      .insert({
+        game_id: gameId,
+        display_title: title,
+        platform_name: "Nintendo Switch",
+        platform_key: SWITCH_PLATFORM_KEY,
+        cover_url: t.image_url,
+      })
+      .select("id")
+      .single();
+
+    if (rErr) {
+      const code = (rErr as { code?: string })?.code;
+      if (code !== "23505") return { ok: false, error: `release insert ${title}: ${rErr.message}` };
+      const { data: raced } = await admin
+        .from("releases")
+        .select("id")
+        .eq("platform_key", SWITCH_PLATFORM_KEY)
+        .eq("game_id", gameId)
+        .maybeSingle();
+      if (!raced?.id) return { ok: false, error: `release 23505 but no row for ${title}` };
+      releaseId = String(raced.id);
+    } else if (newRelease?.id) {
+      releaseId = String(newRelease.id);
+      created = true;
+    } else {
+      return { ok: false, error: `release insert ${title}: no id returned` };
+    }
+  }
+
+  await admin
+    .from("release_external_ids")
+    .upsert(releaseExternalIdRow(releaseId, "switch", externalId), {
+      onConflict: "source,external_id",
+      ignoreDuplicates: true,
+    });
+
+  const { data: currentMap } = await admin
+    .from("release_external_ids")
+    .select("release_id")
+    .eq("source", "switch")
+    .eq("external_id", externalId)
+    .maybeSingle();
+
+  if (currentMap?.release_id && String(currentMap.release_id) !== releaseId) {
+    await mergeReleaseInto(admin, String(currentMap.release_id), releaseId);
+    releaseId = String(currentMap.release_id);
+  }
+
+  return { ok: true, releaseId, created };
+}
+
+/**
+ * switch_title_progress + portfolio_entries for a mapped title. Playtime and last played only move
+ * forward and first played only moves back, so an older export never rolls anything back.
+ */
+export async function upsertSwitchTitleProgress(
+  admin: SupabaseClient,
+  userId: string,
+  t: SwitchPlayedTitle,
+  releaseId: string
+): Promise<{ portfolioInserted: boolean }> {
+  const { error: progErr } = await admin
+    .from("switch_title_progress")
+    .upsert(
+      {
+        user_id: userId,
+        release_id: releaseId,
+        title_id: t.title_id,
+        title_name: t.title,
+        playtime_minutes: t.playtime_minutes,
+        first_played_at: t.first_played_at,
+        last_played_at: t.last_played_at,
+        last_updated_at: nowIso(),
+        updated_at: nowIso(),
+      },
+      { onConflict: "user_id,title_id" }
+    );
+  if (progErr) throw new Error(`switch_title_progress upsert: ${progErr.message}`);
+
+  const { data: existingEntry } = await admin
+    .from("portfolio_entries")
+    .select("user_id, release_id, playtime_minutes, first_played_at, last_played_at")
+    .eq("user_id", userId)
+    .eq("release_id", releaseId)
+    .maybeSingle();
+
+  if (!existingEntry) {
+    const { error: insErr } = await admin.from("portfolio_entries").insert({
+      user_id: userId,
+      release_id: releaseId,
+      status: "owned",
+      playtime_minutes: t.playtime_minutes,
+      first_played_at: t.first_played_at,
+      last_played_at: t.last_played_at,
+      updated_at: nowIso(),
+    });
+    if (insErr) throw new Error(`portfolio_entries insert: ${insErr.message}`);
+    return { portfolioInserted: true };
+  }
+
+  const nextPlaytime = Math.max(Number(existingEntry.playtime_minutes ?? 0), t.playtime_minutes);
+  let nextFirstPlayed = (existingEntry.first_played_at as string | null) ?? null;
+  if (t.first_played_at && (!nextFirstPlayed || new Date(t.first_played_at) < new Date(nextFirstPlayed))) {
+    nextFirstPlayed = t.first_played_at;
+  }
+  let nextLastPlayed = (existingEntry.last_played_at as string | null) ?? null;
+  if (t.last_played_at && (!nextLastPlayed || new Date(t.last_played_at) > new Date(nextLastPlayed))) {
+    nextLastPlayed = t.last_played_at;
+  }
+
+  const { error: updErr } = await admin
+    .from("portfolio_entries")
+    .update({
+      playtime_minutes: nextPlaytime,
+      first_played_at: nextFirstPlayed,
+      last_played_at: nextLastPlayed,
+      updated_at: nowIso(),
+    })
+    .eq("user_id", userId)
+    .eq("release_id", releaseId);
+  if (updErr) throw new Error(`portfolio_entries update: ${updErr.message}`);
+
+  return { portfolioInserted: false };
+}
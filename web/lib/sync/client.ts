@@ -0,0 +1,101 @@
+import type { SyncJob, SyncJobOptions } from "@/lib/sync/jobs";
+import type { SyncPlatform } from "@/lib/sync/record-run";
+
+/**
+ * Browser side of the resumable sync queue: queue a job with POST /api/sync/jobs, then call
+ * POST /api/sync/jobs/[id]/run (one ~45s budget each) until it finishes. Between runs the job may
+ * be in retry backoff or locked by the cron worker; we wait and poll again instead of giving up.
+ */
+
+export type SyncJobView = Omit<SyncJob, "user_id" | "cursor" | "items" | "locked_at" | "locked_by">;
+
+const POLL_MIN_MS = 2_000;
+const POLL_MAX_MS = 15_000;
+
+function isFinished(job: Pick<SyncJob, "status">): boolean {
+  return job.status === "ok" || job.status === "error" || job.status === "cancelled";
+}
+
+type JobResponse = { ok?: boolean; error?: string; job?: SyncJobView | null; ran?: boolean };
+
+async function postJob(url: string, body?: unknown): Promise<JobResponse> {
+  const res = await fetch(url, {
+    method: "POST",
+    credentials: "include",
+    ...(body !== undefined ? { headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) } : {}),
+  });
+  const data = (await res.json().catch(() => ({}))) as JobResponse;
+  if (!res.ok || data.ok === false) throw new Error(data.error || res.statusText);
+  if (!data.job) throw new Error("Sync job not found");
+  return data;
+}
+
+/** How long to wait before polling a job nobody ran this time (backoff until next_run_at, or the worker). */
+export function syncPollDelayMs(job: Pick<SyncJob, "next_run_at">, nowMs: number): number {
+  const due = new Date(job.next_run_at).getTime() - nowMs;
+  return Math.min(POLL_MAX_MS, Math.max(POLL_MIN_MS, Number.isFinite(due) ? due : 0));
+}
+
+/**
+ * Queue a sync for `platform` (or join the one already queued) and drive it to the end.
+ * Resolves with the finished job; `onUpdate` sees it after every run.
+ */
+export async function runQueuedSync(
+  platform: SyncPlatform,
+  opts: SyncJobOptions & { onUpdate?: (job: SyncJobView) => void } = {}
+): Promise<SyncJobView> {
+  let job = (await postJob("/api/sync/jobs", { platform, full: opts.full === true })).job as SyncJobView;
+  opts.onUpdate?.(job);
+
+  while (!isFinished(job)) {
+    const data = await postJob(`/api/sync/jobs/${job.id}/run`);
+    job = data.job as SyncJobView;
+    opts.onUpdate?.(job);
+    if (!data.ran && !isFinished(job)) {
+      await new Promise((resolve) => setTimeout(resolve, syncPollDelayMs(job, Date.now())));
+    }
+  }
+  return job;
+}
+
+/**
+ * A finished job's result counters in the shape the single-request /api/sync/* routes return, so
+ * callers can show either one the same way.
+ */
+export function syncJobResultPayload(platform: SyncPlatform, result: Record<string, unknown> | null): Record<string, unknown> {
+  const r = result ?? {};
+  const n = (k: string) => Number(r[k] ?? 0);
+  const errors = Array.isArray(r.errors_sample) ? (r.errors_sample as string[]) : [];
+  const common = { ok: true, total: n("total"), skipped: n("skipped"), errors: errors.length ? errors : undefined };
+
+  switch (platform) {
+    case "psn":
+      return {
+        ...common,
+        played: { total: n("played_total") },
+        trophies: { total: n("trophies_total") },
+        trophy_groups: { unique_titles: n("achievement_keys") },
+        releases_touched: n("releases_touched"),
+      };
+    case "xbox":
+      return {
+        ...common,
+        imported: n("imported"),
+        updated: n("updated"),
+        processed: n("imported") + n("updated"),
+        gamertag: r.gamertag ?? null,
+        warning: n("errors") > 0 ? `${n("errors")} titles failed to sync` : undefined,
+      };
+    case "steam":
+      return {
+        ...common,
+        mapped: n("mapped"),
+        releases_created: n("releases_created"),
+        portfolio_upserted: n("portfolio_upserted"),
+      };
+    case "ra":
+      return { ...common, imported: n("imported"), username: r.username ?? null };
+    default:
+      return { ...common, imported: n("imported"), updated: n("updated") };
+  }
+}
@@ -0,0 +1,69 @@
+import { normalizeGogGames, type GogOwnedGame } from "@/lib/gog/galaxy-db";
+import { mapGogGameToRelease, upsertGogGameProgress } from "@/lib/gog/sync";
+import type { PlatformConnector } from "./types";
+
+type GogSession = { games: GogOwnedGame[]; uploadedAt: string | null; skippedOtherPlatforms: number };
+
+/**
+ * GOG: no public library API, so the source is the user's last uploaded GOG Galaxy export
+ * (gog_library_uploads, written by POST /api/sync/gog). Re-running re-imports that snapshot.
+ */
+export const gogConnector: PlatformConnector<GogSession, GogOwnedGame> = {
+  platform: "gog",
+  label: "GOG",
+
+  async authenticate(ctx) {
+    const { data: upload, error } = await ctx.admin
+      .from("gog_library_uploads")
+      .select("games, skipped_other_platforms, uploaded_at")
+      .eq("user_id", ctx.userId)
+      .maybeSingle();
+
+    if (error) return { ok: false, error: error.message, status: 500 };
+    const games = normalizeGogGames(upload?.games);
+    if (!upload || !games) {
+      return { ok: false, error: "No GOG library uploaded (upload your GOG Galaxy database first)", status: 400 };
+    }
+
+    return {
+      ok: true,
+      session: {
+        games,
+        uploadedAt: upload.uploaded_at ?? null,
+        skippedOtherPlatforms: Number(upload.skipped_other_platforms ?? 0),
+      },
+    };
+  },
+
+  async listTitles(_ctx, session) {
+    return {
+      ok: true,
+      titles: session.games,
+      meta: { uploaded_at: session.uploadedAt, skipped_other_platforms: session.skippedOtherPlatforms },
+    };
+  },
+
+  titleLabel: (g) => g.title || g.product_id,
+
+  async mapToRelease(ctx, g) {
+    const res = await mapGogGameToRelease(ctx.admin, g);
+    if (!res.ok) throw new Error(res.error);
+    return { releaseId: res.releaseId, created: res.created };
+  },
+
+  async fetchProgress(ctx, g, release) {
+    if (!release) return {};
+    const res = await upsertGogGameProgress(ctx.admin, ctx.userId, g, release.releaseId);
+    return release.created || res.portfolioInserted ? { imported: 1 } : { updated: 1 };
+  },
+
+  async finalize(ctx, run) {
+    const nowIso = new Date().toISOString();
+    const { error } = await ctx.admin
+      .from("profiles")
+      .update({ gog_last_synced_at: nowIso, gog_last_sync_count: run.total, updated_at: nowIso })
+      .eq("user_id", ctx.userId);
+
+    if (error) throw new Error(`Failed to update profile sync stamp: ${error.message}`);
+  },
+};
@@ -0,0 +1,20 @@
+import type { SyncPlatform } from "@/lib/sync/record-run";
+import type { PlatformConnector } from "./types";
+import { psnConnector } from "./psn";
+import { xboxConnector } from "./xbox";
+import { steamConnector } from "./steam";
+import { raConnector } from "./ra";
+import { gogConnector } from "./gog";
+import { switchConnector } from "./switch";
+
+export type { PlatformConnector, ConnectorContext } from "./types";
+
+/** Registry the sync engine drives. New platform: add its connector here. */
+export const SYNC_CONNECTORS: Record<SyncPlatform, PlatformConnector> = {
+  psn: psnConnector,
+  xbox: xboxConnector,
+  steam: steamConnector,
+  ra: raConnector,
+  gog: gogConnector,
+  switch: switchConnector,
+};
@@ -0,0 +1,133 @@
+import { getUserPlayedGames, getUserTrophyTitlesPaged } from "@/lib/psn/server";
+import {
+  mapPsnTitleToRelease,
+  type PsnPlayedRow,
+  type PsnTrophyTitleRow,
+  psnPlayedTitleInfo,
+  psnTrophyTitleInfo,
+  resolvePsnSession,
+  syncPsnTrophyGroups,
+  upsertPsnTitleProgress,
+} from "@/lib/psn/sync";
+import type { PlatformConnector } from "./types";
+
+type PsnSession = { accessToken: string; accountId: string };
+
+/** One row from either feed; rows keep only the fields psn*TitleInfo reads. */
+export type PsnTitle = { feed: "played"; row: PsnPlayedRow } | { feed: "trophies"; row: PsnTrophyTitleRow };
+
+type PsnTrophyTitle = Extract<PsnTitle, { feed: "trophies" }>;
+
+function titleInfo(t: PsnTitle) {
+  return t.feed === "played" ? psnPlayedTitleInfo(t.row) : psnTrophyTitleInfo(t.row);
+}
+
+export const psnConnector: PlatformConnector<PsnSession, PsnTitle> = {
+  platform: "psn",
+  label: "PlayStation Network",
+
+  async authenticate(ctx) {
+    const session = await resolvePsnSession(ctx.admin, ctx.userId);
+    if (!session.ok) return session;
+    return { ok: true, session: { accessToken: session.accessToken, accountId: session.accountId } };
+  },
+
+  async listTitles(_ctx, session) {
+    const played = await getUserPlayedGames(session.accessToken, session.accountId);
+    const trophies = await getUserTrophyTitlesPaged(session.accessToken, session.accountId);
+    const playedRows = Array.isArray(played) ? played : [];
+    const trophyRows = Array.isArray(trophies) ? trophies : [];
+
+    return {
+      ok: true,
+      titles: [
+        ...playedRows.map((g: PsnPlayedRow): PsnTitle => ({
+          feed: "played",
+          row: {
+            name: g?.name,
+            titleId: g?.titleId,
+            playDuration: g?.playDuration,
+            lastPlayedDateTime: g?.lastPlayedDateTime,
+          },
+        })),
+        ...trophyRows.map((t: PsnTrophyTitleRow): PsnTitle => ({
+          feed: "trophies",
+          row: {
+            trophyTitleName: t?.trophyTitleName,
+            trophyTitlePlatform: t?.trophyTitlePlatform,
+            npCommunicationId: t?.npCommunicationId,
+            progress: t?.progress,
+            earnedTrophies: t?.earnedTrophies,
+            definedTrophies: t?.definedTrophies,
+            trophyTitleIconUrl: t?.trophyTitleIconUrl,
+            lastUpdatedDateTime: t?.lastUpdatedDateTime,
+          },
+        })),
+      ],
+      meta: { played_total: playedRows.length, trophies_total: trophyRows.length },
+    };
+  },
+
+  titleLabel: (t) =>
+    String((t.feed === "played" ? t.row.name ?? t.row.titleId : t.row.trophyTitleName ?? t.row.npCommunicationId) ?? "?"),
+
+  delta: {
+    watermark: "psn",
+    changedAt: (t) => (t.feed === "played" ? t.row.lastPlayedDateTime : t.row.lastUpdatedDateTime) ?? null,
+  },
+
+  async mapToRelease(ctx, t) {
+    const info = titleInfo(t);
+    if (!info) return null;
+    return { releaseId: await mapPsnTitleToRelease(ctx.admin, info), created: false };
+  },
+
+  async fetchProgress(ctx, t, release) {
+    const info = titleInfo(t);
+    if (!info || !release) return {};
+    const res = await upsertPsnTitleProgress(ctx.admin, ctx.userId, info, release.releaseId);
+    return {
+      releases_touched: 1,
+      [`${t.feed}_imported`]: res.inserted ? 1 : 0,
+      [`${t.feed}_updated`]: res.updated ? 1 : 0,
+    };
+  },
+
+  // Trophy group chips (Minimap-style) — only real npCommunicationIds; synthetic IDs won't work.
+  fetchAchievements: {
+    keys: (titles) =>
+      Array.from(
+        new Set(
+          titles
+            .filter((t): t is PsnTrophyTitle => t.feed === "trophies")
+            .map((t) => String(t.row.npCommunicationId ?? "").trim())
+            .filter(Boolean)
+        )
+      ),
+    async fetch(ctx, session, npId) {
+      try {
+        return {
+          groups_imported: await syncPsnTrophyGroups(ctx.admin, ctx.userId, session.accessToken, session.accountId, npId),
+        };
+      } catch (err) {
+        console.error(`[PSN Sync] Error fetching trophy groups for ${npId}:`, err instanceof Error ? err.message : err);
+        // Continue with other titles even if one fails
+        return {};
+      }
+    },
+  },
+
+  async finalize(ctx, run) {
+    const lastCount = Math.max(Number(run.meta.played_total ?? 0), Number(run.meta.trophies_total ?? 0));
+    const { error } = await ctx.admin
+      .from("profiles")
+      .update({
+        psn_last_synced_at: new Date().toISOString(),
+        psn_last_sync_count: lastCount,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("user_id", ctx.userId);
+
+    if (error) throw new Error(`Failed to update profile sync stamp: ${error.message}`);
+  },
+};
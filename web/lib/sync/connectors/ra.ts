@@ -0,0 +1,78 @@
+import { applyRaDefaultPlayedOn, getRecentGames, raProgressRows, type RaProgressRow } from "@/lib/ra/sync";
+import type { PlatformConnector } from "./types";
+
+type RaSession = { username: string; apiKey: string };
+
+/**
+ * RetroAchievements: recent games -> ra_game_progress. Release mapping is user-driven
+ * (/api/ra/map), so mapToRelease is a no-op here.
+ */
+export const raConnector: PlatformConnector<RaSession, RaProgressRow> = {
+  platform: "ra",
+  label: "RetroAchievements",
+
+  async authenticate(ctx) {
+    const { data: profile, error } = await ctx.admin
+      .from("profiles")
+      .select("ra_username, ra_api_key")
+      .eq("user_id", ctx.userId)
+      .maybeSingle();
+
+    if (error) return { ok: false, error: error.message, status: 500 };
+
+    const username = String(profile?.ra_username ?? "").trim();
+    const apiKey = String(profile?.ra_api_key ?? "").trim();
+    if (!username || !apiKey) {
+      return {
+        ok: false,
+        error: "RetroAchievements not connected (missing ra_username / ra_api_key in profiles)",
+        status: 400,
+      };
+    }
+
+    return { ok: true, session: { username, apiKey } };
+  },
+
+  async listTitles(ctx, session) {
+    const recent = await getRecentGames({ username: session.username, apiKey: session.apiKey, max: 200 });
+    return {
+      ok: true,
+      titles: raProgressRows(recent, ctx.userId, new Date().toISOString()),
+      meta: { username: session.username },
+    };
+  },
+
+  titleLabel: (r) => String(r.ra_game_id),
+
+  async mapToRelease() {
+    return null;
+  },
+
+  async fetchProgress(ctx, row) {
+    // Requires unique on (user_id, ra_game_id)
+    const { error } = await ctx.admin.from("ra_game_progress").upsert(row, { onConflict: "user_id,ra_game_id" });
+    if (error) throw new Error(error.message);
+    return { imported: 1 };
+  },
+
+  async finalize(ctx, run) {
+    // Auto-default played-on for each mapped release (idempotent; skips if manual/RA primary exists)
+    const { data: profile } = await ctx.admin
+      .from("profiles")
+      .select("default_ra_hardware_id")
+      .eq("user_id", ctx.userId)
+      .maybeSingle();
+
+    const defaultHardwareId = profile?.default_ra_hardware_id ?? null;
+    if (defaultHardwareId && run.titles.length) {
+      const raGameIds = [...new Set(run.titles.map((r) => String(r.ra_game_id)))];
+      await applyRaDefaultPlayedOn(ctx.admin, ctx.userId, defaultHardwareId, raGameIds);
+    }
+
+    const nowIso = new Date().toISOString();
+    await ctx.admin
+      .from("profiles")
+      .update({ ra_last_synced_at: nowIso, ra_last_sync_count: run.total, updated_at: nowIso })
+      .eq("user_id", ctx.userId);
+  },
+};
@@ -0,0 +1,97 @@
+import {
+  fetchSteamOwnedGames,
+  mapSteamGameToRelease,
+  upsertSteamGameProgress,
+  type SteamOwnedGame,
+} from "@/lib/steam/sync";
+import { loadKnownSteamAppids } from "@/lib/sync/watermark";
+import type { PlatformConnector } from "./types";
+
+type SteamSession = { key: string; steamid: string };
+
+/** Thin sync: library + playtime + last played + mappings; no IGDB (see lib/steam/sync.ts). */
+export const steamConnector: PlatformConnector<SteamSession, SteamOwnedGame> = {
+  platform: "steam",
+  label: "Steam",
+
+  async authenticate(ctx) {
+    const { data: profile, error } = await ctx.admin
+      .from("profiles")
+      .select("steam_id")
+      .eq("user_id", ctx.userId)
+      .maybeSingle();
+
+    if (error) return { ok: false, error: error.message, status: 500 };
+    const steamid = String(profile?.steam_id ?? "").trim();
+    if (!steamid) return { ok: false, error: "Steam not connected", status: 400 };
+
+    const key = process.env.STEAM_WEB_API_KEY;
+    if (!key) return { ok: false, error: "Missing STEAM_WEB_API_KEY in env", status: 500 };
+
+    return { ok: true, session: { key, steamid } };
+  },
+
+  async listTitles(_ctx, session) {
+    const res = await fetchSteamOwnedGames(session.key, session.steamid);
+    if (!res.ok) return { ok: false, error: `Steam API failed (${res.status})`, status: 500, detail: res.detail };
+
+    return {
+      ok: true,
+      titles: res.games.map((g) => ({
+        appid: g.appid,
+        name: g.name,
+        playtime_forever: g.playtime_forever,
+        rtime_last_played: g.rtime_last_played,
+      })),
+    };
+  },
+
+  titleLabel: (g) => String(g.appid),
+
+  // Played since the watermark, plus never-played games not yet in steam_title_progress (new purchases)
+  delta: {
+    watermark: "steam",
+    changedAt: (g) =>
+      typeof g.rtime_last_played === "number" && g.rtime_last_played > 0
+        ? new Date(g.rtime_last_played * 1000).toISOString()
+        : null,
+    async loadIsKnown(ctx) {
+      const known = await loadKnownSteamAppids(ctx.admin, ctx.userId);
+      return (g) => known.has(String(g.appid));
+    },
+  },
+
+  async mapToRelease(ctx, g) {
+    const res = await mapSteamGameToRelease(ctx.admin, g);
+    if (!res.releaseId) {
+      if (res.errors.length) throw new Error(res.errors.join("; "));
+      return null;
+    }
+    return { releaseId: res.releaseId, created: res.releaseCreated };
+  },
+
+  async fetchProgress(ctx, g, release) {
+    if (!release) return {};
+    const res = await upsertSteamGameProgress(ctx.admin, ctx.admin, ctx.userId, g, release.releaseId);
+    if (res.errors.length) throw new Error(res.errors.join("; "));
+    return {
+      mapped: 1,
+      portfolio_upserted: res.portfolioUpserted ? 1 : 0,
+      enrichment_state_upserted: res.enrichmentStateUpserted ? 1 : 0,
+    };
+  },
+
+  async finalize(ctx, run) {
+    const nowIso = new Date().toISOString();
+    const { error } = await ctx.admin
+      .from("profiles")
+      .update({
+        steam_last_synced_at: nowIso,
+        steam_last_sync_count: run.total,
+        updated_at: nowIso,
+      })
+      .eq("user_id", ctx.userId);
+
+    if (error) throw new Error(`Profile sync stamp: ${error.message}`);
+  },
+};
@@ -0,0 +1,61 @@
+import { normalizeSwitchTitles, type SwitchPlayedTitle } from "@/lib/switch/play-activity";
+import { mapSwitchTitleToRelease, upsertSwitchTitleProgress } from "@/lib/switch/sync";
+import type { PlatformConnector } from "./types";
+
+type SwitchSession = { titles: SwitchPlayedTitle[]; uploadedAt: string | null };
+
+/**
+ * Nintendo Switch: no public API, so the source is the user's last uploaded play activity export
+ * (switch_play_history_uploads, written by POST /api/sync/switch). Re-running re-imports that snapshot.
+ */
+export const switchConnector: PlatformConnector<SwitchSession, SwitchPlayedTitle> = {
+  platform: "switch",
+  label: "Nintendo Switch",
+
+  async authenticate(ctx) {
+    const { data: upload, error } = await ctx.admin
+      .from("switch_play_history_uploads")
+      .select("titles, uploaded_at")
+      .eq("user_id", ctx.userId)
+      .maybeSingle();
+
+    if (error) return { ok: false, error: error.message, status: 500 };
+    const titles = normalizeSwitchTitles(upload?.titles);
+    if (!upload || !titles) {
+      return { ok: false, error: "No Switch play activity uploaded (upload your Nintendo data export first)", status: 400 };
+    }
+
+    return { ok: true, session: { titles, uploadedAt: upload.uploaded_at ?? null } };
+  },
+
+  async listTitles(_ctx, session) {
+    return { ok: true, titles: session.titles, meta: { uploaded_at: session.uploadedAt } };
+  },
+
+  titleLabel: (t) => t.title || t.title_id,
+
+  async mapToRelease(ctx, t) {
+    const res = await mapSwitchTitleToRelease(ctx.admin, t);
+    if (!res.ok) throw new Error(res.error);
+    return { releaseId: res.releaseId, created: res.created };
+  },
+
+  async fetchProgress(ctx, t, release) {
+    if (!release) return {};
+    const res = await upsertSwitchTitleProgress(ctx.admin, ctx.userId, t, release.releaseId);
+    return {
+      playtime_minutes: t.playtime_minutes,
+      ...(release.created || res.portfolioInserted ? { imported: 1 } : { updated: 1 }),
+    };
+  },
+
+  async finalize(ctx, run) {
+    const nowIso = new Date().toISOString();
+    const { error } = await ctx.admin
+      .from("profiles")
+      .update({ switch_last_synced_at: nowIso, switch_last_sync_count: run.total, updated_at: nowIso })
+      .eq("user_id", ctx.userId);
+
+    if (error) throw new Error(`Failed to update profile sync stamp: ${error.message}`);
+  },
+};
@@ -0,0 +1,91 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { SyncPlatform } from "@/lib/sync/record-run";
+import type { WatermarkPlatform } from "@/lib/sync/watermark";
+
+/**
+ * PlatformConnector: everything platform-specific about a sync. The engine (lib/sync/engine.ts)
+ * owns the rest — steps, chunking, cursors, delta filtering, counters, sync_runs — for both the
+ * job queue and the single-request /api/sync/* routes.
+ *
+ * Adding a platform = one connector file + an entry in connectors/index.ts.
+ */
+
+export type ConnectorContext = {
+  /** Service role. Workers have no user session; connectors write user rows with it too. */
+  admin: SupabaseClient;
+  userId: string;
+  /** Per-invocation cache (tokens etc.). Not persisted between job chunks. */
+  memo: Map<string, unknown>;
+  /** Request origin when run from a route (OAuth redirect fallback); workers use NEXT_PUBLIC_SITE_URL. */
+  origin?: string;
+};
+
+/** status < 500 = not retryable (platform not connected / bad credentials). */
+export type ConnectorFailure = { ok: false; error: string; status: number; detail?: unknown };
+
+export type ConnectorAuthResult<S> = { ok: true; session: S } | ConnectorFailure;
+
+export type ConnectorTitleList<T> =
+  | {
+      ok: true;
+      titles: T[];
+      /** Copied onto the run result (gamertag, per-feed totals, ...). */
+      meta?: Record<string, unknown>;
+    }
+  | ConnectorFailure;
+
+export type ConnectorRelease = { releaseId: string; created: boolean };
+
+/** Counter increments for the run result (e.g. { imported: 1 }). */
+export type ConnectorCounts = Record<string, number | undefined>;
+
+/**
+ * isKnown predicate. Declared as a method so, like the connector's own methods, it stays bivariant
+ * in T and every connector fits the PlatformConnector registry type.
+ */
+export type KnownTitleCheck<T> = { isKnown(title: T): boolean }["isKnown"];
+
+export type PlatformConnector<S = unknown, T = unknown> = {
+  platform: SyncPlatform;
+  label: string;
+
+  /** Resolve credentials (tokens, API keys) from profiles. Cached in ctx.memo by the engine. */
+  authenticate(ctx: ConnectorContext): Promise<ConnectorAuthResult<S>>;
+
+  /** Every title in the user's library/history, normalized to what the per-title steps need. */
+  listTitles(ctx: ConnectorContext, session: S): Promise<ConnectorTitleList<T>>;
+
+  /** Short label for per-title error messages. */
+  titleLabel(title: T): string;
+
+  /**
+   * Incremental sync. Omit for platforms that always sync everything.
+   * changedAt: the platform's "last changed" timestamp; isKnown: titles without one that we already have.
+   */
+  delta?: {
+    watermark: WatermarkPlatform;
+    changedAt(title: T): string | null | undefined;
+    loadIsKnown?(ctx: ConnectorContext): Promise<KnownTitleCheck<T>>;
+  };
+
+  /**
+   * release_external_ids -> game -> release -> mapping (see .cursor/rules/platform-sync.mdc).
+   * Null = title skipped (or the platform maps releases elsewhere, e.g. RA via /api/ra/map).
+   */
+  mapToRelease(ctx: ConnectorContext, title: T): Promise<ConnectorRelease | null>;
+
+  /** Per-title user progress: <platform>_title_progress + portfolio_entries. */
+  fetchProgress(ctx: ConnectorContext, title: T, release: ConnectorRelease | null): Promise<ConnectorCounts>;
+
+  /** Optional second pass keyed off synced titles (e.g. PSN trophy groups). */
+  fetchAchievements?: {
+    keys(titles: T[]): string[];
+    fetch(ctx: ConnectorContext, session: S, key: string): Promise<ConnectorCounts>;
+  };
+
+  /** Profile stamps and other once-per-run writes. titles = the titles this run processed. */
+  finalize(
+    ctx: ConnectorContext,
+    run: { titles: T[]; total: number; meta: Record<string, unknown> }
+  ): Promise<void>;
+};
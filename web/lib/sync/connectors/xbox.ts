@@ -0,0 +1,63 @@
+import { loadXboxTitlesForUser, type XboxTitle } from "@/lib/xbox/titles";
+import { mapXboxTitleToRelease, upsertXboxTitleProgress } from "@/lib/xbox/sync";
+import type { PlatformConnector } from "./types";
+
+export const xboxConnector: PlatformConnector<null, XboxTitle> = {
+  platform: "xbox",
+  label: "Xbox",
+
+  async authenticate(ctx) {
+    // Token handshake (and refresh) happens in loadXboxTitlesForUser; here just confirm a token exists.
+    const { data: prof, error } = await ctx.admin
+      .from("profiles")
+      .select("xbox_access_token")
+      .eq("user_id", ctx.userId)
+      .maybeSingle();
+
+    if (error) return { ok: false, error: error.message, status: 500 };
+    if (!prof?.xbox_access_token) return { ok: false, error: "Xbox not connected", status: 400 };
+    return { ok: true, session: null };
+  },
+
+  async listTitles(ctx) {
+    const res = await loadXboxTitlesForUser(ctx.admin, ctx.userId, ctx.origin ?? "");
+    if (!res.ok) return res;
+    return { ok: true, titles: res.titles, meta: { xuid: res.xuid, gamertag: res.gamertag } };
+  },
+
+  titleLabel: (t) => String(t.name ?? t.titleId ?? "?"),
+
+  delta: {
+    watermark: "xbox",
+    changedAt: (t) => t.last_played_at ?? null,
+  },
+
+  async mapToRelease(ctx, t) {
+    const res = await mapXboxTitleToRelease(ctx.admin, t);
+    if (!res) return null;
+    if (!res.ok) throw new Error(res.error);
+    return { releaseId: res.releaseId, created: res.imported };
+  },
+
+  async fetchProgress(ctx, t, release) {
+    if (!release) return {};
+    await upsertXboxTitleProgress(ctx.admin, ctx.userId, t, release.releaseId);
+    return release.created ? { imported: 1 } : { updated: 1 };
+  },
+
+  async finalize(ctx, run) {
+    const { error } = await ctx.admin
+      .from("profiles")
+      .update({
+        xbox_xuid: run.meta.xuid ?? null,
+        xbox_gamertag: run.meta.gamertag ?? null,
+        xbox_last_synced_at: new Date().toISOString(),
+        xbox_last_sync_count: run.total,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("user_id", ctx.userId);
+
+    // Don't fail the whole sync if stamping fails
+    if (error) console.warn(`[Xbox Sync] Profile stamp failed: ${error.message}`);
+  },
+};
@@ -0,0 +1,299 @@
+import { recomputeArchetypesForUser } from "@/lib/insights/recompute";
+import type { SyncPlatform } from "@/lib/sync/record-run";
+import type { SyncJob, SyncJobCursor, SyncStepProgress } from "@/lib/sync/jobs";
+import { partitionByWatermark, loadSyncWatermark, saveSyncWatermark } from "@/lib/sync/watermark";
+import { SYNC_CONNECTORS } from "@/lib/sync/connectors";
+import type {
+  ConnectorContext,
+  ConnectorFailure,
+  PlatformConnector,
+} from "@/lib/sync/connectors/types";
+
+/**
+ * Shared sync engine. Turns a PlatformConnector into ordered steps:
+ *   list          — authenticate, list titles, keep those changed since the watermark, store on job.items
+ *   titles        — mapToRelease + fetchProgress per title, from cursor.offset, CHUNK_SIZE at a time
+ *   achievements  — connector.fetchAchievements per key (only when the connector has one)
+ *   finalize      — watermark, connector.finalize (profile stamps), archetype recompute
+ * The job queue (lib/sync/run-job.ts) runs these across invocations; runConnectorSync runs them
+ * back-to-back inside one request for the /api/sync/* routes.
+ */
+
+export type SyncStepContext = ConnectorContext & {
+  job: SyncJob;
+  /** Epoch ms; chunk steps stop picking up new items after this. */
+  deadline: number;
+};
+
+export type SyncStepOutcome = {
+  /** Step finished; runner advances to the next step with a fresh cursor. */
+  done: boolean;
+  cursor?: SyncJobCursor;
+  /** Only the list step sets items. */
+  items?: unknown;
+  progress?: SyncStepProgress;
+  /** Added onto job.result counters. */
+  counts?: Record<string, number>;
+  /** Copied onto job.result as-is (totals, gamertag, ...). */
+  meta?: Record<string, unknown>;
+  /** Per-title failures; the title is skipped, the job keeps going. */
+  errors?: string[];
+  /** Not retryable (e.g. platform not connected): job fails without backoff. */
+  fatal?: ConnectorFailure;
+};
+
+export type SyncJobHandler = {
+  steps: readonly string[];
+  run(step: string, ctx: SyncStepContext): Promise<SyncStepOutcome>;
+};
+
+/** Items per saved cursor; the runner keeps calling until its deadline. */
+export const CHUNK_SIZE = 25;
+
+/** What the list step stores on job.items. */
+type EngineItems<T> = {
+  titles: T[];
+  keys: string[];
+  total: number;
+  watermark: string | null;
+  watermark_next: string | null;
+};
+
+async function eachChunk<T>(
+  list: T[],
+  ctx: SyncStepContext,
+  fn: (item: T, counts: Record<string, number>) => Promise<void>,
+  label: (item: T) => string
+): Promise<SyncStepOutcome> {
+  let offset = Math.max(0, Number(ctx.job.cursor?.offset ?? 0) || 0);
+  const counts: Record<string, number> = {};
+  const errors: string[] = [];
+  let n = 0;
+
+  while (offset < list.length && n < CHUNK_SIZE && Date.now() < ctx.deadline) {
+    const item = list[offset];
+    try {
+      await fn(item, counts);
+    } catch (e) {
+      counts.errors = (counts.errors ?? 0) + 1;
+      errors.push(`${label(item)}: ${e instanceof Error ? e.message : "failed"}`);
+    }
+    offset += 1;
+    n += 1;
+  }
+
+  return {
+    done: offset >= list.length,
+    cursor: { offset },
+    progress: { done: offset, total: list.length },
+    counts,
+    errors,
+  };
+}
+
+function addCounts(into: Record<string, number>, add: Record<string, number | undefined>) {
+  for (const [k, v] of Object.entries(add)) into[k] = (into[k] ?? 0) + (Number(v) || 0);
+}
+
+/** Authenticate once per invocation; failures with status < 500 are fatal (not connected). */
+async function connectorSession<S, T>(
+  connector: PlatformConnector<S, T>,
+  ctx: SyncStepContext
+): Promise<{ ok: true; session: S } | { ok: false; outcome: SyncStepOutcome }> {
+  const key = `session:${connector.platform}`;
+  let auth = ctx.memo.get(key) as Awaited<ReturnType<typeof connector.authenticate>> | undefined;
+  if (!auth) {
+    auth = await connector.authenticate(ctx);
+    ctx.memo.set(key, auth);
+  }
+  if (auth.ok) return { ok: true, session: auth.session };
+  if (auth.status < 500) return { ok: false, outcome: { done: false, fatal: auth } };
+  throw new Error(auth.error);
+}
+
+export function connectorJobHandler<S, T>(connector: PlatformConnector<S, T>): SyncJobHandler {
+  const steps = ["list", "titles", ...(connector.fetchAchievements ? ["achievements"] : []), "finalize"];
+
+  return {
+    steps,
+    async run(step, ctx) {
+      const items = (ctx.job.items ?? {
+        titles: [],
+        keys: [],
+        total: 0,
+        watermark: null,
+        watermark_next: null,
+      }) as EngineItems<T>;
+
+      if (step === "list") {
+        const auth = await connectorSession(connector, ctx);
+        if (!auth.ok) return auth.outcome;
+
+        const list = await connector.listTitles(ctx, auth.session);
+        if (!list.ok) {
+          if (list.status < 500) return { done: false, fatal: list };
+          throw new Error(list.error);
+        }
+
+        const full = ctx.job.options?.full === true || !connector.delta;
+        const watermark = connector.delta ? await loadSyncWatermark(ctx.admin, ctx.userId, connector.delta.watermark) : null;
+        const since = full ? null : watermark;
+        const isKnown = since && connector.delta?.loadIsKnown ? await connector.delta.loadIsKnown(ctx) : undefined;
+        const delta = partitionByWatermark(list.titles, {
+          watermark: since,
+          full,
+          changedAt: (t) => connector.delta?.changedAt(t) ?? null,
+          isKnown,
+        });
+
+        const keys = connector.fetchAchievements?.keys(delta.changed) ?? [];
+
+        return {
+          done: true,
+          items: {
+            titles: delta.changed,
+            keys,
+            total: list.titles.length,
+            watermark,
+            watermark_next: delta.maxSeen,
+          } satisfies EngineItems<T>,
+          progress: { done: 1, total: 1 },
+          meta: {
+            ...(list.meta ?? {}),
+            total: list.titles.length,
+            full,
+            since,
+            changed: delta.changed.length,
+            skipped: delta.skipped,
+            ...(connector.fetchAchievements ? { achievement_keys: keys.length } : {}),
+          },
+        };
+      }
+
+      if (step === "titles") {
+        return eachChunk(
+          items.titles,
+          ctx,
+          async (title, counts) => {
+            const release = await connector.mapToRelease(ctx, title);
+            if (release?.created) addCounts(counts, { releases_created: 1 });
+            addCounts(counts, await connector.fetchProgress(ctx, title, release));
+          },
+          (title) => connector.titleLabel(title)
+        );
+      }
+
+      if (step === "achievements" && connector.fetchAchievements) {
+        const achievements = connector.fetchAchievements;
+        const auth = await connectorSession(connector, ctx);
+        if (!auth.ok) return auth.outcome;
+
+        return eachChunk(
+          items.keys,
+          ctx,
+          async (key, counts) => addCounts(counts, await achievements.fetch(ctx, auth.session, key)),
+          (key) => key
+        );
+      }
+
+      if (step === "finalize") {
+        // Failed titles must be retried next run, so the watermark only advances on a clean run.
+        if (connector.delta) {
+          await saveSyncWatermark(ctx.admin, ctx.userId, connector.delta.watermark, items.watermark, items.watermark_next, {
+            errors: Number(ctx.job.result?.errors ?? 0),
+          });
+        }
+
+        await connector.finalize(ctx, { titles: items.titles, total: items.total, meta: ctx.job.result ?? {} });
+
+        try {
+          await recomputeArchetypesForUser(ctx.admin, ctx.userId);
+        } catch {
+          // Non-fatal: sync succeeded; archetype snapshot will refresh on next GET or recompute
+        }
+        return { done: true, progress: { done: 1, total: 1 } };
+      }
+
+      return { done: false, fatal: { ok: false, error: `Unknown ${connector.platform} step: ${step}`, status: 400 } };
+    },
+  };
+}
+
+export const SYNC_JOB_HANDLERS = Object.fromEntries(
+  Object.entries(SYNC_CONNECTORS).map(([platform, connector]) => [platform, connectorJobHandler(connector)])
+) as Record<SyncPlatform, SyncJobHandler>;
+
+/** Fold one step outcome into the job (result counters, items, progress, step/cursor). */
+export function applyStepOutcome(
+  job: SyncJob,
+  handler: SyncJobHandler,
+  out: SyncStepOutcome,
+  maxErrors = 50
+): { finished: boolean } {
+  const result: Record<string, unknown> = { ...(job.result ?? {}), ...(out.meta ?? {}) };
+  for (const [k, v] of Object.entries(out.counts ?? {})) {
+    result[k] = (Number(result[k]) || 0) + v;
+  }
+  if (out.errors?.length) {
+    const prev = Array.isArray(result.errors_sample) ? (result.errors_sample as string[]) : [];
+    result.errors_sample = [...prev, ...out.errors].slice(0, maxErrors);
+  }
+  job.result = result;
+  if (out.items !== undefined) job.items = out.items;
+  if (out.progress) job.progress = { ...job.progress, [job.step]: out.progress };
+
+  const nextStep = out.done ? handler.steps[handler.steps.indexOf(job.step) + 1] : job.step;
+  if (out.done && !nextStep) return { finished: true };
+
+  job.cursor = out.done ? {} : out.cursor ?? job.cursor;
+  job.step = nextStep;
+  return { finished: false };
+}
+
+export type ConnectorSyncResult =
+  | { ok: true; result: Record<string, unknown> }
+  | ConnectorFailure;
+
+/**
+ * Run every step of a connector inside the current request (no job row, no chunk saves).
+ * Used by the single-request /api/sync/* routes; large libraries should use the job queue.
+ */
+export async function runConnectorSync(
+  platform: SyncPlatform,
+  ctx: ConnectorContext,
+  opts?: { full?: boolean }
+): Promise<ConnectorSyncResult> {
+  const handler = SYNC_JOB_HANDLERS[platform];
+  const nowIso = new Date().toISOString();
+  const job: SyncJob = {
+    id: "inline",
+    user_id: ctx.userId,
+    platform,
+    status: "running",
+    options: { full: opts?.full === true },
+    step: handler.steps[0],
+    cursor: {},
+    items: null,
+    progress: {},
+    result: null,
+    attempts: 0,
+    max_attempts: 1,
+    next_run_at: nowIso,
+    locked_at: nowIso,
+    locked_by: "inline",
+    last_error: null,
+    run_id: null,
+    created_at: nowIso,
+    updated_at: nowIso,
+    finished_at: null,
+  };
+  const stepCtx: SyncStepContext = { ...ctx, job, deadline: Number.POSITIVE_INFINITY };
+
+  for (;;) {
+    const out = await handler.run(job.step, stepCtx);
+    if (out.fatal) return out.fatal;
+    if (applyStepOutcome(job, handler, out, Number.POSITIVE_INFINITY).finished) {
+      return { ok: true, result: job.result ?? {} };
+    }
+  }
+}
@@ -0,0 +1,204 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { SyncPlatform } from "@/lib/sync/record-run";
+
+/**
+ * Persistence for the resumable sync queue (public.sync_jobs).
+ * All writes go through the service-role client; users only read their own rows (RLS).
+ */
+
+export type SyncJobStatus = "queued" | "running" | "ok" | "error" | "cancelled";
+
+export type SyncStepProgress = { done: number; total: number | null };
+
+export type SyncJobCursor = { offset?: number } & Record<string, unknown>;
+
+/** full: ignore the platform watermark and re-sync every title. */
+export type SyncJobOptions = { full?: boolean };
+
+export type SyncJob = {
+  id: string;
+  user_id: string;
+  platform: SyncPlatform;
+  status: SyncJobStatus;
+  options: SyncJobOptions;
+  step: string;
+  cursor: SyncJobCursor;
+  items: unknown;
+  progress: Record<string, SyncStepProgress>;
+  result: Record<string, unknown> | null;
+  attempts: number;
+  max_attempts: number;
+  next_run_at: string;
+  locked_at: string | null;
+  locked_by: string | null;
+  last_error: string | null;
+  run_id: string | null;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+};
+
+export const SYNC_JOB_PLATFORMS: SyncPlatform[] = ["psn", "xbox", "steam", "ra", "gog", "switch"];
+
+/** Public columns (never items — the captured title list can be large). */
+export const SYNC_JOB_PUBLIC_COLUMNS =
+  "id, platform, status, options, step, progress, result, attempts, max_attempts, next_run_at, last_error, run_id, created_at, updated_at, finished_at";
+
+const RETRY_BASE_MS = 30_000;
+const RETRY_MAX_MS = 30 * 60_000;
+
+/**
+ * Exponential backoff after a failed chunk: 30s, 1m, 2m, 4m ... capped at 30m.
+ */
+export function syncRetryDelayMs(attempts: number): number {
+  const n = Math.max(1, Math.floor(attempts));
+  return Math.min(RETRY_BASE_MS * 2 ** (n - 1), RETRY_MAX_MS);
+}
+
+export function isSyncPlatform(v: unknown): v is SyncPlatform {
+  return typeof v === "string" && (SYNC_JOB_PLATFORMS as string[]).includes(v);
+}
+
+/**
+ * Queue a sync for (user, platform). If one is already queued/running, return it instead
+ * (partial unique index sync_jobs_active_user_platform_uq).
+ */
+export async function enqueueSyncJob(
+  admin: SupabaseClient,
+  userId: string,
+  platform: SyncPlatform,
+  options?: SyncJobOptions
+): Promise<{ job: SyncJob; created: boolean }> {
+  const { data, error } = await admin
+    .from("sync_jobs")
+    .insert({ user_id: userId, platform, options: options ?? {} })
+    .select("*")
+    .single();
+
+  if (!error && data) return { job: data as SyncJob, created: true };
+
+  if (error?.code !== "23505") throw new Error(`sync_jobs insert failed: ${error?.message}`);
+
+  const { data: existing, error: exErr } = await admin
+    .from("sync_jobs")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("platform", platform)
+    .in("status", ["queued", "running"])
+    .maybeSingle();
+
+  if (exErr || !existing) throw new Error(`sync_jobs lookup failed: ${exErr?.message ?? "no active job"}`);
+  return { job: existing as SyncJob, created: false };
+}
+
+/**
+ * Atomically lock the oldest due job (or jobId when given) for this worker. Null when nothing is due.
+ */
+export async function claimSyncJob(
+  admin: SupabaseClient,
+  worker: string,
+  opts?: { jobId?: string; lockSeconds?: number }
+): Promise<SyncJob | null> {
+  const { data, error } = await admin.rpc("claim_sync_job", {
+    p_worker: worker,
+    p_job_id: opts?.jobId ?? null,
+    p_lock_seconds: opts?.lockSeconds ?? 300,
+  });
+
+  if (error) throw new Error(`claim_sync_job failed: ${error.message}`);
+  const rows = Array.isArray(data) ? data : data ? [data] : [];
+  return (rows[0] as SyncJob | undefined) ?? null;
+}
+
+/**
+ * Save step/cursor/progress after a chunk. Also refreshes locked_at so a long run isn't reclaimed.
+ * The runner passes attempts: 0 after a chunk succeeds, so max_attempts bounds consecutive failures.
+ * Returns false when the job is no longer running (cancelled meanwhile) — the runner stops.
+ */
+export async function saveSyncJob(
+  admin: SupabaseClient,
+  jobId: string,
+  patch: Partial<Pick<SyncJob, "step" | "cursor" | "items" | "progress" | "result" | "run_id" | "attempts">>
+): Promise<boolean> {
+  const now = new Date().toISOString();
+  const { data, error } = await admin
+    .from("sync_jobs")
+    .update({ ...patch, locked_at: now, updated_at: now })
+    .eq("id", jobId)
+    .eq("status", "running")
+    .select("id");
+
+  if (error) throw new Error(`sync_jobs update failed: ${error.message}`);
+  return Array.isArray(data) && data.length > 0;
+}
+
+/**
+ * Unlock a running job that still has work left so the next worker (or client poll) picks it up.
+ */
+export async function releaseSyncJob(admin: SupabaseClient, jobId: string): Promise<void> {
+  const now = new Date().toISOString();
+  await admin
+    .from("sync_jobs")
+    .update({ status: "queued", locked_at: null, locked_by: null, next_run_at: now, updated_at: now })
+    .eq("id", jobId)
+    .eq("status", "running");
+}
+
+export async function completeSyncJob(admin: SupabaseClient, jobId: string): Promise<void> {
+  const now = new Date().toISOString();
+  await admin
+    .from("sync_jobs")
+    .update({
+      status: "ok",
+      locked_at: null,
+      locked_by: null,
+      last_error: null,
+      finished_at: now,
+      updated_at: now,
+    })
+    .eq("id", jobId)
+    .eq("status", "running");
+}
+
+/**
+ * Record a failed chunk. The cursor is kept, so the retry resumes where the chunk started.
+ * Returns the new status: "queued" (retry scheduled with backoff) or "error" (out of attempts).
+ */
+export async function failSyncJob(
+  admin: SupabaseClient,
+  job: Pick<SyncJob, "id" | "attempts" | "max_attempts">,
+  message: string
+): Promise<{ status: "queued" | "error"; attempts: number; nextRunAt: string | null }> {
+  const attempts = job.attempts + 1;
+  const now = Date.now();
+  const nowIso = new Date(now).toISOString();
+  const exhausted = attempts >= job.max_attempts;
+  const nextRunAt = exhausted ? null : new Date(now + syncRetryDelayMs(attempts)).toISOString();
+
+  await admin
+    .from("sync_jobs")
+    .update({
+      status: exhausted ? "error" : "queued",
+      attempts,
+      last_error: message,
+      locked_at: null,
+      locked_by: null,
+      ...(nextRunAt ? { next_run_at: nextRunAt } : { finished_at: nowIso }),
+      updated_at: nowIso,
+    })
+    .eq("id", job.id);
+
+  return { status: exhausted ? "error" : "queued", attempts, nextRunAt };
+}
+
+export async function cancelSyncJob(admin: SupabaseClient, jobId: string): Promise<boolean> {
+  const now = new Date().toISOString();
+  const { data } = await admin
+    .from("sync_jobs")
+    .update({ status: "cancelled", locked_at: null, locked_by: null, finished_at: now, updated_at: now })
+    .eq("id", jobId)
+    .in("status", ["queued", "running"])
+    .select("id");
+
+  return Array.isArray(data) && data.length > 0;
+}
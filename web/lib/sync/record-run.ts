@@ -1,11 +1,22 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
 
-export type SyncPlatform = "psn" | "xbox" | "steam" | "ra";
+export type SyncPlatform = "psn" | "xbox" | "steam" | "ra" | "gog" | "switch";
+
+/** sync_runs.platform values that count as a run of each platform (older rows used route names). */
+export const RUN_PLATFORM_KEYS: Record<string, string[]> = {
+  psn: ["psn"],
+  xbox: ["xbox"],
+  steam: ["steam", "steam-thin", "steam_enrich", "steam-enrich"],
+  ra: ["ra", "retroachievements"],
+  gog: ["gog"],
+  switch: ["switch"],
+};
 
 export async function recordSyncStart(
   supabase: SupabaseClient,
   userId: string,
-  platform: SyncPlatform
+  platform: SyncPlatform,
+  opts?: { jobId?: string }
 ): Promise<string | null> {
   const { data, error } = await supabase
     .from("sync_runs")
@@ -13,6 +24,7 @@ export async function recordSyncStart(
       user_id: userId,
       platform,
       status: "syncing",
+      ...(opts?.jobId ? { job_id: opts.jobId } : {}),
     })
     .select("id")
     .single();
@@ -21,6 +33,19 @@ export async function recordSyncStart(
   return data?.id ?? null;
 }
 
+/**
+ * Job-driven runs: write per-step progress while the run is still "syncing".
+ */
+export async function recordSyncProgress(
+  supabase: SupabaseClient,
+  runId: string | null,
+  progress: unknown
+): Promise<void> {
+  if (!runId) return;
+
+  await supabase.from("sync_runs").update({ progress_json: progress }).eq("id", runId);
+}
+
 export async function recordSyncEnd(
   supabase: SupabaseClient,
   runId: string | null,
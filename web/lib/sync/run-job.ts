@@ -0,0 +1,108 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { recordSyncEnd, recordSyncProgress, recordSyncStart } from "@/lib/sync/record-run";
+import { applyStepOutcome, SYNC_JOB_HANDLERS, type SyncStepContext } from "@/lib/sync/engine";
+import {
+  completeSyncJob,
+  failSyncJob,
+  releaseSyncJob,
+  saveSyncJob,
+  type SyncJob,
+  type SyncJobStatus,
+} from "@/lib/sync/jobs";
+
+/** Default per-invocation budget; leaves headroom under a 60s serverless limit. */
+export const SYNC_JOB_BUDGET_MS = 45_000;
+
+const MAX_RESULT_ERRORS = 50;
+
+export type SyncJobRunResult = {
+  jobId: string;
+  status: SyncJobStatus;
+  step: string;
+  error?: string;
+};
+
+/**
+ * Time a job has spent running: what earlier invocations recorded on result.worked_ms plus this
+ * invocation since its claim. Time spent queued or in retry backoff is not counted.
+ */
+export function syncJobWorkedMs(job: Pick<SyncJob, "result">, claimedMs: number, nowMs: number): number {
+  return (Number(job.result?.worked_ms) || 0) + Math.max(0, nowMs - claimedMs);
+}
+
+/**
+ * Drive a claimed (status = running) job through its steps until it finishes or budgetMs runs out.
+ * Progress is saved after every chunk, so a timeout only repeats the current chunk. Unfinished jobs
+ * are released back to "queued" for the next worker tick or client poll.
+ */
+export async function runSyncJob(
+  admin: SupabaseClient,
+  claimed: SyncJob,
+  opts?: { budgetMs?: number }
+): Promise<SyncJobRunResult> {
+  const deadline = Date.now() + (opts?.budgetMs ?? SYNC_JOB_BUDGET_MS);
+  const job: SyncJob = { ...claimed, cursor: claimed.cursor ?? {}, progress: claimed.progress ?? {} };
+  const handler = SYNC_JOB_HANDLERS[job.platform];
+  const claimedMs = new Date(claimed.locked_at ?? "").getTime() || Date.now();
+  const workedBefore: Pick<SyncJob, "result"> = { result: claimed.result };
+  const workedMs = () => syncJobWorkedMs(workedBefore, claimedMs, Date.now());
+
+  const endRun = async (status: "ok" | "error", errorMessage?: string) => {
+    await recordSyncEnd(admin, job.run_id, status, {
+      durationMs: workedMs(),
+      errorMessage,
+      resultJson: { ok: status === "ok", job_id: job.id, ...(job.result ?? {}), ...(errorMessage ? { error: errorMessage } : {}) },
+    });
+  };
+
+  const fail = async (message: string, permanent: boolean): Promise<SyncJobRunResult> => {
+    const res = await failSyncJob(admin, permanent ? { ...job, attempts: job.max_attempts } : job, message);
+    if (res.status === "error") await endRun("error", message);
+    return { jobId: job.id, status: res.status, step: job.step, error: message };
+  };
+
+  if (!handler) return fail(`Unsupported platform: ${job.platform}`, true);
+
+  if (!job.run_id) {
+    job.run_id = await recordSyncStart(admin, job.user_id, job.platform, { jobId: job.id });
+    await saveSyncJob(admin, job.id, { run_id: job.run_id });
+  }
+
+  const ctx: SyncStepContext = { admin, userId: job.user_id, job, deadline, memo: new Map() };
+
+  try {
+    while (Date.now() < deadline) {
+      const out = await handler.run(job.step, ctx);
+      if (out.fatal) return fail(out.fatal.error, true);
+
+      if (applyStepOutcome(job, handler, out, MAX_RESULT_ERRORS).finished) {
+        await completeSyncJob(admin, job.id);
+        await endRun("ok");
+        return { jobId: job.id, status: "ok", step: job.step };
+      }
+
+      // A chunk went through: earlier transient failures no longer count towards max_attempts.
+      job.attempts = 0;
+      job.result = { ...(job.result ?? {}), worked_ms: workedMs() };
+      const stillRunning = await saveSyncJob(admin, job.id, {
+        attempts: 0,
+        step: job.step,
+        cursor: job.cursor,
+        progress: job.progress,
+        result: job.result,
+        ...(out.items !== undefined ? { items: job.items } : {}),
+      });
+      await recordSyncProgress(admin, job.run_id, { step: job.step, steps: job.progress });
+
+      if (!stillRunning) {
+        await endRun("error", "Cancelled");
+        return { jobId: job.id, status: "cancelled", step: job.step };
+      }
+    }
+  } catch (e) {
+    return fail(e instanceof Error ? e.message : "Sync step failed", false);
+  }
+
+  await releaseSyncJob(admin, job.id);
+  return { jobId: job.id, status: "queued", step: job.step };
+}
@@ -0,0 +1,219 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { RUN_PLATFORM_KEYS, type SyncPlatform } from "@/lib/sync/record-run";
+import { enqueueSyncJob } from "@/lib/sync/jobs";
+
+/**
+ * Automatic re-sync: per-user cadence in sync_schedules, evaluated by GET /api/cron/resync.
+ * decideResync is pure (clock passed in) so the cadence/backoff rules are unit-testable.
+ */
+
+export type Clock = { now: () => Date };
+
+export const systemClock: Clock = { now: () => new Date() };
+
+/** Fixed or advanceable clock for tests and local runs (?now= on the cron route outside production). */
+export function fakeClock(start: Date | string): Clock & { advance: (ms: number) => void; set: (d: Date | string) => void } {
+  let t = new Date(start).getTime();
+  return {
+    now: () => new Date(t),
+    advance: (ms) => {
+      t += ms;
+    },
+    set: (d) => {
+      t = new Date(d).getTime();
+    },
+  };
+}
+
+export const SCHEDULE_INTERVAL_HOURS = { min: 6, max: 168, default: 24 } as const;
+
+/** Platforms with a remote library to poll. GOG and Switch import from uploads, so re-running finds nothing new. */
+export const SCHEDULED_SYNC_PLATFORMS: SyncPlatform[] = ["psn", "xbox", "steam", "ra"];
+
+export function isScheduledSyncPlatform(v: unknown): v is SyncPlatform {
+  return typeof v === "string" && (SCHEDULED_SYNC_PLATFORMS as string[]).includes(v);
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+/** Backoff never pushes a platform further out than this. */
+export const MAX_BACKOFF_MS = 7 * 24 * HOUR_MS;
+
+export type SyncSchedule = {
+  user_id: string;
+  platform: SyncPlatform;
+  enabled: boolean;
+  interval_hours: number;
+  next_due_at: string;
+  consecutive_errors: number;
+  last_enqueued_at: string | null;
+  last_job_id: string | null;
+  last_decision: string | null;
+};
+
+export type RecentRun = { status: string | null; started_at: string };
+
+export type ResyncSkipReason = "disabled" | "not_due" | "active_job" | "recent_run" | "backoff";
+
+export type ResyncDecision =
+  | { action: "enqueue"; nextDueAt: Date; consecutiveErrors: number }
+  | { action: "skip"; reason: ResyncSkipReason; nextDueAt: Date; consecutiveErrors: number };
+
+/** Leading run of "error" rows (runs newest first). A "syncing" row doesn't break the streak. */
+export function countConsecutiveErrors(runs: RecentRun[]): number {
+  let n = 0;
+  for (const r of runs) {
+    if (r.status === "syncing") continue;
+    if (r.status !== "error") break;
+    n += 1;
+  }
+  return n;
+}
+
+/** interval × 2^errors, capped at MAX_BACKOFF_MS (never shorter than the interval itself). */
+export function effectiveIntervalMs(intervalHours: number, consecutiveErrors: number): number {
+  const base = intervalHours * HOUR_MS;
+  if (consecutiveErrors <= 0) return base;
+  return Math.max(base, Math.min(base * 2 ** consecutiveErrors, MAX_BACKOFF_MS));
+}
+
+/**
+ * Decide whether a schedule row should queue a sync now.
+ * recentRuns: this user's sync_runs for the platform, newest first.
+ */
+export function decideResync(input: {
+  now: Date;
+  schedule: Pick<SyncSchedule, "enabled" | "interval_hours" | "next_due_at">;
+  recentRuns: RecentRun[];
+  hasActiveJob: boolean;
+}): ResyncDecision {
+  const { now, schedule, recentRuns, hasActiveJob } = input;
+  const nowMs = now.getTime();
+  const consecutiveErrors = countConsecutiveErrors(recentRuns);
+  const intervalMs = effectiveIntervalMs(schedule.interval_hours, consecutiveErrors);
+
+  if (!schedule.enabled) {
+    return { action: "skip", reason: "disabled", nextDueAt: new Date(schedule.next_due_at), consecutiveErrors };
+  }
+
+  const dueMs = new Date(schedule.next_due_at).getTime();
+  if (Number.isFinite(dueMs) && dueMs > nowMs) {
+    return { action: "skip", reason: "not_due", nextDueAt: new Date(dueMs), consecutiveErrors };
+  }
+
+  if (hasActiveJob) {
+    return { action: "skip", reason: "active_job", nextDueAt: new Date(nowMs + schedule.interval_hours * HOUR_MS), consecutiveErrors };
+  }
+
+  const last = recentRuns[0];
+  const lastMs = last ? new Date(last.started_at).getTime() : NaN;
+  if (Number.isFinite(lastMs) && nowMs - lastMs < intervalMs) {
+    return {
+      action: "skip",
+      reason: consecutiveErrors > 0 ? "backoff" : "recent_run",
+      nextDueAt: new Date(lastMs + intervalMs),
+      consecutiveErrors,
+    };
+  }
+
+  return { action: "enqueue", nextDueAt: new Date(nowMs + intervalMs), consecutiveErrors };
+}
+
+export type ResyncPassResult = {
+  user_id: string;
+  platform: SyncPlatform;
+  action: "enqueue" | "skip";
+  reason?: ResyncSkipReason;
+  job_id?: string;
+  next_due_at: string;
+  error?: string;
+};
+
+/**
+ * One scheduler pass: load due enabled schedules, decide each, queue jobs and push next_due_at.
+ */
+export async function runResyncPass(
+  admin: SupabaseClient,
+  clock: Clock = systemClock,
+  opts?: { limit?: number }
+): Promise<ResyncPassResult[]> {
+  const now = clock.now();
+  const nowIso = now.toISOString();
+
+  const { data: due, error } = await admin
+    .from("sync_schedules")
+    .select("user_id, platform, enabled, interval_hours, next_due_at, consecutive_errors, last_enqueued_at, last_job_id, last_decision")
+    .eq("enabled", true)
+    .lte("next_due_at", nowIso)
+    .order("next_due_at", { ascending: true })
+    .limit(opts?.limit ?? 200);
+
+  if (error) throw new Error(`sync_schedules load failed: ${error.message}`);
+
+  const results: ResyncPassResult[] = [];
+
+  for (const schedule of (due ?? []) as SyncSchedule[]) {
+    const platform = schedule.platform;
+    try {
+      const [{ data: runs }, { data: active }] = await Promise.all([
+        admin
+          .from("sync_runs")
+          .select("status, started_at")
+          .eq("user_id", schedule.user_id)
+          .in("platform", RUN_PLATFORM_KEYS[platform] ?? [platform])
+          .order("started_at", { ascending: false })
+          .limit(10),
+        admin
+          .from("sync_jobs")
+          .select("id")
+          .eq("user_id", schedule.user_id)
+          .eq("platform", platform)
+          .in("status", ["queued", "running"])
+          .limit(1),
+      ]);
+
+      const decision = decideResync({
+        now,
+        schedule,
+        recentRuns: (runs ?? []) as RecentRun[],
+        hasActiveJob: (active ?? []).length > 0,
+      });
+
+      let jobId: string | undefined;
+      if (decision.action === "enqueue") {
+        const { job } = await enqueueSyncJob(admin, schedule.user_id, platform);
+        jobId = job.id;
+      }
+
+      await admin
+        .from("sync_schedules")
+        .update({
+          next_due_at: decision.nextDueAt.toISOString(),
+          consecutive_errors: decision.consecutiveErrors,
+          last_decision: decision.action === "enqueue" ? "enqueue" : decision.reason,
+          ...(jobId ? { last_enqueued_at: nowIso, last_job_id: jobId } : {}),
+          updated_at: nowIso,
+        })
+        .eq("user_id", schedule.user_id)
+        .eq("platform", platform);
+
+      results.push({
+        user_id: schedule.user_id,
+        platform,
+        action: decision.action,
+        reason: decision.action === "skip" ? decision.reason : undefined,
+        job_id: jobId,
+        next_due_at: decision.nextDueAt.toISOString(),
+      });
+    } catch (e) {
+      results.push({
+        user_id: schedule.user_id,
+        platform,
+        action: "skip",
+        next_due_at: schedule.next_due_at,
+        error: e instanceof Error ? e.message : "Scheduler failed",
+      });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,144 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Incremental (delta) sync: per-platform high-water mark on profiles.
+ *   PSN   — trophy lastUpdatedDateTime / played lastPlayedDateTime
+ *   Xbox  — title last_played_at
+ *   Steam — rtime_last_played
+ * Titles at or before the mark are skipped unless the sync runs with full=true.
+ */
+
+export type WatermarkPlatform = "psn" | "xbox" | "steam";
+
+const WATERMARK_COLUMN: Record<WatermarkPlatform, string> = {
+  psn: "psn_sync_watermark",
+  xbox: "xbox_sync_watermark",
+  steam: "steam_sync_watermark",
+};
+
+/** ?full=true (or 1) on a sync route bypasses the watermark. */
+export function parseFullFlag(req: Request): boolean {
+  const v = new URL(req.url).searchParams.get("full");
+  return v === "true" || v === "1";
+}
+
+function toMs(v: string | null | undefined): number | null {
+  if (!v) return null;
+  const ms = new Date(v).getTime();
+  return Number.isFinite(ms) ? ms : null;
+}
+
+export function maxIso(...values: (string | null | undefined)[]): string | null {
+  let best: number | null = null;
+  for (const v of values) {
+    const ms = toMs(v);
+    if (ms != null && (best == null || ms > best)) best = ms;
+  }
+  return best == null ? null : new Date(best).toISOString();
+}
+
+export type WatermarkPartition<T> = {
+  changed: T[];
+  skipped: number;
+  /** Newest timestamp across all items (changed or not); next watermark on success. */
+  maxSeen: string | null;
+};
+
+/**
+ * Split items into changed vs skipped. An item without a timestamp is processed unless
+ * isKnown says we already have it (e.g. never-played Steam games).
+ */
+export function partitionByWatermark<T>(
+  items: T[],
+  opts: {
+    watermark: string | null;
+    full: boolean;
+    changedAt: (item: T) => string | null | undefined;
+    isKnown?: (item: T) => boolean;
+  }
+): WatermarkPartition<T> {
+  const markMs = opts.full ? null : toMs(opts.watermark);
+  const changed: T[] = [];
+  let skipped = 0;
+  let maxSeen: string | null = null;
+
+  for (const item of items) {
+    const ts = opts.changedAt(item);
+    const ms = toMs(ts);
+    if (ms != null) maxSeen = maxIso(maxSeen, ts);
+
+    const isChanged =
+      markMs == null ? true : ms != null ? ms > markMs : !opts.isKnown?.(item);
+    if (isChanged) changed.push(item);
+    else skipped += 1;
+  }
+
+  return { changed, skipped, maxSeen };
+}
+
+export async function loadSyncWatermark(
+  supabase: SupabaseClient,
+  userId: string,
+  platform: WatermarkPlatform
+): Promise<string | null> {
+  const col = WATERMARK_COLUMN[platform];
+  const { data } = await supabase
+    .from("profiles")
+    .select(col)
+    .eq("user_id", userId)
+    .maybeSingle<Record<string, string | null>>();
+  return data?.[col] ?? null;
+}
+
+/**
+ * Mark to store after a run, or null to leave it. A run with per-title errors keeps the old mark
+ * (the failed titles must be retried next run), and the mark never moves backwards.
+ */
+export function nextSyncWatermark(
+  previous: string | null,
+  next: string | null,
+  opts: { errors?: number } = {}
+): string | null {
+  if ((opts.errors ?? 0) > 0) return null;
+  const value = maxIso(previous, next);
+  if (!value || value === maxIso(previous)) return null;
+  return value;
+}
+
+/** Write nextSyncWatermark's result, if any. */
+export async function saveSyncWatermark(
+  supabase: SupabaseClient,
+  userId: string,
+  platform: WatermarkPlatform,
+  previous: string | null,
+  next: string | null,
+  opts: { errors?: number } = {}
+): Promise<void> {
+  const value = nextSyncWatermark(previous, next, opts);
+  if (!value) return;
+
+  await supabase
+    .from("profiles")
+    .update({ [WATERMARK_COLUMN[platform]]: value })
+    .eq("user_id", userId);
+}
+
+/** Steam appids already in steam_title_progress for this user (paged past the 1,000 row cap). */
+export async function loadKnownSteamAppids(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<Set<string>> {
+  const known = new Set<string>();
+  const pageSize = 1000;
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .from("steam_title_progress")
+      .select("steam_appid")
+      .eq("user_id", userId)
+      .range(from, from + pageSize - 1);
+    if (error || !data?.length) break;
+    for (const r of data) if (r?.steam_appid != null) known.add(String(r.steam_appid));
+    if (data.length < pageSize) break;
+  }
+  return known;
+}
@@ -0,0 +1,270 @@
+// web/lib/xbox/sync.ts
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { mergeReleaseInto } from "@/lib/merge-release-into";
+import { releaseExternalIdRow } from "@/lib/release-external-ids";
+import { getOrCreateGameForSync, upsertGameMasterMappingIngest } from "@/lib/sync-game-resolve";
+import { isXboxNonGame } from "@/lib/igdb/server";
+import type { XboxTitle } from "./titles";
+
+/**
+ * Per-title Xbox sync steps shared by POST /api/sync/xbox and the Xbox connector (lib/sync/connectors).
+ * Order: release_external_ids -> game -> release -> mapping -> portfolio_entries -> xbox_title_progress.
+ */
+
+function slugPlatformKey() {
+  return "xbox";
+}
+
+/** Stable label for release and xbox_title_progress. Prefer API generation (360/One/Series), fallback "Xbox". */
+export function platformLabelForTitle(t: XboxTitle): string {
+  const label = t.platform_label?.trim();
+  if (label === "Xbox 360" || label === "Xbox One" || label === "Xbox Series") return label;
+  return "Xbox";
+}
+
+export type XboxTitleSyncResult =
+  | { ok: true; releaseId: string; imported: boolean; updated: boolean }
+  | { ok: false; error: string }
+  | null;
+
+type XboxTitleIdentity = { title: string; xboxTitleId: string; platformLabel: string; isApp: boolean };
+
+/**
+ * Name, numeric titleId, generation label and app flag. Null when the title can't be synced
+ * (no name / no numeric titleId — the achievements API needs it).
+ */
+function xboxTitleIdentity(t: XboxTitle): XboxTitleIdentity | null {
+  const title = String(t.name || "").trim();
+  if (!title) return null;
+
+  const platformLabel = platformLabelForTitle(t);
+  const isApp = t?.isGame === false || isXboxNonGame(title);
+
+  // titleId must be numeric for achievements API to work
+  const rawTitleId = t.titleId || t.pfTitleId;
+  const xboxTitleId = rawTitleId != null ? String(rawTitleId).trim() : "";
+
+  // Skip if no valid numeric titleId (we can't fetch achievements without it)
+  if (!xboxTitleId || isNaN(Number(xboxTitleId))) {
+    console.warn(`[Xbox Sync] Skipping ${title} - no valid titleId (got: ${rawTitleId})`);
+    return null;
+  }
+
+  return { title, xboxTitleId, platformLabel, isApp };
+}
+
+/**
+ * release_external_ids -> game -> release -> mapping for one title. `updated` = mapping already existed.
+ */
+export async function mapXboxTitleToRelease(admin: SupabaseClient, t: XboxTitle): Promise<XboxTitleSyncResult> {
+  let imported = false;
+  let updated = false;
+
+  const ident = xboxTitleIdentity(t);
+  if (!ident) return null;
+  const { title, xboxTitleId, platformLabel, isApp } = ident;
+
+  // 1) Resolve platform external id = xboxTitleId
+  // 2) Find release_external_ids(source, external_id) → release_id
+  const { data: mapRow, error: mapErr } = await admin
+    .from("release_external_ids")
+    .select("release_id")
+    .eq("source", "xbox")
+    .eq("external_id", xboxTitleId)
+    .maybeSingle();
+
+  if (mapErr) {
+    return { ok: false, error: `release_external_ids lookup: ${mapErr.message}` };
+  }
+
+  let releaseId: string | null = mapRow?.release_id ? String(mapRow.release_id) : null;
+  let gameId: string | null = null;
+
+  if (releaseId) {
+    const { data: rel } = await admin
+      .from("releases")
+      .select("game_id")
+      .eq("id", releaseId)
+      .maybeSingle();
+    gameId = rel?.game_id ?? null;
+    const updatePayload: Record<string, unknown> = { platform_label: platformLabel, updated_at: new Date().toISOString() };
+    if (isApp) updatePayload.content_type = "app";
+    await admin.from("releases").update(updatePayload).eq("id", releaseId);
+    if (isApp && gameId) await admin.from("games").update({ content_type: "app", updated_at: new Date().toISOString() }).eq("id", gameId);
+    updated = true;
+  }
+
+  // 3) If no release: upsert mapping metadata, then resolve game_id (game_external_refs + game_match_queue; no IGDB inline). Apps get content_type='app'.
+  if (!releaseId) {
+    await upsertGameMasterMappingIngest(admin, {
+      source: "xbox",
+      external_id: xboxTitleId,
+      source_title: title,
+      source_platform: platformLabel,
+    });
+    try {
+      const res = await getOrCreateGameForSync(admin, {
+        source: "xbox",
+        external_id: xboxTitleId,
+        raw_title: title,
+        platform_key: "xbox",
+        isApp,
+      });
+      gameId = res.game_id;
+    } catch (e) {
+      return { ok: false, error: `game for ${title}: ${e instanceof Error ? e.message : "unknown"}` };
+    }
+
+    const { data: existingRelease, error: findErr } = await admin
+      .from("releases")
+      .select("id")
+      .eq("platform_key", slugPlatformKey())
+      .eq("game_id", gameId)
+      .maybeSingle();
+
+    if (findErr) {
+      return { ok: false, error: `release lookup: ${findErr.message}` };
+    }
+
+    if (existingRelease?.id) {
+      releaseId = String(existingRelease.id);
+      const patch: Record<string, unknown> = { updated_at: new Date().toISOString() };
+      if (isApp) patch.content_type = "app";
+      if (Object.keys(patch).length > 1) await admin.from("releases").update(patch).eq("id", releaseId);
+    } else {
+      // Fallback: find existing by (platform_key, display_title, platform_label) and attach game_id (avoid duplicate release)
+      const { data: existingByTitle, error: titleErr } = await admin
+        .from("releases")
+        .select("id")
+        .eq("platform_key", slugPlatformKey())
+        .eq("display_title", title.trim())
+        .eq("platform_label", platformLabel)
+        .maybeSingle();
+
+      if (!titleErr && existingByTitle?.id) {
+        releaseId = String(existingByTitle.id);
+        const patch: Record<string, unknown> = {
+          game_id: gameId,
+          xbox_title_id: xboxTitleId,
+          platform_label: platformLabel,
+          updated_at: new Date().toISOString(),
+        };
+        if (isApp) patch.content_type = "app";
+        await admin.from("releases").update(patch).eq("id", releaseId);
+      } else {
+        const releaseInsert: Record<string, unknown> = {
+          game_id: gameId,
+          display_title: title,
+          platform_name: "Xbox",
+          platform_key: slugPlatformKey(),
+          platform_label: platformLabel,
+          cover_url: null,
+          xbox_title_id: xboxTitleId,
+        };
+        if (isApp) releaseInsert.content_type = "app";
+        const { data: newRelease, error: rErr } = await admin
+          .from("releases")
+          .insert(releaseInsert)
+          .select("id")
+          .single();
+
+        if (rErr) {
+          const code = (rErr as { code?: string })?.code;
+          if (code === "23505") {
+            const { data: raced } = await admin
+              .from("releases")
+              .select("id")
+              .eq("platform_key", slugPlatformKey())
+              .eq("game_id", gameId)
+              .maybeSingle();
+            if (raced?.id) releaseId = String(raced.id);
+            else {
+              return { ok: false, error: `release 23505 but no row for ${title}` };
+            }
+          } else {
+            return { ok: false, error: `release insert ${title}: ${rErr?.message || "unknown"}` };
+          }
+        } else if (newRelease?.id) {
+          releaseId = String(newRelease.id);
+          imported = true;
+        } else {
+          return { ok: false, error: `release insert ${title}: no id returned` };
+        }
+      }
+    }
+
+    await admin
+      .from("release_external_ids")
+      .upsert(releaseExternalIdRow(releaseId, "xbox", xboxTitleId), {
+        onConflict: "source,external_id",
+        ignoreDuplicates: true,
+      });
+
+    const { data: currentMap } = await admin
+      .from("release_external_ids")
+      .select("release_id")
+      .eq("source", "xbox")
+      .eq("external_id", xboxTitleId)
+      .maybeSingle();
+
+    if (currentMap?.release_id && String(currentMap.release_id) !== releaseId) {
+      await mergeReleaseInto(admin, String(currentMap.release_id), releaseId);
+      releaseId = String(currentMap.release_id);
+    }
+  }
+
+  if (!releaseId) return null;
+
+  return { ok: true, releaseId, imported, updated };
+}
+
+/**
+ * portfolio_entries (don't overwrite manual edits) + xbox_title_progress for a mapped title.
+ */
+export async function upsertXboxTitleProgress(
+  supabaseUser: SupabaseClient,
+  userId: string,
+  t: XboxTitle,
+  releaseId: string
+): Promise<void> {
+  const ident = xboxTitleIdentity(t);
+  if (!ident) return;
+  const { title, xboxTitleId, platformLabel } = ident;
+
+  // Portfolio entry (don’t overwrite manual edits)
+  const { data: existingEntry } = await supabaseUser
+    .from("portfolio_entries")
+    .select("user_id, release_id")
+    .eq("user_id", userId)
+    .eq("release_id", releaseId)
+    .maybeSingle();
+
+  if (!existingEntry) {
+    await supabaseUser.from("portfolio_entries").insert({
+      user_id: userId,
+      release_id: releaseId,
+      status: "owned",
+      updated_at: new Date().toISOString(),
+    });
+  }
+
+  // Write per-title Xbox progress (so score + played-on timeline can use generation)
+  await supabaseUser
+    .from("xbox_title_progress")
+    .upsert(
+      {
+        user_id: userId,
+        title_id: xboxTitleId, // Must be numeric (validated above)
+        title_name: title,
+        title_platform: platformLabel, // "Xbox 360" | "Xbox One" | "Xbox Series" | "Xbox"
+        achievements_earned: t.achievements_earned ?? null,
+        achievements_total: t.achievements_total ?? null,
+        gamerscore_earned: t.gamerscore_earned ?? null,
+        gamerscore_total: t.gamerscore_total ?? null,
+        last_played_at: t.last_played_at ?? null,
+        last_updated_at: new Date().toISOString(),
+        release_id: releaseId,
+      },
+      { onConflict: "user_id,title_id" }
+    );
+}
@@ -8,6 +8,8 @@ const nextConfig = {
       { protocol: "https", hostname: "www.mobygames.com" },
       { protocol: "https", hostname: "mobygames.com" },
       { protocol: "https", hostname: "**.mobygames.com" },
+      // cached cover variants (COVER_STORAGE=supabase)
+      { protocol: "https", hostname: "**.supabase.co", pathname: "/storage/v1/object/public/covers/**" },
     ],
   },
 };
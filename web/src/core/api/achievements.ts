@@ -0,0 +1,20 @@
+import { apiGet, type ListResponse } from "./client";
+import type { AchievementPlatform, AchievementUnlock } from "@/lib/achievements/unlocks";
+
+export type { AchievementUnlock };
+
+export async function fetchAchievementUnlocks(params: {
+  from?: string;
+  to?: string;
+  month?: string;
+  platform?: AchievementPlatform;
+  release_id?: string;
+  cursor?: string | null;
+  limit?: number;
+}): Promise<ListResponse<AchievementUnlock>> {
+  const qs = new URLSearchParams();
+  for (const [k, v] of Object.entries(params)) {
+    if (v != null && v !== "") qs.set(k, String(v));
+  }
+  return apiGet<ListResponse<AchievementUnlock>>(`/api/achievements/unlocks?${qs}`);
+}
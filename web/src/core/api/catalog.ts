@@ -0,0 +1,23 @@
+import { apiGet } from "./client";
+import type { CatalogSearchItem, CatalogSearchResponse, CatalogFacet } from "@/lib/catalog/search";
+
+export type { CatalogSearchItem, CatalogSearchResponse, CatalogFacet };
+
+export async function fetchCatalogSearch(params: {
+  q: string;
+  platform?: string[];
+  era?: string | null;
+  year_min?: number | null;
+  year_max?: number | null;
+  cursor?: string | null;
+  limit?: number;
+}): Promise<CatalogSearchResponse> {
+  const qs = new URLSearchParams({ q: params.q });
+  if (params.platform?.length) qs.set("platform", params.platform.join(","));
+  if (params.era) qs.set("era", params.era);
+  if (params.year_min != null) qs.set("year_min", String(params.year_min));
+  if (params.year_max != null) qs.set("year_max", String(params.year_max));
+  if (params.cursor) qs.set("cursor", params.cursor);
+  if (params.limit) qs.set("limit", String(params.limit));
+  return apiGet<CatalogSearchResponse>(`/api/catalog/search?${qs}`);
+}
@@ -7,6 +7,30 @@ export {
 } from "./identity";
 export { fetchInsightsArchetypes, type InsightsPayload, type InsightsArchetype } from "./insights";
 export { fetchRelease, fetchReleaseAchievements, type ReleaseDetail } from "./release";
+export { fetchAchievementUnlocks, type AchievementUnlock } from "./achievements";
+export {
+  fetchCatalogSearch,
+  type CatalogSearchItem,
+  type CatalogSearchResponse,
+  type CatalogFacet,
+} from "./catalog";
+export {
+  fetchLeaderboard,
+  type LeaderboardBoard,
+  type LeaderboardScope,
+  type LeaderboardRow,
+  type LeaderboardView,
+} from "./leaderboard";
+export {
+  previewLibraryImport,
+  commitLibraryImport,
+  fetchLibraryImports,
+  undoLibraryImport,
+  type ImportPreview,
+  type ImportBatchSummary,
+  type ImportCommitRow,
+  type ImportSource,
+} from "./library-import";
 export {
   fetchProfileMe,
   fetchSyncStatus,
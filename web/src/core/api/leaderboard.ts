@@ -0,0 +1,15 @@
+import { apiGet } from "./client";
+import type { LeaderboardBoard, LeaderboardScope } from "@/lib/leaderboard/boards";
+import type { LeaderboardRow, LeaderboardView } from "@/lib/leaderboard/ranks";
+
+export type { LeaderboardBoard, LeaderboardScope, LeaderboardRow, LeaderboardView };
+
+export async function fetchLeaderboard(params: {
+  board: LeaderboardBoard;
+  scope?: LeaderboardScope;
+  limit?: number;
+}): Promise<LeaderboardView> {
+  const qs = new URLSearchParams({ board: params.board, scope: params.scope ?? "all" });
+  if (params.limit) qs.set("limit", String(params.limit));
+  return apiGet<LeaderboardView>(`/api/leaderboard?${qs}`);
+}
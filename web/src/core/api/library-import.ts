@@ -0,0 +1,29 @@
+import { apiGet, apiPost } from "./client";
+import type { ImportRow } from "@/lib/import/mapping";
+import type { ImportPreview } from "@/lib/import/match";
+import type { ImportBatchSummary, ImportCommitRow, ImportSource } from "@/lib/import/batches";
+
+export type { ImportPreview, ImportBatchSummary, ImportCommitRow, ImportSource };
+
+export async function previewLibraryImport(rows: ImportRow[]): Promise<ImportPreview & { ok: true }> {
+  return apiPost("/api/portfolio/import/preview", { rows });
+}
+
+export async function commitLibraryImport(body: {
+  source: ImportSource;
+  filename?: string | null;
+  rows: ImportCommitRow[];
+}): Promise<{ ok: true; batch: ImportBatchSummary }> {
+  return apiPost("/api/portfolio/import/commit", body);
+}
+
+export async function fetchLibraryImports(): Promise<ImportBatchSummary[]> {
+  const data = await apiGet<{ ok: true; batches: ImportBatchSummary[] }>("/api/portfolio/import/batches");
+  return data.batches;
+}
+
+export async function undoLibraryImport(
+  batchId: string
+): Promise<{ ok: true; batch: ImportBatchSummary; removed: number; restored: number }> {
+  return apiPost(`/api/portfolio/import/batches/${encodeURIComponent(batchId)}/undo`);
+}